@@ -0,0 +1,56 @@
+CREATE TYPE "public"."return_disposition" AS ENUM('RESTOCK', 'WRITE_OFF');--> statement-breakpoint
+CREATE TYPE "public"."return_reason" AS ENUM('DAMAGED', 'DEFECTIVE', 'WRONG_ITEM', 'NOT_AS_DESCRIBED', 'EXPIRED', 'CHANGED_MIND', 'OTHER');--> statement-breakpoint
+CREATE TYPE "public"."return_type" AS ENUM('CUSTOMER', 'SUPPLIER');--> statement-breakpoint
+CREATE TABLE "return_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"return_id" uuid NOT NULL,
+	"product_id" uuid NOT NULL,
+	"sales_invoice_item_id" uuid,
+	"purchase_order_item_id" uuid,
+	"quantity" integer NOT NULL,
+	"disposition" "return_disposition" NOT NULL,
+	"reason" "return_reason",
+	"unit_amount" numeric(10, 2) NOT NULL,
+	"total_amount" numeric(12, 2) NOT NULL,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_by" uuid,
+	"updated_at" timestamp,
+	"deleted_by" uuid,
+	"deleted_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "returns" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"return_number" text NOT NULL,
+	"return_type" "return_type" NOT NULL,
+	"sales_invoice_id" uuid,
+	"purchase_order_id" uuid,
+	"reason" "return_reason" NOT NULL,
+	"refund_amount" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"notes" text,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_by" uuid,
+	"updated_at" timestamp,
+	"deleted_by" uuid,
+	"deleted_at" timestamp,
+	CONSTRAINT "returns_return_number_unique" UNIQUE("return_number")
+);
+--> statement-breakpoint
+ALTER TABLE "purchase_order_items" ADD COLUMN "quantity_returned" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "purchase_orders" ADD COLUMN "returned_amount" numeric(12, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "sales_invoice_items" ADD COLUMN "quantity_returned" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "sales_invoices" ADD COLUMN "returned_amount" numeric(12, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "return_items" ADD CONSTRAINT "return_items_return_id_returns_id_fk" FOREIGN KEY ("return_id") REFERENCES "public"."returns"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "return_items" ADD CONSTRAINT "return_items_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "return_items" ADD CONSTRAINT "return_items_sales_invoice_item_id_sales_invoice_items_id_fk" FOREIGN KEY ("sales_invoice_item_id") REFERENCES "public"."sales_invoice_items"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "return_items" ADD CONSTRAINT "return_items_purchase_order_item_id_purchase_order_items_id_fk" FOREIGN KEY ("purchase_order_item_id") REFERENCES "public"."purchase_order_items"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "return_items" ADD CONSTRAINT "return_items_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "return_items" ADD CONSTRAINT "return_items_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "return_items" ADD CONSTRAINT "return_items_deleted_by_users_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "returns" ADD CONSTRAINT "returns_sales_invoice_id_sales_invoices_id_fk" FOREIGN KEY ("sales_invoice_id") REFERENCES "public"."sales_invoices"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "returns" ADD CONSTRAINT "returns_purchase_order_id_purchase_orders_id_fk" FOREIGN KEY ("purchase_order_id") REFERENCES "public"."purchase_orders"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "returns" ADD CONSTRAINT "returns_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "returns" ADD CONSTRAINT "returns_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "returns" ADD CONSTRAINT "returns_deleted_by_users_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;
\ No newline at end of file
@@ -0,0 +1,52 @@
+ALTER TYPE "public"."reference_type" ADD VALUE 'TRANSFER';--> statement-breakpoint
+CREATE TABLE "locations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"code" text NOT NULL,
+	"address" text,
+	"is_default" boolean DEFAULT false NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_by" uuid,
+	"updated_at" timestamp,
+	"deleted_by" uuid,
+	"deleted_at" timestamp,
+	CONSTRAINT "locations_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+CREATE TABLE "stock_transfers" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" uuid NOT NULL,
+	"from_location_id" uuid NOT NULL,
+	"to_location_id" uuid NOT NULL,
+	"quantity" integer NOT NULL,
+	"notes" text,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_by" uuid,
+	"updated_at" timestamp,
+	"deleted_by" uuid,
+	"deleted_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "stock" ADD COLUMN "location_id" uuid;--> statement-breakpoint
+ALTER TABLE "stock_transactions" ADD COLUMN "location_id" uuid;--> statement-breakpoint
+-- Existing stock rows move to a default location created for them
+INSERT INTO "locations" ("name", "code", "is_default", "created_by")
+SELECT 'Main Store', 'MAIN', true, "created_by" FROM "stock" ORDER BY "created_at" LIMIT 1;--> statement-breakpoint
+UPDATE "stock" SET "location_id" = (SELECT "id" FROM "locations" WHERE "code" = 'MAIN');--> statement-breakpoint
+UPDATE "stock_transactions" SET "location_id" = (SELECT "id" FROM "locations" WHERE "code" = 'MAIN');--> statement-breakpoint
+ALTER TABLE "stock" ALTER COLUMN "location_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "locations" ADD CONSTRAINT "locations_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "locations" ADD CONSTRAINT "locations_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "locations" ADD CONSTRAINT "locations_deleted_by_users_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_from_location_id_locations_id_fk" FOREIGN KEY ("from_location_id") REFERENCES "public"."locations"("id") ON DELETE restrict ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_to_location_id_locations_id_fk" FOREIGN KEY ("to_location_id") REFERENCES "public"."locations"("id") ON DELETE restrict ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_deleted_by_users_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "stock" ADD CONSTRAINT "stock_location_id_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "public"."locations"("id") ON DELETE restrict ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "stock_transactions" ADD CONSTRAINT "stock_transactions_location_id_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "public"."locations"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "stock" ADD CONSTRAINT "stock_product_location_unique" UNIQUE("product_id","location_id");
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TYPE "public"."reservation_status" AS ENUM('ACTIVE', 'RELEASED', 'CANCELLED', 'EXPIRED');--> statement-breakpoint
+ALTER TYPE "public"."reference_type" ADD VALUE 'RESERVATION';--> statement-breakpoint
+CREATE TABLE "stock_reservations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" uuid NOT NULL,
+	"location_id" uuid NOT NULL,
+	"owner_id" uuid NOT NULL,
+	"quantity" integer NOT NULL,
+	"status" "reservation_status" DEFAULT 'ACTIVE' NOT NULL,
+	"reference_type" "reference_type",
+	"reference_id" uuid,
+	"expires_at" timestamp,
+	"released_at" timestamp,
+	"notes" text,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_by" uuid,
+	"updated_at" timestamp,
+	"deleted_by" uuid,
+	"deleted_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "stock_reservations" ADD CONSTRAINT "stock_reservations_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "stock_reservations" ADD CONSTRAINT "stock_reservations_location_id_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "public"."locations"("id") ON DELETE restrict ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "stock_reservations" ADD CONSTRAINT "stock_reservations_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "stock_reservations" ADD CONSTRAINT "stock_reservations_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "stock_reservations" ADD CONSTRAINT "stock_reservations_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "stock_reservations" ADD CONSTRAINT "stock_reservations_deleted_by_users_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+-- Quantities reserved before reservations were tracked become open-ended reservations
+INSERT INTO "stock_reservations" ("product_id", "location_id", "owner_id", "quantity", "notes", "created_by")
+SELECT "product_id", "location_id", COALESCE("updated_by", "created_by"), "quantity_reserved", 'Reserved before reservation tracking', COALESCE("updated_by", "created_by")
+FROM "stock" WHERE "quantity_reserved" > 0 AND "deleted_at" IS NULL;
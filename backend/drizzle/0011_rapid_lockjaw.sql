@@ -0,0 +1,2 @@
+CREATE INDEX "stock_transactions_created_at_id_idx" ON "stock_transactions" USING btree ("created_at","id");--> statement-breakpoint
+CREATE INDEX "stock_transactions_product_created_at_idx" ON "stock_transactions" USING btree ("product_id","created_at");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "products" ADD COLUMN "reorder_point" integer;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "target_stock_level" integer;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "preferred_supplier_id" uuid;--> statement-breakpoint
+ALTER TABLE "products" ADD CONSTRAINT "products_preferred_supplier_id_suppliers_id_fk" FOREIGN KEY ("preferred_supplier_id") REFERENCES "public"."suppliers"("id") ON DELETE set null ON UPDATE cascade;
\ No newline at end of file
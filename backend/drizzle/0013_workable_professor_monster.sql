@@ -0,0 +1,41 @@
+CREATE TABLE "tax_classes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"code" text NOT NULL,
+	"rate" numeric(5, 2) DEFAULT '0' NOT NULL,
+	"is_inclusive" boolean DEFAULT false NOT NULL,
+	"is_exempt" boolean DEFAULT false NOT NULL,
+	"description" text,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_by" uuid,
+	"updated_at" timestamp,
+	"deleted_by" uuid,
+	"deleted_at" timestamp,
+	CONSTRAINT "tax_classes_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+ALTER TABLE "categories" ADD COLUMN "tax_class_id" uuid;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "tax_class_id" uuid;--> statement-breakpoint
+ALTER TABLE "purchase_order_items" ADD COLUMN "tax_class_id" uuid;--> statement-breakpoint
+ALTER TABLE "purchase_order_items" ADD COLUMN "tax_rate" numeric(5, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "purchase_order_items" ADD COLUMN "tax_inclusive" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "purchase_order_items" ADD COLUMN "taxable_amount" numeric(12, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "purchase_order_items" ADD COLUMN "tax_amount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "purchase_orders" ADD COLUMN "tax_amount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "sales_invoice_items" ADD COLUMN "tax_class_id" uuid;--> statement-breakpoint
+ALTER TABLE "sales_invoice_items" ADD COLUMN "tax_rate" numeric(5, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "sales_invoice_items" ADD COLUMN "tax_inclusive" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "sales_invoice_items" ADD COLUMN "taxable_amount" numeric(12, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "sales_invoice_items" ADD COLUMN "tax_amount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+-- Existing lines predate per-line tax, so their whole line total is treated as the taxable base
+UPDATE "sales_invoice_items" SET "taxable_amount" = "total_price";--> statement-breakpoint
+UPDATE "purchase_order_items" SET "taxable_amount" = "total_price";--> statement-breakpoint
+ALTER TABLE "tax_classes" ADD CONSTRAINT "tax_classes_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "tax_classes" ADD CONSTRAINT "tax_classes_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "tax_classes" ADD CONSTRAINT "tax_classes_deleted_by_users_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "categories" ADD CONSTRAINT "categories_tax_class_id_tax_classes_id_fk" FOREIGN KEY ("tax_class_id") REFERENCES "public"."tax_classes"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "products" ADD CONSTRAINT "products_tax_class_id_tax_classes_id_fk" FOREIGN KEY ("tax_class_id") REFERENCES "public"."tax_classes"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "purchase_order_items" ADD CONSTRAINT "purchase_order_items_tax_class_id_tax_classes_id_fk" FOREIGN KEY ("tax_class_id") REFERENCES "public"."tax_classes"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "sales_invoice_items" ADD CONSTRAINT "sales_invoice_items_tax_class_id_tax_classes_id_fk" FOREIGN KEY ("tax_class_id") REFERENCES "public"."tax_classes"("id") ON DELETE set null ON UPDATE cascade;
\ No newline at end of file
@@ -0,0 +1,38 @@
+CREATE TYPE "public"."promotion_scope" AS ENUM('ALL_PRODUCTS', 'PRODUCT', 'CATEGORY');--> statement-breakpoint
+CREATE TYPE "public"."promotion_type" AS ENUM('PERCENTAGE', 'FIXED_AMOUNT', 'BUY_X_GET_Y');--> statement-breakpoint
+CREATE TABLE "promotions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"promotion_type" "promotion_type" NOT NULL,
+	"scope" "promotion_scope" DEFAULT 'ALL_PRODUCTS' NOT NULL,
+	"product_id" uuid,
+	"category_id" uuid,
+	"discount_value" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"buy_quantity" integer,
+	"get_quantity" integer,
+	"min_subtotal" numeric(12, 2),
+	"starts_at" timestamp,
+	"ends_at" timestamp,
+	"coupon_code" text,
+	"usage_limit" integer,
+	"usage_count" integer DEFAULT 0 NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_by" uuid,
+	"updated_at" timestamp,
+	"deleted_by" uuid,
+	"deleted_at" timestamp,
+	CONSTRAINT "promotions_coupon_code_unique" UNIQUE("coupon_code")
+);
+--> statement-breakpoint
+ALTER TABLE "sales_invoice_items" ADD COLUMN "promotion_id" uuid;--> statement-breakpoint
+ALTER TABLE "sales_invoice_items" ADD COLUMN "discount_amount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "sales_invoices" ADD COLUMN "coupon_code" text;--> statement-breakpoint
+ALTER TABLE "promotions" ADD CONSTRAINT "promotions_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "promotions" ADD CONSTRAINT "promotions_category_id_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."categories"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "promotions" ADD CONSTRAINT "promotions_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "promotions" ADD CONSTRAINT "promotions_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "promotions" ADD CONSTRAINT "promotions_deleted_by_users_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "sales_invoice_items" ADD CONSTRAINT "sales_invoice_items_promotion_id_promotions_id_fk" FOREIGN KEY ("promotion_id") REFERENCES "public"."promotions"("id") ON DELETE set null ON UPDATE cascade;
\ No newline at end of file
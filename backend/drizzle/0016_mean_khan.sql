@@ -0,0 +1,33 @@
+CREATE TYPE "public"."payment_method" AS ENUM('CASH', 'CARD', 'BANK_TRANSFER', 'CHEQUE', 'OTHER');--> statement-breakpoint
+CREATE TYPE "public"."payment_type" AS ENUM('PAYMENT', 'REFUND');--> statement-breakpoint
+CREATE TABLE "payments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"sales_invoice_id" uuid NOT NULL,
+	"payment_type" "payment_type" DEFAULT 'PAYMENT' NOT NULL,
+	"payment_method" "payment_method" NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"reference" text,
+	"notes" text,
+	"received_by" uuid NOT NULL,
+	"received_at" timestamp DEFAULT now() NOT NULL,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_by" uuid,
+	"updated_at" timestamp,
+	"deleted_by" uuid,
+	"deleted_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "sales_invoices" ADD COLUMN "amount_paid" numeric(12, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+-- Invoices already marked paid get a payment for their total so the ledger matches them
+UPDATE "sales_invoices" SET "amount_paid" = "total_amount" WHERE "payment_status" = 'PAID';--> statement-breakpoint
+INSERT INTO "payments" ("sales_invoice_id", "payment_method", "amount", "notes", "received_by", "received_at", "created_by", "created_at")
+SELECT "id", 'OTHER', "total_amount", 'Recorded before the payments ledger', "created_by", "created_at", "created_by", "created_at"
+FROM "sales_invoices" WHERE "payment_status" = 'PAID' AND "total_amount" > 0;--> statement-breakpoint
+ALTER TABLE "payments" ADD CONSTRAINT "payments_sales_invoice_id_sales_invoices_id_fk" FOREIGN KEY ("sales_invoice_id") REFERENCES "public"."sales_invoices"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "payments" ADD CONSTRAINT "payments_received_by_users_id_fk" FOREIGN KEY ("received_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "payments" ADD CONSTRAINT "payments_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "payments" ADD CONSTRAINT "payments_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "payments" ADD CONSTRAINT "payments_deleted_by_users_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+CREATE INDEX "payments_sales_invoice_id_idx" ON "payments" USING btree ("sales_invoice_id");--> statement-breakpoint
+CREATE INDEX "payments_received_at_idx" ON "payments" USING btree ("received_at");
\ No newline at end of file
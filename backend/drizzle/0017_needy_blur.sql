@@ -0,0 +1,83 @@
+CREATE TYPE "public"."bill_match_status" AS ENUM('MATCHED', 'VARIANCE');--> statement-breakpoint
+CREATE TYPE "public"."supplier_bill_status" AS ENUM('OPEN', 'PARTIAL', 'PAID', 'CANCELLED');--> statement-breakpoint
+CREATE TABLE "supplier_bill_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"supplier_bill_id" uuid NOT NULL,
+	"purchase_order_item_id" uuid NOT NULL,
+	"product_id" uuid NOT NULL,
+	"quantity_billed" integer NOT NULL,
+	"unit_cost" numeric(10, 2) NOT NULL,
+	"total_cost" numeric(12, 2) NOT NULL,
+	"taxable_amount" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"tax_amount" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"quantity_variance" integer DEFAULT 0 NOT NULL,
+	"price_variance" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_by" uuid,
+	"updated_at" timestamp,
+	"deleted_by" uuid,
+	"deleted_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "supplier_bills" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"supplier_id" uuid NOT NULL,
+	"purchase_order_id" uuid NOT NULL,
+	"bill_number" text NOT NULL,
+	"bill_date" date NOT NULL,
+	"due_date" date,
+	"subtotal" numeric(12, 2) NOT NULL,
+	"tax_amount" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"total_amount" numeric(12, 2) NOT NULL,
+	"amount_paid" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"status" "supplier_bill_status" DEFAULT 'OPEN' NOT NULL,
+	"match_status" "bill_match_status" NOT NULL,
+	"notes" text,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_by" uuid,
+	"updated_at" timestamp,
+	"deleted_by" uuid,
+	"deleted_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "supplier_payments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"supplier_bill_id" uuid NOT NULL,
+	"supplier_id" uuid NOT NULL,
+	"payment_method" "payment_method" NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"reference" text,
+	"notes" text,
+	"paid_by" uuid NOT NULL,
+	"paid_at" timestamp DEFAULT now() NOT NULL,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_by" uuid,
+	"updated_at" timestamp,
+	"deleted_by" uuid,
+	"deleted_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "supplier_bill_items" ADD CONSTRAINT "supplier_bill_items_supplier_bill_id_supplier_bills_id_fk" FOREIGN KEY ("supplier_bill_id") REFERENCES "public"."supplier_bills"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "supplier_bill_items" ADD CONSTRAINT "supplier_bill_items_purchase_order_item_id_purchase_order_items_id_fk" FOREIGN KEY ("purchase_order_item_id") REFERENCES "public"."purchase_order_items"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "supplier_bill_items" ADD CONSTRAINT "supplier_bill_items_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "supplier_bill_items" ADD CONSTRAINT "supplier_bill_items_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "supplier_bill_items" ADD CONSTRAINT "supplier_bill_items_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "supplier_bill_items" ADD CONSTRAINT "supplier_bill_items_deleted_by_users_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "supplier_bills" ADD CONSTRAINT "supplier_bills_supplier_id_suppliers_id_fk" FOREIGN KEY ("supplier_id") REFERENCES "public"."suppliers"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "supplier_bills" ADD CONSTRAINT "supplier_bills_purchase_order_id_purchase_orders_id_fk" FOREIGN KEY ("purchase_order_id") REFERENCES "public"."purchase_orders"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "supplier_bills" ADD CONSTRAINT "supplier_bills_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "supplier_bills" ADD CONSTRAINT "supplier_bills_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "supplier_bills" ADD CONSTRAINT "supplier_bills_deleted_by_users_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "supplier_payments" ADD CONSTRAINT "supplier_payments_supplier_bill_id_supplier_bills_id_fk" FOREIGN KEY ("supplier_bill_id") REFERENCES "public"."supplier_bills"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "supplier_payments" ADD CONSTRAINT "supplier_payments_supplier_id_suppliers_id_fk" FOREIGN KEY ("supplier_id") REFERENCES "public"."suppliers"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "supplier_payments" ADD CONSTRAINT "supplier_payments_paid_by_users_id_fk" FOREIGN KEY ("paid_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "supplier_payments" ADD CONSTRAINT "supplier_payments_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "supplier_payments" ADD CONSTRAINT "supplier_payments_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "supplier_payments" ADD CONSTRAINT "supplier_payments_deleted_by_users_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+CREATE INDEX "supplier_bills_supplier_id_idx" ON "supplier_bills" USING btree ("supplier_id");--> statement-breakpoint
+CREATE INDEX "supplier_bills_purchase_order_id_idx" ON "supplier_bills" USING btree ("purchase_order_id");--> statement-breakpoint
+CREATE INDEX "supplier_payments_supplier_bill_id_idx" ON "supplier_payments" USING btree ("supplier_bill_id");--> statement-breakpoint
+CREATE INDEX "supplier_payments_supplier_id_idx" ON "supplier_payments" USING btree ("supplier_id");
\ No newline at end of file
@@ -0,0 +1,70 @@
+CREATE TABLE "cost_layer_consumptions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" uuid NOT NULL,
+	"cost_layer_id" uuid,
+	"reference_type" "reference_type" NOT NULL,
+	"reference_id" uuid,
+	"sales_invoice_item_id" uuid,
+	"purchase_order_item_id" uuid,
+	"quantity" integer NOT NULL,
+	"unit_cost" numeric(14, 4) NOT NULL,
+	"total_cost" numeric(14, 4) NOT NULL,
+	"consumed_at" timestamp DEFAULT now() NOT NULL,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_by" uuid,
+	"updated_at" timestamp,
+	"deleted_by" uuid,
+	"deleted_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "cost_layers" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" uuid NOT NULL,
+	"reference_type" "reference_type" NOT NULL,
+	"reference_id" uuid,
+	"purchase_order_item_id" uuid,
+	"sales_invoice_item_id" uuid,
+	"unit_cost" numeric(14, 4) NOT NULL,
+	"quantity_received" integer NOT NULL,
+	"quantity_remaining" integer NOT NULL,
+	"received_at" timestamp DEFAULT now() NOT NULL,
+	"notes" text,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_by" uuid,
+	"updated_at" timestamp,
+	"deleted_by" uuid,
+	"deleted_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "sales_invoice_items" ADD COLUMN "cost_of_goods_sold" numeric(12, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "cost_layer_consumptions" ADD CONSTRAINT "cost_layer_consumptions_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "cost_layer_consumptions" ADD CONSTRAINT "cost_layer_consumptions_cost_layer_id_cost_layers_id_fk" FOREIGN KEY ("cost_layer_id") REFERENCES "public"."cost_layers"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "cost_layer_consumptions" ADD CONSTRAINT "cost_layer_consumptions_sales_invoice_item_id_sales_invoice_items_id_fk" FOREIGN KEY ("sales_invoice_item_id") REFERENCES "public"."sales_invoice_items"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "cost_layer_consumptions" ADD CONSTRAINT "cost_layer_consumptions_purchase_order_item_id_purchase_order_items_id_fk" FOREIGN KEY ("purchase_order_item_id") REFERENCES "public"."purchase_order_items"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "cost_layer_consumptions" ADD CONSTRAINT "cost_layer_consumptions_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "cost_layer_consumptions" ADD CONSTRAINT "cost_layer_consumptions_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "cost_layer_consumptions" ADD CONSTRAINT "cost_layer_consumptions_deleted_by_users_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "cost_layers" ADD CONSTRAINT "cost_layers_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "cost_layers" ADD CONSTRAINT "cost_layers_purchase_order_item_id_purchase_order_items_id_fk" FOREIGN KEY ("purchase_order_item_id") REFERENCES "public"."purchase_order_items"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "cost_layers" ADD CONSTRAINT "cost_layers_sales_invoice_item_id_sales_invoice_items_id_fk" FOREIGN KEY ("sales_invoice_item_id") REFERENCES "public"."sales_invoice_items"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "cost_layers" ADD CONSTRAINT "cost_layers_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "cost_layers" ADD CONSTRAINT "cost_layers_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "cost_layers" ADD CONSTRAINT "cost_layers_deleted_by_users_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+CREATE INDEX "cost_layer_consumptions_product_consumed_at_idx" ON "cost_layer_consumptions" USING btree ("product_id","consumed_at");--> statement-breakpoint
+CREATE INDEX "cost_layer_consumptions_cost_layer_id_idx" ON "cost_layer_consumptions" USING btree ("cost_layer_id");--> statement-breakpoint
+CREATE INDEX "cost_layer_consumptions_sales_invoice_item_id_idx" ON "cost_layer_consumptions" USING btree ("sales_invoice_item_id");--> statement-breakpoint
+CREATE INDEX "cost_layers_product_received_at_idx" ON "cost_layers" USING btree ("product_id","received_at");--> statement-breakpoint
+CREATE INDEX "cost_layers_purchase_order_item_id_idx" ON "cost_layers" USING btree ("purchase_order_item_id");--> statement-breakpoint
+-- Stock on hand before cost layers were tracked becomes an opening layer at the product's cost price
+INSERT INTO "cost_layers" ("product_id", "reference_type", "unit_cost", "quantity_received", "quantity_remaining", "notes", "created_by")
+SELECT "stock"."product_id", 'ADJUSTMENT', COALESCE("products"."cost_price", 0), SUM("stock"."quantity_available" + "stock"."quantity_reserved"), SUM("stock"."quantity_available" + "stock"."quantity_reserved"), 'Opening balance', "products"."created_by"
+FROM "stock" INNER JOIN "products" ON "products"."id" = "stock"."product_id"
+WHERE "stock"."deleted_at" IS NULL
+GROUP BY "stock"."product_id", "products"."cost_price", "products"."created_by"
+HAVING SUM("stock"."quantity_available" + "stock"."quantity_reserved") > 0;--> statement-breakpoint
+-- Lines sold before then are costed at the product's current cost price for the units the customer kept
+UPDATE "sales_invoice_items" SET "cost_of_goods_sold" = ROUND(("sales_invoice_items"."quantity" - "sales_invoice_items"."quantity_returned") * COALESCE("products"."cost_price", 0), 2)
+FROM "products", "sales_invoices"
+WHERE "products"."id" = "sales_invoice_items"."product_id" AND "sales_invoices"."id" = "sales_invoice_items"."sales_invoice_id" AND "sales_invoices"."payment_status" <> 'CANCELLED';
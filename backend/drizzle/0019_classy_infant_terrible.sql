@@ -0,0 +1,5 @@
+ALTER TABLE "products" ADD COLUMN "parent_product_id" uuid;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "variant_attributes" jsonb;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "variant_options" jsonb;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "has_price_override" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "products" ADD CONSTRAINT "products_parent_product_id_products_id_fk" FOREIGN KEY ("parent_product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE cascade;
\ No newline at end of file
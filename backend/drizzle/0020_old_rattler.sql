@@ -0,0 +1,17 @@
+ALTER TABLE "purchase_order_items" ALTER COLUMN "quantity_ordered" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "purchase_order_items" ALTER COLUMN "quantity_received" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "purchase_order_items" ALTER COLUMN "quantity_returned" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "purchase_order_receipt_items" ALTER COLUMN "quantity_received" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "return_items" ALTER COLUMN "quantity" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "sales_invoice_items" ALTER COLUMN "quantity" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "sales_invoice_items" ALTER COLUMN "quantity_returned" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "supplier_bill_items" ALTER COLUMN "quantity_billed" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "supplier_bill_items" ALTER COLUMN "quantity_variance" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "base_unit" text DEFAULT 'EA' NOT NULL;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "units" jsonb;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "purchase_unit" text;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "sales_unit" text;--> statement-breakpoint
+ALTER TABLE "purchase_order_items" ADD COLUMN "unit_code" text DEFAULT 'EA' NOT NULL;--> statement-breakpoint
+ALTER TABLE "purchase_order_items" ADD COLUMN "unit_factor" numeric(14, 4) DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "sales_invoice_items" ADD COLUMN "unit_code" text DEFAULT 'EA' NOT NULL;--> statement-breakpoint
+ALTER TABLE "sales_invoice_items" ADD COLUMN "unit_factor" numeric(14, 4) DEFAULT 1 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "categories" DROP CONSTRAINT "categories_name_unique";--> statement-breakpoint
+ALTER TABLE "categories" ADD COLUMN "parent_id" uuid;--> statement-breakpoint
+ALTER TABLE "categories" ADD CONSTRAINT "categories_parent_id_categories_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."categories"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "categories" ADD CONSTRAINT "categories_parent_name_unique" UNIQUE NULLS NOT DISTINCT("parent_id","name");
\ No newline at end of file
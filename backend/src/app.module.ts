@@ -16,6 +16,17 @@ import { UsersModule } from './modules/users/users.module';
 import { SuppliersModule } from './modules/suppliers/suppliers.module';
 import { PurchaseOrdersModule } from './modules/purchase-orders/purchase-orders.module';
 import { StockModule } from './modules/stock/stock.module';
+import { SalesInvoicesModule } from './modules/sales-invoices/sales-invoices.module';
+import { ReturnsModule } from './modules/returns/returns.module';
+import { LocationsModule } from './modules/locations/locations.module';
+import { TaxesModule } from './modules/taxes/taxes.module';
+import { PromotionsModule } from './modules/promotions/promotions.module';
+import { CustomersModule } from './modules/customers/customers.module';
+import { PaymentsModule } from './modules/payments/payments.module';
+import { SupplierBillsModule } from './modules/supplier-bills/supplier-bills.module';
+import { AnalyticsModule } from './modules/analytics/analytics.module';
+import { CostingModule } from './modules/costing/costing.module';
+import { ReportsModule } from './modules/reports/reports.module';
 import { envValidationSchema } from './config/env.validation';
 
 @Module({
@@ -42,6 +53,17 @@ import { envValidationSchema } from './config/env.validation';
     SuppliersModule,
     PurchaseOrdersModule,
     StockModule,
+    SalesInvoicesModule,
+    ReturnsModule,
+    LocationsModule,
+    TaxesModule,
+    PromotionsModule,
+    CustomersModule,
+    PaymentsModule,
+    SupplierBillsModule,
+    AnalyticsModule,
+    CostingModule,
+    ReportsModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -25,6 +25,17 @@ export enum ENV {
   
   // AI Services
   GEMINI_API_KEY = 'GEMINI_API_KEY',
+  
+  // Company details printed on invoices and receipts
+  COMPANY_NAME = 'COMPANY_NAME',
+  COMPANY_ADDRESS = 'COMPANY_ADDRESS',
+  COMPANY_PHONE = 'COMPANY_PHONE',
+  COMPANY_EMAIL = 'COMPANY_EMAIL',
+  COMPANY_TAX_ID = 'COMPANY_TAX_ID',
+  COMPANY_CURRENCY = 'COMPANY_CURRENCY',
+  
+  // Inventory costing
+  INVENTORY_COSTING_METHOD = 'INVENTORY_COSTING_METHOD',
 }
 
 // Common Messages
@@ -50,22 +61,151 @@ export enum MESSAGES {
   
   // Categories
   CATEGORY_NOT_FOUND = 'Category not found',
-  CATEGORY_NAME_EXISTS = 'Category name already exists',
+  CATEGORY_NAME_EXISTS = 'Category name already exists under this parent',
+  CATEGORY_PARENT_NOT_FOUND = 'Parent category not found',
+  CATEGORY_MOVE_CYCLE = 'A category cannot be moved under itself or one of its subcategories',
+  CATEGORY_HAS_SUBCATEGORIES = 'Cannot delete a category that has subcategories',
+  CATEGORY_NAME_AMBIGUOUS = 'More than one category has this name; use the full path',
   
   // Products
   PRODUCT_NOT_FOUND = 'Product not found',
   PRODUCT_SKU_EXISTS = 'Product SKU already exists',
   PRODUCT_BARCODE_EXISTS = 'Product barcode already exists',
+  PRODUCT_TARGET_BELOW_REORDER_POINT = 'Target stock level cannot be lower than the reorder point',
+  PRODUCT_IMPORT_FILE_REQUIRED = 'A CSV or XLSX file is required',
+  PRODUCT_IMPORT_FORMAT_UNSUPPORTED = 'Only CSV and XLSX files can be imported',
+  PRODUCT_IMPORT_FILE_INVALID = 'The file could not be read as a spreadsheet',
+  PRODUCT_IMPORT_EMPTY = 'The file has no product rows',
+  PRODUCT_IMPORT_COLUMNS_MISSING = 'Required columns are missing',
+  PRODUCT_IMPORT_TOO_MANY_ROWS = 'The file has more rows than can be imported at once',
+  PRODUCT_VARIANT_REQUIRED = 'This product comes in variants; choose a specific variant',
+  PRODUCT_VARIANT_NESTED = 'A variant cannot have variants of its own',
+  PRODUCT_VARIANT_ATTRIBUTES_INVALID = 'Each variant attribute needs a unique name and at least one unique value',
+  PRODUCT_VARIANT_TOO_MANY_ATTRIBUTES = 'A product can have at most 3 variant attributes',
+  PRODUCT_VARIANT_OPTIONS_INVALID = 'Each variant must pick exactly one allowed value for every attribute',
+  PRODUCT_VARIANT_DUPLICATE_OPTIONS = 'Two variants have the same option values',
+  PRODUCT_VARIANT_NOT_FOUND = 'Variant does not belong to this product',
+  PRODUCT_VARIANT_SKU_INVALID = 'Variant SKUs can only contain letters, numbers, hyphens and underscores, up to 50 characters',
+  PRODUCT_VARIANT_PRICE_INVALID = 'Variant prices must be zero or more',
+  PRODUCT_VARIANT_HAS_STOCK = 'Variants with stock on hand cannot be removed; deactivate them instead',
+  PRODUCT_VARIANTS_EMPTY = 'Add at least one variant, or remove all attributes to stop using variants',
+  PRODUCT_VARIANTS_STOCK_EXISTS = 'Products with stock on hand cannot be split into variants; move the stock first',
+  PRODUCT_UNIT_INVALID = 'Units need a code of letters, numbers and underscores (up to 20 characters) and a conversion factor greater than zero',
+  PRODUCT_UNIT_DUPLICATE = 'Each unit code can only be used once per product, including the base unit',
+  PRODUCT_UNIT_TOO_MANY = 'A product can have at most 10 units besides its base unit',
+  PRODUCT_UNIT_NOT_FOUND = 'Unit is not set up for this product',
+  PRODUCT_BASE_UNIT_HAS_STOCK = 'The base unit of a product with stock on hand cannot be changed',
+  QUANTITY_INVALID = 'Quantities must be greater than zero with at most 3 decimal places',
+  QUANTITY_NOT_WHOLE_BASE_UNITS = 'Quantity does not convert to a whole number of base units',
   
   // Suppliers
   SUPPLIER_NOT_FOUND = 'Supplier not found',
   SUPPLIER_NAME_EXISTS = 'Supplier name already exists',
   SUPPLIER_EMAIL_EXISTS = 'Supplier email already exists',
+  SUPPLIER_INACTIVE = 'Supplier is not active',
   
   // Purchase Orders
   PURCHASE_ORDER_NOT_FOUND = 'Purchase order not found',
   PURCHASE_ORDER_NUMBER_EXISTS = 'Purchase order number already exists',
   PURCHASE_ORDER_ITEM_NOT_FOUND = 'Purchase order item not found',
+  PURCHASE_ORDER_NOT_RECEIVABLE = 'Only confirmed or partially received purchase orders can be received',
+  PURCHASE_ORDER_NOTHING_TO_RECEIVE = 'All items on this purchase order have already been received',
+  PURCHASE_ORDER_RECEIPT_EXCEEDS_ORDERED = 'Received quantity exceeds the outstanding quantity for this item',
+  PURCHASE_ORDER_ITEM_UNIT_LOCKED = 'The unit or product of a line cannot be changed once goods have been received against it',
+  
+  // Reordering
+  REORDER_NO_SUPPLIER = 'Product has no preferred or previous supplier to reorder from',
+  REORDER_NOTHING_SELECTED = 'Select at least one product to reorder',
+  REORDER_DUPLICATE_PRODUCT = 'A product can only appear once per reorder draft',
+  
+  // Documents
+  RECEIPT_WIDTH_INVALID = 'Receipt width must be 58 or 80 (mm)',
+  RECEIPT_FORMAT_INVALID = 'Receipt format must be text or html',
+  EXPORT_FORMAT_INVALID = 'Export format must be csv, xlsx or json',
+  
+  // Sales Invoices
+  SALES_INVOICE_NOT_FOUND = 'Sales invoice not found',
+  SALES_INVOICE_NUMBER_EXISTS = 'Sales invoice number already exists',
+  SALES_INVOICE_ITEM_NOT_FOUND = 'Sales invoice item not found',
+  SALES_INVOICE_NOT_EDITABLE = 'Only pending sales invoices can be modified',
+  SALES_INVOICE_ALREADY_VOID = 'Sales invoice is already void',
+  SALES_INVOICE_TOTAL_NEGATIVE = 'Discount cannot exceed invoice subtotal plus tax',
+  SALES_INVOICE_ITEM_HAS_RETURNS = 'Sales invoice item quantity cannot go below the quantity already returned',
+  RETURN_NOT_FOUND = 'Return not found',
+  RETURN_ITEM_NOT_ON_DOCUMENT = 'Return item does not belong to the referenced document',
+  RETURN_QUANTITY_EXCEEDED = 'Return quantity exceeds the quantity available to return',
+  RETURN_REFUND_EXCEEDS_TOTAL = 'Refund amount cannot exceed the remaining document total',
+  RETURN_INVOICE_CANCELLED = 'Cannot record a return against a cancelled sales invoice',
+  RETURN_PURCHASE_ORDER_NOT_RECEIVED = 'Supplier returns require a received or partially received purchase order',
+  
+  // Locations
+  LOCATION_NOT_FOUND = 'Location not found',
+  LOCATION_CODE_EXISTS = 'Location code already exists',
+  LOCATION_INACTIVE = 'Location is not active',
+  LOCATION_IS_DEFAULT = 'The default location cannot be deleted or deactivated',
+  LOCATION_HAS_STOCK = 'Location still holds stock and cannot be deleted',
+  STOCK_TRANSFER_SAME_LOCATION = 'Source and destination locations must be different',
+  
+  // Stock Reservations
+  RESERVATION_NOT_FOUND = 'Stock reservation not found',
+  RESERVATION_NOT_ACTIVE = 'Stock reservation is no longer active',
+  RESERVATION_EXPIRY_IN_PAST = 'Reservation expiry must be in the future',
+  
+  // Stock Ledger
+  STOCK_LEDGER_CURSOR_INVALID = 'Invalid or expired stock ledger cursor',
+  
+  // Taxes
+  TAX_CLASS_NOT_FOUND = 'Tax class not found',
+  TAX_CLASS_CODE_EXISTS = 'Tax class code already exists',
+  TAX_CLASS_INACTIVE = 'Tax class is not active',
+  TAX_CLASS_IN_USE = 'Tax class is assigned to products or categories and cannot be deleted',
+  TAX_CLASS_EXEMPT_RATE = 'Exempt tax classes must have a rate of 0',
+  REPORT_RANGE_INVALID = 'Report dates must be valid YYYY-MM-DD dates with the start date on or before the end date',
+  REPORT_DATE_INVALID = 'Report date must be a valid YYYY-MM-DD date',
+  
+  // Promotions
+  PROMOTION_NOT_FOUND = 'Promotion not found',
+  PROMOTION_COUPON_EXISTS = 'Coupon code already exists',
+  PROMOTION_TARGET_REQUIRED = 'Product promotions need a product and category promotions need a category',
+  PROMOTION_PERCENTAGE_INVALID = 'Percentage discounts must be between 0 and 100',
+  PROMOTION_BUY_GET_REQUIRED = 'Buy X get Y promotions need buy and get quantities of at least 1',
+  PROMOTION_WINDOW_INVALID = 'Promotion end date must be after its start date',
+  PROMOTION_USAGE_LIMIT_REACHED = 'Promotion has reached its usage limit',
+  COUPON_NOT_FOUND = 'Coupon code is not valid',
+  COUPON_NOT_ACTIVE = 'Coupon code is not active at this time',
+  COUPON_USAGE_LIMIT_REACHED = 'Coupon code has reached its usage limit',
+  COUPON_MINIMUM_NOT_MET = 'Order total does not meet the minimum for this coupon',
+  COUPON_NOT_APPLICABLE = 'Coupon code does not apply to any item on this invoice',
+  
+  // Customers
+  CUSTOMER_NOT_FOUND = 'Customer not found',
+  CUSTOMER_EMAIL_EXISTS = 'A customer with this email already exists',
+  CUSTOMER_PHONE_EXISTS = 'A customer with this phone number already exists',
+  CUSTOMER_INACTIVE = 'Customer is not active',
+  CUSTOMER_CREDIT_LIMIT_EXCEEDED = 'Invoice would take the customer over their credit limit',
+  CUSTOMER_MERGE_SELF = 'A customer cannot be merged into itself',
+  
+  // Payments
+  PAYMENT_NOT_FOUND = 'Payment not found',
+  PAYMENT_INVOICE_CANCELLED = 'Payments cannot be recorded against a cancelled invoice',
+  PAYMENT_EXCEEDS_BALANCE = 'Payment exceeds the balance due on the invoice',
+  PAYMENT_INVOICE_SETTLED = 'Invoice has no balance due',
+  PAYMENTS_EXCEED_TOTAL = 'Payments at checkout exceed the invoice total',
+  REFUND_EXCEEDS_PAID = 'Refund exceeds the amount paid on the invoice',
+  
+  // Supplier bills
+  SUPPLIER_BILL_NOT_FOUND = 'Supplier bill not found',
+  SUPPLIER_BILL_NUMBER_EXISTS = 'Supplier bill number already recorded for this supplier',
+  SUPPLIER_BILL_ORDER_CANCELLED = 'Bills cannot be recorded against a cancelled purchase order',
+  SUPPLIER_BILL_ITEM_NOT_ON_ORDER = 'Bill line is not on the purchase order',
+  SUPPLIER_BILL_DUPLICATE_ITEM = 'Each purchase order line can only appear once on a bill',
+  SUPPLIER_BILL_CANCELLED = 'Supplier bill is cancelled',
+  SUPPLIER_BILL_HAS_PAYMENTS = 'Supplier bill with payments cannot be cancelled',
+  SUPPLIER_BILL_SETTLED = 'Supplier bill has no balance due',
+  SUPPLIER_PAYMENT_EXCEEDS_BALANCE = 'Payment exceeds the balance due on the supplier bill',
+  
+  // Analytics
+  ANALYTICS_TOO_MANY_PERIODS = 'Date range has too many periods for the chosen granularity; pick a shorter range or a larger granularity',
   
   LOGIN_SUCCESSFUL = 'Login successful',
   SIGNUP_SUCCESSFUL = 'Account created successfully',
@@ -101,12 +241,17 @@ export enum API_MESSAGES {
   CATEGORY_CREATED = 'Category created successfully',
   CATEGORY_UPDATED = 'Category updated successfully',
   CATEGORY_DELETED = 'Category deleted successfully',
+  CATEGORY_MOVED = 'Category moved successfully',
   
   // Products
   PRODUCTS_FETCHED = 'Products fetched successfully',
   PRODUCT_CREATED = 'Product created successfully',
   PRODUCT_UPDATED = 'Product updated successfully',
   PRODUCT_DELETED = 'Product deleted successfully',
+  PRODUCT_IMPORT_VALIDATED = 'Product import validated successfully',
+  PRODUCTS_IMPORTED = 'Products imported successfully',
+  PRODUCT_VARIANTS_FETCHED = 'Product variants fetched successfully',
+  PRODUCT_VARIANTS_SAVED = 'Product variants saved successfully',
   
   // Suppliers
   SUPPLIERS_FETCHED = 'Suppliers fetched successfully',
@@ -122,6 +267,90 @@ export enum API_MESSAGES {
   PURCHASE_ORDER_ITEM_ADDED = 'Purchase order item added successfully',
   PURCHASE_ORDER_ITEM_UPDATED = 'Purchase order item updated successfully',
   PURCHASE_ORDER_ITEM_DELETED = 'Purchase order item deleted successfully',
+  PURCHASE_ORDER_RECEIVED = 'Purchase order receipt recorded successfully',
+  PURCHASE_ORDER_RECEIPTS_FETCHED = 'Purchase order receipts fetched successfully',
+  REORDER_SUGGESTIONS_FETCHED = 'Reorder suggestions fetched successfully',
+  REORDER_DRAFTS_CREATED = 'Draft purchase orders created from reorder suggestions',
+  
+  // Sales Invoices
+  SALES_INVOICES_FETCHED = 'Sales invoices fetched successfully',
+  SALES_INVOICE_FETCHED = 'Sales invoice retrieved successfully',
+  SALES_INVOICE_CREATED = 'Sales invoice created successfully',
+  SALES_INVOICE_QUOTED = 'Sales invoice quoted successfully',
+  SALES_INVOICE_UPDATED = 'Sales invoice updated successfully',
+  SALES_INVOICE_VOIDED = 'Sales invoice voided successfully',
+  SALES_INVOICE_DELETED = 'Sales invoice deleted successfully',
+  SALES_INVOICE_ITEM_ADDED = 'Sales invoice item added successfully',
+  SALES_INVOICE_ITEM_UPDATED = 'Sales invoice item updated successfully',
+  SALES_INVOICE_ITEM_DELETED = 'Sales invoice item deleted successfully',
+  RETURNS_FETCHED = 'Returns fetched successfully',
+  RETURN_FETCHED = 'Return retrieved successfully',
+  RETURN_CREATED = 'Return recorded successfully',
+  
+  // Locations
+  LOCATIONS_FETCHED = 'Locations fetched successfully',
+  LOCATION_FETCHED = 'Location retrieved successfully',
+  LOCATION_CREATED = 'Location created successfully',
+  LOCATION_UPDATED = 'Location updated successfully',
+  LOCATION_DELETED = 'Location deleted successfully',
+  
+  // Taxes
+  TAX_CLASSES_FETCHED = 'Tax classes fetched successfully',
+  TAX_CLASS_FETCHED = 'Tax class retrieved successfully',
+  TAX_CLASS_CREATED = 'Tax class created successfully',
+  TAX_CLASS_UPDATED = 'Tax class updated successfully',
+  TAX_CLASS_DELETED = 'Tax class deleted successfully',
+  TAX_SUMMARY_FETCHED = 'Tax summary generated successfully',
+  
+  // Promotions
+  PROMOTIONS_FETCHED = 'Promotions fetched successfully',
+  PROMOTION_FETCHED = 'Promotion retrieved successfully',
+  PROMOTION_CREATED = 'Promotion created successfully',
+  PROMOTION_UPDATED = 'Promotion updated successfully',
+  PROMOTION_DELETED = 'Promotion deleted successfully',
+  PROMOTIONS_EVALUATED = 'Promotions evaluated successfully',
+  PROMOTION_SUMMARY_FETCHED = 'Promotion summary generated successfully',
+  
+  // Customers
+  CUSTOMERS_FETCHED = 'Customers fetched successfully',
+  CUSTOMER_FETCHED = 'Customer retrieved successfully',
+  CUSTOMER_CREATED = 'Customer created successfully',
+  CUSTOMER_UPDATED = 'Customer updated successfully',
+  CUSTOMER_DELETED = 'Customer deleted successfully',
+  CUSTOMER_ACCOUNT_FETCHED = 'Customer account retrieved successfully',
+  CUSTOMERS_MERGED = 'Customers merged successfully',
+  CUSTOMER_INVOICES_LINKED = 'Invoices linked to customers successfully',
+  
+  // Payments
+  PAYMENT_RECORDED = 'Payment recorded successfully',
+  REFUND_RECORDED = 'Refund recorded successfully',
+  PAYMENTS_FETCHED = 'Payments fetched successfully',
+  PAYMENT_FETCHED = 'Payment retrieved successfully',
+  AR_AGING_FETCHED = 'Accounts receivable aging generated successfully',
+  
+  // Supplier bills
+  SUPPLIER_BILL_CREATED = 'Supplier bill recorded successfully',
+  SUPPLIER_BILLS_FETCHED = 'Supplier bills fetched successfully',
+  SUPPLIER_BILL_FETCHED = 'Supplier bill retrieved successfully',
+  SUPPLIER_BILL_CANCELLED = 'Supplier bill cancelled successfully',
+  SUPPLIER_PAYMENT_RECORDED = 'Supplier payment recorded successfully',
+  SUPPLIER_PAYMENTS_FETCHED = 'Supplier payments fetched successfully',
+  THREE_WAY_MATCH_FETCHED = 'Purchase order match generated successfully',
+  AP_AGING_FETCHED = 'Accounts payable aging generated successfully',
+  
+  // Analytics
+  ANALYTICS_OVERVIEW_FETCHED = 'Analytics overview generated successfully',
+  SALES_ANALYTICS_FETCHED = 'Sales analytics generated successfully',
+  TOP_SELLERS_FETCHED = 'Top sellers fetched successfully',
+  STOCK_VALUE_HISTORY_FETCHED = 'Stock value history generated successfully',
+  PURCHASE_SPEND_FETCHED = 'Purchase spend by supplier generated successfully',
+  
+  // Inventory costing
+  INVENTORY_VALUATION_FETCHED = 'Inventory valuation generated successfully',
+  COST_LAYERS_FETCHED = 'Cost layers fetched successfully',
+  
+  // Reports
+  MARGIN_REPORT_FETCHED = 'Margin report generated successfully',
 }
 
 // Table Names (for future use)
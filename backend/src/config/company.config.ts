@@ -0,0 +1,10 @@
+import { ENV } from '../common/constants/string-const';
+
+export const companyConfig = {
+  name: process.env[ENV.COMPANY_NAME] || 'RetailFlow',
+  address: process.env[ENV.COMPANY_ADDRESS],
+  phone: process.env[ENV.COMPANY_PHONE],
+  email: process.env[ENV.COMPANY_EMAIL],
+  taxId: process.env[ENV.COMPANY_TAX_ID],
+  currency: process.env[ENV.COMPANY_CURRENCY] || 'USD',
+};
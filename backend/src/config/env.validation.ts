@@ -33,6 +33,17 @@ export const envValidationSchema = Joi.object({
   
   // AI Services
   [ENV.GEMINI_API_KEY]: Joi.string().required(),
+
+  // Company details for printed documents
+  [ENV.COMPANY_NAME]: Joi.string().optional().default('RetailFlow'),
+  [ENV.COMPANY_ADDRESS]: Joi.string().optional(),
+  [ENV.COMPANY_PHONE]: Joi.string().optional(),
+  [ENV.COMPANY_EMAIL]: Joi.string().email().optional(),
+  [ENV.COMPANY_TAX_ID]: Joi.string().optional(),
+  [ENV.COMPANY_CURRENCY]: Joi.string().length(3).uppercase().optional().default('USD'),
+
+  // How stock leaving inventory is costed
+  [ENV.INVENTORY_COSTING_METHOD]: Joi.string().valid('FIFO', 'WEIGHTED_AVERAGE').optional().default('FIFO'),
 }).custom((value, helpers) => {
   // Ensure either DATABASE_URL or all individual database parameters are provided
   const hasDatabaseUrl = value[ENV.DATABASE_URL];
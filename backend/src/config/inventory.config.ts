@@ -0,0 +1,7 @@
+import { ENV } from '../common/constants/string-const';
+
+export type CostingMethod = 'FIFO' | 'WEIGHTED_AVERAGE';
+
+export const inventoryConfig = {
+  costingMethod: (process.env[ENV.INVENTORY_COSTING_METHOD] === 'WEIGHTED_AVERAGE' ? 'WEIGHTED_AVERAGE' : 'FIFO') as CostingMethod,
+};
@@ -8,9 +8,20 @@ import {
   CategoriesRepository,
   ProductsRepository,
   SuppliersRepository,
+  LocationsRepository,
   PurchaseOrdersRepository,
   StockRepository,
-  StockTransactionsRepository
+  StockTransactionsRepository,
+  SalesInvoicesRepository,
+  ReturnsRepository,
+  TaxClassesRepository,
+  PromotionsRepository,
+  CustomersRepository,
+  PaymentsRepository,
+  SupplierBillsRepository,
+  AnalyticsRepository,
+  CostLayersRepository,
+  ReportsRepository
 } from './repositories';
 
 @Module({
@@ -23,9 +34,20 @@ import {
     CategoriesRepository,
     ProductsRepository,
     SuppliersRepository,
+    LocationsRepository,
     PurchaseOrdersRepository,
     StockRepository,
     StockTransactionsRepository,
+    SalesInvoicesRepository,
+    ReturnsRepository,
+    TaxClassesRepository,
+    PromotionsRepository,
+    CustomersRepository,
+    PaymentsRepository,
+    SupplierBillsRepository,
+    AnalyticsRepository,
+    CostLayersRepository,
+    ReportsRepository,
   ],
   exports: [
     DrizzleService,
@@ -35,9 +57,20 @@ import {
     CategoriesRepository,
     ProductsRepository,
     SuppliersRepository,
+    LocationsRepository,
     PurchaseOrdersRepository,
     StockRepository,
     StockTransactionsRepository,
+    SalesInvoicesRepository,
+    ReturnsRepository,
+    TaxClassesRepository,
+    PromotionsRepository,
+    CustomersRepository,
+    PaymentsRepository,
+    SupplierBillsRepository,
+    AnalyticsRepository,
+    CostLayersRepository,
+    ReportsRepository,
   ],
 })
 export class DatabaseModule {}
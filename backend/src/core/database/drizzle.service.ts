@@ -3,6 +3,7 @@ import { ConfigService } from '@nestjs/config';
 import { drizzle } from 'drizzle-orm/node-postgres';
 import { Pool, PoolConfig } from 'pg';
 import { ENV } from '../../common/constants/string-const';
+import type { DbTransaction } from './repositories/base.repository';
 
 @Injectable()
 export class DrizzleService implements OnModuleInit, OnModuleDestroy {
@@ -57,6 +58,13 @@ export class DrizzleService implements OnModuleInit, OnModuleDestroy {
     return this.db;
   }
 
+  /**
+   * Runs work in a new database transaction, or as part of the caller's transaction when one is passed
+   */
+  transaction<R>(work: (tx: DbTransaction) => Promise<R>, tx?: DbTransaction): Promise<R> {
+    return tx ? work(tx) : this.db.transaction(work);
+  }
+
   getPool() {
     return this.pool;
   }
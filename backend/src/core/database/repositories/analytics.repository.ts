@@ -0,0 +1,248 @@
+import { Injectable } from '@nestjs/common';
+import { BaseRepository } from './base.repository';
+import { salesInvoices } from '../schema/sales-invoices';
+import { salesInvoiceItems } from '../schema/sales-invoice-items';
+import { purchaseOrders } from '../schema/purchase-orders';
+import { suppliers } from '../schema/suppliers';
+import { costLayers, costLayerConsumptions } from '../schema/cost-layers';
+import { products } from '../schema/products';
+import { eq, and, isNull, isNotNull, ne, gte, lt, lte, desc, sql } from 'drizzle-orm';
+import { DrizzleService } from '../drizzle.service';
+
+export type AnalyticsGranularity = 'day' | 'week' | 'month';
+
+// date_trunc units are inlined into the query, so only these literals ever reach it
+const TRUNC_UNITS: Record<AnalyticsGranularity, string> = {
+  day: `'day'`,
+  week: `'week'`,
+  month: `'month'`,
+};
+
+export interface SalesPeriodRow {
+  period_start: string; // YYYY-MM-DD, the first day of the day, week (Monday) or month
+  invoice_count: number;
+  gross_sales: string;
+  returns: string;
+  net_sales: string;
+  tax_amount: string;
+  discount_amount: string;
+}
+
+export interface TopSellerRow {
+  product_id: string;
+  product_name: string;
+  product_sku: string;
+  quantity_sold: number;
+  revenue: string; // Net of tax, discount and returns
+  invoice_count: number;
+}
+
+export interface StockValueMovementRow {
+  period_start: string;
+  value_change: string; // Cost of stock received less cost of stock consumed
+}
+
+export interface SupplierSpendRow {
+  supplier_id: string;
+  supplier_name: string;
+  order_count: number;
+  total_spend: string; // Order totals less goods returned to the supplier
+}
+
+/**
+ * Read-only reporting queries across sales, stock and purchasing. There is no table of its own.
+ */
+@Injectable()
+export class AnalyticsRepository extends BaseRepository<never> {
+  constructor(drizzleService: DrizzleService) {
+    super(drizzleService);
+  }
+
+  //#region ==================== SALES ====================
+
+  /**
+   * Invoice totals raised within [from, to), grouped into day, week or month buckets.
+   * Cancelled invoices are left out and returns are netted off the period the sale was made in.
+   */
+  async getSalesByPeriod(granularity: AnalyticsGranularity, from: Date, to: Date): Promise<SalesPeriodRow[]> {
+    this.logger.log(`Summarising sales by ${granularity} from ${from.toISOString()} to ${to.toISOString()}`);
+
+    try {
+      const periodStart = this.periodStart(granularity, salesInvoices.created_at);
+
+      const result = await this.db
+        .select({
+          period_start: periodStart,
+          invoice_count: sql<number>`count(*)::int`,
+          gross_sales: sql<string>`COALESCE(SUM(${salesInvoices.total_amount}), 0)::text`,
+          returns: sql<string>`COALESCE(SUM(${salesInvoices.returned_amount}), 0)::text`,
+          net_sales: sql<string>`COALESCE(SUM(${salesInvoices.total_amount} - ${salesInvoices.returned_amount}), 0)::text`,
+          tax_amount: sql<string>`COALESCE(SUM(${salesInvoices.tax_amount}), 0)::text`,
+          discount_amount: sql<string>`COALESCE(SUM(${salesInvoices.discount_amount}), 0)::text`,
+        })
+        .from(salesInvoices)
+        .where(and(
+          isNull(salesInvoices.deleted_at),
+          ne(salesInvoices.payment_status, 'CANCELLED'),
+          gte(salesInvoices.created_at, from),
+          lt(salesInvoices.created_at, to),
+        ))
+        .groupBy(periodStart)
+        .orderBy(periodStart);
+
+      this.logger.log(`Found sales in ${result.length} periods`);
+      return result as SalesPeriodRow[];
+    } catch (error) {
+      this.logger.error(`Failed to summarise sales by ${granularity}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Best-selling products by units kept by customers on invoices raised within [from, to)
+   */
+  async getTopSellers(from: Date, to: Date, limit: number): Promise<TopSellerRow[]> {
+    this.logger.log(`Finding top ${limit} sellers from ${from.toISOString()} to ${to.toISOString()}`);
+
+    try {
+      const soldShare = sql`(${salesInvoiceItems.quantity} - ${salesInvoiceItems.quantity_returned})::numeric / NULLIF(${salesInvoiceItems.quantity}, 0)`;
+      const quantitySold = sql<number>`ROUND(COALESCE(SUM((${salesInvoiceItems.quantity} - ${salesInvoiceItems.quantity_returned}) * ${salesInvoiceItems.unit_factor}), 0))::int`;
+      const revenue = sql<string>`ROUND(COALESCE(SUM(${salesInvoiceItems.taxable_amount} * ${soldShare}), 0), 2)`;
+
+      const result = await this.db
+        .select({
+          product_id: products.id,
+          product_name: products.name,
+          product_sku: products.sku,
+          quantity_sold: quantitySold,
+          revenue: sql<string>`${revenue}::text`,
+          invoice_count: sql<number>`count(DISTINCT ${salesInvoices.id})::int`,
+        })
+        .from(salesInvoiceItems)
+        .innerJoin(salesInvoices, eq(salesInvoiceItems.sales_invoice_id, salesInvoices.id))
+        .innerJoin(products, eq(salesInvoiceItems.product_id, products.id))
+        .where(and(
+          isNull(salesInvoiceItems.deleted_at),
+          isNull(salesInvoices.deleted_at),
+          ne(salesInvoices.payment_status, 'CANCELLED'),
+          gte(salesInvoices.created_at, from),
+          lt(salesInvoices.created_at, to),
+        ))
+        .groupBy(products.id, products.name, products.sku)
+        .having(sql`SUM(${salesInvoiceItems.quantity} - ${salesInvoiceItems.quantity_returned}) > 0`)
+        .orderBy(desc(quantitySold), desc(revenue), products.name)
+        .limit(limit);
+
+      this.logger.log(`Found ${result.length} top sellers`);
+      return result as TopSellerRow[];
+    } catch (error) {
+      this.logger.error('Failed to find top sellers', error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== STOCK ====================
+
+  /**
+   * Net change in stock value at cost per bucket from `from` onwards: layers received less the
+   * cost consumed from layers. Walking these back from today's total stock value gives the
+   * closing value of each earlier period.
+   */
+  async getStockValueMovements(granularity: AnalyticsGranularity, from: Date): Promise<StockValueMovementRow[]> {
+    this.logger.log(`Summarising stock value movements by ${granularity} since ${from.toISOString()}`);
+
+    try {
+      const receivedPeriod = this.periodStart(granularity, costLayers.received_at);
+      const received = await this.db
+        .select({
+          period_start: receivedPeriod,
+          value: sql<string>`COALESCE(SUM(${costLayers.quantity_received} * ${costLayers.unit_cost}), 0)::text`,
+        })
+        .from(costLayers)
+        .where(and(isNull(costLayers.deleted_at), gte(costLayers.received_at, from)))
+        .groupBy(receivedPeriod);
+
+      const consumedPeriod = this.periodStart(granularity, costLayerConsumptions.consumed_at);
+      const consumed = await this.db
+        .select({
+          period_start: consumedPeriod,
+          value: sql<string>`COALESCE(SUM(${costLayerConsumptions.total_cost}), 0)::text`,
+        })
+        .from(costLayerConsumptions)
+        .where(and(
+          isNull(costLayerConsumptions.deleted_at),
+          isNotNull(costLayerConsumptions.cost_layer_id),
+          gte(costLayerConsumptions.consumed_at, from),
+        ))
+        .groupBy(consumedPeriod);
+
+      const changes = new Map<string, number>();
+      for (const row of received) {
+        changes.set(row.period_start, (changes.get(row.period_start) ?? 0) + parseFloat(row.value));
+      }
+      for (const row of consumed) {
+        changes.set(row.period_start, (changes.get(row.period_start) ?? 0) - parseFloat(row.value));
+      }
+
+      const result = [...changes.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([period_start, change]) => ({ period_start, value_change: change.toFixed(4) }));
+
+      this.logger.log(`Found stock movements in ${result.length} periods`);
+      return result;
+    } catch (error) {
+      this.logger.error('Failed to summarise stock value movements', error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== PURCHASING ====================
+
+  /**
+   * Purchase order spend per supplier for orders dated within [from, to].
+   * Orders without an order date fall back to the day they were created.
+   */
+  async getPurchaseSpendBySupplier(from: string, to: string): Promise<SupplierSpendRow[]> {
+    this.logger.log(`Summarising purchase spend by supplier from ${from} to ${to}`);
+
+    try {
+      const orderDate = sql`COALESCE(${purchaseOrders.order_date}, ${purchaseOrders.created_at}::date)`;
+      const totalSpend = sql<string>`COALESCE(SUM(COALESCE(${purchaseOrders.total_amount}, 0) - ${purchaseOrders.returned_amount}), 0)`;
+
+      const result = await this.db
+        .select({
+          supplier_id: suppliers.id,
+          supplier_name: suppliers.name,
+          order_count: sql<number>`count(*)::int`,
+          total_spend: sql<string>`${totalSpend}::text`,
+        })
+        .from(purchaseOrders)
+        .innerJoin(suppliers, eq(purchaseOrders.supplier_id, suppliers.id))
+        .where(and(
+          isNull(purchaseOrders.deleted_at),
+          ne(purchaseOrders.status, 'CANCELLED'),
+          gte(orderDate, from),
+          lte(orderDate, to),
+        ))
+        .groupBy(suppliers.id, suppliers.name)
+        .orderBy(desc(totalSpend), suppliers.name);
+
+      this.logger.log(`Found purchase spend for ${result.length} suppliers`);
+      return result as SupplierSpendRow[];
+    } catch (error) {
+      this.logger.error('Failed to summarise purchase spend by supplier', error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * First day of the bucket a timestamp falls in, as YYYY-MM-DD. The unit is inlined
+   * rather than bound so the select and group by expressions are identical.
+   */
+  private periodStart(
+    granularity: AnalyticsGranularity,
+    column: typeof salesInvoices.created_at | typeof costLayers.received_at | typeof costLayerConsumptions.consumed_at,
+  ) {
+    return sql<string>`to_char(date_trunc(${sql.raw(TRUNC_UNITS[granularity])}, ${column}), 'YYYY-MM-DD')`;
+  }
+}
@@ -4,6 +4,11 @@ import { NotFoundException } from '@nestjs/common';
 import { MESSAGES } from '../../../common/constants/string-const';
 import { eq, count } from 'drizzle-orm';
 
+/**
+ * Transaction handle passed to `db.transaction` callbacks
+ */
+export type DbTransaction = Parameters<Parameters<DrizzleService['db']['transaction']>[0]>[0];
+
 @Injectable()
 export abstract class BaseRepository<T> {
   protected readonly logger = new Logger(this.constructor.name);
@@ -18,6 +23,13 @@ export abstract class BaseRepository<T> {
     return this.drizzleService.getPool();
   }
 
+  /**
+   * Runs work in the caller's transaction when one is passed, otherwise in a new one
+   */
+  protected inTransaction<R>(work: (tx: DbTransaction) => Promise<R>, tx?: DbTransaction): Promise<R> {
+    return this.drizzleService.transaction(work, tx);
+  }
+
   /**
    * Find a record by ID or throw NotFoundException
    */
@@ -51,11 +63,12 @@ export abstract class BaseRepository<T> {
     table: any,
     condition: any,
     errorMessage = MESSAGES.NOT_FOUND,
+    tx?: DbTransaction,
   ): Promise<T> {
     this.logger.log('Finding record with custom condition');
     
     try {
-      const result = await this.db.select().from(table).where(condition).limit(1);
+      const result = await (tx ?? this.db).select().from(table).where(condition).limit(1);
       
       if (!result.length) {
         this.logger.warn('Record not found with custom condition');
@@ -76,11 +89,12 @@ export abstract class BaseRepository<T> {
   protected async findOne(
     table: any,
     condition: any,
+    tx?: DbTransaction,
   ): Promise<T | null> {
     this.logger.log('Finding record with custom condition (nullable)');
     
     try {
-      const result = await this.db.select().from(table).where(condition).limit(1);
+      const result = await (tx ?? this.db).select().from(table).where(condition).limit(1);
       const found = result.length > 0;
       this.logger.log(`Record ${found ? 'found' : 'not found'} with custom condition`);
       return result.length ? (result[0] as T) : null;
@@ -1,20 +1,24 @@
 import { Injectable } from '@nestjs/common';
-import { BaseRepository } from './base.repository';
+import { BaseRepository, DbTransaction } from './base.repository';
 import { categories } from '../schema/categories';
-import { eq, and, isNull, ilike, desc } from 'drizzle-orm';
+import { eq, ne, and, isNull, ilike, desc, sql } from 'drizzle-orm';
 import { DrizzleService } from '../drizzle.service';
 import { MESSAGES } from '../../../common/constants/string-const';
 
 export interface CreateCategoryDto {
   name: string;
+  parent_id?: string | null; // Null or omitted for a top-level category
   description?: string;
+  tax_class_id?: string | null; // Default tax class for products in this category
   is_active?: boolean;
   created_by: string; // UUID of the user creating the category
 }
 
 export interface UpdateCategoryDto {
   name?: string;
+  parent_id?: string | null;
   description?: string;
+  tax_class_id?: string | null; // Default tax class for products in this category
   is_active?: boolean;
   updated_by: string; // UUID of the user updating the category
 }
@@ -22,7 +26,9 @@ export interface UpdateCategoryDto {
 export interface CategoryEntity {
   id: string; // UUID
   name: string;
+  parent_id: string | null;
   description: string | null;
+  tax_class_id: string | null;
   is_active: boolean;
   created_by: string;
   created_at: Date;
@@ -54,7 +60,9 @@ export class CategoriesRepository extends BaseRepository<CategoryEntity> {
         .insert(categories)
         .values({
           name: categoryData.name,
+          parent_id: categoryData.parent_id || null,
           description: categoryData.description || null,
+          tax_class_id: categoryData.tax_class_id || null,
           is_active: categoryData.is_active ?? true,
           created_by: categoryData.created_by,
           created_at: new Date(),
@@ -69,14 +77,14 @@ export class CategoriesRepository extends BaseRepository<CategoryEntity> {
     }
   }
 
-  async findById(id: string, withDeleted = false): Promise<CategoryEntity | null> {
+  async findById(id: string, withDeleted = false, tx?: DbTransaction): Promise<CategoryEntity | null> {
     this.logger.log(`Finding category by ID: ${id}`);
     
     const condition = withDeleted 
       ? eq(categories.id, id)
       : and(eq(categories.id, id), isNull(categories.deleted_at));
     
-    const result = await this.findOne(categories, condition);
+    const result = await this.findOne(categories, condition, tx);
     if (result) {
       this.logger.log(`Category found: ${result.name} (ID: ${id})`);
     } else {
@@ -93,14 +101,22 @@ export class CategoriesRepository extends BaseRepository<CategoryEntity> {
     return super.findOneOrThrow(categories, condition, MESSAGES.CATEGORY_NOT_FOUND);
   }
 
-  async findByName(name: string, withDeleted = false): Promise<CategoryEntity | null> {
-    this.logger.log(`Finding category by name: ${name}`);
+  /**
+   * Finds a category by name among the children of a parent (or among the top-level
+   * categories when parentId is null), since names are only unique among siblings
+   */
+  async findByName(name: string, parentId: string | null, withDeleted = false): Promise<CategoryEntity | null> {
+    this.logger.log(`Finding category by name: ${name} (parent: ${parentId ?? 'none'})`);
     
-    const condition = withDeleted 
-      ? eq(categories.name, name)
-      : and(eq(categories.name, name), isNull(categories.deleted_at));
+    const conditions = [
+      eq(categories.name, name),
+      parentId ? eq(categories.parent_id, parentId) : isNull(categories.parent_id),
+    ];
+    if (!withDeleted) {
+      conditions.push(isNull(categories.deleted_at));
+    }
     
-    const result = await this.findOne(categories, condition);
+    const result = await this.findOne(categories, and(...conditions));
     if (result) {
       this.logger.log(`Category found with name: ${name} (ID: ${result.id})`);
     } else {
@@ -150,7 +166,7 @@ export class CategoriesRepository extends BaseRepository<CategoryEntity> {
     }
   }
 
-  async update(id: string, categoryData: UpdateCategoryDto): Promise<CategoryEntity> {
+  async update(id: string, categoryData: UpdateCategoryDto, tx?: DbTransaction): Promise<CategoryEntity> {
     this.logger.log(`Updating category: ${id}`);
     
     try {
@@ -163,15 +179,23 @@ export class CategoriesRepository extends BaseRepository<CategoryEntity> {
         updateData.name = categoryData.name;
       }
 
+      if (categoryData.parent_id !== undefined) {
+        updateData.parent_id = categoryData.parent_id || null;
+      }
+
       if (categoryData.description !== undefined) {
         updateData.description = categoryData.description;
       }
 
+      if (categoryData.tax_class_id !== undefined) {
+        updateData.tax_class_id = categoryData.tax_class_id || null;
+      }
+
       if (categoryData.is_active !== undefined) {
         updateData.is_active = categoryData.is_active;
       }
 
-      const result = await this.db
+      const result = await (tx ?? this.db)
         .update(categories)
         .set(updateData)
         .where(and(eq(categories.id, id), isNull(categories.deleted_at)))
@@ -238,15 +262,90 @@ export class CategoriesRepository extends BaseRepository<CategoryEntity> {
 
   //#endregion
 
+  //#region ==================== HIERARCHY OPERATIONS ====================
+
+  /**
+   * IDs of a category and every category below it, at any depth. Deleted categories and
+   * anything below them are left out unless withDeleted is set.
+   */
+  async findDescendantIds(id: string, withDeleted = false): Promise<string[]> {
+    this.logger.log(`Finding descendants of category: ${id}`);
+
+    try {
+      const activeOnly = withDeleted ? '' : ' AND c.deleted_at IS NULL';
+      const rows = await this.executeRaw<{ id: string }>(
+        `WITH RECURSIVE subtree AS (
+           SELECT c.id FROM categories c WHERE c.id = $1${activeOnly}
+           UNION
+           SELECT c.id FROM categories c JOIN subtree s ON c.parent_id = s.id${activeOnly}
+         )
+         SELECT id FROM subtree`,
+        [id],
+      );
+
+      this.logger.log(`Category ${id} has ${rows.length - 1} descendants`);
+      return rows.map(row => row.id);
+    } catch (error) {
+      this.logger.error(`Failed to find descendants of category: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Locks a category and every category below it, deleted ones included, for the rest of
+   * the transaction and returns their IDs. A tree-wide lock is taken first so that two
+   * moves can't each check for a loop against a tree the other is about to change.
+   */
+  async lockSubtree(id: string, tx: DbTransaction): Promise<string[]> {
+    this.logger.log(`Locking subtree of category: ${id}`);
+
+    try {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('categories:hierarchy'))`);
+
+      const result = await tx.execute<{ id: string }>(sql`
+        SELECT id FROM categories
+        WHERE id IN (
+          WITH RECURSIVE subtree AS (
+            SELECT c.id FROM categories c WHERE c.id = ${id}
+            UNION
+            SELECT c.id FROM categories c JOIN subtree s ON c.parent_id = s.id
+          )
+          SELECT id FROM subtree
+        )
+        FOR UPDATE`);
+
+      return result.rows.map(row => row.id);
+    } catch (error) {
+      this.logger.error(`Failed to lock subtree of category: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  async hasChildren(id: string, withDeleted = false): Promise<boolean> {
+    this.logger.log(`Checking if category has subcategories: ${id}`);
+
+    const condition = withDeleted
+      ? eq(categories.parent_id, id)
+      : and(eq(categories.parent_id, id), isNull(categories.deleted_at));
+
+    return this.exists(categories, condition);
+  }
+
+  //#endregion
+
   //#region ==================== UTILITY OPERATIONS ====================
 
-  async nameExists(name: string, excludeId?: string): Promise<boolean> {
+  async nameExists(name: string, parentId: string | null, excludeId?: string): Promise<boolean> {
     this.logger.log(`Checking if category name exists: ${name}`);
     
-    const conditions = [eq(categories.name, name), isNull(categories.deleted_at)];
+    const conditions = [
+      eq(categories.name, name),
+      parentId ? eq(categories.parent_id, parentId) : isNull(categories.parent_id),
+      isNull(categories.deleted_at),
+    ];
     
     if (excludeId) {
-      conditions.push(eq(categories.id, excludeId));
+      conditions.push(ne(categories.id, excludeId));
     }
     
     const exists = await this.exists(categories, and(...conditions));
@@ -0,0 +1,154 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CostLayersRepository, CostConsumptionRequest } from './cost-layers.repository';
+import { DbTransaction } from './base.repository';
+import { DrizzleService } from '../drizzle.service';
+import { StockReferenceType } from './stock-transactions.repository';
+import { salesInvoiceItems } from '../schema/sales-invoice-items';
+
+interface OpenLayer {
+  id: string;
+  unit_cost: string;
+  quantity_remaining: number;
+  purchase_order_item_id: string | null;
+}
+
+/**
+ * Stand-in for a transaction: selects resolve to the queued results in order, and the
+ * updates and inserts issued are recorded
+ */
+const fakeTransaction = (selectResults: unknown[]) => {
+  const updates: { table: unknown; values: Record<string, unknown> }[] = [];
+  const inserts: Record<string, unknown>[][] = [];
+
+  const query = (result: () => unknown) => {
+    const chain: Record<string, unknown> = {
+      then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+        Promise.resolve().then(result).then(resolve, reject),
+    };
+    for (const method of ['from', 'where', 'orderBy', 'for', 'returning']) {
+      chain[method] = () => chain;
+    }
+    return chain;
+  };
+
+  const tx = {
+    select: () => query(() => selectResults.shift()),
+    update: (table: unknown) => ({
+      set: (values: Record<string, unknown>) => {
+        updates.push({ table, values });
+        return query(() => undefined);
+      },
+    }),
+    insert: () => ({
+      values: (values: Record<string, unknown>[]) => {
+        inserts.push(values);
+        return query(() => undefined);
+      },
+    }),
+  };
+
+  return { tx: tx as unknown as DbTransaction, updates, inserts };
+};
+
+const layer = (id: string, unitCost: number, quantity: number, purchaseOrderItemId: string | null = null): OpenLayer => ({
+  id,
+  unit_cost: unitCost.toFixed(4),
+  quantity_remaining: quantity,
+  purchase_order_item_id: purchaseOrderItemId,
+});
+
+const request = (overrides: Partial<CostConsumptionRequest> = {}): CostConsumptionRequest => ({
+  product_id: 'product-1',
+  quantity: 8,
+  method: 'FIFO',
+  reference_type: StockReferenceType.SALE,
+  fallback_unit_cost: 4,
+  created_by: 'user-1',
+  ...overrides,
+});
+
+describe('CostLayersRepository', () => {
+  let repository: CostLayersRepository;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CostLayersRepository,
+        {
+          provide: DrizzleService,
+          useValue: {
+            transaction: (work: (tx: DbTransaction) => Promise<unknown>, tx: DbTransaction) => work(tx),
+          },
+        },
+      ],
+    }).compile();
+
+    repository = module.get<CostLayersRepository>(CostLayersRepository);
+  });
+
+  describe('consume', () => {
+    it('charges FIFO consumption at each layer\'s own cost, oldest first', async () => {
+      const { tx, updates, inserts } = fakeTransaction([[layer('old', 2, 5), layer('new', 3, 10)]]);
+
+      const result = await repository.consume(request(), tx);
+
+      expect(result).toEqual({ quantity: 8, unit_cost: 19 / 8, total_cost: 19 });
+      expect(updates.map(update => update.values.quantity_remaining)).toEqual([0, 7]);
+      expect(inserts[0].map(row => [row.cost_layer_id, row.quantity, row.total_cost])).toEqual([
+        ['old', 5, '10.0000'],
+        ['new', 3, '9.0000'],
+      ]);
+    });
+
+    it('charges weighted-average consumption at the average cost of stock on hand', async () => {
+      // 5 at 2.00 and 10 at 3.00 is 40.00 for 15 units
+      const { tx, inserts } = fakeTransaction([
+        [layer('old', 2, 5), layer('new', 3, 10)],
+        [{ value: '40' }],
+        [{ value: '0' }],
+      ]);
+
+      const result = await repository.consume(request({ quantity: 6, method: 'WEIGHTED_AVERAGE' }), tx);
+
+      expect(result.total_cost).toBeCloseTo(16, 3);
+      expect(inserts[0].map(row => row.cost_layer_id)).toEqual(['old', 'new']);
+      inserts[0].forEach(row => expect(parseFloat(row.unit_cost as string)).toBeCloseTo(40 / 15, 4));
+    });
+
+    it('uses layers received on the purchase order line first, at their own cost', async () => {
+      const { tx, inserts } = fakeTransaction([
+        [layer('old', 2, 5), layer('received', 3, 10, 'po-item-1')],
+        [{ value: '40' }],
+        [{ value: '0' }],
+      ]);
+
+      const result = await repository.consume(
+        request({ quantity: 4, method: 'WEIGHTED_AVERAGE', purchase_order_item_id: 'po-item-1' }),
+        tx,
+      );
+
+      expect(result.total_cost).toBe(12);
+      expect(inserts[0].map(row => row.cost_layer_id)).toEqual(['received']);
+    });
+
+    it('costs units beyond the open layers at the fallback cost, without a layer', async () => {
+      const { tx, inserts } = fakeTransaction([[layer('only', 2, 5)]]);
+
+      const result = await repository.consume(request({ quantity: 7 }), tx);
+
+      expect(result.total_cost).toBe(18);
+      expect(inserts[0].map(row => [row.cost_layer_id, row.quantity, row.unit_cost])).toEqual([
+        ['only', 5, '2.0000'],
+        [null, 2, '4.0000'],
+      ]);
+    });
+
+    it('adds the cost to the invoice line it was sold on', async () => {
+      const { tx, updates } = fakeTransaction([[layer('only', 2, 5)]]);
+
+      await repository.consume(request({ quantity: 3, sales_invoice_item_id: 'invoice-item-1' }), tx);
+
+      expect(updates.filter(update => update.table === salesInvoiceItems)).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,432 @@
+import { Injectable } from '@nestjs/common';
+import { BaseRepository, DbTransaction } from './base.repository';
+import { StockReferenceType } from './stock-transactions.repository';
+import { costLayers, costLayerConsumptions } from '../schema/cost-layers';
+import { salesInvoiceItems } from '../schema/sales-invoice-items';
+import { products } from '../schema/products';
+import { eq, and, isNull, isNotNull, gt, lte, asc, sql } from 'drizzle-orm';
+import { DrizzleService } from '../drizzle.service';
+import { CostingMethod } from '../../../config/inventory.config';
+
+export interface CreateCostLayerDto {
+  product_id: string;
+  reference_type: StockReferenceType;
+  reference_id?: string;
+  purchase_order_item_id?: string;
+  sales_invoice_item_id?: string;
+  unit_cost: number;
+  quantity: number;
+  notes?: string;
+  created_by: string; // UUID of the user whose movement created the layer
+}
+
+export interface CostLayerEntity {
+  id: string; // UUID
+  product_id: string;
+  reference_type: StockReferenceType;
+  reference_id: string | null;
+  purchase_order_item_id: string | null;
+  sales_invoice_item_id: string | null;
+  unit_cost: string;
+  quantity_received: number;
+  quantity_remaining: number;
+  received_at: Date;
+  notes: string | null;
+  created_by: string;
+  created_at: Date;
+  updated_by: string | null;
+  updated_at: Date | null;
+  deleted_by: string | null;
+  deleted_at: Date | null;
+}
+
+export interface CostConsumptionRequest {
+  product_id: string;
+  quantity: number;
+  method: CostingMethod;
+  reference_type: StockReferenceType;
+  reference_id?: string;
+  sales_invoice_item_id?: string; // Line whose cost of goods sold is increased
+  purchase_order_item_id?: string; // Layers received on this PO line are used first, at their own cost
+  fallback_unit_cost: number; // Cost for units no layer covers
+  created_by: string;
+}
+
+export interface SaleRestockRequest {
+  product_id: string;
+  sales_invoice_item_id: string;
+  quantity: number;
+  reference_type: StockReferenceType;
+  reference_id?: string;
+  fallback_unit_cost: number; // Used when the line has no recorded consumptions
+  notes?: string;
+  created_by: string;
+}
+
+export interface CostMovementResult {
+  quantity: number;
+  unit_cost: number;
+  total_cost: number;
+}
+
+export interface InventoryValuationRow {
+  product_id: string;
+  product_name: string;
+  product_sku: string;
+  quantity: number;
+  total_value: string;
+}
+
+/**
+ * Cost layers and the consumptions drawn from them. Stock on hand at cost is the value
+ * received into layers less the cost of everything consumed from them, which holds for
+ * both FIFO and weighted-average costing. Write operations take an optional transaction so
+ * they commit or roll back together with the stock movement they cost.
+ */
+@Injectable()
+export class CostLayersRepository extends BaseRepository<CostLayerEntity> {
+  constructor(drizzleService: DrizzleService) {
+    super(drizzleService);
+  }
+
+  //#region ==================== LAYER OPERATIONS ====================
+
+  async createLayer(layerData: CreateCostLayerDto, tx?: DbTransaction): Promise<CostLayerEntity> {
+    this.logger.log(`Creating cost layer of ${layerData.quantity} at ${layerData.unit_cost} for product: ${layerData.product_id}`);
+
+    try {
+      const result = await (tx ?? this.db)
+        .insert(costLayers)
+        .values(this.layerValues(layerData))
+        .returning();
+
+      this.logger.log(`Cost layer created successfully (ID: ${result[0].id})`);
+      return result[0] as CostLayerEntity;
+    } catch (error) {
+      this.logger.error(`Failed to create cost layer for product: ${layerData.product_id}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Takes units out of the product's open layers, oldest first, under a row lock on those layers.
+   * FIFO charges each layer's own cost; weighted average charges the average cost of everything
+   * still in stock. Units beyond what the layers hold are recorded without a layer at the fallback cost.
+   */
+  async consume(request: CostConsumptionRequest, tx?: DbTransaction): Promise<CostMovementResult> {
+    this.logger.log(`Consuming ${request.quantity} of product: ${request.product_id} (${request.method})`);
+
+    try {
+      return await this.inTransaction(async (tx) => {
+        const openLayers = await tx
+          .select()
+          .from(costLayers)
+          .where(and(
+            eq(costLayers.product_id, request.product_id),
+            gt(costLayers.quantity_remaining, 0),
+            isNull(costLayers.deleted_at),
+          ))
+          .orderBy(asc(costLayers.received_at), asc(costLayers.id))
+          .for('update');
+
+        // Stable sort keeps the oldest-first order within each group
+        const layers = request.purchase_order_item_id
+          ? [...openLayers].sort((a, b) =>
+            Number(b.purchase_order_item_id === request.purchase_order_item_id) -
+            Number(a.purchase_order_item_id === request.purchase_order_item_id))
+          : openLayers;
+
+        let poolQuantity = openLayers.reduce((sum, layer) => sum + layer.quantity_remaining, 0);
+        let poolValue = request.method === 'WEIGHTED_AVERAGE'
+          ? await this.remainingValue(tx, request.product_id)
+          : 0;
+
+        let remaining = request.quantity;
+        let totalCost = 0;
+        const consumptions: (typeof costLayerConsumptions.$inferInsert)[] = [];
+
+        for (const layer of layers) {
+          if (remaining <= 0) break;
+
+          const quantity = Math.min(remaining, layer.quantity_remaining);
+          const preferred = layer.purchase_order_item_id === request.purchase_order_item_id && !!request.purchase_order_item_id;
+          const unitCost = request.method === 'WEIGHTED_AVERAGE' && !preferred && poolQuantity > 0
+            ? poolValue / poolQuantity
+            : parseFloat(layer.unit_cost);
+          const cost = this.roundCost(quantity * unitCost);
+
+          await tx
+            .update(costLayers)
+            .set({
+              quantity_remaining: layer.quantity_remaining - quantity,
+              updated_by: request.created_by,
+              updated_at: new Date(),
+            })
+            .where(eq(costLayers.id, layer.id));
+
+          consumptions.push(this.consumptionValues(request, layer.id, quantity, unitCost, cost));
+          poolQuantity -= quantity;
+          poolValue -= cost;
+          totalCost += cost;
+          remaining -= quantity;
+        }
+
+        if (remaining > 0) {
+          this.logger.warn(`Cost layers for product ${request.product_id} are short by ${remaining}; costing them at ${request.fallback_unit_cost}`);
+          const cost = this.roundCost(remaining * request.fallback_unit_cost);
+          consumptions.push(this.consumptionValues(request, null, remaining, request.fallback_unit_cost, cost));
+          totalCost += cost;
+        }
+
+        if (consumptions.length) {
+          await tx.insert(costLayerConsumptions).values(consumptions);
+        }
+
+        if (request.sales_invoice_item_id) {
+          await tx
+            .update(salesInvoiceItems)
+            .set({
+              cost_of_goods_sold: sql`${salesInvoiceItems.cost_of_goods_sold} + ${this.roundCurrency(totalCost)}`,
+            })
+            .where(eq(salesInvoiceItems.id, request.sales_invoice_item_id));
+        }
+
+        this.logger.log(`Consumed ${request.quantity} of product: ${request.product_id} at a cost of ${totalCost}`);
+        return {
+          quantity: request.quantity,
+          unit_cost: request.quantity > 0 ? totalCost / request.quantity : 0,
+          total_cost: totalCost,
+        };
+      }, tx);
+    } catch (error) {
+      this.logger.error(`Failed to consume cost layers for product: ${request.product_id}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Puts sold units back into stock at the average cost they left at, and takes that cost
+   * back off the invoice line's cost of goods sold
+   */
+  async restockSale(request: SaleRestockRequest, tx?: DbTransaction): Promise<CostMovementResult> {
+    this.logger.log(`Restocking ${request.quantity} of product: ${request.product_id} from sales invoice item: ${request.sales_invoice_item_id}`);
+
+    try {
+      return await this.inTransaction(async (tx) => {
+        const [consumed] = await tx
+          .select({
+            quantity: sql<number>`COALESCE(SUM(${costLayerConsumptions.quantity}), 0)::int`,
+            total_cost: sql<string>`COALESCE(SUM(${costLayerConsumptions.total_cost}), 0)::text`,
+          })
+          .from(costLayerConsumptions)
+          .where(and(
+            eq(costLayerConsumptions.sales_invoice_item_id, request.sales_invoice_item_id),
+            isNull(costLayerConsumptions.deleted_at),
+          ));
+
+        const unitCost = consumed.quantity > 0
+          ? parseFloat(consumed.total_cost) / consumed.quantity
+          : request.fallback_unit_cost;
+        const totalCost = this.roundCost(request.quantity * unitCost);
+
+        await tx.insert(costLayers).values(this.layerValues({
+          product_id: request.product_id,
+          reference_type: request.reference_type,
+          reference_id: request.reference_id,
+          sales_invoice_item_id: request.sales_invoice_item_id,
+          unit_cost: unitCost,
+          quantity: request.quantity,
+          notes: request.notes,
+          created_by: request.created_by,
+        }));
+
+        await tx
+          .update(salesInvoiceItems)
+          .set({
+            cost_of_goods_sold: sql`GREATEST(${salesInvoiceItems.cost_of_goods_sold} - ${this.roundCurrency(totalCost)}, 0)`,
+          })
+          .where(eq(salesInvoiceItems.id, request.sales_invoice_item_id));
+
+        this.logger.log(`Restocked ${request.quantity} of product: ${request.product_id} at ${unitCost}`);
+        return { quantity: request.quantity, unit_cost: unitCost, total_cost: totalCost };
+      }, tx);
+    } catch (error) {
+      this.logger.error(`Failed to restock sales invoice item: ${request.sales_invoice_item_id}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== QUERY OPERATIONS ====================
+
+  async findByProduct(productId: string, openOnly = true): Promise<CostLayerEntity[]> {
+    this.logger.log(`Finding ${openOnly ? 'open ' : ''}cost layers for product: ${productId}`);
+
+    try {
+      const conditions = [eq(costLayers.product_id, productId), isNull(costLayers.deleted_at)];
+      if (openOnly) {
+        conditions.push(gt(costLayers.quantity_remaining, 0));
+      }
+
+      const result = await this.db
+        .select()
+        .from(costLayers)
+        .where(and(...conditions))
+        .orderBy(asc(costLayers.received_at), asc(costLayers.id));
+
+      return result as CostLayerEntity[];
+    } catch (error) {
+      this.logger.error(`Failed to find cost layers for product: ${productId}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Quantity and cost of every product in stock at the given moment, rebuilt from the layers
+   * received and the consumptions drawn from them up to then
+   */
+  async getValuation(asOf: Date): Promise<InventoryValuationRow[]> {
+    this.logger.log(`Valuing inventory as of ${asOf.toISOString()}`);
+
+    try {
+      const received = this.db
+        .select({
+          product_id: costLayers.product_id,
+          quantity: sql<number>`SUM(${costLayers.quantity_received})`.as('received_quantity'),
+          value: sql<string>`SUM(${costLayers.quantity_received} * ${costLayers.unit_cost})`.as('received_value'),
+        })
+        .from(costLayers)
+        .where(and(isNull(costLayers.deleted_at), lte(costLayers.received_at, asOf)))
+        .groupBy(costLayers.product_id)
+        .as('received');
+
+      const consumed = this.db
+        .select({
+          product_id: costLayerConsumptions.product_id,
+          quantity: sql<number>`SUM(${costLayerConsumptions.quantity})`.as('consumed_quantity'),
+          value: sql<string>`SUM(${costLayerConsumptions.total_cost})`.as('consumed_value'),
+        })
+        .from(costLayerConsumptions)
+        .where(and(
+          isNull(costLayerConsumptions.deleted_at),
+          isNotNull(costLayerConsumptions.cost_layer_id),
+          lte(costLayerConsumptions.consumed_at, asOf),
+        ))
+        .groupBy(costLayerConsumptions.product_id)
+        .as('consumed');
+
+      const quantity = sql<number>`(${received.quantity} - COALESCE(${consumed.quantity}, 0))::int`;
+
+      const result = await this.db
+        .select({
+          product_id: products.id,
+          product_name: products.name,
+          product_sku: products.sku,
+          quantity,
+          total_value: sql<string>`ROUND(${received.value} - COALESCE(${consumed.value}, 0), 2)::text`,
+        })
+        .from(received)
+        .innerJoin(products, eq(received.product_id, products.id))
+        .leftJoin(consumed, eq(consumed.product_id, received.product_id))
+        .where(gt(quantity, 0))
+        .orderBy(asc(products.name));
+
+      this.logger.log(`Valued ${result.length} products in stock`);
+      return result as InventoryValuationRow[];
+    } catch (error) {
+      this.logger.error('Failed to value inventory', error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Current value of all stock on hand at cost
+   */
+  async getTotalValue(): Promise<number> {
+    this.logger.log('Calculating total inventory value at cost');
+
+    try {
+      const value = await this.remainingValue(this.db);
+      this.logger.log(`Total inventory value calculated: ${value}`);
+      return value;
+    } catch (error) {
+      this.logger.error('Failed to calculate total inventory value', error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== HELPERS ====================
+
+  /**
+   * Value received into layers less the cost consumed from them, for one product or all of them
+   */
+  private async remainingValue(executor: Pick<DbTransaction, 'select'>, productId?: string): Promise<number> {
+    const [received] = await executor
+      .select({ value: sql<string>`COALESCE(SUM(${costLayers.quantity_received} * ${costLayers.unit_cost}), 0)::text` })
+      .from(costLayers)
+      .where(and(
+        isNull(costLayers.deleted_at),
+        productId ? eq(costLayers.product_id, productId) : undefined,
+      ));
+
+    const [consumed] = await executor
+      .select({ value: sql<string>`COALESCE(SUM(${costLayerConsumptions.total_cost}), 0)::text` })
+      .from(costLayerConsumptions)
+      .where(and(
+        isNull(costLayerConsumptions.deleted_at),
+        isNotNull(costLayerConsumptions.cost_layer_id),
+        productId ? eq(costLayerConsumptions.product_id, productId) : undefined,
+      ));
+
+    return parseFloat(received.value) - parseFloat(consumed.value);
+  }
+
+  private layerValues(layerData: CreateCostLayerDto): typeof costLayers.$inferInsert {
+    const now = new Date();
+    return {
+      product_id: layerData.product_id,
+      reference_type: layerData.reference_type,
+      reference_id: layerData.reference_id || null,
+      purchase_order_item_id: layerData.purchase_order_item_id || null,
+      sales_invoice_item_id: layerData.sales_invoice_item_id || null,
+      unit_cost: layerData.unit_cost.toFixed(4),
+      quantity_received: layerData.quantity,
+      quantity_remaining: layerData.quantity,
+      received_at: now,
+      notes: layerData.notes || null,
+      created_by: layerData.created_by,
+      created_at: now,
+    };
+  }
+
+  private consumptionValues(
+    request: CostConsumptionRequest,
+    costLayerId: string | null,
+    quantity: number,
+    unitCost: number,
+    totalCost: number,
+  ): typeof costLayerConsumptions.$inferInsert {
+    const now = new Date();
+    return {
+      product_id: request.product_id,
+      cost_layer_id: costLayerId,
+      reference_type: request.reference_type,
+      reference_id: request.reference_id || null,
+      sales_invoice_item_id: request.sales_invoice_item_id || null,
+      purchase_order_item_id: request.purchase_order_item_id || null,
+      quantity,
+      unit_cost: unitCost.toFixed(4),
+      total_cost: totalCost.toFixed(4),
+      consumed_at: now,
+      created_by: request.created_by,
+      created_at: now,
+    };
+  }
+
+  private roundCost(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+
+  private roundCurrency(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,455 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { BaseRepository, DbTransaction } from './base.repository';
+import { customers } from '../schema/customers';
+import { salesInvoices } from '../schema/sales-invoices';
+import { eq, and, isNull, isNotNull, ilike, desc, or, inArray, ne, sql } from 'drizzle-orm';
+import { DrizzleService } from '../drizzle.service';
+import { MESSAGES } from '../../../common/constants/string-const';
+
+export interface CreateCustomerDto {
+  name: string;
+  email?: string;
+  phone?: string;
+  company_name?: string;
+  tax_id?: string;
+  billing_address?: string;
+  shipping_address?: string;
+  credit_limit?: number | null;
+  notes?: string;
+  is_active?: boolean;
+  created_by: string; // UUID of the user creating the customer
+}
+
+export interface UpdateCustomerDto {
+  name?: string;
+  email?: string;
+  phone?: string;
+  company_name?: string;
+  tax_id?: string;
+  billing_address?: string;
+  shipping_address?: string;
+  credit_limit?: number | null;
+  notes?: string;
+  is_active?: boolean;
+  updated_by: string; // UUID of the user updating the customer
+}
+
+export interface CustomerEntity {
+  id: string; // UUID
+  name: string;
+  email: string | null;
+  phone: string | null;
+  company_name: string | null;
+  tax_id: string | null;
+  billing_address: string | null;
+  shipping_address: string | null;
+  credit_limit: string | null;
+  notes: string | null;
+  is_active: boolean;
+  created_by: string;
+  created_at: Date;
+  updated_by: string | null;
+  updated_at: Date | null;
+  deleted_by: string | null;
+  deleted_at: Date | null;
+}
+
+export interface CustomerFilters {
+  search?: string;
+  is_active?: boolean;
+  withDeleted?: boolean;
+}
+
+export interface CustomerAccountRow {
+  invoice_count: number;
+  lifetime_value: string;
+  open_balance: string;
+  first_purchase_at: Date | null;
+  last_purchase_at: Date | null;
+}
+
+export interface CustomerInvoiceSummary {
+  id: string;
+  invoice_number: string;
+  total_amount: string;
+  amount_paid: string;
+  payment_status: 'PENDING' | 'PAID' | 'PARTIAL' | 'CANCELLED';
+  created_at: Date;
+}
+
+export interface UnlinkedInvoiceContact {
+  id: string;
+  customer_name: string | null;
+  customer_email: string | null;
+  customer_phone: string | null;
+}
+
+@Injectable()
+export class CustomersRepository extends BaseRepository<CustomerEntity> {
+  constructor(drizzleService: DrizzleService) {
+    super(drizzleService);
+  }
+
+  //#region ==================== CRUD OPERATIONS ====================
+
+  async create(customerData: CreateCustomerDto, tx?: DbTransaction): Promise<CustomerEntity> {
+    this.logger.log(`Creating customer: ${customerData.name}`);
+
+    try {
+      const result = await (tx ?? this.db)
+        .insert(customers)
+        .values({
+          name: customerData.name,
+          email: customerData.email || null,
+          phone: customerData.phone || null,
+          company_name: customerData.company_name || null,
+          tax_id: customerData.tax_id || null,
+          billing_address: customerData.billing_address || null,
+          shipping_address: customerData.shipping_address || null,
+          credit_limit: customerData.credit_limit != null ? customerData.credit_limit.toString() : null,
+          notes: customerData.notes || null,
+          is_active: customerData.is_active ?? true,
+          created_by: customerData.created_by,
+          created_at: new Date(),
+        })
+        .returning();
+
+      this.logger.log(`Customer created successfully: ${customerData.name} (ID: ${result[0].id})`);
+      return result[0] as CustomerEntity;
+    } catch (error) {
+      this.logger.error(`Failed to create customer: ${customerData.name}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findById(id: string, withDeleted = false, tx?: DbTransaction): Promise<CustomerEntity | null> {
+    this.logger.log(`Finding customer by ID: ${id}`);
+
+    const condition = withDeleted
+      ? eq(customers.id, id)
+      : and(eq(customers.id, id), isNull(customers.deleted_at));
+
+    return this.findOne(customers, condition, tx);
+  }
+
+  async findCustomerByIdOrThrow(id: string, withDeleted = false): Promise<CustomerEntity> {
+    const condition = withDeleted
+      ? eq(customers.id, id)
+      : and(eq(customers.id, id), isNull(customers.deleted_at));
+
+    return super.findOneOrThrow(customers, condition, MESSAGES.CUSTOMER_NOT_FOUND);
+  }
+
+  /**
+   * Locks the customer row for the rest of the transaction
+   */
+  async lockCustomer(id: string, tx: DbTransaction): Promise<CustomerEntity> {
+    this.logger.log(`Locking customer: ${id}`);
+
+    const result = await tx
+      .select()
+      .from(customers)
+      .where(and(eq(customers.id, id), isNull(customers.deleted_at)))
+      .for('update');
+
+    if (!result.length) {
+      this.logger.warn(`Customer not found for locking: ${id}`);
+      throw new NotFoundException(MESSAGES.CUSTOMER_NOT_FOUND);
+    }
+    return result[0] as CustomerEntity;
+  }
+
+  /**
+   * Emails are compared case-insensitively, since invoices captured them as typed
+   */
+  async findByEmail(email: string, tx?: DbTransaction): Promise<CustomerEntity | null> {
+    this.logger.log(`Finding customer by email: ${email}`);
+
+    return this.findOne(customers, and(
+      sql`lower(${customers.email}) = ${email.trim().toLowerCase()}`,
+      isNull(customers.deleted_at),
+    ), tx);
+  }
+
+  /**
+   * Phone numbers are compared on their digits only, so "+1 555-0100" matches "15550100"
+   */
+  async findByPhone(phone: string, tx?: DbTransaction): Promise<CustomerEntity | null> {
+    const digits = phone.replace(/\D/g, '');
+    this.logger.log(`Finding customer by phone digits: ${digits}`);
+
+    if (!digits) {
+      return null;
+    }
+
+    return this.findOne(customers, and(
+      sql`regexp_replace(${customers.phone}, '\\D', '', 'g') = ${digits}`,
+      isNull(customers.deleted_at),
+    ), tx);
+  }
+
+  async update(id: string, updateData: UpdateCustomerDto): Promise<CustomerEntity> {
+    this.logger.log(`Updating customer: ${id}`);
+
+    // First verify customer exists
+    await this.findCustomerByIdOrThrow(id);
+
+    try {
+      const updateValues: any = {
+        ...updateData,
+        updated_at: new Date(),
+      };
+
+      // Handle numeric fields
+      if (updateData.credit_limit !== undefined) {
+        updateValues.credit_limit = updateData.credit_limit !== null ? updateData.credit_limit.toString() : null;
+      }
+
+      const result = await this.db
+        .update(customers)
+        .set(updateValues)
+        .where(and(eq(customers.id, id), isNull(customers.deleted_at)))
+        .returning();
+
+      if (!result.length) {
+        this.logger.error(`No customer updated with ID: ${id}`);
+        throw new Error(MESSAGES.CUSTOMER_NOT_FOUND);
+      }
+
+      this.logger.log(`Customer updated successfully: ${id}`);
+      return result[0] as CustomerEntity;
+    } catch (error) {
+      this.logger.error(`Failed to update customer: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  async delete(id: string, deletedBy: string): Promise<boolean> {
+    this.logger.log(`Soft deleting customer: ${id}`);
+
+    // First verify customer exists
+    await this.findCustomerByIdOrThrow(id);
+
+    try {
+      const result = await this.db
+        .update(customers)
+        .set({
+          deleted_by: deletedBy,
+          deleted_at: new Date(),
+          updated_by: deletedBy,
+          updated_at: new Date(),
+        })
+        .where(and(eq(customers.id, id), isNull(customers.deleted_at)))
+        .returning();
+
+      const success = result.length > 0;
+      if (success) {
+        this.logger.log(`Customer soft deleted successfully: ${id}`);
+      } else {
+        this.logger.error(`Failed to soft delete customer: ${id}`);
+      }
+      return success;
+    } catch (error) {
+      this.logger.error(`Failed to soft delete customer: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== QUERY OPERATIONS ====================
+
+  async findAll(filters: CustomerFilters = {}, page = 1, limit = 10): Promise<{
+    data: CustomerEntity[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    this.logger.log(`Finding all customers with filters:`, filters);
+
+    // Build where conditions
+    const conditions: any[] = [];
+
+    if (!filters.withDeleted) {
+      conditions.push(isNull(customers.deleted_at));
+    }
+
+    if (filters.search) {
+      conditions.push(or(
+        ilike(customers.name, `%${filters.search}%`),
+        ilike(customers.email, `%${filters.search}%`),
+        ilike(customers.phone, `%${filters.search}%`),
+        ilike(customers.company_name, `%${filters.search}%`),
+        ilike(customers.tax_id, `%${filters.search}%`),
+      ));
+    }
+
+    if (typeof filters.is_active === 'boolean') {
+      conditions.push(eq(customers.is_active, filters.is_active));
+    }
+
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+    // Get total count
+    const total = await this.count(customers, whereClause);
+
+    // Get paginated results
+    const offset = (page - 1) * limit;
+    const data = await this.db
+      .select()
+      .from(customers)
+      .where(whereClause)
+      .orderBy(customers.name)
+      .limit(limit)
+      .offset(offset);
+
+    const totalPages = Math.ceil(total / limit);
+
+    this.logger.log(`Found ${data.length} customers out of ${total} total`);
+
+    return {
+      data: data as CustomerEntity[],
+      total,
+      page,
+      totalPages,
+    };
+  }
+
+  async searchCustomers(searchTerm: string, limit = 10): Promise<CustomerEntity[]> {
+    this.logger.log(`Searching customers with term: ${searchTerm}`);
+
+    const result = await this.db
+      .select()
+      .from(customers)
+      .where(and(
+        or(
+          ilike(customers.name, `%${searchTerm}%`),
+          ilike(customers.email, `%${searchTerm}%`),
+          ilike(customers.phone, `%${searchTerm}%`),
+          ilike(customers.company_name, `%${searchTerm}%`),
+        ),
+        eq(customers.is_active, true),
+        isNull(customers.deleted_at),
+      ))
+      .orderBy(customers.name)
+      .limit(limit);
+
+    this.logger.log(`Found ${result.length} customers matching: ${searchTerm}`);
+    return result as CustomerEntity[];
+  }
+
+  //#region ==================== ACCOUNT OPERATIONS ====================
+
+  /**
+   * Purchase totals across the customer's invoices. Void invoices are left out; what is
+   * still owed on pending and part-paid invoices makes up the open balance.
+   */
+  async getCustomerAccount(customerId: string, tx?: DbTransaction): Promise<CustomerAccountRow> {
+    this.logger.log(`Getting account totals for customer: ${customerId}`);
+
+    try {
+      const result = await (tx ?? this.db)
+        .select({
+          invoice_count: sql<number>`count(*)::int`,
+          lifetime_value: sql<string>`coalesce(sum(${salesInvoices.total_amount}), 0)`,
+          open_balance: sql<string>`coalesce(sum(${salesInvoices.total_amount} - ${salesInvoices.amount_paid}) filter (where ${salesInvoices.payment_status} in ('PENDING', 'PARTIAL')), 0)`,
+          first_purchase_at: sql<Date | null>`min(${salesInvoices.created_at})`,
+          last_purchase_at: sql<Date | null>`max(${salesInvoices.created_at})`,
+        })
+        .from(salesInvoices)
+        .where(and(
+          eq(salesInvoices.customer_id, customerId),
+          ne(salesInvoices.payment_status, 'CANCELLED'),
+          isNull(salesInvoices.deleted_at),
+        ));
+
+      return result[0] as CustomerAccountRow;
+    } catch (error) {
+      this.logger.error(`Failed to get account totals for customer: ${customerId}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Invoices with contact details but no customer, oldest first
+   */
+  async findUnlinkedInvoiceContacts(): Promise<UnlinkedInvoiceContact[]> {
+    this.logger.log('Finding invoices not linked to a customer');
+
+    const result = await this.db
+      .select({
+        id: salesInvoices.id,
+        customer_name: salesInvoices.customer_name,
+        customer_email: salesInvoices.customer_email,
+        customer_phone: salesInvoices.customer_phone,
+      })
+      .from(salesInvoices)
+      .where(and(
+        isNull(salesInvoices.customer_id),
+        isNull(salesInvoices.deleted_at),
+        or(isNotNull(salesInvoices.customer_email), isNotNull(salesInvoices.customer_phone)),
+      ))
+      .orderBy(salesInvoices.created_at);
+
+    this.logger.log(`Found ${result.length} unlinked invoices`);
+    return result;
+  }
+
+  async linkInvoices(customerId: string, invoiceIds: string[]): Promise<number> {
+    if (invoiceIds.length === 0) {
+      return 0;
+    }
+
+    this.logger.log(`Linking ${invoiceIds.length} invoices to customer: ${customerId}`);
+
+    try {
+      const result = await this.db
+        .update(salesInvoices)
+        .set({ customer_id: customerId })
+        .where(inArray(salesInvoices.id, invoiceIds))
+        .returning({ id: salesInvoices.id });
+
+      return result.length;
+    } catch (error) {
+      this.logger.error(`Failed to link invoices to customer: ${customerId}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Moves every invoice of one customer onto another, used when merging duplicates
+   */
+  async reassignInvoices(fromCustomerId: string, toCustomerId: string, updatedBy: string): Promise<number> {
+    this.logger.log(`Moving invoices from customer ${fromCustomerId} to ${toCustomerId}`);
+
+    try {
+      const result = await this.db
+        .update(salesInvoices)
+        .set({ customer_id: toCustomerId, updated_by: updatedBy, updated_at: new Date() })
+        .where(eq(salesInvoices.customer_id, fromCustomerId))
+        .returning({ id: salesInvoices.id });
+
+      this.logger.log(`Moved ${result.length} invoices to customer ${toCustomerId}`);
+      return result.length;
+    } catch (error) {
+      this.logger.error(`Failed to move invoices from customer: ${fromCustomerId}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findRecentInvoices(customerId: string, limit = 10): Promise<CustomerInvoiceSummary[]> {
+    this.logger.log(`Finding recent invoices for customer: ${customerId}`);
+
+    return this.db
+      .select({
+        id: salesInvoices.id,
+        invoice_number: salesInvoices.invoice_number,
+        total_amount: salesInvoices.total_amount,
+        amount_paid: salesInvoices.amount_paid,
+        payment_status: salesInvoices.payment_status,
+        created_at: salesInvoices.created_at,
+      })
+      .from(salesInvoices)
+      .where(and(eq(salesInvoices.customer_id, customerId), isNull(salesInvoices.deleted_at)))
+      .orderBy(desc(salesInvoices.created_at))
+      .limit(limit);
+  }
+}
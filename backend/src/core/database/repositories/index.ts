@@ -11,3 +11,14 @@ export * from './suppliers.repository';
 export * from './purchase-orders.repository';
 export * from './stock.repository';
 export * from './stock-transactions.repository';
+export * from './sales-invoices.repository';
+export * from './returns.repository';
+export * from './locations.repository';
+export * from './tax-classes.repository';
+export * from './promotions.repository';
+export * from './customers.repository';
+export * from './payments.repository';
+export * from './supplier-bills.repository';
+export * from './analytics.repository';
+export * from './cost-layers.repository';
+export * from './reports.repository';
@@ -0,0 +1,309 @@
+import { Injectable } from '@nestjs/common';
+import { BaseRepository } from './base.repository';
+import { locations } from '../schema/locations';
+import { stock } from '../schema/stock';
+import { eq, and, isNull, ilike, or, ne, desc, gt, sql } from 'drizzle-orm';
+import { DrizzleService } from '../drizzle.service';
+import { MESSAGES } from '../../../common/constants/string-const';
+
+export const DEFAULT_LOCATION_CODE = 'MAIN';
+
+export interface CreateLocationDto {
+  name: string;
+  code: string;
+  address?: string;
+  is_default?: boolean;
+  is_active?: boolean;
+  created_by: string; // UUID of the user creating the location
+}
+
+export interface UpdateLocationDto {
+  name?: string;
+  code?: string;
+  address?: string;
+  is_default?: boolean;
+  is_active?: boolean;
+  updated_by: string; // UUID of the user updating the location
+}
+
+export interface LocationEntity {
+  id: string; // UUID
+  name: string;
+  code: string;
+  address: string | null;
+  is_default: boolean;
+  is_active: boolean;
+  created_by: string;
+  created_at: Date;
+  updated_by: string | null;
+  updated_at: Date | null;
+  deleted_by: string | null;
+  deleted_at: Date | null;
+}
+
+export interface LocationFilters {
+  search?: string;
+  is_active?: boolean;
+  withDeleted?: boolean;
+}
+
+@Injectable()
+export class LocationsRepository extends BaseRepository<LocationEntity> {
+  constructor(drizzleService: DrizzleService) {
+    super(drizzleService);
+  }
+
+  //#region ==================== CRUD OPERATIONS ====================
+
+  async create(locationData: CreateLocationDto): Promise<LocationEntity> {
+    this.logger.log(`Creating location: ${locationData.name} (${locationData.code})`);
+
+    try {
+      return await this.db.transaction(async (tx) => {
+        // Only one location can be the default
+        if (locationData.is_default) {
+          await tx.update(locations).set({ is_default: false }).where(eq(locations.is_default, true));
+        }
+
+        const result = await tx
+          .insert(locations)
+          .values({
+            name: locationData.name,
+            code: locationData.code,
+            address: locationData.address || null,
+            is_default: locationData.is_default ?? false,
+            is_active: locationData.is_active ?? true,
+            created_by: locationData.created_by,
+            created_at: new Date(),
+          })
+          .returning();
+
+        this.logger.log(`Location created successfully: ${locationData.name} (ID: ${result[0].id})`);
+        return result[0] as LocationEntity;
+      });
+    } catch (error) {
+      this.logger.error(`Failed to create location: ${locationData.name}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findById(id: string, withDeleted = false): Promise<LocationEntity | null> {
+    this.logger.log(`Finding location by ID: ${id}`);
+
+    const condition = withDeleted
+      ? eq(locations.id, id)
+      : and(eq(locations.id, id), isNull(locations.deleted_at));
+
+    return this.findOne(locations, condition);
+  }
+
+  async findLocationByIdOrThrow(id: string, withDeleted = false): Promise<LocationEntity> {
+    const condition = withDeleted
+      ? eq(locations.id, id)
+      : and(eq(locations.id, id), isNull(locations.deleted_at));
+
+    return super.findOneOrThrow(locations, condition, MESSAGES.LOCATION_NOT_FOUND);
+  }
+
+  async findByCode(code: string, withDeleted = false): Promise<LocationEntity | null> {
+    this.logger.log(`Finding location by code: ${code}`);
+
+    const condition = withDeleted
+      ? eq(locations.code, code)
+      : and(eq(locations.code, code), isNull(locations.deleted_at));
+
+    return this.findOne(locations, condition);
+  }
+
+  async findDefault(): Promise<LocationEntity | null> {
+    this.logger.log('Finding default location');
+    return this.findOne(locations, and(eq(locations.is_default, true), isNull(locations.deleted_at)));
+  }
+
+  /**
+   * Returns the default location, creating it on first use so documents that are not
+   * tied to a location (sales invoices, purchase orders, returns) always have one.
+   */
+  async ensureDefault(userId: string): Promise<LocationEntity> {
+    const existing = await this.findDefault();
+    if (existing) {
+      return existing;
+    }
+
+    this.logger.log(`No default location found, creating ${DEFAULT_LOCATION_CODE}`);
+
+    await this.db
+      .insert(locations)
+      .values({
+        name: 'Main Store',
+        code: DEFAULT_LOCATION_CODE,
+        is_default: true,
+        created_by: userId,
+        created_at: new Date(),
+      })
+      .onConflictDoNothing({ target: locations.code });
+
+    const created = await this.findDefault();
+    if (!created) {
+      throw new Error(MESSAGES.LOCATION_NOT_FOUND);
+    }
+    return created;
+  }
+
+  async update(id: string, updateData: UpdateLocationDto): Promise<LocationEntity> {
+    this.logger.log(`Updating location: ${id}`);
+
+    // First verify location exists
+    await this.findLocationByIdOrThrow(id);
+
+    try {
+      return await this.db.transaction(async (tx) => {
+        // Promoting a location demotes the current default
+        if (updateData.is_default) {
+          await tx
+            .update(locations)
+            .set({ is_default: false })
+            .where(and(eq(locations.is_default, true), ne(locations.id, id)));
+        }
+
+        const result = await tx
+          .update(locations)
+          .set({
+            ...updateData,
+            updated_at: new Date(),
+          })
+          .where(and(eq(locations.id, id), isNull(locations.deleted_at)))
+          .returning();
+
+        if (!result.length) {
+          this.logger.error(`No location updated with ID: ${id}`);
+          throw new Error(MESSAGES.LOCATION_NOT_FOUND);
+        }
+
+        this.logger.log(`Location updated successfully: ${id}`);
+        return result[0] as LocationEntity;
+      });
+    } catch (error) {
+      this.logger.error(`Failed to update location: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  async delete(id: string, deletedBy: string): Promise<boolean> {
+    this.logger.log(`Soft deleting location: ${id}`);
+
+    // First verify location exists
+    await this.findLocationByIdOrThrow(id);
+
+    try {
+      const result = await this.db
+        .update(locations)
+        .set({
+          is_active: false,
+          deleted_by: deletedBy,
+          deleted_at: new Date(),
+          updated_by: deletedBy,
+          updated_at: new Date(),
+        })
+        .where(and(eq(locations.id, id), isNull(locations.deleted_at)))
+        .returning();
+
+      const success = result.length > 0;
+      if (success) {
+        this.logger.log(`Location soft deleted successfully: ${id}`);
+      } else {
+        this.logger.error(`Failed to soft delete location: ${id}`);
+      }
+      return success;
+    } catch (error) {
+      this.logger.error(`Failed to soft delete location: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== QUERY OPERATIONS ====================
+
+  async findAll(filters: LocationFilters = {}, page = 1, limit = 10): Promise<{
+    data: LocationEntity[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    this.logger.log(`Finding all locations with filters:`, filters);
+
+    // Build where conditions
+    const conditions: any[] = [];
+
+    if (!filters.withDeleted) {
+      conditions.push(isNull(locations.deleted_at));
+    }
+
+    if (filters.search) {
+      conditions.push(or(
+        ilike(locations.name, `%${filters.search}%`),
+        ilike(locations.code, `%${filters.search}%`),
+      ));
+    }
+
+    if (typeof filters.is_active === 'boolean') {
+      conditions.push(eq(locations.is_active, filters.is_active));
+    }
+
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+    // Get total count
+    const total = await this.count(locations, whereClause);
+
+    // Get paginated results, default location first
+    const offset = (page - 1) * limit;
+    const data = await this.db
+      .select()
+      .from(locations)
+      .where(whereClause)
+      .orderBy(desc(locations.is_default), locations.name)
+      .limit(limit)
+      .offset(offset);
+
+    const totalPages = Math.ceil(total / limit);
+
+    this.logger.log(`Found ${data.length} locations out of ${total} total`);
+
+    return {
+      data: data as LocationEntity[],
+      total,
+      page,
+      totalPages,
+    };
+  }
+
+  async findActiveLocations(): Promise<LocationEntity[]> {
+    this.logger.log('Finding all active locations');
+
+    const result = await this.db
+      .select()
+      .from(locations)
+      .where(and(
+        eq(locations.is_active, true),
+        isNull(locations.deleted_at)
+      ))
+      .orderBy(desc(locations.is_default), locations.name);
+
+    this.logger.log(`Found ${result.length} active locations`);
+    return result as LocationEntity[];
+  }
+
+  async hasStock(id: string): Promise<boolean> {
+    this.logger.log(`Checking whether location holds stock: ${id}`);
+
+    const result = await this.db
+      .select({ count: sql<number>`count(*)` })
+      .from(stock)
+      .where(and(
+        eq(stock.location_id, id),
+        isNull(stock.deleted_at),
+        or(gt(stock.quantity_available, 0), gt(stock.quantity_reserved, 0)),
+      ));
+
+    return Number(result[0]?.count ?? 0) > 0;
+  }
+}
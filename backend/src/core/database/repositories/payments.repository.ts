@@ -0,0 +1,273 @@
+import { Injectable } from '@nestjs/common';
+import { BaseRepository, DbTransaction } from './base.repository';
+import { payments } from '../schema/payments';
+import { salesInvoices } from '../schema/sales-invoices';
+import { customers } from '../schema/customers';
+import { eq, and, isNull, inArray, gte, lte, gt, asc, desc, sql } from 'drizzle-orm';
+import { DrizzleService } from '../drizzle.service';
+import { MESSAGES } from '../../../common/constants/string-const';
+
+export type PaymentType = 'PAYMENT' | 'REFUND';
+export type PaymentMethod = 'CASH' | 'CARD' | 'BANK_TRANSFER' | 'CHEQUE' | 'OTHER';
+
+export interface CreatePaymentDto {
+  sales_invoice_id: string;
+  payment_type: PaymentType;
+  payment_method: PaymentMethod;
+  amount: number;
+  reference?: string;
+  notes?: string;
+  received_by: string;
+  received_at?: Date;
+  created_by: string; // UUID of the user recording the payment
+}
+
+export interface PaymentEntity {
+  id: string; // UUID
+  sales_invoice_id: string;
+  payment_type: PaymentType;
+  payment_method: PaymentMethod;
+  amount: string;
+  reference: string | null;
+  notes: string | null;
+  received_by: string;
+  received_at: Date;
+  created_by: string;
+  created_at: Date;
+  updated_by: string | null;
+  updated_at: Date | null;
+  deleted_by: string | null;
+  deleted_at: Date | null;
+}
+
+export interface PaymentWithInvoice extends PaymentEntity {
+  invoice_number: string;
+  customer_name: string | null;
+}
+
+export interface PaymentFilters {
+  sales_invoice_id?: string;
+  customer_id?: string;
+  payment_type?: PaymentType;
+  payment_method?: PaymentMethod;
+  date_from?: Date;
+  date_to?: Date;
+}
+
+export interface OpenInvoiceBalanceRow {
+  id: string;
+  invoice_number: string;
+  customer_id: string | null;
+  customer_name: string | null;
+  created_at: Date;
+  total_amount: string;
+  amount_paid: string;
+  balance_due: string;
+}
+
+@Injectable()
+export class PaymentsRepository extends BaseRepository<PaymentEntity> {
+  constructor(drizzleService: DrizzleService) {
+    super(drizzleService);
+  }
+
+  //#region ==================== PAYMENT OPERATIONS ====================
+
+  async create(paymentData: CreatePaymentDto, tx?: DbTransaction): Promise<PaymentEntity> {
+    this.logger.log(`Recording ${paymentData.payment_type} of ${paymentData.amount} on sales invoice: ${paymentData.sales_invoice_id}`);
+
+    try {
+      const result = await (tx ?? this.db)
+        .insert(payments)
+        .values({
+          sales_invoice_id: paymentData.sales_invoice_id,
+          payment_type: paymentData.payment_type,
+          payment_method: paymentData.payment_method,
+          amount: paymentData.amount.toString(),
+          reference: paymentData.reference || null,
+          notes: paymentData.notes || null,
+          received_by: paymentData.received_by,
+          received_at: paymentData.received_at ?? new Date(),
+          created_by: paymentData.created_by,
+          created_at: new Date(),
+        })
+        .returning();
+
+      this.logger.log(`Payment recorded successfully (ID: ${result[0].id})`);
+      return result[0] as PaymentEntity;
+    } catch (error) {
+      this.logger.error(`Failed to record payment on sales invoice: ${paymentData.sales_invoice_id}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findById(id: string): Promise<PaymentEntity | null> {
+    this.logger.log(`Finding payment by ID: ${id}`);
+
+    return this.findOne(payments, and(eq(payments.id, id), isNull(payments.deleted_at)));
+  }
+
+  async findPaymentByIdOrThrow(id: string): Promise<PaymentEntity> {
+    return super.findOneOrThrow(
+      payments,
+      and(eq(payments.id, id), isNull(payments.deleted_at)),
+      MESSAGES.PAYMENT_NOT_FOUND,
+    );
+  }
+
+  async findByInvoice(invoiceId: string, tx?: DbTransaction): Promise<PaymentEntity[]> {
+    this.logger.log(`Finding payments for sales invoice: ${invoiceId}`);
+
+    try {
+      const result = await (tx ?? this.db)
+        .select()
+        .from(payments)
+        .where(and(eq(payments.sales_invoice_id, invoiceId), isNull(payments.deleted_at)))
+        .orderBy(asc(payments.received_at));
+
+      return result as PaymentEntity[];
+    } catch (error) {
+      this.logger.error(`Failed to find payments for sales invoice: ${invoiceId}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== QUERY OPERATIONS ====================
+
+  async findAll(filters: PaymentFilters = {}, page = 1, limit = 10): Promise<{
+    data: PaymentWithInvoice[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    this.logger.log(`Finding all payments with filters:`, filters);
+
+    // Build where conditions
+    const conditions: any[] = [isNull(payments.deleted_at)];
+
+    if (filters.sales_invoice_id) {
+      conditions.push(eq(payments.sales_invoice_id, filters.sales_invoice_id));
+    }
+
+    if (filters.customer_id) {
+      conditions.push(eq(salesInvoices.customer_id, filters.customer_id));
+    }
+
+    if (filters.payment_type) {
+      conditions.push(eq(payments.payment_type, filters.payment_type));
+    }
+
+    if (filters.payment_method) {
+      conditions.push(eq(payments.payment_method, filters.payment_method));
+    }
+
+    if (filters.date_from) {
+      conditions.push(gte(payments.received_at, filters.date_from));
+    }
+
+    if (filters.date_to) {
+      conditions.push(lte(payments.received_at, filters.date_to));
+    }
+
+    const whereClause = and(...conditions);
+
+    try {
+      // Get total count
+      const countResult = await this.db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(payments)
+        .innerJoin(salesInvoices, eq(payments.sales_invoice_id, salesInvoices.id))
+        .where(whereClause);
+      const total = countResult[0]?.count ?? 0;
+
+      // Get paginated results, most recent first
+      const offset = (page - 1) * limit;
+      const data = await this.db
+        .select({
+          id: payments.id,
+          sales_invoice_id: payments.sales_invoice_id,
+          payment_type: payments.payment_type,
+          payment_method: payments.payment_method,
+          amount: payments.amount,
+          reference: payments.reference,
+          notes: payments.notes,
+          received_by: payments.received_by,
+          received_at: payments.received_at,
+          created_by: payments.created_by,
+          created_at: payments.created_at,
+          updated_by: payments.updated_by,
+          updated_at: payments.updated_at,
+          deleted_by: payments.deleted_by,
+          deleted_at: payments.deleted_at,
+          invoice_number: salesInvoices.invoice_number,
+          customer_name: salesInvoices.customer_name,
+        })
+        .from(payments)
+        .innerJoin(salesInvoices, eq(payments.sales_invoice_id, salesInvoices.id))
+        .where(whereClause)
+        .orderBy(desc(payments.received_at))
+        .limit(limit)
+        .offset(offset);
+
+      const totalPages = Math.ceil(total / limit);
+
+      this.logger.log(`Found ${data.length} payments out of ${total} total`);
+
+      return {
+        data: data as PaymentWithInvoice[],
+        total,
+        page,
+        totalPages,
+      };
+    } catch (error) {
+      this.logger.error('Failed to find payments', error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== REPORT QUERIES ====================
+
+  /**
+   * Unpaid and part-paid invoices raised on or before the given date that still have a
+   * balance due, oldest first
+   */
+  async findOpenInvoiceBalances(asOf: Date, customerId?: string): Promise<OpenInvoiceBalanceRow[]> {
+    this.logger.log(`Finding open invoice balances as of ${asOf.toISOString()}`);
+
+    try {
+      const balanceDue = sql`${salesInvoices.total_amount} - ${salesInvoices.amount_paid}`;
+
+      const conditions: any[] = [
+        isNull(salesInvoices.deleted_at),
+        inArray(salesInvoices.payment_status, ['PENDING', 'PARTIAL']),
+        lte(salesInvoices.created_at, asOf),
+        gt(balanceDue, 0),
+      ];
+      if (customerId) {
+        conditions.push(eq(salesInvoices.customer_id, customerId));
+      }
+
+      const result = await this.db
+        .select({
+          id: salesInvoices.id,
+          invoice_number: salesInvoices.invoice_number,
+          customer_id: salesInvoices.customer_id,
+          customer_name: sql<string | null>`COALESCE(${customers.name}, ${salesInvoices.customer_name})`,
+          created_at: salesInvoices.created_at,
+          total_amount: salesInvoices.total_amount,
+          amount_paid: salesInvoices.amount_paid,
+          balance_due: sql<string>`(${balanceDue})::text`,
+        })
+        .from(salesInvoices)
+        .leftJoin(customers, eq(salesInvoices.customer_id, customers.id))
+        .where(and(...conditions))
+        .orderBy(asc(salesInvoices.created_at));
+
+      this.logger.log(`Found ${result.length} invoices with a balance due`);
+      return result as OpenInvoiceBalanceRow[];
+    } catch (error) {
+      this.logger.error('Failed to find open invoice balances', error.stack);
+      throw error;
+    }
+  }
+}
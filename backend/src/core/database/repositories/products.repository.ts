@@ -1,11 +1,23 @@
 import { Injectable } from '@nestjs/common';
 import { BaseRepository } from './base.repository';
-import { products } from '../schema/products';
+import { products, ProductVariantAttribute, ProductUnit } from '../schema/products';
 import { categories } from '../schema/categories';
-import { eq, and, isNull, ilike, desc, gte, lte, or, count } from 'drizzle-orm';
+import { eq, and, isNull, ilike, desc, gte, lte, or, count, inArray, exists, sql, SQL } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
 import { DrizzleService } from '../drizzle.service';
 import { MESSAGES } from '../../../common/constants/string-const';
 
+// Keeps each INSERT well under Postgres' 65535 bind parameter limit
+const BULK_INSERT_CHUNK = 500;
+
+const variantProducts = alias(products, 'variant_products');
+
+/**
+ * Which side of the parent/variant split a product list shows: 'catalog' hides variants behind
+ * their parent, 'sellable' hides parents so only products that can be stocked and sold remain
+ */
+export type ProductVariantScope = 'all' | 'catalog' | 'sellable';
+
 export interface CreateProductDto {
   name: string;
   sku: string;
@@ -15,20 +27,42 @@ export interface CreateProductDto {
   unit_price: number;
   cost_price?: number;
   minimum_stock_level?: number;
+  reorder_point?: number | null;
+  target_stock_level?: number | null;
+  preferred_supplier_id?: string | null;
+  tax_class_id?: string | null; // Falls back to the category's tax class when empty
   is_active?: boolean;
+  parent_product_id?: string | null;
+  variant_options?: Record<string, string> | null;
+  has_price_override?: boolean;
+  base_unit?: string;
+  units?: ProductUnit[] | null;
+  purchase_unit?: string | null;
+  sales_unit?: string | null;
   created_by: string; // UUID of the user creating the product
 }
 
 export interface UpdateProductDto {
   name?: string;
   sku?: string;
-  barcode?: string;
-  category_id?: string;
+  barcode?: string | null;
+  category_id?: string | null;
   description?: string;
   unit_price?: number;
   cost_price?: number;
   minimum_stock_level?: number;
+  reorder_point?: number | null;
+  target_stock_level?: number | null;
+  preferred_supplier_id?: string | null;
+  tax_class_id?: string | null; // Falls back to the category's tax class when empty
   is_active?: boolean;
+  variant_attributes?: ProductVariantAttribute[] | null;
+  variant_options?: Record<string, string> | null;
+  has_price_override?: boolean;
+  base_unit?: string;
+  units?: ProductUnit[] | null;
+  purchase_unit?: string | null;
+  sales_unit?: string | null;
   updated_by: string; // UUID of the user updating the product
 }
 
@@ -42,7 +76,19 @@ export interface ProductEntity {
   unit_price: string; // Decimal stored as string
   cost_price: string | null; // Decimal stored as string
   minimum_stock_level: number;
+  reorder_point: number | null;
+  target_stock_level: number | null;
+  preferred_supplier_id: string | null;
+  tax_class_id: string | null;
   is_active: boolean;
+  parent_product_id: string | null;
+  variant_attributes: ProductVariantAttribute[] | null;
+  variant_options: Record<string, string> | null;
+  has_price_override: boolean;
+  base_unit: string;
+  units: ProductUnit[] | null;
+  purchase_unit: string | null;
+  sales_unit: string | null;
   created_by: string;
   created_at: Date;
   updated_by: string | null;
@@ -56,7 +102,9 @@ export interface ProductWithCategory extends ProductEntity {
     id: string;
     name: string;
     description: string | null;
+    tax_class_id: string | null;
   } | null;
+  variant_count?: number; // Live variants of a parent; only filled in by findAll
 }
 
 export interface ProductFilters {
@@ -64,11 +112,14 @@ export interface ProductFilters {
   sku?: string;
   barcode?: string;
   category_id?: string;
+  category_ids?: string[]; // Any of these categories, e.g. a category and its subcategories
   is_active?: boolean;
   min_price?: number;
   max_price?: number;
   withDeleted?: boolean;
   withCategory?: boolean;
+  parent_product_id?: string;
+  variant_scope?: ProductVariantScope;
 }
 
 export interface PaginationOptions {
@@ -100,19 +151,7 @@ export class ProductsRepository extends BaseRepository<ProductEntity> {
     try {
       const result = await this.db
         .insert(products)
-        .values({
-          name: productData.name,
-          sku: productData.sku,
-          barcode: productData.barcode || null,
-          category_id: productData.category_id || null,
-          description: productData.description || null,
-          unit_price: productData.unit_price.toString(),
-          cost_price: productData.cost_price?.toString() || null,
-          minimum_stock_level: productData.minimum_stock_level ?? 0,
-          is_active: productData.is_active ?? true,
-          created_by: productData.created_by,
-          created_at: new Date(),
-        })
+        .values(this.toInsertValues(productData))
         .returning();
 
       this.logger.log(`Product created successfully: ${productData.name} (ID: ${result[0].id})`);
@@ -167,7 +206,19 @@ export class ProductsRepository extends BaseRepository<ProductEntity> {
           unit_price: products.unit_price,
           cost_price: products.cost_price,
           minimum_stock_level: products.minimum_stock_level,
+          reorder_point: products.reorder_point,
+          target_stock_level: products.target_stock_level,
+          preferred_supplier_id: products.preferred_supplier_id,
+          tax_class_id: products.tax_class_id,
           is_active: products.is_active,
+          parent_product_id: products.parent_product_id,
+          variant_attributes: products.variant_attributes,
+          variant_options: products.variant_options,
+          has_price_override: products.has_price_override,
+          base_unit: products.base_unit,
+          units: products.units,
+          purchase_unit: products.purchase_unit,
+          sales_unit: products.sales_unit,
           created_by: products.created_by,
           created_at: products.created_at,
           updated_by: products.updated_by,
@@ -178,6 +229,7 @@ export class ProductsRepository extends BaseRepository<ProductEntity> {
           category_id_ref: categories.id,
           category_name: categories.name,
           category_description: categories.description,
+          category_tax_class_id: categories.tax_class_id,
         })
         .from(products)
         .leftJoin(categories, and(
@@ -203,7 +255,19 @@ export class ProductsRepository extends BaseRepository<ProductEntity> {
         unit_price: row.unit_price,
         cost_price: row.cost_price,
         minimum_stock_level: row.minimum_stock_level,
+        reorder_point: row.reorder_point,
+        target_stock_level: row.target_stock_level,
+        preferred_supplier_id: row.preferred_supplier_id,
+        tax_class_id: row.tax_class_id,
         is_active: row.is_active,
+        parent_product_id: row.parent_product_id,
+        variant_attributes: row.variant_attributes,
+        variant_options: row.variant_options,
+        has_price_override: row.has_price_override,
+        base_unit: row.base_unit,
+        units: row.units,
+        purchase_unit: row.purchase_unit,
+        sales_unit: row.sales_unit,
         created_by: row.created_by,
         created_at: row.created_at,
         updated_by: row.updated_by,
@@ -214,6 +278,7 @@ export class ProductsRepository extends BaseRepository<ProductEntity> {
           id: row.category_id_ref,
           name: row.category_name!,
           description: row.category_description,
+          tax_class_id: row.category_tax_class_id,
         } : null,
       };
 
@@ -274,7 +339,19 @@ export class ProductsRepository extends BaseRepository<ProductEntity> {
           unit_price: products.unit_price,
           cost_price: products.cost_price,
           minimum_stock_level: products.minimum_stock_level,
+          reorder_point: products.reorder_point,
+          target_stock_level: products.target_stock_level,
+          preferred_supplier_id: products.preferred_supplier_id,
+          tax_class_id: products.tax_class_id,
           is_active: products.is_active,
+          parent_product_id: products.parent_product_id,
+          variant_attributes: products.variant_attributes,
+          variant_options: products.variant_options,
+          has_price_override: products.has_price_override,
+          base_unit: products.base_unit,
+          units: products.units,
+          purchase_unit: products.purchase_unit,
+          sales_unit: products.sales_unit,
           created_by: products.created_by,
           created_at: products.created_at,
           updated_by: products.updated_by,
@@ -285,6 +362,11 @@ export class ProductsRepository extends BaseRepository<ProductEntity> {
           category_id_ref: categories.id,
           category_name: categories.name,
           category_description: categories.description,
+          category_tax_class_id: categories.tax_class_id,
+          variant_count: sql<number>`(
+            select count(*) from ${variantProducts}
+            where ${variantProducts.parent_product_id} = ${products.id} and ${variantProducts.deleted_at} is null
+          )`.mapWith(Number),
         })
         .from(products);
 
@@ -313,10 +395,27 @@ export class ProductsRepository extends BaseRepository<ProductEntity> {
       if (filters.category_id) {
         conditions.push(eq(products.category_id, filters.category_id));
       }
+      if (filters.category_ids) {
+        conditions.push(inArray(products.category_id, filters.category_ids));
+      }
       
-      // Name search filter
+      // Variants of one parent
+      if (filters.parent_product_id) {
+        conditions.push(eq(products.parent_product_id, filters.parent_product_id));
+      }
+
+      if (filters.variant_scope === 'catalog') {
+        conditions.push(isNull(products.parent_product_id));
+      } else if (filters.variant_scope === 'sellable') {
+        conditions.push(isNull(products.variant_attributes));
+      }
+
+      // Name search filter; in the catalog a parent also matches on its variants' names and SKUs
       if (filters.name) {
-        conditions.push(ilike(products.name, `%${filters.name}%`));
+        const term = `%${filters.name}%`;
+        conditions.push(filters.variant_scope === 'catalog'
+          ? or(ilike(products.name, term), this.variantMatching(term))
+          : ilike(products.name, term));
       }
       
       // SKU search filter
@@ -403,7 +502,19 @@ export class ProductsRepository extends BaseRepository<ProductEntity> {
       unit_price: row.unit_price,
       cost_price: row.cost_price,
       minimum_stock_level: row.minimum_stock_level,
+      reorder_point: row.reorder_point,
+      target_stock_level: row.target_stock_level,
+      preferred_supplier_id: row.preferred_supplier_id,
+      tax_class_id: row.tax_class_id,
       is_active: row.is_active,
+      parent_product_id: row.parent_product_id,
+      variant_attributes: row.variant_attributes,
+      variant_options: row.variant_options,
+      has_price_override: row.has_price_override,
+      base_unit: row.base_unit,
+      units: row.units,
+      purchase_unit: row.purchase_unit,
+      sales_unit: row.sales_unit,
       created_by: row.created_by,
       created_at: row.created_at,
       updated_by: row.updated_by,
@@ -414,7 +525,9 @@ export class ProductsRepository extends BaseRepository<ProductEntity> {
         id: row.category_id_ref,
         name: row.category_name,
         description: row.category_description,
+        tax_class_id: row.category_tax_class_id,
       } : null,
+      variant_count: row.variant_count,
     }));
   }
 
@@ -422,46 +535,7 @@ export class ProductsRepository extends BaseRepository<ProductEntity> {
     this.logger.log(`Updating product: ${id}`);
     
     try {
-      const updateData: any = {
-        updated_by: productData.updated_by,
-        updated_at: new Date(),
-      };
-
-      if (productData.name !== undefined) {
-        updateData.name = productData.name;
-      }
-
-      if (productData.sku !== undefined) {
-        updateData.sku = productData.sku;
-      }
-
-      if (productData.barcode !== undefined) {
-        updateData.barcode = productData.barcode;
-      }
-
-      if (productData.category_id !== undefined) {
-        updateData.category_id = productData.category_id;
-      }
-
-      if (productData.description !== undefined) {
-        updateData.description = productData.description;
-      }
-
-      if (productData.unit_price !== undefined) {
-        updateData.unit_price = productData.unit_price.toString();
-      }
-
-      if (productData.cost_price !== undefined) {
-        updateData.cost_price = productData.cost_price?.toString() || null;
-      }
-
-      if (productData.minimum_stock_level !== undefined) {
-        updateData.minimum_stock_level = productData.minimum_stock_level;
-      }
-
-      if (productData.is_active !== undefined) {
-        updateData.is_active = productData.is_active;
-      }
+      const updateData = this.toUpdateValues(productData);
 
       const result = await this.db
         .update(products)
@@ -530,6 +604,169 @@ export class ProductsRepository extends BaseRepository<ProductEntity> {
 
   //#endregion
 
+  //#region ==================== VARIANT OPERATIONS ====================
+
+  async findVariants(parentId: string): Promise<ProductEntity[]> {
+    this.logger.log(`Finding variants of product: ${parentId}`);
+
+    try {
+      const result = await this.db
+        .select()
+        .from(products)
+        .where(and(eq(products.parent_product_id, parentId), isNull(products.deleted_at)))
+        .orderBy(products.created_at, products.sku);
+
+      this.logger.log(`Found ${result.length} variants of product: ${parentId}`);
+      return result as ProductEntity[];
+    } catch (error) {
+      this.logger.error(`Failed to find variants of product: ${parentId}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Writes a parent's variant set in one transaction: the parent's own changes (its attributes,
+   * or fields the variants inherit), new variants, edits to existing ones and removals
+   */
+  async applyVariantChanges(
+    parentId: string,
+    changes: {
+      parent?: UpdateProductDto;
+      create: CreateProductDto[];
+      update: { id: string; data: UpdateProductDto }[];
+      remove: string[];
+    },
+    userId: string,
+  ): Promise<ProductEntity[]> {
+    this.logger.log(`Saving variants of product ${parentId}: ${changes.create.length} new, ${changes.update.length} updated, ${changes.remove.length} removed`);
+
+    try {
+      const created = await this.db.transaction(async (tx) => {
+        if (changes.parent) {
+          await tx
+            .update(products)
+            .set(this.toUpdateValues(changes.parent))
+            .where(eq(products.id, parentId));
+        }
+
+        if (changes.remove.length > 0) {
+          await tx
+            .update(products)
+            .set({ deleted_by: userId, deleted_at: new Date() })
+            .where(and(
+              inArray(products.id, changes.remove),
+              eq(products.parent_product_id, parentId),
+              isNull(products.deleted_at),
+            ));
+        }
+
+        for (const { id, data } of changes.update) {
+          await tx
+            .update(products)
+            .set(this.toUpdateValues(data))
+            .where(and(eq(products.id, id), eq(products.parent_product_id, parentId), isNull(products.deleted_at)));
+        }
+
+        if (changes.create.length === 0) {
+          return [];
+        }
+        return await tx
+          .insert(products)
+          .values(changes.create.map(row => this.toInsertValues(row)))
+          .returning() as ProductEntity[];
+      });
+
+      this.logger.log(`Variants of product ${parentId} saved`);
+      return created;
+    } catch (error) {
+      this.logger.error(`Failed to save variants of product: ${parentId}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Correlated condition for "some live variant of this product has a matching name or SKU"
+   */
+  private variantMatching(term: string): SQL {
+    return exists(
+      this.db
+        .select({ id: variantProducts.id })
+        .from(variantProducts)
+        .where(and(
+          eq(variantProducts.parent_product_id, products.id),
+          isNull(variantProducts.deleted_at),
+          or(ilike(variantProducts.name, term), ilike(variantProducts.sku, term)),
+        )),
+    );
+  }
+
+  //#endregion
+
+  //#region ==================== BULK OPERATIONS ====================
+
+  /**
+   * Inserts all the products in a single transaction, so either every row is created or none is
+   */
+  async createMany(rows: CreateProductDto[]): Promise<ProductEntity[]> {
+    this.logger.log(`Creating ${rows.length} products in bulk`);
+
+    try {
+      const created = await this.db.transaction(async (tx) => {
+        const inserted: ProductEntity[] = [];
+        for (let start = 0; start < rows.length; start += BULK_INSERT_CHUNK) {
+          const chunk = rows.slice(start, start + BULK_INSERT_CHUNK);
+          const result = await tx
+            .insert(products)
+            .values(chunk.map(row => this.toInsertValues(row)))
+            .returning();
+          inserted.push(...(result as ProductEntity[]));
+        }
+        return inserted;
+      });
+
+      this.logger.log(`Created ${created.length} products in bulk`);
+      return created;
+    } catch (error) {
+      this.logger.error(`Failed to create ${rows.length} products in bulk`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * The given SKUs that are already taken. Deleted products count, since the unique
+   * constraint still covers them.
+   */
+  async findExistingSkus(skus: string[]): Promise<string[]> {
+    if (skus.length === 0) {
+      return [];
+    }
+
+    const result = await this.db
+      .select({ sku: products.sku })
+      .from(products)
+      .where(inArray(products.sku, skus));
+
+    return result.map(row => row.sku);
+  }
+
+  /**
+   * The given barcodes that are already taken, deleted products included
+   */
+  async findExistingBarcodes(barcodes: string[]): Promise<string[]> {
+    if (barcodes.length === 0) {
+      return [];
+    }
+
+    const result = await this.db
+      .select({ barcode: products.barcode })
+      .from(products)
+      .where(inArray(products.barcode, barcodes));
+
+    return result.map(row => row.barcode).filter((barcode): barcode is string => barcode !== null);
+  }
+
+  //#endregion
+
   //#region ==================== UTILITY OPERATIONS ====================
 
   async skuExists(sku: string, excludeId?: string): Promise<boolean> {
@@ -572,6 +809,15 @@ export class ProductsRepository extends BaseRepository<ProductEntity> {
     return Array.isArray(result) ? result : result.data;
   }
 
+  async getProductsByCategories(categoryIds: string[]): Promise<ProductEntity[]> {
+    this.logger.log(`Fetching products in ${categoryIds.length} categories`);
+    if (categoryIds.length === 0) {
+      return [];
+    }
+    const result = await this.findAll({ category_ids: categoryIds });
+    return Array.isArray(result) ? result : result.data;
+  }
+
   async getProductsCount(withDeleted = false): Promise<number> {
     this.logger.log('Counting products');
     const condition = withDeleted ? undefined : isNull(products.deleted_at);
@@ -632,5 +878,121 @@ export class ProductsRepository extends BaseRepository<ProductEntity> {
     }
   }
 
+  private toInsertValues(productData: CreateProductDto) {
+    return {
+      name: productData.name,
+      sku: productData.sku,
+      barcode: productData.barcode || null,
+      category_id: productData.category_id || null,
+      description: productData.description || null,
+      unit_price: productData.unit_price.toString(),
+      cost_price: productData.cost_price?.toString() || null,
+      minimum_stock_level: productData.minimum_stock_level ?? 0,
+      reorder_point: productData.reorder_point ?? null,
+      target_stock_level: productData.target_stock_level ?? null,
+      preferred_supplier_id: productData.preferred_supplier_id || null,
+      tax_class_id: productData.tax_class_id || null,
+      is_active: productData.is_active ?? true,
+      parent_product_id: productData.parent_product_id || null,
+      variant_options: productData.variant_options ?? null,
+      has_price_override: productData.has_price_override ?? false,
+      base_unit: productData.base_unit || 'EA',
+      units: productData.units?.length ? productData.units : null,
+      purchase_unit: productData.purchase_unit || null,
+      sales_unit: productData.sales_unit || null,
+      created_by: productData.created_by,
+      created_at: new Date(),
+    };
+  }
+
+  private toUpdateValues(productData: UpdateProductDto) {
+    const updateData: any = {
+      updated_by: productData.updated_by,
+      updated_at: new Date(),
+    };
+
+    if (productData.name !== undefined) {
+      updateData.name = productData.name;
+    }
+
+    if (productData.sku !== undefined) {
+      updateData.sku = productData.sku;
+    }
+
+    if (productData.barcode !== undefined) {
+      updateData.barcode = productData.barcode;
+    }
+
+    if (productData.category_id !== undefined) {
+      updateData.category_id = productData.category_id;
+    }
+
+    if (productData.description !== undefined) {
+      updateData.description = productData.description;
+    }
+
+    if (productData.unit_price !== undefined) {
+      updateData.unit_price = productData.unit_price.toString();
+    }
+
+    if (productData.cost_price !== undefined) {
+      updateData.cost_price = productData.cost_price?.toString() || null;
+    }
+
+    if (productData.minimum_stock_level !== undefined) {
+      updateData.minimum_stock_level = productData.minimum_stock_level;
+    }
+
+    if (productData.reorder_point !== undefined) {
+      updateData.reorder_point = productData.reorder_point;
+    }
+
+    if (productData.target_stock_level !== undefined) {
+      updateData.target_stock_level = productData.target_stock_level;
+    }
+
+    if (productData.preferred_supplier_id !== undefined) {
+      updateData.preferred_supplier_id = productData.preferred_supplier_id || null;
+    }
+
+    if (productData.tax_class_id !== undefined) {
+      updateData.tax_class_id = productData.tax_class_id || null;
+    }
+
+    if (productData.is_active !== undefined) {
+      updateData.is_active = productData.is_active;
+    }
+
+    if (productData.variant_attributes !== undefined) {
+      updateData.variant_attributes = productData.variant_attributes;
+    }
+
+    if (productData.variant_options !== undefined) {
+      updateData.variant_options = productData.variant_options;
+    }
+
+    if (productData.has_price_override !== undefined) {
+      updateData.has_price_override = productData.has_price_override;
+    }
+
+    if (productData.base_unit !== undefined) {
+      updateData.base_unit = productData.base_unit;
+    }
+
+    if (productData.units !== undefined) {
+      updateData.units = productData.units?.length ? productData.units : null;
+    }
+
+    if (productData.purchase_unit !== undefined) {
+      updateData.purchase_unit = productData.purchase_unit || null;
+    }
+
+    if (productData.sales_unit !== undefined) {
+      updateData.sales_unit = productData.sales_unit || null;
+    }
+
+    return updateData;
+  }
+
   //#endregion
 }
\ No newline at end of file
@@ -0,0 +1,401 @@
+import { Injectable } from '@nestjs/common';
+import { BaseRepository, DbTransaction } from './base.repository';
+import { promotions } from '../schema/promotions';
+import { salesInvoices } from '../schema/sales-invoices';
+import { salesInvoiceItems } from '../schema/sales-invoice-items';
+import { eq, and, isNull, ilike, or, ne, gte, lt, lte, desc, sql } from 'drizzle-orm';
+import { DrizzleService } from '../drizzle.service';
+import { MESSAGES } from '../../../common/constants/string-const';
+
+export type PromotionType = 'PERCENTAGE' | 'FIXED_AMOUNT' | 'BUY_X_GET_Y';
+export type PromotionScope = 'ALL_PRODUCTS' | 'PRODUCT' | 'CATEGORY';
+
+export interface CreatePromotionDto {
+  name: string;
+  description?: string;
+  promotion_type: PromotionType;
+  scope?: PromotionScope;
+  product_id?: string | null;
+  category_id?: string | null;
+  discount_value: number;
+  buy_quantity?: number | null;
+  get_quantity?: number | null;
+  min_subtotal?: number | null;
+  starts_at?: Date | null;
+  ends_at?: Date | null;
+  coupon_code?: string | null;
+  usage_limit?: number | null;
+  is_active?: boolean;
+  created_by: string; // UUID of the user creating the promotion
+}
+
+export interface UpdatePromotionDto {
+  name?: string;
+  description?: string;
+  promotion_type?: PromotionType;
+  scope?: PromotionScope;
+  product_id?: string | null;
+  category_id?: string | null;
+  discount_value?: number;
+  buy_quantity?: number | null;
+  get_quantity?: number | null;
+  min_subtotal?: number | null;
+  starts_at?: Date | null;
+  ends_at?: Date | null;
+  coupon_code?: string | null;
+  usage_limit?: number | null;
+  is_active?: boolean;
+  updated_by: string; // UUID of the user updating the promotion
+}
+
+export interface PromotionEntity {
+  id: string; // UUID
+  name: string;
+  description: string | null;
+  promotion_type: PromotionType;
+  scope: PromotionScope;
+  product_id: string | null;
+  category_id: string | null;
+  discount_value: string; // Decimal stored as string
+  buy_quantity: number | null;
+  get_quantity: number | null;
+  min_subtotal: string | null;
+  starts_at: Date | null;
+  ends_at: Date | null;
+  coupon_code: string | null;
+  usage_limit: number | null;
+  usage_count: number;
+  is_active: boolean;
+  created_by: string;
+  created_at: Date;
+  updated_by: string | null;
+  updated_at: Date | null;
+  deleted_by: string | null;
+  deleted_at: Date | null;
+}
+
+export interface PromotionFilters {
+  search?: string;
+  promotion_type?: PromotionType;
+  scope?: PromotionScope;
+  is_active?: boolean;
+  withDeleted?: boolean;
+}
+
+export interface PromotionSummaryRow {
+  promotion_id: string;
+  promotion_name: string;
+  coupon_code: string | null;
+  invoice_count: number;
+  line_count: number;
+  units_sold: number;
+  discount_amount: string;
+  sales_amount: string;
+}
+
+@Injectable()
+export class PromotionsRepository extends BaseRepository<PromotionEntity> {
+  constructor(drizzleService: DrizzleService) {
+    super(drizzleService);
+  }
+
+  //#region ==================== CRUD OPERATIONS ====================
+
+  async create(promotionData: CreatePromotionDto): Promise<PromotionEntity> {
+    this.logger.log(`Creating promotion: ${promotionData.name}`);
+
+    try {
+      const result = await this.db
+        .insert(promotions)
+        .values({
+          name: promotionData.name,
+          description: promotionData.description || null,
+          promotion_type: promotionData.promotion_type,
+          scope: promotionData.scope ?? 'ALL_PRODUCTS',
+          product_id: promotionData.product_id || null,
+          category_id: promotionData.category_id || null,
+          discount_value: promotionData.discount_value.toString(),
+          buy_quantity: promotionData.buy_quantity ?? null,
+          get_quantity: promotionData.get_quantity ?? null,
+          min_subtotal: promotionData.min_subtotal != null ? promotionData.min_subtotal.toString() : null,
+          starts_at: promotionData.starts_at ?? null,
+          ends_at: promotionData.ends_at ?? null,
+          coupon_code: promotionData.coupon_code || null,
+          usage_limit: promotionData.usage_limit ?? null,
+          is_active: promotionData.is_active ?? true,
+          created_by: promotionData.created_by,
+          created_at: new Date(),
+        })
+        .returning();
+
+      this.logger.log(`Promotion created successfully: ${promotionData.name} (ID: ${result[0].id})`);
+      return result[0] as PromotionEntity;
+    } catch (error) {
+      this.logger.error(`Failed to create promotion: ${promotionData.name}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findById(id: string, withDeleted = false): Promise<PromotionEntity | null> {
+    this.logger.log(`Finding promotion by ID: ${id}`);
+
+    const condition = withDeleted
+      ? eq(promotions.id, id)
+      : and(eq(promotions.id, id), isNull(promotions.deleted_at));
+
+    return this.findOne(promotions, condition);
+  }
+
+  async findPromotionByIdOrThrow(id: string, withDeleted = false): Promise<PromotionEntity> {
+    const condition = withDeleted
+      ? eq(promotions.id, id)
+      : and(eq(promotions.id, id), isNull(promotions.deleted_at));
+
+    return super.findOneOrThrow(promotions, condition, MESSAGES.PROMOTION_NOT_FOUND);
+  }
+
+  async findByCouponCode(couponCode: string, withDeleted = false): Promise<PromotionEntity | null> {
+    this.logger.log(`Finding promotion by coupon code: ${couponCode}`);
+
+    const condition = withDeleted
+      ? eq(promotions.coupon_code, couponCode)
+      : and(eq(promotions.coupon_code, couponCode), isNull(promotions.deleted_at));
+
+    return this.findOne(promotions, condition);
+  }
+
+  async update(id: string, updateData: UpdatePromotionDto): Promise<PromotionEntity> {
+    this.logger.log(`Updating promotion: ${id}`);
+
+    // First verify promotion exists
+    await this.findPromotionByIdOrThrow(id);
+
+    try {
+      const updateValues: any = {
+        ...updateData,
+        updated_at: new Date(),
+      };
+
+      // Handle numeric fields
+      if (updateData.discount_value !== undefined) {
+        updateValues.discount_value = updateData.discount_value.toString();
+      }
+      if (updateData.min_subtotal !== undefined) {
+        updateValues.min_subtotal = updateData.min_subtotal !== null ? updateData.min_subtotal.toString() : null;
+      }
+      if (updateData.coupon_code !== undefined) {
+        updateValues.coupon_code = updateData.coupon_code || null;
+      }
+
+      const result = await this.db
+        .update(promotions)
+        .set(updateValues)
+        .where(and(eq(promotions.id, id), isNull(promotions.deleted_at)))
+        .returning();
+
+      if (!result.length) {
+        this.logger.error(`No promotion updated with ID: ${id}`);
+        throw new Error(MESSAGES.PROMOTION_NOT_FOUND);
+      }
+
+      this.logger.log(`Promotion updated successfully: ${id}`);
+      return result[0] as PromotionEntity;
+    } catch (error) {
+      this.logger.error(`Failed to update promotion: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  async delete(id: string, deletedBy: string): Promise<boolean> {
+    this.logger.log(`Soft deleting promotion: ${id}`);
+
+    // First verify promotion exists
+    await this.findPromotionByIdOrThrow(id);
+
+    try {
+      const result = await this.db
+        .update(promotions)
+        .set({
+          is_active: false,
+          deleted_by: deletedBy,
+          deleted_at: new Date(),
+          updated_by: deletedBy,
+          updated_at: new Date(),
+        })
+        .where(and(eq(promotions.id, id), isNull(promotions.deleted_at)))
+        .returning();
+
+      const success = result.length > 0;
+      if (success) {
+        this.logger.log(`Promotion soft deleted successfully: ${id}`);
+      } else {
+        this.logger.error(`Failed to soft delete promotion: ${id}`);
+      }
+      return success;
+    } catch (error) {
+      this.logger.error(`Failed to soft delete promotion: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== QUERY OPERATIONS ====================
+
+  async findAll(filters: PromotionFilters = {}, page = 1, limit = 10): Promise<{
+    data: PromotionEntity[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    this.logger.log(`Finding all promotions with filters:`, filters);
+
+    // Build where conditions
+    const conditions: any[] = [];
+
+    if (!filters.withDeleted) {
+      conditions.push(isNull(promotions.deleted_at));
+    }
+
+    if (filters.search) {
+      conditions.push(or(
+        ilike(promotions.name, `%${filters.search}%`),
+        ilike(promotions.coupon_code, `%${filters.search}%`),
+      ));
+    }
+
+    if (filters.promotion_type) {
+      conditions.push(eq(promotions.promotion_type, filters.promotion_type));
+    }
+
+    if (filters.scope) {
+      conditions.push(eq(promotions.scope, filters.scope));
+    }
+
+    if (typeof filters.is_active === 'boolean') {
+      conditions.push(eq(promotions.is_active, filters.is_active));
+    }
+
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+    // Get total count
+    const total = await this.count(promotions, whereClause);
+
+    // Get paginated results, newest first
+    const offset = (page - 1) * limit;
+    const data = await this.db
+      .select()
+      .from(promotions)
+      .where(whereClause)
+      .orderBy(desc(promotions.created_at))
+      .limit(limit)
+      .offset(offset);
+
+    const totalPages = Math.ceil(total / limit);
+
+    this.logger.log(`Found ${data.length} promotions out of ${total} total`);
+
+    return {
+      data: data as PromotionEntity[],
+      total,
+      page,
+      totalPages,
+    };
+  }
+
+  /**
+   * Active promotions whose campaign window covers the given moment. Coupon promotions
+   * are only included for the coupon code supplied.
+   */
+  async findRunningPromotions(at: Date, couponCode?: string | null): Promise<PromotionEntity[]> {
+    this.logger.log(`Finding promotions running at ${at.toISOString()}`);
+
+    const result = await this.db
+      .select()
+      .from(promotions)
+      .where(and(
+        eq(promotions.is_active, true),
+        isNull(promotions.deleted_at),
+        or(isNull(promotions.starts_at), lte(promotions.starts_at, at)),
+        or(isNull(promotions.ends_at), gte(promotions.ends_at, at)),
+        couponCode
+          ? or(isNull(promotions.coupon_code), eq(promotions.coupon_code, couponCode))
+          : isNull(promotions.coupon_code),
+      ))
+      .orderBy(promotions.created_at);
+
+    this.logger.log(`Found ${result.length} running promotions`);
+    return result as PromotionEntity[];
+  }
+
+  /**
+   * Adjusts the redemption counter; a negative change gives redemptions back. Redemptions
+   * are only taken while the usage limit allows them, checked in the same statement, and
+   * false is returned when the limit has been reached.
+   */
+  async changeUsageCount(id: string, change: number, tx?: DbTransaction): Promise<boolean> {
+    this.logger.log(`Changing usage count of promotion ${id} by ${change}`);
+
+    try {
+      const withinLimit = change > 0
+        ? or(isNull(promotions.usage_limit), lte(sql`${promotions.usage_count} + ${change}`, promotions.usage_limit))
+        : undefined;
+
+      const result = await (tx ?? this.db)
+        .update(promotions)
+        .set({ usage_count: sql`GREATEST(${promotions.usage_count} + ${change}, 0)` })
+        .where(and(eq(promotions.id, id), withinLimit))
+        .returning({ id: promotions.id });
+
+      if (!result.length) {
+        this.logger.warn(`Usage count of promotion ${id} not changed; usage limit reached or promotion missing`);
+      }
+      return result.length > 0;
+    } catch (error) {
+      this.logger.error(`Failed to change usage count of promotion: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== REPORT QUERIES ====================
+
+  /**
+   * Discount given and sales made under each promotion on invoices in [from, to).
+   * Returned units are taken out pro rata, as in the tax summary.
+   */
+  async getPromotionSummary(from: Date, to: Date): Promise<PromotionSummaryRow[]> {
+    this.logger.log(`Summarising promotions from ${from.toISOString()} to ${to.toISOString()}`);
+
+    try {
+      const soldShare = sql`(${salesInvoiceItems.quantity} - ${salesInvoiceItems.quantity_returned})::numeric / NULLIF(${salesInvoiceItems.quantity}, 0)`;
+
+      const result = await this.db
+        .select({
+          promotion_id: promotions.id,
+          promotion_name: promotions.name,
+          coupon_code: promotions.coupon_code,
+          invoice_count: sql<number>`count(DISTINCT ${salesInvoices.id})::int`,
+          line_count: sql<number>`count(*)::int`,
+          units_sold: sql<number>`ROUND(COALESCE(SUM((${salesInvoiceItems.quantity} - ${salesInvoiceItems.quantity_returned}) * ${salesInvoiceItems.unit_factor}), 0))::int`,
+          discount_amount: sql<string>`ROUND(COALESCE(SUM(${salesInvoiceItems.discount_amount} * ${soldShare}), 0), 2)::text`,
+          sales_amount: sql<string>`ROUND(COALESCE(SUM((${salesInvoiceItems.taxable_amount} + ${salesInvoiceItems.tax_amount}) * ${soldShare}), 0), 2)::text`,
+        })
+        .from(salesInvoiceItems)
+        .innerJoin(salesInvoices, eq(salesInvoiceItems.sales_invoice_id, salesInvoices.id))
+        .innerJoin(promotions, eq(salesInvoiceItems.promotion_id, promotions.id))
+        .where(and(
+          isNull(salesInvoiceItems.deleted_at),
+          isNull(salesInvoices.deleted_at),
+          ne(salesInvoices.payment_status, 'CANCELLED'),
+          gte(salesInvoices.created_at, from),
+          lt(salesInvoices.created_at, to),
+        ))
+        .groupBy(promotions.id, promotions.name, promotions.coupon_code)
+        .orderBy(desc(sql`SUM(${salesInvoiceItems.discount_amount})`));
+
+      this.logger.log(`Found ${result.length} promotions with sales`);
+      return result as PromotionSummaryRow[];
+    } catch (error) {
+      this.logger.error('Failed to summarise promotions', error.stack);
+      throw error;
+    }
+  }
+}
@@ -1,30 +1,36 @@
-import { Injectable } from '@nestjs/common';
-import { BaseRepository } from './base.repository';
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { BaseRepository, DbTransaction } from './base.repository';
 import { purchaseOrders, purchaseOrderStatusEnum } from '../schema/purchase-orders';
 import { purchaseOrderItems } from '../schema/purchase-order-items';
+import { purchaseOrderReceipts } from '../schema/purchase-order-receipts';
+import { purchaseOrderReceiptItems } from '../schema/purchase-order-receipt-items';
 import { suppliers } from '../schema/suppliers';
 import { products } from '../schema/products';
-import { eq, and, isNull, ilike, desc, or, not, gte, lte, sql } from 'drizzle-orm';
+import { stock } from '../schema/stock';
+import { eq, and, isNull, ilike, desc, or, not, gte, lte, inArray, sql } from 'drizzle-orm';
 import { DrizzleService } from '../drizzle.service';
 import { MESSAGES } from '../../../common/constants/string-const';
 
 export interface CreatePurchaseOrderDto {
   supplier_id: string;
   order_number: string;
-  status: 'PENDING' | 'CONFIRMED' | 'RECEIVED' | 'CANCELLED';
+  status: 'PENDING' | 'CONFIRMED' | 'PARTIALLY_RECEIVED' | 'RECEIVED' | 'CANCELLED';
   order_date?: Date;
   expected_delivery_date?: Date;
   total_amount?: number;
+  tax_amount?: number;
   notes?: string;
   created_by: string;
 }
 
 export interface UpdatePurchaseOrderDto {
   supplier_id?: string;
-  status?: 'PENDING' | 'CONFIRMED' | 'RECEIVED' | 'CANCELLED';
+  status?: 'PENDING' | 'CONFIRMED' | 'PARTIALLY_RECEIVED' | 'RECEIVED' | 'CANCELLED';
   order_date?: Date;
   expected_delivery_date?: Date;
   total_amount?: number;
+  tax_amount?: number;
+  returned_amount?: number;
   notes?: string;
   updated_by: string;
 }
@@ -34,16 +40,31 @@ export interface CreatePurchaseOrderItemDto {
   product_id: string;
   quantity_ordered: number;
   quantity_received?: number;
+  unit_code?: string;
+  unit_factor?: number;
   unit_cost: number;
   total_cost: number;
+  tax_class_id?: string | null;
+  tax_rate?: number;
+  tax_inclusive?: boolean;
+  taxable_amount?: number;
+  tax_amount?: number;
   created_by: string;
 }
 
 export interface UpdatePurchaseOrderItemDto {
   quantity_ordered?: number;
   quantity_received?: number;
+  quantity_returned?: number;
+  unit_code?: string;
+  unit_factor?: number;
   unit_cost?: number;
   total_cost?: number;
+  tax_class_id?: string | null;
+  tax_rate?: number;
+  tax_inclusive?: boolean;
+  taxable_amount?: number;
+  tax_amount?: number;
   updated_by: string;
 }
 
@@ -51,10 +72,12 @@ export interface PurchaseOrderEntity {
   id: string;
   supplier_id: string;
   order_number: string;
-  status: 'PENDING' | 'CONFIRMED' | 'RECEIVED' | 'CANCELLED';
+  status: 'PENDING' | 'CONFIRMED' | 'PARTIALLY_RECEIVED' | 'RECEIVED' | 'CANCELLED';
   order_date: string | null;
   expected_delivery_date: string | null;
   total_amount: string | null;
+  tax_amount: string;
+  returned_amount: string;
   notes: string | null;
   created_by: string;
   created_at: Date;
@@ -81,8 +104,16 @@ export interface PurchaseOrderItemEntity {
   product_id: string;
   quantity_ordered: number;
   quantity_received: number;
+  quantity_returned: number;
+  unit_code: string;
+  unit_factor: number; // Base units per line unit
   unit_cost: string;
   total_cost: string;
+  tax_class_id: string | null;
+  tax_rate: string;
+  tax_inclusive: boolean;
+  taxable_amount: string;
+  tax_amount: string;
   created_by: string;
   created_at: Date;
   updated_by: string | null;
@@ -97,18 +128,97 @@ export interface PurchaseOrderItemWithProduct extends PurchaseOrderItemEntity {
     name: string;
     sku: string;
     unit_price: string;
+    variant_options: Record<string, string> | null;
+    base_unit: string;
   };
 }
 
 export interface PurchaseOrderFilters {
   supplier_id?: string;
-  status?: 'PENDING' | 'CONFIRMED' | 'RECEIVED' | 'CANCELLED';
+  status?: 'PENDING' | 'CONFIRMED' | 'PARTIALLY_RECEIVED' | 'RECEIVED' | 'CANCELLED';
   order_date_from?: Date;
   order_date_to?: Date;
   order_number?: string;
   withDeleted?: boolean;
 }
 
+export interface CreatePurchaseOrderReceiptDto {
+  purchase_order_id: string;
+  notes?: string;
+  created_by: string;
+}
+
+export interface CreatePurchaseOrderReceiptItemDto {
+  receipt_id: string;
+  purchase_order_item_id: string;
+  product_id: string;
+  quantity_received: number;
+  created_by: string;
+}
+
+export interface PurchaseOrderReceiptEntity {
+  id: string;
+  purchase_order_id: string;
+  received_at: Date;
+  notes: string | null;
+  created_by: string;
+  created_at: Date;
+  updated_by: string | null;
+  updated_at: Date | null;
+  deleted_by: string | null;
+  deleted_at: Date | null;
+}
+
+export interface PurchaseOrderReceiptItemEntity {
+  id: string;
+  receipt_id: string;
+  purchase_order_item_id: string;
+  product_id: string;
+  quantity_received: number;
+  created_by: string;
+  created_at: Date;
+}
+
+export interface PurchaseOrderReceiptWithItems extends PurchaseOrderReceiptEntity {
+  items: (PurchaseOrderReceiptItemEntity & {
+    product: {
+      id: string;
+      name: string;
+      sku: string;
+    };
+  })[];
+}
+
+export interface ReorderCandidateFilters {
+  product_ids?: string[];
+  supplier_id?: string;
+  category_id?: string;
+  belowReorderPointOnly?: boolean;
+}
+
+/**
+ * Stock position of a product for reordering, in base units. `on_order` is the quantity still
+ * outstanding on open purchase orders; `last_*` come from the most recent purchase order for
+ * the product, with the cost converted to a base unit.
+ */
+export interface ReorderCandidate {
+  product_id: string;
+  product_name: string;
+  product_sku: string;
+  category_id: string | null;
+  base_unit: string;
+  cost_price: string | null;
+  minimum_stock_level: number;
+  reorder_point: number;
+  target_stock_level: number | null;
+  quantity_available: number;
+  quantity_reserved: number;
+  on_order: number;
+  preferred_supplier_id: string | null;
+  last_supplier_id: string | null;
+  last_unit_cost: string | null;
+}
+
 @Injectable()
 export class PurchaseOrdersRepository extends BaseRepository<PurchaseOrderEntity> {
   constructor(drizzleService: DrizzleService) {
@@ -130,6 +240,7 @@ export class PurchaseOrdersRepository extends BaseRepository<PurchaseOrderEntity
           order_date: orderData.order_date?.toISOString().split('T')[0] || null,
           expected_delivery_date: orderData.expected_delivery_date?.toISOString().split('T')[0] || null,
           total_amount: orderData.total_amount?.toString() || null,
+          tax_amount: (orderData.tax_amount ?? 0).toString(),
           notes: orderData.notes || null,
           created_by: orderData.created_by,
           created_at: new Date(),
@@ -160,12 +271,31 @@ export class PurchaseOrdersRepository extends BaseRepository<PurchaseOrderEntity
     return result;
   }
 
-  async findPurchaseOrderByIdOrThrow(id: string, withDeleted = false): Promise<PurchaseOrderEntity> {
+  async findPurchaseOrderByIdOrThrow(id: string, withDeleted = false, tx?: DbTransaction): Promise<PurchaseOrderEntity> {
     const condition = withDeleted 
       ? eq(purchaseOrders.id, id)
       : and(eq(purchaseOrders.id, id), isNull(purchaseOrders.deleted_at));
     
-    return super.findOneOrThrow(purchaseOrders, condition, MESSAGES.PURCHASE_ORDER_NOT_FOUND);
+    return super.findOneOrThrow(purchaseOrders, condition, MESSAGES.PURCHASE_ORDER_NOT_FOUND, tx);
+  }
+
+  /**
+   * Locks the purchase order row for the rest of the transaction
+   */
+  async lockPurchaseOrder(id: string, tx: DbTransaction): Promise<PurchaseOrderEntity> {
+    this.logger.log(`Locking purchase order: ${id}`);
+
+    const result = await tx
+      .select()
+      .from(purchaseOrders)
+      .where(and(eq(purchaseOrders.id, id), isNull(purchaseOrders.deleted_at)))
+      .for('update');
+
+    if (!result.length) {
+      this.logger.warn(`Purchase order not found for locking: ${id}`);
+      throw new NotFoundException(MESSAGES.PURCHASE_ORDER_NOT_FOUND);
+    }
+    return result[0] as PurchaseOrderEntity;
   }
 
   async findPurchaseOrderByOrderNumber(orderNumber: string, withDeleted = false): Promise<PurchaseOrderEntity | null> {
@@ -184,12 +314,12 @@ export class PurchaseOrdersRepository extends BaseRepository<PurchaseOrderEntity
     return result;
   }
 
-  async findPurchaseOrderWithDetails(id: string): Promise<PurchaseOrderWithDetails | null> {
+  async findPurchaseOrderWithDetails(id: string, tx?: DbTransaction): Promise<PurchaseOrderWithDetails | null> {
     this.logger.log(`Finding purchase order with details: ${id}`);
     
     try {
       // Get purchase order with supplier info
-      const orderResult = await this.db
+      const orderResult = await (tx ?? this.db)
         .select({
           // Purchase order fields
           id: purchaseOrders.id,
@@ -199,6 +329,8 @@ export class PurchaseOrdersRepository extends BaseRepository<PurchaseOrderEntity
           order_date: purchaseOrders.order_date,
           expected_delivery_date: purchaseOrders.expected_delivery_date,
           total_amount: purchaseOrders.total_amount,
+          tax_amount: purchaseOrders.tax_amount,
+          returned_amount: purchaseOrders.returned_amount,
           notes: purchaseOrders.notes,
           created_by: purchaseOrders.created_by,
           created_at: purchaseOrders.created_at,
@@ -225,7 +357,7 @@ export class PurchaseOrdersRepository extends BaseRepository<PurchaseOrderEntity
       const order = orderResult[0];
 
       // Get purchase order items with product info
-      const itemsResult = await this.db
+      const itemsResult = await (tx ?? this.db)
         .select({
           // Purchase order item fields
           id: purchaseOrderItems.id,
@@ -233,8 +365,16 @@ export class PurchaseOrdersRepository extends BaseRepository<PurchaseOrderEntity
           product_id: purchaseOrderItems.product_id,
           quantity_ordered: purchaseOrderItems.quantity_ordered,
           quantity_received: purchaseOrderItems.quantity_received,
+          quantity_returned: purchaseOrderItems.quantity_returned,
+          unit_code: purchaseOrderItems.unit_code,
+          unit_factor: purchaseOrderItems.unit_factor,
           unit_cost: purchaseOrderItems.unit_cost,
           total_cost: purchaseOrderItems.total_cost,
+          tax_class_id: purchaseOrderItems.tax_class_id,
+          tax_rate: purchaseOrderItems.tax_rate,
+          tax_inclusive: purchaseOrderItems.tax_inclusive,
+          taxable_amount: purchaseOrderItems.taxable_amount,
+          tax_amount: purchaseOrderItems.tax_amount,
           created_by: purchaseOrderItems.created_by,
           created_at: purchaseOrderItems.created_at,
           updated_by: purchaseOrderItems.updated_by,
@@ -245,6 +385,8 @@ export class PurchaseOrdersRepository extends BaseRepository<PurchaseOrderEntity
           product_name: products.name,
           product_sku: products.sku,
           product_unit_price: products.unit_price,
+          product_variant_options: products.variant_options,
+          product_base_unit: products.base_unit,
         })
         .from(purchaseOrderItems)
         .leftJoin(products, eq(purchaseOrderItems.product_id, products.id))
@@ -263,6 +405,8 @@ export class PurchaseOrdersRepository extends BaseRepository<PurchaseOrderEntity
         order_date: order.order_date,
         expected_delivery_date: order.expected_delivery_date,
         total_amount: order.total_amount,
+        tax_amount: order.tax_amount,
+        returned_amount: order.returned_amount,
         notes: order.notes,
         created_by: order.created_by,
         created_at: order.created_at,
@@ -283,8 +427,16 @@ export class PurchaseOrdersRepository extends BaseRepository<PurchaseOrderEntity
           product_id: item.product_id,
           quantity_ordered: item.quantity_ordered,
           quantity_received: item.quantity_received,
+          quantity_returned: item.quantity_returned,
+          unit_code: item.unit_code,
+          unit_factor: item.unit_factor,
           unit_cost: item.unit_cost || '0',
           total_cost: item.total_cost || '0',
+          tax_class_id: item.tax_class_id,
+          tax_rate: item.tax_rate || '0',
+          tax_inclusive: item.tax_inclusive,
+          taxable_amount: item.taxable_amount || '0',
+          tax_amount: item.tax_amount || '0',
           created_by: item.created_by,
           created_at: item.created_at,
           updated_by: item.updated_by,
@@ -296,6 +448,8 @@ export class PurchaseOrdersRepository extends BaseRepository<PurchaseOrderEntity
             name: item.product_name || '',
             sku: item.product_sku || '',
             unit_price: item.product_unit_price || '0',
+            variant_options: item.product_variant_options ?? null,
+            base_unit: item.product_base_unit || 'EA',
           }
         }))
       };
@@ -308,11 +462,11 @@ export class PurchaseOrdersRepository extends BaseRepository<PurchaseOrderEntity
     }
   }
 
-  async updatePurchaseOrder(id: string, updateData: UpdatePurchaseOrderDto): Promise<PurchaseOrderEntity> {
+  async updatePurchaseOrder(id: string, updateData: UpdatePurchaseOrderDto, tx?: DbTransaction): Promise<PurchaseOrderEntity> {
     this.logger.log(`Updating purchase order: ${id}`);
     
     // First verify order exists
-    await this.findPurchaseOrderByIdOrThrow(id);
+    await this.findPurchaseOrderByIdOrThrow(id, false, tx);
     
     try {
       const updateValues: any = {
@@ -330,8 +484,14 @@ export class PurchaseOrdersRepository extends BaseRepository<PurchaseOrderEntity
       if (updateData.total_amount !== undefined) {
         updateValues.total_amount = updateData.total_amount.toString();
       }
+      if (updateData.tax_amount !== undefined) {
+        updateValues.tax_amount = updateData.tax_amount.toString();
+      }
+      if (updateData.returned_amount !== undefined) {
+        updateValues.returned_amount = updateData.returned_amount.toString();
+      }
 
-      const result = await this.db
+      const result = await (tx ?? this.db)
         .update(purchaseOrders)
         .set(updateValues)
         .where(and(eq(purchaseOrders.id, id), isNull(purchaseOrders.deleted_at)))
@@ -394,8 +554,15 @@ export class PurchaseOrdersRepository extends BaseRepository<PurchaseOrderEntity
           product_id: itemData.product_id,
           quantity_ordered: itemData.quantity_ordered,
           quantity_received: itemData.quantity_received || 0,
+          unit_code: itemData.unit_code ?? 'EA',
+          unit_factor: itemData.unit_factor ?? 1,
           unit_cost: itemData.unit_cost.toString(),
           total_cost: itemData.total_cost.toString(),
+          tax_class_id: itemData.tax_class_id ?? null,
+          tax_rate: (itemData.tax_rate ?? 0).toString(),
+          tax_inclusive: itemData.tax_inclusive ?? false,
+          taxable_amount: (itemData.taxable_amount ?? itemData.total_cost).toString(),
+          tax_amount: (itemData.tax_amount ?? 0).toString(),
           created_by: itemData.created_by,
           created_at: new Date(),
         })
@@ -409,7 +576,53 @@ export class PurchaseOrdersRepository extends BaseRepository<PurchaseOrderEntity
     }
   }
 
-  async updatePurchaseOrderItem(itemId: string, updateData: UpdatePurchaseOrderItemDto): Promise<PurchaseOrderItemEntity> {
+  async findPurchaseOrderItemById(itemId: string): Promise<PurchaseOrderItemEntity | null> {
+    this.logger.log(`Finding purchase order item by ID: ${itemId}`);
+
+    const result = await this.db
+      .select()
+      .from(purchaseOrderItems)
+      .where(and(eq(purchaseOrderItems.id, itemId), isNull(purchaseOrderItems.deleted_at)))
+      .limit(1);
+
+    return result.length ? (result[0] as PurchaseOrderItemEntity) : null;
+  }
+
+  async findPurchaseOrderItems(orderId: string): Promise<PurchaseOrderItemEntity[]> {
+    this.logger.log(`Finding items for purchase order: ${orderId}`);
+
+    const result = await this.db
+      .select()
+      .from(purchaseOrderItems)
+      .where(and(
+        eq(purchaseOrderItems.purchase_order_id, orderId),
+        isNull(purchaseOrderItems.deleted_at)
+      ))
+      .orderBy(purchaseOrderItems.created_at);
+
+    return result as PurchaseOrderItemEntity[];
+  }
+
+  /**
+   * Locks the order's item rows for the rest of the transaction, in ID order
+   */
+  async lockPurchaseOrderItems(orderId: string, tx: DbTransaction): Promise<PurchaseOrderItemEntity[]> {
+    this.logger.log(`Locking items of purchase order: ${orderId}`);
+
+    const result = await tx
+      .select()
+      .from(purchaseOrderItems)
+      .where(and(
+        eq(purchaseOrderItems.purchase_order_id, orderId),
+        isNull(purchaseOrderItems.deleted_at)
+      ))
+      .orderBy(purchaseOrderItems.id)
+      .for('update');
+
+    return result as PurchaseOrderItemEntity[];
+  }
+
+  async updatePurchaseOrderItem(itemId: string, updateData: UpdatePurchaseOrderItemDto, tx?: DbTransaction): Promise<PurchaseOrderItemEntity> {
     this.logger.log(`Updating purchase order item: ${itemId}`);
     
     try {
@@ -425,8 +638,17 @@ export class PurchaseOrdersRepository extends BaseRepository<PurchaseOrderEntity
       if (updateData.total_cost !== undefined) {
         updateValues.total_cost = updateData.total_cost.toString();
       }
+      if (updateData.tax_rate !== undefined) {
+        updateValues.tax_rate = updateData.tax_rate.toString();
+      }
+      if (updateData.taxable_amount !== undefined) {
+        updateValues.taxable_amount = updateData.taxable_amount.toString();
+      }
+      if (updateData.tax_amount !== undefined) {
+        updateValues.tax_amount = updateData.tax_amount.toString();
+      }
 
-      const result = await this.db
+      const result = await (tx ?? this.db)
         .update(purchaseOrderItems)
         .set(updateValues)
         .where(and(eq(purchaseOrderItems.id, itemId), isNull(purchaseOrderItems.deleted_at)))
@@ -473,6 +695,108 @@ export class PurchaseOrdersRepository extends BaseRepository<PurchaseOrderEntity
     }
   }
 
+  //#region ==================== RECEIPT OPERATIONS ====================
+
+  async createPurchaseOrderReceipt(receiptData: CreatePurchaseOrderReceiptDto, tx?: DbTransaction): Promise<PurchaseOrderReceiptEntity> {
+    this.logger.log(`Creating receipt for purchase order: ${receiptData.purchase_order_id}`);
+
+    try {
+      const result = await (tx ?? this.db)
+        .insert(purchaseOrderReceipts)
+        .values({
+          purchase_order_id: receiptData.purchase_order_id,
+          notes: receiptData.notes,
+          received_at: new Date(),
+          created_by: receiptData.created_by,
+          created_at: new Date(),
+        })
+        .returning();
+
+      this.logger.log(`Purchase order receipt created successfully: ${result[0].id}`);
+      return result[0] as PurchaseOrderReceiptEntity;
+    } catch (error) {
+      this.logger.error(`Failed to create receipt for purchase order: ${receiptData.purchase_order_id}`, error.stack);
+      throw error;
+    }
+  }
+
+  async addPurchaseOrderReceiptItem(itemData: CreatePurchaseOrderReceiptItemDto, tx?: DbTransaction): Promise<PurchaseOrderReceiptItemEntity> {
+    this.logger.log(`Adding item to purchase order receipt: ${itemData.receipt_id}`);
+
+    try {
+      const result = await (tx ?? this.db)
+        .insert(purchaseOrderReceiptItems)
+        .values({
+          receipt_id: itemData.receipt_id,
+          purchase_order_item_id: itemData.purchase_order_item_id,
+          product_id: itemData.product_id,
+          quantity_received: itemData.quantity_received,
+          created_by: itemData.created_by,
+          created_at: new Date(),
+        })
+        .returning();
+
+      this.logger.log(`Purchase order receipt item added successfully: ${result[0].id}`);
+      return result[0] as PurchaseOrderReceiptItemEntity;
+    } catch (error) {
+      this.logger.error(`Failed to add purchase order receipt item`, error.stack);
+      throw error;
+    }
+  }
+
+  async findPurchaseOrderReceipts(purchaseOrderId: string): Promise<PurchaseOrderReceiptWithItems[]> {
+    this.logger.log(`Finding receipts for purchase order: ${purchaseOrderId}`);
+
+    try {
+      const receipts = await this.db
+        .select()
+        .from(purchaseOrderReceipts)
+        .where(and(
+          eq(purchaseOrderReceipts.purchase_order_id, purchaseOrderId),
+          isNull(purchaseOrderReceipts.deleted_at)
+        ))
+        .orderBy(desc(purchaseOrderReceipts.received_at));
+
+      if (!receipts.length) {
+        return [];
+      }
+
+      const receiptItems = await this.db
+        .select({
+          id: purchaseOrderReceiptItems.id,
+          receipt_id: purchaseOrderReceiptItems.receipt_id,
+          purchase_order_item_id: purchaseOrderReceiptItems.purchase_order_item_id,
+          product_id: purchaseOrderReceiptItems.product_id,
+          quantity_received: purchaseOrderReceiptItems.quantity_received,
+          created_by: purchaseOrderReceiptItems.created_by,
+          created_at: purchaseOrderReceiptItems.created_at,
+          product: {
+            id: products.id,
+            name: products.name,
+            sku: products.sku,
+          },
+        })
+        .from(purchaseOrderReceiptItems)
+        .innerJoin(purchaseOrderReceipts, eq(purchaseOrderReceiptItems.receipt_id, purchaseOrderReceipts.id))
+        .innerJoin(products, eq(purchaseOrderReceiptItems.product_id, products.id))
+        .where(and(
+          eq(purchaseOrderReceipts.purchase_order_id, purchaseOrderId),
+          isNull(purchaseOrderReceiptItems.deleted_at)
+        ));
+
+      const result = receipts.map(receipt => ({
+        ...receipt,
+        items: receiptItems.filter(item => item.receipt_id === receipt.id),
+      })) as PurchaseOrderReceiptWithItems[];
+
+      this.logger.log(`Found ${result.length} receipts for purchase order: ${purchaseOrderId}`);
+      return result;
+    } catch (error) {
+      this.logger.error(`Failed to find receipts for purchase order: ${purchaseOrderId}`, error.stack);
+      throw error;
+    }
+  }
+
   //#region ==================== QUERY OPERATIONS ====================
 
   async findAllPurchaseOrders(filters: PurchaseOrderFilters = {}, page = 1, limit = 10): Promise<{
@@ -527,6 +851,8 @@ export class PurchaseOrdersRepository extends BaseRepository<PurchaseOrderEntity
         order_date: purchaseOrders.order_date,
         expected_delivery_date: purchaseOrders.expected_delivery_date,
         total_amount: purchaseOrders.total_amount,
+        tax_amount: purchaseOrders.tax_amount,
+        returned_amount: purchaseOrders.returned_amount,
         notes: purchaseOrders.notes,
         created_by: purchaseOrders.created_by,
         created_at: purchaseOrders.created_at,
@@ -564,6 +890,8 @@ export class PurchaseOrdersRepository extends BaseRepository<PurchaseOrderEntity
         order_date: order.order_date,
         expected_delivery_date: order.expected_delivery_date,
         total_amount: order.total_amount,
+        tax_amount: order.tax_amount,
+        returned_amount: order.returned_amount,
         notes: order.notes,
         created_by: order.created_by,
         created_at: order.created_at,
@@ -598,6 +926,7 @@ export class PurchaseOrdersRepository extends BaseRepository<PurchaseOrderEntity
     total: number;
     pending: number;
     confirmed: number;
+    partially_received: number;
     received: number;
     cancelled: number;
   }> {
@@ -612,6 +941,10 @@ export class PurchaseOrdersRepository extends BaseRepository<PurchaseOrderEntity
       eq(purchaseOrders.status, 'CONFIRMED'),
       isNull(purchaseOrders.deleted_at)
     ));
+    const partiallyReceived = await this.count(purchaseOrders, and(
+      eq(purchaseOrders.status, 'PARTIALLY_RECEIVED'),
+      isNull(purchaseOrders.deleted_at)
+    ));
     const received = await this.count(purchaseOrders, and(
       eq(purchaseOrders.status, 'RECEIVED'),
       isNull(purchaseOrders.deleted_at)
@@ -625,6 +958,7 @@ export class PurchaseOrdersRepository extends BaseRepository<PurchaseOrderEntity
       total,
       pending,
       confirmed,
+      partially_received: partiallyReceived,
       received,
       cancelled,
     };
@@ -649,4 +983,109 @@ export class PurchaseOrdersRepository extends BaseRepository<PurchaseOrderEntity
     this.logger.log(`Found ${result.length} purchase orders for supplier: ${supplierId}`);
     return result as PurchaseOrderEntity[];
   }
-}
\ No newline at end of file
+
+  //#region ==================== REORDER QUERIES ====================
+
+  async findReorderCandidates(filters: ReorderCandidateFilters = {}): Promise<ReorderCandidate[]> {
+    this.logger.log('Finding reorder candidates', filters);
+
+    try {
+      const stockTotals = this.db
+        .select({
+          product_id: stock.product_id,
+          quantity_available: sql<number>`COALESCE(SUM(${stock.quantity_available}), 0)::int`.as('quantity_available'),
+          quantity_reserved: sql<number>`COALESCE(SUM(${stock.quantity_reserved}), 0)::int`.as('quantity_reserved'),
+        })
+        .from(stock)
+        .where(isNull(stock.deleted_at))
+        .groupBy(stock.product_id)
+        .as('stock_totals');
+
+      const openOrders = this.db
+        .select({
+          product_id: purchaseOrderItems.product_id,
+          on_order: sql<number>`ROUND(COALESCE(SUM(GREATEST(${purchaseOrderItems.quantity_ordered} - ${purchaseOrderItems.quantity_received}, 0) * ${purchaseOrderItems.unit_factor}), 0))::int`.as('on_order'),
+        })
+        .from(purchaseOrderItems)
+        .innerJoin(purchaseOrders, eq(purchaseOrderItems.purchase_order_id, purchaseOrders.id))
+        .where(and(
+          isNull(purchaseOrderItems.deleted_at),
+          isNull(purchaseOrders.deleted_at),
+          inArray(purchaseOrders.status, ['PENDING', 'CONFIRMED', 'PARTIALLY_RECEIVED']),
+        ))
+        .groupBy(purchaseOrderItems.product_id)
+        .as('open_orders');
+
+      const lastPurchases = this.db
+        .selectDistinctOn([purchaseOrderItems.product_id], {
+          product_id: purchaseOrderItems.product_id,
+          last_supplier_id: sql<string>`${purchaseOrders.supplier_id}`.as('last_supplier_id'),
+          last_unit_cost: sql<string>`ROUND(${purchaseOrderItems.unit_cost} / ${purchaseOrderItems.unit_factor}, 4)`.as('last_unit_cost'),
+        })
+        .from(purchaseOrderItems)
+        .innerJoin(purchaseOrders, eq(purchaseOrderItems.purchase_order_id, purchaseOrders.id))
+        .where(and(
+          isNull(purchaseOrderItems.deleted_at),
+          isNull(purchaseOrders.deleted_at),
+          not(eq(purchaseOrders.status, 'CANCELLED')),
+        ))
+        .orderBy(purchaseOrderItems.product_id, desc(purchaseOrders.created_at))
+        .as('last_purchases');
+
+      const reorderPoint = sql<number>`COALESCE(${products.reorder_point}, ${products.minimum_stock_level})`;
+      const quantityAvailable = sql<number>`COALESCE(${stockTotals.quantity_available}, 0)`;
+      const onOrder = sql<number>`COALESCE(${openOrders.on_order}, 0)`;
+
+      const conditions: any[] = [
+        isNull(products.deleted_at),
+        eq(products.is_active, true),
+        isNull(products.variant_attributes), // Parents are reordered through their variants
+      ];
+      if (filters.product_ids) {
+        conditions.push(inArray(products.id, filters.product_ids));
+      }
+      if (filters.category_id) {
+        conditions.push(eq(products.category_id, filters.category_id));
+      }
+      if (filters.supplier_id) {
+        conditions.push(sql`COALESCE(${products.preferred_supplier_id}, ${lastPurchases.last_supplier_id}) = ${filters.supplier_id}`);
+      }
+      if (filters.belowReorderPointOnly) {
+        // Products without a reorder point or minimum level are never suggested
+        conditions.push(sql`${reorderPoint} > 0`);
+        conditions.push(sql`${quantityAvailable} + ${onOrder} <= ${reorderPoint}`);
+      }
+
+      const result = await this.db
+        .select({
+          product_id: products.id,
+          product_name: products.name,
+          product_sku: products.sku,
+          category_id: products.category_id,
+          base_unit: products.base_unit,
+          cost_price: products.cost_price,
+          minimum_stock_level: products.minimum_stock_level,
+          reorder_point: sql<number>`${reorderPoint}::int`,
+          target_stock_level: products.target_stock_level,
+          quantity_available: sql<number>`${quantityAvailable}::int`,
+          quantity_reserved: sql<number>`COALESCE(${stockTotals.quantity_reserved}, 0)::int`,
+          on_order: sql<number>`${onOrder}::int`,
+          preferred_supplier_id: products.preferred_supplier_id,
+          last_supplier_id: lastPurchases.last_supplier_id,
+          last_unit_cost: lastPurchases.last_unit_cost,
+        })
+        .from(products)
+        .leftJoin(stockTotals, eq(stockTotals.product_id, products.id))
+        .leftJoin(openOrders, eq(openOrders.product_id, products.id))
+        .leftJoin(lastPurchases, eq(lastPurchases.product_id, products.id))
+        .where(and(...conditions))
+        .orderBy(products.name);
+
+      this.logger.log(`Found ${result.length} reorder candidates`);
+      return result as ReorderCandidate[];
+    } catch (error) {
+      this.logger.error('Failed to find reorder candidates', error.stack);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,218 @@
+import { Injectable } from '@nestjs/common';
+import { BaseRepository } from './base.repository';
+import { AnalyticsGranularity } from './analytics.repository';
+import { salesInvoices } from '../schema/sales-invoices';
+import { salesInvoiceItems } from '../schema/sales-invoice-items';
+import { products } from '../schema/products';
+import { categories } from '../schema/categories';
+import { suppliers } from '../schema/suppliers';
+import { eq, and, isNull, ne, gte, lt, desc, asc, sql, SQL } from 'drizzle-orm';
+import { DrizzleService } from '../drizzle.service';
+
+// date_trunc units are inlined into the query, so only these literals ever reach it
+const TRUNC_UNITS: Record<AnalyticsGranularity, string> = {
+  day: `'day'`,
+  week: `'week'`,
+  month: `'month'`,
+};
+
+export interface MarginTotalsRow {
+  quantity_sold: number;
+  revenue: string; // Net of tax, discount and returns
+  cost_of_goods_sold: string;
+  invoice_count: number;
+}
+
+export interface ProductMarginRow extends MarginTotalsRow {
+  product_id: string;
+  product_name: string;
+  product_sku: string;
+  unit_price: string;
+  cost_price: string | null;
+}
+
+export interface CategoryMarginRow extends MarginTotalsRow {
+  category_id: string | null;
+  category_name: string | null;
+}
+
+export interface SupplierMarginRow extends MarginTotalsRow {
+  supplier_id: string | null;
+  supplier_name: string | null;
+}
+
+export interface PeriodMarginRow extends MarginTotalsRow {
+  period_start: string; // YYYY-MM-DD, the first day of the day, week (Monday) or month
+}
+
+/**
+ * Read-only profitability queries over sales invoice lines. There is no table of its own.
+ * Every query covers lines on invoices raised within [from, to), leaving out cancelled invoices.
+ */
+@Injectable()
+export class ReportsRepository extends BaseRepository<never> {
+  constructor(drizzleService: DrizzleService) {
+    super(drizzleService);
+  }
+
+  //#region ==================== MARGINS ====================
+
+  async getMarginTotals(from: Date, to: Date): Promise<MarginTotalsRow> {
+    this.logger.log(`Summarising margins from ${from.toISOString()} to ${to.toISOString()}`);
+
+    try {
+      const [result] = await this.db
+        .select(this.marginTotals())
+        .from(salesInvoiceItems)
+        .innerJoin(salesInvoices, eq(salesInvoiceItems.sales_invoice_id, salesInvoices.id))
+        .where(this.lineConditions(from, to));
+
+      return result as MarginTotalsRow;
+    } catch (error) {
+      this.logger.error('Failed to summarise margins', error.stack);
+      throw error;
+    }
+  }
+
+  async getMarginsByProduct(from: Date, to: Date): Promise<ProductMarginRow[]> {
+    this.logger.log(`Summarising margins by product from ${from.toISOString()} to ${to.toISOString()}`);
+
+    try {
+      const result = await this.db
+        .select({
+          product_id: products.id,
+          product_name: products.name,
+          product_sku: products.sku,
+          unit_price: products.unit_price,
+          cost_price: products.cost_price,
+          ...this.marginTotals(),
+        })
+        .from(salesInvoiceItems)
+        .innerJoin(salesInvoices, eq(salesInvoiceItems.sales_invoice_id, salesInvoices.id))
+        .innerJoin(products, eq(salesInvoiceItems.product_id, products.id))
+        .where(this.lineConditions(from, to))
+        .groupBy(products.id, products.name, products.sku, products.unit_price, products.cost_price)
+        .orderBy(desc(this.netRevenue()), asc(products.name));
+
+      this.logger.log(`Found margins for ${result.length} products`);
+      return result as ProductMarginRow[];
+    } catch (error) {
+      this.logger.error('Failed to summarise margins by product', error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Products without a category are grouped together under a null category
+   */
+  async getMarginsByCategory(from: Date, to: Date): Promise<CategoryMarginRow[]> {
+    this.logger.log(`Summarising margins by category from ${from.toISOString()} to ${to.toISOString()}`);
+
+    try {
+      const result = await this.db
+        .select({
+          category_id: categories.id,
+          category_name: categories.name,
+          ...this.marginTotals(),
+        })
+        .from(salesInvoiceItems)
+        .innerJoin(salesInvoices, eq(salesInvoiceItems.sales_invoice_id, salesInvoices.id))
+        .innerJoin(products, eq(salesInvoiceItems.product_id, products.id))
+        .leftJoin(categories, eq(products.category_id, categories.id))
+        .where(this.lineConditions(from, to))
+        .groupBy(categories.id, categories.name)
+        .orderBy(desc(this.netRevenue()), asc(categories.name));
+
+      this.logger.log(`Found margins for ${result.length} categories`);
+      return result as CategoryMarginRow[];
+    } catch (error) {
+      this.logger.error('Failed to summarise margins by category', error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Sales are attributed to each product's preferred supplier; products without one are
+   * grouped together under a null supplier
+   */
+  async getMarginsBySupplier(from: Date, to: Date): Promise<SupplierMarginRow[]> {
+    this.logger.log(`Summarising margins by supplier from ${from.toISOString()} to ${to.toISOString()}`);
+
+    try {
+      const result = await this.db
+        .select({
+          supplier_id: suppliers.id,
+          supplier_name: suppliers.name,
+          ...this.marginTotals(),
+        })
+        .from(salesInvoiceItems)
+        .innerJoin(salesInvoices, eq(salesInvoiceItems.sales_invoice_id, salesInvoices.id))
+        .innerJoin(products, eq(salesInvoiceItems.product_id, products.id))
+        .leftJoin(suppliers, eq(products.preferred_supplier_id, suppliers.id))
+        .where(this.lineConditions(from, to))
+        .groupBy(suppliers.id, suppliers.name)
+        .orderBy(desc(this.netRevenue()), asc(suppliers.name));
+
+      this.logger.log(`Found margins for ${result.length} suppliers`);
+      return result as SupplierMarginRow[];
+    } catch (error) {
+      this.logger.error('Failed to summarise margins by supplier', error.stack);
+      throw error;
+    }
+  }
+
+  async getMarginsByPeriod(granularity: AnalyticsGranularity, from: Date, to: Date): Promise<PeriodMarginRow[]> {
+    this.logger.log(`Summarising margins by ${granularity} from ${from.toISOString()} to ${to.toISOString()}`);
+
+    try {
+      const periodStart = sql<string>`to_char(date_trunc(${sql.raw(TRUNC_UNITS[granularity])}, ${salesInvoices.created_at}), 'YYYY-MM-DD')`;
+
+      const result = await this.db
+        .select({
+          period_start: periodStart,
+          ...this.marginTotals(),
+        })
+        .from(salesInvoiceItems)
+        .innerJoin(salesInvoices, eq(salesInvoiceItems.sales_invoice_id, salesInvoices.id))
+        .where(this.lineConditions(from, to))
+        .groupBy(periodStart)
+        .orderBy(periodStart);
+
+      this.logger.log(`Found margins in ${result.length} periods`);
+      return result as PeriodMarginRow[];
+    } catch (error) {
+      this.logger.error(`Failed to summarise margins by ${granularity}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== HELPERS ====================
+
+  /**
+   * Units and revenue kept by customers, and the cost of goods sold recorded on the lines.
+   * Revenue is the line's taxable amount scaled down by the share of units returned.
+   */
+  private marginTotals() {
+    return {
+      quantity_sold: sql<number>`ROUND(COALESCE(SUM((${salesInvoiceItems.quantity} - ${salesInvoiceItems.quantity_returned}) * ${salesInvoiceItems.unit_factor}), 0))::int`,
+      revenue: sql<string>`${this.netRevenue()}::text`,
+      cost_of_goods_sold: sql<string>`COALESCE(SUM(${salesInvoiceItems.cost_of_goods_sold}), 0)::text`,
+      invoice_count: sql<number>`count(DISTINCT ${salesInvoices.id})::int`,
+    };
+  }
+
+  private netRevenue() {
+    const soldShare = sql`(${salesInvoiceItems.quantity} - ${salesInvoiceItems.quantity_returned})::numeric / NULLIF(${salesInvoiceItems.quantity}, 0)`;
+    return sql`ROUND(COALESCE(SUM(${salesInvoiceItems.taxable_amount} * ${soldShare}), 0), 2)`;
+  }
+
+  private lineConditions(from: Date, to: Date): SQL | undefined {
+    return and(
+      isNull(salesInvoiceItems.deleted_at),
+      isNull(salesInvoices.deleted_at),
+      ne(salesInvoices.payment_status, 'CANCELLED'),
+      gte(salesInvoices.created_at, from),
+      lt(salesInvoices.created_at, to),
+    );
+  }
+}
@@ -0,0 +1,301 @@
+import { Injectable } from '@nestjs/common';
+import { BaseRepository, DbTransaction } from './base.repository';
+import { returns } from '../schema/returns';
+import { returnItems } from '../schema/return-items';
+import { products } from '../schema/products';
+import { eq, and, isNull, ilike, desc, gte, lte } from 'drizzle-orm';
+import { DrizzleService } from '../drizzle.service';
+
+export type ReturnKind = 'CUSTOMER' | 'SUPPLIER';
+export type ReturnReason = 'DAMAGED' | 'DEFECTIVE' | 'WRONG_ITEM' | 'NOT_AS_DESCRIBED' | 'EXPIRED' | 'CHANGED_MIND' | 'OTHER';
+export type ReturnDisposition = 'RESTOCK' | 'WRITE_OFF';
+
+export interface CreateReturnDto {
+  return_number: string;
+  return_type: ReturnKind;
+  sales_invoice_id?: string;
+  purchase_order_id?: string;
+  reason: ReturnReason;
+  refund_amount: number;
+  notes?: string;
+  created_by: string;
+}
+
+export interface CreateReturnItemDto {
+  return_id: string;
+  product_id: string;
+  sales_invoice_item_id?: string;
+  purchase_order_item_id?: string;
+  quantity: number;
+  disposition: ReturnDisposition;
+  reason?: ReturnReason;
+  unit_amount: number;
+  total_amount: number;
+  created_by: string;
+}
+
+export interface ReturnEntity {
+  id: string;
+  return_number: string;
+  return_type: ReturnKind;
+  sales_invoice_id: string | null;
+  purchase_order_id: string | null;
+  reason: ReturnReason;
+  refund_amount: string;
+  notes: string | null;
+  created_by: string;
+  created_at: Date;
+  updated_by: string | null;
+  updated_at: Date | null;
+  deleted_by: string | null;
+  deleted_at: Date | null;
+}
+
+export interface ReturnItemEntity {
+  id: string;
+  return_id: string;
+  product_id: string;
+  sales_invoice_item_id: string | null;
+  purchase_order_item_id: string | null;
+  quantity: number;
+  disposition: ReturnDisposition;
+  reason: ReturnReason | null;
+  unit_amount: string;
+  total_amount: string;
+  created_by: string;
+  created_at: Date;
+}
+
+export interface ReturnItemWithProduct extends ReturnItemEntity {
+  product: {
+    id: string;
+    name: string;
+    sku: string;
+  };
+}
+
+export interface ReturnWithDetails extends ReturnEntity {
+  items: ReturnItemWithProduct[];
+}
+
+export interface ReturnFilters {
+  return_type?: ReturnKind;
+  reason?: ReturnReason;
+  return_number?: string;
+  sales_invoice_id?: string;
+  purchase_order_id?: string;
+  date_from?: Date;
+  date_to?: Date;
+  withDeleted?: boolean;
+}
+
+@Injectable()
+export class ReturnsRepository extends BaseRepository<ReturnEntity> {
+  constructor(drizzleService: DrizzleService) {
+    super(drizzleService);
+  }
+
+  //#region ==================== RETURN OPERATIONS ====================
+
+  async createReturn(returnData: CreateReturnDto, tx?: DbTransaction): Promise<ReturnEntity> {
+    this.logger.log(`Creating ${returnData.return_type.toLowerCase()} return: ${returnData.return_number}`);
+
+    try {
+      const result = await (tx ?? this.db)
+        .insert(returns)
+        .values({
+          return_number: returnData.return_number,
+          return_type: returnData.return_type,
+          sales_invoice_id: returnData.sales_invoice_id || null,
+          purchase_order_id: returnData.purchase_order_id || null,
+          reason: returnData.reason,
+          refund_amount: returnData.refund_amount.toString(),
+          notes: returnData.notes || null,
+          created_by: returnData.created_by,
+          created_at: new Date(),
+        })
+        .returning();
+
+      this.logger.log(`Return created successfully: ${returnData.return_number} (ID: ${result[0].id})`);
+      return result[0] as ReturnEntity;
+    } catch (error) {
+      this.logger.error(`Failed to create return: ${returnData.return_number}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findReturnById(id: string, withDeleted = false): Promise<ReturnEntity | null> {
+    this.logger.log(`Finding return by ID: ${id}`);
+
+    const condition = withDeleted
+      ? eq(returns.id, id)
+      : and(eq(returns.id, id), isNull(returns.deleted_at));
+
+    return this.findOne(returns, condition);
+  }
+
+  async findReturnByReturnNumber(returnNumber: string): Promise<ReturnEntity | null> {
+    this.logger.log(`Finding return by return number: ${returnNumber}`);
+    return this.findOne(returns, eq(returns.return_number, returnNumber));
+  }
+
+  async findReturnWithDetails(id: string): Promise<ReturnWithDetails | null> {
+    this.logger.log(`Finding return with details: ${id}`);
+
+    try {
+      const returnRecord = await this.findReturnById(id);
+      if (!returnRecord) {
+        return null;
+      }
+
+      const items = await this.findReturnItems(id);
+
+      this.logger.log(`Return with details found: ${returnRecord.return_number} with ${items.length} items`);
+      return {
+        ...returnRecord,
+        items,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to find return with details: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== RETURN ITEM OPERATIONS ====================
+
+  async addReturnItem(itemData: CreateReturnItemDto, tx?: DbTransaction): Promise<ReturnItemEntity> {
+    this.logger.log(`Adding item to return: ${itemData.return_id}`);
+
+    try {
+      const result = await (tx ?? this.db)
+        .insert(returnItems)
+        .values({
+          return_id: itemData.return_id,
+          product_id: itemData.product_id,
+          sales_invoice_item_id: itemData.sales_invoice_item_id || null,
+          purchase_order_item_id: itemData.purchase_order_item_id || null,
+          quantity: itemData.quantity,
+          disposition: itemData.disposition,
+          reason: itemData.reason || null,
+          unit_amount: itemData.unit_amount.toString(),
+          total_amount: itemData.total_amount.toString(),
+          created_by: itemData.created_by,
+          created_at: new Date(),
+        })
+        .returning();
+
+      this.logger.log(`Return item added successfully: ${result[0].id}`);
+      return result[0] as ReturnItemEntity;
+    } catch (error) {
+      this.logger.error(`Failed to add return item`, error.stack);
+      throw error;
+    }
+  }
+
+  async findReturnItems(returnId: string): Promise<ReturnItemWithProduct[]> {
+    this.logger.log(`Finding items for return: ${returnId}`);
+
+    const itemsResult = await this.db
+      .select({
+        id: returnItems.id,
+        return_id: returnItems.return_id,
+        product_id: returnItems.product_id,
+        sales_invoice_item_id: returnItems.sales_invoice_item_id,
+        purchase_order_item_id: returnItems.purchase_order_item_id,
+        quantity: returnItems.quantity,
+        disposition: returnItems.disposition,
+        reason: returnItems.reason,
+        unit_amount: returnItems.unit_amount,
+        total_amount: returnItems.total_amount,
+        created_by: returnItems.created_by,
+        created_at: returnItems.created_at,
+        product_name: products.name,
+        product_sku: products.sku,
+      })
+      .from(returnItems)
+      .leftJoin(products, eq(returnItems.product_id, products.id))
+      .where(and(eq(returnItems.return_id, returnId), isNull(returnItems.deleted_at)))
+      .orderBy(returnItems.created_at);
+
+    return itemsResult.map(({ product_name, product_sku, ...item }) => ({
+      ...item,
+      product: {
+        id: item.product_id,
+        name: product_name || '',
+        sku: product_sku || '',
+      },
+    }));
+  }
+
+  //#region ==================== QUERY OPERATIONS ====================
+
+  async findAllReturns(filters: ReturnFilters = {}, page = 1, limit = 10): Promise<{
+    data: ReturnEntity[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    this.logger.log(`Finding all returns with filters:`, filters);
+
+    // Build where conditions
+    const conditions: any[] = [];
+
+    if (!filters.withDeleted) {
+      conditions.push(isNull(returns.deleted_at));
+    }
+
+    if (filters.return_type) {
+      conditions.push(eq(returns.return_type, filters.return_type));
+    }
+
+    if (filters.reason) {
+      conditions.push(eq(returns.reason, filters.reason));
+    }
+
+    if (filters.return_number) {
+      conditions.push(ilike(returns.return_number, `%${filters.return_number}%`));
+    }
+
+    if (filters.sales_invoice_id) {
+      conditions.push(eq(returns.sales_invoice_id, filters.sales_invoice_id));
+    }
+
+    if (filters.purchase_order_id) {
+      conditions.push(eq(returns.purchase_order_id, filters.purchase_order_id));
+    }
+
+    if (filters.date_from) {
+      conditions.push(gte(returns.created_at, filters.date_from));
+    }
+
+    if (filters.date_to) {
+      conditions.push(lte(returns.created_at, filters.date_to));
+    }
+
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+    // Get total count
+    const total = await this.count(returns, whereClause);
+
+    // Get paginated results
+    const offset = (page - 1) * limit;
+    const data = await this.db
+      .select()
+      .from(returns)
+      .where(whereClause)
+      .orderBy(desc(returns.created_at))
+      .limit(limit)
+      .offset(offset);
+
+    const totalPages = Math.ceil(total / limit);
+
+    this.logger.log(`Found ${data.length} returns out of ${total} total`);
+
+    return {
+      data: data as ReturnEntity[],
+      total,
+      page,
+      totalPages,
+    };
+  }
+}
@@ -0,0 +1,672 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { BaseRepository, DbTransaction } from './base.repository';
+import { salesInvoices } from '../schema/sales-invoices';
+import { salesInvoiceItems } from '../schema/sales-invoice-items';
+import { products } from '../schema/products';
+import { eq, and, isNull, ilike, desc, or, gte, lte } from 'drizzle-orm';
+import { DrizzleService } from '../drizzle.service';
+import { MESSAGES } from '../../../common/constants/string-const';
+
+export type PaymentStatus = 'PENDING' | 'PAID' | 'PARTIAL' | 'CANCELLED';
+
+export interface CreateSalesInvoiceDto {
+  invoice_number: string;
+  customer_id?: string | null;
+  customer_name?: string;
+  customer_email?: string;
+  customer_phone?: string;
+  subtotal: number;
+  tax_amount?: number;
+  discount_amount?: number;
+  coupon_code?: string | null;
+  total_amount: number;
+  payment_status: PaymentStatus;
+  created_by: string;
+}
+
+export interface UpdateSalesInvoiceDto {
+  customer_id?: string | null;
+  customer_name?: string;
+  customer_email?: string;
+  customer_phone?: string;
+  subtotal?: number;
+  tax_amount?: number;
+  discount_amount?: number;
+  coupon_code?: string | null;
+  total_amount?: number;
+  returned_amount?: number;
+  amount_paid?: number;
+  payment_status?: PaymentStatus;
+  updated_by: string;
+}
+
+export interface CreateSalesInvoiceItemDto {
+  sales_invoice_id: string;
+  product_id: string;
+  quantity: number;
+  unit_code?: string;
+  unit_factor?: number;
+  unit_price: number;
+  total_price: number;
+  tax_class_id?: string | null;
+  tax_rate?: number;
+  tax_inclusive?: boolean;
+  taxable_amount?: number;
+  tax_amount?: number;
+  promotion_id?: string | null;
+  discount_amount?: number; // Promotion discount, net of tax
+  created_by: string;
+}
+
+export interface UpdateSalesInvoiceItemDto {
+  quantity?: number;
+  quantity_returned?: number;
+  unit_price?: number;
+  total_price?: number;
+  taxable_amount?: number;
+  tax_amount?: number;
+  promotion_id?: string | null;
+  discount_amount?: number;
+  updated_by: string;
+}
+
+export interface SalesInvoiceEntity {
+  id: string;
+  invoice_number: string;
+  customer_id: string | null;
+  customer_name: string | null;
+  customer_email: string | null;
+  customer_phone: string | null;
+  subtotal: string;
+  tax_amount: string;
+  discount_amount: string;
+  coupon_code: string | null;
+  total_amount: string;
+  returned_amount: string;
+  amount_paid: string;
+  payment_status: PaymentStatus;
+  created_by: string;
+  created_at: Date;
+  updated_by: string | null;
+  updated_at: Date | null;
+  deleted_by: string | null;
+  deleted_at: Date | null;
+}
+
+export interface SalesInvoiceItemEntity {
+  id: string;
+  sales_invoice_id: string;
+  product_id: string;
+  quantity: number;
+  quantity_returned: number;
+  unit_code: string;
+  unit_factor: number;
+  unit_price: string;
+  total_price: string;
+  tax_class_id: string | null;
+  tax_rate: string;
+  tax_inclusive: boolean;
+  taxable_amount: string;
+  tax_amount: string;
+  promotion_id: string | null;
+  discount_amount: string;
+  cost_of_goods_sold: string;
+  created_by: string;
+  created_at: Date;
+  updated_by: string | null;
+  updated_at: Date | null;
+  deleted_by: string | null;
+  deleted_at: Date | null;
+}
+
+export interface SalesInvoiceItemWithProduct extends SalesInvoiceItemEntity {
+  product: {
+    id: string;
+    name: string;
+    sku: string;
+    barcode: string | null;
+    variant_options: Record<string, string> | null;
+    base_unit: string;
+  };
+}
+
+export interface SalesInvoiceWithDetails extends SalesInvoiceEntity {
+  items: SalesInvoiceItemWithProduct[];
+}
+
+export interface SalesInvoiceFilters {
+  payment_status?: PaymentStatus;
+  invoice_number?: string;
+  customer?: string;
+  customer_id?: string;
+  date_from?: Date;
+  date_to?: Date;
+  withDeleted?: boolean;
+}
+
+@Injectable()
+export class SalesInvoicesRepository extends BaseRepository<SalesInvoiceEntity> {
+  constructor(drizzleService: DrizzleService) {
+    super(drizzleService);
+  }
+
+  //#region ==================== SALES INVOICE OPERATIONS ====================
+
+  async createSalesInvoice(invoiceData: CreateSalesInvoiceDto, tx?: DbTransaction): Promise<SalesInvoiceEntity> {
+    this.logger.log(`Creating sales invoice: ${invoiceData.invoice_number}`);
+
+    try {
+      const result = await (tx ?? this.db)
+        .insert(salesInvoices)
+        .values({
+          invoice_number: invoiceData.invoice_number,
+          customer_id: invoiceData.customer_id ?? null,
+          customer_name: invoiceData.customer_name || null,
+          customer_email: invoiceData.customer_email || null,
+          customer_phone: invoiceData.customer_phone || null,
+          subtotal: invoiceData.subtotal.toString(),
+          tax_amount: (invoiceData.tax_amount ?? 0).toString(),
+          discount_amount: (invoiceData.discount_amount ?? 0).toString(),
+          coupon_code: invoiceData.coupon_code || null,
+          total_amount: invoiceData.total_amount.toString(),
+          payment_status: invoiceData.payment_status,
+          created_by: invoiceData.created_by,
+          created_at: new Date(),
+        })
+        .returning();
+
+      this.logger.log(`Sales invoice created successfully: ${invoiceData.invoice_number} (ID: ${result[0].id})`);
+      return result[0] as SalesInvoiceEntity;
+    } catch (error) {
+      this.logger.error(`Failed to create sales invoice: ${invoiceData.invoice_number}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findSalesInvoiceById(id: string, withDeleted = false, tx?: DbTransaction): Promise<SalesInvoiceEntity | null> {
+    this.logger.log(`Finding sales invoice by ID: ${id}`);
+
+    const condition = withDeleted
+      ? eq(salesInvoices.id, id)
+      : and(eq(salesInvoices.id, id), isNull(salesInvoices.deleted_at));
+
+    const result = await this.findOne(salesInvoices, condition, tx);
+    if (result) {
+      this.logger.log(`Sales invoice found: ${result.invoice_number} (ID: ${id})`);
+    } else {
+      this.logger.log(`Sales invoice not found with ID: ${id}`);
+    }
+    return result;
+  }
+
+  async findSalesInvoiceByIdOrThrow(id: string, withDeleted = false, tx?: DbTransaction): Promise<SalesInvoiceEntity> {
+    const condition = withDeleted
+      ? eq(salesInvoices.id, id)
+      : and(eq(salesInvoices.id, id), isNull(salesInvoices.deleted_at));
+
+    return super.findOneOrThrow(salesInvoices, condition, MESSAGES.SALES_INVOICE_NOT_FOUND, tx);
+  }
+
+  /**
+   * Locks the invoice row for the rest of the transaction, so edits to the same invoice
+   * (items, totals, payments) run one at a time
+   */
+  async lockSalesInvoice(id: string, tx: DbTransaction): Promise<SalesInvoiceEntity> {
+    this.logger.log(`Locking sales invoice: ${id}`);
+
+    const result = await tx
+      .select()
+      .from(salesInvoices)
+      .where(and(eq(salesInvoices.id, id), isNull(salesInvoices.deleted_at)))
+      .for('update');
+
+    if (!result.length) {
+      this.logger.warn(`Sales invoice not found for locking: ${id}`);
+      throw new NotFoundException(MESSAGES.SALES_INVOICE_NOT_FOUND);
+    }
+    return result[0] as SalesInvoiceEntity;
+  }
+
+  async findSalesInvoiceByInvoiceNumber(invoiceNumber: string, withDeleted = false): Promise<SalesInvoiceEntity | null> {
+    this.logger.log(`Finding sales invoice by invoice number: ${invoiceNumber}`);
+
+    const condition = withDeleted
+      ? eq(salesInvoices.invoice_number, invoiceNumber)
+      : and(eq(salesInvoices.invoice_number, invoiceNumber), isNull(salesInvoices.deleted_at));
+
+    const result = await this.findOne(salesInvoices, condition);
+    if (result) {
+      this.logger.log(`Sales invoice found: ${result.invoice_number}`);
+    } else {
+      this.logger.log(`Sales invoice not found with invoice number: ${invoiceNumber}`);
+    }
+    return result;
+  }
+
+  async findSalesInvoiceWithDetails(id: string, tx?: DbTransaction): Promise<SalesInvoiceWithDetails | null> {
+    this.logger.log(`Finding sales invoice with details: ${id}`);
+
+    try {
+      const invoice = await this.findSalesInvoiceById(id, false, tx);
+      if (!invoice) {
+        return null;
+      }
+
+      const items = await this.findSalesInvoiceItems(id, tx);
+
+      this.logger.log(`Sales invoice with details found: ${invoice.invoice_number} with ${items.length} items`);
+      return {
+        ...invoice,
+        items,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to find sales invoice with details: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  async updateSalesInvoice(id: string, updateData: UpdateSalesInvoiceDto, tx?: DbTransaction): Promise<SalesInvoiceEntity> {
+    this.logger.log(`Updating sales invoice: ${id}`);
+
+    // First verify invoice exists
+    await this.findSalesInvoiceByIdOrThrow(id, false, tx);
+
+    try {
+      const updateValues: any = {
+        ...updateData,
+        updated_at: new Date(),
+      };
+
+      // Handle numeric fields
+      if (updateData.subtotal !== undefined) {
+        updateValues.subtotal = updateData.subtotal.toString();
+      }
+      if (updateData.tax_amount !== undefined) {
+        updateValues.tax_amount = updateData.tax_amount.toString();
+      }
+      if (updateData.discount_amount !== undefined) {
+        updateValues.discount_amount = updateData.discount_amount.toString();
+      }
+      if (updateData.total_amount !== undefined) {
+        updateValues.total_amount = updateData.total_amount.toString();
+      }
+      if (updateData.returned_amount !== undefined) {
+        updateValues.returned_amount = updateData.returned_amount.toString();
+      }
+      if (updateData.amount_paid !== undefined) {
+        updateValues.amount_paid = updateData.amount_paid.toString();
+      }
+
+      const result = await (tx ?? this.db)
+        .update(salesInvoices)
+        .set(updateValues)
+        .where(and(eq(salesInvoices.id, id), isNull(salesInvoices.deleted_at)))
+        .returning();
+
+      if (!result.length) {
+        this.logger.error(`No sales invoice updated with ID: ${id}`);
+        throw new Error(MESSAGES.SALES_INVOICE_NOT_FOUND);
+      }
+
+      this.logger.log(`Sales invoice updated successfully: ${id}`);
+      return result[0] as SalesInvoiceEntity;
+    } catch (error) {
+      this.logger.error(`Failed to update sales invoice: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  async deleteSalesInvoice(id: string, deletedBy: string, tx?: DbTransaction): Promise<boolean> {
+    this.logger.log(`Soft deleting sales invoice: ${id}`);
+
+    // First verify invoice exists
+    await this.findSalesInvoiceByIdOrThrow(id, false, tx);
+
+    try {
+      const result = await (tx ?? this.db)
+        .update(salesInvoices)
+        .set({
+          deleted_by: deletedBy,
+          deleted_at: new Date(),
+          updated_by: deletedBy,
+          updated_at: new Date(),
+        })
+        .where(and(eq(salesInvoices.id, id), isNull(salesInvoices.deleted_at)))
+        .returning();
+
+      const success = result.length > 0;
+      if (success) {
+        this.logger.log(`Sales invoice soft deleted successfully: ${id}`);
+      } else {
+        this.logger.error(`Failed to soft delete sales invoice: ${id}`);
+      }
+      return success;
+    } catch (error) {
+      this.logger.error(`Failed to soft delete sales invoice: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== SALES INVOICE ITEM OPERATIONS ====================
+
+  async addSalesInvoiceItem(itemData: CreateSalesInvoiceItemDto, tx?: DbTransaction): Promise<SalesInvoiceItemEntity> {
+    this.logger.log(`Adding item to sales invoice: ${itemData.sales_invoice_id}`);
+
+    try {
+      const result = await (tx ?? this.db)
+        .insert(salesInvoiceItems)
+        .values({
+          sales_invoice_id: itemData.sales_invoice_id,
+          product_id: itemData.product_id,
+          quantity: itemData.quantity,
+          unit_code: itemData.unit_code ?? 'EA',
+          unit_factor: itemData.unit_factor ?? 1,
+          unit_price: itemData.unit_price.toString(),
+          total_price: itemData.total_price.toString(),
+          tax_class_id: itemData.tax_class_id ?? null,
+          tax_rate: (itemData.tax_rate ?? 0).toString(),
+          tax_inclusive: itemData.tax_inclusive ?? false,
+          taxable_amount: (itemData.taxable_amount ?? itemData.total_price).toString(),
+          tax_amount: (itemData.tax_amount ?? 0).toString(),
+          promotion_id: itemData.promotion_id ?? null,
+          discount_amount: (itemData.discount_amount ?? 0).toString(),
+          created_by: itemData.created_by,
+          created_at: new Date(),
+        })
+        .returning();
+
+      this.logger.log(`Sales invoice item added successfully: ${result[0].id}`);
+      return result[0] as SalesInvoiceItemEntity;
+    } catch (error) {
+      this.logger.error(`Failed to add sales invoice item`, error.stack);
+      throw error;
+    }
+  }
+
+  async findSalesInvoiceItemById(itemId: string, tx?: DbTransaction): Promise<SalesInvoiceItemEntity | null> {
+    this.logger.log(`Finding sales invoice item by ID: ${itemId}`);
+
+    const result = await (tx ?? this.db)
+      .select()
+      .from(salesInvoiceItems)
+      .where(and(eq(salesInvoiceItems.id, itemId), isNull(salesInvoiceItems.deleted_at)))
+      .limit(1);
+
+    return result.length ? (result[0] as SalesInvoiceItemEntity) : null;
+  }
+
+  /**
+   * Locks the invoice's item rows for the rest of the transaction, in ID order
+   */
+  async lockSalesInvoiceItems(invoiceId: string, tx: DbTransaction): Promise<SalesInvoiceItemEntity[]> {
+    this.logger.log(`Locking items of sales invoice: ${invoiceId}`);
+
+    const result = await tx
+      .select()
+      .from(salesInvoiceItems)
+      .where(and(
+        eq(salesInvoiceItems.sales_invoice_id, invoiceId),
+        isNull(salesInvoiceItems.deleted_at)
+      ))
+      .orderBy(salesInvoiceItems.id)
+      .for('update');
+
+    return result as SalesInvoiceItemEntity[];
+  }
+
+  async findSalesInvoiceItems(invoiceId: string, tx?: DbTransaction): Promise<SalesInvoiceItemWithProduct[]> {
+    this.logger.log(`Finding items for sales invoice: ${invoiceId}`);
+
+    const itemsResult = await (tx ?? this.db)
+      .select({
+        // Sales invoice item fields
+        id: salesInvoiceItems.id,
+        sales_invoice_id: salesInvoiceItems.sales_invoice_id,
+        product_id: salesInvoiceItems.product_id,
+        quantity: salesInvoiceItems.quantity,
+        quantity_returned: salesInvoiceItems.quantity_returned,
+        unit_code: salesInvoiceItems.unit_code,
+        unit_factor: salesInvoiceItems.unit_factor,
+        unit_price: salesInvoiceItems.unit_price,
+        total_price: salesInvoiceItems.total_price,
+        tax_class_id: salesInvoiceItems.tax_class_id,
+        tax_rate: salesInvoiceItems.tax_rate,
+        tax_inclusive: salesInvoiceItems.tax_inclusive,
+        taxable_amount: salesInvoiceItems.taxable_amount,
+        tax_amount: salesInvoiceItems.tax_amount,
+        promotion_id: salesInvoiceItems.promotion_id,
+        discount_amount: salesInvoiceItems.discount_amount,
+        cost_of_goods_sold: salesInvoiceItems.cost_of_goods_sold,
+        created_by: salesInvoiceItems.created_by,
+        created_at: salesInvoiceItems.created_at,
+        updated_by: salesInvoiceItems.updated_by,
+        updated_at: salesInvoiceItems.updated_at,
+        deleted_by: salesInvoiceItems.deleted_by,
+        deleted_at: salesInvoiceItems.deleted_at,
+        // Product fields
+        product_name: products.name,
+        product_sku: products.sku,
+        product_barcode: products.barcode,
+        product_variant_options: products.variant_options,
+        product_base_unit: products.base_unit,
+      })
+      .from(salesInvoiceItems)
+      .leftJoin(products, eq(salesInvoiceItems.product_id, products.id))
+      .where(and(
+        eq(salesInvoiceItems.sales_invoice_id, invoiceId),
+        isNull(salesInvoiceItems.deleted_at)
+      ))
+      .orderBy(salesInvoiceItems.created_at);
+
+    return itemsResult.map(item => ({
+      id: item.id,
+      sales_invoice_id: item.sales_invoice_id,
+      product_id: item.product_id,
+      quantity: item.quantity,
+      quantity_returned: item.quantity_returned,
+      unit_code: item.unit_code,
+      unit_factor: item.unit_factor,
+      unit_price: item.unit_price || '0',
+      total_price: item.total_price || '0',
+      tax_class_id: item.tax_class_id,
+      tax_rate: item.tax_rate || '0',
+      tax_inclusive: item.tax_inclusive,
+      taxable_amount: item.taxable_amount || '0',
+      tax_amount: item.tax_amount || '0',
+      promotion_id: item.promotion_id,
+      discount_amount: item.discount_amount || '0',
+      cost_of_goods_sold: item.cost_of_goods_sold || '0',
+      created_by: item.created_by,
+      created_at: item.created_at,
+      updated_by: item.updated_by,
+      updated_at: item.updated_at,
+      deleted_by: item.deleted_by,
+      deleted_at: item.deleted_at,
+      product: {
+        id: item.product_id,
+        name: item.product_name || '',
+        sku: item.product_sku || '',
+        barcode: item.product_barcode,
+        variant_options: item.product_variant_options ?? null,
+        base_unit: item.product_base_unit || 'EA',
+      },
+    }));
+  }
+
+  async updateSalesInvoiceItem(itemId: string, updateData: UpdateSalesInvoiceItemDto, tx?: DbTransaction): Promise<SalesInvoiceItemEntity> {
+    this.logger.log(`Updating sales invoice item: ${itemId}`);
+
+    try {
+      const updateValues: any = {
+        ...updateData,
+        updated_at: new Date(),
+      };
+
+      // Handle numeric fields
+      if (updateData.unit_price !== undefined) {
+        updateValues.unit_price = updateData.unit_price.toString();
+      }
+      if (updateData.total_price !== undefined) {
+        updateValues.total_price = updateData.total_price.toString();
+      }
+      if (updateData.taxable_amount !== undefined) {
+        updateValues.taxable_amount = updateData.taxable_amount.toString();
+      }
+      if (updateData.tax_amount !== undefined) {
+        updateValues.tax_amount = updateData.tax_amount.toString();
+      }
+      if (updateData.discount_amount !== undefined) {
+        updateValues.discount_amount = updateData.discount_amount.toString();
+      }
+
+      const result = await (tx ?? this.db)
+        .update(salesInvoiceItems)
+        .set(updateValues)
+        .where(and(eq(salesInvoiceItems.id, itemId), isNull(salesInvoiceItems.deleted_at)))
+        .returning();
+
+      if (!result.length) {
+        this.logger.error(`No sales invoice item updated with ID: ${itemId}`);
+        throw new Error(MESSAGES.SALES_INVOICE_ITEM_NOT_FOUND);
+      }
+
+      this.logger.log(`Sales invoice item updated successfully: ${itemId}`);
+      return result[0] as SalesInvoiceItemEntity;
+    } catch (error) {
+      this.logger.error(`Failed to update sales invoice item: ${itemId}`, error.stack);
+      throw error;
+    }
+  }
+
+  async deleteSalesInvoiceItem(itemId: string, deletedBy: string, tx?: DbTransaction): Promise<boolean> {
+    this.logger.log(`Soft deleting sales invoice item: ${itemId}`);
+
+    try {
+      const result = await (tx ?? this.db)
+        .update(salesInvoiceItems)
+        .set({
+          deleted_by: deletedBy,
+          deleted_at: new Date(),
+          updated_by: deletedBy,
+          updated_at: new Date(),
+        })
+        .where(and(eq(salesInvoiceItems.id, itemId), isNull(salesInvoiceItems.deleted_at)))
+        .returning();
+
+      const success = result.length > 0;
+      if (success) {
+        this.logger.log(`Sales invoice item soft deleted successfully: ${itemId}`);
+      } else {
+        this.logger.error(`Failed to soft delete sales invoice item: ${itemId}`);
+      }
+      return success;
+    } catch (error) {
+      this.logger.error(`Failed to soft delete sales invoice item: ${itemId}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== QUERY OPERATIONS ====================
+
+  async findAllSalesInvoices(filters: SalesInvoiceFilters = {}, page = 1, limit = 10): Promise<{
+    data: SalesInvoiceEntity[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    this.logger.log(`Finding all sales invoices with filters:`, filters);
+
+    // Build where conditions
+    const conditions: any[] = [];
+
+    if (!filters.withDeleted) {
+      conditions.push(isNull(salesInvoices.deleted_at));
+    }
+
+    if (filters.payment_status) {
+      conditions.push(eq(salesInvoices.payment_status, filters.payment_status));
+    }
+
+    if (filters.invoice_number) {
+      conditions.push(ilike(salesInvoices.invoice_number, `%${filters.invoice_number}%`));
+    }
+
+    if (filters.customer) {
+      conditions.push(or(
+        ilike(salesInvoices.customer_name, `%${filters.customer}%`),
+        ilike(salesInvoices.customer_email, `%${filters.customer}%`),
+        ilike(salesInvoices.customer_phone, `%${filters.customer}%`)
+      ));
+    }
+
+    if (filters.customer_id) {
+      conditions.push(eq(salesInvoices.customer_id, filters.customer_id));
+    }
+
+    if (filters.date_from) {
+      conditions.push(gte(salesInvoices.created_at, filters.date_from));
+    }
+
+    if (filters.date_to) {
+      conditions.push(lte(salesInvoices.created_at, filters.date_to));
+    }
+
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+    // Get total count
+    const total = await this.count(salesInvoices, whereClause);
+
+    // Get paginated results
+    const offset = (page - 1) * limit;
+    const data = await this.db
+      .select()
+      .from(salesInvoices)
+      .where(whereClause)
+      .orderBy(desc(salesInvoices.created_at))
+      .limit(limit)
+      .offset(offset);
+
+    const totalPages = Math.ceil(total / limit);
+
+    this.logger.log(`Found ${data.length} sales invoices out of ${total} total`);
+
+    return {
+      data: data as SalesInvoiceEntity[],
+      total,
+      page,
+      totalPages,
+    };
+  }
+
+  async getSalesInvoiceStats(): Promise<{
+    total: number;
+    pending: number;
+    paid: number;
+    partial: number;
+    cancelled: number;
+  }> {
+    this.logger.log('Getting sales invoice statistics');
+
+    const countByStatus = (status: PaymentStatus) => this.count(salesInvoices, and(
+      eq(salesInvoices.payment_status, status),
+      isNull(salesInvoices.deleted_at)
+    ));
+
+    const total = await this.count(salesInvoices, isNull(salesInvoices.deleted_at));
+    const pending = await countByStatus('PENDING');
+    const paid = await countByStatus('PAID');
+    const partial = await countByStatus('PARTIAL');
+    const cancelled = await countByStatus('CANCELLED');
+
+    const stats = {
+      total,
+      pending,
+      paid,
+      partial,
+      cancelled,
+    };
+
+    this.logger.log('Sales invoice statistics:', stats);
+    return stats;
+  }
+}
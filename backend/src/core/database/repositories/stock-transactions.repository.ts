@@ -3,7 +3,7 @@ import { BaseRepository } from './base.repository';
 import { stockTransactions } from '../schema/stock-transactions';
 import { stock } from '../schema/stock';
 import { products } from '../schema/products';
-import { eq, and, isNull, desc, asc, gte, lte, between, sql } from 'drizzle-orm';
+import { eq, and, isNull, desc, asc, gte, lte, between, sql, count, SQL } from 'drizzle-orm';
 import { DrizzleService } from '../drizzle.service';
 
 export enum StockTransactionType {
@@ -17,10 +17,13 @@ export enum StockReferenceType {
   SALE = 'SALE',
   ADJUSTMENT = 'ADJUSTMENT',
   RETURN = 'RETURN',
+  TRANSFER = 'TRANSFER',
+  RESERVATION = 'RESERVATION',
 }
 
 export interface CreateStockTransactionDto {
   product_id: string;
+  location_id?: string;
   transaction_type: StockTransactionType;
   quantity: number;
   reference_type: StockReferenceType;
@@ -32,6 +35,7 @@ export interface CreateStockTransactionDto {
 export interface StockTransactionEntity {
   id: string;
   product_id: string;
+  location_id: string | null;
   transaction_type: StockTransactionType;
   quantity: number;
   reference_id: string | null;
@@ -56,6 +60,7 @@ export interface StockTransactionWithProduct extends StockTransactionEntity {
 
 export interface StockTransactionFilters {
   product_id?: string;
+  location_id?: string;
   transaction_type?: StockTransactionType;
   reference_id?: string;
   reference_type?: StockReferenceType;
@@ -64,11 +69,27 @@ export interface StockTransactionFilters {
   date_to?: Date;
 }
 
+export type StockTransactionSortField = 'created_at' | 'quantity' | 'product_name';
+
 export interface StockTransactionPaginationOptions {
   page?: number;
   limit?: number;
-  sortBy?: string;
-  sortOrder?: 'desc';
+  sortBy?: StockTransactionSortField;
+  sortOrder?: 'asc' | 'desc';
+}
+
+/**
+ * Position in the ledger after which the next page starts. `created_at` is kept as the
+ * text Postgres returned so microsecond precision survives the round trip.
+ */
+export interface StockTransactionCursor {
+  created_at: string;
+  id: string;
+}
+
+export interface StockTransactionCursorPage {
+  data: StockTransactionWithProduct[];
+  next_cursor: StockTransactionCursor | null;
 }
 
 export interface StockTransactionSummary {
@@ -95,6 +116,7 @@ export class StockTransactionsRepository extends BaseRepository<StockTransaction
     try {
       const result = await this.db.insert(stockTransactions).values({
         product_id: transactionData.product_id,
+        location_id: transactionData.location_id || null,
         transaction_type: transactionData.transaction_type,
         quantity: transactionData.quantity,
         reference_type: transactionData.reference_type,
@@ -154,6 +176,7 @@ export class StockTransactionsRepository extends BaseRepository<StockTransaction
         .select({
           id: stockTransactions.id,
           product_id: stockTransactions.product_id,
+          location_id: stockTransactions.location_id,
           transaction_type: stockTransactions.transaction_type,
           quantity: stockTransactions.quantity,
           reference_id: stockTransactions.reference_id,
@@ -175,7 +198,7 @@ export class StockTransactionsRepository extends BaseRepository<StockTransaction
         .from(stockTransactions)
         .leftJoin(products, eq(stockTransactions.product_id, products.id))
         .where(eq(stockTransactions.product_id, productId))
-        .orderBy(desc(stockTransactions.created_at))
+        .orderBy(...this.buildOrderBy(pagination))
         .limit(limit)
         .offset(offset);
 
@@ -198,37 +221,13 @@ export class StockTransactionsRepository extends BaseRepository<StockTransaction
       const limit = pagination?.limit || 50;
       const offset = (page - 1) * limit;
 
-      let whereConditions: any[] = [];
-
-      if (filters.product_id) {
-        whereConditions.push(eq(stockTransactions.product_id, filters.product_id));
-      }
-      if (filters.transaction_type) {
-        whereConditions.push(eq(stockTransactions.transaction_type, filters.transaction_type as any));
-      }
-      if (filters.reference_id) {
-        whereConditions.push(eq(stockTransactions.reference_id, filters.reference_id));
-      }
-      if (filters.reference_type) {
-        whereConditions.push(eq(stockTransactions.reference_type, filters.reference_type as any));
-      }
-      if (filters.created_by) {
-        whereConditions.push(eq(stockTransactions.created_by, filters.created_by));
-      }
-      if (filters.date_from && filters.date_to) {
-        whereConditions.push(between(stockTransactions.created_at, filters.date_from, filters.date_to));
-      } else if (filters.date_from) {
-        whereConditions.push(gte(stockTransactions.created_at, filters.date_from));
-      } else if (filters.date_to) {
-        whereConditions.push(lte(stockTransactions.created_at, filters.date_to));
-      }
-
-      const whereCondition = whereConditions.length > 0 ? and(...whereConditions) : undefined;
+      const whereCondition = this.buildFilterCondition(filters);
 
       const result = await this.db
         .select({
           id: stockTransactions.id,
           product_id: stockTransactions.product_id,
+          location_id: stockTransactions.location_id,
           transaction_type: stockTransactions.transaction_type,
           quantity: stockTransactions.quantity,
           reference_id: stockTransactions.reference_id,
@@ -250,7 +249,7 @@ export class StockTransactionsRepository extends BaseRepository<StockTransaction
         .from(stockTransactions)
         .leftJoin(products, eq(stockTransactions.product_id, products.id))
         .where(whereCondition)
-        .orderBy(desc(stockTransactions.created_at))
+        .orderBy(...this.buildOrderBy(pagination))
         .limit(limit)
         .offset(offset);
 
@@ -280,6 +279,7 @@ export class StockTransactionsRepository extends BaseRepository<StockTransaction
         .select({
           id: stockTransactions.id,
           product_id: stockTransactions.product_id,
+          location_id: stockTransactions.location_id,
           transaction_type: stockTransactions.transaction_type,
           quantity: stockTransactions.quantity,
           reference_id: stockTransactions.reference_id,
@@ -411,43 +411,93 @@ export class StockTransactionsRepository extends BaseRepository<StockTransaction
     this.logger.log('Counting stock transactions');
     
     try {
-      let whereConditions: any[] = [];
+      const whereCondition = this.buildFilterCondition(filters ?? {});
 
-      if (filters?.product_id) {
-        whereConditions.push(eq(stockTransactions.product_id, filters.product_id));
-      }
-      if (filters?.transaction_type) {
-        whereConditions.push(eq(stockTransactions.transaction_type, filters.transaction_type));
-      }
-      if (filters?.reference_id) {
-        whereConditions.push(eq(stockTransactions.reference_id, filters.reference_id));
-      }
-      if (filters?.reference_type) {
-        whereConditions.push(eq(stockTransactions.reference_type, filters.reference_type));
-      }
-      if (filters?.created_by) {
-        whereConditions.push(eq(stockTransactions.created_by, filters.created_by));
+      const result = await this.db
+        .select({ count: count() })
+        .from(stockTransactions)
+        .where(whereCondition);
+
+      const total = result[0]?.count || 0;
+      this.logger.log(`Counted ${total} stock transactions`);
+      return total;
+    } catch (error) {
+      this.logger.error('Error counting stock transactions', error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== LEDGER PAGINATION ====================
+
+  /**
+   * Keyset pagination over the ledger ordered by (created_at, id). Unlike OFFSET this stays
+   * cheap on deep pages and does not skip or repeat rows while new movements are recorded.
+   */
+  async findPageByCursor(
+    filters: StockTransactionFilters,
+    cursor: StockTransactionCursor | null,
+    limit = 50,
+    sortOrder: 'asc' | 'desc' = 'desc'
+  ): Promise<StockTransactionCursorPage> {
+    this.logger.log(`Finding stock ledger page${cursor ? ` after transaction: ${cursor.id}` : ''}`);
+
+    try {
+      const conditions: SQL[] = [];
+      const filterCondition = this.buildFilterCondition(filters);
+      if (filterCondition) {
+        conditions.push(filterCondition);
       }
-      if (filters?.date_from && filters?.date_to) {
-        whereConditions.push(between(stockTransactions.created_at, filters.date_from, filters.date_to));
-      } else if (filters?.date_from) {
-        whereConditions.push(gte(stockTransactions.created_at, filters.date_from));
-      } else if (filters?.date_to) {
-        whereConditions.push(lte(stockTransactions.created_at, filters.date_to));
+      if (cursor) {
+        conditions.push(sortOrder === 'asc'
+          ? sql`(${stockTransactions.created_at}, ${stockTransactions.id}) > (${cursor.created_at}::timestamp, ${cursor.id}::uuid)`
+          : sql`(${stockTransactions.created_at}, ${stockTransactions.id}) < (${cursor.created_at}::timestamp, ${cursor.id}::uuid)`);
       }
 
-      const whereCondition = whereConditions.length > 0 ? and(...whereConditions) : undefined;
+      const direction = sortOrder === 'asc' ? asc : desc;
 
-      const result = await this.db
-        .select({ count: sql<number>`COUNT(*)` })
+      // Fetch one extra row to learn whether another page follows
+      const rows = await this.db
+        .select({
+          id: stockTransactions.id,
+          product_id: stockTransactions.product_id,
+          location_id: stockTransactions.location_id,
+          transaction_type: stockTransactions.transaction_type,
+          quantity: stockTransactions.quantity,
+          reference_id: stockTransactions.reference_id,
+          reference_type: stockTransactions.reference_type,
+          notes: stockTransactions.notes,
+          created_by: stockTransactions.created_by,
+          created_at: stockTransactions.created_at,
+          updated_by: stockTransactions.updated_by,
+          updated_at: stockTransactions.updated_at,
+          deleted_by: stockTransactions.deleted_by,
+          deleted_at: stockTransactions.deleted_at,
+          cursor_created_at: sql<string>`${stockTransactions.created_at}::text`,
+          product: {
+            id: products.id,
+            name: products.name,
+            sku: products.sku,
+            barcode: products.barcode,
+          },
+        })
         .from(stockTransactions)
-        .where(whereCondition);
+        .leftJoin(products, eq(stockTransactions.product_id, products.id))
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(direction(stockTransactions.created_at), direction(stockTransactions.id))
+        .limit(limit + 1);
+
+      const hasMore = rows.length > limit;
+      const page = hasMore ? rows.slice(0, limit) : rows;
+      const last = page[page.length - 1];
+
+      // The cursor column is only needed for next_cursor, not in the returned entries
+      const data = page.map(({ cursor_created_at, ...entry }) => entry) as StockTransactionWithProduct[];
+      const next_cursor = hasMore && last ? { created_at: last.cursor_created_at, id: last.id } : null;
 
-      const count = result[0]?.count || 0;
-      this.logger.log(`Counted ${count} stock transactions`);
-      return count;
+      this.logger.log(`Found ${data.length} stock ledger entries${hasMore ? ', more available' : ''}`);
+      return { data, next_cursor };
     } catch (error) {
-      this.logger.error('Error counting stock transactions', error.stack);
+      this.logger.error('Error finding stock ledger page', error.stack);
       throw error;
     }
   }
@@ -501,4 +551,52 @@ export class StockTransactionsRepository extends BaseRepository<StockTransaction
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  private buildFilterCondition(filters: StockTransactionFilters): SQL | undefined {
+    const conditions: SQL[] = [];
+
+    if (filters.product_id) {
+      conditions.push(eq(stockTransactions.product_id, filters.product_id));
+    }
+    if (filters.location_id) {
+      conditions.push(eq(stockTransactions.location_id, filters.location_id));
+    }
+    if (filters.transaction_type) {
+      conditions.push(eq(stockTransactions.transaction_type, filters.transaction_type));
+    }
+    if (filters.reference_id) {
+      conditions.push(eq(stockTransactions.reference_id, filters.reference_id));
+    }
+    if (filters.reference_type) {
+      conditions.push(eq(stockTransactions.reference_type, filters.reference_type));
+    }
+    if (filters.created_by) {
+      conditions.push(eq(stockTransactions.created_by, filters.created_by));
+    }
+    if (filters.date_from && filters.date_to) {
+      conditions.push(between(stockTransactions.created_at, filters.date_from, filters.date_to));
+    } else if (filters.date_from) {
+      conditions.push(gte(stockTransactions.created_at, filters.date_from));
+    } else if (filters.date_to) {
+      conditions.push(lte(stockTransactions.created_at, filters.date_to));
+    }
+
+    return conditions.length > 0 ? and(...conditions) : undefined;
+  }
+
+  /**
+   * Id breaks ties so rows sharing a timestamp or quantity page deterministically
+   */
+  private buildOrderBy(pagination?: StockTransactionPaginationOptions): SQL[] {
+    const direction = pagination?.sortOrder === 'asc' ? asc : desc;
+
+    switch (pagination?.sortBy) {
+      case 'quantity':
+        return [direction(stockTransactions.quantity), direction(stockTransactions.id)];
+      case 'product_name':
+        return [direction(products.name), desc(stockTransactions.created_at), direction(stockTransactions.id)];
+      default:
+        return [direction(stockTransactions.created_at), direction(stockTransactions.id)];
+    }
+  }
+}
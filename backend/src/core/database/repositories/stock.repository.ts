@@ -1,14 +1,19 @@
-import { Injectable } from '@nestjs/common';
-import { BaseRepository } from './base.repository';
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { BaseRepository, DbTransaction } from './base.repository';
 import { stock } from '../schema/stock';
 import { stockTransactions } from '../schema/stock-transactions';
+import { stockTransfers } from '../schema/stock-transfers';
+import { stockReservations } from '../schema/stock-reservations';
 import { products } from '../schema/products';
-import { eq, and, isNull, desc, asc, sum, sql } from 'drizzle-orm';
+import { locations } from '../schema/locations';
+import { eq, and, or, isNull, desc, asc, lte, gt, ilike, sql, count, SQL } from 'drizzle-orm';
 import { DrizzleService } from '../drizzle.service';
 import { MESSAGES } from '../../../common/constants/string-const';
+import { StockTransactionEntity, StockTransactionType, StockReferenceType } from './stock-transactions.repository';
 
 export interface CreateStockDto {
   product_id: string;
+  location_id: string;
   quantity_available: number;
   quantity_reserved?: number;
   created_by: string;
@@ -23,6 +28,7 @@ export interface UpdateStockDto {
 export interface StockEntity {
   id: string;
   product_id: string;
+  location_id: string;
   quantity_available: number;
   quantity_reserved: number;
   created_by: string;
@@ -41,6 +47,133 @@ export interface StockWithProduct extends StockEntity {
     barcode: string | null;
     minimum_stock_level: number;
   } | null;
+  location?: {
+    id: string;
+    name: string;
+    code: string;
+  } | null;
+}
+
+export interface StockMovementDto {
+  product_id: string;
+  location_id: string;
+  available_change: number;
+  reserved_change?: number;
+  transaction_type: StockTransactionType;
+  quantity: number;
+  reference_type: StockReferenceType;
+  reference_id?: string;
+  notes?: string;
+  user_id: string;
+  create_if_missing?: boolean;
+}
+
+export interface StockMovementResult {
+  stock: StockEntity;
+  transaction: StockTransactionEntity;
+}
+
+export interface StockQuantitiesResult {
+  stock: StockEntity;
+  available_change: number; // New available quantity less the locked previous one
+}
+
+export interface StockTransferDto {
+  product_id: string;
+  from_location_id: string;
+  to_location_id: string;
+  quantity: number;
+  notes?: string;
+  user_id: string;
+}
+
+export interface StockTransferEntity {
+  id: string;
+  product_id: string;
+  from_location_id: string;
+  to_location_id: string;
+  quantity: number;
+  notes: string | null;
+  created_by: string;
+  created_at: Date;
+  updated_by: string | null;
+  updated_at: Date | null;
+  deleted_by: string | null;
+  deleted_at: Date | null;
+}
+
+export interface StockTransferResult {
+  transfer: StockTransferEntity;
+  from_stock: StockEntity;
+  to_stock: StockEntity;
+}
+
+export interface StockTransferFilters {
+  product_id?: string;
+  location_id?: string;
+}
+
+export type StockReservationStatus = 'ACTIVE' | 'RELEASED' | 'CANCELLED' | 'EXPIRED';
+
+export interface CreateStockReservationDto {
+  product_id: string;
+  location_id: string;
+  owner_id: string;
+  quantity: number;
+  reference_type?: StockReferenceType;
+  reference_id?: string;
+  expires_at?: Date;
+  notes?: string;
+  user_id: string;
+}
+
+export interface StockReservationEntity {
+  id: string;
+  product_id: string;
+  location_id: string;
+  owner_id: string;
+  quantity: number;
+  status: StockReservationStatus;
+  reference_type: StockReferenceType | null;
+  reference_id: string | null;
+  expires_at: Date | null;
+  released_at: Date | null;
+  notes: string | null;
+  created_by: string;
+  created_at: Date;
+  updated_by: string | null;
+  updated_at: Date | null;
+  deleted_by: string | null;
+  deleted_at: Date | null;
+}
+
+export interface StockReservationResult {
+  reservation: StockReservationEntity;
+  stock: StockEntity;
+}
+
+export interface StockReservationFilters {
+  product_id?: string;
+  location_id?: string;
+  owner_id?: string;
+  status?: StockReservationStatus;
+}
+
+export type StockSortField = 'product_name' | 'quantity_available' | 'quantity_reserved' | 'updated_at';
+
+export interface StockListFilters {
+  product_id?: string;
+  location_id?: string;
+  category_id?: string;
+  search?: string;
+  low_stock?: boolean;
+}
+
+export interface StockListOptions {
+  page?: number;
+  limit?: number;
+  sortBy?: StockSortField;
+  sortOrder?: 'asc' | 'desc';
 }
 
 export interface StockSummary {
@@ -63,11 +196,12 @@ export class StockRepository extends BaseRepository<StockEntity> {
   //#region ==================== CRUD OPERATIONS ====================
 
   async create(stockData: CreateStockDto): Promise<StockEntity> {
-    this.logger.log(`Creating stock record for product: ${stockData.product_id}`);
+    this.logger.log(`Creating stock record for product: ${stockData.product_id} at location: ${stockData.location_id}`);
     
     try {
       const result = await this.db.insert(stock).values({
         product_id: stockData.product_id,
+        location_id: stockData.location_id,
         quantity_available: stockData.quantity_available,
         quantity_reserved: stockData.quantity_reserved || 0,
         created_by: stockData.created_by,
@@ -82,13 +216,13 @@ export class StockRepository extends BaseRepository<StockEntity> {
     }
   }
 
-  async findByProductId(productId: string, withDeleted = false): Promise<StockEntity | null> {
-    this.logger.log(`Finding stock by product ID: ${productId}`);
+  async findByProductId(productId: string, locationId: string, withDeleted = false): Promise<StockEntity | null> {
+    this.logger.log(`Finding stock by product ID: ${productId} at location: ${locationId}`);
     
     try {
       const whereCondition = withDeleted 
-        ? eq(stock.product_id, productId)
-        : and(eq(stock.product_id, productId), isNull(stock.deleted_at));
+        ? and(eq(stock.product_id, productId), eq(stock.location_id, locationId))
+        : and(eq(stock.product_id, productId), eq(stock.location_id, locationId), isNull(stock.deleted_at));
 
       const result = await this.db.select().from(stock).where(whereCondition).limit(1);
       
@@ -101,26 +235,27 @@ export class StockRepository extends BaseRepository<StockEntity> {
     }
   }
 
-  async findByProductIdOrThrow(productId: string, withDeleted = false): Promise<StockEntity> {
-    const stockRecord = await this.findByProductId(productId, withDeleted);
+  async findByProductIdOrThrow(productId: string, locationId: string, withDeleted = false): Promise<StockEntity> {
+    const stockRecord = await this.findByProductId(productId, locationId, withDeleted);
     if (!stockRecord) {
       throw new Error(`Stock record not found for product: ${productId}`);
     }
     return stockRecord;
   }
 
-  async findByProductIdWithProduct(productId: string, withDeleted = false): Promise<StockWithProduct | null> {
-    this.logger.log(`Finding stock with product details for product: ${productId}`);
+  async findByProductIdWithProduct(productId: string, locationId: string, withDeleted = false): Promise<StockWithProduct | null> {
+    this.logger.log(`Finding stock with product details for product: ${productId} at location: ${locationId}`);
     
     try {
       const whereCondition = withDeleted 
-        ? eq(stock.product_id, productId)
-        : and(eq(stock.product_id, productId), isNull(stock.deleted_at));
+        ? and(eq(stock.product_id, productId), eq(stock.location_id, locationId))
+        : and(eq(stock.product_id, productId), eq(stock.location_id, locationId), isNull(stock.deleted_at));
 
       const result = await this.db
         .select({
           id: stock.id,
           product_id: stock.product_id,
+          location_id: stock.location_id,
           quantity_available: stock.quantity_available,
           quantity_reserved: stock.quantity_reserved,
           created_by: stock.created_by,
@@ -136,9 +271,15 @@ export class StockRepository extends BaseRepository<StockEntity> {
             barcode: products.barcode,
             minimum_stock_level: products.minimum_stock_level,
           },
+          location: {
+            id: locations.id,
+            name: locations.name,
+            code: locations.code,
+          },
         })
         .from(stock)
         .leftJoin(products, eq(stock.product_id, products.id))
+        .leftJoin(locations, eq(stock.location_id, locations.id))
         .where(whereCondition)
         .limit(1);
 
@@ -151,16 +292,24 @@ export class StockRepository extends BaseRepository<StockEntity> {
     }
   }
 
-  async findAll(withDeleted = false): Promise<StockWithProduct[]> {
-    this.logger.log('Finding all stock records');
+  async findAll(withDeleted = false, locationId?: string): Promise<StockWithProduct[]> {
+    this.logger.log(`Finding all stock records${locationId ? ` at location: ${locationId}` : ''}`);
     
     try {
-      const whereCondition = withDeleted ? undefined : isNull(stock.deleted_at);
+      const conditions: any[] = [];
+      if (!withDeleted) {
+        conditions.push(isNull(stock.deleted_at));
+      }
+      if (locationId) {
+        conditions.push(eq(stock.location_id, locationId));
+      }
+      const whereCondition = conditions.length > 0 ? and(...conditions) : undefined;
 
       const result = await this.db
         .select({
           id: stock.id,
           product_id: stock.product_id,
+          location_id: stock.location_id,
           quantity_available: stock.quantity_available,
           quantity_reserved: stock.quantity_reserved,
           created_by: stock.created_by,
@@ -176,9 +325,15 @@ export class StockRepository extends BaseRepository<StockEntity> {
             barcode: products.barcode,
             minimum_stock_level: products.minimum_stock_level,
           },
+          location: {
+            id: locations.id,
+            name: locations.name,
+            code: locations.code,
+          },
         })
         .from(stock)
         .leftJoin(products, eq(stock.product_id, products.id))
+        .leftJoin(locations, eq(stock.location_id, locations.id))
         .where(whereCondition)
         .orderBy(desc(stock.created_at));
 
@@ -190,8 +345,105 @@ export class StockRepository extends BaseRepository<StockEntity> {
     }
   }
 
-  async update(productId: string, stockData: UpdateStockDto): Promise<StockEntity> {
-    this.logger.log(`Updating stock for product: ${productId}`);
+  /**
+   * Filters, sorts and pages stock rows in the database. Low stock compares available plus
+   * reserved against the product minimum, matching what the summary response reports.
+   */
+  async findPaginated(
+    filters: StockListFilters = {},
+    options: StockListOptions = {}
+  ): Promise<{ data: StockWithProduct[]; total: number }> {
+    const { page = 1, limit = 20, sortBy = 'product_name', sortOrder = 'asc' } = options;
+    this.logger.log(`Finding stock records page ${page} sorted by ${sortBy} ${sortOrder}`);
+
+    try {
+      const conditions: SQL[] = [isNull(stock.deleted_at)];
+
+      if (filters.product_id) {
+        conditions.push(eq(stock.product_id, filters.product_id));
+      }
+      if (filters.location_id) {
+        conditions.push(eq(stock.location_id, filters.location_id));
+      }
+      if (filters.category_id) {
+        conditions.push(eq(products.category_id, filters.category_id));
+      }
+      if (filters.search) {
+        conditions.push(or(
+          ilike(products.name, `%${filters.search}%`),
+          ilike(products.sku, `%${filters.search}%`),
+          ilike(products.barcode, `%${filters.search}%`),
+        )!);
+      }
+      if (filters.low_stock !== undefined) {
+        const totalQuantity = sql`${stock.quantity_available} + ${stock.quantity_reserved}`;
+        conditions.push(filters.low_stock
+          ? sql`${totalQuantity} <= COALESCE(${products.minimum_stock_level}, 0)`
+          : sql`${totalQuantity} > COALESCE(${products.minimum_stock_level}, 0)`);
+      }
+
+      const whereCondition = and(...conditions);
+
+      const totalResult = await this.db
+        .select({ count: count() })
+        .from(stock)
+        .leftJoin(products, eq(stock.product_id, products.id))
+        .where(whereCondition);
+      const total = totalResult[0]?.count || 0;
+
+      const sortColumns = {
+        product_name: products.name,
+        quantity_available: stock.quantity_available,
+        quantity_reserved: stock.quantity_reserved,
+        updated_at: sql`COALESCE(${stock.updated_at}, ${stock.created_at})`,
+      };
+      const sortColumn = sortColumns[sortBy] ?? products.name;
+      const direction = sortOrder === 'desc' ? desc : asc;
+
+      const result = await this.db
+        .select({
+          id: stock.id,
+          product_id: stock.product_id,
+          location_id: stock.location_id,
+          quantity_available: stock.quantity_available,
+          quantity_reserved: stock.quantity_reserved,
+          created_by: stock.created_by,
+          created_at: stock.created_at,
+          updated_by: stock.updated_by,
+          updated_at: stock.updated_at,
+          deleted_by: stock.deleted_by,
+          deleted_at: stock.deleted_at,
+          product: {
+            id: products.id,
+            name: products.name,
+            sku: products.sku,
+            barcode: products.barcode,
+            minimum_stock_level: products.minimum_stock_level,
+          },
+          location: {
+            id: locations.id,
+            name: locations.name,
+            code: locations.code,
+          },
+        })
+        .from(stock)
+        .leftJoin(products, eq(stock.product_id, products.id))
+        .leftJoin(locations, eq(stock.location_id, locations.id))
+        .where(whereCondition)
+        .orderBy(direction(sortColumn), asc(stock.id))
+        .limit(limit)
+        .offset((page - 1) * limit);
+
+      this.logger.log(`Found ${result.length} stock records out of ${total} total`);
+      return { data: result as StockWithProduct[], total };
+    } catch (error) {
+      this.logger.error('Error finding paginated stock records', error.stack);
+      throw error;
+    }
+  }
+
+  async update(productId: string, locationId: string, stockData: UpdateStockDto): Promise<StockEntity> {
+    this.logger.log(`Updating stock for product: ${productId} at location: ${locationId}`);
     
     try {
       const updateData: any = {
@@ -209,7 +461,7 @@ export class StockRepository extends BaseRepository<StockEntity> {
       const result = await this.db
         .update(stock)
         .set(updateData)
-        .where(and(eq(stock.product_id, productId), isNull(stock.deleted_at)))
+        .where(and(eq(stock.product_id, productId), eq(stock.location_id, locationId), isNull(stock.deleted_at)))
         .returning();
 
       if (!result.length) {
@@ -224,141 +476,25 @@ export class StockRepository extends BaseRepository<StockEntity> {
     }
   }
 
-  async adjustQuantity(productId: string, quantityChange: number, updatedBy: string): Promise<StockEntity> {
-    this.logger.log(`Adjusting stock quantity for product: ${productId} by ${quantityChange}`);
+  async getLowStockProducts(locationId?: string): Promise<StockSummary[]> {
+    this.logger.log(`Finding products with low stock levels${locationId ? ` at location: ${locationId}` : ''}`);
     
     try {
-      const currentStock = await this.findByProductIdOrThrow(productId);
-      const newQuantity = Math.max(0, currentStock.quantity_available + quantityChange);
-      
-      return await this.update(productId, {
-        quantity_available: newQuantity,
-        updated_by: updatedBy,
-      });
-    } catch (error) {
-      this.logger.error(`Failed to adjust stock quantity for product: ${productId}`, error.stack);
-      throw error;
-    }
-  }
-
-  async reserveQuantity(productId: string, quantity: number, updatedBy: string): Promise<StockEntity> {
-    this.logger.log(`Reserving ${quantity} units for product: ${productId}`);
-    
-    try {
-      const currentStock = await this.findByProductIdOrThrow(productId);
-      
-      if (currentStock.quantity_available < quantity) {
-        throw new Error(`Insufficient stock available. Available: ${currentStock.quantity_available}, Requested: ${quantity}`);
-      }
-      
-      return await this.update(productId, {
-        quantity_available: currentStock.quantity_available - quantity,
-        quantity_reserved: currentStock.quantity_reserved + quantity,
-        updated_by: updatedBy,
-      });
-    } catch (error) {
-      this.logger.error(`Failed to reserve stock for product: ${productId}`, error.stack);
-      throw error;
-    }
-  }
+      const stockSummary = await this.summariseStock(locationId, true);
 
-  async releaseReservedQuantity(productId: string, quantity: number, updatedBy: string): Promise<StockEntity> {
-    this.logger.log(`Releasing ${quantity} reserved units for product: ${productId}`);
-    
-    try {
-      const currentStock = await this.findByProductIdOrThrow(productId);
-      
-      if (currentStock.quantity_reserved < quantity) {
-        throw new Error(`Insufficient reserved stock. Reserved: ${currentStock.quantity_reserved}, Requested: ${quantity}`);
-      }
-      
-      return await this.update(productId, {
-        quantity_available: currentStock.quantity_available + quantity,
-        quantity_reserved: currentStock.quantity_reserved - quantity,
-        updated_by: updatedBy,
-      });
-    } catch (error) {
-      this.logger.error(`Failed to release reserved stock for product: ${productId}`, error.stack);
-      throw error;
-    }
-  }
-
-  async getLowStockProducts(): Promise<StockSummary[]> {
-    this.logger.log('Finding products with low stock levels');
-    
-    try {
-      const result = await this.db
-        .select({
-          product_id: stock.product_id,
-          product_name: products.name,
-          product_sku: products.sku,
-          quantity_available: stock.quantity_available,
-          quantity_reserved: stock.quantity_reserved,
-          minimum_stock_level: products.minimum_stock_level,
-        })
-        .from(stock)
-        .innerJoin(products, eq(stock.product_id, products.id))
-        .where(
-          and(
-            isNull(stock.deleted_at),
-            isNull(products.deleted_at),
-            sql`${stock.quantity_available} <= ${products.minimum_stock_level}`
-          )
-        )
-        .orderBy(asc(stock.quantity_available));
-
-      const lowStockProducts = result.map(item => ({
-        product_id: item.product_id,
-        product_name: item.product_name,
-        product_sku: item.product_sku,
-        quantity_available: item.quantity_available,
-        quantity_reserved: item.quantity_reserved,
-        total_quantity: item.quantity_available + item.quantity_reserved,
-        minimum_stock_level: item.minimum_stock_level,
-        is_low_stock: true,
-      }));
-
-      this.logger.log(`Found ${lowStockProducts.length} products with low stock`);
-      return lowStockProducts;
+      this.logger.log(`Found ${stockSummary.length} products with low stock`);
+      return stockSummary;
     } catch (error) {
       this.logger.error('Error finding low stock products', error.stack);
       throw error;
     }
   }
 
-  async getStockSummary(): Promise<StockSummary[]> {
-    this.logger.log('Getting complete stock summary');
+  async getStockSummary(locationId?: string): Promise<StockSummary[]> {
+    this.logger.log(`Getting complete stock summary${locationId ? ` for location: ${locationId}` : ''}`);
     
     try {
-      const result = await this.db
-        .select({
-          product_id: stock.product_id,
-          product_name: products.name,
-          product_sku: products.sku,
-          quantity_available: stock.quantity_available,
-          quantity_reserved: stock.quantity_reserved,
-          minimum_stock_level: products.minimum_stock_level,
-        })
-        .from(stock)
-        .innerJoin(products, eq(stock.product_id, products.id))
-        .where(
-          and(
-            isNull(stock.deleted_at),
-            isNull(products.deleted_at)
-          )
-        )
-        .orderBy(asc(products.name));
-
-      const stockSummary = result.map(item => ({
-        product_id: item.product_id,
-        product_name: item.product_name,
-        product_sku: item.product_sku,
-        quantity_available: item.quantity_available,
-        quantity_reserved: item.quantity_reserved,
-        total_quantity: item.quantity_available + item.quantity_reserved,
-        minimum_stock_level: item.minimum_stock_level,
-        is_low_stock: item.quantity_available <= item.minimum_stock_level,
-      }));
+      const stockSummary = await this.summariseStock(locationId, false);
 
       this.logger.log(`Generated stock summary for ${stockSummary.length} products`);
       return stockSummary;
@@ -368,6 +504,46 @@ export class StockRepository extends BaseRepository<StockEntity> {
     }
   }
 
+  /**
+   * Totals stock per product, either at one location or across all of them
+   */
+  private async summariseStock(locationId: string | undefined, lowStockOnly: boolean): Promise<StockSummary[]> {
+    const quantityAvailable = sql<number>`COALESCE(SUM(${stock.quantity_available}), 0)::int`;
+    const quantityReserved = sql<number>`COALESCE(SUM(${stock.quantity_reserved}), 0)::int`;
+
+    const conditions: any[] = [isNull(stock.deleted_at), isNull(products.deleted_at)];
+    if (locationId) {
+      conditions.push(eq(stock.location_id, locationId));
+    }
+
+    const result = await this.db
+      .select({
+        product_id: stock.product_id,
+        product_name: products.name,
+        product_sku: products.sku,
+        quantity_available: quantityAvailable,
+        quantity_reserved: quantityReserved,
+        minimum_stock_level: products.minimum_stock_level,
+      })
+      .from(stock)
+      .innerJoin(products, eq(stock.product_id, products.id))
+      .where(and(...conditions))
+      .groupBy(stock.product_id, products.name, products.sku, products.minimum_stock_level)
+      .having(lowStockOnly ? sql`SUM(${stock.quantity_available}) <= ${products.minimum_stock_level}` : undefined)
+      .orderBy(lowStockOnly ? asc(quantityAvailable) : asc(products.name));
+
+    return result.map(item => ({
+      product_id: item.product_id,
+      product_name: item.product_name,
+      product_sku: item.product_sku,
+      quantity_available: item.quantity_available,
+      quantity_reserved: item.quantity_reserved,
+      total_quantity: item.quantity_available + item.quantity_reserved,
+      minimum_stock_level: item.minimum_stock_level,
+      is_low_stock: item.quantity_available <= item.minimum_stock_level,
+    }));
+  }
+
   async softDelete(productId: string, deletedBy: string): Promise<void> {
     this.logger.log(`Soft deleting stock record for product: ${productId}`);
     
@@ -437,16 +613,627 @@ export class StockRepository extends BaseRepository<StockEntity> {
     }
   }
 
+  //#region ==================== ATOMIC STOCK MOVEMENTS ====================
+
+  /**
+   * Applies a quantity change to a product's stock at one location and writes the matching
+   * ledger entry in a single database transaction. The stock row is locked (SELECT ... FOR UPDATE)
+   * so concurrent movements on the same product and location are serialised and cannot oversell.
+   * Pass a transaction to apply the movement as part of a larger unit of work.
+   */
+  async applyMovement(movement: StockMovementDto, tx?: DbTransaction): Promise<StockMovementResult> {
+    this.logger.log(`Applying ${movement.transaction_type} movement of ${movement.quantity} for product: ${movement.product_id} at location: ${movement.location_id}`);
+
+    try {
+      return await this.inTransaction(async (tx) => {
+        const currentStock = await this.lockStockRow(tx, movement.product_id, movement.location_id, movement.user_id, movement.create_if_missing);
+
+        const reservedChange = movement.reserved_change ?? 0;
+        const newAvailable = currentStock.quantity_available + movement.available_change;
+        const newReserved = currentStock.quantity_reserved + reservedChange;
+
+        if (newAvailable < 0) {
+          throw new BadRequestException(
+            `Insufficient stock. Available: ${currentStock.quantity_available}, Requested: ${Math.abs(movement.available_change)}`
+          );
+        }
+        if (newReserved < 0) {
+          throw new BadRequestException(
+            `Insufficient reserved stock. Reserved: ${currentStock.quantity_reserved}, Requested: ${Math.abs(reservedChange)}`
+          );
+        }
+
+        const [updatedStock] = await tx
+          .update(stock)
+          .set({
+            quantity_available: newAvailable,
+            quantity_reserved: newReserved,
+            updated_by: movement.user_id,
+            updated_at: new Date(),
+          })
+          .where(eq(stock.id, currentStock.id))
+          .returning();
+
+        const [transaction] = await tx
+          .insert(stockTransactions)
+          .values({
+            product_id: movement.product_id,
+            location_id: movement.location_id,
+            transaction_type: movement.transaction_type,
+            quantity: movement.quantity,
+            reference_type: movement.reference_type,
+            reference_id: movement.reference_id || null,
+            notes: movement.notes || null,
+            created_by: movement.user_id,
+            created_at: new Date(),
+          })
+          .returning();
+
+        this.logger.log(`Stock movement applied for product: ${movement.product_id} (available: ${newAvailable}, reserved: ${newReserved})`);
+        return {
+          stock: updatedStock as StockEntity,
+          transaction: transaction as StockTransactionEntity,
+        };
+      }, tx);
+    } catch (error) {
+      this.logger.error(`Failed to apply stock movement for product: ${movement.product_id}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Sets absolute stock quantities at a location under a row lock and records the difference
+   * in available quantity as an ADJUSTMENT ledger entry. The difference is worked out against
+   * the locked row, so it is exact even with other movements in flight.
+   */
+  async setQuantities(
+    productId: string,
+    locationId: string,
+    stockData: UpdateStockDto,
+    notes = 'Stock level set manually',
+    tx?: DbTransaction,
+  ): Promise<StockQuantitiesResult> {
+    this.logger.log(`Setting stock quantities for product: ${productId} at location: ${locationId}`);
+
+    try {
+      return await this.inTransaction(async (tx) => {
+        const currentStock = await this.lockStockRow(tx, productId, locationId, stockData.updated_by, false);
+
+        const newAvailable = stockData.quantity_available ?? currentStock.quantity_available;
+        const newReserved = stockData.quantity_reserved ?? currentStock.quantity_reserved;
+        const availableChange = newAvailable - currentStock.quantity_available;
+
+        const [updatedStock] = await tx
+          .update(stock)
+          .set({
+            quantity_available: newAvailable,
+            quantity_reserved: newReserved,
+            updated_by: stockData.updated_by,
+            updated_at: new Date(),
+          })
+          .where(eq(stock.id, currentStock.id))
+          .returning();
+
+        if (availableChange !== 0) {
+          await tx.insert(stockTransactions).values({
+            product_id: productId,
+            location_id: locationId,
+            transaction_type: availableChange > 0 ? StockTransactionType.IN : StockTransactionType.OUT,
+            quantity: Math.abs(availableChange),
+            reference_type: StockReferenceType.ADJUSTMENT,
+            notes,
+            created_by: stockData.updated_by,
+            created_at: new Date(),
+          });
+        }
+
+        this.logger.log(`Stock quantities set for product: ${productId}`);
+        return { stock: updatedStock as StockEntity, available_change: availableChange };
+      }, tx);
+    } catch (error) {
+      this.logger.error(`Failed to set stock quantities for product: ${productId}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Moves stock between two locations: an OUT entry at the source and an IN entry at the
+   * destination, both referencing the transfer record, in one database transaction.
+   */
+  async transfer(transferData: StockTransferDto): Promise<StockTransferResult> {
+    this.logger.log(
+      `Transferring ${transferData.quantity} of product: ${transferData.product_id} ` +
+      `from ${transferData.from_location_id} to ${transferData.to_location_id}`
+    );
+
+    try {
+      return await this.db.transaction(async (tx) => {
+        // Lock both rows in a fixed order so opposite transfers cannot deadlock
+        const lockOrder = [transferData.from_location_id, transferData.to_location_id].sort();
+        const locked = new Map<string, StockEntity>();
+        for (const locationId of lockOrder) {
+          const createIfMissing = locationId === transferData.to_location_id;
+          locked.set(locationId, await this.lockStockRow(tx, transferData.product_id, locationId, transferData.user_id, createIfMissing));
+        }
+
+        const sourceStock = locked.get(transferData.from_location_id) as StockEntity;
+        const destinationStock = locked.get(transferData.to_location_id) as StockEntity;
+
+        if (sourceStock.quantity_available < transferData.quantity) {
+          throw new BadRequestException(
+            `Insufficient stock. Available: ${sourceStock.quantity_available}, Requested: ${transferData.quantity}`
+          );
+        }
+
+        const [transfer] = await tx
+          .insert(stockTransfers)
+          .values({
+            product_id: transferData.product_id,
+            from_location_id: transferData.from_location_id,
+            to_location_id: transferData.to_location_id,
+            quantity: transferData.quantity,
+            notes: transferData.notes || null,
+            created_by: transferData.user_id,
+            created_at: new Date(),
+          })
+          .returning();
+
+        const [fromStock] = await tx
+          .update(stock)
+          .set({
+            quantity_available: sourceStock.quantity_available - transferData.quantity,
+            updated_by: transferData.user_id,
+            updated_at: new Date(),
+          })
+          .where(eq(stock.id, sourceStock.id))
+          .returning();
+
+        const [toStock] = await tx
+          .update(stock)
+          .set({
+            quantity_available: destinationStock.quantity_available + transferData.quantity,
+            updated_by: transferData.user_id,
+            updated_at: new Date(),
+          })
+          .where(eq(stock.id, destinationStock.id))
+          .returning();
+
+        await tx.insert(stockTransactions).values([
+          {
+            product_id: transferData.product_id,
+            location_id: transferData.from_location_id,
+            transaction_type: StockTransactionType.OUT,
+            quantity: transferData.quantity,
+            reference_type: StockReferenceType.TRANSFER,
+            reference_id: transfer.id,
+            notes: transferData.notes || 'Transferred out',
+            created_by: transferData.user_id,
+            created_at: new Date(),
+          },
+          {
+            product_id: transferData.product_id,
+            location_id: transferData.to_location_id,
+            transaction_type: StockTransactionType.IN,
+            quantity: transferData.quantity,
+            reference_type: StockReferenceType.TRANSFER,
+            reference_id: transfer.id,
+            notes: transferData.notes || 'Transferred in',
+            created_by: transferData.user_id,
+            created_at: new Date(),
+          },
+        ]);
+
+        this.logger.log(`Stock transfer completed: ${transfer.id}`);
+        return {
+          transfer: transfer as StockTransferEntity,
+          from_stock: fromStock as StockEntity,
+          to_stock: toStock as StockEntity,
+        };
+      });
+    } catch (error) {
+      this.logger.error(`Failed to transfer stock for product: ${transferData.product_id}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== STOCK RESERVATIONS ====================
+
+  /**
+   * Holds stock for an owner: moves the quantity from available to reserved, records the
+   * reservation and writes an OUT ledger entry referencing it, in one database transaction.
+   */
+  async reserve(reservationData: CreateStockReservationDto): Promise<StockReservationResult> {
+    this.logger.log(
+      `Reserving ${reservationData.quantity} of product: ${reservationData.product_id} ` +
+      `at location: ${reservationData.location_id} for owner: ${reservationData.owner_id}`
+    );
+
+    try {
+      return await this.db.transaction(async (tx) => {
+        const currentStock = await this.lockStockRow(tx, reservationData.product_id, reservationData.location_id, reservationData.user_id);
+
+        if (currentStock.quantity_available < reservationData.quantity) {
+          throw new BadRequestException(
+            `Insufficient stock. Available: ${currentStock.quantity_available}, Requested: ${reservationData.quantity}`
+          );
+        }
+
+        const [reservation] = await tx
+          .insert(stockReservations)
+          .values({
+            product_id: reservationData.product_id,
+            location_id: reservationData.location_id,
+            owner_id: reservationData.owner_id,
+            quantity: reservationData.quantity,
+            reference_type: reservationData.reference_type || null,
+            reference_id: reservationData.reference_id || null,
+            expires_at: reservationData.expires_at || null,
+            notes: reservationData.notes || null,
+            created_by: reservationData.user_id,
+            created_at: new Date(),
+          })
+          .returning();
+
+        const [updatedStock] = await tx
+          .update(stock)
+          .set({
+            quantity_available: currentStock.quantity_available - reservationData.quantity,
+            quantity_reserved: currentStock.quantity_reserved + reservationData.quantity,
+            updated_by: reservationData.user_id,
+            updated_at: new Date(),
+          })
+          .where(eq(stock.id, currentStock.id))
+          .returning();
+
+        await tx.insert(stockTransactions).values({
+          product_id: reservationData.product_id,
+          location_id: reservationData.location_id,
+          transaction_type: StockTransactionType.OUT,
+          quantity: reservationData.quantity,
+          reference_type: StockReferenceType.RESERVATION,
+          reference_id: reservation.id,
+          notes: reservationData.notes || 'Stock reservation',
+          created_by: reservationData.user_id,
+          created_at: new Date(),
+        });
+
+        this.logger.log(`Stock reservation created: ${reservation.id}`);
+        return {
+          reservation: reservation as StockReservationEntity,
+          stock: updatedStock as StockEntity,
+        };
+      });
+    } catch (error) {
+      this.logger.error(`Failed to reserve stock for product: ${reservationData.product_id}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Closes an active reservation (released, cancelled or expired) and returns its quantity
+   * to available stock with an IN ledger entry referencing the reservation.
+   */
+  async closeReservation(
+    reservationId: string,
+    status: Exclude<StockReservationStatus, 'ACTIVE'>,
+    userId: string,
+    notes?: string,
+  ): Promise<StockReservationResult> {
+    this.logger.log(`Closing stock reservation: ${reservationId} as ${status}`);
+
+    try {
+      return await this.db.transaction(async (tx) => {
+        const findReservation = () => tx
+          .select()
+          .from(stockReservations)
+          .where(and(eq(stockReservations.id, reservationId), isNull(stockReservations.deleted_at)))
+          .limit(1);
+
+        // The product and location never change, so they can be read before locking. The
+        // stock row is locked before the reservation, the same order as everywhere else.
+        const [target] = await findReservation();
+        if (!target) {
+          throw new NotFoundException(MESSAGES.RESERVATION_NOT_FOUND);
+        }
+
+        const currentStock = await this.lockStockRow(tx, target.product_id, target.location_id, userId);
+
+        const [reservation] = await findReservation().for('update');
+        if (!reservation) {
+          throw new NotFoundException(MESSAGES.RESERVATION_NOT_FOUND);
+        }
+        if (reservation.status !== 'ACTIVE') {
+          throw new BadRequestException(MESSAGES.RESERVATION_NOT_ACTIVE);
+        }
+
+        // Manual stock edits can lower the reserved counter below what reservations hold
+        const releasedQuantity = Math.min(reservation.quantity, currentStock.quantity_reserved);
+
+        const [updatedStock] = await tx
+          .update(stock)
+          .set({
+            quantity_available: currentStock.quantity_available + releasedQuantity,
+            quantity_reserved: currentStock.quantity_reserved - releasedQuantity,
+            updated_by: userId,
+            updated_at: new Date(),
+          })
+          .where(eq(stock.id, currentStock.id))
+          .returning();
+
+        const [closedReservation] = await tx
+          .update(stockReservations)
+          .set({
+            status,
+            released_at: new Date(),
+            updated_by: userId,
+            updated_at: new Date(),
+          })
+          .where(eq(stockReservations.id, reservationId))
+          .returning();
+
+        if (releasedQuantity > 0) {
+          await tx.insert(stockTransactions).values({
+            product_id: reservation.product_id,
+            location_id: reservation.location_id,
+            transaction_type: StockTransactionType.IN,
+            quantity: releasedQuantity,
+            reference_type: StockReferenceType.RESERVATION,
+            reference_id: reservationId,
+            notes: notes || `Stock reservation ${status.toLowerCase()}`,
+            created_by: userId,
+            created_at: new Date(),
+          });
+        }
+
+        this.logger.log(`Stock reservation ${reservationId} closed as ${status}`);
+        return {
+          reservation: closedReservation as StockReservationEntity,
+          stock: updatedStock as StockEntity,
+        };
+      });
+    } catch (error) {
+      this.logger.error(`Failed to close stock reservation: ${reservationId}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Releases a quantity of reserved stock at a location from the oldest active reservations
+   * first, shrinking the last one when it is only partly released.
+   */
+  async releaseReservedQuantity(
+    productId: string,
+    locationId: string,
+    quantity: number,
+    userId: string,
+    notes?: string,
+  ): Promise<StockEntity> {
+    this.logger.log(`Releasing ${quantity} reserved of product: ${productId} at location: ${locationId}`);
+
+    try {
+      return await this.db.transaction(async (tx) => {
+        const currentStock = await this.lockStockRow(tx, productId, locationId, userId);
+
+        if (currentStock.quantity_reserved < quantity) {
+          throw new BadRequestException(
+            `Insufficient reserved stock. Reserved: ${currentStock.quantity_reserved}, Requested: ${quantity}`
+          );
+        }
+
+        const activeReservations = await tx
+          .select()
+          .from(stockReservations)
+          .where(and(
+            eq(stockReservations.product_id, productId),
+            eq(stockReservations.location_id, locationId),
+            eq(stockReservations.status, 'ACTIVE'),
+            isNull(stockReservations.deleted_at),
+          ))
+          .orderBy(asc(stockReservations.created_at))
+          .for('update');
+
+        let remaining = quantity;
+        const touchedIds: string[] = [];
+        for (const reservation of activeReservations) {
+          if (remaining === 0) {
+            break;
+          }
+
+          const released = Math.min(reservation.quantity, remaining);
+          remaining -= released;
+          touchedIds.push(reservation.id);
+
+          await tx
+            .update(stockReservations)
+            .set(released === reservation.quantity
+              ? { status: 'RELEASED', released_at: new Date(), updated_by: userId, updated_at: new Date() }
+              : { quantity: reservation.quantity - released, updated_by: userId, updated_at: new Date() })
+            .where(eq(stockReservations.id, reservation.id));
+        }
+
+        const [updatedStock] = await tx
+          .update(stock)
+          .set({
+            quantity_available: currentStock.quantity_available + quantity,
+            quantity_reserved: currentStock.quantity_reserved - quantity,
+            updated_by: userId,
+            updated_at: new Date(),
+          })
+          .where(eq(stock.id, currentStock.id))
+          .returning();
+
+        await tx.insert(stockTransactions).values({
+          product_id: productId,
+          location_id: locationId,
+          transaction_type: StockTransactionType.IN,
+          quantity,
+          reference_type: StockReferenceType.RESERVATION,
+          reference_id: touchedIds.length === 1 ? touchedIds[0] : null,
+          notes: notes || 'Stock release from reservation',
+          created_by: userId,
+          created_at: new Date(),
+        });
+
+        this.logger.log(`Released ${quantity} reserved of product: ${productId} across ${touchedIds.length} reservations`);
+        return updatedStock as StockEntity;
+      });
+    } catch (error) {
+      this.logger.error(`Failed to release reserved stock for product: ${productId}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findReservationById(id: string): Promise<StockReservationEntity | null> {
+    this.logger.log(`Finding stock reservation by ID: ${id}`);
+
+    const result = await this.db
+      .select()
+      .from(stockReservations)
+      .where(and(eq(stockReservations.id, id), isNull(stockReservations.deleted_at)))
+      .limit(1);
+
+    return (result[0] as StockReservationEntity) || null;
+  }
+
+  async findReservations(filters: StockReservationFilters = {}, limit = 100): Promise<StockReservationEntity[]> {
+    this.logger.log('Finding stock reservations with filters:', filters);
+
+    try {
+      const conditions: any[] = [isNull(stockReservations.deleted_at)];
+      if (filters.product_id) {
+        conditions.push(eq(stockReservations.product_id, filters.product_id));
+      }
+      if (filters.location_id) {
+        conditions.push(eq(stockReservations.location_id, filters.location_id));
+      }
+      if (filters.owner_id) {
+        conditions.push(eq(stockReservations.owner_id, filters.owner_id));
+      }
+      if (filters.status) {
+        conditions.push(eq(stockReservations.status, filters.status));
+      }
+
+      const result = await this.db
+        .select()
+        .from(stockReservations)
+        .where(and(...conditions))
+        .orderBy(desc(stockReservations.created_at))
+        .limit(limit);
+
+      this.logger.log(`Found ${result.length} stock reservations`);
+      return result as StockReservationEntity[];
+    } catch (error) {
+      this.logger.error('Error finding stock reservations', error.stack);
+      throw error;
+    }
+  }
+
+  async findExpiredReservations(asOf: Date, limit = 100): Promise<StockReservationEntity[]> {
+    this.logger.log(`Finding stock reservations expired as of ${asOf.toISOString()}`);
+
+    const result = await this.db
+      .select()
+      .from(stockReservations)
+      .where(and(
+        eq(stockReservations.status, 'ACTIVE'),
+        lte(stockReservations.expires_at, asOf),
+        isNull(stockReservations.deleted_at),
+      ))
+      .orderBy(asc(stockReservations.expires_at))
+      .limit(limit);
+
+    return result as StockReservationEntity[];
+  }
+
+  /**
+   * Locks the stock row for a product at a location for the rest of the transaction,
+   * creating it first when allowed. An advisory lock keyed on the product and location
+   * stops two transactions from both creating the same first stock row.
+   */
+  private async lockStockRow(
+    tx: DbTransaction,
+    productId: string,
+    locationId: string,
+    userId: string,
+    createIfMissing = false,
+  ): Promise<StockEntity> {
+    const selectForUpdate = () => tx
+      .select()
+      .from(stock)
+      .where(and(eq(stock.product_id, productId), eq(stock.location_id, locationId), isNull(stock.deleted_at)))
+      .limit(1)
+      .for('update');
+
+    let [currentStock] = await selectForUpdate();
+    if (currentStock) {
+      return currentStock as StockEntity;
+    }
+
+    if (!createIfMissing) {
+      throw new NotFoundException(`Stock not found for product ${productId} at location ${locationId}`);
+    }
+
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`${productId}:${locationId}`}))`);
+    [currentStock] = await selectForUpdate();
+    if (!currentStock) {
+      [currentStock] = await tx
+        .insert(stock)
+        .values({
+          product_id: productId,
+          location_id: locationId,
+          quantity_available: 0,
+          quantity_reserved: 0,
+          created_by: userId,
+          created_at: new Date(),
+        })
+        .returning();
+    }
+
+    return currentStock as StockEntity;
+  }
+
+  //#region ==================== STOCK TRANSFER QUERIES ====================
+
+  async findTransfers(filters: StockTransferFilters = {}, limit = 50): Promise<StockTransferEntity[]> {
+    this.logger.log('Finding stock transfers with filters:', filters);
+
+    try {
+      const conditions: any[] = [isNull(stockTransfers.deleted_at)];
+      if (filters.product_id) {
+        conditions.push(eq(stockTransfers.product_id, filters.product_id));
+      }
+      if (filters.location_id) {
+        conditions.push(or(
+          eq(stockTransfers.from_location_id, filters.location_id),
+          eq(stockTransfers.to_location_id, filters.location_id),
+        ));
+      }
+
+      const result = await this.db
+        .select()
+        .from(stockTransfers)
+        .where(and(...conditions))
+        .orderBy(desc(stockTransfers.created_at))
+        .limit(limit);
+
+      this.logger.log(`Found ${result.length} stock transfers`);
+      return result as StockTransferEntity[];
+    } catch (error) {
+      this.logger.error('Error finding stock transfers', error.stack);
+      throw error;
+    }
+  }
+
   //#region ==================== UTILITY METHODS ====================
 
-  async stockExists(productId: string): Promise<boolean> {
-    this.logger.log(`Checking if stock exists for product: ${productId}`);
+  async stockExists(productId: string, locationId: string): Promise<boolean> {
+    this.logger.log(`Checking if stock exists for product: ${productId} at location: ${locationId}`);
     
     try {
       const result = await this.db
         .select({ id: stock.id })
         .from(stock)
-        .where(and(eq(stock.product_id, productId), isNull(stock.deleted_at)))
+        .where(and(eq(stock.product_id, productId), eq(stock.location_id, locationId), isNull(stock.deleted_at)))
         .limit(1);
 
       const exists = result.length > 0;
@@ -458,6 +1245,30 @@ export class StockRepository extends BaseRepository<StockEntity> {
     }
   }
 
+  /**
+   * Whether any location holds available or reserved units of the product
+   */
+  async hasStockOnHand(productId: string): Promise<boolean> {
+    this.logger.log(`Checking stock on hand for product: ${productId}`);
+
+    try {
+      const result = await this.db
+        .select({ id: stock.id })
+        .from(stock)
+        .where(and(
+          eq(stock.product_id, productId),
+          isNull(stock.deleted_at),
+          or(gt(stock.quantity_available, 0), gt(stock.quantity_reserved, 0)),
+        ))
+        .limit(1);
+
+      return result.length > 0;
+    } catch (error) {
+      this.logger.error(`Error checking stock on hand for product: ${productId}`, error.stack);
+      throw error;
+    }
+  }
+
   async getTotalStockValue(): Promise<number> {
     this.logger.log('Calculating total stock value');
     
@@ -0,0 +1,602 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { BaseRepository, DbTransaction } from './base.repository';
+import { supplierBills, supplierBillItems } from '../schema/supplier-bills';
+import { supplierPayments } from '../schema/supplier-payments';
+import { suppliers } from '../schema/suppliers';
+import { purchaseOrders } from '../schema/purchase-orders';
+import { products } from '../schema/products';
+import { eq, and, isNull, inArray, ne, gte, lte, gt, asc, desc, sql } from 'drizzle-orm';
+import { DrizzleService } from '../drizzle.service';
+import { MESSAGES } from '../../../common/constants/string-const';
+import { PaymentMethod } from './payments.repository';
+
+export type SupplierBillStatus = 'OPEN' | 'PARTIAL' | 'PAID' | 'CANCELLED';
+export type BillMatchStatus = 'MATCHED' | 'VARIANCE';
+
+export interface CreateSupplierBillDto {
+  supplier_id: string;
+  purchase_order_id: string;
+  bill_number: string;
+  bill_date: string;
+  due_date?: string;
+  subtotal: number;
+  tax_amount: number;
+  total_amount: number;
+  match_status: BillMatchStatus;
+  notes?: string;
+  created_by: string; // UUID of the user recording the bill
+}
+
+export interface UpdateSupplierBillDto {
+  amount_paid?: number;
+  status?: SupplierBillStatus;
+  notes?: string;
+  updated_by: string;
+}
+
+export interface CreateSupplierBillItemDto {
+  supplier_bill_id: string;
+  purchase_order_item_id: string;
+  product_id: string;
+  quantity_billed: number;
+  unit_cost: number;
+  total_cost: number;
+  taxable_amount: number;
+  tax_amount: number;
+  quantity_variance: number;
+  price_variance: number;
+  created_by: string;
+}
+
+export interface SupplierBillEntity {
+  id: string;
+  supplier_id: string;
+  purchase_order_id: string;
+  bill_number: string;
+  bill_date: string;
+  due_date: string | null;
+  subtotal: string;
+  tax_amount: string;
+  total_amount: string;
+  amount_paid: string;
+  status: SupplierBillStatus;
+  match_status: BillMatchStatus;
+  notes: string | null;
+  created_by: string;
+  created_at: Date;
+  updated_by: string | null;
+  updated_at: Date | null;
+  deleted_by: string | null;
+  deleted_at: Date | null;
+}
+
+export interface SupplierBillWithReferences extends SupplierBillEntity {
+  supplier_name: string;
+  order_number: string;
+}
+
+export interface SupplierBillItemEntity {
+  id: string;
+  supplier_bill_id: string;
+  purchase_order_item_id: string;
+  product_id: string;
+  quantity_billed: number;
+  unit_cost: string;
+  total_cost: string;
+  taxable_amount: string;
+  tax_amount: string;
+  quantity_variance: number;
+  price_variance: string;
+  created_by: string;
+  created_at: Date;
+  updated_by: string | null;
+  updated_at: Date | null;
+  deleted_by: string | null;
+  deleted_at: Date | null;
+}
+
+export interface SupplierBillItemWithProduct extends SupplierBillItemEntity {
+  product: {
+    id: string;
+    name: string;
+    sku: string;
+  };
+}
+
+export interface SupplierBillWithDetails extends SupplierBillWithReferences {
+  items: SupplierBillItemWithProduct[];
+  payments: SupplierPaymentEntity[];
+}
+
+export interface SupplierBillFilters {
+  supplier_id?: string;
+  purchase_order_id?: string;
+  status?: SupplierBillStatus;
+  match_status?: BillMatchStatus;
+  bill_date_from?: string;
+  bill_date_to?: string;
+}
+
+export interface BilledQuantityRow {
+  purchase_order_item_id: string;
+  quantity_billed: number;
+  cost_billed: string; // Quantity x unit cost, as priced on the bills
+  amount_billed: string; // Including tax
+}
+
+export interface CreateSupplierPaymentDto {
+  supplier_bill_id: string;
+  supplier_id: string;
+  payment_method: PaymentMethod;
+  amount: number;
+  reference?: string;
+  notes?: string;
+  paid_by: string;
+  paid_at?: Date;
+  created_by: string;
+}
+
+export interface SupplierPaymentEntity {
+  id: string;
+  supplier_bill_id: string;
+  supplier_id: string;
+  payment_method: PaymentMethod;
+  amount: string;
+  reference: string | null;
+  notes: string | null;
+  paid_by: string;
+  paid_at: Date;
+  created_by: string;
+  created_at: Date;
+  updated_by: string | null;
+  updated_at: Date | null;
+  deleted_by: string | null;
+  deleted_at: Date | null;
+}
+
+export interface OpenBillBalanceRow {
+  id: string;
+  bill_number: string;
+  supplier_id: string;
+  supplier_name: string;
+  bill_date: string;
+  due_date: string | null;
+  total_amount: string;
+  amount_paid: string;
+  balance_due: string;
+}
+
+@Injectable()
+export class SupplierBillsRepository extends BaseRepository<SupplierBillEntity> {
+  constructor(drizzleService: DrizzleService) {
+    super(drizzleService);
+  }
+
+  //#region ==================== BILL OPERATIONS ====================
+
+  async createSupplierBill(billData: CreateSupplierBillDto, tx?: DbTransaction): Promise<SupplierBillEntity> {
+    this.logger.log(`Creating supplier bill: ${billData.bill_number} for purchase order: ${billData.purchase_order_id}`);
+
+    try {
+      const result = await (tx ?? this.db)
+        .insert(supplierBills)
+        .values({
+          supplier_id: billData.supplier_id,
+          purchase_order_id: billData.purchase_order_id,
+          bill_number: billData.bill_number,
+          bill_date: billData.bill_date,
+          due_date: billData.due_date || null,
+          subtotal: billData.subtotal.toString(),
+          tax_amount: billData.tax_amount.toString(),
+          total_amount: billData.total_amount.toString(),
+          match_status: billData.match_status,
+          notes: billData.notes || null,
+          created_by: billData.created_by,
+          created_at: new Date(),
+        })
+        .returning();
+
+      this.logger.log(`Supplier bill created successfully: ${billData.bill_number} (ID: ${result[0].id})`);
+      return result[0] as SupplierBillEntity;
+    } catch (error) {
+      this.logger.error(`Failed to create supplier bill: ${billData.bill_number}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findSupplierBillById(id: string): Promise<SupplierBillEntity | null> {
+    this.logger.log(`Finding supplier bill by ID: ${id}`);
+
+    return this.findOne(supplierBills, and(eq(supplierBills.id, id), isNull(supplierBills.deleted_at)));
+  }
+
+  async findSupplierBillByIdOrThrow(id: string): Promise<SupplierBillEntity> {
+    return super.findOneOrThrow(
+      supplierBills,
+      and(eq(supplierBills.id, id), isNull(supplierBills.deleted_at)),
+      MESSAGES.SUPPLIER_BILL_NOT_FOUND,
+    );
+  }
+
+  /**
+   * Locks the bill row for the rest of the transaction, so payments against it run one at a time
+   */
+  async lockSupplierBill(id: string, tx: DbTransaction): Promise<SupplierBillEntity> {
+    this.logger.log(`Locking supplier bill: ${id}`);
+
+    const result = await tx
+      .select()
+      .from(supplierBills)
+      .where(and(eq(supplierBills.id, id), isNull(supplierBills.deleted_at)))
+      .for('update');
+
+    if (!result.length) {
+      this.logger.warn(`Supplier bill not found for locking: ${id}`);
+      throw new NotFoundException(MESSAGES.SUPPLIER_BILL_NOT_FOUND);
+    }
+    return result[0] as SupplierBillEntity;
+  }
+
+  async findSupplierBillByNumber(supplierId: string, billNumber: string): Promise<SupplierBillEntity | null> {
+    this.logger.log(`Finding supplier bill ${billNumber} for supplier: ${supplierId}`);
+
+    return this.findOne(supplierBills, and(
+      eq(supplierBills.supplier_id, supplierId),
+      sql`lower(${supplierBills.bill_number}) = lower(${billNumber})`,
+      isNull(supplierBills.deleted_at),
+    ));
+  }
+
+  async findSupplierBillWithDetails(id: string): Promise<SupplierBillWithDetails | null> {
+    this.logger.log(`Finding supplier bill with details: ${id}`);
+
+    try {
+      const billResult = await this.db
+        .select({
+          ...this.billColumns(),
+          supplier_name: suppliers.name,
+          order_number: purchaseOrders.order_number,
+        })
+        .from(supplierBills)
+        .innerJoin(suppliers, eq(supplierBills.supplier_id, suppliers.id))
+        .innerJoin(purchaseOrders, eq(supplierBills.purchase_order_id, purchaseOrders.id))
+        .where(and(eq(supplierBills.id, id), isNull(supplierBills.deleted_at)))
+        .limit(1);
+
+      if (!billResult.length) {
+        return null;
+      }
+
+      const items = await this.db
+        .select({
+          id: supplierBillItems.id,
+          supplier_bill_id: supplierBillItems.supplier_bill_id,
+          purchase_order_item_id: supplierBillItems.purchase_order_item_id,
+          product_id: supplierBillItems.product_id,
+          quantity_billed: supplierBillItems.quantity_billed,
+          unit_cost: supplierBillItems.unit_cost,
+          total_cost: supplierBillItems.total_cost,
+          taxable_amount: supplierBillItems.taxable_amount,
+          tax_amount: supplierBillItems.tax_amount,
+          quantity_variance: supplierBillItems.quantity_variance,
+          price_variance: supplierBillItems.price_variance,
+          created_by: supplierBillItems.created_by,
+          created_at: supplierBillItems.created_at,
+          updated_by: supplierBillItems.updated_by,
+          updated_at: supplierBillItems.updated_at,
+          deleted_by: supplierBillItems.deleted_by,
+          deleted_at: supplierBillItems.deleted_at,
+          product: {
+            id: products.id,
+            name: products.name,
+            sku: products.sku,
+          },
+        })
+        .from(supplierBillItems)
+        .innerJoin(products, eq(supplierBillItems.product_id, products.id))
+        .where(and(eq(supplierBillItems.supplier_bill_id, id), isNull(supplierBillItems.deleted_at)))
+        .orderBy(supplierBillItems.created_at);
+
+      const payments = await this.findSupplierBillPayments(id);
+
+      return {
+        ...billResult[0],
+        items,
+        payments,
+      } as SupplierBillWithDetails;
+    } catch (error) {
+      this.logger.error(`Failed to find supplier bill with details: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  async updateSupplierBill(id: string, updateData: UpdateSupplierBillDto, tx?: DbTransaction): Promise<SupplierBillEntity> {
+    this.logger.log(`Updating supplier bill: ${id}`);
+
+    try {
+      const updateValues: any = {
+        ...updateData,
+        updated_at: new Date(),
+      };
+
+      // Handle numeric fields
+      if (updateData.amount_paid !== undefined) {
+        updateValues.amount_paid = updateData.amount_paid.toString();
+      }
+
+      const result = await (tx ?? this.db)
+        .update(supplierBills)
+        .set(updateValues)
+        .where(and(eq(supplierBills.id, id), isNull(supplierBills.deleted_at)))
+        .returning();
+
+      if (!result.length) {
+        this.logger.error(`No supplier bill updated with ID: ${id}`);
+        throw new Error(MESSAGES.SUPPLIER_BILL_NOT_FOUND);
+      }
+
+      this.logger.log(`Supplier bill updated successfully: ${id}`);
+      return result[0] as SupplierBillEntity;
+    } catch (error) {
+      this.logger.error(`Failed to update supplier bill: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== BILL ITEM OPERATIONS ====================
+
+  async addSupplierBillItem(itemData: CreateSupplierBillItemDto, tx?: DbTransaction): Promise<SupplierBillItemEntity> {
+    this.logger.log(`Adding item to supplier bill: ${itemData.supplier_bill_id}`);
+
+    try {
+      const result = await (tx ?? this.db)
+        .insert(supplierBillItems)
+        .values({
+          supplier_bill_id: itemData.supplier_bill_id,
+          purchase_order_item_id: itemData.purchase_order_item_id,
+          product_id: itemData.product_id,
+          quantity_billed: itemData.quantity_billed,
+          unit_cost: itemData.unit_cost.toString(),
+          total_cost: itemData.total_cost.toString(),
+          taxable_amount: itemData.taxable_amount.toString(),
+          tax_amount: itemData.tax_amount.toString(),
+          quantity_variance: itemData.quantity_variance,
+          price_variance: itemData.price_variance.toString(),
+          created_by: itemData.created_by,
+          created_at: new Date(),
+        })
+        .returning();
+
+      this.logger.log(`Supplier bill item added successfully: ${result[0].id}`);
+      return result[0] as SupplierBillItemEntity;
+    } catch (error) {
+      this.logger.error(`Failed to add supplier bill item`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Quantity and amount billed so far against each line of a purchase order, across
+   * every bill that has not been cancelled
+   */
+  async findBilledQuantities(purchaseOrderId: string): Promise<BilledQuantityRow[]> {
+    this.logger.log(`Finding billed quantities for purchase order: ${purchaseOrderId}`);
+
+    try {
+      const result = await this.db
+        .select({
+          purchase_order_item_id: supplierBillItems.purchase_order_item_id,
+          quantity_billed: sql<number>`COALESCE(SUM(${supplierBillItems.quantity_billed}), 0)::float8`,
+          cost_billed: sql<string>`COALESCE(SUM(${supplierBillItems.total_cost}), 0)::text`,
+          amount_billed: sql<string>`COALESCE(SUM(${supplierBillItems.taxable_amount} + ${supplierBillItems.tax_amount}), 0)::text`,
+        })
+        .from(supplierBillItems)
+        .innerJoin(supplierBills, eq(supplierBillItems.supplier_bill_id, supplierBills.id))
+        .where(and(
+          eq(supplierBills.purchase_order_id, purchaseOrderId),
+          ne(supplierBills.status, 'CANCELLED'),
+          isNull(supplierBills.deleted_at),
+          isNull(supplierBillItems.deleted_at),
+        ))
+        .groupBy(supplierBillItems.purchase_order_item_id);
+
+      return result as BilledQuantityRow[];
+    } catch (error) {
+      this.logger.error(`Failed to find billed quantities for purchase order: ${purchaseOrderId}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== PAYMENT OPERATIONS ====================
+
+  async createSupplierPayment(paymentData: CreateSupplierPaymentDto, tx?: DbTransaction): Promise<SupplierPaymentEntity> {
+    this.logger.log(`Recording supplier payment of ${paymentData.amount} on bill: ${paymentData.supplier_bill_id}`);
+
+    try {
+      const result = await (tx ?? this.db)
+        .insert(supplierPayments)
+        .values({
+          supplier_bill_id: paymentData.supplier_bill_id,
+          supplier_id: paymentData.supplier_id,
+          payment_method: paymentData.payment_method,
+          amount: paymentData.amount.toString(),
+          reference: paymentData.reference || null,
+          notes: paymentData.notes || null,
+          paid_by: paymentData.paid_by,
+          paid_at: paymentData.paid_at ?? new Date(),
+          created_by: paymentData.created_by,
+          created_at: new Date(),
+        })
+        .returning();
+
+      this.logger.log(`Supplier payment recorded successfully (ID: ${result[0].id})`);
+      return result[0] as SupplierPaymentEntity;
+    } catch (error) {
+      this.logger.error(`Failed to record supplier payment on bill: ${paymentData.supplier_bill_id}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findSupplierBillPayments(billId: string): Promise<SupplierPaymentEntity[]> {
+    this.logger.log(`Finding payments for supplier bill: ${billId}`);
+
+    try {
+      const result = await this.db
+        .select()
+        .from(supplierPayments)
+        .where(and(eq(supplierPayments.supplier_bill_id, billId), isNull(supplierPayments.deleted_at)))
+        .orderBy(asc(supplierPayments.paid_at));
+
+      return result as SupplierPaymentEntity[];
+    } catch (error) {
+      this.logger.error(`Failed to find payments for supplier bill: ${billId}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== QUERY OPERATIONS ====================
+
+  async findAllSupplierBills(filters: SupplierBillFilters = {}, page = 1, limit = 10): Promise<{
+    data: SupplierBillWithReferences[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    this.logger.log(`Finding all supplier bills with filters:`, filters);
+
+    // Build where conditions
+    const conditions: any[] = [isNull(supplierBills.deleted_at)];
+
+    if (filters.supplier_id) {
+      conditions.push(eq(supplierBills.supplier_id, filters.supplier_id));
+    }
+
+    if (filters.purchase_order_id) {
+      conditions.push(eq(supplierBills.purchase_order_id, filters.purchase_order_id));
+    }
+
+    if (filters.status) {
+      conditions.push(eq(supplierBills.status, filters.status));
+    }
+
+    if (filters.match_status) {
+      conditions.push(eq(supplierBills.match_status, filters.match_status));
+    }
+
+    if (filters.bill_date_from) {
+      conditions.push(gte(supplierBills.bill_date, filters.bill_date_from));
+    }
+
+    if (filters.bill_date_to) {
+      conditions.push(lte(supplierBills.bill_date, filters.bill_date_to));
+    }
+
+    const whereClause = and(...conditions);
+
+    try {
+      // Get total count
+      const total = await this.count(supplierBills, whereClause);
+
+      // Get paginated results, most recent first
+      const offset = (page - 1) * limit;
+      const data = await this.db
+        .select({
+          ...this.billColumns(),
+          supplier_name: suppliers.name,
+          order_number: purchaseOrders.order_number,
+        })
+        .from(supplierBills)
+        .innerJoin(suppliers, eq(supplierBills.supplier_id, suppliers.id))
+        .innerJoin(purchaseOrders, eq(supplierBills.purchase_order_id, purchaseOrders.id))
+        .where(whereClause)
+        .orderBy(desc(supplierBills.bill_date), desc(supplierBills.created_at))
+        .limit(limit)
+        .offset(offset);
+
+      const totalPages = Math.ceil(total / limit);
+
+      this.logger.log(`Found ${data.length} supplier bills out of ${total} total`);
+
+      return {
+        data: data as SupplierBillWithReferences[],
+        total,
+        page,
+        totalPages,
+      };
+    } catch (error) {
+      this.logger.error('Failed to find supplier bills', error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== REPORT QUERIES ====================
+
+  /**
+   * Open and part-paid bills dated on or before the given date that still have a
+   * balance due, oldest first
+   */
+  async findOpenBillBalances(asOf: string, supplierId?: string): Promise<OpenBillBalanceRow[]> {
+    this.logger.log(`Finding open supplier bill balances as of ${asOf}`);
+
+    try {
+      const balanceDue = sql`${supplierBills.total_amount} - ${supplierBills.amount_paid}`;
+
+      const conditions: any[] = [
+        isNull(supplierBills.deleted_at),
+        inArray(supplierBills.status, ['OPEN', 'PARTIAL']),
+        lte(supplierBills.bill_date, asOf),
+        gt(balanceDue, 0),
+      ];
+      if (supplierId) {
+        conditions.push(eq(supplierBills.supplier_id, supplierId));
+      }
+
+      const result = await this.db
+        .select({
+          id: supplierBills.id,
+          bill_number: supplierBills.bill_number,
+          supplier_id: supplierBills.supplier_id,
+          supplier_name: suppliers.name,
+          bill_date: supplierBills.bill_date,
+          due_date: supplierBills.due_date,
+          total_amount: supplierBills.total_amount,
+          amount_paid: supplierBills.amount_paid,
+          balance_due: sql<string>`(${balanceDue})::text`,
+        })
+        .from(supplierBills)
+        .innerJoin(suppliers, eq(supplierBills.supplier_id, suppliers.id))
+        .where(and(...conditions))
+        .orderBy(asc(supplierBills.bill_date));
+
+      this.logger.log(`Found ${result.length} supplier bills with a balance due`);
+      return result as OpenBillBalanceRow[];
+    } catch (error) {
+      this.logger.error('Failed to find open supplier bill balances', error.stack);
+      throw error;
+    }
+  }
+
+  private billColumns() {
+    return {
+      id: supplierBills.id,
+      supplier_id: supplierBills.supplier_id,
+      purchase_order_id: supplierBills.purchase_order_id,
+      bill_number: supplierBills.bill_number,
+      bill_date: supplierBills.bill_date,
+      due_date: supplierBills.due_date,
+      subtotal: supplierBills.subtotal,
+      tax_amount: supplierBills.tax_amount,
+      total_amount: supplierBills.total_amount,
+      amount_paid: supplierBills.amount_paid,
+      status: supplierBills.status,
+      match_status: supplierBills.match_status,
+      notes: supplierBills.notes,
+      created_by: supplierBills.created_by,
+      created_at: supplierBills.created_at,
+      updated_by: supplierBills.updated_by,
+      updated_at: supplierBills.updated_at,
+      deleted_by: supplierBills.deleted_by,
+      deleted_at: supplierBills.deleted_at,
+    };
+  }
+}
@@ -0,0 +1,372 @@
+import { Injectable } from '@nestjs/common';
+import { BaseRepository } from './base.repository';
+import { taxClasses } from '../schema/tax-classes';
+import { products } from '../schema/products';
+import { categories } from '../schema/categories';
+import { salesInvoices } from '../schema/sales-invoices';
+import { salesInvoiceItems } from '../schema/sales-invoice-items';
+import { purchaseOrders } from '../schema/purchase-orders';
+import { purchaseOrderItems } from '../schema/purchase-order-items';
+import { eq, and, isNull, ilike, or, ne, gte, lt, lte, sql } from 'drizzle-orm';
+import { DrizzleService } from '../drizzle.service';
+import { MESSAGES } from '../../../common/constants/string-const';
+
+export interface CreateTaxClassDto {
+  name: string;
+  code: string;
+  rate: number;
+  is_inclusive?: boolean;
+  is_exempt?: boolean;
+  description?: string;
+  is_active?: boolean;
+  created_by: string; // UUID of the user creating the tax class
+}
+
+export interface UpdateTaxClassDto {
+  name?: string;
+  code?: string;
+  rate?: number;
+  is_inclusive?: boolean;
+  is_exempt?: boolean;
+  description?: string;
+  is_active?: boolean;
+  updated_by: string; // UUID of the user updating the tax class
+}
+
+export interface TaxClassEntity {
+  id: string; // UUID
+  name: string;
+  code: string;
+  rate: string; // Decimal stored as string
+  is_inclusive: boolean;
+  is_exempt: boolean;
+  description: string | null;
+  is_active: boolean;
+  created_by: string;
+  created_at: Date;
+  updated_by: string | null;
+  updated_at: Date | null;
+  deleted_by: string | null;
+  deleted_at: Date | null;
+}
+
+export interface TaxClassFilters {
+  search?: string;
+  is_active?: boolean;
+  withDeleted?: boolean;
+}
+
+export interface TaxSummaryRow {
+  tax_class_id: string | null;
+  tax_class_name: string | null;
+  tax_class_code: string | null;
+  tax_rate: string;
+  taxable_amount: string;
+  tax_amount: string;
+  line_count: number;
+}
+
+@Injectable()
+export class TaxClassesRepository extends BaseRepository<TaxClassEntity> {
+  constructor(drizzleService: DrizzleService) {
+    super(drizzleService);
+  }
+
+  //#region ==================== CRUD OPERATIONS ====================
+
+  async create(taxClassData: CreateTaxClassDto): Promise<TaxClassEntity> {
+    this.logger.log(`Creating tax class: ${taxClassData.name} (${taxClassData.code})`);
+
+    try {
+      const result = await this.db
+        .insert(taxClasses)
+        .values({
+          name: taxClassData.name,
+          code: taxClassData.code,
+          rate: taxClassData.rate.toString(),
+          is_inclusive: taxClassData.is_inclusive ?? false,
+          is_exempt: taxClassData.is_exempt ?? false,
+          description: taxClassData.description || null,
+          is_active: taxClassData.is_active ?? true,
+          created_by: taxClassData.created_by,
+          created_at: new Date(),
+        })
+        .returning();
+
+      this.logger.log(`Tax class created successfully: ${taxClassData.name} (ID: ${result[0].id})`);
+      return result[0] as TaxClassEntity;
+    } catch (error) {
+      this.logger.error(`Failed to create tax class: ${taxClassData.name}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findById(id: string, withDeleted = false): Promise<TaxClassEntity | null> {
+    this.logger.log(`Finding tax class by ID: ${id}`);
+
+    const condition = withDeleted
+      ? eq(taxClasses.id, id)
+      : and(eq(taxClasses.id, id), isNull(taxClasses.deleted_at));
+
+    return this.findOne(taxClasses, condition);
+  }
+
+  async findTaxClassByIdOrThrow(id: string, withDeleted = false): Promise<TaxClassEntity> {
+    const condition = withDeleted
+      ? eq(taxClasses.id, id)
+      : and(eq(taxClasses.id, id), isNull(taxClasses.deleted_at));
+
+    return super.findOneOrThrow(taxClasses, condition, MESSAGES.TAX_CLASS_NOT_FOUND);
+  }
+
+  async findByCode(code: string, withDeleted = false): Promise<TaxClassEntity | null> {
+    this.logger.log(`Finding tax class by code: ${code}`);
+
+    const condition = withDeleted
+      ? eq(taxClasses.code, code)
+      : and(eq(taxClasses.code, code), isNull(taxClasses.deleted_at));
+
+    return this.findOne(taxClasses, condition);
+  }
+
+  async update(id: string, updateData: UpdateTaxClassDto): Promise<TaxClassEntity> {
+    this.logger.log(`Updating tax class: ${id}`);
+
+    // First verify tax class exists
+    await this.findTaxClassByIdOrThrow(id);
+
+    try {
+      const updateValues: any = {
+        ...updateData,
+        updated_at: new Date(),
+      };
+
+      // Handle numeric fields
+      if (updateData.rate !== undefined) {
+        updateValues.rate = updateData.rate.toString();
+      }
+
+      const result = await this.db
+        .update(taxClasses)
+        .set(updateValues)
+        .where(and(eq(taxClasses.id, id), isNull(taxClasses.deleted_at)))
+        .returning();
+
+      if (!result.length) {
+        this.logger.error(`No tax class updated with ID: ${id}`);
+        throw new Error(MESSAGES.TAX_CLASS_NOT_FOUND);
+      }
+
+      this.logger.log(`Tax class updated successfully: ${id}`);
+      return result[0] as TaxClassEntity;
+    } catch (error) {
+      this.logger.error(`Failed to update tax class: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  async delete(id: string, deletedBy: string): Promise<boolean> {
+    this.logger.log(`Soft deleting tax class: ${id}`);
+
+    // First verify tax class exists
+    await this.findTaxClassByIdOrThrow(id);
+
+    try {
+      const result = await this.db
+        .update(taxClasses)
+        .set({
+          is_active: false,
+          deleted_by: deletedBy,
+          deleted_at: new Date(),
+          updated_by: deletedBy,
+          updated_at: new Date(),
+        })
+        .where(and(eq(taxClasses.id, id), isNull(taxClasses.deleted_at)))
+        .returning();
+
+      const success = result.length > 0;
+      if (success) {
+        this.logger.log(`Tax class soft deleted successfully: ${id}`);
+      } else {
+        this.logger.error(`Failed to soft delete tax class: ${id}`);
+      }
+      return success;
+    } catch (error) {
+      this.logger.error(`Failed to soft delete tax class: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== QUERY OPERATIONS ====================
+
+  async findAll(filters: TaxClassFilters = {}, page = 1, limit = 10): Promise<{
+    data: TaxClassEntity[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    this.logger.log(`Finding all tax classes with filters:`, filters);
+
+    // Build where conditions
+    const conditions: any[] = [];
+
+    if (!filters.withDeleted) {
+      conditions.push(isNull(taxClasses.deleted_at));
+    }
+
+    if (filters.search) {
+      conditions.push(or(
+        ilike(taxClasses.name, `%${filters.search}%`),
+        ilike(taxClasses.code, `%${filters.search}%`),
+      ));
+    }
+
+    if (typeof filters.is_active === 'boolean') {
+      conditions.push(eq(taxClasses.is_active, filters.is_active));
+    }
+
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+    // Get total count
+    const total = await this.count(taxClasses, whereClause);
+
+    // Get paginated results, lowest rate first
+    const offset = (page - 1) * limit;
+    const data = await this.db
+      .select()
+      .from(taxClasses)
+      .where(whereClause)
+      .orderBy(taxClasses.rate, taxClasses.name)
+      .limit(limit)
+      .offset(offset);
+
+    const totalPages = Math.ceil(total / limit);
+
+    this.logger.log(`Found ${data.length} tax classes out of ${total} total`);
+
+    return {
+      data: data as TaxClassEntity[],
+      total,
+      page,
+      totalPages,
+    };
+  }
+
+  async findActiveTaxClasses(): Promise<TaxClassEntity[]> {
+    this.logger.log('Finding all active tax classes');
+
+    const result = await this.db
+      .select()
+      .from(taxClasses)
+      .where(and(
+        eq(taxClasses.is_active, true),
+        isNull(taxClasses.deleted_at)
+      ))
+      .orderBy(taxClasses.rate, taxClasses.name);
+
+    this.logger.log(`Found ${result.length} active tax classes`);
+    return result as TaxClassEntity[];
+  }
+
+  async isInUse(id: string): Promise<boolean> {
+    this.logger.log(`Checking whether tax class is assigned: ${id}`);
+
+    const productCount = await this.count(products, and(
+      eq(products.tax_class_id, id),
+      isNull(products.deleted_at),
+    ));
+    if (productCount > 0) {
+      return true;
+    }
+
+    const categoryCount = await this.count(categories, and(
+      eq(categories.tax_class_id, id),
+      isNull(categories.deleted_at),
+    ));
+    return categoryCount > 0;
+  }
+
+  //#region ==================== REPORT QUERIES ====================
+
+  /**
+   * Output tax on sales in [from, to), grouped by class and rate. Returned units are
+   * taken out pro rata so refunds reduce the tax owed.
+   */
+  async getSalesTaxSummary(from: Date, to: Date): Promise<TaxSummaryRow[]> {
+    this.logger.log(`Summarising sales tax from ${from.toISOString()} to ${to.toISOString()}`);
+
+    try {
+      const soldShare = sql`(${salesInvoiceItems.quantity} - ${salesInvoiceItems.quantity_returned})::numeric / NULLIF(${salesInvoiceItems.quantity}, 0)`;
+
+      const result = await this.db
+        .select({
+          tax_class_id: salesInvoiceItems.tax_class_id,
+          tax_class_name: taxClasses.name,
+          tax_class_code: taxClasses.code,
+          tax_rate: salesInvoiceItems.tax_rate,
+          taxable_amount: sql<string>`ROUND(COALESCE(SUM(${salesInvoiceItems.taxable_amount} * ${soldShare}), 0), 2)::text`,
+          tax_amount: sql<string>`ROUND(COALESCE(SUM(${salesInvoiceItems.tax_amount} * ${soldShare}), 0), 2)::text`,
+          line_count: sql<number>`count(*)::int`,
+        })
+        .from(salesInvoiceItems)
+        .innerJoin(salesInvoices, eq(salesInvoiceItems.sales_invoice_id, salesInvoices.id))
+        .leftJoin(taxClasses, eq(salesInvoiceItems.tax_class_id, taxClasses.id))
+        .where(and(
+          isNull(salesInvoiceItems.deleted_at),
+          isNull(salesInvoices.deleted_at),
+          ne(salesInvoices.payment_status, 'CANCELLED'),
+          gte(salesInvoices.created_at, from),
+          lt(salesInvoices.created_at, to),
+        ))
+        .groupBy(salesInvoiceItems.tax_class_id, taxClasses.name, taxClasses.code, salesInvoiceItems.tax_rate)
+        .orderBy(salesInvoiceItems.tax_rate, taxClasses.name);
+
+      this.logger.log(`Found ${result.length} sales tax groups`);
+      return result as TaxSummaryRow[];
+    } catch (error) {
+      this.logger.error('Failed to summarise sales tax', error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Input tax on purchase orders dated within [from, to], grouped by class and rate.
+   * Only goods that were received and kept count towards the claimable tax.
+   */
+  async getPurchaseTaxSummary(from: string, to: string): Promise<TaxSummaryRow[]> {
+    this.logger.log(`Summarising purchase tax from ${from} to ${to}`);
+
+    try {
+      const keptShare = sql`GREATEST(${purchaseOrderItems.quantity_received} - ${purchaseOrderItems.quantity_returned}, 0)::numeric / NULLIF(${purchaseOrderItems.quantity_ordered}, 0)`;
+
+      const result = await this.db
+        .select({
+          tax_class_id: purchaseOrderItems.tax_class_id,
+          tax_class_name: taxClasses.name,
+          tax_class_code: taxClasses.code,
+          tax_rate: purchaseOrderItems.tax_rate,
+          taxable_amount: sql<string>`ROUND(COALESCE(SUM(${purchaseOrderItems.taxable_amount} * ${keptShare}), 0), 2)::text`,
+          tax_amount: sql<string>`ROUND(COALESCE(SUM(${purchaseOrderItems.tax_amount} * ${keptShare}), 0), 2)::text`,
+          line_count: sql<number>`count(*)::int`,
+        })
+        .from(purchaseOrderItems)
+        .innerJoin(purchaseOrders, eq(purchaseOrderItems.purchase_order_id, purchaseOrders.id))
+        .leftJoin(taxClasses, eq(purchaseOrderItems.tax_class_id, taxClasses.id))
+        .where(and(
+          isNull(purchaseOrderItems.deleted_at),
+          isNull(purchaseOrders.deleted_at),
+          ne(purchaseOrders.status, 'CANCELLED'),
+          gte(purchaseOrders.order_date, from),
+          lte(purchaseOrders.order_date, to),
+        ))
+        .groupBy(purchaseOrderItems.tax_class_id, taxClasses.name, taxClasses.code, purchaseOrderItems.tax_rate)
+        .orderBy(purchaseOrderItems.tax_rate, taxClasses.name);
+
+      this.logger.log(`Found ${result.length} purchase tax groups`);
+      return result as TaxSummaryRow[];
+    } catch (error) {
+      this.logger.error('Failed to summarise purchase tax', error.stack);
+      throw error;
+    }
+  }
+}
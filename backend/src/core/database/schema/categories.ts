@@ -1,11 +1,14 @@
-import { pgTable, text, boolean, timestamp, uuid } from 'drizzle-orm/pg-core';
+import { pgTable, text, boolean, timestamp, uuid, unique, AnyPgColumn } from 'drizzle-orm/pg-core';
 import { users } from './users';
+import { taxClasses } from './tax-classes';
 
 // Categories table
 export const categories = pgTable('categories', {
   id: uuid('id').primaryKey().defaultRandom(),
-  name: text('name').notNull().unique(),
+  name: text('name').notNull(),
+  parent_id: uuid('parent_id').references((): AnyPgColumn => categories.id, { onDelete: 'set null', onUpdate: 'cascade' }), // Null for top-level categories
   description: text('description'),
+  tax_class_id: uuid('tax_class_id').references(() => taxClasses.id, { onDelete: 'set null', onUpdate: 'cascade' }), // Default for products in this category
   is_active: boolean('is_active').default(true).notNull(),
 
   // Audit fields
@@ -15,4 +18,7 @@ export const categories = pgTable('categories', {
   updated_at: timestamp('updated_at'),
   deleted_by: uuid('deleted_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
   deleted_at: timestamp('deleted_at'),
-});
+}, (table) => [
+  // Names only need to be unique among siblings, so "Accessories" can sit under both Phones and Laptops
+  unique('categories_parent_name_unique').on(table.parent_id, table.name).nullsNotDistinct(),
+]);
@@ -0,0 +1,60 @@
+import { pgTable, text, timestamp, uuid, integer, decimal, index } from 'drizzle-orm/pg-core';
+import { users } from './users';
+import { products } from './products';
+import { purchaseOrderItems } from './purchase-order-items';
+import { salesInvoiceItems } from './sales-invoice-items';
+import { referenceTypeEnum } from './stock-transactions';
+
+// Cost_Layers table: a batch of units that entered inventory at one unit cost
+export const costLayers = pgTable('cost_layers', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  product_id: uuid('product_id').notNull().references(() => products.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  reference_type: referenceTypeEnum('reference_type').notNull(),
+  reference_id: uuid('reference_id'),
+  purchase_order_item_id: uuid('purchase_order_item_id').references(() => purchaseOrderItems.id, { onDelete: 'set null', onUpdate: 'cascade' }),
+  sales_invoice_item_id: uuid('sales_invoice_item_id').references(() => salesInvoiceItems.id, { onDelete: 'set null', onUpdate: 'cascade' }), // Units coming back from a sale
+  unit_cost: decimal('unit_cost', { precision: 14, scale: 4 }).notNull(),
+  quantity_received: integer('quantity_received').notNull(),
+  quantity_remaining: integer('quantity_remaining').notNull(),
+  received_at: timestamp('received_at').defaultNow().notNull(),
+  notes: text('notes'),
+
+  // Audit fields
+  created_by: uuid('created_by').notNull().references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_by: uuid('updated_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  updated_at: timestamp('updated_at'),
+  deleted_by: uuid('deleted_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  deleted_at: timestamp('deleted_at'),
+}, (table) => [
+  // Layers are consumed oldest first per product
+  index('cost_layers_product_received_at_idx').on(table.product_id, table.received_at),
+  index('cost_layers_purchase_order_item_id_idx').on(table.purchase_order_item_id),
+]);
+
+// Cost_Layer_Consumptions table: units taken out of a layer and the cost they were charged at
+export const costLayerConsumptions = pgTable('cost_layer_consumptions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  product_id: uuid('product_id').notNull().references(() => products.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  cost_layer_id: uuid('cost_layer_id').references(() => costLayers.id, { onDelete: 'cascade', onUpdate: 'cascade' }), // Null when no layer was left to cover the units
+  reference_type: referenceTypeEnum('reference_type').notNull(),
+  reference_id: uuid('reference_id'),
+  sales_invoice_item_id: uuid('sales_invoice_item_id').references(() => salesInvoiceItems.id, { onDelete: 'set null', onUpdate: 'cascade' }),
+  purchase_order_item_id: uuid('purchase_order_item_id').references(() => purchaseOrderItems.id, { onDelete: 'set null', onUpdate: 'cascade' }),
+  quantity: integer('quantity').notNull(),
+  unit_cost: decimal('unit_cost', { precision: 14, scale: 4 }).notNull(),
+  total_cost: decimal('total_cost', { precision: 14, scale: 4 }).notNull(),
+  consumed_at: timestamp('consumed_at').defaultNow().notNull(),
+
+  // Audit fields
+  created_by: uuid('created_by').notNull().references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_by: uuid('updated_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  updated_at: timestamp('updated_at'),
+  deleted_by: uuid('deleted_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  deleted_at: timestamp('deleted_at'),
+}, (table) => [
+  index('cost_layer_consumptions_product_consumed_at_idx').on(table.product_id, table.consumed_at),
+  index('cost_layer_consumptions_cost_layer_id_idx').on(table.cost_layer_id),
+  index('cost_layer_consumptions_sales_invoice_item_id_idx').on(table.sales_invoice_item_id),
+]);
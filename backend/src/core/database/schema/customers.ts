@@ -0,0 +1,25 @@
+import { pgTable, text, boolean, timestamp, uuid, decimal } from 'drizzle-orm/pg-core';
+import { users } from './users';
+
+// Customers table
+export const customers = pgTable('customers', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: text('name').notNull(),
+  email: text('email'),
+  phone: text('phone'),
+  company_name: text('company_name'),
+  tax_id: text('tax_id'),
+  billing_address: text('billing_address'),
+  shipping_address: text('shipping_address'),
+  credit_limit: decimal('credit_limit', { precision: 12, scale: 2 }), // Null means no limit on unpaid invoices
+  notes: text('notes'),
+  is_active: boolean('is_active').default(true).notNull(),
+
+  // Audit fields
+  created_by: uuid('created_by').notNull().references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_by: uuid('updated_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  updated_at: timestamp('updated_at'),
+  deleted_by: uuid('deleted_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  deleted_at: timestamp('deleted_at'),
+});
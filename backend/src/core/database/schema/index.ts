@@ -2,15 +2,29 @@ import { healthChecking } from './health-checking';
 import { users } from './users';
 import { posts } from './posts';
 import { userRoles, roleEnum } from './user-roles';
+import { taxClasses } from './tax-classes';
 import { categories } from './categories';
 import { suppliers } from './suppliers';
+import { customers } from './customers';
 import { products } from './products';
+import { promotions, promotionTypeEnum, promotionScopeEnum } from './promotions';
+import { locations } from './locations';
 import { stock } from './stock';
+import { stockTransfers } from './stock-transfers';
+import { stockReservations, reservationStatusEnum } from './stock-reservations';
 import { stockTransactions, transactionTypeEnum, referenceTypeEnum } from './stock-transactions';
 import { purchaseOrders, purchaseOrderStatusEnum } from './purchase-orders';
 import { purchaseOrderItems } from './purchase-order-items';
+import { purchaseOrderReceipts } from './purchase-order-receipts';
+import { purchaseOrderReceiptItems } from './purchase-order-receipt-items';
+import { supplierBills, supplierBillItems, supplierBillStatusEnum, billMatchStatusEnum } from './supplier-bills';
+import { supplierPayments } from './supplier-payments';
 import { salesInvoices, paymentStatusEnum } from './sales-invoices';
 import { salesInvoiceItems } from './sales-invoice-items';
+import { costLayers, costLayerConsumptions } from './cost-layers';
+import { payments, paymentTypeEnum, paymentMethodEnum } from './payments';
+import { returns, returnTypeEnum, returnReasonEnum } from './returns';
+import { returnItems, returnDispositionEnum } from './return-items';
 
 // Schema exports
 export const schema = {
@@ -18,15 +32,31 @@ export const schema = {
   users,
   posts,
   userRoles,
+  taxClasses,
   categories,
   suppliers,
+  customers,
   products,
+  promotions,
+  locations,
   stock,
   stockTransactions,
+  stockTransfers,
+  stockReservations,
   purchaseOrders,
   purchaseOrderItems,
+  purchaseOrderReceipts,
+  purchaseOrderReceiptItems,
+  supplierBills,
+  supplierBillItems,
+  supplierPayments,
   salesInvoices,
   salesInvoiceItems,
+  costLayers,
+  costLayerConsumptions,
+  payments,
+  returns,
+  returnItems,
 };
 
 // Export individual tables for convenience
@@ -35,15 +65,31 @@ export {
   users, 
   posts,
   userRoles,
+  taxClasses,
   categories,
   suppliers,
+  customers,
   products,
+  promotions,
+  locations,
   stock,
   stockTransactions,
+  stockTransfers,
+  stockReservations,
   purchaseOrders,
   purchaseOrderItems,
+  purchaseOrderReceipts,
+  purchaseOrderReceiptItems,
+  supplierBills,
+  supplierBillItems,
+  supplierPayments,
   salesInvoices,
   salesInvoiceItems,
+  costLayers,
+  costLayerConsumptions,
+  payments,
+  returns,
+  returnItems,
 };
 
 // Export enums
@@ -51,6 +97,16 @@ export {
   roleEnum,
   transactionTypeEnum,
   referenceTypeEnum,
+  reservationStatusEnum,
   purchaseOrderStatusEnum,
   paymentStatusEnum,
+  returnTypeEnum,
+  returnReasonEnum,
+  returnDispositionEnum,
+  promotionTypeEnum,
+  promotionScopeEnum,
+  paymentTypeEnum,
+  paymentMethodEnum,
+  supplierBillStatusEnum,
+  billMatchStatusEnum,
 };
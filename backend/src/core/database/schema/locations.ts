@@ -0,0 +1,20 @@
+import { pgTable, text, boolean, timestamp, uuid } from 'drizzle-orm/pg-core';
+import { users } from './users';
+
+// Locations table (stores, branches, backrooms and warehouses that hold stock)
+export const locations = pgTable('locations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: text('name').notNull(),
+  code: text('code').notNull().unique(),
+  address: text('address'),
+  is_default: boolean('is_default').default(false).notNull(),
+  is_active: boolean('is_active').default(true).notNull(),
+
+  // Audit fields
+  created_by: uuid('created_by').notNull().references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_by: uuid('updated_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  updated_at: timestamp('updated_at'),
+  deleted_by: uuid('deleted_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  deleted_at: timestamp('deleted_at'),
+});
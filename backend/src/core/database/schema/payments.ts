@@ -0,0 +1,31 @@
+import { pgTable, text, timestamp, uuid, decimal, pgEnum, index } from 'drizzle-orm/pg-core';
+import { users } from './users';
+import { salesInvoices } from './sales-invoices';
+
+// Define payment enums
+export const paymentTypeEnum = pgEnum('payment_type', ['PAYMENT', 'REFUND']);
+export const paymentMethodEnum = pgEnum('payment_method', ['CASH', 'CARD', 'BANK_TRANSFER', 'CHEQUE', 'OTHER']);
+
+// Payments table: money received against an invoice, and refunds paid back out of it
+export const payments = pgTable('payments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  sales_invoice_id: uuid('sales_invoice_id').notNull().references(() => salesInvoices.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  payment_type: paymentTypeEnum('payment_type').default('PAYMENT').notNull(),
+  payment_method: paymentMethodEnum('payment_method').notNull(),
+  amount: decimal('amount', { precision: 12, scale: 2 }).notNull(), // Always positive; the type gives the direction
+  reference: text('reference'), // Card slip, transfer or cheque number
+  notes: text('notes'),
+  received_by: uuid('received_by').notNull().references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  received_at: timestamp('received_at').defaultNow().notNull(),
+
+  // Audit fields
+  created_by: uuid('created_by').notNull().references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_by: uuid('updated_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  updated_at: timestamp('updated_at'),
+  deleted_by: uuid('deleted_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  deleted_at: timestamp('deleted_at'),
+}, (table) => [
+  index('payments_sales_invoice_id_idx').on(table.sales_invoice_id),
+  index('payments_received_at_idx').on(table.received_at),
+]);
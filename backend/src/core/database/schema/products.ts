@@ -1,6 +1,21 @@
-import { pgTable, text, boolean, timestamp, uuid, decimal, integer } from 'drizzle-orm/pg-core';
+import { pgTable, text, boolean, timestamp, uuid, decimal, integer, jsonb, AnyPgColumn } from 'drizzle-orm/pg-core';
 import { users } from './users';
 import { categories } from './categories';
+import { suppliers } from './suppliers';
+import { taxClasses } from './tax-classes';
+
+// A variant dimension defined on a parent product, e.g. { name: 'Size', values: ['S', 'M', 'L'] }
+export interface ProductVariantAttribute {
+  name: string;
+  values: string[];
+}
+
+// An alternative unit a product is bought or sold in, e.g. { code: 'CASE', name: 'Case of 24', factor: 24 }
+export interface ProductUnit {
+  code: string;
+  name: string;
+  factor: number; // Base units in one of this unit
+}
 
 // Products table
 export const products = pgTable('products', {
@@ -13,8 +28,27 @@ export const products = pgTable('products', {
   unit_price: decimal('unit_price', { precision: 10, scale: 2 }).notNull(),
   cost_price: decimal('cost_price', { precision: 10, scale: 2 }),
   minimum_stock_level: integer('minimum_stock_level').default(0).notNull(),
+  // Reorder settings; reorder_point falls back to minimum_stock_level when not set
+  reorder_point: integer('reorder_point'),
+  target_stock_level: integer('target_stock_level'),
+  preferred_supplier_id: uuid('preferred_supplier_id').references(() => suppliers.id, { onDelete: 'set null', onUpdate: 'cascade' }),
+  tax_class_id: uuid('tax_class_id').references(() => taxClasses.id, { onDelete: 'set null', onUpdate: 'cascade' }), // Falls back to the category's class
   is_active: boolean('is_active').default(true).notNull(),
 
+  // Units of measure; stock is always counted in whole base units, so goods sold by weight use a
+  // small base unit (G) and are bought and sold in a larger one (KG)
+  base_unit: text('base_unit').default('EA').notNull(),
+  units: jsonb('units').$type<ProductUnit[]>(),
+  purchase_unit: text('purchase_unit'), // Default unit on purchase order lines, base unit when not set
+  sales_unit: text('sales_unit'), // Default unit on invoice lines, base unit when not set
+
+  // Variants are products of their own (SKU, barcode, price, stock) that point at a parent;
+  // the parent only carries the attributes and is never stocked or sold itself
+  parent_product_id: uuid('parent_product_id').references((): AnyPgColumn => products.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  variant_attributes: jsonb('variant_attributes').$type<ProductVariantAttribute[]>(), // Set on parents only
+  variant_options: jsonb('variant_options').$type<Record<string, string>>(), // Attribute name to value, set on variants only
+  has_price_override: boolean('has_price_override').default(false).notNull(), // Variant price no longer follows the parent's
+
   // Audit fields
   created_by: uuid('created_by').notNull().references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
   created_at: timestamp('created_at').defaultNow().notNull(),
@@ -0,0 +1,39 @@
+import { pgTable, text, boolean, timestamp, uuid, integer, decimal, pgEnum } from 'drizzle-orm/pg-core';
+import { users } from './users';
+import { products } from './products';
+import { categories } from './categories';
+
+// Define promotion enums
+export const promotionTypeEnum = pgEnum('promotion_type', ['PERCENTAGE', 'FIXED_AMOUNT', 'BUY_X_GET_Y']);
+export const promotionScopeEnum = pgEnum('promotion_scope', ['ALL_PRODUCTS', 'PRODUCT', 'CATEGORY']);
+
+// Promotions table
+export const promotions = pgTable('promotions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: text('name').notNull(),
+  description: text('description'),
+  promotion_type: promotionTypeEnum('promotion_type').notNull(),
+  scope: promotionScopeEnum('scope').default('ALL_PRODUCTS').notNull(),
+  product_id: uuid('product_id').references(() => products.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  category_id: uuid('category_id').references(() => categories.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  discount_value: decimal('discount_value', { precision: 10, scale: 2 }).default('0').notNull(), // Percent or amount; percent off the free units for BUY_X_GET_Y
+  buy_quantity: integer('buy_quantity'),
+  get_quantity: integer('get_quantity'),
+  min_subtotal: decimal('min_subtotal', { precision: 12, scale: 2 }),
+
+  // Campaign window and coupon redemption
+  starts_at: timestamp('starts_at'),
+  ends_at: timestamp('ends_at'),
+  coupon_code: text('coupon_code').unique(), // Only applied when the code is entered
+  usage_limit: integer('usage_limit'),
+  usage_count: integer('usage_count').default(0).notNull(),
+  is_active: boolean('is_active').default(true).notNull(),
+
+  // Audit fields
+  created_by: uuid('created_by').notNull().references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_by: uuid('updated_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  updated_at: timestamp('updated_at'),
+  deleted_by: uuid('deleted_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  deleted_at: timestamp('deleted_at'),
+});
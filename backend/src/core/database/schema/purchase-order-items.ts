@@ -1,18 +1,30 @@
-import { pgTable, timestamp, uuid, integer, decimal } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, uuid, decimal, boolean } from 'drizzle-orm/pg-core';
 import { users } from './users';
 import { purchaseOrders } from './purchase-orders';
 import { products } from './products';
+import { taxClasses } from './tax-classes';
 
 // Purchase_Order_Items table
 export const purchaseOrderItems = pgTable('purchase_order_items', {
   id: uuid('id').primaryKey().defaultRandom(),
   purchase_order_id: uuid('purchase_order_id').notNull().references(() => purchaseOrders.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
   product_id: uuid('product_id').notNull().references(() => products.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
-  quantity_ordered: integer('quantity_ordered').notNull(),
-  quantity_received: integer('quantity_received').default(0).notNull(),
+  // Quantities and unit cost are in the line's unit; stock moves in the product's base unit
+  quantity_ordered: decimal('quantity_ordered', { precision: 12, scale: 3, mode: 'number' }).notNull(),
+  quantity_received: decimal('quantity_received', { precision: 12, scale: 3, mode: 'number' }).default(0).notNull(),
+  quantity_returned: decimal('quantity_returned', { precision: 12, scale: 3, mode: 'number' }).default(0).notNull(),
+  unit_code: text('unit_code').default('EA').notNull(),
+  unit_factor: decimal('unit_factor', { precision: 14, scale: 4, mode: 'number' }).default(1).notNull(), // Base units per line unit
   unit_cost: decimal('unit_cost', { precision: 10, scale: 2 }).notNull(),
   total_cost: decimal('total_cost', { precision: 12, scale: 2 }).notNull(),
 
+  // Tax snapshot at the time of the transaction
+  tax_class_id: uuid('tax_class_id').references(() => taxClasses.id, { onDelete: 'set null', onUpdate: 'cascade' }),
+  tax_rate: decimal('tax_rate', { precision: 5, scale: 2 }).default('0').notNull(),
+  tax_inclusive: boolean('tax_inclusive').default(false).notNull(),
+  taxable_amount: decimal('taxable_amount', { precision: 12, scale: 2 }).default('0').notNull(), // Net of tax and discount
+  tax_amount: decimal('tax_amount', { precision: 10, scale: 2 }).default('0').notNull(),
+
   // Audit fields
   created_by: uuid('created_by').notNull().references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
   created_at: timestamp('created_at').defaultNow().notNull(),
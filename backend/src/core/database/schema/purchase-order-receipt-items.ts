@@ -0,0 +1,22 @@
+import { pgTable, timestamp, uuid, decimal } from 'drizzle-orm/pg-core';
+import { users } from './users';
+import { purchaseOrderReceipts } from './purchase-order-receipts';
+import { purchaseOrderItems } from './purchase-order-items';
+import { products } from './products';
+
+// Purchase_Order_Receipt_Items table
+export const purchaseOrderReceiptItems = pgTable('purchase_order_receipt_items', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  receipt_id: uuid('receipt_id').notNull().references(() => purchaseOrderReceipts.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  purchase_order_item_id: uuid('purchase_order_item_id').notNull().references(() => purchaseOrderItems.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  product_id: uuid('product_id').notNull().references(() => products.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  quantity_received: decimal('quantity_received', { precision: 12, scale: 3, mode: 'number' }).notNull(), // In the order line's unit
+
+  // Audit fields
+  created_by: uuid('created_by').notNull().references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_by: uuid('updated_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  updated_at: timestamp('updated_at'),
+  deleted_by: uuid('deleted_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  deleted_at: timestamp('deleted_at'),
+});
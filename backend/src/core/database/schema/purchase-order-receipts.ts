@@ -0,0 +1,19 @@
+import { pgTable, text, timestamp, uuid } from 'drizzle-orm/pg-core';
+import { users } from './users';
+import { purchaseOrders } from './purchase-orders';
+
+// Purchase_Order_Receipts table (one row per delivery received against a purchase order)
+export const purchaseOrderReceipts = pgTable('purchase_order_receipts', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  purchase_order_id: uuid('purchase_order_id').notNull().references(() => purchaseOrders.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  received_at: timestamp('received_at').defaultNow().notNull(),
+  notes: text('notes'),
+
+  // Audit fields
+  created_by: uuid('created_by').notNull().references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_by: uuid('updated_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  updated_at: timestamp('updated_at'),
+  deleted_by: uuid('deleted_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  deleted_at: timestamp('deleted_at'),
+});
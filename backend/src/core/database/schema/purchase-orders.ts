@@ -3,7 +3,7 @@ import { users } from './users';
 import { suppliers } from './suppliers';
 
 // Define purchase order status enum
-export const purchaseOrderStatusEnum = pgEnum('purchase_order_status', ['PENDING', 'CONFIRMED', 'RECEIVED', 'CANCELLED']);
+export const purchaseOrderStatusEnum = pgEnum('purchase_order_status', ['PENDING', 'CONFIRMED', 'PARTIALLY_RECEIVED', 'RECEIVED', 'CANCELLED']);
 
 // Purchase_Orders table
 export const purchaseOrders = pgTable('purchase_orders', {
@@ -14,6 +14,8 @@ export const purchaseOrders = pgTable('purchase_orders', {
   order_date: date('order_date'),
   expected_delivery_date: date('expected_delivery_date'),
   total_amount: decimal('total_amount', { precision: 12, scale: 2 }),
+  tax_amount: decimal('tax_amount', { precision: 10, scale: 2 }).default('0').notNull(),
+  returned_amount: decimal('returned_amount', { precision: 12, scale: 2 }).default('0').notNull(),
   notes: text('notes'),
 
   // Audit fields
@@ -0,0 +1,31 @@
+import { pgTable, timestamp, uuid, decimal, pgEnum } from 'drizzle-orm/pg-core';
+import { users } from './users';
+import { returns, returnReasonEnum } from './returns';
+import { products } from './products';
+import { salesInvoiceItems } from './sales-invoice-items';
+import { purchaseOrderItems } from './purchase-order-items';
+
+// Define return disposition enum (what happens to the returned goods)
+export const returnDispositionEnum = pgEnum('return_disposition', ['RESTOCK', 'WRITE_OFF']);
+
+// Return_Items table
+export const returnItems = pgTable('return_items', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  return_id: uuid('return_id').notNull().references(() => returns.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  product_id: uuid('product_id').notNull().references(() => products.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  sales_invoice_item_id: uuid('sales_invoice_item_id').references(() => salesInvoiceItems.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  purchase_order_item_id: uuid('purchase_order_item_id').references(() => purchaseOrderItems.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  quantity: decimal('quantity', { precision: 12, scale: 3, mode: 'number' }).notNull(), // In the returned line's unit
+  disposition: returnDispositionEnum('disposition').notNull(),
+  reason: returnReasonEnum('reason'),
+  unit_amount: decimal('unit_amount', { precision: 10, scale: 2 }).notNull(),
+  total_amount: decimal('total_amount', { precision: 12, scale: 2 }).notNull(),
+
+  // Audit fields
+  created_by: uuid('created_by').notNull().references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_by: uuid('updated_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  updated_at: timestamp('updated_at'),
+  deleted_by: uuid('deleted_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  deleted_at: timestamp('deleted_at'),
+});
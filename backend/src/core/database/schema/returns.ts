@@ -0,0 +1,38 @@
+import { pgTable, text, timestamp, uuid, decimal, pgEnum } from 'drizzle-orm/pg-core';
+import { users } from './users';
+import { salesInvoices } from './sales-invoices';
+import { purchaseOrders } from './purchase-orders';
+
+// Define return type enum
+export const returnTypeEnum = pgEnum('return_type', ['CUSTOMER', 'SUPPLIER']);
+
+// Define return reason enum
+export const returnReasonEnum = pgEnum('return_reason', [
+  'DAMAGED',
+  'DEFECTIVE',
+  'WRONG_ITEM',
+  'NOT_AS_DESCRIBED',
+  'EXPIRED',
+  'CHANGED_MIND',
+  'OTHER',
+]);
+
+// Returns table (customer returns against sales invoices, supplier returns against purchase orders)
+export const returns = pgTable('returns', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  return_number: text('return_number').notNull().unique(),
+  return_type: returnTypeEnum('return_type').notNull(),
+  sales_invoice_id: uuid('sales_invoice_id').references(() => salesInvoices.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  purchase_order_id: uuid('purchase_order_id').references(() => purchaseOrders.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  reason: returnReasonEnum('reason').notNull(),
+  refund_amount: decimal('refund_amount', { precision: 12, scale: 2 }).default('0').notNull(),
+  notes: text('notes'),
+
+  // Audit fields
+  created_by: uuid('created_by').notNull().references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_by: uuid('updated_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  updated_at: timestamp('updated_at'),
+  deleted_by: uuid('deleted_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  deleted_at: timestamp('deleted_at'),
+});
@@ -1,17 +1,37 @@
-import { pgTable, timestamp, uuid, integer, decimal } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, uuid, decimal, boolean } from 'drizzle-orm/pg-core';
 import { users } from './users';
 import { salesInvoices } from './sales-invoices';
 import { products } from './products';
+import { taxClasses } from './tax-classes';
+import { promotions } from './promotions';
 
 // Sales_Invoice_Items table
 export const salesInvoiceItems = pgTable('sales_invoice_items', {
   id: uuid('id').primaryKey().defaultRandom(),
   sales_invoice_id: uuid('sales_invoice_id').notNull().references(() => salesInvoices.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
   product_id: uuid('product_id').notNull().references(() => products.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
-  quantity: integer('quantity').notNull(),
+  // Quantities and unit price are in the line's unit; stock moves in the product's base unit
+  quantity: decimal('quantity', { precision: 12, scale: 3, mode: 'number' }).notNull(),
+  quantity_returned: decimal('quantity_returned', { precision: 12, scale: 3, mode: 'number' }).default(0).notNull(),
+  unit_code: text('unit_code').default('EA').notNull(),
+  unit_factor: decimal('unit_factor', { precision: 14, scale: 4, mode: 'number' }).default(1).notNull(), // Base units per line unit
   unit_price: decimal('unit_price', { precision: 10, scale: 2 }).notNull(),
   total_price: decimal('total_price', { precision: 12, scale: 2 }).notNull(),
 
+  // Tax snapshot at the time of the transaction
+  tax_class_id: uuid('tax_class_id').references(() => taxClasses.id, { onDelete: 'set null', onUpdate: 'cascade' }),
+  tax_rate: decimal('tax_rate', { precision: 5, scale: 2 }).default('0').notNull(),
+  tax_inclusive: boolean('tax_inclusive').default(false).notNull(),
+  taxable_amount: decimal('taxable_amount', { precision: 12, scale: 2 }).default('0').notNull(), // Net of tax and discount
+  tax_amount: decimal('tax_amount', { precision: 10, scale: 2 }).default('0').notNull(),
+
+  // Promotion applied to the line
+  promotion_id: uuid('promotion_id').references(() => promotions.id, { onDelete: 'set null', onUpdate: 'cascade' }),
+  discount_amount: decimal('discount_amount', { precision: 10, scale: 2 }).default('0').notNull(), // Promotion discount, net of tax
+
+  // Cost of the units on the line, taken from inventory cost layers when they left stock
+  cost_of_goods_sold: decimal('cost_of_goods_sold', { precision: 12, scale: 2 }).default('0').notNull(),
+
   // Audit fields
   created_by: uuid('created_by').notNull().references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
   created_at: timestamp('created_at').defaultNow().notNull(),
@@ -1,5 +1,6 @@
 import { pgTable, text, timestamp, uuid, decimal, pgEnum } from 'drizzle-orm/pg-core';
 import { users } from './users';
+import { customers } from './customers';
 
 // Define payment status enum
 export const paymentStatusEnum = pgEnum('payment_status', ['PENDING', 'PAID', 'PARTIAL', 'CANCELLED']);
@@ -8,13 +9,18 @@ export const paymentStatusEnum = pgEnum('payment_status', ['PENDING', 'PAID', 'P
 export const salesInvoices = pgTable('sales_invoices', {
   id: uuid('id').primaryKey().defaultRandom(),
   invoice_number: text('invoice_number').notNull().unique(),
+  customer_id: uuid('customer_id').references(() => customers.id, { onDelete: 'set null', onUpdate: 'cascade' }),
+  // Contact details as captured on the invoice
   customer_name: text('customer_name'),
   customer_email: text('customer_email'),
   customer_phone: text('customer_phone'),
   subtotal: decimal('subtotal', { precision: 12, scale: 2 }).notNull(),
   tax_amount: decimal('tax_amount', { precision: 10, scale: 2 }).default('0').notNull(),
-  discount_amount: decimal('discount_amount', { precision: 10, scale: 2 }).default('0').notNull(),
+  discount_amount: decimal('discount_amount', { precision: 10, scale: 2 }).default('0').notNull(), // Promotions plus any manual discount
+  coupon_code: text('coupon_code'),
   total_amount: decimal('total_amount', { precision: 12, scale: 2 }).notNull(),
+  returned_amount: decimal('returned_amount', { precision: 12, scale: 2 }).default('0').notNull(),
+  amount_paid: decimal('amount_paid', { precision: 12, scale: 2 }).default('0').notNull(), // Payments less refunds
   payment_status: paymentStatusEnum('payment_status').notNull(),
 
   // Audit fields
@@ -0,0 +1,31 @@
+import { pgTable, text, timestamp, uuid, integer, pgEnum } from 'drizzle-orm/pg-core';
+import { users } from './users';
+import { products } from './products';
+import { locations } from './locations';
+import { referenceTypeEnum } from './stock-transactions';
+
+// Define reservation status enum
+export const reservationStatusEnum = pgEnum('reservation_status', ['ACTIVE', 'RELEASED', 'CANCELLED', 'EXPIRED']);
+
+// Stock_Reservations table (stock held back from sale for an owner until released or expired)
+export const stockReservations = pgTable('stock_reservations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  product_id: uuid('product_id').notNull().references(() => products.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  location_id: uuid('location_id').notNull().references(() => locations.id, { onDelete: 'restrict', onUpdate: 'cascade' }),
+  owner_id: uuid('owner_id').notNull().references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  quantity: integer('quantity').notNull(),
+  status: reservationStatusEnum('status').default('ACTIVE').notNull(),
+  reference_type: referenceTypeEnum('reference_type'),
+  reference_id: uuid('reference_id'),
+  expires_at: timestamp('expires_at'),
+  released_at: timestamp('released_at'),
+  notes: text('notes'),
+
+  // Audit fields
+  created_by: uuid('created_by').notNull().references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_by: uuid('updated_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  updated_at: timestamp('updated_at'),
+  deleted_by: uuid('deleted_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  deleted_at: timestamp('deleted_at'),
+});
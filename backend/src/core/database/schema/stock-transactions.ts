@@ -1,17 +1,19 @@
-import { pgTable, text, timestamp, uuid, integer, pgEnum } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, uuid, integer, pgEnum, index } from 'drizzle-orm/pg-core';
 import { users } from './users';
 import { products } from './products';
+import { locations } from './locations';
 
 // Define transaction type enum
 export const transactionTypeEnum = pgEnum('transaction_type', ['IN', 'OUT', 'ADJUSTMENT']);
 
 // Define reference type enum
-export const referenceTypeEnum = pgEnum('reference_type', ['PURCHASE', 'SALE', 'ADJUSTMENT', 'RETURN']);
+export const referenceTypeEnum = pgEnum('reference_type', ['PURCHASE', 'SALE', 'ADJUSTMENT', 'RETURN', 'TRANSFER', 'RESERVATION']);
 
 // Stock_Transactions table
 export const stockTransactions = pgTable('stock_transactions', {
   id: uuid('id').primaryKey().defaultRandom(),
   product_id: uuid('product_id').notNull().references(() => products.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  location_id: uuid('location_id').references(() => locations.id, { onDelete: 'set null', onUpdate: 'cascade' }),
   transaction_type: transactionTypeEnum('transaction_type').notNull(),
   quantity: integer('quantity').notNull(),
   reference_type: referenceTypeEnum('reference_type').notNull(),
@@ -25,4 +27,8 @@ export const stockTransactions = pgTable('stock_transactions', {
   updated_at: timestamp('updated_at'),
   deleted_by: uuid('deleted_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
   deleted_at: timestamp('deleted_at'),
-});
+}, (table) => [
+  // Ledger pages are ordered by (created_at, id), optionally narrowed to one product
+  index('stock_transactions_created_at_id_idx').on(table.created_at, table.id),
+  index('stock_transactions_product_created_at_idx').on(table.product_id, table.created_at),
+]);
@@ -0,0 +1,22 @@
+import { pgTable, text, timestamp, uuid, integer } from 'drizzle-orm/pg-core';
+import { users } from './users';
+import { products } from './products';
+import { locations } from './locations';
+
+// Stock_Transfers table (stock moved from one location to another)
+export const stockTransfers = pgTable('stock_transfers', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  product_id: uuid('product_id').notNull().references(() => products.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  from_location_id: uuid('from_location_id').notNull().references(() => locations.id, { onDelete: 'restrict', onUpdate: 'cascade' }),
+  to_location_id: uuid('to_location_id').notNull().references(() => locations.id, { onDelete: 'restrict', onUpdate: 'cascade' }),
+  quantity: integer('quantity').notNull(),
+  notes: text('notes'),
+
+  // Audit fields
+  created_by: uuid('created_by').notNull().references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_by: uuid('updated_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  updated_at: timestamp('updated_at'),
+  deleted_by: uuid('deleted_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  deleted_at: timestamp('deleted_at'),
+});
@@ -1,11 +1,13 @@
-import { pgTable, timestamp, uuid, integer } from 'drizzle-orm/pg-core';
+import { pgTable, timestamp, uuid, integer, unique } from 'drizzle-orm/pg-core';
 import { users } from './users';
 import { products } from './products';
+import { locations } from './locations';
 
-// Stock table
+// Stock table (one row per product per location)
 export const stock = pgTable('stock', {
   id: uuid('id').primaryKey().defaultRandom(),
   product_id: uuid('product_id').notNull().references(() => products.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  location_id: uuid('location_id').notNull().references(() => locations.id, { onDelete: 'restrict', onUpdate: 'cascade' }),
   quantity_available: integer('quantity_available').default(0).notNull(),
   quantity_reserved: integer('quantity_reserved').default(0).notNull(),
 
@@ -16,4 +18,6 @@ export const stock = pgTable('stock', {
   updated_at: timestamp('updated_at'),
   deleted_by: uuid('deleted_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
   deleted_at: timestamp('deleted_at'),
-});
+}, (table) => [
+  unique('stock_product_location_unique').on(table.product_id, table.location_id),
+]);
@@ -0,0 +1,63 @@
+import { pgTable, text, timestamp, uuid, decimal, date, pgEnum, index } from 'drizzle-orm/pg-core';
+import { users } from './users';
+import { suppliers } from './suppliers';
+import { purchaseOrders } from './purchase-orders';
+import { purchaseOrderItems } from './purchase-order-items';
+import { products } from './products';
+
+// Define supplier bill enums
+export const supplierBillStatusEnum = pgEnum('supplier_bill_status', ['OPEN', 'PARTIAL', 'PAID', 'CANCELLED']);
+export const billMatchStatusEnum = pgEnum('bill_match_status', ['MATCHED', 'VARIANCE']);
+
+// Supplier_Bills table (the supplier's invoice for goods on a purchase order)
+export const supplierBills = pgTable('supplier_bills', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  supplier_id: uuid('supplier_id').notNull().references(() => suppliers.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  purchase_order_id: uuid('purchase_order_id').notNull().references(() => purchaseOrders.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  bill_number: text('bill_number').notNull(), // The supplier's own invoice number
+  bill_date: date('bill_date').notNull(),
+  due_date: date('due_date'),
+  subtotal: decimal('subtotal', { precision: 12, scale: 2 }).notNull(),
+  tax_amount: decimal('tax_amount', { precision: 10, scale: 2 }).default('0').notNull(),
+  total_amount: decimal('total_amount', { precision: 12, scale: 2 }).notNull(),
+  amount_paid: decimal('amount_paid', { precision: 12, scale: 2 }).default('0').notNull(),
+  status: supplierBillStatusEnum('status').default('OPEN').notNull(),
+  match_status: billMatchStatusEnum('match_status').notNull(),
+  notes: text('notes'),
+
+  // Audit fields
+  created_by: uuid('created_by').notNull().references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_by: uuid('updated_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  updated_at: timestamp('updated_at'),
+  deleted_by: uuid('deleted_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  deleted_at: timestamp('deleted_at'),
+}, (table) => [
+  index('supplier_bills_supplier_id_idx').on(table.supplier_id),
+  index('supplier_bills_purchase_order_id_idx').on(table.purchase_order_id),
+]);
+
+// Supplier_Bill_Items table (one row per purchase order line billed)
+export const supplierBillItems = pgTable('supplier_bill_items', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  supplier_bill_id: uuid('supplier_bill_id').notNull().references(() => supplierBills.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  purchase_order_item_id: uuid('purchase_order_item_id').notNull().references(() => purchaseOrderItems.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  product_id: uuid('product_id').notNull().references(() => products.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  quantity_billed: decimal('quantity_billed', { precision: 12, scale: 3, mode: 'number' }).notNull(), // In the order line's unit
+  unit_cost: decimal('unit_cost', { precision: 10, scale: 2 }).notNull(),
+  total_cost: decimal('total_cost', { precision: 12, scale: 2 }).notNull(),
+  taxable_amount: decimal('taxable_amount', { precision: 12, scale: 2 }).default('0').notNull(),
+  tax_amount: decimal('tax_amount', { precision: 10, scale: 2 }).default('0').notNull(),
+
+  // Variances against the purchase order at the time of billing
+  quantity_variance: decimal('quantity_variance', { precision: 12, scale: 3, mode: 'number' }).default(0).notNull(), // Billed to date less received
+  price_variance: decimal('price_variance', { precision: 10, scale: 2 }).default('0').notNull(), // Billed less ordered unit cost
+
+  // Audit fields
+  created_by: uuid('created_by').notNull().references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_by: uuid('updated_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  updated_at: timestamp('updated_at'),
+  deleted_by: uuid('deleted_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  deleted_at: timestamp('deleted_at'),
+});
@@ -0,0 +1,29 @@
+import { pgTable, text, timestamp, uuid, decimal, index } from 'drizzle-orm/pg-core';
+import { users } from './users';
+import { suppliers } from './suppliers';
+import { supplierBills } from './supplier-bills';
+import { paymentMethodEnum } from './payments';
+
+// Supplier_Payments table: money paid out against a supplier bill
+export const supplierPayments = pgTable('supplier_payments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  supplier_bill_id: uuid('supplier_bill_id').notNull().references(() => supplierBills.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  supplier_id: uuid('supplier_id').notNull().references(() => suppliers.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  payment_method: paymentMethodEnum('payment_method').notNull(),
+  amount: decimal('amount', { precision: 12, scale: 2 }).notNull(),
+  reference: text('reference'), // Transfer or cheque number
+  notes: text('notes'),
+  paid_by: uuid('paid_by').notNull().references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  paid_at: timestamp('paid_at').defaultNow().notNull(),
+
+  // Audit fields
+  created_by: uuid('created_by').notNull().references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_by: uuid('updated_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  updated_at: timestamp('updated_at'),
+  deleted_by: uuid('deleted_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  deleted_at: timestamp('deleted_at'),
+}, (table) => [
+  index('supplier_payments_supplier_bill_id_idx').on(table.supplier_bill_id),
+  index('supplier_payments_supplier_id_idx').on(table.supplier_id),
+]);
@@ -0,0 +1,22 @@
+import { pgTable, text, boolean, timestamp, uuid, decimal } from 'drizzle-orm/pg-core';
+import { users } from './users';
+
+// Tax_Classes table
+export const taxClasses = pgTable('tax_classes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: text('name').notNull(),
+  code: text('code').notNull().unique(),
+  rate: decimal('rate', { precision: 5, scale: 2 }).default('0').notNull(), // Percentage, e.g. 18.00
+  is_inclusive: boolean('is_inclusive').default(false).notNull(), // Prices already include the tax
+  is_exempt: boolean('is_exempt').default(false).notNull(),
+  description: text('description'),
+  is_active: boolean('is_active').default(true).notNull(),
+
+  // Audit fields
+  created_by: uuid('created_by').notNull().references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_by: uuid('updated_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  updated_at: timestamp('updated_at'),
+  deleted_by: uuid('deleted_by').references(() => users.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  deleted_at: timestamp('deleted_at'),
+});
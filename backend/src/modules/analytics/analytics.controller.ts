@@ -0,0 +1,168 @@
+import {
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+  Logger,
+  ParseIntPipe,
+  DefaultValuePipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiBadRequestResponse,
+} from '@nestjs/swagger';
+import { AnalyticsService } from './analytics.service';
+import {
+  AnalyticsQueryDto,
+  AnalyticsOverviewResponseDto,
+  SalesAnalyticsResponseDto,
+  TopSellersResponseDto,
+  StockValueHistoryResponseDto,
+  PurchaseSpendResponseDto,
+} from './dto';
+import { AuthGuard } from '../../common/guards/auth.guard';
+import { ManagerGuard } from '../../common/guards/manager.guard';
+import { StaffGuard } from '../../common/guards/staff.guard';
+import { successResponse } from '../../common/helpers/api-response.helper';
+import { API_MESSAGES } from '../../common/constants/string-const';
+
+@ApiTags('Analytics')
+@Controller('analytics')
+@UseGuards(AuthGuard) // All endpoints require authentication
+@ApiBearerAuth()
+export class AnalyticsController {
+  private readonly logger = new Logger(AnalyticsController.name);
+
+  constructor(private readonly analyticsService: AnalyticsService) {}
+
+  //#region ==================== READ OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Get the analytics overview',
+    description: 'Net sales, invoice count and purchase spend for the period, with current stock value and low-stock counts. Requires STAFF role or above.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Analytics overview generated successfully',
+    type: AnalyticsOverviewResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid date range' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get('overview')
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  async getOverview(@Query() query: AnalyticsQueryDto) {
+    this.logger.log(`Generating analytics overview from ${query.start_date ?? 'default'} to ${query.end_date ?? 'today'}`);
+
+    const overview = await this.analyticsService.getOverview(query);
+
+    return successResponse(overview, API_MESSAGES.ANALYTICS_OVERVIEW_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Get sales by period',
+    description: 'Gross sales, returns, net sales, tax and discounts per day, week or month. Requires MANAGER or ADMIN role.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sales analytics generated successfully',
+    type: SalesAnalyticsResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid date range, or too many periods for the granularity' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Get('sales')
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async getSalesByPeriod(@Query() query: AnalyticsQueryDto) {
+    this.logger.log(`Generating sales by ${query.granularity ?? 'day'}`);
+
+    const sales = await this.analyticsService.getSalesByPeriod(query);
+
+    return successResponse(sales, API_MESSAGES.SALES_ANALYTICS_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Get top-selling products',
+    description: 'Products ranked by units sold less returns in the period. Requires MANAGER or ADMIN role.',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Number of products to return (1-50)',
+    example: 10,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Top sellers fetched successfully',
+    type: TopSellersResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid date range' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Get('top-sellers')
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async getTopSellers(
+    @Query('limit', new DefaultValuePipe(10), ParseIntPipe) limit: number,
+    @Query() query: AnalyticsQueryDto,
+  ) {
+    this.logger.log(`Finding top ${limit} sellers`);
+
+    if (limit < 1) limit = 1;
+    if (limit > 50) limit = 50;
+
+    const topSellers = await this.analyticsService.getTopSellers(query, limit);
+
+    return successResponse(topSellers, API_MESSAGES.TOP_SELLERS_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Get stock value over time',
+    description: 'Closing value of stock on hand at cost per day, week or month, rebuilt from the inventory cost layers. Requires MANAGER or ADMIN role.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Stock value history generated successfully',
+    type: StockValueHistoryResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid date range, or too many periods for the granularity' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Get('stock-value')
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async getStockValueHistory(@Query() query: AnalyticsQueryDto) {
+    this.logger.log(`Generating stock value history by ${query.granularity ?? 'day'}`);
+
+    const history = await this.analyticsService.getStockValueHistory(query);
+
+    return successResponse(history, API_MESSAGES.STOCK_VALUE_HISTORY_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Get purchase spend by supplier',
+    description: 'Purchase order totals less supplier returns per supplier, for orders dated in the period. Cancelled orders are excluded. Requires MANAGER or ADMIN role.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Purchase spend by supplier generated successfully',
+    type: PurchaseSpendResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid date range' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Get('purchase-spend')
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async getPurchaseSpendBySupplier(@Query() query: AnalyticsQueryDto) {
+    this.logger.log('Generating purchase spend by supplier');
+
+    const spend = await this.analyticsService.getPurchaseSpendBySupplier(query);
+
+    return successResponse(spend, API_MESSAGES.PURCHASE_SPEND_FETCHED);
+  }
+}
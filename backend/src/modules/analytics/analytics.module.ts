@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AnalyticsController } from './analytics.controller';
+import { AnalyticsService } from './analytics.service';
+import { DatabaseModule } from '../../core/database/database.module';
+import { SupabaseModule } from '../../core/supabase/supabase.module';
+
+@Module({
+  imports: [DatabaseModule, SupabaseModule],
+  controllers: [AnalyticsController],
+  providers: [AnalyticsService],
+  exports: [AnalyticsService],
+})
+export class AnalyticsModule {}
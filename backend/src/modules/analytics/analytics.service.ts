@@ -0,0 +1,288 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import {
+  AnalyticsRepository,
+  SalesPeriodRow,
+} from '../../core/database/repositories/analytics.repository';
+import { StockRepository } from '../../core/database/repositories/stock.repository';
+import { CostLayersRepository } from '../../core/database/repositories/cost-layers.repository';
+import {
+  AnalyticsQueryDto,
+  ReportGranularity,
+  SalesAnalyticsResponseDto,
+  SalesTotalsDto,
+  TopSellersResponseDto,
+  StockValueHistoryResponseDto,
+  StockValuePointDto,
+  PurchaseSpendResponseDto,
+  AnalyticsOverviewResponseDto,
+} from './dto';
+import { MESSAGES } from '../../common/constants/string-const';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_PERIODS = 400;
+
+interface ReportRange {
+  startDate: string;
+  endDate: string;
+  from: Date; // Start of the first day
+  to: Date; // Start of the day after the last day
+}
+
+@Injectable()
+export class AnalyticsService {
+  private readonly logger = new Logger(AnalyticsService.name);
+
+  constructor(
+    private readonly analyticsRepository: AnalyticsRepository,
+    private readonly stockRepository: StockRepository,
+    private readonly costLayersRepository: CostLayersRepository,
+  ) {}
+
+  /**
+   * Headline figures for the dashboard: sales and purchasing for the period,
+   * plus stock value and low-stock counts as they stand today
+   */
+  async getOverview(query: AnalyticsQueryDto = {}): Promise<AnalyticsOverviewResponseDto> {
+    const range = this.resolveRange(query);
+    this.logger.log(`Generating analytics overview from ${range.startDate} to ${range.endDate}`);
+
+    try {
+      const salesRows = await this.analyticsRepository.getSalesByPeriod(ReportGranularity.MONTH, range.from, range.to);
+      const spendRows = await this.analyticsRepository.getPurchaseSpendBySupplier(range.startDate, range.endDate);
+      const stockValue = await this.costLayersRepository.getTotalValue();
+      const lowStock = await this.stockRepository.getLowStockProducts();
+
+      const sales = this.sumSalesRows(salesRows);
+      const purchaseSpend = spendRows.reduce((sum, row) => sum + parseFloat(row.total_spend), 0);
+
+      return {
+        start_date: range.startDate,
+        end_date: range.endDate,
+        net_sales: sales.net_sales,
+        invoice_count: sales.invoice_count,
+        average_invoice_value: sales.invoice_count > 0 ? this.roundCurrency(sales.net_sales / sales.invoice_count) : 0,
+        purchase_spend: this.roundCurrency(purchaseSpend),
+        stock_value: this.roundCurrency(stockValue),
+        low_stock_count: lowStock.length,
+        out_of_stock_count: lowStock.filter(item => item.quantity_available <= 0).length,
+      };
+    } catch (error) {
+      this.logger.error('Failed to generate analytics overview', error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Sales per day, week or month, with empty periods filled in so charts have a continuous axis
+   */
+  async getSalesByPeriod(query: AnalyticsQueryDto = {}): Promise<SalesAnalyticsResponseDto> {
+    const range = this.resolveRange(query);
+    const granularity = query.granularity || ReportGranularity.DAY;
+    const periodStarts = this.periodStarts(granularity, range);
+
+    this.logger.log(`Generating sales by ${granularity} from ${range.startDate} to ${range.endDate}`);
+
+    try {
+      const rows = await this.analyticsRepository.getSalesByPeriod(granularity, range.from, range.to);
+      const rowsByPeriod = new Map(rows.map(row => [row.period_start, row]));
+
+      const periods = periodStarts.map(periodStart => {
+        const row = rowsByPeriod.get(periodStart);
+        return {
+          period_start: periodStart,
+          ...this.sumSalesRows(row ? [row] : []),
+        };
+      });
+
+      return {
+        start_date: range.startDate,
+        end_date: range.endDate,
+        granularity,
+        periods,
+        totals: this.sumSalesRows(rows),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to generate sales by ${granularity}`, error.stack);
+      throw error;
+    }
+  }
+
+  async getTopSellers(query: AnalyticsQueryDto = {}, limit = 10): Promise<TopSellersResponseDto> {
+    const range = this.resolveRange(query);
+    this.logger.log(`Finding top ${limit} sellers from ${range.startDate} to ${range.endDate}`);
+
+    try {
+      const rows = await this.analyticsRepository.getTopSellers(range.from, range.to, limit);
+
+      return {
+        start_date: range.startDate,
+        end_date: range.endDate,
+        products: rows.map(row => ({
+          product_id: row.product_id,
+          product_name: row.product_name,
+          product_sku: row.product_sku,
+          quantity_sold: row.quantity_sold,
+          revenue: parseFloat(row.revenue),
+          invoice_count: row.invoice_count,
+        })),
+      };
+    } catch (error) {
+      this.logger.error('Failed to find top sellers', error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Closing stock value at cost per period, rebuilt by walking today's total stock value
+   * back through every later cost layer and consumption
+   */
+  async getStockValueHistory(query: AnalyticsQueryDto = {}): Promise<StockValueHistoryResponseDto> {
+    const range = this.resolveRange(query);
+    const granularity = query.granularity || ReportGranularity.DAY;
+    const periodStarts = this.periodStarts(granularity, range);
+
+    this.logger.log(`Generating stock value history by ${granularity} from ${range.startDate} to ${range.endDate}`);
+
+    try {
+      const currentValue = await this.costLayersRepository.getTotalValue();
+      const movements = await this.analyticsRepository.getStockValueMovements(
+        granularity,
+        new Date(`${periodStarts[0]}T00:00:00.000Z`),
+      );
+
+      const changeByPeriod = new Map(movements.map(row => [row.period_start, parseFloat(row.value_change)]));
+      // Movements after the last period (up to now) sit between its close and the current value
+      let laterChange = movements
+        .filter(row => row.period_start > periodStarts[periodStarts.length - 1])
+        .reduce((sum, row) => sum + parseFloat(row.value_change), 0);
+
+      const points: StockValuePointDto[] = new Array(periodStarts.length);
+      for (let index = periodStarts.length - 1; index >= 0; index--) {
+        const change = changeByPeriod.get(periodStarts[index]) ?? 0;
+        points[index] = {
+          period_start: periodStarts[index],
+          closing_value: this.roundCurrency(currentValue - laterChange),
+          change: this.roundCurrency(change),
+        };
+        laterChange += change;
+      }
+
+      return {
+        start_date: range.startDate,
+        end_date: range.endDate,
+        granularity,
+        current_value: this.roundCurrency(currentValue),
+        opening_value: this.roundCurrency(currentValue - laterChange),
+        points,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to generate stock value history by ${granularity}`, error.stack);
+      throw error;
+    }
+  }
+
+  async getPurchaseSpendBySupplier(query: AnalyticsQueryDto = {}): Promise<PurchaseSpendResponseDto> {
+    const range = this.resolveRange(query);
+    this.logger.log(`Generating purchase spend by supplier from ${range.startDate} to ${range.endDate}`);
+
+    try {
+      const rows = await this.analyticsRepository.getPurchaseSpendBySupplier(range.startDate, range.endDate);
+      const totalSpend = rows.reduce((sum, row) => sum + parseFloat(row.total_spend), 0);
+
+      return {
+        start_date: range.startDate,
+        end_date: range.endDate,
+        suppliers: rows.map(row => {
+          const spend = parseFloat(row.total_spend);
+          return {
+            supplier_id: row.supplier_id,
+            supplier_name: row.supplier_name,
+            order_count: row.order_count,
+            total_spend: spend,
+            share: totalSpend > 0 ? Math.round((spend / totalSpend) * 1000) / 10 : 0,
+          };
+        }),
+        order_count: rows.reduce((sum, row) => sum + row.order_count, 0),
+        total_spend: this.roundCurrency(totalSpend),
+      };
+    } catch (error) {
+      this.logger.error('Failed to generate purchase spend by supplier', error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== REPORT HELPERS ====================
+
+  /**
+   * Validates the requested dates, defaulting to the 30 days up to and including today
+   */
+  private resolveRange(query: AnalyticsQueryDto): ReportRange {
+    const endDate = query.end_date || new Date().toISOString().slice(0, 10);
+    if (!ISO_DATE_PATTERN.test(endDate) || isNaN(Date.parse(endDate))) {
+      throw new BadRequestException(MESSAGES.REPORT_RANGE_INVALID);
+    }
+
+    const to = new Date(Date.parse(endDate) + DAY_MS);
+    const startDate = query.start_date
+      || new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS).toISOString().slice(0, 10);
+
+    if (!ISO_DATE_PATTERN.test(startDate) || isNaN(Date.parse(startDate)) || startDate > endDate) {
+      throw new BadRequestException(MESSAGES.REPORT_RANGE_INVALID);
+    }
+
+    return {
+      startDate,
+      endDate,
+      from: new Date(`${startDate}T00:00:00.000Z`),
+      to,
+    };
+  }
+
+  /**
+   * First day of every period touching the range, matching Postgres date_trunc (weeks start on Monday)
+   */
+  private periodStarts(granularity: ReportGranularity, range: ReportRange): string[] {
+    const cursor = new Date(range.from);
+    if (granularity === ReportGranularity.WEEK) {
+      cursor.setUTCDate(cursor.getUTCDate() - ((cursor.getUTCDay() + 6) % 7));
+    } else if (granularity === ReportGranularity.MONTH) {
+      cursor.setUTCDate(1);
+    }
+
+    const periodStarts: string[] = [];
+    while (cursor < range.to) {
+      if (periodStarts.length >= MAX_PERIODS) {
+        throw new BadRequestException(MESSAGES.ANALYTICS_TOO_MANY_PERIODS);
+      }
+      periodStarts.push(cursor.toISOString().slice(0, 10));
+
+      if (granularity === ReportGranularity.MONTH) {
+        cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+      } else {
+        cursor.setUTCDate(cursor.getUTCDate() + (granularity === ReportGranularity.WEEK ? 7 : 1));
+      }
+    }
+
+    return periodStarts;
+  }
+
+  private sumSalesRows(rows: SalesPeriodRow[]): SalesTotalsDto {
+    const sum = (field: keyof Omit<SalesPeriodRow, 'period_start' | 'invoice_count'>) =>
+      this.roundCurrency(rows.reduce((total, row) => total + parseFloat(row[field]), 0));
+
+    return {
+      invoice_count: rows.reduce((total, row) => total + row.invoice_count, 0),
+      gross_sales: sum('gross_sales'),
+      returns: sum('returns'),
+      net_sales: sum('net_sales'),
+      tax_amount: sum('tax_amount'),
+      discount_amount: sum('discount_amount'),
+    };
+  }
+
+  private roundCurrency(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+
+export class AnalyticsOverviewResponseDto {
+  @ApiProperty({ description: 'First day of the period', example: '2024-01-01' })
+  @Expose()
+  start_date: string;
+
+  @ApiProperty({ description: 'Last day of the period', example: '2024-01-31' })
+  @Expose()
+  end_date: string;
+
+  @ApiProperty({ description: 'Sales less returns in the period', example: 15100.5 })
+  @Expose()
+  net_sales: number;
+
+  @ApiProperty({ description: 'Invoices raised in the period', example: 42 })
+  @Expose()
+  invoice_count: number;
+
+  @ApiProperty({ description: 'Net sales per invoice', example: 359.54 })
+  @Expose()
+  average_invoice_value: number;
+
+  @ApiProperty({ description: 'Purchase order spend in the period', example: 34240 })
+  @Expose()
+  purchase_spend: number;
+
+  @ApiProperty({ description: 'Value of stock on hand right now, at cost', example: 50120.4 })
+  @Expose()
+  stock_value: number;
+
+  @ApiProperty({ description: 'Products at or below their minimum stock level', example: 7 })
+  @Expose()
+  low_stock_count: number;
+
+  @ApiProperty({ description: 'Products with no available stock', example: 2 })
+  @Expose()
+  out_of_stock_count: number;
+}
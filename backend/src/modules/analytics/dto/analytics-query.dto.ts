@@ -0,0 +1,35 @@
+import { IsOptional, IsEnum, IsDateString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export enum ReportGranularity {
+  DAY = 'day',
+  WEEK = 'week',
+  MONTH = 'month',
+}
+
+export class AnalyticsQueryDto {
+  @ApiPropertyOptional({
+    description: 'First day of the period (defaults to 29 days before the end date)',
+    example: '2024-01-01',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'Start date must be a valid date string (YYYY-MM-DD)' })
+  start_date?: string;
+
+  @ApiPropertyOptional({
+    description: 'Last day of the period, inclusive (defaults to today)',
+    example: '2024-01-31',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'End date must be a valid date string (YYYY-MM-DD)' })
+  end_date?: string;
+
+  @ApiPropertyOptional({
+    description: 'Bucket size for time series. Weeks start on Monday.',
+    enum: ReportGranularity,
+    example: ReportGranularity.DAY,
+  })
+  @IsOptional()
+  @IsEnum(ReportGranularity, { message: 'Granularity must be day, week or month' })
+  granularity?: ReportGranularity;
+}
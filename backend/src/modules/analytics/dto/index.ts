@@ -0,0 +1,5 @@
+export * from './analytics-query.dto';
+export * from './sales-analytics-response.dto';
+export * from './stock-value-response.dto';
+export * from './purchase-spend-response.dto';
+export * from './analytics-overview-response.dto';
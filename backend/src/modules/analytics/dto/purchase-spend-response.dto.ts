@@ -0,0 +1,46 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+
+export class SupplierSpendDto {
+  @ApiProperty({ description: 'Supplier ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  supplier_id: string;
+
+  @ApiProperty({ description: 'Supplier name', example: 'Acme Supplies' })
+  @Expose()
+  supplier_name: string;
+
+  @ApiProperty({ description: 'Purchase orders placed', example: 6 })
+  @Expose()
+  order_count: number;
+
+  @ApiProperty({ description: 'Order totals less goods returned to the supplier', example: 12840 })
+  @Expose()
+  total_spend: number;
+
+  @ApiProperty({ description: 'Share of total spend, as a percentage', example: 37.5 })
+  @Expose()
+  share: number;
+}
+
+export class PurchaseSpendResponseDto {
+  @ApiProperty({ description: 'First day of the report', example: '2024-01-01' })
+  @Expose()
+  start_date: string;
+
+  @ApiProperty({ description: 'Last day of the report', example: '2024-01-31' })
+  @Expose()
+  end_date: string;
+
+  @ApiProperty({ description: 'Spend per supplier, largest first', type: [SupplierSpendDto] })
+  @Expose()
+  suppliers: SupplierSpendDto[];
+
+  @ApiProperty({ description: 'Purchase orders placed across all suppliers', example: 16 })
+  @Expose()
+  order_count: number;
+
+  @ApiProperty({ description: 'Spend across all suppliers', example: 34240 })
+  @Expose()
+  total_spend: number;
+}
@@ -0,0 +1,97 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { ReportGranularity } from './analytics-query.dto';
+
+export class SalesTotalsDto {
+  @ApiProperty({ description: 'Invoices raised', example: 42 })
+  @Expose()
+  invoice_count: number;
+
+  @ApiProperty({ description: 'Invoice totals including tax', example: 15420.5 })
+  @Expose()
+  gross_sales: number;
+
+  @ApiProperty({ description: 'Value of goods returned against those invoices', example: 320 })
+  @Expose()
+  returns: number;
+
+  @ApiProperty({ description: 'Gross sales less returns', example: 15100.5 })
+  @Expose()
+  net_sales: number;
+
+  @ApiProperty({ description: 'Tax charged', example: 1285.04 })
+  @Expose()
+  tax_amount: number;
+
+  @ApiProperty({ description: 'Discounts given', example: 210 })
+  @Expose()
+  discount_amount: number;
+}
+
+export class SalesPeriodDto extends SalesTotalsDto {
+  @ApiProperty({ description: 'First day of the period', example: '2024-01-01' })
+  @Expose()
+  period_start: string;
+}
+
+export class SalesAnalyticsResponseDto {
+  @ApiProperty({ description: 'First day of the report', example: '2024-01-01' })
+  @Expose()
+  start_date: string;
+
+  @ApiProperty({ description: 'Last day of the report', example: '2024-01-31' })
+  @Expose()
+  end_date: string;
+
+  @ApiProperty({ description: 'Bucket size', enum: ReportGranularity, example: ReportGranularity.DAY })
+  @Expose()
+  granularity: ReportGranularity;
+
+  @ApiProperty({ description: 'One entry per period, including periods without sales', type: [SalesPeriodDto] })
+  @Expose()
+  periods: SalesPeriodDto[];
+
+  @ApiProperty({ description: 'Totals across the whole report', type: SalesTotalsDto })
+  @Expose()
+  totals: SalesTotalsDto;
+}
+
+export class TopSellerDto {
+  @ApiProperty({ description: 'Product ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  product_id: string;
+
+  @ApiProperty({ description: 'Product name', example: 'Wireless Mouse' })
+  @Expose()
+  product_name: string;
+
+  @ApiProperty({ description: 'Product SKU', example: 'WM-001' })
+  @Expose()
+  product_sku: string;
+
+  @ApiProperty({ description: 'Units sold less units returned', example: 58 })
+  @Expose()
+  quantity_sold: number;
+
+  @ApiProperty({ description: 'Revenue net of tax, discounts and returns', example: 1449.42 })
+  @Expose()
+  revenue: number;
+
+  @ApiProperty({ description: 'Invoices the product appeared on', example: 31 })
+  @Expose()
+  invoice_count: number;
+}
+
+export class TopSellersResponseDto {
+  @ApiProperty({ description: 'First day of the report', example: '2024-01-01' })
+  @Expose()
+  start_date: string;
+
+  @ApiProperty({ description: 'Last day of the report', example: '2024-01-31' })
+  @Expose()
+  end_date: string;
+
+  @ApiProperty({ description: 'Best sellers by units sold', type: [TopSellerDto] })
+  @Expose()
+  products: TopSellerDto[];
+}
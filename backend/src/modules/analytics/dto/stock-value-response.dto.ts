@@ -0,0 +1,43 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { ReportGranularity } from './analytics-query.dto';
+
+export class StockValuePointDto {
+  @ApiProperty({ description: 'First day of the period', example: '2024-01-01' })
+  @Expose()
+  period_start: string;
+
+  @ApiProperty({ description: 'Stock value at cost at the end of the period', example: 48210.75 })
+  @Expose()
+  closing_value: number;
+
+  @ApiProperty({ description: 'Change in stock value during the period', example: -1250.2 })
+  @Expose()
+  change: number;
+}
+
+export class StockValueHistoryResponseDto {
+  @ApiProperty({ description: 'First day of the report', example: '2024-01-01' })
+  @Expose()
+  start_date: string;
+
+  @ApiProperty({ description: 'Last day of the report', example: '2024-01-31' })
+  @Expose()
+  end_date: string;
+
+  @ApiProperty({ description: 'Bucket size', enum: ReportGranularity, example: ReportGranularity.WEEK })
+  @Expose()
+  granularity: ReportGranularity;
+
+  @ApiProperty({ description: 'Value of stock on hand right now, at cost', example: 50120.4 })
+  @Expose()
+  current_value: number;
+
+  @ApiProperty({ description: 'Stock value at the start of the first period', example: 49460.95 })
+  @Expose()
+  opening_value: number;
+
+  @ApiProperty({ description: 'One entry per period', type: [StockValuePointDto] })
+  @Expose()
+  points: StockValuePointDto[];
+}
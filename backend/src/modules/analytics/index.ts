@@ -0,0 +1,4 @@
+export * from './analytics.controller';
+export * from './analytics.service';
+export * from './analytics.module';
+export * from './dto';
@@ -26,7 +26,7 @@ import {
   ApiConflictResponse,
 } from '@nestjs/swagger';
 import { CategoriesService } from './categories.service';
-import { CreateCategoryDto, UpdateCategoryDto, CategoryResponseDto, CategoryListResponseDto } from './dto';
+import { CreateCategoryDto, UpdateCategoryDto, MoveCategoryDto, CategoryResponseDto, CategoryListResponseDto } from './dto';
 import { AuthGuard } from '../../common/guards/auth.guard';
 import { StaffGuard } from '../../common/guards/staff.guard';
 import { ManagerGuard } from '../../common/guards/manager.guard';
@@ -155,6 +155,10 @@ export class CategoriesController {
           {
             id: '123e4567-e89b-12d3-a456-426614174000',
             name: 'Electronics',
+            parent_id: null,
+            path: [{ id: '123e4567-e89b-12d3-a456-426614174000', name: 'Electronics' }],
+            path_name: 'Electronics',
+            depth: 0,
             description: 'Electronic devices and accessories',
             is_active: true,
             created_by: '123e4567-e89b-12d3-a456-426614174000',
@@ -349,6 +353,51 @@ export class CategoriesController {
     return successResponse(category, API_MESSAGES.CATEGORY_UPDATED);
   }
 
+  @ApiOperation({
+    summary: 'Move a category',
+    description: 'Move a category, with its subcategories, under another parent or to the top level. Requires MANAGER or ADMIN role.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Category UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Category moved successfully',
+    type: CategoryResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Parent category not found, or the parent is the category itself or one of its subcategories',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Authentication required',
+  })
+  @ApiForbiddenResponse({
+    description: 'Insufficient permissions - MANAGER or ADMIN role required',
+  })
+  @ApiNotFoundResponse({
+    description: 'Category not found',
+  })
+  @ApiConflictResponse({
+    description: 'The new parent already has a subcategory with this name',
+  })
+  @Patch(':id/move')
+  @UseGuards(ManagerGuard) // MANAGER+ access
+  async move(
+    @Param('id') id: string,
+    @Body() moveCategoryDto: MoveCategoryDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Moving category: ${id} under: ${moveCategoryDto.parent_id ?? 'top level'} by user: ${userId}`);
+    
+    const category = await this.categoriesService.move(id, moveCategoryDto.parent_id ?? null, userId);
+    
+    this.logger.log(`Category moved successfully: ${id}`);
+    
+    return successResponse(category, API_MESSAGES.CATEGORY_MOVED);
+  }
+
   @ApiOperation({
     summary: 'Restore a soft-deleted category',
     description: 'Restore a previously soft-deleted category. Requires ADMIN role.',
@@ -390,7 +439,7 @@ export class CategoriesController {
 
   @ApiOperation({
     summary: 'Soft delete a category',
-    description: 'Soft delete a category (mark as deleted). Requires MANAGER or ADMIN role.',
+    description: 'Soft delete a category (mark as deleted). Categories with subcategories must be emptied first. Requires MANAGER or ADMIN role.',
   })
   @ApiParam({
     name: 'id',
@@ -415,6 +464,9 @@ export class CategoriesController {
   @ApiForbiddenResponse({
     description: 'Insufficient permissions - MANAGER or ADMIN role required',
   })
+  @ApiBadRequestResponse({
+    description: 'Category has subcategories',
+  })
   @ApiNotFoundResponse({
     description: 'Category not found',
   })
@@ -461,6 +513,9 @@ export class CategoriesController {
   @ApiForbiddenResponse({
     description: 'Insufficient permissions - ADMIN role required',
   })
+  @ApiBadRequestResponse({
+    description: 'Category has subcategories, including deleted ones',
+  })
   @ApiNotFoundResponse({
     description: 'Category not found',
   })
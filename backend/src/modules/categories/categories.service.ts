@@ -5,10 +5,14 @@ import {
   NotFoundException, 
   ConflictException 
 } from '@nestjs/common';
-import { CategoriesRepository } from '../../core/database/repositories/categories.repository';
+import { CategoriesRepository, CategoryEntity } from '../../core/database/repositories/categories.repository';
+import { TaxClassesRepository } from '../../core/database/repositories/tax-classes.repository';
+import { DbTransaction } from '../../core/database/repositories/base.repository';
+import { DrizzleService } from '../../core/database/drizzle.service';
 import { MESSAGES, API_MESSAGES } from '../../common/constants/string-const';
 import { CreateCategoryDto, UpdateCategoryDto, CategoryResponseDto } from './dto';
 import { plainToClass } from 'class-transformer';
+import { buildCategoryPaths, formatCategoryPath } from './category-paths';
 
 @Injectable()
 export class CategoriesService {
@@ -16,6 +20,8 @@ export class CategoriesService {
 
   constructor(
     private readonly categoriesRepository: CategoriesRepository,
+    private readonly taxClassesRepository: TaxClassesRepository,
+    private readonly drizzleService: DrizzleService,
   ) {}
 
   //#region ==================== CRUD OPERATIONS ====================
@@ -24,16 +30,21 @@ export class CategoriesService {
     this.logger.log(`Creating category: ${createCategoryDto.name}`);
     
     try {
-      // Check if category name already exists
-      const existingCategory = await this.categoriesRepository.findByName(createCategoryDto.name);
-      if (existingCategory) {
-        this.logger.warn(`Category name already exists: ${createCategoryDto.name}`);
-        throw new ConflictException(MESSAGES.CATEGORY_NAME_EXISTS);
+      const parentId = createCategoryDto.parent_id || null;
+      if (parentId) {
+        await this.validateParent(parentId);
+      }
+
+      await this.validateCategoryName(createCategoryDto.name, parentId);
+
+      if (createCategoryDto.tax_class_id) {
+        await this.validateTaxClass(createCategoryDto.tax_class_id);
       }
 
       // Create the category
       const categoryData = {
         ...createCategoryDto,
+        parent_id: parentId,
         created_by: createdBy,
       };
 
@@ -41,11 +52,9 @@ export class CategoriesService {
       
       this.logger.log(`Category created successfully: ${createdCategory.name} (ID: ${createdCategory.id})`);
       
-      return plainToClass(CategoryResponseDto, createdCategory, {
-        excludeExtraneousValues: true,
-      });
+      return this.toResponseDto(createdCategory);
     } catch (error) {
-      if (error instanceof ConflictException) {
+      if (error instanceof ConflictException || error instanceof BadRequestException) {
         throw error;
       }
       
@@ -72,11 +81,7 @@ export class CategoriesService {
       
       this.logger.log(`Retrieved ${categories.length} categories`);
       
-      return categories.map(category => 
-        plainToClass(CategoryResponseDto, category, {
-          excludeExtraneousValues: true,
-        })
-      );
+      return this.toResponseDtos(categories);
     } catch (error) {
       this.logger.error('Failed to fetch categories', error.stack);
       throw new BadRequestException('Failed to fetch categories');
@@ -91,9 +96,7 @@ export class CategoriesService {
       
       this.logger.log(`Category found: ${category.name} (ID: ${id})`);
       
-      return plainToClass(CategoryResponseDto, category, {
-        excludeExtraneousValues: true,
-      });
+      return this.toResponseDto(category);
     } catch (error) {
       if (error.message === MESSAGES.CATEGORY_NOT_FOUND) {
         this.logger.warn(`Category not found: ${id}`);
@@ -110,32 +113,40 @@ export class CategoriesService {
     
     try {
       // Check if category exists
-      await this.categoriesRepository.findCategoryByIdOrThrow(id);
+      const category = await this.categoriesRepository.findCategoryByIdOrThrow(id);
+
+      const parentId = updateCategoryDto.parent_id !== undefined
+        ? updateCategoryDto.parent_id || null
+        : category.parent_id;
       
-      // If name is being updated, check for uniqueness
-      if (updateCategoryDto.name) {
-        const existingCategory = await this.categoriesRepository.findByName(updateCategoryDto.name);
-        if (existingCategory && existingCategory.id !== id) {
-          this.logger.warn(`Category name already exists: ${updateCategoryDto.name}`);
-          throw new ConflictException(MESSAGES.CATEGORY_NAME_EXISTS);
-        }
+      // Names are unique among siblings, so a rename or a move can both clash
+      if (updateCategoryDto.name || parentId !== category.parent_id) {
+        await this.validateCategoryName(updateCategoryDto.name || category.name, parentId, id);
+      }
+
+      if (updateCategoryDto.tax_class_id) {
+        await this.validateTaxClass(updateCategoryDto.tax_class_id);
       }
 
       // Update the category
       const updateData = {
         ...updateCategoryDto,
+        parent_id: parentId,
         updated_by: updatedBy,
       };
 
-      const updatedCategory = await this.categoriesRepository.update(id, updateData);
+      const updatedCategory = await this.drizzleService.transaction(async (tx) => {
+        if (parentId && parentId !== category.parent_id) {
+          await this.validateMove(id, parentId, tx);
+        }
+        return this.categoriesRepository.update(id, updateData, tx);
+      });
       
       this.logger.log(`Category updated successfully: ${id}`);
       
-      return plainToClass(CategoryResponseDto, updatedCategory, {
-        excludeExtraneousValues: true,
-      });
+      return this.toResponseDto(updatedCategory);
     } catch (error) {
-      if (error instanceof NotFoundException || error instanceof ConflictException) {
+      if (error instanceof NotFoundException || error instanceof ConflictException || error instanceof BadRequestException) {
         throw error;
       }
       
@@ -150,12 +161,60 @@ export class CategoriesService {
     }
   }
 
+  /**
+   * Moves a category, along with everything below it, under another parent, or to the top
+   * level when parentId is null
+   */
+  async move(id: string, parentId: string | null, updatedBy: string): Promise<CategoryResponseDto> {
+    this.logger.log(`Moving category: ${id} under: ${parentId ?? 'top level'}`);
+    
+    try {
+      const category = await this.categoriesRepository.findCategoryByIdOrThrow(id);
+      if (parentId === category.parent_id) {
+        return this.toResponseDto(category);
+      }
+
+      await this.validateCategoryName(category.name, parentId, id);
+
+      const movedCategory = await this.drizzleService.transaction(async (tx) => {
+        if (parentId) {
+          await this.validateMove(id, parentId, tx);
+        }
+        return this.categoriesRepository.update(id, {
+          parent_id: parentId,
+          updated_by: updatedBy,
+        }, tx);
+      });
+      
+      this.logger.log(`Category moved successfully: ${id}`);
+      
+      return this.toResponseDto(movedCategory);
+    } catch (error) {
+      if (error instanceof NotFoundException || error instanceof ConflictException || error instanceof BadRequestException) {
+        throw error;
+      }
+      
+      this.logger.error(`Failed to move category: ${id}`, error.stack);
+      
+      if (error.message?.includes('unique constraint')) {
+        throw new ConflictException(MESSAGES.CATEGORY_NAME_EXISTS);
+      }
+      
+      throw new BadRequestException('Failed to move category');
+    }
+  }
+
   async remove(id: string, deletedBy: string): Promise<void> {
     this.logger.log(`Soft deleting category: ${id}`);
     
     try {
       // Check if category exists
       await this.categoriesRepository.findCategoryByIdOrThrow(id);
+
+      if (await this.categoriesRepository.hasChildren(id)) {
+        this.logger.warn(`Category has subcategories: ${id}`);
+        throw new BadRequestException(MESSAGES.CATEGORY_HAS_SUBCATEGORIES);
+      }
       
       // TODO: Check if category has associated products
       // This should be implemented when products service is ready
@@ -183,6 +242,12 @@ export class CategoriesService {
     try {
       // Check if category exists (including soft deleted)
       await this.categoriesRepository.findCategoryByIdOrThrow(id, true);
+
+      // Deleted subcategories count too, since they would otherwise be orphaned at the top level
+      if (await this.categoriesRepository.hasChildren(id, true)) {
+        this.logger.warn(`Category has subcategories: ${id}`);
+        throw new BadRequestException(MESSAGES.CATEGORY_HAS_SUBCATEGORIES);
+      }
       
       // TODO: Check if category has associated products
       // This should be implemented when products service is ready
@@ -204,15 +269,23 @@ export class CategoriesService {
     this.logger.log(`Restoring category: ${id}`);
     
     try {
+      const category = await this.categoriesRepository.findCategoryByIdOrThrow(id, true);
+
+      // A category can't be restored under a parent that is still deleted
+      if (category.parent_id && !(await this.categoriesRepository.findById(category.parent_id))) {
+        throw new BadRequestException(MESSAGES.CATEGORY_PARENT_NOT_FOUND);
+      }
+
       const restoredCategory = await this.categoriesRepository.restore(id);
       
       this.logger.log(`Category restored successfully: ${id}`);
       
-      return plainToClass(CategoryResponseDto, restoredCategory, {
-        excludeExtraneousValues: true,
-      });
+      return this.toResponseDto(restoredCategory);
     } catch (error) {
-      if (error.message === MESSAGES.CATEGORY_NOT_FOUND) {
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      if (error instanceof NotFoundException || error.message === MESSAGES.CATEGORY_NOT_FOUND) {
         this.logger.warn(`Category not found for restoration: ${id}`);
         throw new NotFoundException(MESSAGES.CATEGORY_NOT_FOUND);
       }
@@ -234,11 +307,7 @@ export class CategoriesService {
       
       this.logger.log(`Retrieved ${categories.length} active categories`);
       
-      return categories.map(category => 
-        plainToClass(CategoryResponseDto, category, {
-          excludeExtraneousValues: true,
-        })
-      );
+      return this.toResponseDtos(categories);
     } catch (error) {
       this.logger.error('Failed to fetch active categories', error.stack);
       throw new BadRequestException('Failed to fetch active categories');
@@ -303,11 +372,7 @@ export class CategoriesService {
       
       this.logger.log(`Found ${categories.length} categories matching search term: ${searchTerm}`);
       
-      return categories.map(category => 
-        plainToClass(CategoryResponseDto, category, {
-          excludeExtraneousValues: true,
-        })
-      );
+      return this.toResponseDtos(categories);
     } catch (error) {
       this.logger.error(`Failed to search categories with term: ${searchTerm}`, error.stack);
       throw new BadRequestException('Failed to search categories');
@@ -318,12 +383,80 @@ export class CategoriesService {
 
   //#region ==================== VALIDATION HELPERS ====================
 
-  private async validateCategoryName(name: string, excludeId?: string): Promise<void> {
-    const exists = await this.categoriesRepository.nameExists(name, excludeId);
+  private async validateCategoryName(name: string, parentId: string | null, excludeId?: string): Promise<void> {
+    const exists = await this.categoriesRepository.nameExists(name, parentId, excludeId);
     if (exists) {
+      this.logger.warn(`Category name already exists: ${name} (parent: ${parentId ?? 'none'})`);
       throw new ConflictException(MESSAGES.CATEGORY_NAME_EXISTS);
     }
   }
 
+  /**
+   * Checks that a category can be placed under parentId. When moving an existing category,
+   * the parent can't be the category itself or anything below it.
+   */
+  private async validateParent(parentId: string, tx?: DbTransaction): Promise<void> {
+    const parent = await this.categoriesRepository.findById(parentId, false, tx);
+    if (!parent) {
+      this.logger.warn(`Parent category not found: ${parentId}`);
+      throw new BadRequestException(MESSAGES.CATEGORY_PARENT_NOT_FOUND);
+    }
+  }
+
+  /**
+   * Checks a category can go under a new parent, with the category and everything below it
+   * locked until the move commits. A parent inside the moved subtree would make a loop.
+   */
+  private async validateMove(categoryId: string, parentId: string, tx: DbTransaction): Promise<void> {
+    const subtree = await this.categoriesRepository.lockSubtree(categoryId, tx);
+    if (subtree.includes(parentId)) {
+      this.logger.warn(`Category ${categoryId} cannot be moved under its own subtree: ${parentId}`);
+      throw new BadRequestException(MESSAGES.CATEGORY_MOVE_CYCLE);
+    }
+
+    await this.validateParent(parentId, tx);
+  }
+
+  private async validateTaxClass(taxClassId: string): Promise<void> {
+    const taxClass = await this.taxClassesRepository.findById(taxClassId);
+    if (!taxClass) {
+      this.logger.warn(`Tax class not found: ${taxClassId}`);
+      throw new BadRequestException(MESSAGES.TAX_CLASS_NOT_FOUND);
+    }
+    if (!taxClass.is_active) {
+      this.logger.warn(`Tax class is not active: ${taxClassId}`);
+      throw new BadRequestException(MESSAGES.TAX_CLASS_INACTIVE);
+    }
+  }
+
+  //#endregion
+
+  //#region ==================== RESPONSE MAPPING ====================
+
+  /**
+   * Maps categories to response DTOs with their breadcrumbs. Filtered lists don't include
+   * every ancestor, so the breadcrumbs are built from the whole tree.
+   */
+  private async toResponseDtos(categories: CategoryEntity[]): Promise<CategoryResponseDto[]> {
+    const paths = buildCategoryPaths(await this.categoriesRepository.findAll({ withDeleted: true }));
+
+    return categories.map(category => {
+      const path = paths.get(category.id) ?? [{ id: category.id, name: category.name }];
+      return plainToClass(CategoryResponseDto, {
+        ...category,
+        path,
+        path_name: formatCategoryPath(path),
+        depth: path.length - 1,
+      }, {
+        excludeExtraneousValues: true,
+      });
+    });
+  }
+
+  private async toResponseDto(category: CategoryEntity): Promise<CategoryResponseDto> {
+    const [response] = await this.toResponseDtos([category]);
+    return response;
+  }
+
   //#endregion
 }
\ No newline at end of file
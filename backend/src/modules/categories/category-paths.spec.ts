@@ -0,0 +1,47 @@
+import { buildCategoryPaths, formatCategoryPath } from './category-paths';
+
+const category = (id: string, name: string, parent_id: string | null = null) => ({ id, name, parent_id });
+
+describe('category paths', () => {
+  describe('buildCategoryPaths', () => {
+    it('builds the breadcrumb from the top level down, whatever order the list is in', () => {
+      const paths = buildCategoryPaths([
+        category('espresso', 'Espresso', 'coffee'),
+        category('drinks', 'Drinks'),
+        category('coffee', 'Coffee', 'drinks'),
+      ]);
+
+      expect(paths.get('drinks')).toEqual([{ id: 'drinks', name: 'Drinks' }]);
+      expect(paths.get('espresso')).toEqual([
+        { id: 'drinks', name: 'Drinks' },
+        { id: 'coffee', name: 'Coffee' },
+        { id: 'espresso', name: 'Espresso' },
+      ]);
+    });
+
+    it('ends the breadcrumb at a parent missing from the list', () => {
+      const paths = buildCategoryPaths([category('coffee', 'Coffee', 'deleted-parent')]);
+
+      expect(paths.get('coffee')).toEqual([{ id: 'coffee', name: 'Coffee' }]);
+    });
+
+    it('stops at a loop instead of recursing forever', () => {
+      const paths = buildCategoryPaths([
+        category('a', 'A', 'b'),
+        category('b', 'B', 'a'),
+      ]);
+
+      expect(paths.get('a')?.map(item => item.id)).toEqual(['b', 'a']);
+      expect(paths.get('b')?.map(item => item.id)).toEqual(['b']);
+    });
+  });
+
+  describe('formatCategoryPath', () => {
+    it('joins the names with the separator', () => {
+      expect(formatCategoryPath([
+        { id: 'drinks', name: 'Drinks' },
+        { id: 'coffee', name: 'Coffee' },
+      ])).toBe('Drinks > Coffee');
+    });
+  });
+});
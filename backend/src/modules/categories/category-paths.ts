@@ -0,0 +1,44 @@
+import { CategoryEntity } from '../../core/database/repositories/categories.repository';
+
+export const CATEGORY_PATH_SEPARATOR = ' > ';
+
+export interface CategoryPathItem {
+  id: string;
+  name: string;
+}
+
+/**
+ * Breadcrumb from the top-level category down to each category, keyed by category ID. A
+ * parent missing from the list (e.g. deleted) ends the breadcrumb there.
+ */
+export function buildCategoryPaths(
+  categories: Pick<CategoryEntity, 'id' | 'name' | 'parent_id'>[],
+): Map<string, CategoryPathItem[]> {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const paths = new Map<string, CategoryPathItem[]>();
+
+  const resolve = (id: string, visiting: Set<string>): CategoryPathItem[] => {
+    const cached = paths.get(id);
+    if (cached) {
+      return cached;
+    }
+
+    const category = byId.get(id)!;
+    // The move checks keep the tree acyclic, but a bad row shouldn't hang the request
+    const parentPath = category.parent_id && byId.has(category.parent_id) && !visiting.has(category.parent_id)
+      ? resolve(category.parent_id, visiting.add(id))
+      : [];
+    const path = [...parentPath, { id: category.id, name: category.name }];
+    paths.set(id, path);
+    return path;
+  };
+
+  for (const category of categories) {
+    resolve(category.id, new Set());
+  }
+  return paths;
+}
+
+export function formatCategoryPath(path: CategoryPathItem[]): string {
+  return path.map(item => item.name).join(CATEGORY_PATH_SEPARATOR);
+}
@@ -1,5 +1,22 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { Expose } from 'class-transformer';
+import { Expose, Type } from 'class-transformer';
+
+export class CategoryPathItemDto {
+  @ApiProperty({
+    description: 'Category unique identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    format: 'uuid',
+  })
+  @Expose()
+  id: string;
+
+  @ApiProperty({
+    description: 'Category name',
+    example: 'Electronics',
+  })
+  @Expose()
+  name: string;
+}
 
 export class CategoryResponseDto {
   @ApiProperty({
@@ -17,6 +34,36 @@ export class CategoryResponseDto {
   @Expose()
   name: string;
 
+  @ApiPropertyOptional({
+    description: 'Parent category; null for a top-level category',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    format: 'uuid',
+  })
+  @Expose()
+  parent_id: string | null;
+
+  @ApiProperty({
+    description: 'Breadcrumb from the top-level category down to this one, inclusive',
+    type: [CategoryPathItemDto],
+  })
+  @Expose()
+  @Type(() => CategoryPathItemDto)
+  path: CategoryPathItemDto[];
+
+  @ApiProperty({
+    description: 'Breadcrumb as text',
+    example: 'Electronics > Phones > Accessories',
+  })
+  @Expose()
+  path_name: string;
+
+  @ApiProperty({
+    description: 'Nesting level; 0 for a top-level category',
+    example: 2,
+  })
+  @Expose()
+  depth: number;
+
   @ApiPropertyOptional({
     description: 'Category description',
     example: 'Electronic devices and accessories',
@@ -24,6 +71,14 @@ export class CategoryResponseDto {
   @Expose()
   description: string | null;
 
+  @ApiPropertyOptional({
+    description: 'Default tax class for products in this category',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    format: 'uuid',
+  })
+  @Expose()
+  tax_class_id: string | null;
+
   @ApiProperty({
     description: 'Whether the category is active',
     example: true,
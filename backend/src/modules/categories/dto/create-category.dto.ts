@@ -1,10 +1,10 @@
-import { IsString, IsNotEmpty, IsOptional, IsBoolean, MaxLength } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, IsBoolean, IsUUID, MaxLength } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Transform } from 'class-transformer';
 
 export class CreateCategoryDto {
   @ApiProperty({
-    description: 'Category name (must be unique)',
+    description: 'Category name (must be unique among its sibling categories)',
     example: 'Electronics',
     maxLength: 100,
   })
@@ -14,6 +14,16 @@ export class CreateCategoryDto {
   @Transform(({ value }) => value?.trim())
   name: string;
 
+  @ApiPropertyOptional({
+    description: 'Parent category; omit or null for a top-level category',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    format: 'uuid',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsUUID(4, { message: 'Parent category ID must be a valid UUID' })
+  parent_id?: string | null;
+
   @ApiPropertyOptional({
     description: 'Category description',
     example: 'Electronic devices and accessories',
@@ -25,6 +35,15 @@ export class CreateCategoryDto {
   @Transform(({ value }) => value?.trim())
   description?: string;
 
+  @ApiPropertyOptional({
+    description: 'Default tax class for products in this category',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID(4, { message: 'Tax class ID must be a valid UUID' })
+  tax_class_id?: string;
+
   @ApiPropertyOptional({
     description: 'Whether the category is active',
     example: true,
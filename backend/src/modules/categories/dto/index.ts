@@ -1,3 +1,4 @@
 export { CreateCategoryDto } from './create-category.dto';
 export { UpdateCategoryDto } from './update-category.dto';
-export { CategoryResponseDto, CategoryListResponseDto } from './category-response.dto';
\ No newline at end of file
+export { MoveCategoryDto } from './move-category.dto';
+export { CategoryResponseDto, CategoryListResponseDto, CategoryPathItemDto } from './category-response.dto';
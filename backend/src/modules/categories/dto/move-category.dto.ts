@@ -0,0 +1,14 @@
+import { IsOptional, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class MoveCategoryDto {
+  @ApiPropertyOptional({
+    description: 'New parent category; null to make the category top-level',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    format: 'uuid',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsUUID(4, { message: 'Parent category ID must be a valid UUID' })
+  parent_id: string | null;
+}
@@ -0,0 +1,102 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  UseGuards,
+  Logger,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+import { CostingService } from './costing.service';
+import {
+  InventoryValuationQueryDto,
+  InventoryValuationResponseDto,
+  CostLayerResponseDto,
+} from './dto';
+import { AuthGuard } from '../../common/guards/auth.guard';
+import { ManagerGuard } from '../../common/guards/manager.guard';
+import { successResponse } from '../../common/helpers/api-response.helper';
+import { API_MESSAGES } from '../../common/constants/string-const';
+
+@ApiTags('Inventory Costing')
+@Controller('costing')
+@UseGuards(AuthGuard) // All endpoints require authentication
+@ApiBearerAuth()
+export class CostingController {
+  private readonly logger = new Logger(CostingController.name);
+
+  constructor(private readonly costingService: CostingService) {}
+
+  //#region ==================== READ OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Get inventory valuation',
+    description: 'Units on hand and their cost per product at the end of the given day, from the cost layers. Requires MANAGER or ADMIN role.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Inventory valuation generated successfully',
+    type: InventoryValuationResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid as-of date' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Get('valuation')
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async getValuation(@Query() query: InventoryValuationQueryDto) {
+    this.logger.log(`Generating inventory valuation as of ${query.as_of ?? 'today'}`);
+
+    const valuation = await this.costingService.getValuation(query);
+
+    return successResponse(valuation, API_MESSAGES.INVENTORY_VALUATION_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Get cost layers for a product',
+    description: 'Batches of the product received at each unit cost, oldest first. Requires MANAGER or ADMIN role.',
+  })
+  @ApiParam({
+    name: 'productId',
+    description: 'Product UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiQuery({
+    name: 'include_consumed',
+    required: false,
+    type: Boolean,
+    description: 'Include layers that have been fully consumed',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Cost layers fetched successfully',
+    type: [CostLayerResponseDto],
+  })
+  @ApiNotFoundResponse({ description: 'Product not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Get('layers/:productId')
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async findLayersByProduct(
+    @Param('productId', ParseUUIDPipe) productId: string,
+    @Query('include_consumed') includeConsumed?: string,
+  ) {
+    this.logger.log(`Finding cost layers for product: ${productId}`);
+
+    // Query strings are not transformed, so compare against the literal
+    const layers = await this.costingService.findLayersByProduct(productId, includeConsumed !== 'true');
+
+    return successResponse(layers, API_MESSAGES.COST_LAYERS_FETCHED);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { CostingController } from './costing.controller';
+import { CostingService } from './costing.service';
+import { DatabaseModule } from '../../core/database/database.module';
+import { SupabaseModule } from '../../core/supabase/supabase.module';
+
+@Module({
+  imports: [DatabaseModule, SupabaseModule],
+  controllers: [CostingController],
+  providers: [CostingService],
+  exports: [CostingService],
+})
+export class CostingModule {}
@@ -0,0 +1,174 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import {
+  CostLayersRepository,
+  CostLayerEntity,
+} from '../../core/database/repositories/cost-layers.repository';
+import { ProductsRepository } from '../../core/database/repositories/products.repository';
+import { DbTransaction } from '../../core/database/repositories/base.repository';
+import { StockTransactionType, StockReferenceType } from '../stock/dto';
+import {
+  InventoryValuationQueryDto,
+  InventoryValuationResponseDto,
+  CostLayerResponseDto,
+} from './dto';
+import { inventoryConfig } from '../../config/inventory.config';
+import { MESSAGES } from '../../common/constants/string-const';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A stock movement to be reflected in the cost layers
+ */
+export interface CostedMovement {
+  product_id: string;
+  transaction_type: StockTransactionType;
+  quantity: number;
+  reference_type: StockReferenceType;
+  reference_id?: string;
+  notes?: string;
+  created_by: string;
+  unit_cost?: number; // Cost of units coming in; the product's cost price when omitted
+  purchase_order_item_id?: string; // PO line units are received on, or returned against
+  sales_invoice_item_id?: string; // Invoice line units are sold on, or come back from
+}
+
+export type MovementCostContext = Pick<CostedMovement, 'purchase_order_item_id' | 'sales_invoice_item_id'>;
+
+@Injectable()
+export class CostingService {
+  private readonly logger = new Logger(CostingService.name);
+
+  constructor(
+    private readonly costLayersRepository: CostLayersRepository,
+    private readonly productsRepository: ProductsRepository,
+  ) {}
+
+  /**
+   * Units coming in open a new cost layer; units going out are consumed from the layers with the
+   * configured costing method. Units coming back from an invoice line return at the cost they left at.
+   * ADJUSTMENT entries only record a note and leave the layers alone. Pass the transaction the
+   * stock movement was applied in so the stock, ledger and cost layers commit together.
+   */
+  async recordMovement(movement: CostedMovement, tx?: DbTransaction): Promise<void> {
+    if (movement.quantity <= 0 || movement.transaction_type === StockTransactionType.ADJUSTMENT) {
+      return;
+    }
+
+    const product = await this.productsRepository.findById(movement.product_id);
+    if (!product) {
+      throw new NotFoundException(MESSAGES.PRODUCT_NOT_FOUND);
+    }
+    const costPrice = parseFloat(product.cost_price ?? '0') || 0;
+
+    if (movement.transaction_type === StockTransactionType.IN) {
+      if (movement.sales_invoice_item_id) {
+        await this.costLayersRepository.restockSale({
+          product_id: movement.product_id,
+          sales_invoice_item_id: movement.sales_invoice_item_id,
+          quantity: movement.quantity,
+          reference_type: movement.reference_type,
+          reference_id: movement.reference_id,
+          fallback_unit_cost: costPrice,
+          notes: movement.notes,
+          created_by: movement.created_by,
+        }, tx);
+        return;
+      }
+
+      await this.costLayersRepository.createLayer({
+        product_id: movement.product_id,
+        reference_type: movement.reference_type,
+        reference_id: movement.reference_id,
+        purchase_order_item_id: movement.purchase_order_item_id,
+        unit_cost: movement.unit_cost ?? costPrice,
+        quantity: movement.quantity,
+        notes: movement.notes,
+        created_by: movement.created_by,
+      }, tx);
+      return;
+    }
+
+    await this.costLayersRepository.consume({
+      product_id: movement.product_id,
+      quantity: movement.quantity,
+      method: inventoryConfig.costingMethod,
+      reference_type: movement.reference_type,
+      reference_id: movement.reference_id,
+      sales_invoice_item_id: movement.sales_invoice_item_id,
+      purchase_order_item_id: movement.purchase_order_item_id,
+      fallback_unit_cost: costPrice,
+      created_by: movement.created_by,
+    }, tx);
+  }
+
+  /**
+   * Stock on hand at cost at the end of the given day
+   */
+  async getValuation(query: InventoryValuationQueryDto = {}): Promise<InventoryValuationResponseDto> {
+    const asOf = query.as_of || new Date().toISOString().slice(0, 10);
+    if (!ISO_DATE_PATTERN.test(asOf) || isNaN(Date.parse(asOf))) {
+      throw new BadRequestException(MESSAGES.REPORT_DATE_INVALID);
+    }
+
+    this.logger.log(`Generating inventory valuation as of ${asOf}`);
+
+    try {
+      const asOfEnd = new Date(Date.parse(asOf) + DAY_MS - 1);
+      const rows = await this.costLayersRepository.getValuation(asOfEnd);
+
+      const products = rows.map(row => {
+        const totalValue = parseFloat(row.total_value);
+        return {
+          product_id: row.product_id,
+          product_name: row.product_name,
+          product_sku: row.product_sku,
+          quantity: row.quantity,
+          total_value: totalValue,
+          average_unit_cost: Math.round((totalValue / row.quantity) * 10000) / 10000,
+        };
+      });
+
+      return {
+        as_of: asOf,
+        costing_method: inventoryConfig.costingMethod,
+        products,
+        total_quantity: products.reduce((sum, product) => sum + product.quantity, 0),
+        total_value: this.roundCurrency(products.reduce((sum, product) => sum + product.total_value, 0)),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to generate inventory valuation as of ${asOf}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findLayersByProduct(productId: string, openOnly = true): Promise<CostLayerResponseDto[]> {
+    const product = await this.productsRepository.findById(productId);
+    if (!product) {
+      throw new NotFoundException(MESSAGES.PRODUCT_NOT_FOUND);
+    }
+
+    const layers = await this.costLayersRepository.findByProduct(productId, openOnly);
+    return layers.map(layer => this.mapToLayerResponse(layer));
+  }
+
+  private mapToLayerResponse(layer: CostLayerEntity): CostLayerResponseDto {
+    return {
+      id: layer.id,
+      product_id: layer.product_id,
+      reference_type: layer.reference_type,
+      reference_id: layer.reference_id,
+      purchase_order_item_id: layer.purchase_order_item_id,
+      sales_invoice_item_id: layer.sales_invoice_item_id,
+      unit_cost: parseFloat(layer.unit_cost),
+      quantity_received: layer.quantity_received,
+      quantity_remaining: layer.quantity_remaining,
+      received_at: layer.received_at,
+      notes: layer.notes,
+    };
+  }
+
+  private roundCurrency(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
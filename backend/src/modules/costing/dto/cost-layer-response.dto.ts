@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+
+export class CostLayerResponseDto {
+  @ApiProperty({ description: 'Cost layer ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Product ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  product_id: string;
+
+  @ApiProperty({
+    description: 'What brought the units into stock',
+    enum: ['PURCHASE', 'SALE', 'ADJUSTMENT', 'RETURN', 'TRANSFER', 'RESERVATION'],
+    example: 'PURCHASE',
+  })
+  @Expose()
+  reference_type: string;
+
+  @ApiPropertyOptional({ description: 'Purchase order, invoice or other document ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  reference_id: string | null;
+
+  @ApiPropertyOptional({ description: 'Purchase order line the units were received on', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  purchase_order_item_id: string | null;
+
+  @ApiPropertyOptional({ description: 'Sales invoice line the units came back from', example: null })
+  @Expose()
+  sales_invoice_item_id: string | null;
+
+  @ApiProperty({ description: 'Cost per unit', example: 12.5 })
+  @Expose()
+  unit_cost: number;
+
+  @ApiProperty({ description: 'Units received into the layer', example: 50 })
+  @Expose()
+  quantity_received: number;
+
+  @ApiProperty({ description: 'Units not yet consumed', example: 20 })
+  @Expose()
+  quantity_remaining: number;
+
+  @ApiProperty({ description: 'When the units were received', example: '2024-01-15T10:30:00.000Z' })
+  @Expose()
+  received_at: Date;
+
+  @ApiPropertyOptional({ description: 'Notes', example: 'Opening balance' })
+  @Expose()
+  notes: string | null;
+}
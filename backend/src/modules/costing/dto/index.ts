@@ -0,0 +1,3 @@
+export * from './inventory-valuation-query.dto';
+export * from './inventory-valuation-response.dto';
+export * from './cost-layer-response.dto';
@@ -0,0 +1,12 @@
+import { IsOptional, IsDateString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class InventoryValuationQueryDto {
+  @ApiPropertyOptional({
+    description: 'Date to value stock at, as it stood at the end of that day (defaults to today)',
+    example: '2024-03-31',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'As of must be a valid date string (YYYY-MM-DD)' })
+  as_of?: string;
+}
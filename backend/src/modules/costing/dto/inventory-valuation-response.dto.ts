@@ -0,0 +1,50 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+
+export class InventoryValuationItemDto {
+  @ApiProperty({ description: 'Product ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  product_id: string;
+
+  @ApiProperty({ description: 'Product name', example: 'Wireless Mouse' })
+  @Expose()
+  product_name: string;
+
+  @ApiProperty({ description: 'Product SKU', example: 'WM-001' })
+  @Expose()
+  product_sku: string;
+
+  @ApiProperty({ description: 'Units on hand', example: 40 })
+  @Expose()
+  quantity: number;
+
+  @ApiProperty({ description: 'Cost of the units on hand', example: 498 })
+  @Expose()
+  total_value: number;
+
+  @ApiProperty({ description: 'Total value divided by units on hand', example: 12.45 })
+  @Expose()
+  average_unit_cost: number;
+}
+
+export class InventoryValuationResponseDto {
+  @ApiProperty({ description: 'Date the stock was valued at', example: '2024-03-31' })
+  @Expose()
+  as_of: string;
+
+  @ApiProperty({ description: 'How stock leaving inventory is costed', enum: ['FIFO', 'WEIGHTED_AVERAGE'], example: 'FIFO' })
+  @Expose()
+  costing_method: string;
+
+  @ApiProperty({ description: 'Products in stock, by name', type: [InventoryValuationItemDto] })
+  @Expose()
+  products: InventoryValuationItemDto[];
+
+  @ApiProperty({ description: 'Units on hand across all products', example: 1250 })
+  @Expose()
+  total_quantity: number;
+
+  @ApiProperty({ description: 'Value of all stock on hand at cost', example: 18420.75 })
+  @Expose()
+  total_value: number;
+}
@@ -0,0 +1,4 @@
+export * from './costing.controller';
+export * from './costing.service';
+export * from './costing.module';
+export * from './dto';
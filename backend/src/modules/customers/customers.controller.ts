@@ -0,0 +1,362 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Logger,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  DefaultValuePipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiConflictResponse,
+} from '@nestjs/swagger';
+import { CustomersService } from './customers.service';
+import {
+  CreateCustomerDto,
+  UpdateCustomerDto,
+  CustomerResponseDto,
+  CustomerListResponseDto,
+  CustomerFiltersDto,
+  CustomerAccountResponseDto,
+  LinkInvoicesResponseDto,
+  MergeCustomersDto,
+} from './dto';
+import { AuthGuard } from '../../common/guards/auth.guard';
+import { ManagerGuard } from '../../common/guards/manager.guard';
+import { StaffGuard } from '../../common/guards/staff.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { successResponse, createdResponse } from '../../common/helpers/api-response.helper';
+import { API_MESSAGES } from '../../common/constants/string-const';
+
+@ApiTags('Customers')
+@Controller('customers')
+@UseGuards(AuthGuard) // All endpoints require authentication
+@ApiBearerAuth()
+export class CustomersController {
+  private readonly logger = new Logger(CustomersController.name);
+
+  constructor(private readonly customersService: CustomersService) {}
+
+  //#region ==================== CREATE OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Create a new customer',
+    description: 'Create a customer account with contact details, addresses, tax ID and credit limit. Requires MANAGER or ADMIN role.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Customer created successfully',
+    type: CustomerResponseDto,
+  })
+  @ApiConflictResponse({ description: 'A customer with this email or phone already exists' })
+  @ApiBadRequestResponse({ description: 'Invalid input data' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async createCustomer(
+    @Body() createCustomerDto: CreateCustomerDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Creating customer: ${createCustomerDto.name} by user: ${userId}`);
+
+    const customer = await this.customersService.createCustomer(createCustomerDto, userId);
+
+    this.logger.log(`Customer created successfully: ${customer.id}`);
+    return createdResponse(customer, API_MESSAGES.CUSTOMER_CREATED);
+  }
+
+  @ApiOperation({
+    summary: 'Link invoices to customers',
+    description: 'Match invoices that only have free-text contact details to customers by email or phone, creating customers where none match. Safe to run more than once. Requires MANAGER or ADMIN role.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Invoices linked successfully',
+    type: LinkInvoicesResponseDto,
+  })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Post('link-invoices')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async linkUnassignedInvoices(@CurrentUser('id') userId: string) {
+    this.logger.log(`Linking unassigned invoices by user: ${userId}`);
+
+    const result = await this.customersService.linkUnassignedInvoices(userId);
+
+    return successResponse(result, API_MESSAGES.CUSTOMER_INVOICES_LINKED);
+  }
+
+  //#region ==================== READ OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Get all customers',
+    description: 'Retrieve a paginated list of customers with optional search. Requires STAFF role or above.',
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (starting from 1)',
+    example: 1,
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Number of items per page (1-100)',
+    example: 10,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Customers retrieved successfully',
+    type: CustomerListResponseDto,
+  })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get()
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  async findAllCustomers(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(10), ParseIntPipe) limit: number,
+    @Query() filters: CustomerFiltersDto,
+    @CurrentUser() user: any,
+  ) {
+    this.logger.log(`Finding customers - page: ${page}, limit: ${limit}`);
+
+    // Validate pagination
+    if (page < 1) page = 1;
+    if (limit < 1) limit = 1;
+    if (limit > 100) limit = 100;
+
+    // Only admins can see deleted customers
+    if (filters.withDeleted && user.role !== 'ADMIN') {
+      filters.withDeleted = false;
+    }
+
+    const result = await this.customersService.findAllCustomers(filters, page, limit);
+
+    this.logger.log(`Found ${result.data.length} customers`);
+    return successResponse({
+      ...result,
+      limit,
+    }, API_MESSAGES.CUSTOMERS_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Search customers',
+    description: 'Quick lookup of active customers by name, email, phone or company. Requires STAFF role or above.',
+  })
+  @ApiQuery({
+    name: 'q',
+    required: true,
+    type: String,
+    description: 'Search query (minimum 2 characters)',
+    example: 'smith',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Maximum number of results (1-50)',
+    example: 10,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Customers search completed successfully',
+    type: [CustomerResponseDto],
+  })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get('search/query')
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  async searchCustomers(
+    @Query('q') searchTerm: string,
+    @Query('limit', new DefaultValuePipe(10), ParseIntPipe) limit: number,
+  ) {
+    this.logger.log(`Searching customers with term: ${searchTerm}`);
+
+    // Validate limit
+    if (limit < 1) limit = 1;
+    if (limit > 50) limit = 50;
+
+    const customers = await this.customersService.searchCustomers(searchTerm, limit);
+
+    return successResponse(customers, API_MESSAGES.CUSTOMERS_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Get customer by ID',
+    description: 'Retrieve a specific customer by their ID. Requires STAFF role or above.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Customer UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Customer retrieved successfully',
+    type: CustomerResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Customer not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get(':id')
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  async findCustomerById(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`Finding customer by ID: ${id}`);
+
+    const customer = await this.customersService.findCustomerById(id);
+
+    return successResponse(customer, API_MESSAGES.CUSTOMER_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Get customer account',
+    description: 'Lifetime value, open balance, available credit and recent invoices for a customer. Requires STAFF role or above.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Customer UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Customer account retrieved successfully',
+    type: CustomerAccountResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Customer not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get(':id/account')
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  async getCustomerAccount(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`Getting account for customer: ${id}`);
+
+    const account = await this.customersService.getCustomerAccount(id);
+
+    return successResponse(account, API_MESSAGES.CUSTOMER_ACCOUNT_FETCHED);
+  }
+
+  //#region ==================== UPDATE OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Update a customer',
+    description: 'Update customer details by ID. Requires MANAGER or ADMIN role.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Customer UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Customer updated successfully',
+    type: CustomerResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Customer not found' })
+  @ApiConflictResponse({ description: 'A customer with this email or phone already exists' })
+  @ApiBadRequestResponse({ description: 'Invalid input data' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Patch(':id')
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async updateCustomer(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateCustomerDto: UpdateCustomerDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Updating customer: ${id} by user: ${userId}`);
+
+    const customer = await this.customersService.updateCustomer(id, updateCustomerDto, userId);
+
+    this.logger.log(`Customer updated successfully: ${customer.id}`);
+    return successResponse(customer, API_MESSAGES.CUSTOMER_UPDATED);
+  }
+
+  @ApiOperation({
+    summary: 'Merge a duplicate customer',
+    description: 'Move a duplicate customer\'s invoices onto this customer, fill in missing contact details and delete the duplicate. Requires MANAGER or ADMIN role.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Customer UUID to keep',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Customers merged successfully',
+    type: CustomerResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Customer not found' })
+  @ApiBadRequestResponse({ description: 'A customer cannot be merged into itself' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Post(':id/merge')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async mergeCustomers(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() mergeCustomersDto: MergeCustomersDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Merging customer ${mergeCustomersDto.duplicate_id} into ${id} by user: ${userId}`);
+
+    const customer = await this.customersService.mergeCustomers(id, mergeCustomersDto.duplicate_id, userId);
+
+    return successResponse(customer, API_MESSAGES.CUSTOMERS_MERGED);
+  }
+
+  //#region ==================== DELETE OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Delete a customer',
+    description: 'Soft delete a customer. Their invoices keep the contact details captured at the time. Requires MANAGER or ADMIN role.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Customer UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Customer deleted successfully',
+  })
+  @ApiNotFoundResponse({ description: 'Customer not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Delete(':id')
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async deleteCustomer(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Deleting customer: ${id} by user: ${userId}`);
+
+    const result = await this.customersService.deleteCustomer(id, userId);
+
+    this.logger.log(`Customer deleted successfully: ${id}`);
+    return successResponse(result, result.message);
+  }
+}
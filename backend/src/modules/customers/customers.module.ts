@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { CustomersController } from './customers.controller';
+import { CustomersService } from './customers.service';
+import { DatabaseModule } from '../../core/database/database.module';
+import { SupabaseModule } from '../../core/supabase/supabase.module';
+
+@Module({
+  imports: [DatabaseModule, SupabaseModule],
+  controllers: [CustomersController],
+  providers: [CustomersService],
+  exports: [CustomersService],
+})
+export class CustomersModule {}
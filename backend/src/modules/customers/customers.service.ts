@@ -0,0 +1,343 @@
+import { Injectable, Logger, ConflictException, NotFoundException, BadRequestException } from '@nestjs/common';
+import { CustomersRepository, CustomerEntity } from '../../core/database/repositories/customers.repository';
+import { DbTransaction } from '../../core/database/repositories/base.repository';
+import {
+  CreateCustomerDto,
+  UpdateCustomerDto,
+  CustomerFiltersDto,
+  CustomerAccountResponseDto,
+  LinkInvoicesResponseDto,
+} from './dto';
+import { MESSAGES, API_MESSAGES } from '../../common/constants/string-const';
+
+export interface InvoiceContact {
+  customer_id?: string;
+  customer_name?: string | null;
+  customer_email?: string | null;
+  customer_phone?: string | null;
+}
+
+@Injectable()
+export class CustomersService {
+  private readonly logger = new Logger(CustomersService.name);
+
+  constructor(
+    private readonly customersRepository: CustomersRepository,
+  ) {}
+
+  //#region ==================== CRUD OPERATIONS ====================
+
+  async createCustomer(createCustomerDto: CreateCustomerDto, userId: string): Promise<CustomerEntity> {
+    this.logger.log(`Creating customer: ${createCustomerDto.name} by user: ${userId}`);
+
+    await this.assertContactAvailable(createCustomerDto.email, createCustomerDto.phone);
+
+    try {
+      const customer = await this.customersRepository.create({
+        ...createCustomerDto,
+        created_by: userId,
+      });
+
+      this.logger.log(`Customer created successfully: ${customer.name} (ID: ${customer.id})`);
+      return customer;
+    } catch (error) {
+      this.logger.error(`Failed to create customer: ${createCustomerDto.name}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findAllCustomers(
+    filters: CustomerFiltersDto = {},
+    page = 1,
+    limit = 10,
+  ): Promise<{
+    data: CustomerEntity[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    this.logger.log(`Finding customers with filters:`, filters);
+
+    try {
+      const result = await this.customersRepository.findAll(filters, page, limit);
+
+      this.logger.log(`Found ${result.data.length} customers out of ${result.total} total`);
+      return result;
+    } catch (error) {
+      this.logger.error('Failed to find customers', error.stack);
+      throw error;
+    }
+  }
+
+  async findCustomerById(id: string): Promise<CustomerEntity> {
+    this.logger.log(`Finding customer by ID: ${id}`);
+
+    const customer = await this.customersRepository.findById(id);
+    if (!customer) {
+      this.logger.warn(`Customer not found with ID: ${id}`);
+      throw new NotFoundException(MESSAGES.CUSTOMER_NOT_FOUND);
+    }
+
+    return customer;
+  }
+
+  async updateCustomer(id: string, updateCustomerDto: UpdateCustomerDto, userId: string): Promise<CustomerEntity> {
+    this.logger.log(`Updating customer: ${id} by user: ${userId}`);
+
+    // First verify the customer exists
+    await this.findCustomerById(id);
+
+    await this.assertContactAvailable(updateCustomerDto.email, updateCustomerDto.phone, id);
+
+    try {
+      const updatedCustomer = await this.customersRepository.update(id, {
+        ...updateCustomerDto,
+        updated_by: userId,
+      });
+
+      this.logger.log(`Customer updated successfully: ${updatedCustomer.name} (ID: ${id})`);
+      return updatedCustomer;
+    } catch (error) {
+      this.logger.error(`Failed to update customer: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  async deleteCustomer(id: string, userId: string): Promise<{ message: string }> {
+    this.logger.log(`Soft deleting customer: ${id} by user: ${userId}`);
+
+    await this.findCustomerById(id);
+
+    try {
+      const success = await this.customersRepository.delete(id, userId);
+      if (!success) {
+        this.logger.error(`Failed to delete customer: ${id}`);
+        throw new Error('Failed to delete customer');
+      }
+
+      this.logger.log(`Customer soft deleted successfully: ${id}`);
+      return { message: API_MESSAGES.CUSTOMER_DELETED };
+    } catch (error) {
+      this.logger.error(`Failed to delete customer: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  async searchCustomers(searchTerm: string, limit = 10): Promise<CustomerEntity[]> {
+    this.logger.log(`Searching customers with term: ${searchTerm}`);
+
+    if (!searchTerm || searchTerm.trim().length < 2) {
+      this.logger.warn('Search term too short, returning empty result');
+      return [];
+    }
+
+    try {
+      return await this.customersRepository.searchCustomers(searchTerm.trim(), limit);
+    } catch (error) {
+      this.logger.error(`Failed to search customers with term: ${searchTerm}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== ACCOUNT OPERATIONS ====================
+
+  /**
+   * Lifetime value, open balance and recent invoices for the customer detail view
+   */
+  async getCustomerAccount(id: string): Promise<CustomerAccountResponseDto> {
+    this.logger.log(`Getting account for customer: ${id}`);
+
+    const customer = await this.findCustomerById(id);
+
+    try {
+      const account = await this.customersRepository.getCustomerAccount(id);
+      const recentInvoices = await this.customersRepository.findRecentInvoices(id);
+
+      const openBalance = parseFloat(account.open_balance);
+      const creditLimit = customer.credit_limit !== null ? parseFloat(customer.credit_limit) : null;
+
+      return {
+        customer,
+        invoice_count: Number(account.invoice_count),
+        lifetime_value: parseFloat(account.lifetime_value),
+        open_balance: openBalance,
+        available_credit: creditLimit !== null ? this.roundCurrency(Math.max(creditLimit - openBalance, 0)) : null,
+        first_purchase_at: account.first_purchase_at,
+        last_purchase_at: account.last_purchase_at,
+        recent_invoices: recentInvoices,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to get account for customer: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Moves the duplicate's invoices onto the customer, copies over any contact details
+   * the customer is missing and deletes the duplicate
+   */
+  async mergeCustomers(id: string, duplicateId: string, userId: string): Promise<CustomerEntity> {
+    this.logger.log(`Merging customer ${duplicateId} into ${id} by user: ${userId}`);
+
+    if (id === duplicateId) {
+      throw new BadRequestException(MESSAGES.CUSTOMER_MERGE_SELF);
+    }
+
+    const customer = await this.findCustomerById(id);
+    const duplicate = await this.findCustomerById(duplicateId);
+
+    try {
+      await this.customersRepository.reassignInvoices(duplicate.id, customer.id, userId);
+
+      // Delete first so the duplicate's email and phone are free to move across
+      await this.customersRepository.delete(duplicate.id, userId);
+
+      const mergedCustomer = await this.customersRepository.update(customer.id, {
+        email: customer.email ?? duplicate.email ?? undefined,
+        phone: customer.phone ?? duplicate.phone ?? undefined,
+        company_name: customer.company_name ?? duplicate.company_name ?? undefined,
+        tax_id: customer.tax_id ?? duplicate.tax_id ?? undefined,
+        billing_address: customer.billing_address ?? duplicate.billing_address ?? undefined,
+        shipping_address: customer.shipping_address ?? duplicate.shipping_address ?? undefined,
+        updated_by: userId,
+      });
+
+      this.logger.log(`Customer ${duplicateId} merged into ${id}`);
+      return mergedCustomer;
+    } catch (error) {
+      this.logger.error(`Failed to merge customer ${duplicateId} into ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Links invoices that only carry free-text contact details to a customer, matching on
+   * email then phone and creating a customer when neither matches
+   */
+  async linkUnassignedInvoices(userId: string): Promise<LinkInvoicesResponseDto> {
+    this.logger.log(`Linking unassigned invoices to customers by user: ${userId}`);
+
+    try {
+      const contacts = await this.customersRepository.findUnlinkedInvoiceContacts();
+
+      const invoicesByCustomer = new Map<string, string[]>();
+      let customersCreated = 0;
+      for (const contact of contacts) {
+        const { customer, created } = await this.findOrCreateFromContact(contact, userId);
+        if (created) {
+          customersCreated++;
+        }
+        invoicesByCustomer.set(customer.id, [...(invoicesByCustomer.get(customer.id) ?? []), contact.id]);
+      }
+
+      let invoicesLinked = 0;
+      for (const [customerId, invoiceIds] of invoicesByCustomer) {
+        invoicesLinked += await this.customersRepository.linkInvoices(customerId, invoiceIds);
+      }
+
+      this.logger.log(`Linked ${invoicesLinked} invoices, created ${customersCreated} customers`);
+      return { invoices_linked: invoicesLinked, customers_created: customersCreated };
+    } catch (error) {
+      this.logger.error('Failed to link unassigned invoices', error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== INVOICE HELPERS ====================
+
+  /**
+   * The customer an invoice belongs to: the one given, otherwise the one whose email or
+   * phone matches the invoice's contact details, otherwise a new customer built from
+   * them. Invoices without an email or phone stay walk-in sales. A customer created here
+   * is only kept if the invoice's transaction commits.
+   */
+  async resolveInvoiceCustomer(contact: InvoiceContact, userId: string, tx: DbTransaction): Promise<CustomerEntity | null> {
+    if (contact.customer_id) {
+      const customer = await this.customersRepository.findById(contact.customer_id, false, tx);
+      if (!customer) {
+        this.logger.warn(`Customer not found with ID: ${contact.customer_id}`);
+        throw new NotFoundException(MESSAGES.CUSTOMER_NOT_FOUND);
+      }
+      if (!customer.is_active) {
+        throw new BadRequestException(MESSAGES.CUSTOMER_INACTIVE);
+      }
+      return customer;
+    }
+
+    if (!contact.customer_email && !contact.customer_phone) {
+      return null;
+    }
+
+    const { customer } = await this.findOrCreateFromContact(contact, userId, tx);
+    return customer;
+  }
+
+  /**
+   * Rejects an invoice whose unpaid amount would take the customer past their credit limit.
+   * The customer stays locked until the transaction commits, so concurrent invoices for the
+   * same customer are checked one after the other and each sees the others' balances.
+   */
+  async assertCreditAvailable(customerId: string, unpaidAmount: number, tx: DbTransaction): Promise<void> {
+    if (unpaidAmount <= 0) {
+      return;
+    }
+
+    const customer = await this.customersRepository.lockCustomer(customerId, tx);
+    if (customer.credit_limit === null) {
+      return;
+    }
+
+    const account = await this.customersRepository.getCustomerAccount(customer.id, tx);
+    const exposure = parseFloat(account.open_balance) + unpaidAmount;
+    if (exposure > parseFloat(customer.credit_limit)) {
+      this.logger.warn(`Credit limit exceeded for customer ${customer.id}: ${exposure} > ${customer.credit_limit}`);
+      throw new BadRequestException(MESSAGES.CUSTOMER_CREDIT_LIMIT_EXCEEDED);
+    }
+  }
+
+  //#region ==================== VALIDATION HELPERS ====================
+
+  private async findOrCreateFromContact(
+    contact: InvoiceContact,
+    userId: string,
+    tx?: DbTransaction,
+  ): Promise<{ customer: CustomerEntity; created: boolean }> {
+    const existingCustomer = (contact.customer_email ? await this.customersRepository.findByEmail(contact.customer_email, tx) : null)
+      ?? (contact.customer_phone ? await this.customersRepository.findByPhone(contact.customer_phone, tx) : null);
+    if (existingCustomer) {
+      return { customer: existingCustomer, created: false };
+    }
+
+    const customer = await this.customersRepository.create({
+      name: contact.customer_name?.trim() || contact.customer_email || contact.customer_phone || 'Customer',
+      email: contact.customer_email?.trim().toLowerCase() || undefined,
+      phone: contact.customer_phone?.trim() || undefined,
+      created_by: userId,
+    }, tx);
+
+    this.logger.log(`Created customer ${customer.id} from invoice contact details`);
+    return { customer, created: true };
+  }
+
+  private async assertContactAvailable(email?: string, phone?: string, excludeId?: string): Promise<void> {
+    if (email) {
+      const existingCustomer = await this.customersRepository.findByEmail(email);
+      if (existingCustomer && existingCustomer.id !== excludeId) {
+        this.logger.warn(`Customer email already exists: ${email}`);
+        throw new ConflictException(MESSAGES.CUSTOMER_EMAIL_EXISTS);
+      }
+    }
+
+    if (phone) {
+      const existingCustomer = await this.customersRepository.findByPhone(phone);
+      if (existingCustomer && existingCustomer.id !== excludeId) {
+        this.logger.warn(`Customer phone already exists: ${phone}`);
+        throw new ConflictException(MESSAGES.CUSTOMER_PHONE_EXISTS);
+      }
+    }
+  }
+
+  private roundCurrency(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,113 @@
+import { IsString, IsNotEmpty, IsOptional, IsBoolean, IsEmail, IsNumber, Min, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+
+export class CreateCustomerDto {
+  @ApiProperty({
+    description: 'Customer name',
+    example: 'Jane Smith',
+    maxLength: 100,
+  })
+  @IsString({ message: 'Customer name must be a string' })
+  @IsNotEmpty({ message: 'Customer name is required' })
+  @MaxLength(100, { message: 'Customer name cannot exceed 100 characters' })
+  @Transform(({ value }) => value?.trim())
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Customer email address (unique across customers)',
+    example: 'jane@example.com',
+    maxLength: 200,
+  })
+  @IsOptional()
+  @IsEmail({}, { message: 'Email must be a valid email address' })
+  @MaxLength(200, { message: 'Email cannot exceed 200 characters' })
+  @Transform(({ value }) => value?.trim().toLowerCase())
+  email?: string;
+
+  @ApiPropertyOptional({
+    description: 'Customer phone number (unique across customers)',
+    example: '+1-555-0100',
+    maxLength: 50,
+  })
+  @IsOptional()
+  @IsString({ message: 'Phone number must be a string' })
+  @MaxLength(50, { message: 'Phone number cannot exceed 50 characters' })
+  @Transform(({ value }) => value?.trim())
+  phone?: string;
+
+  @ApiPropertyOptional({
+    description: 'Company the customer buys for',
+    example: 'Smith Catering Ltd',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString({ message: 'Company name must be a string' })
+  @MaxLength(100, { message: 'Company name cannot exceed 100 characters' })
+  @Transform(({ value }) => value?.trim())
+  company_name?: string;
+
+  @ApiPropertyOptional({
+    description: 'Tax registration number',
+    example: 'GB123456789',
+    maxLength: 50,
+  })
+  @IsOptional()
+  @IsString({ message: 'Tax ID must be a string' })
+  @MaxLength(50, { message: 'Tax ID cannot exceed 50 characters' })
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  tax_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Billing address',
+    example: '12 High St, Springfield, 12345',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString({ message: 'Billing address must be a string' })
+  @MaxLength(500, { message: 'Billing address cannot exceed 500 characters' })
+  @Transform(({ value }) => value?.trim())
+  billing_address?: string;
+
+  @ApiPropertyOptional({
+    description: 'Shipping address',
+    example: '12 High St, Springfield, 12345',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString({ message: 'Shipping address must be a string' })
+  @MaxLength(500, { message: 'Shipping address cannot exceed 500 characters' })
+  @Transform(({ value }) => value?.trim())
+  shipping_address?: string;
+
+  @ApiPropertyOptional({
+    description: 'Most the customer may owe on unpaid invoices; leave empty for no limit',
+    example: 1000,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Credit limit must be a number with max 2 decimal places' })
+  @Min(0, { message: 'Credit limit cannot be negative' })
+  @Type(() => Number)
+  credit_limit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Internal notes',
+    example: 'Prefers invoices by email',
+    maxLength: 1000,
+  })
+  @IsOptional()
+  @IsString({ message: 'Notes must be a string' })
+  @MaxLength(1000, { message: 'Notes cannot exceed 1000 characters' })
+  @Transform(({ value }) => value?.trim())
+  notes?: string;
+
+  @ApiPropertyOptional({
+    description: 'Whether the customer is active',
+    example: true,
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'is_active must be a boolean value' })
+  is_active?: boolean;
+}
@@ -0,0 +1,103 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { CustomerResponseDto } from './customer-response.dto';
+
+export class CustomerInvoiceSummaryDto {
+  @ApiProperty({ description: 'Sales invoice ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Invoice number', example: 'INV-20240115-0001' })
+  @Expose()
+  invoice_number: string;
+
+  @ApiProperty({ description: 'Invoice total', example: '103.98' })
+  @Expose()
+  total_amount: string;
+
+  @ApiProperty({ description: 'Paid so far, net of refunds', example: '50.00' })
+  @Expose()
+  amount_paid: string;
+
+  @ApiProperty({ description: 'Payment status', example: 'PAID' })
+  @Expose()
+  payment_status: string;
+
+  @ApiProperty({ description: 'Invoice date', example: '2024-01-15T10:30:00.000Z' })
+  @Expose()
+  created_at: Date;
+}
+
+export class CustomerAccountResponseDto {
+  @ApiProperty({
+    description: 'Customer details',
+    type: CustomerResponseDto,
+  })
+  @Expose()
+  customer: CustomerResponseDto;
+
+  @ApiProperty({
+    description: 'Invoices issued to the customer, excluding void invoices',
+    example: 12,
+  })
+  @Expose()
+  invoice_count: number;
+
+  @ApiProperty({
+    description: 'Total invoiced to the customer, excluding void invoices',
+    example: 1523.4,
+  })
+  @Expose()
+  lifetime_value: number;
+
+  @ApiProperty({
+    description: 'Total of the customer\'s pending and part-paid invoices',
+    example: 120.5,
+  })
+  @Expose()
+  open_balance: number;
+
+  @ApiPropertyOptional({
+    description: 'Credit still available under the credit limit (null when there is no limit)',
+    example: 879.5,
+  })
+  @Expose()
+  available_credit: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Date of the first invoice',
+    example: '2023-06-01T09:12:00.000Z',
+  })
+  @Expose()
+  first_purchase_at: Date | null;
+
+  @ApiPropertyOptional({
+    description: 'Date of the most recent invoice',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  @Expose()
+  last_purchase_at: Date | null;
+
+  @ApiProperty({
+    description: 'Most recent invoices, newest first',
+    type: [CustomerInvoiceSummaryDto],
+  })
+  @Expose()
+  recent_invoices: CustomerInvoiceSummaryDto[];
+}
+
+export class LinkInvoicesResponseDto {
+  @ApiProperty({
+    description: 'Invoices newly linked to a customer',
+    example: 42,
+  })
+  @Expose()
+  invoices_linked: number;
+
+  @ApiProperty({
+    description: 'Customers created from invoice contact details',
+    example: 17,
+  })
+  @Expose()
+  customers_created: number;
+}
@@ -0,0 +1,44 @@
+import { IsOptional, IsString, IsBoolean, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+
+export class CustomerFiltersDto {
+  @ApiPropertyOptional({
+    description: 'Search by name, email, phone, company or tax ID (partial match)',
+    example: 'smith',
+  })
+  @IsOptional()
+  @IsString({ message: 'Search filter must be a string' })
+  @MaxLength(100, { message: 'Search filter cannot exceed 100 characters' })
+  @Transform(({ value }) => value?.trim())
+  search?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by active status',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'is_active filter must be a boolean' })
+  @Type(() => Boolean)
+  @Transform(({ value }) => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return value;
+  })
+  is_active?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Include deleted customers',
+    example: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'withDeleted must be a boolean' })
+  @Type(() => Boolean)
+  @Transform(({ value }) => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return value;
+  })
+  withDeleted?: boolean;
+}
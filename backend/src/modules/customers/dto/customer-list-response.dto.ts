@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { CustomerResponseDto } from './customer-response.dto';
+
+export class CustomerListResponseDto {
+  @ApiProperty({
+    description: 'Array of customers',
+    type: [CustomerResponseDto],
+  })
+  @Expose()
+  data: CustomerResponseDto[];
+
+  @ApiProperty({
+    description: 'Total number of customers',
+    example: 25,
+  })
+  @Expose()
+  total: number;
+
+  @ApiProperty({
+    description: 'Current page number',
+    example: 1,
+  })
+  @Expose()
+  page: number;
+
+  @ApiProperty({
+    description: 'Total number of pages',
+    example: 3,
+  })
+  @Expose()
+  totalPages: number;
+
+  @ApiProperty({
+    description: 'Number of customers per page',
+    example: 10,
+  })
+  @Expose()
+  limit: number;
+}
@@ -0,0 +1,111 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Transform } from 'class-transformer';
+
+export class CustomerResponseDto {
+  @ApiProperty({
+    description: 'Customer unique identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  id: string;
+
+  @ApiProperty({
+    description: 'Customer name',
+    example: 'Jane Smith',
+  })
+  @Expose()
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Customer email address',
+    example: 'jane@example.com',
+  })
+  @Expose()
+  email?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Customer phone number',
+    example: '+1-555-0100',
+  })
+  @Expose()
+  phone?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Company the customer buys for',
+    example: 'Smith Catering Ltd',
+  })
+  @Expose()
+  company_name?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Tax registration number',
+    example: 'GB123456789',
+  })
+  @Expose()
+  tax_id?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Billing address',
+    example: '12 High St, Springfield, 12345',
+  })
+  @Expose()
+  billing_address?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Shipping address',
+    example: '12 High St, Springfield, 12345',
+  })
+  @Expose()
+  shipping_address?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Credit limit on unpaid invoices (no limit when empty)',
+    example: '1000.00',
+  })
+  @Expose()
+  credit_limit?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Internal notes',
+    example: 'Prefers invoices by email',
+  })
+  @Expose()
+  notes?: string | null;
+
+  @ApiProperty({
+    description: 'Whether the customer is active',
+    example: true,
+  })
+  @Expose()
+  is_active: boolean;
+
+  @ApiProperty({
+    description: 'User who created the customer',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  created_by: string;
+
+  @ApiProperty({
+    description: 'Customer creation timestamp',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  @Expose()
+  @Transform(({ value }) => value instanceof Date ? value.toISOString() : value)
+  created_at: Date;
+
+  @ApiPropertyOptional({
+    description: 'User who last updated the customer',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  updated_by?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Last update timestamp',
+    example: '2024-01-16T14:20:00.000Z',
+  })
+  @Expose()
+  @Transform(({ value }) => value instanceof Date ? value.toISOString() : value)
+  updated_at?: Date | null;
+}
@@ -0,0 +1,7 @@
+export * from './create-customer.dto';
+export * from './update-customer.dto';
+export * from './customer-response.dto';
+export * from './customer-list-response.dto';
+export * from './customer-filters.dto';
+export * from './customer-account-response.dto';
+export * from './merge-customers.dto';
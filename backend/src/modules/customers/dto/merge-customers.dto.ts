@@ -0,0 +1,12 @@
+import { IsUUID, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MergeCustomersDto {
+  @ApiProperty({
+    description: 'Duplicate customer whose invoices move to this customer; it is deleted afterwards',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID(4, { message: 'Duplicate customer ID must be a valid UUID' })
+  @IsNotEmpty({ message: 'Duplicate customer ID is required' })
+  duplicate_id: string;
+}
@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateCustomerDto } from './create-customer.dto';
+
+export class UpdateCustomerDto extends PartialType(CreateCustomerDto) {
+  // All fields from CreateCustomerDto become optional
+}
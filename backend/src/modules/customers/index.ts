@@ -0,0 +1,4 @@
+export * from './customers.controller';
+export * from './customers.service';
+export * from './customers.module';
+export * from './dto';
@@ -0,0 +1,513 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { SalesInvoiceWithDetails } from '../../core/database/repositories/sales-invoices.repository';
+import { PurchaseOrderWithDetails } from '../../core/database/repositories/purchase-orders.repository';
+import { companyConfig } from '../../config/company.config';
+import { MESSAGES } from '../../common/constants/string-const';
+import { PdfDocument, PdfTextAlign, PDF_PAGE_WIDTH, PDF_PAGE_HEIGHT } from './pdf-document';
+
+export type ReceiptWidth = 58 | 80;
+export type ReceiptFormat = 'text' | 'html';
+
+export const RECEIPT_WIDTHS: ReceiptWidth[] = [58, 80];
+export const RECEIPT_FORMATS: ReceiptFormat[] = ['text', 'html'];
+
+// Characters per line at the printers' default font
+const RECEIPT_COLUMNS: Record<ReceiptWidth, number> = { 58: 32, 80: 48 };
+
+const MARGIN = 50;
+const CONTENT_WIDTH = PDF_PAGE_WIDTH - MARGIN * 2;
+const ROW_HEIGHT = 18;
+const FOOTER_SPACE = 60;
+
+interface TableColumn {
+  header: string;
+  width: number;
+  align?: PdfTextAlign;
+}
+
+interface TotalsRow {
+  label: string;
+  value: number;
+  bold?: boolean;
+}
+
+interface TaxBreakdownRow {
+  rate: number;
+  taxable: number;
+  tax: number;
+}
+
+@Injectable()
+export class DocumentsService {
+  private readonly logger = new Logger(DocumentsService.name);
+
+  //#region ==================== SALES INVOICES ====================
+
+  renderSalesInvoicePdf(invoice: SalesInvoiceWithDetails): Buffer {
+    this.logger.log(`Rendering PDF for sales invoice: ${invoice.invoice_number}`);
+
+    const doc = new PdfDocument(`Invoice ${invoice.invoice_number}`);
+    let y = this.drawHeader(doc, 'INVOICE', [
+      ['Invoice #', invoice.invoice_number],
+      ['Date', this.formatDate(invoice.created_at)],
+      ['Status', invoice.payment_status],
+    ]);
+
+    const customer = [invoice.customer_name, invoice.customer_email, invoice.customer_phone]
+      .filter((value): value is string => !!value);
+    y = this.drawParty(doc, y, 'Bill To', customer.length > 0 ? customer : ['Walk-in customer']);
+
+    const hasReturns = invoice.items.some(item => item.quantity_returned > 0);
+    const columns: TableColumn[] = [
+      { header: 'SKU', width: 85 },
+      { header: 'Item', width: hasReturns ? 175 : 225 },
+      { header: 'Qty', width: 50, align: 'right' },
+      ...(hasReturns ? [{ header: 'Returned', width: 50, align: 'right' as PdfTextAlign }] : []),
+      { header: 'Unit Price', width: 70, align: 'right' },
+      { header: 'Amount', width: 65, align: 'right' },
+    ];
+    const rows = invoice.items.map(item => [
+      item.product.sku,
+      item.product.name,
+      this.formatQuantity(item.quantity, item.unit_code),
+      ...(hasReturns ? [this.formatQuantity(item.quantity_returned, item.unit_code)] : []),
+      this.formatMoney(item.unit_price),
+      this.formatMoney(item.total_price),
+    ]);
+    y = this.drawTable(doc, y, columns, rows);
+
+    y = this.drawTotals(doc, y, this.getInvoiceTotals(invoice));
+    this.drawTaxBreakdown(doc, y, invoice);
+
+    this.drawFooters(doc, 'Thank you for your business.');
+    return doc.toBuffer();
+  }
+
+  renderSalesInvoiceReceipt(invoice: SalesInvoiceWithDetails, width: ReceiptWidth, format: ReceiptFormat): string {
+    this.logger.log(`Rendering ${width}mm ${format} receipt for sales invoice: ${invoice.invoice_number}`);
+
+    const columns = RECEIPT_COLUMNS[width];
+    const divider = '-'.repeat(columns);
+    const lines: string[] = [];
+
+    // Company header
+    lines.push(...this.wrap(companyConfig.name.toUpperCase(), columns).map(line => this.center(line, columns)));
+    for (const detail of [companyConfig.address, companyConfig.phone, companyConfig.email]) {
+      if (detail) {
+        lines.push(...this.wrap(detail, columns).map(line => this.center(line, columns)));
+      }
+    }
+    if (companyConfig.taxId) {
+      lines.push(this.center(`Tax ID: ${companyConfig.taxId}`, columns));
+    }
+    lines.push(divider);
+
+    lines.push(this.spread('Receipt', invoice.invoice_number, columns));
+    lines.push(this.spread('Date', this.formatDateTime(invoice.created_at), columns));
+    if (invoice.customer_name) {
+      lines.push(this.spread('Customer', invoice.customer_name, columns));
+    }
+    lines.push(divider);
+
+    // One wrapped name line, then quantity x price and the line amount
+    for (const item of invoice.items) {
+      lines.push(...this.wrap(item.product.name, columns));
+      lines.push(this.spread(
+        `  ${this.formatQuantity(item.quantity, item.unit_code)} x ${this.formatMoney(item.unit_price)}`,
+        this.formatMoney(item.total_price),
+        columns,
+      ));
+      if (item.quantity_returned > 0) {
+        lines.push(`  returned ${this.formatQuantity(item.quantity_returned, item.unit_code)}`);
+      }
+    }
+    lines.push(divider);
+
+    for (const row of this.getInvoiceTotals(invoice)) {
+      if (row.bold) {
+        lines.push(divider);
+      }
+      lines.push(this.spread(row.bold ? row.label.toUpperCase() : row.label, this.formatMoney(row.value), columns));
+    }
+    lines.push(divider);
+
+    lines.push('Tax breakdown');
+    for (const row of this.getTaxBreakdown(invoice)) {
+      lines.push(this.spread(`  Taxable @ ${this.formatRate(row.rate)}`, this.formatMoney(row.taxable), columns));
+      lines.push(this.spread(`  Tax @ ${this.formatRate(row.rate)}`, this.formatMoney(row.tax), columns));
+    }
+    lines.push(divider);
+
+    lines.push(this.center(`Payment: ${invoice.payment_status}`, columns));
+    lines.push(this.center('Thank you for shopping with us!', columns));
+
+    const text = lines.join('\n');
+    return format === 'html' ? this.toReceiptHtml(text, width, invoice.invoice_number) : `${text}\n`;
+  }
+
+  /**
+   * Validates the raw receipt query parameters, defaulting to an 80mm text receipt
+   */
+  parseReceiptOptions(width?: string, format?: string): { width: ReceiptWidth; format: ReceiptFormat } {
+    const parsedWidth = width === undefined || width === '' ? 80 : Number(width);
+    if (!RECEIPT_WIDTHS.includes(parsedWidth as ReceiptWidth)) {
+      throw new BadRequestException(MESSAGES.RECEIPT_WIDTH_INVALID);
+    }
+
+    const parsedFormat = (format || 'text').toLowerCase();
+    if (!RECEIPT_FORMATS.includes(parsedFormat as ReceiptFormat)) {
+      throw new BadRequestException(MESSAGES.RECEIPT_FORMAT_INVALID);
+    }
+
+    return { width: parsedWidth as ReceiptWidth, format: parsedFormat as ReceiptFormat };
+  }
+
+  //#region ==================== PURCHASE ORDERS ====================
+
+  renderPurchaseOrderPdf(order: PurchaseOrderWithDetails): Buffer {
+    this.logger.log(`Rendering PDF for purchase order: ${order.order_number}`);
+
+    const doc = new PdfDocument(`Purchase Order ${order.order_number}`);
+    let y = this.drawHeader(doc, 'PURCHASE ORDER', [
+      ['PO #', order.order_number],
+      ['Order Date', this.formatDate(order.order_date ?? order.created_at)],
+      ['Expected', order.expected_delivery_date ? this.formatDate(order.expected_delivery_date) : '-'],
+      ['Status', order.status.replace(/_/g, ' ')],
+    ]);
+
+    const supplier = [
+      order.supplier.name,
+      order.supplier.contact_person ? `Attn: ${order.supplier.contact_person}` : null,
+      order.supplier.email,
+      order.supplier.phone,
+    ].filter((value): value is string => !!value);
+    y = this.drawParty(doc, y, 'Supplier', supplier);
+
+    const columns: TableColumn[] = [
+      { header: 'SKU', width: 80 },
+      { header: 'Item', width: 175 },
+      { header: 'Ordered', width: 55, align: 'right' },
+      { header: 'Received', width: 55, align: 'right' },
+      { header: 'Unit Cost', width: 65, align: 'right' },
+      { header: 'Amount', width: 65, align: 'right' },
+    ];
+    const rows = order.items.map(item => [
+      item.product.sku,
+      item.product.name,
+      this.formatQuantity(item.quantity_ordered, item.unit_code),
+      this.formatQuantity(item.quantity_received, item.unit_code),
+      this.formatMoney(item.unit_cost),
+      this.formatMoney(item.total_cost),
+    ]);
+    y = this.drawTable(doc, y, columns, rows);
+
+    const subtotal = order.items.reduce((sum, item) => sum + parseFloat(item.taxable_amount), 0);
+    const tax = parseFloat(order.tax_amount);
+    const returned = parseFloat(order.returned_amount);
+    const totals: TotalsRow[] = [
+      { label: 'Subtotal', value: subtotal },
+      { label: 'Tax', value: tax },
+      ...(returned > 0 ? [{ label: 'Returned', value: -returned }] : []),
+      { label: 'Total', value: order.total_amount !== null ? parseFloat(order.total_amount) : subtotal + tax - returned, bold: true },
+    ];
+    y = this.drawTotals(doc, y, totals);
+
+    if (order.notes) {
+      y = this.ensureSpace(doc, y, ROW_HEIGHT * 3);
+      doc.text('Notes', MARGIN, y, { font: 'bold', size: 10 });
+      doc.text(order.notes, MARGIN, y + 14, { size: 9, width: CONTENT_WIDTH });
+    }
+
+    this.drawFooters(doc, 'Please quote the PO number on all invoices and delivery notes.');
+    return doc.toBuffer();
+  }
+
+  //#region ==================== PDF LAYOUT HELPERS ====================
+
+  /**
+   * Company block on the left, document title and reference details on the right
+   */
+  private drawHeader(doc: PdfDocument, title: string, meta: [string, string][]): number {
+    let left = MARGIN;
+    doc.text(companyConfig.name, MARGIN, left, { size: 18, font: 'bold', width: CONTENT_WIDTH / 2 });
+    left += 26;
+    for (const detail of [companyConfig.address, companyConfig.phone, companyConfig.email]) {
+      if (detail) {
+        doc.text(detail, MARGIN, left, { size: 9, width: CONTENT_WIDTH / 2, color: [0.3, 0.3, 0.3] });
+        left += 12;
+      }
+    }
+    if (companyConfig.taxId) {
+      doc.text(`Tax ID: ${companyConfig.taxId}`, MARGIN, left, { size: 9, width: CONTENT_WIDTH / 2, color: [0.3, 0.3, 0.3] });
+      left += 12;
+    }
+
+    const rightX = MARGIN + CONTENT_WIDTH / 2;
+    const rightWidth = CONTENT_WIDTH / 2;
+    let right = MARGIN;
+    doc.text(title, rightX, right, { size: 18, font: 'bold', align: 'right', width: rightWidth });
+    right += 26;
+    for (const [label, value] of meta) {
+      doc.text(label, rightX, right, { size: 9, width: rightWidth - 120, align: 'right', color: [0.3, 0.3, 0.3] });
+      doc.text(value, rightX + rightWidth - 115, right, { size: 9, font: 'bold', width: 115, align: 'right' });
+      right += 12;
+    }
+
+    const bottom = Math.max(left, right) + 10;
+    doc.line(MARGIN, bottom, MARGIN + CONTENT_WIDTH, bottom, 1, 0.2);
+    return bottom + 15;
+  }
+
+  private drawParty(doc: PdfDocument, y: number, heading: string, lines: string[]): number {
+    doc.text(heading.toUpperCase(), MARGIN, y, { size: 8, font: 'bold', color: [0.4, 0.4, 0.4] });
+    let cursor = y + 12;
+    lines.forEach((line, index) => {
+      doc.text(line, MARGIN, cursor, { size: index === 0 ? 11 : 9, font: index === 0 ? 'bold' : 'regular', width: CONTENT_WIDTH / 2 });
+      cursor += index === 0 ? 15 : 12;
+    });
+    return cursor + 15;
+  }
+
+  /**
+   * Draws a table, starting new pages as needed and repeating the header row on each
+   */
+  private drawTable(doc: PdfDocument, y: number, columns: TableColumn[], rows: string[][]): number {
+    const drawHeaderRow = (top: number): number => {
+      doc.rect(MARGIN, top, CONTENT_WIDTH, ROW_HEIGHT);
+      let x = MARGIN;
+      for (const column of columns) {
+        doc.text(column.header, x + 4, top + 5, { size: 9, font: 'bold', width: column.width - 8, align: column.align });
+        x += column.width;
+      }
+      return top + ROW_HEIGHT;
+    };
+
+    let cursor = drawHeaderRow(y);
+    for (const row of rows) {
+      if (cursor + ROW_HEIGHT > PDF_PAGE_HEIGHT - FOOTER_SPACE) {
+        doc.addPage();
+        cursor = drawHeaderRow(MARGIN);
+      }
+
+      let x = MARGIN;
+      row.forEach((cell, index) => {
+        const column = columns[index];
+        doc.text(cell, x + 4, cursor + 5, { size: 9, width: column.width - 8, align: column.align });
+        x += column.width;
+      });
+      cursor += ROW_HEIGHT;
+      doc.line(MARGIN, cursor, MARGIN + CONTENT_WIDTH, cursor, 0.25, 0.85);
+    }
+
+    return cursor + 10;
+  }
+
+  private drawTotals(doc: PdfDocument, y: number, totals: TotalsRow[]): number {
+    let cursor = this.ensureSpace(doc, y, totals.length * 16 + 10);
+    const labelX = MARGIN + CONTENT_WIDTH - 230;
+
+    for (const row of totals) {
+      if (row.bold) {
+        doc.line(labelX, cursor, MARGIN + CONTENT_WIDTH, cursor, 0.75, 0.2);
+        cursor += 5;
+      }
+      const size = row.bold ? 12 : 10;
+      const font = row.bold ? 'bold' : 'regular';
+      doc.text(row.label, labelX, cursor, { size, font, width: 130 });
+      doc.text(this.formatMoney(row.value), labelX + 130, cursor, { size, font, width: 100, align: 'right' });
+      cursor += row.bold ? 20 : 16;
+    }
+
+    return cursor + 10;
+  }
+
+  private drawTaxBreakdown(doc: PdfDocument, y: number, invoice: SalesInvoiceWithDetails): number {
+    const breakdown = this.getTaxBreakdown(invoice);
+    let cursor = this.ensureSpace(doc, y, ROW_HEIGHT * (breakdown.length + 3));
+
+    doc.text('TAX BREAKDOWN', MARGIN, cursor, { size: 8, font: 'bold', color: [0.4, 0.4, 0.4] });
+    cursor += 14;
+
+    const columns: TableColumn[] = [
+      { header: 'Taxable Amount', width: 120, align: 'right' },
+      { header: 'Rate', width: 80, align: 'right' },
+      { header: 'Tax', width: 100, align: 'right' },
+    ];
+    const tableWidth = columns.reduce((sum, column) => sum + column.width, 0);
+    doc.rect(MARGIN, cursor, tableWidth, ROW_HEIGHT);
+
+    let x = MARGIN;
+    for (const column of columns) {
+      doc.text(column.header, x + 4, cursor + 5, { size: 9, font: 'bold', width: column.width - 8, align: column.align });
+      x += column.width;
+    }
+    cursor += ROW_HEIGHT;
+
+    for (const row of breakdown) {
+      const values = [this.formatMoney(row.taxable), this.formatRate(row.rate), this.formatMoney(row.tax)];
+      x = MARGIN;
+      values.forEach((value, index) => {
+        doc.text(value, x + 4, cursor + 5, { size: 9, width: columns[index].width - 8, align: columns[index].align });
+        x += columns[index].width;
+      });
+      cursor += ROW_HEIGHT;
+    }
+
+    return cursor + 10;
+  }
+
+  private drawFooters(doc: PdfDocument, message: string): void {
+    const total = doc.pageCount;
+    for (let page = 0; page < total; page++) {
+      doc.setPage(page);
+      const top = PDF_PAGE_HEIGHT - MARGIN + 10;
+      doc.line(MARGIN, top - 6, MARGIN + CONTENT_WIDTH, top - 6, 0.25, 0.7);
+      doc.text(message, MARGIN, top, { size: 8, width: CONTENT_WIDTH - 80, color: [0.4, 0.4, 0.4] });
+      doc.text(`Page ${page + 1} of ${total}`, MARGIN + CONTENT_WIDTH - 80, top, { size: 8, width: 80, align: 'right', color: [0.4, 0.4, 0.4] });
+    }
+  }
+
+  private ensureSpace(doc: PdfDocument, y: number, height: number): number {
+    if (y + height > PDF_PAGE_HEIGHT - FOOTER_SPACE) {
+      doc.addPage();
+      return MARGIN;
+    }
+    return y;
+  }
+
+  //#region ==================== RECEIPT HELPERS ====================
+
+  private toReceiptHtml(text: string, width: ReceiptWidth, invoiceNumber: string): string {
+    const escaped = text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+
+    return [
+      '<!DOCTYPE html>',
+      '<html>',
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>Receipt ${invoiceNumber.replace(/[<>&"]/g, '')}</title>`,
+      '<style>',
+      `@page { size: ${width}mm auto; margin: 0; }`,
+      `body { width: ${width}mm; margin: 0; padding: 2mm; box-sizing: border-box; }`,
+      `pre { margin: 0; font-family: "Courier New", monospace; font-size: ${width === 58 ? 9 : 11}px; line-height: 1.25; white-space: pre; }`,
+      '</style>',
+      '</head>',
+      '<body>',
+      `<pre>${escaped}</pre>`,
+      '</body>',
+      '</html>',
+      '',
+    ].join('\n');
+  }
+
+  private spread(left: string, right: string, columns: number): string {
+    const space = columns - left.length - right.length;
+    if (space >= 1) {
+      return `${left}${' '.repeat(space)}${right}`;
+    }
+    // Not enough room: keep the amount and shorten the label
+    const available = Math.max(columns - right.length - 1, 0);
+    return `${left.slice(0, available)} ${right}`;
+  }
+
+  private center(value: string, columns: number): string {
+    const padding = Math.max(Math.floor((columns - value.length) / 2), 0);
+    return `${' '.repeat(padding)}${value}`.slice(0, columns);
+  }
+
+  private wrap(value: string, columns: number): string[] {
+    const lines: string[] = [];
+    let current = '';
+    for (const word of value.split(/\s+/).filter(Boolean)) {
+      if (word.length > columns) {
+        if (current) {
+          lines.push(current);
+          current = '';
+        }
+        for (let i = 0; i < word.length; i += columns) {
+          lines.push(word.slice(i, i + columns));
+        }
+        continue;
+      }
+      if (!current) {
+        current = word;
+      } else if (current.length + 1 + word.length <= columns) {
+        current += ` ${word}`;
+      } else {
+        lines.push(current);
+        current = word;
+      }
+    }
+    if (current) {
+      lines.push(current);
+    }
+    return lines;
+  }
+
+  //#region ==================== FORMATTING HELPERS ====================
+
+  private getInvoiceTotals(invoice: SalesInvoiceWithDetails): TotalsRow[] {
+    const discount = parseFloat(invoice.discount_amount);
+    const returned = parseFloat(invoice.returned_amount);
+    const total = parseFloat(invoice.total_amount);
+    const paid = parseFloat(invoice.amount_paid);
+
+    return [
+      { label: 'Subtotal', value: parseFloat(invoice.subtotal) },
+      ...(discount > 0 ? [{ label: invoice.coupon_code ? `Discount (${invoice.coupon_code})` : 'Discount', value: -discount }] : []),
+      { label: 'Tax', value: parseFloat(invoice.tax_amount) },
+      ...(returned > 0 ? [{ label: 'Returned', value: -returned }] : []),
+      { label: 'Total', value: total, bold: true },
+      ...(paid > 0 ? [
+        { label: 'Paid', value: -paid },
+        { label: 'Balance due', value: Math.round((total - paid) * 100) / 100 },
+      ] : []),
+    ];
+  }
+
+  /**
+   * Taxable amount and tax per rate, taken from the tax captured on each line
+   */
+  private getTaxBreakdown(invoice: SalesInvoiceWithDetails): TaxBreakdownRow[] {
+    const byRate = new Map<number, TaxBreakdownRow>();
+    for (const item of invoice.items) {
+      const rate = parseFloat(item.tax_rate);
+      const row = byRate.get(rate) ?? { rate, taxable: 0, tax: 0 };
+      row.taxable += parseFloat(item.taxable_amount);
+      row.tax += parseFloat(item.tax_amount);
+      byRate.set(rate, row);
+    }
+
+    const rows = [...byRate.values()].sort((a, b) => a.rate - b.rate);
+    return rows.length > 0 ? rows : [{ rate: 0, taxable: 0, tax: 0 }];
+  }
+
+  private formatQuantity(quantity: number, unitCode: string): string {
+    return `${quantity} ${unitCode}`;
+  }
+
+  private formatRate(rate: number): string {
+    return `${Math.round(rate * 100) / 100}%`;
+  }
+
+  private formatMoney(value: string | number): string {
+    const amount = typeof value === 'string' ? parseFloat(value) : value;
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: companyConfig.currency,
+    }).format(Number.isFinite(amount) ? amount : 0);
+  }
+
+  private formatDate(value: Date | string): string {
+    const date = value instanceof Date ? value : new Date(value);
+    return date.toISOString().slice(0, 10);
+  }
+
+  private formatDateTime(value: Date | string): string {
+    const date = value instanceof Date ? value : new Date(value);
+    return `${date.toISOString().slice(0, 10)} ${date.toISOString().slice(11, 16)}`;
+  }
+}
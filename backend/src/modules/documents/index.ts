@@ -0,0 +1,4 @@
+export * from './documents.service';
+export * from './documents.module';
+export * from './pdf-document';
+export * from './tabular-export';
@@ -0,0 +1,221 @@
+/**
+ * Minimal PDF 1.4 writer for text-based business documents.
+ *
+ * Uses the standard Helvetica faces (no font embedding) with WinAnsi encoding, so
+ * output stays small and needs no native dependencies. Coordinates are in points
+ * with the origin at the top-left corner of the page.
+ */
+
+export type PdfFont = 'regular' | 'bold';
+export type PdfTextAlign = 'left' | 'right' | 'center';
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  align?: PdfTextAlign;
+  // Box width used for right/center alignment and truncation
+  width?: number;
+  color?: [number, number, number];
+}
+
+// A4 portrait
+export const PDF_PAGE_WIDTH = 595.28;
+export const PDF_PAGE_HEIGHT = 841.89;
+
+// Glyph widths (per 1000 em) for ASCII 32..126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+const DEFAULT_GLYPH_WIDTH = 556;
+const EURO_SIGN_CODE = 0x80;
+
+export class PdfDocument {
+  private readonly pages: string[][] = [];
+  private currentPage = -1;
+
+  constructor(private readonly title?: string) {
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.currentPage = this.pages.length - 1;
+  }
+
+  /**
+   * Switches drawing to an existing page, e.g. to stamp page numbers at the end
+   */
+  setPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) {
+      throw new RangeError(`Page ${index} does not exist`);
+    }
+    this.currentPage = index;
+  }
+
+  text(value: string, x: number, y: number, options: PdfTextOptions = {}): void {
+    const size = options.size ?? 10;
+    const font = options.font ?? 'regular';
+    let content = this.toWinAnsi(value);
+
+    if (options.width !== undefined) {
+      content = this.truncate(content, options.width, size, font);
+    }
+
+    const textWidth = this.measureEncoded(content, size, font);
+    let drawX = x;
+    if (options.width !== undefined && options.align === 'right') {
+      drawX = x + options.width - textWidth;
+    } else if (options.width !== undefined && options.align === 'center') {
+      drawX = x + (options.width - textWidth) / 2;
+    }
+
+    const [r, g, b] = options.color ?? [0, 0, 0];
+    const fontName = font === 'bold' ? 'F2' : 'F1';
+    const baseline = PDF_PAGE_HEIGHT - y - size;
+
+    this.pages[this.currentPage].push(
+      `BT ${this.num(r)} ${this.num(g)} ${this.num(b)} rg /${fontName} ${this.num(size)} Tf ` +
+      `${this.num(drawX)} ${this.num(baseline)} Td (${this.escape(content)}) Tj ET`,
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5, gray = 0.6): void {
+    this.pages[this.currentPage].push(
+      `${this.num(gray)} G ${this.num(width)} w ` +
+      `${this.num(x1)} ${this.num(PDF_PAGE_HEIGHT - y1)} m ${this.num(x2)} ${this.num(PDF_PAGE_HEIGHT - y2)} l S`,
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, gray = 0.93): void {
+    this.pages[this.currentPage].push(
+      `${this.num(gray)} g ${this.num(x)} ${this.num(PDF_PAGE_HEIGHT - y - height)} ` +
+      `${this.num(width)} ${this.num(height)} re f`,
+    );
+  }
+
+  measure(value: string, size = 10, font: PdfFont = 'regular'): number {
+    return this.measureEncoded(this.toWinAnsi(value), size, font);
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const pageObjectIds: number[] = [];
+
+    // 1: catalog, 2: page tree, 3-4: fonts, 5: info, then a page + content pair per page
+    const firstPageId = 6;
+    this.pages.forEach((_, index) => pageObjectIds.push(firstPageId + index * 2));
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageObjectIds.map(id => `${id} 0 R`).join(' ')}] /Count ${this.pages.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+    objects[5] = `<< /Producer (RetailFlow)${this.title ? ` /Title (${this.escape(this.toWinAnsi(this.title))})` : ''} >>`;
+
+    this.pages.forEach((operations, index) => {
+      const pageId = pageObjectIds[index];
+      const stream = operations.join('\n');
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+    });
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output, 'latin1');
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  //#region ==================== ENCODING HELPERS ====================
+
+  /**
+   * Maps a JS string onto single-byte WinAnsi characters, replacing anything unsupported
+   */
+  private toWinAnsi(value: string): string {
+    let result = '';
+    for (const char of value) {
+      const code = char.codePointAt(0) ?? 63;
+      if (char === '€') {
+        result += String.fromCharCode(EURO_SIGN_CODE);
+      } else if (code === 9 || code === 10 || code === 13) {
+        result += ' ';
+      } else if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+        result += char;
+      } else {
+        result += '?';
+      }
+    }
+    return result;
+  }
+
+  private measureEncoded(value: string, size: number, font: PdfFont): number {
+    const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let total = 0;
+    for (let i = 0; i < value.length; i++) {
+      const code = value.charCodeAt(i);
+      total += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_GLYPH_WIDTH;
+    }
+    return (total * size) / 1000;
+  }
+
+  private truncate(value: string, maxWidth: number, size: number, font: PdfFont): string {
+    if (this.measureEncoded(value, size, font) <= maxWidth) {
+      return value;
+    }
+    let truncated = value;
+    while (truncated.length > 0 && this.measureEncoded(`${truncated}...`, size, font) > maxWidth) {
+      truncated = truncated.slice(0, -1);
+    }
+    return `${truncated}...`;
+  }
+
+  private escape(value: string): string {
+    let result = '';
+    for (let i = 0; i < value.length; i++) {
+      const char = value[i];
+      const code = value.charCodeAt(i);
+      if (char === '(' || char === ')' || char === '\\') {
+        result += `\\${char}`;
+      } else if (code > 126) {
+        result += `\\${code.toString(8).padStart(3, '0')}`;
+      } else {
+        result += char;
+      }
+    }
+    return result;
+  }
+
+  private num(value: number): string {
+    return Number.isInteger(value) ? String(value) : value.toFixed(2);
+  }
+}
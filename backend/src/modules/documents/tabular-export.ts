@@ -0,0 +1,371 @@
+/**
+ * Streaming CSV, JSON and XLSX writers for bulk data exports.
+ *
+ * Rows are pulled page by page from an async source and written out as they arrive, so an
+ * export never holds more than one page in memory. XLSX output is a single-sheet workbook
+ * zipped on the fly: each part is deflated in sync-flushed pieces and its size and CRC are
+ * written after the data (zip "data descriptors"), so nothing has to be buffered. Archives
+ * are plain zip, not zip64, which keeps them readable up to 4 GB.
+ */
+
+import { BadRequestException, StreamableFile } from '@nestjs/common';
+import { Readable } from 'stream';
+import { constants, crc32, deflateRawSync } from 'zlib';
+import { MESSAGES } from '../../common/constants/string-const';
+
+export enum ExportFormat {
+  CSV = 'csv',
+  XLSX = 'xlsx',
+  JSON = 'json',
+}
+
+// Rows fetched per query while an export streams
+export const EXPORT_PAGE_SIZE = 500;
+
+export type ExportCellValue = string | number | boolean | Date | null | undefined;
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => ExportCellValue;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  [ExportFormat.CSV]: 'text/csv; charset=utf-8',
+  [ExportFormat.XLSX]: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  [ExportFormat.JSON]: 'application/json; charset=utf-8',
+};
+
+/**
+ * Validates the requested format, defaulting to CSV
+ */
+export function parseExportFormat(value?: string): ExportFormat {
+  if (!value) {
+    return ExportFormat.CSV;
+  }
+
+  const requested = value.toLowerCase() as ExportFormat;
+  const format = Object.values(ExportFormat).find(candidate => candidate === requested);
+  if (!format) {
+    throw new BadRequestException(MESSAGES.EXPORT_FORMAT_INVALID);
+  }
+  return format;
+}
+
+/**
+ * Streams the rows as a download. CSV and XLSX get one column per entry in columns; JSON gets
+ * the rows themselves, as the list endpoints return them.
+ */
+export function createExportFile<T>(
+  format: ExportFormat,
+  name: string,
+  columns: ExportColumn<T>[],
+  pages: AsyncIterable<T[]>,
+): StreamableFile {
+  const chunks = format === ExportFormat.XLSX
+    ? writeXlsx(columns, pages, name)
+    : format === ExportFormat.JSON
+      ? writeJson(pages)
+      : writeCsv(columns, pages);
+
+  const filename = `${name}-${new Date().toISOString().slice(0, 10)}.${format}`;
+  return new StreamableFile(Readable.from(chunks), {
+    type: CONTENT_TYPES[format],
+    disposition: `attachment; filename="${filename}"`,
+  });
+}
+
+//#region ==================== CSV ====================
+
+async function* writeCsv<T>(columns: ExportColumn<T>[], pages: AsyncIterable<T[]>): AsyncGenerator<string> {
+  // The byte order mark makes Excel open the file as UTF-8
+  yield '﻿' + columns.map(column => toCsvField(column.header)).join(',') + '\r\n';
+
+  for await (const rows of pages) {
+    if (rows.length === 0) continue;
+    yield rows.map(row => columns.map(column => toCsvField(column.value(row))).join(',')).join('\r\n') + '\r\n';
+  }
+}
+
+function toCsvField(value: ExportCellValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value !== 'string') {
+    return value instanceof Date ? value.toISOString() : String(value);
+  }
+
+  // Text that a spreadsheet would run as a formula is prefixed so it stays text
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+//#region ==================== JSON ====================
+
+async function* writeJson<T>(pages: AsyncIterable<T[]>): AsyncGenerator<string> {
+  let first = true;
+  yield '[';
+
+  for await (const rows of pages) {
+    for (const row of rows) {
+      yield (first ? '\n' : ',\n') + JSON.stringify(row);
+      first = false;
+    }
+  }
+
+  yield first ? ']\n' : '\n]\n';
+}
+
+//#region ==================== XLSX ====================
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const XLSX_CONTENT_TYPES = XML_HEADER +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+  '</Types>';
+
+const XLSX_ROOT_RELS = XML_HEADER +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+  '</Relationships>';
+
+const XLSX_WORKBOOK_RELS = XML_HEADER +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+  '</Relationships>';
+
+// Style 0 is the default; style 1 is bold, for the header row
+const XLSX_STYLES = XML_HEADER +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  '</styleSheet>';
+
+async function* writeXlsx<T>(columns: ExportColumn<T>[], pages: AsyncIterable<T[]>, sheetName: string): AsyncGenerator<Buffer> {
+  const zip = new ZipStreamWriter();
+
+  yield zip.addFile('[Content_Types].xml', XLSX_CONTENT_TYPES);
+  yield zip.addFile('_rels/.rels', XLSX_ROOT_RELS);
+  yield zip.addFile('xl/_rels/workbook.xml.rels', XLSX_WORKBOOK_RELS);
+  yield zip.addFile('xl/styles.xml', XLSX_STYLES);
+  yield zip.addFile('xl/workbook.xml', XML_HEADER +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets></workbook>`);
+
+  yield zip.openEntry('xl/worksheets/sheet1.xml');
+
+  // The header row stays in view while scrolling
+  const header = columns.map((column, index) => toXlsxCell(column.header, index, 1, 1)).join('');
+  yield zip.writeEntry(XML_HEADER +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData><row r="1">${header}</row>`);
+
+  let rowNumber = 1;
+  for await (const rows of pages) {
+    if (rows.length === 0) continue;
+
+    const xml = rows.map(row => {
+      rowNumber++;
+      const cells = columns.map((column, index) => toXlsxCell(column.value(row), index, rowNumber)).join('');
+      return `<row r="${rowNumber}">${cells}</row>`;
+    }).join('');
+    yield zip.writeEntry(xml);
+  }
+
+  yield zip.writeEntry('</sheetData></worksheet>');
+  yield zip.closeEntry();
+  yield zip.finish();
+}
+
+function toXlsxCell(value: ExportCellValue, columnIndex: number, rowNumber: number, style = 0): string {
+  if (value === null || value === undefined || value === '') {
+    return '';
+  }
+
+  const reference = `${columnName(columnIndex)}${rowNumber}`;
+  const styleAttribute = style ? ` s="${style}"` : '';
+
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${reference}"${styleAttribute}><v>${value}</v></c>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${reference}"${styleAttribute} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return `<c r="${reference}"${styleAttribute} t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+/**
+ * Spreadsheet column letters for a zero-based index: 0 is "A", 26 is "AA"
+ */
+function columnName(index: number): string {
+  let name = '';
+  for (let remaining = index + 1; remaining > 0; remaining = Math.floor((remaining - 1) / 26)) {
+    name = String.fromCharCode(65 + ((remaining - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Control characters other than tab, newline and carriage return are not allowed in XML 1.0,
+ * even escaped
+ */
+function isXmlInvalidChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code < 0x20 && char !== '\t' && char !== '\n' && char !== '\r';
+}
+
+function escapeXml(value: string): string {
+  return Array.from(value)
+    .filter(char => !isXmlInvalidChar(char))
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+//#region ==================== ZIP ====================
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_DATA_DESCRIPTOR = 0x08074b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+const ZIP_VERSION = 20;
+const ZIP_DEFLATED = 8;
+// Bit 3: sizes and CRC follow the data; bit 11: names are UTF-8
+const ZIP_FLAGS = 0x0008 | 0x0800;
+
+interface ZipEntry {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+}
+
+/**
+ * Writes a zip archive front to back. Each method returns the bytes to append next.
+ */
+class ZipStreamWriter {
+  private readonly entries: ZipEntry[] = [];
+  private readonly modified = dosDateTime(new Date());
+  private current: ZipEntry | null = null;
+  private offset = 0;
+
+  addFile(name: string, content: string): Buffer {
+    return Buffer.concat([this.openEntry(name), this.writeEntry(content), this.closeEntry()]);
+  }
+
+  openEntry(name: string): Buffer {
+    this.current = { name: Buffer.from(name, 'utf8'), offset: this.offset, crc: 0, compressedSize: 0, size: 0 };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(ZIP_LOCAL_HEADER, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4);
+    header.writeUInt16LE(ZIP_FLAGS, 6);
+    header.writeUInt16LE(ZIP_DEFLATED, 8);
+    header.writeUInt16LE(this.modified.time, 10);
+    header.writeUInt16LE(this.modified.date, 12);
+    // CRC and sizes (14-25) are left at zero; the data descriptor carries them
+    header.writeUInt16LE(this.current.name.length, 26);
+
+    return this.track(Buffer.concat([header, this.current.name]));
+  }
+
+  /**
+   * Sync-flushed deflate output ends on a byte boundary, so independently compressed pieces
+   * concatenate into one valid stream
+   */
+  writeEntry(content: string): Buffer {
+    const entry = this.requireEntry();
+    const data = Buffer.from(content, 'utf8');
+    const compressed = deflateRawSync(data, { finishFlush: constants.Z_SYNC_FLUSH });
+
+    entry.crc = crc32(data, entry.crc);
+    entry.size += data.length;
+    entry.compressedSize += compressed.length;
+    return this.track(compressed);
+  }
+
+  closeEntry(): Buffer {
+    const entry = this.requireEntry();
+    // An empty final block terminates the deflate stream
+    const finalBlock = deflateRawSync(Buffer.alloc(0));
+    entry.compressedSize += finalBlock.length;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(ZIP_DATA_DESCRIPTOR, 0);
+    descriptor.writeUInt32LE(entry.crc >>> 0, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+
+    this.entries.push(entry);
+    this.current = null;
+    return this.track(Buffer.concat([finalBlock, descriptor]));
+  }
+
+  finish(): Buffer {
+    const directoryOffset = this.offset;
+    const headers = this.entries.map(entry => {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(ZIP_CENTRAL_HEADER, 0);
+      header.writeUInt16LE(ZIP_VERSION, 4);
+      header.writeUInt16LE(ZIP_VERSION, 6);
+      header.writeUInt16LE(ZIP_FLAGS, 8);
+      header.writeUInt16LE(ZIP_DEFLATED, 10);
+      header.writeUInt16LE(this.modified.time, 12);
+      header.writeUInt16LE(this.modified.date, 14);
+      header.writeUInt32LE(entry.crc >>> 0, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt32LE(entry.offset, 42);
+      return Buffer.concat([header, entry.name]);
+    });
+    const directory = Buffer.concat(headers);
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(ZIP_END_OF_DIRECTORY, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+
+    return this.track(Buffer.concat([directory, end]));
+  }
+
+  private requireEntry(): ZipEntry {
+    if (!this.current) {
+      throw new Error('No zip entry is open');
+    }
+    return this.current;
+  }
+
+  private track(chunk: Buffer): Buffer {
+    this.offset += chunk.length;
+    return chunk;
+  }
+}
+
+/**
+ * MS-DOS date and time fields, in local time with two-second resolution
+ */
+function dosDateTime(date: Date): { date: number; time: number } {
+  return {
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  };
+}
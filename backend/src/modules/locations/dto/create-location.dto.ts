@@ -0,0 +1,57 @@
+import { IsString, IsNotEmpty, IsOptional, IsBoolean, MaxLength, Matches } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+
+export class CreateLocationDto {
+  @ApiProperty({
+    description: 'Location name',
+    example: 'Downtown Warehouse',
+    maxLength: 100,
+  })
+  @IsString({ message: 'Location name must be a string' })
+  @IsNotEmpty({ message: 'Location name is required' })
+  @MaxLength(100, { message: 'Location name cannot exceed 100 characters' })
+  @Transform(({ value }) => value?.trim())
+  name: string;
+
+  @ApiProperty({
+    description: 'Short unique location code',
+    example: 'WH-01',
+    maxLength: 20,
+  })
+  @IsString({ message: 'Location code must be a string' })
+  @IsNotEmpty({ message: 'Location code is required' })
+  @MaxLength(20, { message: 'Location code cannot exceed 20 characters' })
+  @Matches(/^[A-Z0-9_-]+$/, { message: 'Location code may only contain letters, numbers, dashes and underscores' })
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  code: string;
+
+  @ApiPropertyOptional({
+    description: 'Location address',
+    example: '45 Industrial Rd, City, State 12345',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString({ message: 'Address must be a string' })
+  @MaxLength(500, { message: 'Address cannot exceed 500 characters' })
+  @Transform(({ value }) => value?.trim())
+  address?: string;
+
+  @ApiPropertyOptional({
+    description: 'Whether this is the default location for invoices, receipts and returns',
+    example: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'is_default must be a boolean value' })
+  is_default?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Whether the location is active',
+    example: true,
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'is_active must be a boolean value' })
+  is_active?: boolean;
+}
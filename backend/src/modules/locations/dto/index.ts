@@ -0,0 +1,5 @@
+export * from './create-location.dto';
+export * from './update-location.dto';
+export * from './location-response.dto';
+export * from './location-list-response.dto';
+export * from './location-filters.dto';
@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { LocationResponseDto } from './location-response.dto';
+
+export class LocationListResponseDto {
+  @ApiProperty({
+    description: 'Array of locations',
+    type: [LocationResponseDto],
+  })
+  @Expose()
+  data: LocationResponseDto[];
+
+  @ApiProperty({
+    description: 'Total number of locations',
+    example: 4,
+  })
+  @Expose()
+  total: number;
+
+  @ApiProperty({
+    description: 'Current page number',
+    example: 1,
+  })
+  @Expose()
+  page: number;
+
+  @ApiProperty({
+    description: 'Total number of pages',
+    example: 1,
+  })
+  @Expose()
+  totalPages: number;
+
+  @ApiProperty({
+    description: 'Number of locations per page',
+    example: 10,
+  })
+  @Expose()
+  limit: number;
+}
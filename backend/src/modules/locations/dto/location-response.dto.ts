@@ -0,0 +1,76 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Transform } from 'class-transformer';
+
+export class LocationResponseDto {
+  @ApiProperty({
+    description: 'Location unique identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  id: string;
+
+  @ApiProperty({
+    description: 'Location name',
+    example: 'Downtown Warehouse',
+  })
+  @Expose()
+  name: string;
+
+  @ApiProperty({
+    description: 'Short unique location code',
+    example: 'WH-01',
+  })
+  @Expose()
+  code: string;
+
+  @ApiPropertyOptional({
+    description: 'Location address',
+    example: '45 Industrial Rd, City, State 12345',
+  })
+  @Expose()
+  address?: string | null;
+
+  @ApiProperty({
+    description: 'Whether this is the default location',
+    example: false,
+  })
+  @Expose()
+  is_default: boolean;
+
+  @ApiProperty({
+    description: 'Whether the location is active',
+    example: true,
+  })
+  @Expose()
+  is_active: boolean;
+
+  @ApiProperty({
+    description: 'User who created the location',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  created_by: string;
+
+  @ApiProperty({
+    description: 'Location creation timestamp',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  @Expose()
+  @Transform(({ value }) => value instanceof Date ? value.toISOString() : value)
+  created_at: Date;
+
+  @ApiPropertyOptional({
+    description: 'User who last updated the location',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  updated_by?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Last update timestamp',
+    example: '2024-01-16T14:20:00.000Z',
+  })
+  @Expose()
+  @Transform(({ value }) => value instanceof Date ? value.toISOString() : value)
+  updated_at?: Date | null;
+}
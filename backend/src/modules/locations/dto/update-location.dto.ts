@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateLocationDto } from './create-location.dto';
+
+export class UpdateLocationDto extends PartialType(CreateLocationDto) {
+  // All fields from CreateLocationDto become optional
+}
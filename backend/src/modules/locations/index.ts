@@ -0,0 +1,4 @@
+export * from './locations.controller';
+export * from './locations.service';
+export * from './locations.module';
+export * from './dto';
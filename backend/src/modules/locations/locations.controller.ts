@@ -0,0 +1,258 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Logger,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  DefaultValuePipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiConflictResponse,
+} from '@nestjs/swagger';
+import { LocationsService } from './locations.service';
+import {
+  CreateLocationDto,
+  UpdateLocationDto,
+  LocationResponseDto,
+  LocationListResponseDto,
+  LocationFiltersDto,
+} from './dto';
+import { AuthGuard } from '../../common/guards/auth.guard';
+import { ManagerGuard } from '../../common/guards/manager.guard';
+import { StaffGuard } from '../../common/guards/staff.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { successResponse, createdResponse } from '../../common/helpers/api-response.helper';
+import { API_MESSAGES } from '../../common/constants/string-const';
+
+@ApiTags('Locations')
+@Controller('locations')
+@UseGuards(AuthGuard) // All endpoints require authentication
+@ApiBearerAuth()
+export class LocationsController {
+  private readonly logger = new Logger(LocationsController.name);
+
+  constructor(private readonly locationsService: LocationsService) {}
+
+  //#region ==================== CREATE OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Create a new location',
+    description: 'Create a store or warehouse that can hold stock. Requires MANAGER or ADMIN role.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Location created successfully',
+    type: LocationResponseDto,
+  })
+  @ApiConflictResponse({ description: 'Location code already exists' })
+  @ApiBadRequestResponse({ description: 'Invalid input data' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async createLocation(
+    @Body() createLocationDto: CreateLocationDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Creating location: ${createLocationDto.code} by user: ${userId}`);
+
+    const location = await this.locationsService.createLocation(createLocationDto, userId);
+
+    this.logger.log(`Location created successfully: ${location.id}`);
+    return createdResponse(location, API_MESSAGES.LOCATION_CREATED);
+  }
+
+  //#region ==================== READ OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Get all locations',
+    description: 'Retrieve a paginated list of locations with optional filtering. Requires STAFF role or above.',
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (starting from 1)',
+    example: 1,
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Number of items per page (1-100)',
+    example: 10,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Locations retrieved successfully',
+    type: LocationListResponseDto,
+  })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get()
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  async findAllLocations(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(10), ParseIntPipe) limit: number,
+    @Query() filters: LocationFiltersDto,
+    @CurrentUser() user: any,
+  ) {
+    this.logger.log(`Finding locations - page: ${page}, limit: ${limit}`);
+
+    // Validate pagination
+    if (page < 1) page = 1;
+    if (limit < 1) limit = 1;
+    if (limit > 100) limit = 100;
+
+    // Only admins can see deleted locations
+    if (filters.withDeleted && user.role !== 'ADMIN') {
+      filters.withDeleted = false;
+    }
+
+    const result = await this.locationsService.findAllLocations(filters, page, limit);
+
+    this.logger.log(`Found ${result.data.length} locations`);
+    return successResponse({
+      ...result,
+      limit,
+    }, API_MESSAGES.LOCATIONS_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Get active locations',
+    description: 'Retrieve all active locations, default location first. Requires STAFF role or above.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Active locations retrieved successfully',
+    type: [LocationResponseDto],
+  })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get('active/list')
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  async findActiveLocations() {
+    this.logger.log('Finding all active locations');
+
+    const locations = await this.locationsService.findActiveLocations();
+
+    this.logger.log(`Found ${locations.length} active locations`);
+    return successResponse(locations, API_MESSAGES.LOCATIONS_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Get location by ID',
+    description: 'Retrieve a specific location by its ID. Requires STAFF role or above.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Location UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Location retrieved successfully',
+    type: LocationResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Location not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get(':id')
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  async findLocationById(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`Finding location by ID: ${id}`);
+
+    const location = await this.locationsService.findLocationById(id);
+
+    return successResponse(location, API_MESSAGES.LOCATION_FETCHED);
+  }
+
+  //#region ==================== UPDATE OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Update a location',
+    description: 'Update location details or make it the default location. Requires MANAGER or ADMIN role.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Location UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Location updated successfully',
+    type: LocationResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Location not found' })
+  @ApiConflictResponse({ description: 'Location code already exists' })
+  @ApiBadRequestResponse({ description: 'Invalid input data or default location cannot be deactivated' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Patch(':id')
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async updateLocation(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateLocationDto: UpdateLocationDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Updating location: ${id} by user: ${userId}`);
+
+    const location = await this.locationsService.updateLocation(id, updateLocationDto, userId);
+
+    this.logger.log(`Location updated successfully: ${location.id}`);
+    return successResponse(location, API_MESSAGES.LOCATION_UPDATED);
+  }
+
+  //#region ==================== DELETE OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Delete a location',
+    description: 'Soft delete an empty, non-default location. Requires MANAGER or ADMIN role.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Location UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Location deleted successfully',
+  })
+  @ApiNotFoundResponse({ description: 'Location not found' })
+  @ApiBadRequestResponse({ description: 'Location is the default or still holds stock' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Delete(':id')
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async deleteLocation(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Deleting location: ${id} by user: ${userId}`);
+
+    const result = await this.locationsService.deleteLocation(id, userId);
+
+    this.logger.log(`Location deleted successfully: ${id}`);
+    return successResponse(result, result.message);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { LocationsController } from './locations.controller';
+import { LocationsService } from './locations.service';
+import { DatabaseModule } from '../../core/database/database.module';
+import { SupabaseModule } from '../../core/supabase/supabase.module';
+
+@Module({
+  imports: [DatabaseModule, SupabaseModule],
+  controllers: [LocationsController],
+  providers: [LocationsService],
+  exports: [LocationsService],
+})
+export class LocationsModule {}
@@ -0,0 +1,161 @@
+import { Injectable, Logger, ConflictException, NotFoundException, BadRequestException } from '@nestjs/common';
+import { LocationsRepository, LocationEntity } from '../../core/database/repositories/locations.repository';
+import { CreateLocationDto, UpdateLocationDto, LocationFiltersDto } from './dto';
+import { MESSAGES, API_MESSAGES } from '../../common/constants/string-const';
+
+@Injectable()
+export class LocationsService {
+  private readonly logger = new Logger(LocationsService.name);
+
+  constructor(
+    private readonly locationsRepository: LocationsRepository,
+  ) {}
+
+  //#region ==================== CRUD OPERATIONS ====================
+
+  async createLocation(createLocationDto: CreateLocationDto, userId: string): Promise<LocationEntity> {
+    this.logger.log(`Creating location: ${createLocationDto.code} by user: ${userId}`);
+
+    // Codes stay unique across deleted locations as well
+    const existingLocation = await this.locationsRepository.findByCode(createLocationDto.code, true);
+    if (existingLocation) {
+      this.logger.warn(`Location code already exists: ${createLocationDto.code}`);
+      throw new ConflictException(MESSAGES.LOCATION_CODE_EXISTS);
+    }
+
+    if (createLocationDto.is_default && createLocationDto.is_active === false) {
+      throw new BadRequestException(MESSAGES.LOCATION_INACTIVE);
+    }
+
+    try {
+      const location = await this.locationsRepository.create({
+        ...createLocationDto,
+        created_by: userId,
+      });
+
+      this.logger.log(`Location created successfully: ${location.code} (ID: ${location.id})`);
+      return location;
+    } catch (error) {
+      this.logger.error(`Failed to create location: ${createLocationDto.code}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findAllLocations(
+    filters: LocationFiltersDto = {},
+    page = 1,
+    limit = 10,
+  ): Promise<{
+    data: LocationEntity[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    this.logger.log(`Finding locations with filters:`, filters);
+
+    try {
+      const result = await this.locationsRepository.findAll(filters, page, limit);
+
+      this.logger.log(`Found ${result.data.length} locations out of ${result.total} total`);
+      return result;
+    } catch (error) {
+      this.logger.error('Failed to find locations', error.stack);
+      throw error;
+    }
+  }
+
+  async findLocationById(id: string): Promise<LocationEntity> {
+    this.logger.log(`Finding location by ID: ${id}`);
+
+    const location = await this.locationsRepository.findById(id);
+    if (!location) {
+      this.logger.warn(`Location not found with ID: ${id}`);
+      throw new NotFoundException(MESSAGES.LOCATION_NOT_FOUND);
+    }
+
+    return location;
+  }
+
+  async updateLocation(id: string, updateLocationDto: UpdateLocationDto, userId: string): Promise<LocationEntity> {
+    this.logger.log(`Updating location: ${id} by user: ${userId}`);
+
+    // First verify the location exists
+    const existingLocation = await this.findLocationById(id);
+
+    // Check if new code conflicts with another location
+    if (updateLocationDto.code && updateLocationDto.code !== existingLocation.code) {
+      const codeConflict = await this.locationsRepository.findByCode(updateLocationDto.code, true);
+      if (codeConflict && codeConflict.id !== id) {
+        this.logger.warn(`Location code already exists: ${updateLocationDto.code}`);
+        throw new ConflictException(MESSAGES.LOCATION_CODE_EXISTS);
+      }
+    }
+
+    // The default location can only be replaced by promoting another one
+    if (existingLocation.is_default && (updateLocationDto.is_active === false || updateLocationDto.is_default === false)) {
+      throw new BadRequestException(MESSAGES.LOCATION_IS_DEFAULT);
+    }
+
+    const willBeActive = updateLocationDto.is_active ?? existingLocation.is_active;
+    if (updateLocationDto.is_default && !willBeActive) {
+      throw new BadRequestException(MESSAGES.LOCATION_INACTIVE);
+    }
+
+    try {
+      const updatedLocation = await this.locationsRepository.update(id, {
+        ...updateLocationDto,
+        updated_by: userId,
+      });
+
+      this.logger.log(`Location updated successfully: ${updatedLocation.code} (ID: ${id})`);
+      return updatedLocation;
+    } catch (error) {
+      this.logger.error(`Failed to update location: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  async deleteLocation(id: string, userId: string): Promise<{ message: string }> {
+    this.logger.log(`Soft deleting location: ${id} by user: ${userId}`);
+
+    const location = await this.findLocationById(id);
+
+    if (location.is_default) {
+      throw new BadRequestException(MESSAGES.LOCATION_IS_DEFAULT);
+    }
+
+    // Stock has to be transferred out before a location can be removed
+    if (await this.locationsRepository.hasStock(id)) {
+      throw new BadRequestException(MESSAGES.LOCATION_HAS_STOCK);
+    }
+
+    try {
+      const success = await this.locationsRepository.delete(id, userId);
+      if (!success) {
+        this.logger.error(`Failed to delete location: ${id}`);
+        throw new Error('Failed to delete location');
+      }
+
+      this.logger.log(`Location soft deleted successfully: ${id}`);
+      return { message: API_MESSAGES.LOCATION_DELETED };
+    } catch (error) {
+      this.logger.error(`Failed to delete location: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== UTILITY OPERATIONS ====================
+
+  async findActiveLocations(): Promise<LocationEntity[]> {
+    this.logger.log('Finding all active locations');
+
+    try {
+      const locations = await this.locationsRepository.findActiveLocations();
+      this.logger.log(`Found ${locations.length} active locations`);
+      return locations;
+    } catch (error) {
+      this.logger.error('Failed to find active locations', error.stack);
+      throw error;
+    }
+  }
+}
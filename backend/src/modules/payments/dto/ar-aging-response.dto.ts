@@ -0,0 +1,89 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+
+export class ArAgingBucketsDto {
+  @ApiProperty({ description: 'Owed on invoices 0-30 days old', example: 120 })
+  @Expose()
+  current: number;
+
+  @ApiProperty({ description: 'Owed on invoices 31-60 days old', example: 80.5 })
+  @Expose()
+  days_31_60: number;
+
+  @ApiProperty({ description: 'Owed on invoices 61-90 days old', example: 0 })
+  @Expose()
+  days_61_90: number;
+
+  @ApiProperty({ description: 'Owed on invoices more than 90 days old', example: 45 })
+  @Expose()
+  days_over_90: number;
+
+  @ApiProperty({ description: 'Total owed', example: 245.5 })
+  @Expose()
+  total: number;
+}
+
+export class ArAgingInvoiceDto {
+  @ApiProperty({ description: 'Sales invoice ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Invoice number', example: 'INV-20240115-0001' })
+  @Expose()
+  invoice_number: string;
+
+  @ApiProperty({ description: 'Invoice date', example: '2024-01-15T10:30:00.000Z' })
+  @Expose()
+  created_at: Date;
+
+  @ApiProperty({ description: 'Days since the invoice date', example: 45 })
+  @Expose()
+  days_outstanding: number;
+
+  @ApiProperty({ description: 'Invoice total', example: 103.98 })
+  @Expose()
+  total_amount: number;
+
+  @ApiProperty({ description: 'Paid so far, net of refunds', example: 50 })
+  @Expose()
+  amount_paid: number;
+
+  @ApiProperty({ description: 'Still owed', example: 53.98 })
+  @Expose()
+  balance_due: number;
+}
+
+export class ArAgingCustomerDto {
+  @ApiPropertyOptional({
+    description: 'Customer account, null for invoices not linked to one',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  customer_id: string | null;
+
+  @ApiPropertyOptional({ description: 'Customer name', example: 'Jane Smith' })
+  @Expose()
+  customer_name: string | null;
+
+  @ApiProperty({ description: 'Balances by age', type: ArAgingBucketsDto })
+  @Expose()
+  buckets: ArAgingBucketsDto;
+
+  @ApiProperty({ description: 'Invoices with a balance due, oldest first', type: [ArAgingInvoiceDto] })
+  @Expose()
+  invoices: ArAgingInvoiceDto[];
+}
+
+export class ArAgingResponseDto {
+  @ApiProperty({ description: 'Date the balances are aged to', example: '2024-03-31' })
+  @Expose()
+  as_of: string;
+
+  @ApiProperty({ description: 'Balances by customer, largest first', type: [ArAgingCustomerDto] })
+  @Expose()
+  customers: ArAgingCustomerDto[];
+
+  @ApiProperty({ description: 'Balances by age across all customers', type: ArAgingBucketsDto })
+  @Expose()
+  totals: ArAgingBucketsDto;
+}
@@ -0,0 +1,7 @@
+export * from './record-payment.dto';
+export * from './invoice-payment.dto';
+export * from './payment-filters.dto';
+export * from './payment-response.dto';
+export * from './payment-list-response.dto';
+export * from './ar-aging-query.dto';
+export * from './ar-aging-response.dto';
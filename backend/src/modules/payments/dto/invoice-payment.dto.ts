@@ -0,0 +1,7 @@
+import { PickType } from '@nestjs/swagger';
+import { RecordPaymentDto } from './record-payment.dto';
+
+/**
+ * A payment taken at checkout, recorded with the invoice it pays for
+ */
+export class InvoicePaymentDto extends PickType(RecordPaymentDto, ['payment_method', 'amount', 'reference'] as const) {}
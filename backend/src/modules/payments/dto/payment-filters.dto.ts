@@ -0,0 +1,55 @@
+import { IsOptional, IsEnum, IsUUID, IsDateString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PaymentMethod, PaymentType } from './record-payment.dto';
+
+export class PaymentFiltersDto {
+  @ApiPropertyOptional({
+    description: 'Filter by sales invoice',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsUUID(4, { message: 'Sales invoice ID must be a valid UUID' })
+  sales_invoice_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by customer account',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsUUID(4, { message: 'Customer ID must be a valid UUID' })
+  customer_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by payments or refunds',
+    enum: PaymentType,
+    example: PaymentType.PAYMENT,
+  })
+  @IsOptional()
+  @IsEnum(PaymentType, { message: 'Payment type must be PAYMENT or REFUND' })
+  payment_type?: PaymentType;
+
+  @ApiPropertyOptional({
+    description: 'Filter by payment method',
+    enum: PaymentMethod,
+    example: PaymentMethod.CASH,
+  })
+  @IsOptional()
+  @IsEnum(PaymentMethod, { message: 'Payment method must be a valid payment method' })
+  payment_method?: PaymentMethod;
+
+  @ApiPropertyOptional({
+    description: 'Filter by received date from (YYYY-MM-DD)',
+    example: '2024-01-01',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'Date from must be a valid date string (YYYY-MM-DD)' })
+  date_from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by received date to (YYYY-MM-DD)',
+    example: '2024-01-31',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'Date to must be a valid date string (YYYY-MM-DD)' })
+  date_to?: string;
+}
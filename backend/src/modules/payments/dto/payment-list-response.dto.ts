@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { PaymentResponseDto } from './payment-response.dto';
+
+export class PaymentListResponseDto {
+  @ApiProperty({
+    description: 'Array of payments and refunds',
+    type: [PaymentResponseDto],
+  })
+  @Expose()
+  data: PaymentResponseDto[];
+
+  @ApiProperty({
+    description: 'Total number of payments',
+    example: 40,
+  })
+  @Expose()
+  total: number;
+
+  @ApiProperty({
+    description: 'Current page number',
+    example: 1,
+  })
+  @Expose()
+  page: number;
+
+  @ApiProperty({
+    description: 'Total number of pages',
+    example: 4,
+  })
+  @Expose()
+  totalPages: number;
+
+  @ApiProperty({
+    description: 'Number of payments per page',
+    example: 10,
+  })
+  @Expose()
+  limit: number;
+}
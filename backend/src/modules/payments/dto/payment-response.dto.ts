@@ -0,0 +1,128 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { PaymentMethod, PaymentType } from './record-payment.dto';
+
+export class PaymentResponseDto {
+  @ApiProperty({
+    description: 'Payment ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  id: string;
+
+  @ApiProperty({
+    description: 'Sales invoice ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  sales_invoice_id: string;
+
+  @ApiPropertyOptional({
+    description: 'Invoice number (in payment lists)',
+    example: 'INV-20240115-0001',
+  })
+  @Expose()
+  invoice_number?: string;
+
+  @ApiPropertyOptional({
+    description: 'Customer name on the invoice (in payment lists)',
+    example: 'Jane Smith',
+  })
+  @Expose()
+  customer_name?: string | null;
+
+  @ApiProperty({
+    description: 'Money in (PAYMENT) or out (REFUND)',
+    enum: PaymentType,
+    example: PaymentType.PAYMENT,
+  })
+  @Expose()
+  payment_type: PaymentType;
+
+  @ApiProperty({
+    description: 'Payment method',
+    enum: PaymentMethod,
+    example: PaymentMethod.CARD,
+  })
+  @Expose()
+  payment_method: PaymentMethod;
+
+  @ApiProperty({
+    description: 'Amount',
+    example: '50.00',
+  })
+  @Expose()
+  amount: string;
+
+  @ApiPropertyOptional({
+    description: 'Card slip, bank transfer or cheque number',
+    example: 'TXN-884213',
+  })
+  @Expose()
+  reference: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Notes',
+    example: 'Second instalment',
+  })
+  @Expose()
+  notes: string | null;
+
+  @ApiProperty({
+    description: 'User who took or paid out the money',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  received_by: string;
+
+  @ApiProperty({
+    description: 'When the money changed hands',
+    example: '2024-01-20T14:00:00.000Z',
+  })
+  @Expose()
+  received_at: Date;
+
+  @ApiProperty({
+    description: 'Creator user ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  created_by: string;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2024-01-20T14:00:00.000Z',
+  })
+  @Expose()
+  created_at: Date;
+}
+
+export class InvoicePaymentSummaryDto {
+  @ApiProperty({
+    description: 'The payment or refund just recorded',
+    type: PaymentResponseDto,
+  })
+  @Expose()
+  payment: PaymentResponseDto;
+
+  @ApiProperty({
+    description: 'Invoice payment status after the payment',
+    example: 'PARTIAL',
+  })
+  @Expose()
+  payment_status: string;
+
+  @ApiProperty({
+    description: 'Paid on the invoice so far, net of refunds',
+    example: 50,
+  })
+  @Expose()
+  amount_paid: number;
+
+  @ApiProperty({
+    description: 'Still owed on the invoice; negative when the customer is owed a refund',
+    example: 53.98,
+  })
+  @Expose()
+  balance_due: number;
+}
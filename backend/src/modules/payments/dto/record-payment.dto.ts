@@ -0,0 +1,76 @@
+import { IsString, IsNotEmpty, IsOptional, IsNumber, IsUUID, IsEnum, IsDateString, Min, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+
+export enum PaymentMethod {
+  CASH = 'CASH',
+  CARD = 'CARD',
+  BANK_TRANSFER = 'BANK_TRANSFER',
+  CHEQUE = 'CHEQUE',
+  OTHER = 'OTHER',
+}
+
+export enum PaymentType {
+  PAYMENT = 'PAYMENT',
+  REFUND = 'REFUND',
+}
+
+export class RecordPaymentDto {
+  @ApiProperty({
+    description: 'Sales invoice the money is for',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID(4, { message: 'Sales invoice ID must be a valid UUID' })
+  @IsNotEmpty({ message: 'Sales invoice ID is required' })
+  sales_invoice_id: string;
+
+  @ApiProperty({
+    description: 'How the money was paid',
+    enum: PaymentMethod,
+    example: PaymentMethod.CARD,
+  })
+  @IsEnum(PaymentMethod, { message: 'Payment method must be a valid payment method' })
+  payment_method: PaymentMethod;
+
+  @ApiProperty({
+    description: 'Amount of money',
+    example: 50,
+    minimum: 0.01,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Amount must be a number with max 2 decimal places' })
+  @Min(0.01, { message: 'Amount must be greater than zero' })
+  @Type(() => Number)
+  amount: number;
+
+  @ApiPropertyOptional({
+    description: 'Card slip, bank transfer or cheque number',
+    example: 'TXN-884213',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString({ message: 'Reference must be a string' })
+  @MaxLength(100, { message: 'Reference cannot exceed 100 characters' })
+  @Transform(({ value }) => value?.trim())
+  reference?: string;
+
+  @ApiPropertyOptional({
+    description: 'Notes',
+    example: 'Second instalment',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString({ message: 'Notes must be a string' })
+  @MaxLength(500, { message: 'Notes cannot exceed 500 characters' })
+  @Transform(({ value }) => value?.trim())
+  notes?: string;
+
+  @ApiPropertyOptional({
+    description: 'When the money changed hands (defaults to now)',
+    example: '2024-01-20T14:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'Received at must be a valid date string' })
+  received_at?: string;
+}
+
+export class RecordRefundDto extends RecordPaymentDto {}
@@ -0,0 +1,4 @@
+export * from './payments.controller';
+export * from './payments.service';
+export * from './payments.module';
+export * from './dto';
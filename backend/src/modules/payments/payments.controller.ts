@@ -0,0 +1,238 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Logger,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  DefaultValuePipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+import { PaymentsService } from './payments.service';
+import {
+  RecordPaymentDto,
+  RecordRefundDto,
+  PaymentFiltersDto,
+  PaymentResponseDto,
+  PaymentListResponseDto,
+  InvoicePaymentSummaryDto,
+  ArAgingQueryDto,
+  ArAgingResponseDto,
+} from './dto';
+import { AuthGuard } from '../../common/guards/auth.guard';
+import { ManagerGuard } from '../../common/guards/manager.guard';
+import { StaffGuard } from '../../common/guards/staff.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { successResponse, createdResponse } from '../../common/helpers/api-response.helper';
+import { API_MESSAGES } from '../../common/constants/string-const';
+
+@ApiTags('Payments')
+@Controller('payments')
+@UseGuards(AuthGuard) // All endpoints require authentication
+@ApiBearerAuth()
+export class PaymentsController {
+  private readonly logger = new Logger(PaymentsController.name);
+
+  constructor(private readonly paymentsService: PaymentsService) {}
+
+  //#region ==================== CREATE OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Record a payment',
+    description: 'Record money received against a sales invoice. The invoice moves to PARTIAL, or to PAID once the balance is settled. Requires STAFF role or above.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Payment recorded successfully',
+    type: InvoicePaymentSummaryDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invoice is cancelled, already settled, or the payment exceeds the balance due' })
+  @ApiNotFoundResponse({ description: 'Sales invoice not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  async recordPayment(
+    @Body() recordPaymentDto: RecordPaymentDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Recording payment on sales invoice: ${recordPaymentDto.sales_invoice_id} by user: ${userId}`);
+
+    const result = await this.paymentsService.recordPayment(recordPaymentDto, userId);
+
+    this.logger.log(`Payment recorded successfully: ${result.payment.id}`);
+    return createdResponse(result, API_MESSAGES.PAYMENT_RECORDED);
+  }
+
+  @ApiOperation({
+    summary: 'Record a refund',
+    description: 'Pay money back against a sales invoice, up to the amount paid on it. Requires MANAGER or ADMIN role.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Refund recorded successfully',
+    type: InvoicePaymentSummaryDto,
+  })
+  @ApiBadRequestResponse({ description: 'Refund exceeds the amount paid' })
+  @ApiNotFoundResponse({ description: 'Sales invoice not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Post('refunds')
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async recordRefund(
+    @Body() recordRefundDto: RecordRefundDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Recording refund on sales invoice: ${recordRefundDto.sales_invoice_id} by user: ${userId}`);
+
+    const result = await this.paymentsService.recordRefund(recordRefundDto, userId);
+
+    this.logger.log(`Refund recorded successfully: ${result.payment.id}`);
+    return createdResponse(result, API_MESSAGES.REFUND_RECORDED);
+  }
+
+  //#region ==================== READ OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Get all payments',
+    description: 'Retrieve a paginated list of payments and refunds, most recent first. Requires STAFF role or above.',
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (starting from 1)',
+    example: 1,
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Number of items per page (1-100)',
+    example: 10,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Payments retrieved successfully',
+    type: PaymentListResponseDto,
+  })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get()
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  async findAllPayments(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(10), ParseIntPipe) limit: number,
+    @Query() filters: PaymentFiltersDto,
+  ) {
+    this.logger.log(`Finding payments - page: ${page}, limit: ${limit}`);
+
+    // Validate pagination
+    if (page < 1) page = 1;
+    if (limit < 1) limit = 1;
+    if (limit > 100) limit = 100;
+
+    const result = await this.paymentsService.findAllPayments(filters, page, limit);
+
+    this.logger.log(`Found ${result.data.length} payments`);
+    return successResponse({
+      ...result,
+      limit,
+    }, API_MESSAGES.PAYMENTS_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Get accounts receivable aging',
+    description: 'What is still owed on unpaid and part-paid invoices, per customer, in 0-30, 31-60, 61-90 and 90+ day buckets by invoice date. Requires MANAGER or ADMIN role.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Accounts receivable aging generated successfully',
+    type: ArAgingResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid as-of date' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Get('reports/ar-aging')
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async getArAging(@Query() query: ArAgingQueryDto) {
+    this.logger.log(`Generating accounts receivable aging as of ${query.as_of ?? 'today'}`);
+
+    const aging = await this.paymentsService.getArAging(query);
+
+    return successResponse(aging, API_MESSAGES.AR_AGING_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Get the payments on an invoice',
+    description: 'Every payment and refund recorded against a sales invoice, oldest first. Requires STAFF role or above.',
+  })
+  @ApiParam({
+    name: 'invoiceId',
+    description: 'Sales invoice UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Payments retrieved successfully',
+    type: [PaymentResponseDto],
+  })
+  @ApiNotFoundResponse({ description: 'Sales invoice not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get('invoice/:invoiceId')
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  async findInvoicePayments(@Param('invoiceId', ParseUUIDPipe) invoiceId: string) {
+    this.logger.log(`Finding payments for sales invoice: ${invoiceId}`);
+
+    const payments = await this.paymentsService.findInvoicePayments(invoiceId);
+
+    return successResponse(payments, API_MESSAGES.PAYMENTS_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Get payment by ID',
+    description: 'Retrieve a specific payment or refund by its ID. Requires STAFF role or above.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Payment UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Payment retrieved successfully',
+    type: PaymentResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Payment not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get(':id')
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  async findPaymentById(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`Finding payment by ID: ${id}`);
+
+    const payment = await this.paymentsService.findPaymentById(id);
+
+    return successResponse(payment, API_MESSAGES.PAYMENT_FETCHED);
+  }
+}
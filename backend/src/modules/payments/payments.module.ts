@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PaymentsController } from './payments.controller';
+import { PaymentsService } from './payments.service';
+import { DatabaseModule } from '../../core/database/database.module';
+import { SupabaseModule } from '../../core/supabase/supabase.module';
+
+@Module({
+  imports: [DatabaseModule, SupabaseModule],
+  controllers: [PaymentsController],
+  providers: [PaymentsService],
+  exports: [PaymentsService],
+})
+export class PaymentsModule {}
@@ -0,0 +1,194 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { PaymentsService } from './payments.service';
+import { PaymentMethod } from './dto';
+import { PaymentsRepository, OpenInvoiceBalanceRow } from '../../core/database/repositories/payments.repository';
+import { SalesInvoicesRepository, SalesInvoiceEntity } from '../../core/database/repositories/sales-invoices.repository';
+import { DbTransaction } from '../../core/database/repositories/base.repository';
+import { DrizzleService } from '../../core/database/drizzle.service';
+
+const tx = {} as DbTransaction;
+
+const invoice = (overrides: Partial<SalesInvoiceEntity> = {}): SalesInvoiceEntity => ({
+  id: 'invoice-1',
+  invoice_number: 'INV-0001',
+  total_amount: '100.00',
+  amount_paid: '40.00',
+  payment_status: 'PARTIAL',
+  ...overrides,
+}) as SalesInvoiceEntity;
+
+const openBalance = (createdAt: string, balanceDue: number, customerId = 'customer-1'): OpenInvoiceBalanceRow => ({
+  id: `invoice-${createdAt}`,
+  invoice_number: `INV-${createdAt}`,
+  customer_id: customerId,
+  customer_name: customerId,
+  created_at: new Date(`${createdAt}T15:00:00.000Z`),
+  total_amount: balanceDue.toFixed(2),
+  amount_paid: '0.00',
+  balance_due: balanceDue.toFixed(2),
+}) as OpenInvoiceBalanceRow;
+
+describe('PaymentsService', () => {
+  let service: PaymentsService;
+  let paymentsRepository: { create: jest.Mock; findByInvoice: jest.Mock; findOpenInvoiceBalances: jest.Mock };
+  let salesInvoicesRepository: { lockSalesInvoice: jest.Mock; updateSalesInvoice: jest.Mock };
+
+  beforeEach(async () => {
+    paymentsRepository = {
+      create: jest.fn().mockImplementation((data: Record<string, unknown>) => Promise.resolve({ id: 'payment-1', ...data })),
+      findByInvoice: jest.fn().mockResolvedValue([]),
+      findOpenInvoiceBalances: jest.fn().mockResolvedValue([]),
+    };
+    salesInvoicesRepository = {
+      lockSalesInvoice: jest.fn(),
+      updateSalesInvoice: jest.fn().mockImplementation((id: string, data: Partial<SalesInvoiceEntity>) => Promise.resolve({ ...invoice({ id }), ...data })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentsService,
+        { provide: PaymentsRepository, useValue: paymentsRepository },
+        { provide: SalesInvoicesRepository, useValue: salesInvoicesRepository },
+        {
+          provide: DrizzleService,
+          useValue: {
+            transaction: (work: (tx: DbTransaction) => Promise<unknown>) => work(tx),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PaymentsService>(PaymentsService);
+  });
+
+  describe('recordPayment', () => {
+    const payment = (amount: number) => ({
+      sales_invoice_id: 'invoice-1',
+      payment_method: PaymentMethod.CASH,
+      amount,
+    });
+
+    it('settles the invoice when the balance due is paid', async () => {
+      salesInvoicesRepository.lockSalesInvoice.mockResolvedValue(invoice());
+
+      const summary = await service.recordPayment(payment(60), 'user-1');
+
+      expect(summary).toMatchObject({ payment_status: 'PAID', amount_paid: 100, balance_due: 0 });
+      expect(salesInvoicesRepository.updateSalesInvoice)
+        .toHaveBeenCalledWith('invoice-1', expect.objectContaining({ amount_paid: 100, payment_status: 'PAID' }), tx);
+    });
+
+    it('leaves the invoice part paid when less than the balance is paid', async () => {
+      salesInvoicesRepository.lockSalesInvoice.mockResolvedValue(invoice());
+
+      await expect(service.recordPayment(payment(10.5), 'user-1'))
+        .resolves.toMatchObject({ payment_status: 'PARTIAL', amount_paid: 50.5, balance_due: 49.5 });
+    });
+
+    it('rejects a payment above the balance due', async () => {
+      salesInvoicesRepository.lockSalesInvoice.mockResolvedValue(invoice());
+
+      await expect(service.recordPayment(payment(60.01), 'user-1')).rejects.toThrow(BadRequestException);
+      expect(paymentsRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects payments on settled and cancelled invoices', async () => {
+      salesInvoicesRepository.lockSalesInvoice.mockResolvedValueOnce(invoice({ amount_paid: '100.00', payment_status: 'PAID' }));
+      await expect(service.recordPayment(payment(1), 'user-1')).rejects.toThrow(BadRequestException);
+
+      salesInvoicesRepository.lockSalesInvoice.mockResolvedValueOnce(invoice({ payment_status: 'CANCELLED' }));
+      await expect(service.recordPayment(payment(1), 'user-1')).rejects.toThrow(BadRequestException);
+
+      expect(paymentsRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordRefund', () => {
+    const refund = (amount: number) => ({
+      sales_invoice_id: 'invoice-1',
+      payment_method: PaymentMethod.CARD,
+      amount,
+    });
+
+    it('takes the refund off what has been paid', async () => {
+      salesInvoicesRepository.lockSalesInvoice.mockResolvedValue(invoice());
+
+      await expect(service.recordRefund(refund(40), 'user-1'))
+        .resolves.toMatchObject({ payment_status: 'PENDING', amount_paid: 0, balance_due: 100 });
+    });
+
+    it('rejects a refund above what has been paid', async () => {
+      salesInvoicesRepository.lockSalesInvoice.mockResolvedValue(invoice());
+
+      await expect(service.recordRefund(refund(40.01), 'user-1')).rejects.toThrow(BadRequestException);
+      expect(paymentsRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('keeps a cancelled invoice cancelled', async () => {
+      salesInvoicesRepository.lockSalesInvoice.mockResolvedValue(invoice({ payment_status: 'CANCELLED' }));
+
+      await expect(service.recordRefund(refund(40), 'user-1')).resolves.toMatchObject({ payment_status: 'CANCELLED' });
+    });
+  });
+
+  describe('assertCheckoutPayments', () => {
+    it('allows payments up to the total and rejects anything over it', () => {
+      const payments = [
+        { payment_method: PaymentMethod.CARD, amount: 60.1 },
+        { payment_method: PaymentMethod.CASH, amount: 39.9 },
+      ];
+
+      expect(() => service.assertCheckoutPayments(100, payments)).not.toThrow();
+      expect(() => service.assertCheckoutPayments(99.99, payments)).toThrow(BadRequestException);
+    });
+  });
+
+  describe('refreshPaymentStatus', () => {
+    it('refunds an overpayment the way the last payment was made', async () => {
+      salesInvoicesRepository.lockSalesInvoice.mockResolvedValue(invoice({ total_amount: '70.00', amount_paid: '100.00', payment_status: 'PAID' }));
+      paymentsRepository.findByInvoice.mockResolvedValue([
+        { payment_type: 'PAYMENT', payment_method: 'CASH' },
+        { payment_type: 'PAYMENT', payment_method: 'CARD' },
+      ]);
+
+      const updated = await service.refreshPaymentStatus('invoice-1', 'user-1', tx);
+
+      expect(paymentsRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ payment_type: 'REFUND', payment_method: 'CARD', amount: 30 }),
+        tx,
+      );
+      expect(updated).toMatchObject({ amount_paid: '70.00', payment_status: 'PAID' });
+    });
+
+    it('moves a paid invoice back to part paid when its total goes up', async () => {
+      salesInvoicesRepository.lockSalesInvoice.mockResolvedValue(invoice({ total_amount: '120.00', amount_paid: '100.00', payment_status: 'PAID' }));
+
+      await expect(service.refreshPaymentStatus('invoice-1', 'user-1', tx)).resolves.toMatchObject({ payment_status: 'PARTIAL' });
+      expect(paymentsRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getArAging', () => {
+    it('buckets open balances by days outstanding on the as-of date', async () => {
+      paymentsRepository.findOpenInvoiceBalances.mockResolvedValue([
+        openBalance('2026-03-31', 10),
+        openBalance('2026-03-01', 20),
+        openBalance('2026-02-28', 30),
+        openBalance('2026-01-30', 40),
+        openBalance('2026-01-29', 50, 'customer-2'),
+      ]);
+
+      const aging = await service.getArAging({ as_of: '2026-04-30' });
+
+      expect(aging.totals).toEqual({ current: 10, days_31_60: 20, days_61_90: 70, days_over_90: 50, total: 150 });
+      expect(aging.customers.map(customer => [customer.customer_id, customer.buckets.total]))
+        .toEqual([['customer-1', 100], ['customer-2', 50]]);
+      expect(aging.customers[0].invoices.map(row => row.days_outstanding)).toEqual([30, 60, 61, 90]);
+    });
+
+    it('rejects an as-of date that is not a calendar date', async () => {
+      await expect(service.getArAging({ as_of: '2026-13-01' })).rejects.toThrow(BadRequestException);
+    });
+  });
+});
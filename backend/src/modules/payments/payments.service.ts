@@ -0,0 +1,375 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import {
+  PaymentsRepository,
+  PaymentEntity,
+  PaymentWithInvoice,
+  PaymentType,
+  OpenInvoiceBalanceRow,
+} from '../../core/database/repositories/payments.repository';
+import {
+  SalesInvoicesRepository,
+  SalesInvoiceEntity,
+  PaymentStatus,
+} from '../../core/database/repositories/sales-invoices.repository';
+import { DbTransaction } from '../../core/database/repositories/base.repository';
+import { DrizzleService } from '../../core/database/drizzle.service';
+import {
+  RecordPaymentDto,
+  RecordRefundDto,
+  InvoicePaymentDto,
+  PaymentFiltersDto,
+  ArAgingQueryDto,
+  ArAgingResponseDto,
+  ArAgingBucketsDto,
+  ArAgingCustomerDto,
+  PaymentMethod,
+} from './dto';
+import { MESSAGES } from '../../common/constants/string-const';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface InvoicePaymentSummary {
+  payment: PaymentEntity;
+  payment_status: PaymentStatus;
+  amount_paid: number;
+  balance_due: number;
+}
+
+@Injectable()
+export class PaymentsService {
+  private readonly logger = new Logger(PaymentsService.name);
+
+  constructor(
+    private readonly paymentsRepository: PaymentsRepository,
+    private readonly salesInvoicesRepository: SalesInvoicesRepository,
+    private readonly drizzleService: DrizzleService,
+  ) {}
+
+  //#region ==================== PAYMENT OPERATIONS ====================
+
+  /**
+   * Records money received against an invoice. A payment can settle the balance due
+   * but not go past it.
+   */
+  async recordPayment(recordPaymentDto: RecordPaymentDto, userId: string): Promise<InvoicePaymentSummary> {
+    this.logger.log(`Recording payment of ${recordPaymentDto.amount} on sales invoice: ${recordPaymentDto.sales_invoice_id} by user: ${userId}`);
+
+    // The invoice stays locked from the balance check until the payment and new balance commit
+    return this.drizzleService.transaction(async (tx) => {
+      const invoice = await this.salesInvoicesRepository.lockSalesInvoice(recordPaymentDto.sales_invoice_id, tx);
+      if (invoice.payment_status === 'CANCELLED') {
+        throw new BadRequestException(MESSAGES.PAYMENT_INVOICE_CANCELLED);
+      }
+
+      const balanceDue = this.balanceDue(invoice);
+      if (balanceDue <= 0) {
+        throw new BadRequestException(MESSAGES.PAYMENT_INVOICE_SETTLED);
+      }
+      if (recordPaymentDto.amount > balanceDue) {
+        throw new BadRequestException(`${MESSAGES.PAYMENT_EXCEEDS_BALANCE}. Balance due: ${balanceDue.toFixed(2)}`);
+      }
+
+      return this.postToLedger(invoice, 'PAYMENT', recordPaymentDto, userId, tx);
+    });
+  }
+
+  /**
+   * Pays money back out of an invoice, up to what has been paid on it. Void invoices
+   * can still be refunded.
+   */
+  async recordRefund(recordRefundDto: RecordRefundDto, userId: string): Promise<InvoicePaymentSummary> {
+    this.logger.log(`Recording refund of ${recordRefundDto.amount} on sales invoice: ${recordRefundDto.sales_invoice_id} by user: ${userId}`);
+
+    return this.drizzleService.transaction(async (tx) => {
+      const invoice = await this.salesInvoicesRepository.lockSalesInvoice(recordRefundDto.sales_invoice_id, tx);
+
+      const amountPaid = parseFloat(invoice.amount_paid);
+      if (recordRefundDto.amount > amountPaid) {
+        throw new BadRequestException(`${MESSAGES.REFUND_EXCEEDS_PAID}. Paid: ${amountPaid.toFixed(2)}`);
+      }
+
+      return this.postToLedger(invoice, 'REFUND', recordRefundDto, userId, tx);
+    });
+  }
+
+  /**
+   * Records the payments taken at checkout on a newly created invoice, in the checkout's
+   * transaction
+   */
+  async recordCheckoutPayments(
+    invoice: SalesInvoiceEntity,
+    payments: InvoicePaymentDto[],
+    userId: string,
+    tx: DbTransaction,
+  ): Promise<SalesInvoiceEntity> {
+    this.assertCheckoutPayments(parseFloat(invoice.total_amount), payments);
+
+    let updatedInvoice = invoice;
+    for (const payment of payments.filter(payment => payment.amount > 0)) {
+      const summary = await this.postToLedger(updatedInvoice, 'PAYMENT', payment, userId, tx);
+      updatedInvoice = {
+        ...updatedInvoice,
+        amount_paid: summary.amount_paid.toFixed(2),
+        payment_status: summary.payment_status,
+      };
+    }
+
+    return updatedInvoice;
+  }
+
+  /**
+   * Rejects checkout payments that add up to more than the invoice total
+   */
+  assertCheckoutPayments(totalAmount: number, payments: InvoicePaymentDto[]): void {
+    const paid = this.roundCurrency(payments.reduce((sum, payment) => sum + payment.amount, 0));
+    if (paid > totalAmount) {
+      throw new BadRequestException(`${MESSAGES.PAYMENTS_EXCEED_TOTAL}. Total: ${totalAmount.toFixed(2)}, Paid: ${paid.toFixed(2)}`);
+    }
+  }
+
+  /**
+   * Brings the invoice's payment status back in line with what has been paid after its
+   * total has changed, e.g. after a return. Anything paid above the new total is refunded
+   * through the ledger, by default the way the last payment was made.
+   */
+  async refreshPaymentStatus(
+    invoiceId: string,
+    userId: string,
+    tx: DbTransaction,
+    refundMethod?: PaymentMethod,
+  ): Promise<SalesInvoiceEntity> {
+    const invoice = await this.salesInvoicesRepository.lockSalesInvoice(invoiceId, tx);
+    if (invoice.payment_status === 'CANCELLED') {
+      return invoice;
+    }
+
+    const overpaid = -this.balanceDue(invoice);
+    if (overpaid > 0) {
+      const payments = await this.paymentsRepository.findByInvoice(invoice.id, tx);
+      const lastPayment = payments.filter(payment => payment.payment_type === 'PAYMENT').at(-1);
+      const summary = await this.postToLedger(invoice, 'REFUND', {
+        payment_method: refundMethod ?? (lastPayment ? PaymentMethod[lastPayment.payment_method] : PaymentMethod.CASH),
+        amount: overpaid,
+        notes: 'Overpayment refunded after the invoice total came down',
+      }, userId, tx);
+      return {
+        ...invoice,
+        amount_paid: summary.amount_paid.toFixed(2),
+        payment_status: summary.payment_status,
+      };
+    }
+
+    const paymentStatus = this.resolvePaymentStatus(parseFloat(invoice.total_amount), parseFloat(invoice.amount_paid));
+    if (paymentStatus === invoice.payment_status) {
+      return invoice;
+    }
+
+    this.logger.log(`Sales invoice ${invoice.invoice_number} moves from ${invoice.payment_status} to ${paymentStatus}`);
+    return this.salesInvoicesRepository.updateSalesInvoice(invoice.id, {
+      payment_status: paymentStatus,
+      updated_by: userId,
+    }, tx);
+  }
+
+  async findAllPayments(
+    filters: PaymentFiltersDto = {},
+    page = 1,
+    limit = 10,
+  ): Promise<{
+    data: PaymentWithInvoice[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    this.logger.log(`Finding payments with filters:`, filters);
+
+    try {
+      const result = await this.paymentsRepository.findAll({
+        ...filters,
+        date_from: filters.date_from ? new Date(filters.date_from) : undefined,
+        date_to: filters.date_to ? new Date(filters.date_to) : undefined,
+      }, page, limit);
+
+      this.logger.log(`Found ${result.data.length} payments out of ${result.total} total`);
+      return result;
+    } catch (error) {
+      this.logger.error('Failed to find payments', error.stack);
+      throw error;
+    }
+  }
+
+  async findPaymentById(id: string): Promise<PaymentEntity> {
+    this.logger.log(`Finding payment by ID: ${id}`);
+
+    return this.paymentsRepository.findPaymentByIdOrThrow(id);
+  }
+
+  async findInvoicePayments(invoiceId: string): Promise<PaymentEntity[]> {
+    await this.salesInvoicesRepository.findSalesInvoiceByIdOrThrow(invoiceId);
+
+    return this.paymentsRepository.findByInvoice(invoiceId);
+  }
+
+  //#region ==================== REPORT OPERATIONS ====================
+
+  /**
+   * Accounts receivable aging: what is still owed on each customer's invoices, bucketed
+   * by how many days old the invoice is on the as-of date
+   */
+  async getArAging(query: ArAgingQueryDto = {}): Promise<ArAgingResponseDto> {
+    const asOf = query.as_of || new Date().toISOString().slice(0, 10);
+    if (!ISO_DATE_PATTERN.test(asOf) || isNaN(Date.parse(asOf))) {
+      throw new BadRequestException(MESSAGES.REPORT_DATE_INVALID);
+    }
+
+    this.logger.log(`Generating accounts receivable aging as of ${asOf}`);
+
+    // Invoices raised at any time on the as-of date are included
+    const asOfStart = new Date(`${asOf}T00:00:00.000Z`);
+    const asOfEnd = new Date(asOfStart.getTime() + DAY_MS - 1);
+
+    try {
+      const rows = await this.paymentsRepository.findOpenInvoiceBalances(asOfEnd, query.customer_id);
+
+      const byCustomer = new Map<string, ArAgingCustomerDto>();
+      const totals = this.emptyBuckets();
+      for (const row of rows) {
+        const key = row.customer_id ?? `name:${row.customer_name ?? ''}`;
+        let customer = byCustomer.get(key);
+        if (!customer) {
+          customer = {
+            customer_id: row.customer_id,
+            customer_name: row.customer_name,
+            buckets: this.emptyBuckets(),
+            invoices: [],
+          };
+          byCustomer.set(key, customer);
+        }
+
+        const daysOutstanding = this.daysBetween(row.created_at, asOfStart);
+        const balanceDue = parseFloat(row.balance_due);
+        this.addToBucket(customer.buckets, daysOutstanding, balanceDue);
+        this.addToBucket(totals, daysOutstanding, balanceDue);
+        customer.invoices.push(this.toAgingInvoice(row, daysOutstanding));
+      }
+
+      const customers = [...byCustomer.values()].sort((a, b) => b.buckets.total - a.buckets.total);
+
+      this.logger.log(`Aged ${rows.length} open invoices across ${customers.length} customers`);
+      return { as_of: asOf, customers, totals };
+    } catch (error) {
+      this.logger.error(`Failed to generate accounts receivable aging as of ${asOf}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== LEDGER HELPERS ====================
+
+  /**
+   * Writes the ledger entry, then moves the invoice's paid amount and status to match. The
+   * invoice must be locked in the transaction passed.
+   */
+  private async postToLedger(
+    invoice: SalesInvoiceEntity,
+    paymentType: PaymentType,
+    paymentDto: InvoicePaymentDto & { notes?: string; received_at?: string },
+    userId: string,
+    tx: DbTransaction,
+  ): Promise<InvoicePaymentSummary> {
+    try {
+      const payment = await this.paymentsRepository.create({
+        sales_invoice_id: invoice.id,
+        payment_type: paymentType,
+        payment_method: paymentDto.payment_method,
+        amount: paymentDto.amount,
+        reference: paymentDto.reference,
+        notes: paymentDto.notes,
+        received_by: userId,
+        received_at: paymentDto.received_at ? new Date(paymentDto.received_at) : undefined,
+        created_by: userId,
+      }, tx);
+
+      const change = paymentType === 'REFUND' ? -paymentDto.amount : paymentDto.amount;
+      const amountPaid = this.roundCurrency(parseFloat(invoice.amount_paid) + change);
+      const totalAmount = parseFloat(invoice.total_amount);
+      const paymentStatus = invoice.payment_status === 'CANCELLED'
+        ? invoice.payment_status
+        : this.resolvePaymentStatus(totalAmount, amountPaid);
+
+      await this.salesInvoicesRepository.updateSalesInvoice(invoice.id, {
+        amount_paid: amountPaid,
+        payment_status: paymentStatus,
+        updated_by: userId,
+      }, tx);
+
+      this.logger.log(`${paymentType} of ${paymentDto.amount} posted to ${invoice.invoice_number}; now ${paymentStatus}`);
+      return {
+        payment,
+        payment_status: paymentStatus,
+        amount_paid: amountPaid,
+        balance_due: this.roundCurrency(totalAmount - amountPaid),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to post ${paymentType} to sales invoice: ${invoice.id}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Nothing paid leaves the invoice PENDING, paying the total settles it
+   */
+  private resolvePaymentStatus(totalAmount: number, amountPaid: number): PaymentStatus {
+    if (amountPaid <= 0) {
+      return 'PENDING';
+    }
+    return amountPaid >= totalAmount ? 'PAID' : 'PARTIAL';
+  }
+
+  private balanceDue(invoice: SalesInvoiceEntity): number {
+    return this.roundCurrency(parseFloat(invoice.total_amount) - parseFloat(invoice.amount_paid));
+  }
+
+  //#region ==================== AGING HELPERS ====================
+
+  private emptyBuckets(): ArAgingBucketsDto {
+    return { current: 0, days_31_60: 0, days_61_90: 0, days_over_90: 0, total: 0 };
+  }
+
+  private addToBucket(buckets: ArAgingBucketsDto, daysOutstanding: number, amount: number): void {
+    if (daysOutstanding <= 30) {
+      buckets.current = this.roundCurrency(buckets.current + amount);
+    } else if (daysOutstanding <= 60) {
+      buckets.days_31_60 = this.roundCurrency(buckets.days_31_60 + amount);
+    } else if (daysOutstanding <= 90) {
+      buckets.days_61_90 = this.roundCurrency(buckets.days_61_90 + amount);
+    } else {
+      buckets.days_over_90 = this.roundCurrency(buckets.days_over_90 + amount);
+    }
+    buckets.total = this.roundCurrency(buckets.total + amount);
+  }
+
+  private toAgingInvoice(row: OpenInvoiceBalanceRow, daysOutstanding: number) {
+    return {
+      id: row.id,
+      invoice_number: row.invoice_number,
+      created_at: row.created_at,
+      days_outstanding: daysOutstanding,
+      total_amount: parseFloat(row.total_amount),
+      amount_paid: parseFloat(row.amount_paid),
+      balance_due: parseFloat(row.balance_due),
+    };
+  }
+
+  /**
+   * Whole days from the invoice date to the as-of date
+   */
+  private daysBetween(invoiceDate: Date, asOf: Date): number {
+    const invoiceDay = Date.UTC(invoiceDate.getUTCFullYear(), invoiceDate.getUTCMonth(), invoiceDate.getUTCDate());
+    return Math.max(Math.floor((asOf.getTime() - invoiceDay) / DAY_MS), 0);
+  }
+
+  private roundCurrency(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
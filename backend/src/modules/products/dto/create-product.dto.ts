@@ -8,11 +8,47 @@ import {
   MaxLength, 
   Min, 
   IsDecimal,
-  Matches
+  Matches,
+  IsArray,
+  ArrayMaxSize,
+  ValidateNested
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Transform, Type } from 'class-transformer';
 
+export class ProductUnitDto {
+  @ApiProperty({
+    description: 'Unit code, unique within the product',
+    example: 'CASE',
+    maxLength: 20,
+  })
+  @IsString({ message: 'Unit code must be a string' })
+  @Matches(/^[A-Z0-9_]{1,20}$/i, {
+    message: 'Unit code can only contain letters, numbers and underscores, up to 20 characters'
+  })
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  code: string;
+
+  @ApiProperty({
+    description: 'Display name of the unit',
+    example: 'Case of 24',
+    maxLength: 50,
+  })
+  @IsString({ message: 'Unit name must be a string' })
+  @MaxLength(50, { message: 'Unit name cannot exceed 50 characters' })
+  name: string;
+
+  @ApiProperty({
+    description: 'Base units in one of this unit',
+    example: 24,
+    minimum: 0.0001,
+  })
+  @IsNumber({ maxDecimalPlaces: 4 }, { message: 'Conversion factor must be a number with up to 4 decimal places' })
+  @Min(0.0001, { message: 'Conversion factor must be greater than 0' })
+  @Type(() => Number)
+  factor: number;
+}
+
 export class CreateProductDto {
   @ApiProperty({
     description: 'Product name',
@@ -106,6 +142,46 @@ export class CreateProductDto {
   @Type(() => Number)
   minimum_stock_level?: number;
 
+  @ApiPropertyOptional({
+    description: 'Stock level at which the product is suggested for reordering (defaults to minimum_stock_level)',
+    example: 15,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'Reorder point must be a number' })
+  @Min(0, { message: 'Reorder point must be greater than or equal to 0' })
+  @Type(() => Number)
+  reorder_point?: number;
+
+  @ApiPropertyOptional({
+    description: 'Stock level a reorder should bring the product back up to',
+    example: 50,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'Target stock level must be a number' })
+  @Min(0, { message: 'Target stock level must be greater than or equal to 0' })
+  @Type(() => Number)
+  target_stock_level?: number;
+
+  @ApiPropertyOptional({
+    description: 'Supplier that reorders for this product are placed with',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID(4, { message: 'Preferred supplier ID must be a valid UUID' })
+  preferred_supplier_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Tax class applied when the product is sold or purchased; defaults to the category tax class',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID(4, { message: 'Tax class ID must be a valid UUID' })
+  tax_class_id?: string;
+
   @ApiPropertyOptional({
     description: 'Whether the product is active',
     example: true,
@@ -114,4 +190,48 @@ export class CreateProductDto {
   @IsOptional()
   @IsBoolean({ message: 'is_active must be a boolean value' })
   is_active?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Unit stock is counted in; goods sold by weight use a small unit such as G',
+    example: 'EA',
+    default: 'EA',
+    maxLength: 20,
+  })
+  @IsOptional()
+  @IsString({ message: 'Base unit must be a string' })
+  @Matches(/^[A-Z0-9_]{1,20}$/i, {
+    message: 'Base unit can only contain letters, numbers and underscores, up to 20 characters'
+  })
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  base_unit?: string;
+
+  @ApiPropertyOptional({
+    description: 'Other units the product is bought or sold in, with their size in base units',
+    type: [ProductUnitDto],
+    example: [{ code: 'CASE', name: 'Case of 24', factor: 24 }],
+  })
+  @IsOptional()
+  @IsArray({ message: 'Units must be an array' })
+  @ArrayMaxSize(10, { message: 'A product can have at most 10 units besides its base unit' })
+  @ValidateNested({ each: true })
+  @Type(() => ProductUnitDto)
+  units?: ProductUnitDto[];
+
+  @ApiPropertyOptional({
+    description: 'Default unit on purchase order lines; the base unit when empty',
+    example: 'CASE',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString({ message: 'Purchase unit must be a string' })
+  purchase_unit?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Default unit on invoice lines, and the unit the unit price is quoted in; the base unit when empty',
+    example: 'EA',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString({ message: 'Sales unit must be a string' })
+  sales_unit?: string | null;
 }
\ No newline at end of file
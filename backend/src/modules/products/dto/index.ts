@@ -1,8 +1,19 @@
-export { CreateProductDto } from './create-product.dto';
+export { CreateProductDto, ProductUnitDto } from './create-product.dto';
 export { UpdateProductDto } from './update-product.dto';
 export { 
   ProductResponseDto, 
   ProductListResponseDto, 
   ProductFiltersDto, 
   ProductCategoryDto 
-} from './product-response.dto';
\ No newline at end of file
+} from './product-response.dto';
+export {
+  ProductImportFile,
+  ProductImportRequestDto,
+  ProductImportRowDto,
+  ProductImportResultDto
+} from './product-import.dto';
+export {
+  ProductVariantAttributeDto,
+  ProductVariantInputDto,
+  SaveProductVariantsDto
+} from './product-variants.dto';
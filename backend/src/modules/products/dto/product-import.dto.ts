@@ -0,0 +1,98 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+
+/**
+ * The uploaded spreadsheet as handed over by multer's memory storage
+ */
+export interface ProductImportFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export class ProductImportRequestDto {
+  @ApiProperty({
+    description: 'CSV or XLSX file with a header row; only the first sheet of a workbook is read',
+    type: 'string',
+    format: 'binary',
+  })
+  file: any;
+
+  @ApiPropertyOptional({
+    description: 'Validate the file and report row errors without creating any products (defaults to true)',
+    example: 'true',
+  })
+  dry_run?: string;
+}
+
+export class ProductImportRowDto {
+  @ApiProperty({ description: 'Row number in the file, counting the header as row 1', example: 2 })
+  @Expose()
+  row: number;
+
+  @ApiProperty({ description: 'SKU as it will be saved', example: 'WM-001', nullable: true })
+  @Expose()
+  sku: string | null;
+
+  @ApiProperty({ description: 'Product name', example: 'Wireless Mouse', nullable: true })
+  @Expose()
+  name: string | null;
+
+  @ApiProperty({ description: 'Category name or full path from the file', example: 'Electronics > Phones > Accessories', nullable: true })
+  @Expose()
+  category_name: string | null;
+
+  @ApiProperty({ description: 'Selling price', example: 24.99, nullable: true })
+  @Expose()
+  unit_price: number | null;
+
+  @ApiProperty({ description: 'Problems that keep the row from being imported; empty when the row is valid', type: [String] })
+  @Expose()
+  errors: string[];
+
+  @ApiPropertyOptional({ description: 'ID of the product created from the row, once imported' })
+  @Expose()
+  product_id?: string;
+}
+
+export class ProductImportResultDto {
+  @ApiProperty({ description: 'Whether this was a validation-only run', example: true })
+  @Expose()
+  dry_run: boolean;
+
+  @ApiProperty({ description: 'Detected file format', enum: ['csv', 'xlsx'], example: 'csv' })
+  @Expose()
+  format: string;
+
+  @ApiProperty({
+    description: 'Product field each recognised header was mapped to',
+    example: { 'Product Name': 'name', 'SKU': 'sku', 'Category': 'category_name', 'Price': 'unit_price' },
+  })
+  @Expose()
+  mapped_columns: Record<string, string>;
+
+  @ApiProperty({ description: 'Headers that did not match any product field and were ignored', type: [String] })
+  @Expose()
+  ignored_columns: string[];
+
+  @ApiProperty({ description: 'Non-empty data rows in the file', example: 120 })
+  @Expose()
+  total_rows: number;
+
+  @ApiProperty({ description: 'Rows that passed validation', example: 117 })
+  @Expose()
+  valid_rows: number;
+
+  @ApiProperty({ description: 'Rows with at least one error', example: 3 })
+  @Expose()
+  invalid_rows: number;
+
+  @ApiProperty({ description: 'Products created; always 0 on a dry run', example: 0 })
+  @Expose()
+  imported_rows: number;
+
+  @ApiProperty({ description: 'Every data row with its validation result', type: [ProductImportRowDto] })
+  @Expose()
+  rows: ProductImportRowDto[];
+}
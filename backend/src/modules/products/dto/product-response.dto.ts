@@ -1,6 +1,8 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Expose, Type } from 'class-transformer';
 import { CategoryResponseDto } from '../../categories/dto/category-response.dto';
+import { ProductVariantAttribute, ProductUnit } from '../../../core/database/schema/products';
+import { ProductVariantScope } from '../../../core/database/repositories/products.repository';
 
 export class ProductCategoryDto {
   @ApiProperty({
@@ -24,6 +26,14 @@ export class ProductCategoryDto {
   })
   @Expose()
   description: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Default tax class of the category',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    format: 'uuid',
+  })
+  @Expose()
+  tax_class_id: string | null;
 }
 
 export class ProductResponseDto {
@@ -100,6 +110,36 @@ export class ProductResponseDto {
   @Expose()
   minimum_stock_level: number;
 
+  @ApiPropertyOptional({
+    description: 'Stock level at which the product is suggested for reordering',
+    example: 15,
+  })
+  @Expose()
+  reorder_point: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Stock level a reorder should bring the product back up to',
+    example: 50,
+  })
+  @Expose()
+  target_stock_level: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Supplier that reorders for this product are placed with',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    format: 'uuid',
+  })
+  @Expose()
+  preferred_supplier_id: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Tax class assigned to the product (the category tax class applies when empty)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    format: 'uuid',
+  })
+  @Expose()
+  tax_class_id: string | null;
+
   @ApiProperty({
     description: 'Whether the product is active',
     example: true,
@@ -107,6 +147,70 @@ export class ProductResponseDto {
   @Expose()
   is_active: boolean;
 
+  @ApiProperty({
+    description: 'Unit stock is counted in',
+    example: 'EA',
+  })
+  @Expose()
+  base_unit: string;
+
+  @ApiPropertyOptional({
+    description: 'Other units the product is bought or sold in, with their size in base units',
+    example: [{ code: 'CASE', name: 'Case of 24', factor: 24 }],
+  })
+  @Expose()
+  units: ProductUnit[] | null;
+
+  @ApiPropertyOptional({
+    description: 'Default unit on purchase order lines; the base unit when empty',
+    example: 'CASE',
+  })
+  @Expose()
+  purchase_unit: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Default unit on invoice lines, and the unit the unit price is quoted in; the base unit when empty',
+    example: null,
+  })
+  @Expose()
+  sales_unit: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Parent product when this product is a variant',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    format: 'uuid',
+  })
+  @Expose()
+  parent_product_id: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Variant attributes when this product is a parent; such products are stocked and sold through their variants',
+    example: [{ name: 'Size', values: ['S', 'M', 'L'] }, { name: 'Color', values: ['Red', 'Blue'] }],
+  })
+  @Expose()
+  variant_attributes: ProductVariantAttribute[] | null;
+
+  @ApiPropertyOptional({
+    description: 'Attribute values of this variant, keyed by attribute name',
+    example: { Size: 'M', Color: 'Red' },
+  })
+  @Expose()
+  variant_options: Record<string, string> | null;
+
+  @ApiProperty({
+    description: 'Whether a variant has its own price instead of following the parent price',
+    example: false,
+  })
+  @Expose()
+  has_price_override: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Number of variants of a parent product (list endpoints only)',
+    example: 6,
+  })
+  @Expose()
+  variant_count?: number;
+
   @ApiProperty({
     description: 'User ID who created this product',
     example: '123e4567-e89b-12d3-a456-426614174000',
@@ -244,6 +348,22 @@ export class ProductFiltersDto {
   @Expose()
   withCategory?: boolean;
 
+  @ApiPropertyOptional({
+    description: 'Only the variants of this parent product',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    format: 'uuid',
+  })
+  @Expose()
+  parent_product_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'catalog lists parents and standalone products, matching parents on their variants when searching; sellable lists variants and standalone products',
+    enum: ['all', 'catalog', 'sellable'],
+    default: 'all',
+  })
+  @Expose()
+  variant_scope?: ProductVariantScope;
+
   @ApiPropertyOptional({
     description: 'Page number for pagination',
     example: 1,
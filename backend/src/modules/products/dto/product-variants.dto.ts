@@ -0,0 +1,129 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsBoolean,
+  IsNumber,
+  IsUUID,
+  IsArray,
+  IsObject,
+  ArrayNotEmpty,
+  ArrayMaxSize,
+  ValidateNested,
+  MaxLength,
+  Min,
+  Matches,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+
+export class ProductVariantAttributeDto {
+  @ApiProperty({
+    description: 'Attribute name, unique within the product',
+    example: 'Size',
+    maxLength: 50,
+  })
+  @IsString({ message: 'Attribute name must be a string' })
+  @IsNotEmpty({ message: 'Attribute name is required' })
+  @MaxLength(50, { message: 'Attribute name cannot exceed 50 characters' })
+  @Transform(({ value }) => value?.trim())
+  name: string;
+
+  @ApiProperty({
+    description: 'Values the attribute can take, in display order',
+    example: ['S', 'M', 'L'],
+    type: [String],
+  })
+  @IsArray({ message: 'Attribute values must be an array' })
+  @ArrayNotEmpty({ message: 'Each attribute needs at least one value' })
+  @ArrayMaxSize(50, { message: 'An attribute can have at most 50 values' })
+  @IsString({ each: true, message: 'Attribute values must be strings' })
+  @MaxLength(50, { each: true, message: 'Attribute values cannot exceed 50 characters' })
+  values: string[];
+}
+
+export class ProductVariantInputDto {
+  @ApiPropertyOptional({
+    description: 'Existing variant to update; omit to create a new variant',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID(4, { message: 'Variant ID must be a valid UUID' })
+  id?: string;
+
+  @ApiProperty({
+    description: 'Value picked for every attribute of the parent, keyed by attribute name',
+    example: { Size: 'M', Color: 'Red' },
+  })
+  @IsObject({ message: 'Variant options must be an object' })
+  options: Record<string, string>;
+
+  @ApiProperty({
+    description: 'Variant SKU - must be unique across all products',
+    example: 'TSHIRT-M-RED',
+    maxLength: 50,
+  })
+  @IsString({ message: 'SKU must be a string' })
+  @IsNotEmpty({ message: 'SKU is required' })
+  @MaxLength(50, { message: 'SKU cannot exceed 50 characters' })
+  @Matches(/^[A-Z0-9-_]+$/i, {
+    message: 'SKU can only contain letters, numbers, hyphens, and underscores'
+  })
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  sku: string;
+
+  @ApiPropertyOptional({
+    description: 'Variant barcode - must be unique across all products',
+    example: '1234567890123',
+    maxLength: 50,
+  })
+  @IsOptional()
+  @IsString({ message: 'Barcode must be a string' })
+  @MaxLength(50, { message: 'Barcode cannot exceed 50 characters' })
+  @Transform(({ value }) => value?.trim())
+  barcode?: string;
+
+  @ApiPropertyOptional({
+    description: 'Price for this variant only; omit or send null to follow the parent price',
+    example: 29.99,
+    minimum: 0,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Unit price must be a number with up to 2 decimal places' })
+  @Min(0, { message: 'Unit price must be greater than or equal to 0' })
+  @Type(() => Number)
+  unit_price?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Whether the variant can be stocked and sold',
+    example: true,
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'is_active must be a boolean value' })
+  is_active?: boolean;
+}
+
+export class SaveProductVariantsDto {
+  @ApiProperty({
+    description: 'Variant attributes of the product; send an empty list together with no variants to stop using variants',
+    type: [ProductVariantAttributeDto],
+  })
+  @IsArray({ message: 'Attributes must be an array' })
+  @ArrayMaxSize(3, { message: 'A product can have at most 3 variant attributes' })
+  @ValidateNested({ each: true })
+  @Type(() => ProductVariantAttributeDto)
+  attributes: ProductVariantAttributeDto[];
+
+  @ApiProperty({
+    description: 'The complete variant set; existing variants left out are removed',
+    type: [ProductVariantInputDto],
+  })
+  @IsArray({ message: 'Variants must be an array' })
+  @ArrayMaxSize(200, { message: 'A product can have at most 200 variants' })
+  @ValidateNested({ each: true })
+  @Type(() => ProductVariantInputDto)
+  variants: ProductVariantInputDto[];
+}
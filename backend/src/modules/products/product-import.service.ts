@@ -0,0 +1,376 @@
+import { Injectable, Logger, BadRequestException, ConflictException } from '@nestjs/common';
+import { plainToClass } from 'class-transformer';
+import { validate, isUUID, ValidationError } from 'class-validator';
+import { ProductsRepository } from '../../core/database/repositories/products.repository';
+import { CategoriesRepository, CategoryEntity } from '../../core/database/repositories/categories.repository';
+import { SuppliersRepository } from '../../core/database/repositories/suppliers.repository';
+import { TaxClassesRepository } from '../../core/database/repositories/tax-classes.repository';
+import { MESSAGES } from '../../common/constants/string-const';
+import { CreateProductDto, ProductImportFile, ProductImportResultDto, ProductImportRowDto } from './dto';
+import { detectSpreadsheetFormat, readSpreadsheet } from './spreadsheet-reader';
+import { buildCategoryPaths, formatCategoryPath, CATEGORY_PATH_SEPARATOR } from '../categories/category-paths';
+
+const MAX_IMPORT_ROWS = 5000;
+
+// Alternative units are a list per product, which a flat file has no column for
+type ImportField = Exclude<keyof CreateProductDto, 'units' | 'purchase_unit' | 'sales_unit'> | 'category_name';
+
+// Headers are matched after lower-casing and collapsing anything but letters and digits to "_"
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'product_name', 'product', 'title'],
+  sku: ['sku', 'product_sku', 'item_code'],
+  barcode: ['barcode', 'upc', 'ean', 'gtin'],
+  category_name: ['category', 'category_name'],
+  category_id: ['category_id'],
+  description: ['description', 'product_description'],
+  unit_price: ['unit_price', 'price', 'selling_price', 'sale_price'],
+  cost_price: ['cost_price', 'cost', 'purchase_price'],
+  minimum_stock_level: ['minimum_stock_level', 'minimum_stock', 'min_stock', 'min_stock_level'],
+  reorder_point: ['reorder_point', 'reorder_level'],
+  target_stock_level: ['target_stock_level', 'target_stock'],
+  preferred_supplier_id: ['preferred_supplier_id', 'supplier_id'],
+  tax_class_id: ['tax_class_id'],
+  is_active: ['is_active', 'active'],
+  base_unit: ['base_unit', 'unit', 'uom', 'unit_of_measure'],
+};
+
+const REQUIRED_FIELDS: ImportField[] = ['name', 'sku', 'unit_price'];
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'active'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', 'inactive'];
+
+interface ParsedRow {
+  result: ProductImportRowDto;
+  product: CreateProductDto;
+}
+
+/**
+ * Bulk product import from CSV or XLSX. Every row is checked the way ProductsService.create
+ * checks a single product; a dry run stops at the report, otherwise the valid rows are
+ * created together in one transaction.
+ */
+@Injectable()
+export class ProductImportService {
+  private readonly logger = new Logger(ProductImportService.name);
+
+  constructor(
+    private readonly productsRepository: ProductsRepository,
+    private readonly categoriesRepository: CategoriesRepository,
+    private readonly suppliersRepository: SuppliersRepository,
+    private readonly taxClassesRepository: TaxClassesRepository,
+  ) {}
+
+  async importProducts(file: ProductImportFile | undefined, dryRun: boolean, createdBy: string): Promise<ProductImportResultDto> {
+    if (!file?.buffer?.length) {
+      throw new BadRequestException(MESSAGES.PRODUCT_IMPORT_FILE_REQUIRED);
+    }
+
+    const format = detectSpreadsheetFormat(file.buffer, file.originalname);
+    if (!format) {
+      throw new BadRequestException(MESSAGES.PRODUCT_IMPORT_FORMAT_UNSUPPORTED);
+    }
+
+    this.logger.log(`Importing products from ${format} file: ${file.originalname} (dry run: ${dryRun})`);
+
+    let sheet: string[][];
+    try {
+      sheet = readSpreadsheet(file.buffer, format);
+    } catch (error) {
+      this.logger.warn(`Failed to read import file ${file.originalname}: ${error.message}`);
+      throw new BadRequestException(MESSAGES.PRODUCT_IMPORT_FILE_INVALID);
+    }
+
+    const headerIndex = sheet.findIndex(row => !this.isBlank(row));
+    if (headerIndex < 0) {
+      throw new BadRequestException(MESSAGES.PRODUCT_IMPORT_EMPTY);
+    }
+
+    const { columns, mapped, ignored } = this.mapColumns(sheet[headerIndex]);
+    const missing = REQUIRED_FIELDS.filter(field => !columns.has(field));
+    if (missing.length > 0) {
+      throw new BadRequestException(`${MESSAGES.PRODUCT_IMPORT_COLUMNS_MISSING}: ${missing.join(', ')}`);
+    }
+
+    const dataRows = sheet
+      .map((cells, index) => ({ cells, rowNumber: index + 1 }))
+      .slice(headerIndex + 1)
+      .filter(({ cells }) => !this.isBlank(cells));
+
+    if (dataRows.length === 0) {
+      throw new BadRequestException(MESSAGES.PRODUCT_IMPORT_EMPTY);
+    }
+    if (dataRows.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(`${MESSAGES.PRODUCT_IMPORT_TOO_MANY_ROWS} (${MAX_IMPORT_ROWS})`);
+    }
+
+    const parsed = await Promise.all(
+      dataRows.map(({ cells, rowNumber }) => this.parseRow(cells, rowNumber, columns)),
+    );
+    await this.checkReferences(parsed);
+
+    const valid = parsed.filter(row => row.result.errors.length === 0);
+    let importedRows = 0;
+
+    if (!dryRun && valid.length > 0) {
+      try {
+        const created = await this.productsRepository.createMany(valid.map(row => ({ ...row.product, created_by: createdBy })));
+        created.forEach((product, index) => {
+          valid[index].result.product_id = product.id;
+        });
+        importedRows = created.length;
+      } catch (error) {
+        this.logger.error(`Failed to import products from ${file.originalname}`, error.stack);
+
+        // Another request took a SKU or barcode between validation and insert
+        if (error.message?.includes('unique constraint')) {
+          throw new ConflictException(error.message.includes('barcode')
+            ? MESSAGES.PRODUCT_BARCODE_EXISTS
+            : MESSAGES.PRODUCT_SKU_EXISTS);
+        }
+        throw new BadRequestException('Failed to import products');
+      }
+    }
+
+    this.logger.log(`Product import from ${file.originalname}: ${valid.length} of ${parsed.length} rows valid, ${importedRows} imported`);
+
+    return {
+      dry_run: dryRun,
+      format,
+      mapped_columns: mapped,
+      ignored_columns: ignored,
+      total_rows: parsed.length,
+      valid_rows: valid.length,
+      invalid_rows: parsed.length - valid.length,
+      imported_rows: importedRows,
+      rows: parsed.map(row => row.result),
+    };
+  }
+
+  //#region ==================== ROW PARSING ====================
+
+  private mapColumns(header: string[]): {
+    columns: Map<ImportField, number>;
+    mapped: Record<string, string>;
+    ignored: string[];
+  } {
+    const columns = new Map<ImportField, number>();
+    const mapped: Record<string, string> = {};
+    const ignored: string[] = [];
+
+    header.forEach((title, index) => {
+      const key = title.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+      const field = (Object.keys(COLUMN_ALIASES) as ImportField[])
+        .find(candidate => COLUMN_ALIASES[candidate].includes(key));
+
+      // The first column for a field wins; repeats are reported as ignored
+      if (field && !columns.has(field)) {
+        columns.set(field, index);
+        mapped[title.trim()] = field;
+      } else if (title.trim()) {
+        ignored.push(title.trim());
+      }
+    });
+
+    return { columns, mapped, ignored };
+  }
+
+  /**
+   * Builds the CreateProductDto for a row and runs its validation rules. Checks that need the
+   * database or the other rows are done afterwards in checkReferences.
+   */
+  private async parseRow(
+    cells: string[],
+    rowNumber: number,
+    columns: Map<ImportField, number>,
+  ): Promise<ParsedRow> {
+    const errors: string[] = [];
+    const plain: Record<string, unknown> = {};
+
+    columns.forEach((index, field) => {
+      const value = (cells[index] ?? '').trim();
+      if (value !== '') {
+        plain[field] = value;
+      }
+    });
+
+    if (typeof plain.is_active === 'string') {
+      const flag = plain.is_active.toLowerCase();
+      if (TRUE_VALUES.includes(flag)) {
+        plain.is_active = true;
+      } else if (FALSE_VALUES.includes(flag)) {
+        plain.is_active = false;
+      } else {
+        errors.push('is_active must be a boolean value');
+        delete plain.is_active;
+      }
+    }
+
+    const categoryName = typeof plain.category_name === 'string' ? plain.category_name : null;
+    delete plain.category_name;
+
+    const product = plainToClass(CreateProductDto, plain);
+    const validationErrors = await validate(product);
+    errors.push(...this.flattenErrors(validationErrors));
+
+    if (product.reorder_point !== undefined && product.target_stock_level !== undefined
+      && product.target_stock_level < product.reorder_point) {
+      errors.push(MESSAGES.PRODUCT_TARGET_BELOW_REORDER_POINT);
+    }
+
+    return {
+      result: {
+        row: rowNumber,
+        sku: typeof product.sku === 'string' && product.sku ? product.sku : null,
+        name: typeof product.name === 'string' && product.name ? product.name : null,
+        category_name: categoryName,
+        unit_price: typeof product.unit_price === 'number' && !isNaN(product.unit_price) ? product.unit_price : null,
+        errors,
+      },
+      product,
+    };
+  }
+
+  /**
+   * Resolves category names (or full paths such as "Electronics > Phones") and checks SKU/barcode uniqueness (against the catalogue and within
+   * the file), categories, preferred suppliers and tax classes, adding any problems to the rows
+   */
+  private async checkReferences(rows: ParsedRow[]): Promise<void> {
+    const categories = await this.categoriesRepository.findAll({});
+    const categoryPaths = buildCategoryPaths(categories);
+    const categoriesByPath = new Map(categories.map(category => [
+      this.normaliseCategoryPath(formatCategoryPath(categoryPaths.get(category.id)!)),
+      category,
+    ]));
+    // Names repeat across branches, so a bare name only resolves when it is unique
+    const categoriesByName = new Map<string, CategoryEntity[]>();
+    for (const category of categories) {
+      const key = category.name.trim().toLowerCase();
+      categoriesByName.set(key, [...(categoriesByName.get(key) ?? []), category]);
+    }
+    const categoriesById = new Map(categories.map(category => [category.id, category]));
+
+    const skus = new Set(rows.map(row => row.product.sku).filter((sku): sku is string => typeof sku === 'string' && !!sku));
+    const barcodes = new Set(rows.map(row => row.product.barcode).filter((barcode): barcode is string => typeof barcode === 'string' && !!barcode));
+    const existingSkus = new Set(await this.productsRepository.findExistingSkus([...skus]));
+    const existingBarcodes = new Set(await this.productsRepository.findExistingBarcodes([...barcodes]));
+
+    const supplierErrors = await this.findReferenceErrors(
+      rows.map(row => row.product.preferred_supplier_id),
+      async (id) => {
+        const supplier = await this.suppliersRepository.findById(id);
+        if (!supplier) return MESSAGES.SUPPLIER_NOT_FOUND;
+        return supplier.is_active ? null : MESSAGES.SUPPLIER_INACTIVE;
+      },
+    );
+    const taxClassErrors = await this.findReferenceErrors(
+      rows.map(row => row.product.tax_class_id),
+      async (id) => {
+        const taxClass = await this.taxClassesRepository.findById(id);
+        if (!taxClass) return MESSAGES.TAX_CLASS_NOT_FOUND;
+        return taxClass.is_active ? null : MESSAGES.TAX_CLASS_INACTIVE;
+      },
+    );
+
+    const firstRowBySku = new Map<string, number>();
+    const firstRowByBarcode = new Map<string, number>();
+
+    for (const { result, product } of rows) {
+      if (product.sku) {
+        if (existingSkus.has(product.sku)) {
+          result.errors.push(MESSAGES.PRODUCT_SKU_EXISTS);
+        } else if (firstRowBySku.has(product.sku)) {
+          result.errors.push(`SKU is repeated in the file (first on row ${firstRowBySku.get(product.sku)})`);
+        } else {
+          firstRowBySku.set(product.sku, result.row);
+        }
+      }
+
+      if (product.barcode) {
+        if (existingBarcodes.has(product.barcode)) {
+          result.errors.push(MESSAGES.PRODUCT_BARCODE_EXISTS);
+        } else if (firstRowByBarcode.has(product.barcode)) {
+          result.errors.push(`Barcode is repeated in the file (first on row ${firstRowByBarcode.get(product.barcode)})`);
+        } else {
+          firstRowByBarcode.set(product.barcode, result.row);
+        }
+      }
+
+      // A category name takes precedence over a category_id column
+      let category: CategoryEntity | undefined;
+      if (result.category_name) {
+        const key = this.normaliseCategoryPath(result.category_name);
+        const named = categoriesByName.get(key) ?? [];
+        category = categoriesByPath.get(key) ?? (named.length === 1 ? named[0] : undefined);
+        if (!category) {
+          result.errors.push(named.length > 1
+            ? `${MESSAGES.CATEGORY_NAME_AMBIGUOUS}: ${result.category_name}`
+            : `${MESSAGES.CATEGORY_NOT_FOUND}: ${result.category_name}`);
+        }
+      } else if (product.category_id) {
+        category = categoriesById.get(product.category_id);
+        if (!category) {
+          result.errors.push(MESSAGES.CATEGORY_NOT_FOUND);
+        }
+      }
+      if (category && !category.is_active) {
+        result.errors.push('Cannot assign product to inactive category');
+      }
+      product.category_id = category?.id;
+
+      const supplierError = product.preferred_supplier_id && supplierErrors.get(product.preferred_supplier_id);
+      if (supplierError) {
+        result.errors.push(supplierError);
+      }
+
+      const taxClassError = product.tax_class_id && taxClassErrors.get(product.tax_class_id);
+      if (taxClassError) {
+        result.errors.push(taxClassError);
+      }
+    }
+  }
+
+  /**
+   * Looks each distinct ID up once, returning the error for those that fail the check. Malformed
+   * IDs are skipped, as validation has already flagged them.
+   */
+  private async findReferenceErrors(
+    ids: (string | undefined)[],
+    check: (id: string) => Promise<string | null>,
+  ): Promise<Map<string, string>> {
+    const errors = new Map<string, string>();
+    const distinct = new Set(ids.filter((id): id is string => typeof id === 'string' && isUUID(id, 4)));
+
+    for (const id of distinct) {
+      const error = await check(id);
+      if (error) {
+        errors.set(id, error);
+      }
+    }
+
+    return errors;
+  }
+
+  //#endregion
+
+  //#region ==================== HELPERS ====================
+
+  private flattenErrors(errors: ValidationError[]): string[] {
+    return errors.flatMap(error => [
+      ...Object.values(error.constraints ?? {}),
+      ...this.flattenErrors(error.children ?? []),
+    ]);
+  }
+
+  private isBlank(cells: string[]): boolean {
+    return cells.every(cell => (cell ?? '').trim() === '');
+  }
+
+  /**
+   * Lower-cased path with consistent spacing, so "electronics>phones" matches "Electronics > Phones"
+   */
+  private normaliseCategoryPath(value: string): string {
+    return value.split('>').map(part => part.trim().toLowerCase()).join(CATEGORY_PATH_SEPARATOR);
+  }
+
+  //#endregion
+}
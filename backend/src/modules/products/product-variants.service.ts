@@ -0,0 +1,391 @@
+import { Injectable, Logger, BadRequestException, ConflictException } from '@nestjs/common';
+import { plainToClass } from 'class-transformer';
+import {
+  ProductsRepository,
+  ProductEntity,
+  CreateProductDto,
+  UpdateProductDto,
+} from '../../core/database/repositories/products.repository';
+import { ProductVariantAttribute } from '../../core/database/schema/products';
+import { StockService } from '../stock/stock.service';
+import { MESSAGES } from '../../common/constants/string-const';
+import { ProductResponseDto, SaveProductVariantsDto, ProductVariantInputDto } from './dto';
+
+const MAX_VARIANT_ATTRIBUTES = 3;
+const MAX_ATTRIBUTE_VALUES = 50;
+const MAX_OPTION_LENGTH = 50;
+const SKU_PATTERN = /^[A-Z0-9-_]{1,50}$/;
+
+interface ResolvedVariant {
+  existing: ProductEntity | null;
+  options: Record<string, string>;
+  sku: string;
+  barcode: string | null;
+  price_override: number | null;
+  is_active: boolean;
+}
+
+/**
+ * Variants are ordinary product rows with their own SKU, barcode, price and stock that point
+ * at a parent. The parent holds the attributes (Size, Color, ...) and is never stocked, ordered
+ * or sold itself. Name, category, tax class and preferred supplier always follow the parent;
+ * the price does too unless the variant overrides it.
+ */
+@Injectable()
+export class ProductVariantsService {
+  private readonly logger = new Logger(ProductVariantsService.name);
+
+  constructor(
+    private readonly productsRepository: ProductsRepository,
+    private readonly stockService: StockService,
+  ) {}
+
+  async findVariants(parentId: string): Promise<ProductResponseDto[]> {
+    await this.productsRepository.findProductByIdOrThrow(parentId);
+
+    const variants = await this.productsRepository.findVariants(parentId);
+    return variants.map(variant =>
+      plainToClass(ProductResponseDto, variant, {
+        excludeExtraneousValues: true,
+      })
+    );
+  }
+
+  /**
+   * Replaces the product's attributes and variant set. Variants are matched to existing ones by
+   * ID, or else by option values, so regenerating the matrix keeps SKUs and stock history;
+   * existing variants left out are removed.
+   */
+  async saveVariants(parentId: string, dto: SaveProductVariantsDto, userId: string): Promise<ProductResponseDto[]> {
+    const parent = await this.productsRepository.findProductByIdOrThrow(parentId);
+    if (parent.parent_product_id) {
+      throw new BadRequestException(MESSAGES.PRODUCT_VARIANT_NESTED);
+    }
+
+    const attributes = this.normaliseAttributes(dto.attributes);
+    const inputs = Array.isArray(dto.variants) ? dto.variants : [];
+    if ((attributes.length === 0) !== (inputs.length === 0)) {
+      throw new BadRequestException(MESSAGES.PRODUCT_VARIANTS_EMPTY);
+    }
+
+    this.logger.log(`Saving ${inputs.length} variants of product ${parentId} over ${attributes.length} attributes`);
+
+    // Stock held by the parent itself could never be sold once it has variants
+    if (!parent.variant_attributes?.length && attributes.length > 0
+      && await this.stockService.hasStockOnHand(parentId)) {
+      throw new BadRequestException(MESSAGES.PRODUCT_VARIANTS_STOCK_EXISTS);
+    }
+
+    const existing = await this.productsRepository.findVariants(parentId);
+    const resolved = this.resolveVariants(inputs, attributes, existing);
+
+    const keptIds = new Set(resolved.map(variant => variant.existing?.id).filter(Boolean));
+    const removed = existing.filter(variant => !keptIds.has(variant.id));
+    for (const variant of removed) {
+      if (await this.stockService.hasStockOnHand(variant.id)) {
+        this.logger.warn(`Variant ${variant.sku} still has stock and cannot be removed`);
+        throw new BadRequestException(MESSAGES.PRODUCT_VARIANT_HAS_STOCK);
+      }
+    }
+
+    await this.checkIdentifiersAvailable(resolved);
+
+    const parentPrice = parseFloat(parent.unit_price);
+    const create: CreateProductDto[] = [];
+    const update: { id: string; data: UpdateProductDto }[] = [];
+
+    for (const variant of resolved) {
+      const fields = {
+        name: this.variantName(parent.name, attributes, variant.options),
+        sku: variant.sku,
+        unit_price: variant.price_override ?? parentPrice,
+        has_price_override: variant.price_override !== null,
+        variant_options: variant.options,
+        is_active: variant.is_active,
+      };
+
+      if (variant.existing) {
+        update.push({
+          id: variant.existing.id,
+          data: { ...fields, barcode: variant.barcode, updated_by: userId },
+        });
+      } else {
+        create.push({
+          ...fields,
+          barcode: variant.barcode ?? undefined,
+          parent_product_id: parent.id,
+          category_id: parent.category_id ?? undefined,
+          description: parent.description ?? undefined,
+          cost_price: parent.cost_price === null ? undefined : parseFloat(parent.cost_price),
+          minimum_stock_level: parent.minimum_stock_level,
+          reorder_point: parent.reorder_point,
+          target_stock_level: parent.target_stock_level,
+          preferred_supplier_id: parent.preferred_supplier_id,
+          tax_class_id: parent.tax_class_id,
+          base_unit: parent.base_unit,
+          units: parent.units,
+          purchase_unit: parent.purchase_unit,
+          sales_unit: parent.sales_unit,
+          created_by: userId,
+        });
+      }
+    }
+
+    let created: ProductEntity[];
+    try {
+      created = await this.productsRepository.applyVariantChanges(parentId, {
+        parent: {
+          variant_attributes: attributes.length > 0 ? attributes : null,
+          updated_by: userId,
+        },
+        create,
+        update,
+        remove: removed.map(variant => variant.id),
+      }, userId);
+    } catch (error) {
+      // Another product can take a SKU or barcode between the check above and the write
+      if (error.message?.includes('unique constraint')) {
+        throw new ConflictException(error.message.includes('barcode')
+          ? MESSAGES.PRODUCT_BARCODE_EXISTS
+          : MESSAGES.PRODUCT_SKU_EXISTS);
+      }
+      throw error;
+    }
+
+    // Every new variant gets its own (empty) stock row at the default location
+    for (const variant of created) {
+      await this.stockService.createStock({
+        product_id: variant.id,
+        quantity_available: 0,
+        quantity_reserved: 0,
+        created_by: userId,
+      });
+    }
+
+    this.logger.log(`Variants of product ${parentId} saved: ${created.length} created, ${update.length} updated, ${removed.length} removed`);
+    return this.findVariants(parentId);
+  }
+
+  /**
+   * Carries the parent's name, category, tax class, supplier and (where not overridden) price
+   * over to its variants after the parent has been edited
+   */
+  async syncWithParent(parent: ProductEntity, userId: string): Promise<void> {
+    if (!parent.variant_attributes?.length) {
+      return;
+    }
+
+    const variants = await this.productsRepository.findVariants(parent.id);
+    if (variants.length === 0) {
+      return;
+    }
+
+    this.logger.log(`Syncing ${variants.length} variants with product ${parent.id}`);
+    await this.productsRepository.applyVariantChanges(parent.id, {
+      create: [],
+      update: variants.map(variant => ({
+        id: variant.id,
+        data: {
+          name: this.variantName(parent.name, parent.variant_attributes!, variant.variant_options ?? {}),
+          category_id: parent.category_id,
+          tax_class_id: parent.tax_class_id,
+          preferred_supplier_id: parent.preferred_supplier_id,
+          ...(!variant.has_price_override && { unit_price: parseFloat(parent.unit_price) }),
+          updated_by: userId,
+        },
+      })),
+      remove: [],
+    }, userId);
+  }
+
+  /**
+   * Removes all variants along with their parent
+   */
+  async removeVariants(parent: ProductEntity, userId: string): Promise<void> {
+    const variants = await this.productsRepository.findVariants(parent.id);
+    if (variants.length === 0) {
+      return;
+    }
+
+    this.logger.log(`Removing ${variants.length} variants of product ${parent.id}`);
+    await this.productsRepository.applyVariantChanges(parent.id, {
+      create: [],
+      update: [],
+      remove: variants.map(variant => variant.id),
+    }, userId);
+  }
+
+  //#region ==================== VALIDATION HELPERS ====================
+
+  private normaliseAttributes(raw: unknown): ProductVariantAttribute[] {
+    if (!Array.isArray(raw)) {
+      throw new BadRequestException(MESSAGES.PRODUCT_VARIANT_ATTRIBUTES_INVALID);
+    }
+    if (raw.length > MAX_VARIANT_ATTRIBUTES) {
+      throw new BadRequestException(MESSAGES.PRODUCT_VARIANT_TOO_MANY_ATTRIBUTES);
+    }
+
+    const names = new Set<string>();
+    return raw.map(attribute => {
+      const name = typeof attribute?.name === 'string' ? attribute.name.trim() : '';
+      const values: unknown[] = Array.isArray(attribute?.values) ? attribute.values : [];
+
+      const cleaned = values.map(value => typeof value === 'string' ? value.trim() : '');
+      const distinct = new Set(cleaned.map(value => value.toLowerCase()));
+
+      if (!name || name.length > MAX_OPTION_LENGTH || names.has(name.toLowerCase())
+        || cleaned.length === 0 || cleaned.length > MAX_ATTRIBUTE_VALUES
+        || cleaned.some(value => !value || value.length > MAX_OPTION_LENGTH)
+        || distinct.size !== cleaned.length) {
+        throw new BadRequestException(MESSAGES.PRODUCT_VARIANT_ATTRIBUTES_INVALID);
+      }
+
+      names.add(name.toLowerCase());
+      return { name, values: cleaned };
+    });
+  }
+
+  /**
+   * Validates each submitted variant and pairs it with the existing variant it updates
+   */
+  private resolveVariants(
+    inputs: ProductVariantInputDto[],
+    attributes: ProductVariantAttribute[],
+    existing: ProductEntity[],
+  ): ResolvedVariant[] {
+    const existingById = new Map(existing.map(variant => [variant.id, variant]));
+    const existingByKey = new Map(
+      existing.map(variant => [this.optionsKey(attributes, variant.variant_options ?? {}), variant])
+    );
+    const claimedIds = new Set(inputs.map(input => input.id).filter(Boolean));
+
+    const keys = new Set<string>();
+    const skus = new Set<string>();
+    const barcodes = new Set<string>();
+
+    return inputs.map(input => {
+      const options = this.normaliseOptions(input?.options, attributes);
+      const key = this.optionsKey(attributes, options);
+      if (keys.has(key)) {
+        throw new BadRequestException(MESSAGES.PRODUCT_VARIANT_DUPLICATE_OPTIONS);
+      }
+      keys.add(key);
+
+      let match: ProductEntity | null = null;
+      if (input.id) {
+        match = existingById.get(input.id) ?? null;
+        if (!match) {
+          throw new BadRequestException(MESSAGES.PRODUCT_VARIANT_NOT_FOUND);
+        }
+      } else {
+        const sameOptions = existingByKey.get(key);
+        match = sameOptions && !claimedIds.has(sameOptions.id) ? sameOptions : null;
+      }
+
+      const sku = typeof input.sku === 'string' ? input.sku.trim().toUpperCase() : '';
+      if (!SKU_PATTERN.test(sku)) {
+        throw new BadRequestException(MESSAGES.PRODUCT_VARIANT_SKU_INVALID);
+      }
+      if (skus.has(sku)) {
+        throw new ConflictException(MESSAGES.PRODUCT_SKU_EXISTS);
+      }
+      skus.add(sku);
+
+      const barcode = typeof input.barcode === 'string' && input.barcode.trim() ? input.barcode.trim() : null;
+      if (barcode !== null) {
+        if (barcodes.has(barcode)) {
+          throw new ConflictException(MESSAGES.PRODUCT_BARCODE_EXISTS);
+        }
+        barcodes.add(barcode);
+      }
+
+      let priceOverride: number | null = null;
+      if (input.unit_price !== undefined && input.unit_price !== null && String(input.unit_price) !== '') {
+        priceOverride = Number(input.unit_price);
+        if (!Number.isFinite(priceOverride) || priceOverride < 0) {
+          throw new BadRequestException(MESSAGES.PRODUCT_VARIANT_PRICE_INVALID);
+        }
+        priceOverride = Math.round(priceOverride * 100) / 100;
+      }
+
+      return {
+        existing: match,
+        options,
+        sku,
+        barcode,
+        price_override: priceOverride,
+        is_active: input.is_active !== undefined ? String(input.is_active) === 'true' : true,
+      };
+    });
+  }
+
+  /**
+   * One allowed value per attribute, spelled the way the attribute defines it
+   */
+  private normaliseOptions(raw: unknown, attributes: ProductVariantAttribute[]): Record<string, string> {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new BadRequestException(MESSAGES.PRODUCT_VARIANT_OPTIONS_INVALID);
+    }
+
+    const entries = Object.entries(raw as Record<string, unknown>);
+    if (entries.length !== attributes.length) {
+      throw new BadRequestException(MESSAGES.PRODUCT_VARIANT_OPTIONS_INVALID);
+    }
+
+    const options: Record<string, string> = {};
+    for (const attribute of attributes) {
+      const entry = entries.find(([name]) => name.trim().toLowerCase() === attribute.name.toLowerCase());
+      const value = typeof entry?.[1] === 'string' ? entry[1].trim().toLowerCase() : null;
+      const allowed = attribute.values.find(candidate => candidate.toLowerCase() === value);
+      if (!allowed) {
+        throw new BadRequestException(MESSAGES.PRODUCT_VARIANT_OPTIONS_INVALID);
+      }
+      options[attribute.name] = allowed;
+    }
+
+    return options;
+  }
+
+  /**
+   * SKUs and barcodes must be free across all products, deleted ones included since the
+   * unique constraints still cover them, apart from a variant keeping its own
+   */
+  private async checkIdentifiersAvailable(variants: ResolvedVariant[]): Promise<void> {
+    const takenSkus = await this.productsRepository.findExistingSkus(variants.map(variant => variant.sku));
+    const takenBarcodes = await this.productsRepository.findExistingBarcodes(
+      variants.map(variant => variant.barcode).filter((barcode): barcode is string => barcode !== null)
+    );
+
+    for (const variant of variants) {
+      if (takenSkus.includes(variant.sku) && variant.existing?.sku !== variant.sku) {
+        this.logger.warn(`Variant SKU already exists: ${variant.sku}`);
+        throw new ConflictException(MESSAGES.PRODUCT_SKU_EXISTS);
+      }
+      if (variant.barcode !== null && takenBarcodes.includes(variant.barcode) && variant.existing?.barcode !== variant.barcode) {
+        this.logger.warn(`Variant barcode already exists: ${variant.barcode}`);
+        throw new ConflictException(MESSAGES.PRODUCT_BARCODE_EXISTS);
+      }
+    }
+  }
+
+  //#endregion
+
+  //#region ==================== NAMING HELPERS ====================
+
+  /**
+   * "Classic Tee - M / Red", with values in attribute order
+   */
+  private variantName(parentName: string, attributes: ProductVariantAttribute[], options: Record<string, string>): string {
+    const label = attributes
+      .map(attribute => options[attribute.name])
+      .filter(Boolean)
+      .join(' / ');
+    return label ? `${parentName} - ${label}` : parentName;
+  }
+
+  private optionsKey(attributes: ProductVariantAttribute[], options: Record<string, string>): string {
+    return attributes.map(attribute => (options[attribute.name] ?? '').toLowerCase()).join('\u0000');
+  }
+
+  //#endregion
+}
@@ -4,6 +4,7 @@ import {
   Post,
   Body,
   Patch,
+  Put,
   Param,
   Delete,
   Query,
@@ -15,7 +16,11 @@ import {
   ParseFloatPipe,
   ParseBoolPipe,
   DefaultValuePipe,
+  UseInterceptors,
+  UploadedFile,
+  StreamableFile,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import {
   ApiTags,
   ApiOperation,
@@ -28,14 +33,24 @@ import {
   ApiBadRequestResponse,
   ApiNotFoundResponse,
   ApiConflictResponse,
+  ApiConsumes,
+  ApiBody,
 } from '@nestjs/swagger';
 import { ProductsService } from './products.service';
+import { ProductImportService } from './product-import.service';
+import { ProductVariantsService } from './product-variants.service';
+import { ExportFormat, parseExportFormat } from '../documents/tabular-export';
+import { ProductVariantScope } from '../../core/database/repositories/products.repository';
 import { 
   CreateProductDto, 
   UpdateProductDto, 
   ProductResponseDto, 
   ProductListResponseDto,
-  ProductFiltersDto 
+  ProductFiltersDto,
+  ProductImportFile,
+  ProductImportRequestDto,
+  ProductImportResultDto,
+  SaveProductVariantsDto
 } from './dto';
 import { AuthGuard } from '../../common/guards/auth.guard';
 import { StaffGuard } from '../../common/guards/staff.guard';
@@ -52,7 +67,11 @@ import { API_MESSAGES } from '../../common/constants/string-const';
 export class ProductsController {
   private readonly logger = new Logger(ProductsController.name);
 
-  constructor(private readonly productsService: ProductsService) {}
+  constructor(
+    private readonly productsService: ProductsService,
+    private readonly productImportService: ProductImportService,
+    private readonly productVariantsService: ProductVariantsService,
+  ) {}
 
   //#region ==================== CREATE OPERATIONS ====================
 
@@ -121,6 +140,49 @@ export class ProductsController {
     return createdResponse(product, API_MESSAGES.PRODUCT_CREATED);
   }
 
+  @ApiOperation({
+    summary: 'Import products from a CSV or XLSX file',
+    description: 'Maps the header row to product fields, resolves categories by name and validates every row, including SKU and barcode uniqueness. ' +
+      'A dry run (the default) only reports row errors; with dry_run=false the valid rows are created in one transaction and invalid rows are skipped. ' +
+      'Requires MANAGER or ADMIN role.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({ type: ProductImportRequestDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Import validated, or valid rows imported',
+    type: ProductImportResultDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'No file, unsupported or unreadable file, required columns missing, or too many rows',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Authentication required',
+  })
+  @ApiForbiddenResponse({
+    description: 'Insufficient permissions - MANAGER or ADMIN role required',
+  })
+  @ApiConflictResponse({
+    description: 'A SKU or barcode was taken by another product while the import was committing',
+  })
+  @Post('import')
+  @UseGuards(ManagerGuard) // MANAGER+ access
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: 10 * 1024 * 1024 } }))
+  @HttpCode(HttpStatus.OK)
+  async importProducts(
+    @UploadedFile() file: ProductImportFile | undefined,
+    @Body('dry_run') dryRun: string | undefined,
+    @CurrentUser('id') userId: string,
+  ) {
+    // Only an explicit "false" commits, so a missing flag can never import by accident
+    const isDryRun = dryRun !== 'false';
+    this.logger.log(`Importing products from ${file?.originalname ?? 'no file'} (dry run: ${isDryRun}) by user: ${userId}`);
+
+    const result = await this.productImportService.importProducts(file, isDryRun, userId);
+
+    return successResponse(result, isDryRun ? API_MESSAGES.PRODUCT_IMPORT_VALIDATED : API_MESSAGES.PRODUCTS_IMPORTED);
+  }
+
   //#endregion
 
   //#region ==================== READ OPERATIONS ====================
@@ -138,6 +200,8 @@ export class ProductsController {
   @ApiQuery({ name: 'max_price', required: false, description: 'Maximum price filter', example: 1000.00 })
   @ApiQuery({ name: 'withDeleted', required: false, description: 'Include soft-deleted products (ADMIN only)', example: false })
   @ApiQuery({ name: 'withCategory', required: false, description: 'Include category information', example: true })
+  @ApiQuery({ name: 'parent_product_id', required: false, description: 'Only the variants of this parent product', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @ApiQuery({ name: 'variant_scope', required: false, description: 'catalog hides variants behind their parent (and matches parents on variant names and SKUs); sellable hides parents that have variants', enum: ['all', 'catalog', 'sellable'], example: 'catalog' })
   @ApiQuery({ name: 'page', required: false, description: 'Page number for pagination', example: 1 })
   @ApiQuery({ name: 'limit', required: false, description: 'Number of items per page (1-100)', example: 10 })
   @ApiQuery({ name: 'sortBy', required: false, description: 'Sort by field', enum: ['name', 'sku', 'unit_price', 'created_at'], example: 'name' })
@@ -162,6 +226,8 @@ export class ProductsController {
     @Query('max_price', new DefaultValuePipe(undefined)) max_price?: number,
     @Query('withDeleted', new DefaultValuePipe(false), ParseBoolPipe) withDeleted?: boolean,
     @Query('withCategory', new DefaultValuePipe(true), ParseBoolPipe) withCategory?: boolean,
+    @Query('parent_product_id') parent_product_id?: string,
+    @Query('variant_scope') variant_scope?: ProductVariantScope,
     @Query('page', new DefaultValuePipe(undefined)) page?: number,
     @Query('limit', new DefaultValuePipe(undefined)) limit?: number,
     @Query('sortBy', new DefaultValuePipe('name')) sortBy?: 'name' | 'sku' | 'unit_price' | 'created_at',
@@ -182,6 +248,8 @@ export class ProductsController {
       ...(max_price !== undefined && { max_price }),
       withDeleted,
       withCategory,
+      ...(parent_product_id && { parent_product_id }),
+      ...(variant_scope && { variant_scope }),
       ...(page && { page }),
       ...(limit && { limit }),
       sortBy,
@@ -200,6 +268,70 @@ export class ProductsController {
     }
   }
 
+  @ApiOperation({
+    summary: 'Export products',
+    description: 'Stream every product matching the same filters as GET /products, with its category, as CSV, XLSX or JSON. Accessible to all authenticated users.',
+  })
+  @ApiQuery({ name: 'format', required: false, description: 'File format', enum: ExportFormat, example: ExportFormat.CSV })
+  @ApiQuery({ name: 'name', required: false, description: 'Filter by product name (partial match)', example: 'iPhone' })
+  @ApiQuery({ name: 'sku', required: false, description: 'Filter by SKU (partial match)', example: 'IPH15' })
+  @ApiQuery({ name: 'barcode', required: false, description: 'Filter by barcode (exact match)', example: '1234567890123' })
+  @ApiQuery({ name: 'category_id', required: false, description: 'Filter by category ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @ApiQuery({ name: 'is_active', required: false, description: 'Filter by active status', example: true })
+  @ApiQuery({ name: 'min_price', required: false, description: 'Minimum price filter', example: 100.00 })
+  @ApiQuery({ name: 'max_price', required: false, description: 'Maximum price filter', example: 1000.00 })
+  @ApiQuery({ name: 'withDeleted', required: false, description: 'Include soft-deleted products (ADMIN only)', example: false })
+  @ApiQuery({ name: 'parent_product_id', required: false, description: 'Only the variants of this parent product', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @ApiQuery({ name: 'variant_scope', required: false, description: 'catalog hides variants behind their parent; sellable hides parents that have variants', enum: ['all', 'catalog', 'sellable'], example: 'all' })
+  @ApiQuery({ name: 'sortBy', required: false, description: 'Sort by field', enum: ['name', 'sku', 'unit_price', 'created_at'], example: 'name' })
+  @ApiQuery({ name: 'sortOrder', required: false, description: 'Sort order', enum: ['asc', 'desc'], example: 'asc' })
+  @ApiResponse({
+    status: 200,
+    description: 'Export file streamed',
+  })
+  @ApiBadRequestResponse({
+    description: 'Unsupported export format',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Authentication required',
+  })
+  @Get('export')
+  @UseGuards(StaffGuard) // All authenticated users
+  exportProducts(
+    @Query('format') format?: string,
+    @Query('name') name?: string,
+    @Query('sku') sku?: string,
+    @Query('barcode') barcode?: string,
+    @Query('category_id') category_id?: string,
+    @Query('is_active') is_active?: string,
+    @Query('min_price') min_price?: string,
+    @Query('max_price') max_price?: string,
+    @Query('withDeleted', new DefaultValuePipe(false), ParseBoolPipe) withDeleted?: boolean,
+    @Query('parent_product_id') parent_product_id?: string,
+    @Query('variant_scope') variant_scope?: ProductVariantScope,
+    @Query('sortBy', new DefaultValuePipe('name')) sortBy?: 'name' | 'sku' | 'unit_price' | 'created_at',
+    @Query('sortOrder', new DefaultValuePipe('asc')) sortOrder?: 'asc' | 'desc',
+  ): StreamableFile {
+    const exportFormat = parseExportFormat(format);
+
+    const filters: ProductFiltersDto = {
+      ...(name && { name }),
+      ...(sku && { sku }),
+      ...(barcode && { barcode }),
+      ...(category_id && { category_id }),
+      ...(is_active !== undefined && { is_active: is_active === 'true' }),
+      ...(min_price !== undefined && { min_price: Number(min_price) }),
+      ...(max_price !== undefined && { max_price: Number(max_price) }),
+      withDeleted,
+      ...(parent_product_id && { parent_product_id }),
+      ...(variant_scope && { variant_scope }),
+      sortBy,
+      sortOrder,
+    };
+
+    return this.productsService.exportProducts(filters, exportFormat);
+  }
+
   @ApiOperation({
     summary: 'Get active products only',
     description: 'Retrieve only active products. Accessible to all authenticated users.',
@@ -264,7 +396,7 @@ export class ProductsController {
 
   @ApiOperation({
     summary: 'Get products by category',
-    description: 'Retrieve all products belonging to a specific category. Accessible to all authenticated users.',
+    description: 'Retrieve all products belonging to a specific category or any of its subcategories. Accessible to all authenticated users.',
   })
   @ApiParam({
     name: 'categoryId',
@@ -335,6 +467,36 @@ export class ProductsController {
     return successResponse(product, 'Product retrieved successfully');
   }
 
+  @ApiOperation({
+    summary: 'Get the variants of a product',
+    description: 'List the variants of a parent product, each with its own SKU, barcode, price and options. Accessible to all authenticated users.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Parent product UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Variants retrieved successfully',
+    type: [ProductResponseDto],
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Authentication required',
+  })
+  @ApiNotFoundResponse({
+    description: 'Product not found',
+  })
+  @Get(':id/variants')
+  @UseGuards(StaffGuard) // All authenticated users
+  async findVariants(@Param('id') id: string) {
+    this.logger.log(`Fetching variants of product: ${id}`);
+
+    const variants = await this.productVariantsService.findVariants(id);
+
+    return successResponse(variants, API_MESSAGES.PRODUCT_VARIANTS_FETCHED);
+  }
+
   @ApiOperation({
     summary: 'Get product by barcode',
     description: 'Retrieve a specific product by its barcode. Accessible to all authenticated users.',
@@ -466,6 +628,52 @@ export class ProductsController {
     return successResponse(product, API_MESSAGES.PRODUCT_UPDATED);
   }
 
+  @ApiOperation({
+    summary: 'Save the variant matrix of a product',
+    description: 'Replace the variant attributes and the full variant set of a product. Variants are matched to existing ones by ID or option values; ' +
+      'existing variants left out are removed and new ones get an empty stock row. Send no attributes and no variants to stop using variants. ' +
+      'Requires MANAGER or ADMIN role.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Parent product UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiBody({ type: SaveProductVariantsDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Variants saved successfully',
+    type: [ProductResponseDto],
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid attributes or options, the product is itself a variant, or stock would be stranded',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Authentication required',
+  })
+  @ApiForbiddenResponse({
+    description: 'Insufficient permissions - MANAGER or ADMIN role required',
+  })
+  @ApiNotFoundResponse({
+    description: 'Product not found',
+  })
+  @ApiConflictResponse({
+    description: 'A variant SKU or barcode already exists',
+  })
+  @Put(':id/variants')
+  @UseGuards(ManagerGuard) // MANAGER+ access
+  async saveVariants(
+    @Param('id') id: string,
+    @Body() saveVariantsDto: SaveProductVariantsDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Saving variants of product: ${id} by user: ${userId}`);
+
+    const variants = await this.productVariantsService.saveVariants(id, saveVariantsDto, userId);
+
+    return successResponse(variants, API_MESSAGES.PRODUCT_VARIANTS_SAVED);
+  }
+
   @ApiOperation({
     summary: 'Restore a soft-deleted product',
     description: 'Restore a previously soft-deleted product. Requires ADMIN role.',
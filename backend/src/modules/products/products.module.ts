@@ -1,10 +1,13 @@
 import { Module } from '@nestjs/common';
 import { ProductsController } from './products.controller';
 import { ProductsService } from './products.service';
+import { ProductImportService } from './product-import.service';
+import { ProductVariantsService } from './product-variants.service';
 import { ProductsRepository } from '../../core/database/repositories/products.repository';
 import { CategoriesRepository } from '../../core/database/repositories/categories.repository';
 import { DatabaseModule } from '../../core/database/database.module';
 import { CategoriesModule } from '../categories/categories.module';
+import { StockModule } from '../stock/stock.module';
 import { SupabaseModule } from '../../core/supabase/supabase.module';
 
 @Module({
@@ -12,10 +15,13 @@ import { SupabaseModule } from '../../core/supabase/supabase.module';
     DatabaseModule,
     CategoriesModule, // Import CategoriesModule for category validation
     SupabaseModule, // Required for AuthGuard dependency injection
+    StockModule, // Variants get their own stock rows
   ],
   controllers: [ProductsController],
   providers: [
     ProductsService,
+    ProductImportService,
+    ProductVariantsService,
     ProductsRepository,
     CategoriesRepository, // Needed for category validation in ProductsService
   ],
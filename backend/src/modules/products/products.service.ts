@@ -3,13 +3,53 @@ import {
   Logger, 
   BadRequestException, 
   NotFoundException, 
-  ConflictException 
+  ConflictException,
+  StreamableFile
 } from '@nestjs/common';
 import { ProductsRepository, PaginatedResult } from '../../core/database/repositories/products.repository';
+import { ProductVariantsService } from './product-variants.service';
+import { StockService } from '../stock/stock.service';
+import { UnitsOfMeasureService, ProductUnitSettings } from '../stock/units-of-measure.service';
 import { CategoriesRepository } from '../../core/database/repositories/categories.repository';
+import { SuppliersRepository } from '../../core/database/repositories/suppliers.repository';
+import { TaxClassesRepository } from '../../core/database/repositories/tax-classes.repository';
 import { MESSAGES, API_MESSAGES } from '../../common/constants/string-const';
 import { CreateProductDto, UpdateProductDto, ProductResponseDto, ProductListResponseDto, ProductFiltersDto } from './dto';
 import { plainToClass } from 'class-transformer';
+import { ExportColumn, ExportFormat, EXPORT_PAGE_SIZE, createExportFile } from '../documents/tabular-export';
+
+const PRODUCT_EXPORT_COLUMNS: ExportColumn<ProductResponseDto>[] = [
+  { header: 'ID', value: product => product.id },
+  { header: 'Name', value: product => product.name },
+  { header: 'SKU', value: product => product.sku },
+  { header: 'Barcode', value: product => product.barcode },
+  { header: 'Category', value: product => product.category?.name },
+  { header: 'Category ID', value: product => product.category_id },
+  { header: 'Description', value: product => product.description },
+  { header: 'Unit Price', value: product => parseFloat(product.unit_price) },
+  { header: 'Cost Price', value: product => product.cost_price === null ? null : parseFloat(product.cost_price) },
+  { header: 'Minimum Stock Level', value: product => product.minimum_stock_level },
+  { header: 'Reorder Point', value: product => product.reorder_point },
+  { header: 'Target Stock Level', value: product => product.target_stock_level },
+  { header: 'Preferred Supplier ID', value: product => product.preferred_supplier_id },
+  { header: 'Tax Class ID', value: product => product.tax_class_id },
+  { header: 'Active', value: product => product.is_active },
+  { header: 'Base Unit', value: product => product.base_unit },
+  {
+    header: 'Units',
+    value: product => product.units?.map(unit => `${unit.code} = ${unit.factor} ${product.base_unit}`).join(', ') ?? null,
+  },
+  { header: 'Purchase Unit', value: product => product.purchase_unit ?? product.base_unit },
+  { header: 'Sales Unit', value: product => product.sales_unit ?? product.base_unit },
+  { header: 'Parent Product ID', value: product => product.parent_product_id },
+  {
+    header: 'Variant Options',
+    value: product => product.variant_options
+      ? Object.entries(product.variant_options).map(([name, value]) => `${name}: ${value}`).join(', ')
+      : null,
+  },
+  { header: 'Created At', value: product => product.created_at },
+];
 
 @Injectable()
 export class ProductsService {
@@ -18,6 +58,11 @@ export class ProductsService {
   constructor(
     private readonly productsRepository: ProductsRepository,
     private readonly categoriesRepository: CategoriesRepository,
+    private readonly suppliersRepository: SuppliersRepository,
+    private readonly taxClassesRepository: TaxClassesRepository,
+    private readonly productVariantsService: ProductVariantsService,
+    private readonly stockService: StockService,
+    private readonly unitsOfMeasureService: UnitsOfMeasureService,
   ) {}
 
   //#region ==================== CRUD OPERATIONS ====================
@@ -55,9 +100,30 @@ export class ProductsService {
         }
       }
 
+      if (createProductDto.preferred_supplier_id) {
+        await this.validatePreferredSupplier(createProductDto.preferred_supplier_id);
+      }
+
+      if (createProductDto.tax_class_id) {
+        await this.validateTaxClass(createProductDto.tax_class_id);
+      }
+
+      if (createProductDto.reorder_point !== undefined && createProductDto.target_stock_level !== undefined
+        && createProductDto.target_stock_level < createProductDto.reorder_point) {
+        throw new BadRequestException(MESSAGES.PRODUCT_TARGET_BELOW_REORDER_POINT);
+      }
+
+      const unitSettings = this.unitsOfMeasureService.normaliseUnitSettings({
+        base_unit: createProductDto.base_unit ?? 'EA',
+        units: createProductDto.units ?? null,
+        purchase_unit: createProductDto.purchase_unit ?? null,
+        sales_unit: createProductDto.sales_unit ?? null,
+      });
+
       // Create the product
       const productData = {
         ...createProductDto,
+        ...unitSettings,
         created_by: createdBy,
       };
 
@@ -151,6 +217,14 @@ export class ProductsService {
     }
   }
 
+  /**
+   * Streams every product matching the list filters, with its category, as a download
+   */
+  exportProducts(filters: ProductFiltersDto, format: ExportFormat): StreamableFile {
+    this.logger.log(`Exporting products as ${format}`, { filters });
+    return createExportFile(format, 'products', PRODUCT_EXPORT_COLUMNS, this.findExportPages(filters));
+  }
+
   async findOne(id: string, withDeleted = false): Promise<ProductResponseDto> {
     this.logger.log(`Finding product by ID: ${id}`);
     
@@ -240,7 +314,7 @@ export class ProductsService {
     
     try {
       // Check if product exists
-      await this.productsRepository.findProductByIdOrThrow(id);
+      const existingProduct = await this.productsRepository.findProductByIdOrThrow(id);
       
       // Validate SKU uniqueness if being updated
       if (updateProductDto.sku) {
@@ -273,13 +347,30 @@ export class ProductsService {
         }
       }
 
+      if (updateProductDto.preferred_supplier_id) {
+        await this.validatePreferredSupplier(updateProductDto.preferred_supplier_id);
+      }
+
+      if (updateProductDto.tax_class_id) {
+        await this.validateTaxClass(updateProductDto.tax_class_id);
+      }
+
+      if (updateProductDto.reorder_point !== undefined && updateProductDto.target_stock_level !== undefined
+        && updateProductDto.target_stock_level < updateProductDto.reorder_point) {
+        throw new BadRequestException(MESSAGES.PRODUCT_TARGET_BELOW_REORDER_POINT);
+      }
+
+      const unitSettings = await this.resolveUnitUpdate(id, existingProduct, updateProductDto);
+
       // Update the product
       const updateData = {
         ...updateProductDto,
+        ...unitSettings,
         updated_by: updatedBy,
       };
 
       const updatedProduct = await this.productsRepository.update(id, updateData);
+      await this.productVariantsService.syncWithParent(updatedProduct, updatedBy);
       
       this.logger.log(`Product updated successfully: ${id}`);
       
@@ -315,11 +406,12 @@ export class ProductsService {
     
     try {
       // Check if product exists
-      await this.productsRepository.findProductByIdOrThrow(id);
+      const product = await this.productsRepository.findProductByIdOrThrow(id);
       
       // TODO: Check if product has stock or is referenced in orders
       // This should be implemented when stock and orders services are ready
       
+      await this.productVariantsService.removeVariants(product, deletedBy);
       await this.productsRepository.softDelete(id, deletedBy);
       
       this.logger.log(`Product soft deleted successfully: ${id}`);
@@ -415,7 +507,9 @@ export class ProductsService {
         throw new NotFoundException(MESSAGES.CATEGORY_NOT_FOUND);
       }
       
-      const products = await this.productsRepository.getProductsByCategory(categoryId);
+      // Products filed under any subcategory belong to the category too
+      const categoryIds = await this.categoriesRepository.findDescendantIds(categoryId);
+      const products = await this.productsRepository.getProductsByCategories(categoryIds);
       
       this.logger.log(`Retrieved ${products.length} products for category: ${categoryId}`);
       
@@ -518,6 +612,32 @@ export class ProductsService {
 
   //#endregion
 
+  //#region ==================== EXPORT HELPERS ====================
+
+  private async *findExportPages(filters: ProductFiltersDto): AsyncGenerator<ProductResponseDto[]> {
+    // Exports walk every page themselves, so the request's own paging is dropped
+    const { page, limit, sortBy, sortOrder, ...searchFilters } = filters;
+
+    for (let current = 1; ; current++) {
+      const result = await this.productsRepository.findAll(
+        { ...searchFilters, withCategory: true },
+        { page: current, limit: EXPORT_PAGE_SIZE, sortBy: sortBy || 'name', sortOrder: sortOrder || 'asc' },
+      ) as PaginatedResult<ProductResponseDto>;
+
+      yield result.data.map(product =>
+        plainToClass(ProductResponseDto, product, {
+          excludeExtraneousValues: true,
+        })
+      );
+
+      if (current >= result.totalPages) {
+        return;
+      }
+    }
+  }
+
+  //#endregion
+
   //#region ==================== VALIDATION HELPERS ====================
 
   private async validateSku(sku: string, excludeId?: string): Promise<void> {
@@ -534,5 +654,57 @@ export class ProductsService {
     }
   }
 
+  private async validatePreferredSupplier(supplierId: string): Promise<void> {
+    const supplier = await this.suppliersRepository.findById(supplierId);
+    if (!supplier) {
+      this.logger.warn(`Preferred supplier not found: ${supplierId}`);
+      throw new BadRequestException(MESSAGES.SUPPLIER_NOT_FOUND);
+    }
+    if (!supplier.is_active) {
+      this.logger.warn(`Preferred supplier is not active: ${supplierId}`);
+      throw new BadRequestException(MESSAGES.SUPPLIER_INACTIVE);
+    }
+  }
+
+  /**
+   * Unit fields are validated as a set, filling in whatever the update leaves out from the
+   * current product. Stock is counted in the base unit, so it is fixed while any is on hand.
+   */
+  private async resolveUnitUpdate(
+    id: string,
+    existing: ProductUnitSettings,
+    updateProductDto: UpdateProductDto,
+  ): Promise<Partial<ProductUnitSettings>> {
+    const { base_unit, units, purchase_unit, sales_unit } = updateProductDto;
+    if (base_unit === undefined && units === undefined && purchase_unit === undefined && sales_unit === undefined) {
+      return {};
+    }
+
+    const settings = this.unitsOfMeasureService.normaliseUnitSettings({
+      base_unit: base_unit ?? existing.base_unit,
+      units: units === undefined ? existing.units : units,
+      purchase_unit: purchase_unit === undefined ? existing.purchase_unit : purchase_unit,
+      sales_unit: sales_unit === undefined ? existing.sales_unit : sales_unit,
+    });
+
+    if (settings.base_unit !== existing.base_unit && await this.stockService.hasStockOnHand(id)) {
+      throw new BadRequestException(MESSAGES.PRODUCT_BASE_UNIT_HAS_STOCK);
+    }
+
+    return settings;
+  }
+
+  private async validateTaxClass(taxClassId: string): Promise<void> {
+    const taxClass = await this.taxClassesRepository.findById(taxClassId);
+    if (!taxClass) {
+      this.logger.warn(`Tax class not found: ${taxClassId}`);
+      throw new BadRequestException(MESSAGES.TAX_CLASS_NOT_FOUND);
+    }
+    if (!taxClass.is_active) {
+      this.logger.warn(`Tax class is not active: ${taxClassId}`);
+      throw new BadRequestException(MESSAGES.TAX_CLASS_INACTIVE);
+    }
+  }
+
   //#endregion
 }
\ No newline at end of file
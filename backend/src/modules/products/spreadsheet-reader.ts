@@ -0,0 +1,301 @@
+/**
+ * Minimal reader for the first sheet of a CSV or XLSX file.
+ *
+ * XLSX files are zip archives of SpreadsheetML parts; only the parts needed to read cell
+ * values are unpacked (with zlib, so no native or third-party dependencies). Formulas come
+ * back as their cached values and styling is ignored. Rows are returned in sheet order with
+ * the sheet's own row numbering preserved, so row 1 is always index 0 and gaps are empty.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+const ZIP_STORED = 0;
+const ZIP_DEFLATED = 8;
+
+// End of central directory record (22 bytes) plus the longest possible archive comment
+const ZIP_MAX_EOCD_SEARCH = 22 + 0xffff;
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+export function detectSpreadsheetFormat(buffer: Buffer, filename = ''): SpreadsheetFormat | null {
+  // Zip archives start with "PK\x03\x04"
+  if (buffer.length >= 4 && buffer.readUInt32LE(0) === ZIP_LOCAL_HEADER) {
+    return 'xlsx';
+  }
+  if (/\.(csv|txt)$/i.test(filename)) {
+    return 'csv';
+  }
+  return null;
+}
+
+export function readSpreadsheet(buffer: Buffer, format: SpreadsheetFormat): string[][] {
+  return format === 'xlsx' ? readXlsx(buffer) : readCsv(buffer.toString('utf8'));
+}
+
+//#region ==================== CSV ====================
+
+/**
+ * RFC 4180 parsing: quoted fields may contain commas, doubled quotes and line breaks
+ */
+function readCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  // Excel prefixes UTF-8 exports with a byte order mark
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Unterminated quoted field');
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+//#region ==================== XLSX ====================
+
+function readXlsx(buffer: Buffer): string[][] {
+  const entries = readZipDirectory(buffer);
+  const readPart = (name: string): string | null => {
+    const entry = entries.get(name);
+    return entry ? entry().toString('utf8') : null;
+  };
+
+  const sheetPath = findFirstSheetPath(readPart);
+  const sheet = readPart(sheetPath);
+  if (sheet === null) {
+    throw new Error('Workbook has no worksheets');
+  }
+
+  const sharedStringsXml = readPart('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml ? readSharedStrings(sharedStringsXml) : [];
+
+  const rows: string[][] = [];
+  const rowPattern = /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g;
+  let rowMatch: RegExpExecArray | null;
+
+  while ((rowMatch = rowPattern.exec(sheet)) !== null) {
+    const rowNumber = Number(readAttribute(rowMatch[1], 'r')) || rows.length + 1;
+    const cells: string[] = [];
+    const cellPattern = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+    let cellMatch: RegExpExecArray | null;
+
+    while ((cellMatch = cellPattern.exec(rowMatch[2] ?? '')) !== null) {
+      const reference = readAttribute(cellMatch[1], 'r');
+      const column = reference ? columnIndex(reference) : cells.length;
+      cells[column] = readCellValue(cellMatch[1], cellMatch[2] ?? '', sharedStrings);
+    }
+
+    while (rows.length < rowNumber - 1) {
+      rows.push([]);
+    }
+    rows[rowNumber - 1] = Array.from(cells, cell => cell ?? '');
+  }
+
+  return rows;
+}
+
+/**
+ * Maps each file in the archive to a function that unpacks it on demand
+ */
+function readZipDirectory(buffer: Buffer): Map<string, () => Buffer> {
+  let endOffset = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - ZIP_MAX_EOCD_SEARCH); i--) {
+    if (buffer.readUInt32LE(i) === ZIP_END_OF_DIRECTORY) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('Not a valid zip archive');
+  }
+
+  const entryCount = buffer.readUInt16LE(endOffset + 10);
+  let offset = buffer.readUInt32LE(endOffset + 16);
+  const entries = new Map<string, () => Buffer>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER) {
+      throw new Error('Corrupt zip central directory');
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    entries.set(name, () => {
+      if (buffer.readUInt32LE(localOffset) !== ZIP_LOCAL_HEADER) {
+        throw new Error(`Corrupt zip entry: ${name}`);
+      }
+      // The local header's own name and extra field lengths can differ from the central directory's
+      const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+      const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+      if (method === ZIP_STORED) return data;
+      if (method === ZIP_DEFLATED) return inflateRawSync(data);
+      throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Follows the workbook's first <sheet> through its relationship to the worksheet part
+ */
+function findFirstSheetPath(readPart: (name: string) => string | null): string {
+  const fallback = 'xl/worksheets/sheet1.xml';
+  const workbook = readPart('xl/workbook.xml');
+  const relationships = readPart('xl/_rels/workbook.xml.rels');
+  if (!workbook || !relationships) {
+    return fallback;
+  }
+
+  const sheetTag = /<sheet\b([^>]*)\/?>/.exec(workbook);
+  const relationshipId = sheetTag ? readAttribute(sheetTag[1], 'r:id') : null;
+  if (!relationshipId) {
+    return fallback;
+  }
+
+  const relationshipPattern = /<Relationship\b([^>]*)\/?>/g;
+  let match: RegExpExecArray | null;
+  while ((match = relationshipPattern.exec(relationships)) !== null) {
+    if (readAttribute(match[1], 'Id') !== relationshipId) continue;
+
+    const target = readAttribute(match[1], 'Target') ?? '';
+    // Targets are relative to xl/ unless they are absolute part names
+    return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+
+  return fallback;
+}
+
+function readSharedStrings(xml: string): string[] {
+  const strings: string[] = [];
+  const itemPattern = /<si>([\s\S]*?)<\/si>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = itemPattern.exec(xml)) !== null) {
+    strings.push(readText(match[1]));
+  }
+
+  return strings;
+}
+
+function readCellValue(attributes: string, body: string, sharedStrings: string[]): string {
+  const type = readAttribute(attributes, 't');
+
+  if (type === 'inlineStr') {
+    return readText(body);
+  }
+
+  const valueMatch = /<v>([\s\S]*?)<\/v>/.exec(body);
+  const value = valueMatch ? decodeXml(valueMatch[1]) : '';
+
+  switch (type) {
+    case 's':
+      return sharedStrings[Number(value)] ?? '';
+    case 'b':
+      return value === '1' ? 'TRUE' : 'FALSE';
+    default:
+      return value;
+  }
+}
+
+/**
+ * Concatenates the <t> runs of a rich text item, leaving out phonetic hints
+ */
+function readText(xml: string): string {
+  const withoutPhonetics = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  const textPattern = /<t\b[^>]*>([\s\S]*?)<\/t>/g;
+  let text = '';
+  let match: RegExpExecArray | null;
+
+  while ((match = textPattern.exec(withoutPhonetics)) !== null) {
+    text += decodeXml(match[1]);
+  }
+
+  return text;
+}
+
+function readAttribute(attributes: string, name: string): string | null {
+  const match = new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(attributes);
+  return match ? decodeXml(match[1]) : null;
+}
+
+/**
+ * Zero-based column index of a cell reference such as "AB12"
+ */
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const char of reference.toUpperCase()) {
+    if (char < 'A' || char > 'Z') break;
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return String.fromCodePoint(point);
+    }
+    return XML_ENTITIES[code] ?? entity;
+  });
+}
@@ -0,0 +1,153 @@
+import { IsString, IsNotEmpty, IsOptional, IsBoolean, IsNumber, IsInt, IsEnum, IsUUID, IsDateString, MaxLength, Matches, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import { PromotionType, PromotionScope } from './promotion-filters.dto';
+
+export class CreatePromotionDto {
+  @ApiProperty({
+    description: 'Promotion name, shown on receipts and reports',
+    example: 'Summer Sale',
+    maxLength: 100,
+  })
+  @IsString({ message: 'Promotion name must be a string' })
+  @IsNotEmpty({ message: 'Promotion name is required' })
+  @MaxLength(100, { message: 'Promotion name cannot exceed 100 characters' })
+  @Transform(({ value }) => value?.trim())
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Promotion description',
+    example: '20% off all beverages through August',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString({ message: 'Description must be a string' })
+  @MaxLength(500, { message: 'Description cannot exceed 500 characters' })
+  @Transform(({ value }) => value?.trim())
+  description?: string;
+
+  @ApiProperty({
+    description: 'PERCENTAGE takes a percent off each eligible line, FIXED_AMOUNT takes an amount off the eligible lines together, BUY_X_GET_Y discounts every Y units after X bought',
+    enum: PromotionType,
+    example: PromotionType.PERCENTAGE,
+  })
+  @IsEnum(PromotionType, { message: 'Promotion type must be a valid promotion type' })
+  promotion_type: PromotionType;
+
+  @ApiPropertyOptional({
+    description: 'Which items the promotion applies to',
+    enum: PromotionScope,
+    example: PromotionScope.ALL_PRODUCTS,
+    default: PromotionScope.ALL_PRODUCTS,
+  })
+  @IsOptional()
+  @IsEnum(PromotionScope, { message: 'Scope must be a valid promotion scope' })
+  scope?: PromotionScope;
+
+  @ApiPropertyOptional({
+    description: 'Product the promotion applies to (PRODUCT scope)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'Product ID must be a valid UUID' })
+  product_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Category the promotion applies to, subcategories included (CATEGORY scope)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'Category ID must be a valid UUID' })
+  category_id?: string;
+
+  @ApiProperty({
+    description: 'Percent off for PERCENTAGE, amount off for FIXED_AMOUNT, percent off the free units for BUY_X_GET_Y (100 = free)',
+    example: 20,
+    minimum: 0,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Discount value must be a number with max 2 decimal places' })
+  @Min(0, { message: 'Discount value cannot be negative' })
+  @Type(() => Number)
+  discount_value: number;
+
+  @ApiPropertyOptional({
+    description: 'Units the customer pays for (BUY_X_GET_Y)',
+    example: 2,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Buy quantity must be an integer' })
+  @Min(1, { message: 'Buy quantity must be at least 1' })
+  @Type(() => Number)
+  buy_quantity?: number;
+
+  @ApiPropertyOptional({
+    description: 'Units discounted after the bought ones (BUY_X_GET_Y)',
+    example: 1,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Get quantity must be an integer' })
+  @Min(1, { message: 'Get quantity must be at least 1' })
+  @Type(() => Number)
+  get_quantity?: number;
+
+  @ApiPropertyOptional({
+    description: 'Minimum invoice amount before discounts for the promotion to apply',
+    example: 50,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Minimum subtotal must be a number with max 2 decimal places' })
+  @Min(0, { message: 'Minimum subtotal cannot be negative' })
+  @Type(() => Number)
+  min_subtotal?: number;
+
+  @ApiPropertyOptional({
+    description: 'When the campaign starts (runs immediately when omitted)',
+    example: '2024-06-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'Start must be a valid ISO date' })
+  starts_at?: string;
+
+  @ApiPropertyOptional({
+    description: 'When the campaign ends (runs indefinitely when omitted)',
+    example: '2024-08-31T23:59:59.000Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'End must be a valid ISO date' })
+  ends_at?: string;
+
+  @ApiPropertyOptional({
+    description: 'Coupon code the customer has to present; promotions without one apply automatically',
+    example: 'SUMMER20',
+    maxLength: 30,
+  })
+  @IsOptional()
+  @IsString({ message: 'Coupon code must be a string' })
+  @MaxLength(30, { message: 'Coupon code cannot exceed 30 characters' })
+  @Matches(/^[A-Z0-9_-]+$/, { message: 'Coupon code may only contain letters, numbers, dashes and underscores' })
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  coupon_code?: string;
+
+  @ApiPropertyOptional({
+    description: 'How many invoices may use the promotion (unlimited when omitted)',
+    example: 100,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Usage limit must be an integer' })
+  @Min(1, { message: 'Usage limit must be at least 1' })
+  @Type(() => Number)
+  usage_limit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Whether the promotion is active',
+    example: true,
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'is_active must be a boolean value' })
+  is_active?: boolean;
+}
@@ -0,0 +1,55 @@
+import { IsString, IsOptional, IsNumber, IsUUID, IsArray, ValidateNested, ArrayMinSize, Min, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+
+export class EvaluatePromotionLineDto {
+  @ApiProperty({
+    description: 'Product ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID('4', { message: 'Product ID must be a valid UUID' })
+  product_id: string;
+
+  @ApiProperty({
+    description: 'Quantity in the cart, in the line unit',
+    example: 3,
+    minimum: 0.001,
+  })
+  @IsNumber({ maxDecimalPlaces: 3 }, { message: 'Quantity must be a number with max 3 decimal places' })
+  @Min(0.001, { message: 'Quantity must be greater than 0' })
+  @Type(() => Number)
+  quantity: number;
+
+  @ApiPropertyOptional({
+    description: 'Unit price override (defaults to the product selling price)',
+    example: 19.99,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Unit price must be a number with max 2 decimal places' })
+  @Min(0, { message: 'Unit price cannot be negative' })
+  @Type(() => Number)
+  unit_price?: number;
+}
+
+export class EvaluatePromotionsDto {
+  @ApiPropertyOptional({
+    description: 'Coupon code presented by the customer',
+    example: 'SUMMER20',
+  })
+  @IsOptional()
+  @IsString({ message: 'Coupon code must be a string' })
+  @MaxLength(30, { message: 'Coupon code cannot exceed 30 characters' })
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  coupon_code?: string;
+
+  @ApiProperty({
+    description: 'Cart lines to price',
+    type: [EvaluatePromotionLineDto],
+  })
+  @IsArray({ message: 'Items must be an array' })
+  @ArrayMinSize(1, { message: 'At least one item is required' })
+  @ValidateNested({ each: true })
+  @Type(() => EvaluatePromotionLineDto)
+  items: EvaluatePromotionLineDto[];
+}
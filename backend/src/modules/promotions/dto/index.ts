@@ -0,0 +1,9 @@
+export * from './create-promotion.dto';
+export * from './update-promotion.dto';
+export * from './promotion-response.dto';
+export * from './promotion-list-response.dto';
+export * from './promotion-filters.dto';
+export * from './evaluate-promotions.dto';
+export * from './promotion-evaluation-response.dto';
+export * from './promotion-summary-query.dto';
+export * from './promotion-summary-response.dto';
@@ -0,0 +1,55 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+
+export class PromotionLineDiscountDto {
+  @ApiProperty({
+    description: 'Product ID, in the order the items were sent',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  product_id: string;
+
+  @ApiPropertyOptional({
+    description: 'Promotion applied to the line',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  promotion_id: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Name of the promotion applied to the line',
+    example: 'Summer Sale',
+  })
+  @Expose()
+  promotion_name: string | null;
+
+  @ApiProperty({
+    description: 'Discount off the line, priced like the line (including tax for tax-inclusive products)',
+    example: 4.0,
+  })
+  @Expose()
+  discount_amount: number;
+}
+
+export class PromotionEvaluationResponseDto {
+  @ApiProperty({
+    description: 'Discount per cart line',
+    type: [PromotionLineDiscountDto],
+  })
+  @Expose()
+  lines: PromotionLineDiscountDto[];
+
+  @ApiPropertyOptional({
+    description: 'Coupon code that was applied',
+    example: 'SUMMER20',
+  })
+  @Expose()
+  coupon_code: string | null;
+
+  @ApiProperty({
+    description: 'Total promotion discount across the lines',
+    example: 4.0,
+  })
+  @Expose()
+  discount_amount: number;
+}
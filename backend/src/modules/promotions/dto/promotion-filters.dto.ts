@@ -0,0 +1,74 @@
+import { IsOptional, IsString, IsBoolean, IsEnum, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+
+export enum PromotionType {
+  PERCENTAGE = 'PERCENTAGE',
+  FIXED_AMOUNT = 'FIXED_AMOUNT',
+  BUY_X_GET_Y = 'BUY_X_GET_Y',
+}
+
+export enum PromotionScope {
+  ALL_PRODUCTS = 'ALL_PRODUCTS',
+  PRODUCT = 'PRODUCT',
+  CATEGORY = 'CATEGORY',
+}
+
+export class PromotionFiltersDto {
+  @ApiPropertyOptional({
+    description: 'Search by promotion name or coupon code (partial match)',
+    example: 'SUMMER',
+  })
+  @IsOptional()
+  @IsString({ message: 'Search filter must be a string' })
+  @MaxLength(100, { message: 'Search filter cannot exceed 100 characters' })
+  @Transform(({ value }) => value?.trim())
+  search?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by promotion type',
+    enum: PromotionType,
+    example: PromotionType.PERCENTAGE,
+  })
+  @IsOptional()
+  @IsEnum(PromotionType, { message: 'Promotion type must be a valid promotion type' })
+  promotion_type?: PromotionType;
+
+  @ApiPropertyOptional({
+    description: 'Filter by the items the promotion applies to',
+    enum: PromotionScope,
+    example: PromotionScope.CATEGORY,
+  })
+  @IsOptional()
+  @IsEnum(PromotionScope, { message: 'Scope must be a valid promotion scope' })
+  scope?: PromotionScope;
+
+  @ApiPropertyOptional({
+    description: 'Filter by active status',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'is_active filter must be a boolean' })
+  @Type(() => Boolean)
+  @Transform(({ value }) => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return value;
+  })
+  is_active?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Include deleted promotions',
+    example: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'withDeleted must be a boolean' })
+  @Type(() => Boolean)
+  @Transform(({ value }) => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return value;
+  })
+  withDeleted?: boolean;
+}
@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { PromotionResponseDto } from './promotion-response.dto';
+
+export class PromotionListResponseDto {
+  @ApiProperty({
+    description: 'Array of promotions',
+    type: [PromotionResponseDto],
+  })
+  @Expose()
+  data: PromotionResponseDto[];
+
+  @ApiProperty({
+    description: 'Total number of promotions',
+    example: 12,
+  })
+  @Expose()
+  total: number;
+
+  @ApiProperty({
+    description: 'Current page number',
+    example: 1,
+  })
+  @Expose()
+  page: number;
+
+  @ApiProperty({
+    description: 'Total number of pages',
+    example: 1,
+  })
+  @Expose()
+  totalPages: number;
+
+  @ApiProperty({
+    description: 'Number of promotions per page',
+    example: 10,
+  })
+  @Expose()
+  limit: number;
+}
@@ -0,0 +1,158 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Transform } from 'class-transformer';
+import { PromotionType, PromotionScope } from './promotion-filters.dto';
+
+export class PromotionResponseDto {
+  @ApiProperty({
+    description: 'Promotion unique identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  id: string;
+
+  @ApiProperty({
+    description: 'Promotion name',
+    example: 'Summer Sale',
+  })
+  @Expose()
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Promotion description',
+    example: '20% off all beverages through August',
+  })
+  @Expose()
+  description?: string | null;
+
+  @ApiProperty({
+    description: 'Promotion type',
+    enum: PromotionType,
+    example: PromotionType.PERCENTAGE,
+  })
+  @Expose()
+  promotion_type: PromotionType;
+
+  @ApiProperty({
+    description: 'Which items the promotion applies to',
+    enum: PromotionScope,
+    example: PromotionScope.CATEGORY,
+  })
+  @Expose()
+  scope: PromotionScope;
+
+  @ApiPropertyOptional({
+    description: 'Product the promotion applies to',
+    example: null,
+  })
+  @Expose()
+  product_id?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Category the promotion applies to',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  category_id?: string | null;
+
+  @ApiProperty({
+    description: 'Percent or amount off, depending on the promotion type',
+    example: '20.00',
+  })
+  @Expose()
+  discount_value: string;
+
+  @ApiPropertyOptional({
+    description: 'Units paid for (BUY_X_GET_Y)',
+    example: null,
+  })
+  @Expose()
+  buy_quantity?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Units discounted (BUY_X_GET_Y)',
+    example: null,
+  })
+  @Expose()
+  get_quantity?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Minimum invoice amount before discounts',
+    example: '50.00',
+  })
+  @Expose()
+  min_subtotal?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Campaign start',
+    example: '2024-06-01T00:00:00.000Z',
+  })
+  @Expose()
+  @Transform(({ value }) => value instanceof Date ? value.toISOString() : value)
+  starts_at?: Date | null;
+
+  @ApiPropertyOptional({
+    description: 'Campaign end',
+    example: '2024-08-31T23:59:59.000Z',
+  })
+  @Expose()
+  @Transform(({ value }) => value instanceof Date ? value.toISOString() : value)
+  ends_at?: Date | null;
+
+  @ApiPropertyOptional({
+    description: 'Coupon code required to redeem the promotion',
+    example: 'SUMMER20',
+  })
+  @Expose()
+  coupon_code?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'How many invoices may use the promotion',
+    example: 100,
+  })
+  @Expose()
+  usage_limit?: number | null;
+
+  @ApiProperty({
+    description: 'How many invoices have used the promotion',
+    example: 12,
+  })
+  @Expose()
+  usage_count: number;
+
+  @ApiProperty({
+    description: 'Whether the promotion is active',
+    example: true,
+  })
+  @Expose()
+  is_active: boolean;
+
+  @ApiProperty({
+    description: 'User who created the promotion',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  created_by: string;
+
+  @ApiProperty({
+    description: 'Promotion creation timestamp',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  @Expose()
+  @Transform(({ value }) => value instanceof Date ? value.toISOString() : value)
+  created_at: Date;
+
+  @ApiPropertyOptional({
+    description: 'User who last updated the promotion',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  updated_by?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Last update timestamp',
+    example: '2024-01-16T14:20:00.000Z',
+  })
+  @Expose()
+  @Transform(({ value }) => value instanceof Date ? value.toISOString() : value)
+  updated_at?: Date | null;
+}
@@ -0,0 +1,81 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+
+export class PromotionSummaryLineDto {
+  @ApiProperty({
+    description: 'Promotion ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  promotion_id: string;
+
+  @ApiProperty({
+    description: 'Promotion name',
+    example: 'Summer Sale',
+  })
+  @Expose()
+  promotion_name: string;
+
+  @ApiPropertyOptional({
+    description: 'Coupon code of the promotion',
+    example: 'SUMMER20',
+  })
+  @Expose()
+  coupon_code: string | null;
+
+  @ApiProperty({
+    description: 'Invoices that used the promotion',
+    example: 18,
+  })
+  @Expose()
+  invoice_count: number;
+
+  @ApiProperty({
+    description: 'Invoice lines the promotion was applied to',
+    example: 25,
+  })
+  @Expose()
+  line_count: number;
+
+  @ApiProperty({
+    description: 'Units sold under the promotion, net of returns',
+    example: 40,
+  })
+  @Expose()
+  units_sold: number;
+
+  @ApiProperty({
+    description: 'Discount given, excluding tax',
+    example: 160.0,
+  })
+  @Expose()
+  discount_amount: number;
+
+  @ApiProperty({
+    description: 'Sales on the discounted lines, including tax',
+    example: 720.0,
+  })
+  @Expose()
+  sales_amount: number;
+}
+
+export class PromotionSummaryResponseDto {
+  @ApiProperty({ description: 'First day of the period', example: '2024-01-01' })
+  @Expose()
+  start_date: string;
+
+  @ApiProperty({ description: 'Last day of the period', example: '2024-01-31' })
+  @Expose()
+  end_date: string;
+
+  @ApiProperty({
+    description: 'Promotions used in the period, largest discount first',
+    type: [PromotionSummaryLineDto],
+  })
+  @Expose()
+  promotions: PromotionSummaryLineDto[];
+
+  @ApiProperty({ description: 'Total discount given through promotions', example: 160.0 })
+  @Expose()
+  total_discount: number;
+}
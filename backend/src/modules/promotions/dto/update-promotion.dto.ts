@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreatePromotionDto } from './create-promotion.dto';
+
+export class UpdatePromotionDto extends PartialType(CreatePromotionDto) {
+  // Changes apply to invoices built afterwards; issued invoices keep their line discounts
+}
@@ -0,0 +1,5 @@
+export * from './promotions.controller';
+export * from './promotions.service';
+export * from './promotion-engine.service';
+export * from './promotions.module';
+export * from './dto';
@@ -0,0 +1,150 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { PromotionEngineService, PromotableLine } from './promotion-engine.service';
+import { PromotionsRepository, PromotionEntity } from '../../core/database/repositories/promotions.repository';
+import { CategoriesRepository } from '../../core/database/repositories/categories.repository';
+import { DbTransaction } from '../../core/database/repositories/base.repository';
+
+const promotion = (overrides: Partial<PromotionEntity> = {}): PromotionEntity => ({
+  id: 'promotion-1',
+  name: 'Ten percent off',
+  promotion_type: 'PERCENTAGE',
+  scope: 'ALL_PRODUCTS',
+  product_id: null,
+  category_id: null,
+  discount_value: '10.00',
+  buy_quantity: null,
+  get_quantity: null,
+  min_subtotal: null,
+  starts_at: null,
+  ends_at: null,
+  coupon_code: null,
+  usage_limit: null,
+  usage_count: 0,
+  is_active: true,
+  ...overrides,
+}) as PromotionEntity;
+
+const line = (productId: string, quantity: number, unitPrice: number, categoryId: string | null = null): PromotableLine => ({
+  product_id: productId,
+  category_id: categoryId,
+  quantity,
+  unit_price: unitPrice,
+  amount: quantity * unitPrice,
+});
+
+describe('PromotionEngineService', () => {
+  let service: PromotionEngineService;
+  let promotionsRepository: { findRunningPromotions: jest.Mock; findByCouponCode: jest.Mock; changeUsageCount: jest.Mock };
+  let categoriesRepository: { findDescendantIds: jest.Mock };
+
+  beforeEach(async () => {
+    promotionsRepository = {
+      findRunningPromotions: jest.fn().mockResolvedValue([]),
+      findByCouponCode: jest.fn(),
+      changeUsageCount: jest.fn().mockResolvedValue(true),
+    };
+    categoriesRepository = { findDescendantIds: jest.fn().mockResolvedValue([]) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PromotionEngineService,
+        { provide: PromotionsRepository, useValue: promotionsRepository },
+        { provide: CategoriesRepository, useValue: categoriesRepository },
+      ],
+    }).compile();
+
+    service = module.get<PromotionEngineService>(PromotionEngineService);
+  });
+
+  describe('evaluate', () => {
+    it('gives each line the single promotion that saves the most', async () => {
+      promotionsRepository.findRunningPromotions.mockResolvedValue([
+        promotion(),
+        promotion({ id: 'promotion-2', name: 'Half off coffee', scope: 'PRODUCT', product_id: 'coffee', discount_value: '50.00' }),
+      ]);
+
+      const result = await service.evaluate([line('coffee', 2, 5), line('tea', 1, 8)]);
+
+      expect(result.lines.map(entry => [entry.promotion_id, entry.discount])).toEqual([['promotion-2', 5], ['promotion-1', 0.8]]);
+      expect(result.promotion_ids).toEqual(['promotion-2', 'promotion-1']);
+    });
+
+    it('applies category promotions to lines in subcategories', async () => {
+      promotionsRepository.findRunningPromotions.mockResolvedValue([
+        promotion({ scope: 'CATEGORY', category_id: 'drinks' }),
+      ]);
+      categoriesRepository.findDescendantIds.mockResolvedValue(['drinks', 'hot-drinks']);
+
+      const result = await service.evaluate([line('coffee', 1, 10, 'hot-drinks'), line('bread', 1, 10, 'bakery')]);
+
+      expect(result.lines.map(entry => entry.discount)).toEqual([1, 0]);
+      expect(categoriesRepository.findDescendantIds).toHaveBeenCalledWith('drinks');
+    });
+
+    it('gives away the free units of a buy X get Y promotion', async () => {
+      promotionsRepository.findRunningPromotions.mockResolvedValue([
+        promotion({ promotion_type: 'BUY_X_GET_Y', buy_quantity: 2, get_quantity: 1, discount_value: '100.00' }),
+      ]);
+
+      const result = await service.evaluate([line('coffee', 7, 3)]);
+
+      // Seven units make two full sets of three, so two are free
+      expect(result.lines[0].discount).toBe(6);
+    });
+
+    it('shares a fixed amount across the eligible lines so it adds up exactly', async () => {
+      promotionsRepository.findRunningPromotions.mockResolvedValue([
+        promotion({ promotion_type: 'FIXED_AMOUNT', discount_value: '10.00' }),
+      ]);
+
+      const result = await service.evaluate([line('a', 1, 10), line('b', 1, 10), line('c', 1, 10)]);
+
+      expect(result.lines.map(entry => entry.discount)).toEqual([3.33, 3.33, 3.34]);
+    });
+
+    it('leaves out promotions that have used up their limit, unless the invoice already counts against it', async () => {
+      promotionsRepository.findRunningPromotions.mockResolvedValue([promotion({ usage_limit: 5, usage_count: 5 })]);
+
+      await expect(service.evaluate([line('coffee', 1, 10)])).resolves.toMatchObject({ promotion_ids: [] });
+      await expect(service.evaluate([line('coffee', 1, 10)], null, { redeemed: ['promotion-1'] }))
+        .resolves.toMatchObject({ promotion_ids: ['promotion-1'] });
+    });
+
+    it('rejects a used-up coupon in strict mode and ignores it otherwise', async () => {
+      promotionsRepository.findByCouponCode.mockResolvedValue(promotion({ coupon_code: 'SAVE10', usage_limit: 1, usage_count: 1 }));
+
+      await expect(service.evaluate([line('coffee', 1, 10)], ' save10 ', { strict: true })).rejects.toThrow(BadRequestException);
+      await expect(service.evaluate([line('coffee', 1, 10)], 'SAVE10')).resolves.toMatchObject({ coupon_code: null });
+      expect(promotionsRepository.findByCouponCode).toHaveBeenCalledWith('SAVE10');
+    });
+
+    it('rejects a coupon below its minimum order in strict mode', async () => {
+      promotionsRepository.findByCouponCode.mockResolvedValue(promotion({ coupon_code: 'SAVE10', min_subtotal: '50.00' }));
+
+      await expect(service.evaluate([line('coffee', 4, 12)], 'SAVE10', { strict: true })).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('recordUsage', () => {
+    const tx = {} as DbTransaction;
+
+    it('takes one use of each promotion, in a fixed order', async () => {
+      await service.recordUsage(['promotion-b', 'promotion-a', 'promotion-b'], 1, tx);
+
+      expect(promotionsRepository.changeUsageCount.mock.calls).toEqual([['promotion-a', 1, tx], ['promotion-b', 1, tx]]);
+    });
+
+    it('rejects the invoice when a promotion has run out of uses', async () => {
+      promotionsRepository.changeUsageCount.mockResolvedValue(false);
+
+      await expect(service.recordUsage(['promotion-1'], 1, tx)).rejects.toThrow(BadRequestException);
+    });
+
+    it('releases uses without checking the limit', async () => {
+      promotionsRepository.changeUsageCount.mockResolvedValue(false);
+
+      await expect(service.recordUsage(['promotion-1'], -1, tx)).resolves.toBeUndefined();
+    });
+  });
+});
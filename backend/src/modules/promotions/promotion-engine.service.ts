@@ -0,0 +1,231 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { PromotionsRepository, PromotionEntity } from '../../core/database/repositories/promotions.repository';
+import { CategoriesRepository } from '../../core/database/repositories/categories.repository';
+import { DbTransaction } from '../../core/database/repositories/base.repository';
+import { MESSAGES } from '../../common/constants/string-const';
+
+export interface PromotableLine {
+  product_id: string;
+  category_id: string | null;
+  quantity: number;
+  unit_price: number;
+  amount: number; // quantity x unit price
+}
+
+export interface LinePromotion {
+  promotion_id: string | null;
+  promotion_name: string | null;
+  discount: number; // Priced like the line amount, so including tax for inclusive classes
+}
+
+export interface PromotionEvaluation {
+  lines: LinePromotion[];
+  coupon_code: string | null;
+  promotion_ids: string[]; // Promotions that discounted at least one line
+}
+
+export interface EvaluationOptions {
+  // Reject an unusable coupon instead of quietly dropping it
+  strict?: boolean;
+  // Promotions the invoice already counts against their usage limit
+  redeemed?: string[];
+  at?: Date;
+}
+
+const NO_PROMOTION: LinePromotion = { promotion_id: null, promotion_name: null, discount: 0 };
+
+/**
+ * Works out which promotions apply to a set of invoice lines. Promotions do not stack:
+ * each line gets the single promotion that saves the customer the most.
+ */
+@Injectable()
+export class PromotionEngineService {
+  private readonly logger = new Logger(PromotionEngineService.name);
+
+  constructor(
+    private readonly promotionsRepository: PromotionsRepository,
+    private readonly categoriesRepository: CategoriesRepository,
+  ) {}
+
+  async evaluate(lines: PromotableLine[], couponCode?: string | null, options: EvaluationOptions = {}): Promise<PromotionEvaluation> {
+    const at = options.at ?? new Date();
+    const redeemed = new Set(options.redeemed ?? []);
+    const orderAmount = lines.reduce((sum, line) => sum + line.amount, 0);
+
+    const coupon = couponCode
+      ? await this.resolveCoupon(couponCode.trim().toUpperCase(), orderAmount, at, redeemed, options.strict ?? false)
+      : null;
+
+    const candidates = (await this.promotionsRepository.findRunningPromotions(at, coupon?.coupon_code))
+      .filter(promotion => this.hasUsesLeft(promotion, redeemed))
+      .filter(promotion => promotion.min_subtotal === null || orderAmount >= parseFloat(promotion.min_subtotal));
+
+    const scopeCategories = await this.resolveScopeCategories(candidates);
+
+    const result = lines.map(() => ({ ...NO_PROMOTION }));
+    for (const promotion of candidates) {
+      const discounts = this.computeDiscounts(promotion, lines, scopeCategories);
+      discounts.forEach((discount, index) => {
+        if (discount > result[index].discount) {
+          result[index] = { promotion_id: promotion.id, promotion_name: promotion.name, discount };
+        }
+      });
+    }
+
+    const promotionIds = [...new Set(result.filter(line => line.promotion_id).map(line => line.promotion_id as string))];
+
+    let appliedCoupon = coupon?.coupon_code ?? null;
+    if (coupon && !promotionIds.includes(coupon.id)) {
+      if (options.strict) {
+        throw new BadRequestException(MESSAGES.COUPON_NOT_APPLICABLE);
+      }
+      appliedCoupon = null;
+    }
+
+    this.logger.log(`Applied ${promotionIds.length} promotions to ${lines.length} lines`);
+    return { lines: result, coupon_code: appliedCoupon, promotion_ids: promotionIds };
+  }
+
+  /**
+   * Counts an invoice against (or releases it from) the usage limit of each promotion it used.
+   * Rejects the invoice when a promotion has run out of uses since it was evaluated.
+   */
+  async recordUsage(promotionIds: string[], change: number, tx?: DbTransaction): Promise<void> {
+    // Sorted so concurrent checkouts lock promotion rows in the same order
+    for (const promotionId of [...new Set(promotionIds)].sort()) {
+      const changed = await this.promotionsRepository.changeUsageCount(promotionId, change, tx);
+      if (!changed && change > 0) {
+        // Another checkout took the last use after this one was evaluated
+        throw new BadRequestException(MESSAGES.PROMOTION_USAGE_LIMIT_REACHED);
+      }
+    }
+  }
+
+  //#region ==================== HELPERS ====================
+
+  /**
+   * Looks up the coupon and checks it can be redeemed now. Outside strict mode an
+   * unusable coupon is ignored so edits to an existing invoice still go through.
+   */
+  private async resolveCoupon(
+    couponCode: string,
+    orderAmount: number,
+    at: Date,
+    redeemed: Set<string>,
+    strict: boolean,
+  ): Promise<PromotionEntity | null> {
+    const reject = (message: string): null => {
+      if (strict) {
+        throw new BadRequestException(message);
+      }
+      this.logger.warn(`Ignoring coupon ${couponCode}: ${message}`);
+      return null;
+    };
+
+    const coupon = await this.promotionsRepository.findByCouponCode(couponCode);
+    if (!coupon) {
+      return reject(MESSAGES.COUPON_NOT_FOUND);
+    }
+    if (!coupon.is_active || (coupon.starts_at && coupon.starts_at > at) || (coupon.ends_at && coupon.ends_at < at)) {
+      return reject(MESSAGES.COUPON_NOT_ACTIVE);
+    }
+    if (!this.hasUsesLeft(coupon, redeemed)) {
+      return reject(MESSAGES.COUPON_USAGE_LIMIT_REACHED);
+    }
+    if (coupon.min_subtotal !== null && orderAmount < parseFloat(coupon.min_subtotal)) {
+      return reject(MESSAGES.COUPON_MINIMUM_NOT_MET);
+    }
+
+    return coupon;
+  }
+
+  /**
+   * Early check against the counter as read; recordUsage enforces the limit when the use is taken
+   */
+  private hasUsesLeft(promotion: PromotionEntity, redeemed: Set<string>): boolean {
+    return promotion.usage_limit === null
+      || redeemed.has(promotion.id)
+      || promotion.usage_count < promotion.usage_limit;
+  }
+
+  /**
+   * The categories each category-scoped promotion covers: its own and every subcategory below it
+   */
+  private async resolveScopeCategories(promotions: PromotionEntity[]): Promise<Map<string, Set<string>>> {
+    const scopeCategories = new Map<string, Set<string>>();
+    for (const promotion of promotions) {
+      if (promotion.scope === 'CATEGORY' && promotion.category_id && !scopeCategories.has(promotion.category_id)) {
+        scopeCategories.set(promotion.category_id, new Set(await this.categoriesRepository.findDescendantIds(promotion.category_id)));
+      }
+    }
+    return scopeCategories;
+  }
+
+  private appliesTo(promotion: PromotionEntity, line: PromotableLine, scopeCategories: Map<string, Set<string>>): boolean {
+    switch (promotion.scope) {
+      case 'PRODUCT':
+        return line.product_id === promotion.product_id;
+      case 'CATEGORY':
+        return line.category_id !== null
+          && promotion.category_id !== null
+          && (scopeCategories.get(promotion.category_id)?.has(line.category_id) ?? false);
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * The discount the promotion would give each line on its own, capped at the line amount
+   */
+  private computeDiscounts(promotion: PromotionEntity, lines: PromotableLine[], scopeCategories: Map<string, Set<string>>): number[] {
+    const value = parseFloat(promotion.discount_value);
+    const eligible = lines.map(line => this.appliesTo(promotion, line, scopeCategories) && line.amount > 0);
+
+    switch (promotion.promotion_type) {
+      case 'PERCENTAGE':
+        return lines.map((line, index) => eligible[index]
+          ? this.roundCurrency(line.amount * Math.min(value, 100) / 100)
+          : 0);
+
+      case 'BUY_X_GET_Y': {
+        const buy = promotion.buy_quantity ?? 0;
+        const get = promotion.get_quantity ?? 0;
+        if (buy < 1 || get < 1) {
+          return lines.map(() => 0);
+        }
+        return lines.map((line, index) => {
+          if (!eligible[index]) {
+            return 0;
+          }
+          const discountedUnits = Math.floor(line.quantity / (buy + get)) * get;
+          return this.roundCurrency(discountedUnits * line.unit_price * Math.min(value, 100) / 100);
+        });
+      }
+
+      case 'FIXED_AMOUNT': {
+        // One amount off the eligible lines together, shared in proportion to their amounts
+        const eligibleTotal = lines.reduce((sum, line, index) => eligible[index] ? sum + line.amount : sum, 0);
+        let remaining = this.roundCurrency(Math.min(value, eligibleTotal));
+        const lastEligible = eligible.lastIndexOf(true);
+
+        return lines.map((line, index) => {
+          if (!eligible[index] || eligibleTotal <= 0) {
+            return 0;
+          }
+          const share = index === lastEligible
+            ? remaining
+            : this.roundCurrency(Math.min(value, eligibleTotal) * line.amount / eligibleTotal);
+          remaining = this.roundCurrency(remaining - share);
+          return Math.min(share, line.amount);
+        });
+      }
+
+      default:
+        return lines.map(() => 0);
+    }
+  }
+
+  private roundCurrency(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,285 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Logger,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  DefaultValuePipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiConflictResponse,
+} from '@nestjs/swagger';
+import { PromotionsService } from './promotions.service';
+import {
+  CreatePromotionDto,
+  UpdatePromotionDto,
+  PromotionResponseDto,
+  PromotionListResponseDto,
+  PromotionFiltersDto,
+  EvaluatePromotionsDto,
+  PromotionEvaluationResponseDto,
+  PromotionSummaryQueryDto,
+  PromotionSummaryResponseDto,
+} from './dto';
+import { AuthGuard } from '../../common/guards/auth.guard';
+import { ManagerGuard } from '../../common/guards/manager.guard';
+import { StaffGuard } from '../../common/guards/staff.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { successResponse, createdResponse } from '../../common/helpers/api-response.helper';
+import { API_MESSAGES } from '../../common/constants/string-const';
+
+@ApiTags('Promotions')
+@Controller('promotions')
+@UseGuards(AuthGuard) // All endpoints require authentication
+@ApiBearerAuth()
+export class PromotionsController {
+  private readonly logger = new Logger(PromotionsController.name);
+
+  constructor(private readonly promotionsService: PromotionsService) {}
+
+  //#region ==================== CREATE OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Create a new promotion',
+    description: 'Create a percentage, fixed amount or buy-X-get-Y promotion, optionally limited to a product or category, a time window or a coupon code. Requires MANAGER or ADMIN role.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Promotion created successfully',
+    type: PromotionResponseDto,
+  })
+  @ApiConflictResponse({ description: 'Coupon code already exists' })
+  @ApiBadRequestResponse({ description: 'Invalid input data' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async createPromotion(
+    @Body() createPromotionDto: CreatePromotionDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Creating promotion: ${createPromotionDto.name} by user: ${userId}`);
+
+    const promotion = await this.promotionsService.createPromotion(createPromotionDto, userId);
+
+    this.logger.log(`Promotion created successfully: ${promotion.id}`);
+    return createdResponse(promotion, API_MESSAGES.PROMOTION_CREATED);
+  }
+
+  @ApiOperation({
+    summary: 'Evaluate promotions for a cart',
+    description: 'Work out the promotion discount on each cart line, including a coupon code if given, exactly as the invoice will. Requires STAFF role or above.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Promotions evaluated successfully',
+    type: PromotionEvaluationResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Coupon code cannot be redeemed for this cart' })
+  @ApiNotFoundResponse({ description: 'Product not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Post('evaluate')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  async evaluatePromotions(@Body() evaluateDto: EvaluatePromotionsDto) {
+    this.logger.log(`Evaluating promotions for ${evaluateDto.items.length} cart lines`);
+
+    const evaluation = await this.promotionsService.evaluateCart(evaluateDto);
+
+    return successResponse(evaluation, API_MESSAGES.PROMOTIONS_EVALUATED);
+  }
+
+  //#region ==================== READ OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Get all promotions',
+    description: 'Retrieve a paginated list of promotions with optional filtering. Requires STAFF role or above.',
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (starting from 1)',
+    example: 1,
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Number of items per page (1-100)',
+    example: 10,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Promotions retrieved successfully',
+    type: PromotionListResponseDto,
+  })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get()
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  async findAllPromotions(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(10), ParseIntPipe) limit: number,
+    @Query() filters: PromotionFiltersDto,
+    @CurrentUser() user: any,
+  ) {
+    this.logger.log(`Finding promotions - page: ${page}, limit: ${limit}`);
+
+    // Validate pagination
+    if (page < 1) page = 1;
+    if (limit < 1) limit = 1;
+    if (limit > 100) limit = 100;
+
+    // Only admins can see deleted promotions
+    if (filters.withDeleted && user.role !== 'ADMIN') {
+      filters.withDeleted = false;
+    }
+
+    const result = await this.promotionsService.findAllPromotions(filters, page, limit);
+
+    this.logger.log(`Found ${result.data.length} promotions`);
+    return successResponse({
+      ...result,
+      limit,
+    }, API_MESSAGES.PROMOTIONS_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Get promotion summary report',
+    description: 'Discount given, units and sales per promotion for invoices in a period. Requires MANAGER or ADMIN role.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Promotion summary generated successfully',
+    type: PromotionSummaryResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid report period' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Get('reports/summary')
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async getPromotionSummary(@Query() query: PromotionSummaryQueryDto) {
+    this.logger.log(`Generating promotion summary: ${query.start_date ?? 'month start'} - ${query.end_date ?? 'today'}`);
+
+    const summary = await this.promotionsService.getPromotionSummary(query);
+
+    return successResponse(summary, API_MESSAGES.PROMOTION_SUMMARY_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Get promotion by ID',
+    description: 'Retrieve a specific promotion by its ID. Requires STAFF role or above.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Promotion UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Promotion retrieved successfully',
+    type: PromotionResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Promotion not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get(':id')
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  async findPromotionById(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`Finding promotion by ID: ${id}`);
+
+    const promotion = await this.promotionsService.findPromotionById(id);
+
+    return successResponse(promotion, API_MESSAGES.PROMOTION_FETCHED);
+  }
+
+  //#region ==================== UPDATE OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Update a promotion',
+    description: 'Update a promotion. Changes apply to invoices built afterwards. Requires MANAGER or ADMIN role.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Promotion UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Promotion updated successfully',
+    type: PromotionResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Promotion not found' })
+  @ApiConflictResponse({ description: 'Coupon code already exists' })
+  @ApiBadRequestResponse({ description: 'Invalid input data' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Patch(':id')
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async updatePromotion(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updatePromotionDto: UpdatePromotionDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Updating promotion: ${id} by user: ${userId}`);
+
+    const promotion = await this.promotionsService.updatePromotion(id, updatePromotionDto, userId);
+
+    this.logger.log(`Promotion updated successfully: ${promotion.id}`);
+    return successResponse(promotion, API_MESSAGES.PROMOTION_UPDATED);
+  }
+
+  //#region ==================== DELETE OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Delete a promotion',
+    description: 'Soft delete a promotion. Invoices that used it keep their discounts. Requires MANAGER or ADMIN role.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Promotion UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Promotion deleted successfully',
+  })
+  @ApiNotFoundResponse({ description: 'Promotion not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Delete(':id')
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async deletePromotion(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Deleting promotion: ${id} by user: ${userId}`);
+
+    const result = await this.promotionsService.deletePromotion(id, userId);
+
+    this.logger.log(`Promotion deleted successfully: ${id}`);
+    return successResponse(result, result.message);
+  }
+}
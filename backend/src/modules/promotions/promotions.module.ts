@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { PromotionsController } from './promotions.controller';
+import { PromotionsService } from './promotions.service';
+import { PromotionEngineService } from './promotion-engine.service';
+import { DatabaseModule } from '../../core/database/database.module';
+import { SupabaseModule } from '../../core/supabase/supabase.module';
+
+@Module({
+  imports: [DatabaseModule, SupabaseModule],
+  controllers: [PromotionsController],
+  providers: [PromotionsService, PromotionEngineService],
+  exports: [PromotionsService, PromotionEngineService],
+})
+export class PromotionsModule {}
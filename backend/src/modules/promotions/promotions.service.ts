@@ -0,0 +1,322 @@
+import { Injectable, Logger, ConflictException, NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  PromotionsRepository,
+  PromotionEntity,
+  PromotionType,
+  PromotionScope,
+} from '../../core/database/repositories/promotions.repository';
+import { ProductsRepository } from '../../core/database/repositories/products.repository';
+import { CategoriesRepository } from '../../core/database/repositories/categories.repository';
+import { PromotionEngineService, PromotableLine } from './promotion-engine.service';
+import {
+  CreatePromotionDto,
+  UpdatePromotionDto,
+  PromotionFiltersDto,
+  EvaluatePromotionsDto,
+  PromotionEvaluationResponseDto,
+  PromotionSummaryQueryDto,
+  PromotionSummaryResponseDto,
+} from './dto';
+import { MESSAGES, API_MESSAGES } from '../../common/constants/string-const';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface PromotionRules {
+  promotion_type: PromotionType;
+  scope: PromotionScope;
+  product_id: string | null;
+  category_id: string | null;
+  discount_value: number;
+  buy_quantity: number | null;
+  get_quantity: number | null;
+  starts_at: Date | null;
+  ends_at: Date | null;
+}
+
+@Injectable()
+export class PromotionsService {
+  private readonly logger = new Logger(PromotionsService.name);
+
+  constructor(
+    private readonly promotionsRepository: PromotionsRepository,
+    private readonly productsRepository: ProductsRepository,
+    private readonly categoriesRepository: CategoriesRepository,
+    private readonly promotionEngine: PromotionEngineService,
+  ) {}
+
+  //#region ==================== CRUD OPERATIONS ====================
+
+  async createPromotion(createPromotionDto: CreatePromotionDto, userId: string): Promise<PromotionEntity> {
+    this.logger.log(`Creating promotion: ${createPromotionDto.name} by user: ${userId}`);
+
+    if (createPromotionDto.coupon_code) {
+      await this.assertCouponCodeAvailable(createPromotionDto.coupon_code);
+    }
+
+    const startsAt = createPromotionDto.starts_at ? new Date(createPromotionDto.starts_at) : null;
+    const endsAt = createPromotionDto.ends_at ? new Date(createPromotionDto.ends_at) : null;
+
+    await this.validateRules({
+      promotion_type: createPromotionDto.promotion_type,
+      scope: createPromotionDto.scope ?? 'ALL_PRODUCTS',
+      product_id: createPromotionDto.product_id ?? null,
+      category_id: createPromotionDto.category_id ?? null,
+      discount_value: createPromotionDto.discount_value,
+      buy_quantity: createPromotionDto.buy_quantity ?? null,
+      get_quantity: createPromotionDto.get_quantity ?? null,
+      starts_at: startsAt,
+      ends_at: endsAt,
+    });
+
+    try {
+      const promotion = await this.promotionsRepository.create({
+        ...createPromotionDto,
+        starts_at: startsAt,
+        ends_at: endsAt,
+        created_by: userId,
+      });
+
+      this.logger.log(`Promotion created successfully: ${promotion.name} (ID: ${promotion.id})`);
+      return promotion;
+    } catch (error) {
+      this.logger.error(`Failed to create promotion: ${createPromotionDto.name}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findAllPromotions(
+    filters: PromotionFiltersDto = {},
+    page = 1,
+    limit = 10,
+  ): Promise<{
+    data: PromotionEntity[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    this.logger.log(`Finding promotions with filters:`, filters);
+
+    try {
+      const result = await this.promotionsRepository.findAll(filters, page, limit);
+
+      this.logger.log(`Found ${result.data.length} promotions out of ${result.total} total`);
+      return result;
+    } catch (error) {
+      this.logger.error('Failed to find promotions', error.stack);
+      throw error;
+    }
+  }
+
+  async findPromotionById(id: string): Promise<PromotionEntity> {
+    this.logger.log(`Finding promotion by ID: ${id}`);
+
+    const promotion = await this.promotionsRepository.findById(id);
+    if (!promotion) {
+      this.logger.warn(`Promotion not found with ID: ${id}`);
+      throw new NotFoundException(MESSAGES.PROMOTION_NOT_FOUND);
+    }
+
+    return promotion;
+  }
+
+  async updatePromotion(id: string, updatePromotionDto: UpdatePromotionDto, userId: string): Promise<PromotionEntity> {
+    this.logger.log(`Updating promotion: ${id} by user: ${userId}`);
+
+    // First verify the promotion exists
+    const existingPromotion = await this.findPromotionById(id);
+
+    if (updatePromotionDto.coupon_code && updatePromotionDto.coupon_code !== existingPromotion.coupon_code) {
+      await this.assertCouponCodeAvailable(updatePromotionDto.coupon_code, id);
+    }
+
+    const startsAt = updatePromotionDto.starts_at !== undefined
+      ? (updatePromotionDto.starts_at ? new Date(updatePromotionDto.starts_at) : null)
+      : existingPromotion.starts_at;
+    const endsAt = updatePromotionDto.ends_at !== undefined
+      ? (updatePromotionDto.ends_at ? new Date(updatePromotionDto.ends_at) : null)
+      : existingPromotion.ends_at;
+
+    // Validate the promotion as it will be after the update
+    await this.validateRules({
+      promotion_type: updatePromotionDto.promotion_type ?? existingPromotion.promotion_type,
+      scope: updatePromotionDto.scope ?? existingPromotion.scope,
+      product_id: updatePromotionDto.product_id ?? existingPromotion.product_id,
+      category_id: updatePromotionDto.category_id ?? existingPromotion.category_id,
+      discount_value: updatePromotionDto.discount_value ?? parseFloat(existingPromotion.discount_value),
+      buy_quantity: updatePromotionDto.buy_quantity ?? existingPromotion.buy_quantity,
+      get_quantity: updatePromotionDto.get_quantity ?? existingPromotion.get_quantity,
+      starts_at: startsAt,
+      ends_at: endsAt,
+    });
+
+    try {
+      const updatedPromotion = await this.promotionsRepository.update(id, {
+        ...updatePromotionDto,
+        starts_at: startsAt,
+        ends_at: endsAt,
+        updated_by: userId,
+      });
+
+      this.logger.log(`Promotion updated successfully: ${updatedPromotion.name} (ID: ${id})`);
+      return updatedPromotion;
+    } catch (error) {
+      this.logger.error(`Failed to update promotion: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  async deletePromotion(id: string, userId: string): Promise<{ message: string }> {
+    this.logger.log(`Soft deleting promotion: ${id} by user: ${userId}`);
+
+    await this.findPromotionById(id);
+
+    try {
+      const success = await this.promotionsRepository.delete(id, userId);
+      if (!success) {
+        this.logger.error(`Failed to delete promotion: ${id}`);
+        throw new Error('Failed to delete promotion');
+      }
+
+      this.logger.log(`Promotion soft deleted successfully: ${id}`);
+      return { message: API_MESSAGES.PROMOTION_DELETED };
+    } catch (error) {
+      this.logger.error(`Failed to delete promotion: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== PRICING OPERATIONS ====================
+
+  /**
+   * Prices a cart the way the invoice will be priced, so the till can show the
+   * discounts before the sale is completed
+   */
+  async evaluateCart(evaluateDto: EvaluatePromotionsDto): Promise<PromotionEvaluationResponseDto> {
+    this.logger.log(`Evaluating promotions for ${evaluateDto.items.length} cart lines`);
+
+    const lines: PromotableLine[] = [];
+    for (const item of evaluateDto.items) {
+      const product = await this.productsRepository.findById(item.product_id);
+      if (!product) {
+        throw new NotFoundException(MESSAGES.PRODUCT_NOT_FOUND);
+      }
+      const unitPrice = item.unit_price ?? parseFloat(product.unit_price);
+      lines.push({
+        product_id: product.id,
+        category_id: product.category_id,
+        quantity: item.quantity,
+        unit_price: unitPrice,
+        amount: this.roundCurrency(item.quantity * unitPrice),
+      });
+    }
+
+    const evaluation = await this.promotionEngine.evaluate(lines, evaluateDto.coupon_code, { strict: true });
+
+    return {
+      lines: evaluation.lines.map((line, index) => ({
+        product_id: lines[index].product_id,
+        promotion_id: line.promotion_id,
+        promotion_name: line.promotion_name,
+        discount_amount: line.discount,
+      })),
+      coupon_code: evaluation.coupon_code,
+      discount_amount: this.roundCurrency(evaluation.lines.reduce((sum, line) => sum + line.discount, 0)),
+    };
+  }
+
+  //#region ==================== REPORT OPERATIONS ====================
+
+  /**
+   * Discount given and sales made under each promotion for a period
+   */
+  async getPromotionSummary(query: PromotionSummaryQueryDto = {}): Promise<PromotionSummaryResponseDto> {
+    const today = new Date().toISOString().slice(0, 10);
+    const startDate = query.start_date || `${today.slice(0, 8)}01`;
+    const endDate = query.end_date || today;
+
+    if (!ISO_DATE_PATTERN.test(startDate) || !ISO_DATE_PATTERN.test(endDate)
+      || isNaN(Date.parse(startDate)) || isNaN(Date.parse(endDate)) || startDate > endDate) {
+      throw new BadRequestException(MESSAGES.REPORT_RANGE_INVALID);
+    }
+
+    this.logger.log(`Generating promotion summary from ${startDate} to ${endDate}`);
+
+    // Invoices are timestamped, so the period runs up to the start of the day after the end date
+    const from = new Date(`${startDate}T00:00:00.000Z`);
+    const to = new Date(`${endDate}T00:00:00.000Z`);
+    to.setUTCDate(to.getUTCDate() + 1);
+
+    try {
+      const rows = await this.promotionsRepository.getPromotionSummary(from, to);
+      const promotions = rows.map(row => ({
+        promotion_id: row.promotion_id,
+        promotion_name: row.promotion_name,
+        coupon_code: row.coupon_code,
+        invoice_count: Number(row.invoice_count),
+        line_count: Number(row.line_count),
+        units_sold: Number(row.units_sold),
+        discount_amount: parseFloat(row.discount_amount),
+        sales_amount: parseFloat(row.sales_amount),
+      }));
+
+      return {
+        start_date: startDate,
+        end_date: endDate,
+        promotions,
+        total_discount: this.roundCurrency(promotions.reduce((sum, row) => sum + row.discount_amount, 0)),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to generate promotion summary from ${startDate} to ${endDate}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== VALIDATION HELPERS ====================
+
+  private async assertCouponCodeAvailable(couponCode: string, excludeId?: string): Promise<void> {
+    // Coupon codes stay unique across deleted promotions as well
+    const existingPromotion = await this.promotionsRepository.findByCouponCode(couponCode, true);
+    if (existingPromotion && existingPromotion.id !== excludeId) {
+      this.logger.warn(`Coupon code already exists: ${couponCode}`);
+      throw new ConflictException(MESSAGES.PROMOTION_COUPON_EXISTS);
+    }
+  }
+
+  private async validateRules(rules: PromotionRules): Promise<void> {
+    if (rules.scope === 'PRODUCT') {
+      if (!rules.product_id) {
+        throw new BadRequestException(MESSAGES.PROMOTION_TARGET_REQUIRED);
+      }
+      const product = await this.productsRepository.findById(rules.product_id);
+      if (!product) {
+        throw new BadRequestException(MESSAGES.PRODUCT_NOT_FOUND);
+      }
+    }
+
+    if (rules.scope === 'CATEGORY') {
+      if (!rules.category_id) {
+        throw new BadRequestException(MESSAGES.PROMOTION_TARGET_REQUIRED);
+      }
+      const category = await this.categoriesRepository.findById(rules.category_id);
+      if (!category) {
+        throw new BadRequestException(MESSAGES.CATEGORY_NOT_FOUND);
+      }
+    }
+
+    if (rules.promotion_type !== 'FIXED_AMOUNT' && rules.discount_value > 100) {
+      throw new BadRequestException(MESSAGES.PROMOTION_PERCENTAGE_INVALID);
+    }
+
+    if (rules.promotion_type === 'BUY_X_GET_Y' && (!rules.buy_quantity || !rules.get_quantity)) {
+      throw new BadRequestException(MESSAGES.PROMOTION_BUY_GET_REQUIRED);
+    }
+
+    if (rules.starts_at && rules.ends_at && rules.ends_at <= rules.starts_at) {
+      throw new BadRequestException(MESSAGES.PROMOTION_WINDOW_INVALID);
+    }
+  }
+
+  private roundCurrency(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -11,13 +11,22 @@ export class CreatePurchaseOrderItemDto {
   @IsNotEmpty({ message: 'Product ID is required' })
   product_id: string;
 
+  @ApiPropertyOptional({
+    description: "Unit the line is ordered in; defaults to the product's purchase unit",
+    example: 'CASE',
+  })
+  @IsOptional()
+  @IsString({ message: 'Unit code must be a string' })
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  unit_code?: string;
+
   @ApiProperty({
-    description: 'Quantity ordered',
+    description: 'Quantity ordered, in the line unit; fractions must come to whole base units',
     example: 100,
-    minimum: 1,
+    minimum: 0.001,
   })
-  @IsNumber({}, { message: 'Quantity ordered must be a number' })
-  @Min(1, { message: 'Quantity ordered must be at least 1' })
+  @IsNumber({ maxDecimalPlaces: 3 }, { message: 'Quantity ordered must be a number with max 3 decimal places' })
+  @Min(0.001, { message: 'Quantity ordered must be greater than 0' })
   @Type(() => Number)
   quantity_ordered: number;
 
@@ -34,7 +43,7 @@ export class CreatePurchaseOrderItemDto {
   quantity_received?: number;
 
   @ApiProperty({
-    description: 'Unit cost',
+    description: 'Cost of one line unit',
     example: 25.99,
     minimum: 0,
   })
@@ -102,7 +111,7 @@ export class CreatePurchaseOrderDto {
   expected_delivery_date?: string;
 
   @ApiPropertyOptional({
-    description: 'Total amount',
+    description: 'Total amount; when items are given it is calculated from the lines including tax',
     example: 2599.00,
     minimum: 0,
   })
@@ -0,0 +1,75 @@
+import { IsString, IsNotEmpty, IsOptional, IsInt, IsUUID, IsArray, IsNumber, IsDateString, ValidateNested, Min, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+
+export class ReorderDraftItemDto {
+  @ApiProperty({
+    description: 'Product ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID(4, { message: 'Product ID must be a valid UUID' })
+  @IsNotEmpty({ message: 'Product ID is required' })
+  product_id: string;
+
+  @ApiPropertyOptional({
+    description: 'Supplier to order from. Defaults to the suggested supplier.',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsUUID(4, { message: 'Supplier ID must be a valid UUID' })
+  supplier_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Quantity to order. Defaults to the suggested quantity.',
+    example: 40,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Quantity must be an integer' })
+  @Min(1, { message: 'Quantity must be at least 1' })
+  @Type(() => Number)
+  quantity?: number;
+
+  @ApiPropertyOptional({
+    description: 'Unit cost. Defaults to the product cost price or the last purchase cost.',
+    example: 25.99,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Unit cost must be a number with max 2 decimal places' })
+  @Min(0, { message: 'Unit cost cannot be negative' })
+  @Type(() => Number)
+  unit_cost?: number;
+}
+
+export class CreateReorderDraftsDto {
+  @ApiPropertyOptional({
+    description: 'Reviewed lines to order. When omitted, every current suggestion with a supplier is drafted.',
+    type: [ReorderDraftItemDto],
+  })
+  @IsOptional()
+  @IsArray({ message: 'Items must be an array' })
+  @ValidateNested({ each: true })
+  @Type(() => ReorderDraftItemDto)
+  items?: ReorderDraftItemDto[];
+
+  @ApiPropertyOptional({
+    description: 'Expected delivery date for the drafted orders',
+    example: '2024-01-25',
+    format: 'date',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'Expected delivery date must be a valid date string (YYYY-MM-DD)' })
+  expected_delivery_date?: string;
+
+  @ApiPropertyOptional({
+    description: 'Notes added to every drafted order',
+    example: 'Weekly restock',
+    maxLength: 1000,
+  })
+  @IsOptional()
+  @IsString({ message: 'Notes must be a string' })
+  @MaxLength(1000, { message: 'Notes cannot exceed 1000 characters' })
+  @Transform(({ value }) => value?.trim())
+  notes?: string;
+}
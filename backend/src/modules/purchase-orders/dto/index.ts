@@ -3,3 +3,7 @@ export * from './update-purchase-order.dto';
 export * from './purchase-order-response.dto';
 export * from './purchase-order-list-response.dto';
 export * from './purchase-order-filters.dto';
+export * from './receive-purchase-order.dto';
+export * from './purchase-order-receipt-response.dto';
+export * from './reorder-suggestion-response.dto';
+export * from './create-reorder-drafts.dto';
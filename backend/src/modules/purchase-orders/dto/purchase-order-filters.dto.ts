@@ -5,6 +5,7 @@ import { Transform, Type } from 'class-transformer';
 export enum PurchaseOrderStatus {
   PENDING = 'PENDING',
   CONFIRMED = 'CONFIRMED',
+  PARTIALLY_RECEIVED = 'PARTIALLY_RECEIVED',
   RECEIVED = 'RECEIVED',
   CANCELLED = 'CANCELLED',
 }
@@ -0,0 +1,80 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Transform } from 'class-transformer';
+
+export class PurchaseOrderReceiptItemResponseDto {
+  @ApiProperty({
+    description: 'Receipt item unique identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  id: string;
+
+  @ApiProperty({
+    description: 'Purchase order item ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  purchase_order_item_id: string;
+
+  @ApiProperty({
+    description: 'Product information',
+  })
+  @Expose()
+  product: {
+    id: string;
+    name: string;
+    sku: string;
+  };
+
+  @ApiProperty({
+    description: 'Quantity received in this delivery',
+    example: 25,
+  })
+  @Expose()
+  quantity_received: number;
+}
+
+export class PurchaseOrderReceiptResponseDto {
+  @ApiProperty({
+    description: 'Receipt unique identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  id: string;
+
+  @ApiProperty({
+    description: 'Purchase order ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  purchase_order_id: string;
+
+  @ApiProperty({
+    description: 'When the delivery was received',
+    example: '2024-01-20T09:15:00.000Z',
+  })
+  @Expose()
+  @Transform(({ value }) => value instanceof Date ? value.toISOString() : value)
+  received_at: Date;
+
+  @ApiPropertyOptional({
+    description: 'Delivery notes',
+    example: 'Second delivery, 2 boxes damaged',
+  })
+  @Expose()
+  notes?: string | null;
+
+  @ApiProperty({
+    description: 'Items received in this delivery',
+    type: [PurchaseOrderReceiptItemResponseDto],
+  })
+  @Expose()
+  items: PurchaseOrderReceiptItemResponseDto[];
+
+  @ApiProperty({
+    description: 'User who recorded the receipt',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  created_by: string;
+}
@@ -17,7 +17,7 @@ export class PurchaseOrderItemResponseDto {
   purchase_order_id: string;
 
   @ApiProperty({
-    description: 'Product information',
+    description: 'Product information; variant_options is set when the line is for a product variant',
   })
   @Expose()
   product: {
@@ -25,8 +25,24 @@ export class PurchaseOrderItemResponseDto {
     name: string;
     sku: string;
     unit_price: string;
+    variant_options: Record<string, string> | null;
+    base_unit: string;
   };
 
+  @ApiProperty({
+    description: 'Unit the line quantities and unit cost are in',
+    example: 'CASE',
+  })
+  @Expose()
+  unit_code: string;
+
+  @ApiProperty({
+    description: 'Base units in one line unit, as at the time the line was added',
+    example: 24,
+  })
+  @Expose()
+  unit_factor: number;
+
   @ApiProperty({
     description: 'Quantity ordered',
     example: 100,
@@ -41,6 +57,13 @@ export class PurchaseOrderItemResponseDto {
   @Expose()
   quantity_received: number;
 
+  @ApiProperty({
+    description: 'Quantity returned to the supplier',
+    example: 0,
+  })
+  @Expose()
+  quantity_returned: number;
+
   @ApiProperty({
     description: 'Unit cost',
     example: '29.99',
@@ -55,6 +78,41 @@ export class PurchaseOrderItemResponseDto {
   @Expose()
   total_cost: string;
 
+  @ApiPropertyOptional({
+    description: 'Tax class applied to this line',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  tax_class_id: string | null;
+
+  @ApiProperty({
+    description: 'Tax rate applied to this line (percent)',
+    example: '18.00',
+  })
+  @Expose()
+  tax_rate: string;
+
+  @ApiProperty({
+    description: 'Whether the line price already included the tax',
+    example: false,
+  })
+  @Expose()
+  tax_inclusive: boolean;
+
+  @ApiProperty({
+    description: 'Line amount net of tax and discount',
+    example: '2999.00',
+  })
+  @Expose()
+  taxable_amount: string;
+
+  @ApiProperty({
+    description: 'Tax charged on this line',
+    example: '539.82',
+  })
+  @Expose()
+  tax_amount: string;
+
   @ApiProperty({
     description: 'Creation timestamp',
     example: '2024-01-15T10:30:00.000Z',
@@ -119,6 +177,20 @@ export class PurchaseOrderResponseDto {
   @Expose()
   total_amount?: string | null;
 
+  @ApiProperty({
+    description: 'Tax included in the total, summed from the lines',
+    example: '539.82',
+  })
+  @Expose()
+  tax_amount: string;
+
+  @ApiProperty({
+    description: 'Amount credited through supplier returns',
+    example: '0.00',
+  })
+  @Expose()
+  returned_amount: string;
+
   @ApiPropertyOptional({
     description: 'Notes',
     example: 'Urgent order - needed for production',
@@ -0,0 +1,46 @@
+import { IsString, IsNotEmpty, IsOptional, IsNumber, IsUUID, IsArray, ValidateNested, Min, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+
+export class ReceivePurchaseOrderItemDto {
+  @ApiProperty({
+    description: 'Purchase order item ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID(4, { message: 'Purchase order item ID must be a valid UUID' })
+  @IsNotEmpty({ message: 'Purchase order item ID is required' })
+  purchase_order_item_id: string;
+
+  @ApiProperty({
+    description: "Quantity received in this delivery, in the order line's unit",
+    example: 25,
+    minimum: 0.001,
+  })
+  @IsNumber({ maxDecimalPlaces: 3 }, { message: 'Quantity received must be a number with max 3 decimal places' })
+  @Min(0.001, { message: 'Quantity received must be greater than 0' })
+  @Type(() => Number)
+  quantity_received: number;
+}
+
+export class ReceivePurchaseOrderDto {
+  @ApiPropertyOptional({
+    description: 'Items received in this delivery. When omitted, all outstanding quantities are received.',
+    type: [ReceivePurchaseOrderItemDto],
+  })
+  @IsOptional()
+  @IsArray({ message: 'Items must be an array' })
+  @ValidateNested({ each: true })
+  @Type(() => ReceivePurchaseOrderItemDto)
+  items?: ReceivePurchaseOrderItemDto[];
+
+  @ApiPropertyOptional({
+    description: 'Delivery notes',
+    example: 'Second delivery, 2 boxes damaged',
+    maxLength: 1000,
+  })
+  @IsOptional()
+  @IsString({ message: 'Notes must be a string' })
+  @MaxLength(1000, { message: 'Notes cannot exceed 1000 characters' })
+  @Transform(({ value }) => value?.trim())
+  notes?: string;
+}
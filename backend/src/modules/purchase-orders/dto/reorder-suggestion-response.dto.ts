@@ -0,0 +1,122 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ReorderSuggestionItemDto {
+  @ApiProperty({
+    description: 'Product ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  product_id: string;
+
+  @ApiProperty({
+    description: 'Product name',
+    example: 'iPhone 15 Pro',
+  })
+  product_name: string;
+
+  @ApiProperty({
+    description: 'Product SKU',
+    example: 'IPH15P-128-BLK',
+  })
+  product_sku: string;
+
+  @ApiProperty({
+    description: 'Unit the quantities and unit cost are in',
+    example: 'EA',
+  })
+  base_unit: string;
+
+  @ApiProperty({
+    description: 'Available quantity across all locations',
+    example: 4,
+  })
+  quantity_available: number;
+
+  @ApiProperty({
+    description: 'Quantity still outstanding on open purchase orders',
+    example: 0,
+  })
+  on_order: number;
+
+  @ApiProperty({
+    description: 'Stock level at which the product is reordered',
+    example: 10,
+  })
+  reorder_point: number;
+
+  @ApiProperty({
+    description: 'Stock level the reorder brings the product back up to',
+    example: 40,
+  })
+  target_stock_level: number;
+
+  @ApiProperty({
+    description: 'Suggested order quantity (target level minus available and on-order stock)',
+    example: 36,
+  })
+  suggested_quantity: number;
+
+  @ApiProperty({
+    description: 'Unit cost used for the estimate',
+    example: 25.99,
+  })
+  unit_cost: number;
+
+  @ApiProperty({
+    description: 'Estimated line cost',
+    example: 935.64,
+  })
+  estimated_cost: number;
+
+  @ApiPropertyOptional({
+    description: 'Whether the supplier comes from the product preference or the last purchase order',
+    enum: ['PREFERRED', 'LAST_PURCHASE'],
+    example: 'PREFERRED',
+  })
+  supplier_source?: 'PREFERRED' | 'LAST_PURCHASE';
+}
+
+export class ReorderSupplierGroupDto {
+  @ApiProperty({
+    description: 'Supplier ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  supplier_id: string;
+
+  @ApiProperty({
+    description: 'Supplier name',
+    example: 'Apple Distribution Inc.',
+  })
+  supplier_name: string;
+
+  @ApiProperty({
+    description: 'Whether the supplier is active and can receive new orders',
+    example: true,
+  })
+  supplier_active: boolean;
+
+  @ApiProperty({
+    description: 'Suggested lines for this supplier',
+    type: [ReorderSuggestionItemDto],
+  })
+  items: ReorderSuggestionItemDto[];
+
+  @ApiProperty({
+    description: 'Estimated order total',
+    example: 935.64,
+  })
+  estimated_total: number;
+}
+
+export class ReorderSuggestionsResponseDto {
+  @ApiProperty({
+    description: 'Suggestions grouped by supplier',
+    type: [ReorderSupplierGroupDto],
+  })
+  groups: ReorderSupplierGroupDto[];
+
+  @ApiProperty({
+    description: 'Suggestions for products with no preferred or previous supplier',
+    type: [ReorderSuggestionItemDto],
+  })
+  unassigned: ReorderSuggestionItemDto[];
+}
@@ -1,4 +1,5 @@
 export * from './purchase-orders.service';
+export * from './reorder.service';
 export * from './purchase-orders.controller';
 export * from './purchase-orders.module';
 export * from './dto';
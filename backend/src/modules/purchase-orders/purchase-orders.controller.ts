@@ -14,6 +14,7 @@ import {
   ParseIntPipe,
   ParseUUIDPipe,
   DefaultValuePipe,
+  StreamableFile,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -27,8 +28,12 @@ import {
   ApiBadRequestResponse,
   ApiNotFoundResponse,
   ApiConflictResponse,
+  ApiProduces,
 } from '@nestjs/swagger';
 import { PurchaseOrdersService } from './purchase-orders.service';
+import { ReorderService } from './reorder.service';
+import { DocumentsService } from '../documents/documents.service';
+import { ExportFormat, parseExportFormat } from '../documents/tabular-export';
 import { 
   CreatePurchaseOrderDto, 
   UpdatePurchaseOrderDto, 
@@ -36,7 +41,11 @@ import {
   PurchaseOrderListResponseDto,
   PurchaseOrderFiltersDto,
   CreatePurchaseOrderItemDto,
-  UpdatePurchaseOrderItemDto
+  UpdatePurchaseOrderItemDto,
+  ReceivePurchaseOrderDto,
+  PurchaseOrderReceiptResponseDto,
+  ReorderSuggestionsResponseDto,
+  CreateReorderDraftsDto
 } from './dto';
 import { AuthGuard } from '../../common/guards/auth.guard';
 import { ManagerGuard } from '../../common/guards/manager.guard';
@@ -52,7 +61,11 @@ import { API_MESSAGES } from '../../common/constants/string-const';
 export class PurchaseOrdersController {
   private readonly logger = new Logger(PurchaseOrdersController.name);
 
-  constructor(private readonly purchaseOrdersService: PurchaseOrdersService) {}
+  constructor(
+    private readonly purchaseOrdersService: PurchaseOrdersService,
+    private readonly reorderService: ReorderService,
+    private readonly documentsService: DocumentsService,
+  ) {}
 
   //#region ==================== CREATE OPERATIONS ====================
 
@@ -136,6 +149,36 @@ export class PurchaseOrdersController {
     }, API_MESSAGES.PURCHASE_ORDERS_FETCHED);
   }
 
+  @ApiOperation({
+    summary: 'Export purchase orders',
+    description: 'Stream every purchase order matching the same filters as GET /purchase-orders as CSV, XLSX or JSON. Requires STAFF role or above.',
+  })
+  @ApiQuery({ name: 'format', required: false, enum: ExportFormat, description: 'File format (defaults to csv)' })
+  @ApiQuery({ name: 'supplier_id', required: false, type: String, description: 'Filter by supplier ID' })
+  @ApiQuery({ name: 'status', required: false, type: String, description: 'Filter by status' })
+  @ApiQuery({ name: 'order_number', required: false, type: String, description: 'Filter by order number (partial match)' })
+  @ApiQuery({ name: 'order_date_from', required: false, type: String, description: 'Filter by order date from (YYYY-MM-DD)' })
+  @ApiQuery({ name: 'order_date_to', required: false, type: String, description: 'Filter by order date to (YYYY-MM-DD)' })
+  @ApiQuery({ name: 'withDeleted', required: false, type: Boolean, description: 'Include soft deleted orders (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Export file streamed' })
+  @ApiBadRequestResponse({ description: 'Unsupported export format' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get('export')
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  exportPurchaseOrders(
+    @Query() filters: PurchaseOrderFiltersDto,
+    @Query('format') format: string | undefined,
+    @CurrentUser() user: any,
+  ): StreamableFile {
+    const exportFormat = parseExportFormat(format);
+
+    // Only admins can see deleted orders
+    filters.withDeleted = String(filters.withDeleted) === 'true' && user.role === 'ADMIN';
+
+    return this.purchaseOrdersService.exportPurchaseOrders(filters, exportFormat);
+  }
+
   @ApiOperation({
     summary: 'Get purchase order by ID',
     description: 'Retrieve a specific purchase order with all details by ID. Requires STAFF role or above.',
@@ -242,7 +285,9 @@ export class PurchaseOrdersController {
 
   @ApiOperation({
     summary: 'Receive a purchase order',
-    description: 'Mark a purchase order as received and update stock levels. Requires MANAGER or ADMIN role.',
+    description: 'Record a delivery against a purchase order and add the received quantities to stock. ' +
+      'Omit items to receive everything outstanding. The order stays PARTIALLY_RECEIVED until every line is fully received. ' +
+      'Requires MANAGER or ADMIN role.',
   })
   @ApiParam({
     name: 'id',
@@ -251,24 +296,54 @@ export class PurchaseOrdersController {
   })
   @ApiResponse({
     status: 200,
-    description: 'Purchase order received successfully',
+    description: 'Purchase order receipt recorded successfully',
+    type: PurchaseOrderResponseDto,
   })
-  @ApiNotFoundResponse({ description: 'Purchase order not found' })
-  @ApiBadRequestResponse({ description: 'Purchase order cannot be received' })
+  @ApiNotFoundResponse({ description: 'Purchase order or item not found' })
+  @ApiBadRequestResponse({ description: 'Purchase order cannot be received or quantity exceeds outstanding' })
   @ApiUnauthorizedResponse({ description: 'Authentication required' })
   @ApiForbiddenResponse({ description: 'Manager role required' })
   @Post(':id/receive')
   @UseGuards(ManagerGuard)
   async receivePurchaseOrder(
     @Param('id', ParseUUIDPipe) id: string,
+    @Body() receivePurchaseOrderDto: ReceivePurchaseOrderDto,
     @CurrentUser('id') userId: string,
   ) {
     this.logger.log(`Receiving purchase order: ${id} by user: ${userId}`);
     
-    const purchaseOrder = await this.purchaseOrdersService.receivePurchaseOrder(id, userId);
+    const purchaseOrder = await this.purchaseOrdersService.receivePurchaseOrder(id, receivePurchaseOrderDto, userId);
     
-    this.logger.log(`Purchase order received successfully: ${purchaseOrder.id}`);
-    return successResponse(purchaseOrder, 'Purchase order received successfully');
+    this.logger.log(`Purchase order receipt recorded: ${purchaseOrder.id} (status: ${purchaseOrder.status})`);
+    return successResponse(purchaseOrder, API_MESSAGES.PURCHASE_ORDER_RECEIVED);
+  }
+
+  @ApiOperation({
+    summary: 'Get purchase order receipt history',
+    description: 'Retrieve every delivery recorded against a purchase order, newest first. Requires STAFF role or above.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Purchase order UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Purchase order receipts retrieved successfully',
+    type: [PurchaseOrderReceiptResponseDto],
+  })
+  @ApiNotFoundResponse({ description: 'Purchase order not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get(':id/receipts')
+  @UseGuards(StaffGuard)
+  async findPurchaseOrderReceipts(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`Finding receipts for purchase order: ${id}`);
+
+    const receipts = await this.purchaseOrdersService.findPurchaseOrderReceipts(id);
+
+    this.logger.log(`Found ${receipts.length} receipts for purchase order: ${id}`);
+    return successResponse(receipts, API_MESSAGES.PURCHASE_ORDER_RECEIPTS_FETCHED);
   }
 
   //#region ==================== DELETE OPERATIONS ====================
@@ -400,6 +475,95 @@ export class PurchaseOrdersController {
     return successResponse(result, result.message);
   }
 
+  //#region ==================== REORDERING ====================
+
+  @ApiOperation({
+    summary: 'Get reorder suggestions',
+    description: 'List products at or below their reorder point, grouped by preferred (or last used) supplier, with suggested quantities to reach the target stock level. Requires STAFF role or above.',
+  })
+  @ApiQuery({ name: 'supplier_id', required: false, type: String, description: 'Only suggestions for this supplier' })
+  @ApiQuery({ name: 'category_id', required: false, type: String, description: 'Only products in this category' })
+  @ApiResponse({
+    status: 200,
+    description: 'Reorder suggestions retrieved successfully',
+    type: ReorderSuggestionsResponseDto,
+  })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get('reorder/suggestions')
+  @UseGuards(StaffGuard)
+  async getReorderSuggestions(
+    @Query('supplier_id', new ParseUUIDPipe({ optional: true })) supplierId?: string,
+    @Query('category_id', new ParseUUIDPipe({ optional: true })) categoryId?: string,
+  ) {
+    this.logger.log('Getting reorder suggestions');
+
+    const suggestions = await this.reorderService.getSuggestions({ supplier_id: supplierId, category_id: categoryId });
+
+    return successResponse(suggestions, API_MESSAGES.REORDER_SUGGESTIONS_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Create draft purchase orders from reorder suggestions',
+    description: 'Create one PENDING purchase order per supplier from reviewed reorder lines, or from every current suggestion when no lines are given. Requires MANAGER or ADMIN role.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Draft purchase orders created successfully',
+    type: [PurchaseOrderResponseDto],
+  })
+  @ApiBadRequestResponse({ description: 'Nothing to reorder, missing supplier or inactive supplier' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Post('reorder/drafts')
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(ManagerGuard)
+  async createReorderDrafts(
+    @Body() createReorderDraftsDto: CreateReorderDraftsDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Creating reorder drafts by user: ${userId}`);
+
+    const orders = await this.reorderService.createDraftPurchaseOrders(createReorderDraftsDto, userId);
+
+    this.logger.log(`Created ${orders.length} draft purchase orders`);
+    return createdResponse(orders, API_MESSAGES.REORDER_DRAFTS_CREATED);
+  }
+
+  //#region ==================== DOCUMENTS ====================
+
+  @ApiOperation({
+    summary: 'Download a purchase order as PDF',
+    description: 'Render the purchase order with company header, supplier details, line items and totals. Requires STAFF role or above.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Purchase order UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiProduces('application/pdf')
+  @ApiResponse({
+    status: 200,
+    description: 'PDF document',
+  })
+  @ApiNotFoundResponse({ description: 'Purchase order not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get(':id/pdf')
+  @UseGuards(StaffGuard)
+  async downloadPurchaseOrderPdf(@Param('id', ParseUUIDPipe) id: string): Promise<StreamableFile> {
+    this.logger.log(`Rendering PDF for purchase order: ${id}`);
+
+    const purchaseOrder = await this.purchaseOrdersService.findPurchaseOrderById(id);
+    const pdf = this.documentsService.renderPurchaseOrderPdf(purchaseOrder);
+
+    return new StreamableFile(pdf, {
+      type: 'application/pdf',
+      disposition: `attachment; filename="${purchaseOrder.order_number.replace(/[^\w.-]/g, '_')}.pdf"`,
+      length: pdf.length,
+    });
+  }
+
   //#region ==================== STATISTICS ====================
 
   @ApiOperation({
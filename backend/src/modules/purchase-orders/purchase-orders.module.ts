@@ -1,14 +1,18 @@
 import { Module } from '@nestjs/common';
 import { PurchaseOrdersService } from './purchase-orders.service';
+import { ReorderService } from './reorder.service';
 import { PurchaseOrdersController } from './purchase-orders.controller';
 import { DatabaseModule } from '../../core/database/database.module';
 import { SupabaseModule } from '../../core/supabase/supabase.module';
 import { SuppliersModule } from '../suppliers/suppliers.module';
+import { StockModule } from '../stock/stock.module';
+import { DocumentsModule } from '../documents/documents.module';
+import { TaxesModule } from '../taxes/taxes.module';
 
 @Module({
-  imports: [DatabaseModule, SupabaseModule, SuppliersModule],
+  imports: [DatabaseModule, SupabaseModule, SuppliersModule, StockModule, DocumentsModule, TaxesModule],
   controllers: [PurchaseOrdersController],
-  providers: [PurchaseOrdersService],
-  exports: [PurchaseOrdersService],
+  providers: [PurchaseOrdersService, ReorderService],
+  exports: [PurchaseOrdersService, ReorderService],
 })
 export class PurchaseOrdersModule {}
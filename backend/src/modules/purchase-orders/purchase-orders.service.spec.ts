@@ -0,0 +1,140 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { PurchaseOrdersService } from './purchase-orders.service';
+import { PurchaseOrdersRepository, PurchaseOrderWithDetails } from '../../core/database/repositories/purchase-orders.repository';
+import { ProductsRepository } from '../../core/database/repositories/products.repository';
+import { DbTransaction } from '../../core/database/repositories/base.repository';
+import { DrizzleService } from '../../core/database/drizzle.service';
+import { SuppliersService } from '../suppliers/suppliers.service';
+import { StockService } from '../stock/stock.service';
+import { UnitsOfMeasureService } from '../stock/units-of-measure.service';
+import { TaxService } from '../taxes/tax.service';
+import { StockTransactionType, StockReferenceType } from '../stock/dto';
+
+const tx = {} as DbTransaction;
+
+const orderItem = (id: string, quantityOrdered: number, quantityReceived = 0) => ({
+  id,
+  product_id: `product-${id}`,
+  product: { name: `Product ${id}` },
+  quantity_ordered: quantityOrdered,
+  quantity_received: quantityReceived,
+  unit_code: 'BOX',
+  unit_factor: 12,
+  unit_cost: '24.00',
+  taxable_amount: (quantityOrdered * 24).toFixed(2),
+});
+
+const order = (status = 'CONFIRMED', items = [orderItem('a', 5), orderItem('b', 2)]): PurchaseOrderWithDetails => ({
+  id: 'order-1',
+  order_number: 'PO-0001',
+  status,
+  items,
+}) as unknown as PurchaseOrderWithDetails;
+
+describe('PurchaseOrdersService', () => {
+  let service: PurchaseOrdersService;
+  let purchaseOrdersRepository: Record<string, jest.Mock>;
+  let stockService: { createTransaction: jest.Mock };
+
+  beforeEach(async () => {
+    purchaseOrdersRepository = {
+      lockPurchaseOrder: jest.fn().mockResolvedValue({}),
+      lockPurchaseOrderItems: jest.fn().mockResolvedValue([]),
+      findPurchaseOrderWithDetails: jest.fn().mockResolvedValue(order()),
+      createPurchaseOrderReceipt: jest.fn().mockResolvedValue({ id: 'receipt-1' }),
+      addPurchaseOrderReceiptItem: jest.fn().mockResolvedValue({}),
+      updatePurchaseOrderItem: jest.fn().mockResolvedValue({}),
+      updatePurchaseOrder: jest.fn().mockResolvedValue({}),
+    };
+    stockService = { createTransaction: jest.fn().mockResolvedValue({}) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PurchaseOrdersService,
+        UnitsOfMeasureService,
+        { provide: PurchaseOrdersRepository, useValue: purchaseOrdersRepository },
+        { provide: SuppliersService, useValue: {} },
+        { provide: StockService, useValue: stockService },
+        { provide: ProductsRepository, useValue: {} },
+        { provide: TaxService, useValue: {} },
+        {
+          provide: DrizzleService,
+          useValue: {
+            transaction: (work: (tx: DbTransaction) => Promise<unknown>) => work(tx),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PurchaseOrdersService>(PurchaseOrdersService);
+  });
+
+  describe('receivePurchaseOrder', () => {
+    it('receives everything outstanding when no lines are given and closes the order', async () => {
+      purchaseOrdersRepository.findPurchaseOrderWithDetails.mockResolvedValue(order('PARTIALLY_RECEIVED', [
+        orderItem('a', 5, 3),
+        orderItem('b', 2, 2),
+      ]));
+
+      await service.receivePurchaseOrder('order-1', {}, 'user-1');
+
+      expect(purchaseOrdersRepository.addPurchaseOrderReceiptItem).toHaveBeenCalledTimes(1);
+      expect(purchaseOrdersRepository.updatePurchaseOrderItem)
+        .toHaveBeenCalledWith('a', expect.objectContaining({ quantity_received: 5 }), tx);
+      expect(purchaseOrdersRepository.updatePurchaseOrder)
+        .toHaveBeenCalledWith('order-1', expect.objectContaining({ status: 'RECEIVED' }), tx);
+    });
+
+    it('adds a partial delivery to stock in base units at the line cost', async () => {
+      await service.receivePurchaseOrder('order-1', {
+        items: [{ purchase_order_item_id: 'a', quantity_received: 2 }],
+      }, 'user-1');
+
+      expect(stockService.createTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          product_id: 'product-a',
+          transaction_type: StockTransactionType.IN,
+          quantity: 24,
+          reference_type: StockReferenceType.PURCHASE,
+          unit_cost: 2,
+        }),
+        { purchase_order_item_id: 'a' },
+        tx,
+      );
+      expect(purchaseOrdersRepository.updatePurchaseOrder)
+        .toHaveBeenCalledWith('order-1', expect.objectContaining({ status: 'PARTIALLY_RECEIVED' }), tx);
+    });
+
+    it('rejects receiving more than is outstanding, across repeated lines', async () => {
+      await expect(service.receivePurchaseOrder('order-1', {
+        items: [
+          { purchase_order_item_id: 'b', quantity_received: 1 },
+          { purchase_order_item_id: 'b', quantity_received: 1.5 },
+        ],
+      }, 'user-1')).rejects.toThrow(BadRequestException);
+      expect(purchaseOrdersRepository.createPurchaseOrderReceipt).not.toHaveBeenCalled();
+    });
+
+    it('rejects lines that are not on the order', async () => {
+      await expect(service.receivePurchaseOrder('order-1', {
+        items: [{ purchase_order_item_id: 'c', quantity_received: 1 }],
+      }, 'user-1')).rejects.toThrow(NotFoundException);
+    });
+
+    it('rejects orders that are not confirmed or already received', async () => {
+      purchaseOrdersRepository.findPurchaseOrderWithDetails.mockResolvedValueOnce(order('DRAFT'));
+      await expect(service.receivePurchaseOrder('order-1', {}, 'user-1')).rejects.toThrow(BadRequestException);
+
+      purchaseOrdersRepository.findPurchaseOrderWithDetails.mockResolvedValueOnce(order('PARTIALLY_RECEIVED', [orderItem('a', 5, 5)]));
+      await expect(service.receivePurchaseOrder('order-1', {}, 'user-1')).rejects.toThrow(BadRequestException);
+    });
+
+    it('rejects quantities that do not come to whole base units', async () => {
+      await expect(service.receivePurchaseOrder('order-1', {
+        items: [{ purchase_order_item_id: 'a', quantity_received: 0.01 }],
+      }, 'user-1')).rejects.toThrow(BadRequestException);
+      expect(stockService.createTransaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,14 +1,40 @@
-import { Injectable, Logger, ConflictException, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Injectable, Logger, ConflictException, NotFoundException, BadRequestException, StreamableFile } from '@nestjs/common';
 import { 
   PurchaseOrdersRepository, 
   PurchaseOrderEntity, 
   PurchaseOrderWithDetails, 
-  PurchaseOrderItemEntity 
+  PurchaseOrderItemEntity,
+  PurchaseOrderReceiptWithItems
 } from '../../core/database/repositories/purchase-orders.repository';
+import { ProductsRepository } from '../../core/database/repositories/products.repository';
 import { SuppliersService } from '../suppliers/suppliers.service';
-import { CreatePurchaseOrderDto, UpdatePurchaseOrderDto, PurchaseOrderFiltersDto, CreatePurchaseOrderItemDto, UpdatePurchaseOrderItemDto } from './dto';
+import { DrizzleService } from '../../core/database/drizzle.service';
+import { StockService } from '../stock/stock.service';
+import { UnitsOfMeasureService, LineUnit } from '../stock/units-of-measure.service';
+import { TaxService, LineTaxClass } from '../taxes/tax.service';
+import { StockTransactionType, StockReferenceType } from '../stock/dto';
+import { CreatePurchaseOrderDto, UpdatePurchaseOrderDto, PurchaseOrderFiltersDto, CreatePurchaseOrderItemDto, UpdatePurchaseOrderItemDto, ReceivePurchaseOrderDto } from './dto';
+import { ExportColumn, ExportFormat, EXPORT_PAGE_SIZE, createExportFile } from '../documents/tabular-export';
 import { MESSAGES, API_MESSAGES } from '../../common/constants/string-const';
 
+// The list query leaves items out, so exports are one row per order
+type PurchaseOrderExportRow = Omit<PurchaseOrderWithDetails, 'items'>;
+
+const PURCHASE_ORDER_EXPORT_COLUMNS: ExportColumn<PurchaseOrderExportRow>[] = [
+  { header: 'ID', value: order => order.id },
+  { header: 'Order Number', value: order => order.order_number },
+  { header: 'Supplier', value: order => order.supplier.name },
+  { header: 'Supplier ID', value: order => order.supplier_id },
+  { header: 'Status', value: order => order.status },
+  { header: 'Order Date', value: order => order.order_date },
+  { header: 'Expected Delivery', value: order => order.expected_delivery_date },
+  { header: 'Total Amount', value: order => order.total_amount === null ? null : parseFloat(order.total_amount) },
+  { header: 'Tax Amount', value: order => parseFloat(order.tax_amount) },
+  { header: 'Returned Amount', value: order => parseFloat(order.returned_amount) },
+  { header: 'Notes', value: order => order.notes },
+  { header: 'Created At', value: order => order.created_at },
+];
+
 @Injectable()
 export class PurchaseOrdersService {
   private readonly logger = new Logger(PurchaseOrdersService.name);
@@ -16,6 +42,11 @@ export class PurchaseOrdersService {
   constructor(
     private readonly purchaseOrdersRepository: PurchaseOrdersRepository,
     private readonly suppliersService: SuppliersService,
+    private readonly stockService: StockService,
+    private readonly productsRepository: ProductsRepository,
+    private readonly taxService: TaxService,
+    private readonly unitsOfMeasureService: UnitsOfMeasureService,
+    private readonly drizzleService: DrizzleService,
   ) {}
 
   //#region ==================== PURCHASE ORDER OPERATIONS ====================
@@ -33,10 +64,22 @@ export class PurchaseOrdersService {
       throw new ConflictException(MESSAGES.PURCHASE_ORDER_NUMBER_EXISTS);
     }
 
+    // Work out each line's unit and its tax from the product's tax class
+    const items = createPurchaseOrderDto.items ?? [];
+    const itemLines: (LineTaxClass & LineUnit)[] = [];
+    for (const itemDto of items) {
+      itemLines.push(await this.resolveItemLine(itemDto.product_id, itemDto.unit_code, itemDto.quantity_ordered));
+    }
+    const lineTaxes = this.taxService.computeLineTaxes(
+      items.map((itemDto, index) => ({ ...itemLines[index], amount: itemDto.total_cost })),
+    );
+
     // Calculate total amount if not provided
     let totalAmount = createPurchaseOrderDto.total_amount;
-    if (createPurchaseOrderDto.items && createPurchaseOrderDto.items.length > 0) {
-      totalAmount = createPurchaseOrderDto.items.reduce((sum, item) => sum + item.total_cost, 0);
+    let taxAmount = 0;
+    if (items.length > 0) {
+      totalAmount = this.roundCurrency(lineTaxes.reduce((sum, lineTax) => sum + lineTax.taxable_amount + lineTax.tax_amount, 0));
+      taxAmount = this.roundCurrency(lineTaxes.reduce((sum, lineTax) => sum + lineTax.tax_amount, 0));
     }
 
     try {
@@ -48,23 +91,25 @@ export class PurchaseOrdersService {
         order_date: createPurchaseOrderDto.order_date ? new Date(createPurchaseOrderDto.order_date) : new Date(),
         expected_delivery_date: createPurchaseOrderDto.expected_delivery_date ? new Date(createPurchaseOrderDto.expected_delivery_date) : undefined,
         total_amount: totalAmount,
+        tax_amount: taxAmount,
         notes: createPurchaseOrderDto.notes,
         created_by: userId,
       });
 
       // Add items if provided
-      if (createPurchaseOrderDto.items && createPurchaseOrderDto.items.length > 0) {
-        for (const itemDto of createPurchaseOrderDto.items) {
-          await this.purchaseOrdersRepository.addPurchaseOrderItem({
-            purchase_order_id: purchaseOrder.id,
-            product_id: itemDto.product_id,
-            quantity_ordered: itemDto.quantity_ordered,
-            quantity_received: itemDto.quantity_received || 0,
-            unit_cost: itemDto.unit_cost,
-            total_cost: itemDto.total_cost,
-            created_by: userId,
-          });
-        }
+      for (const [index, itemDto] of items.entries()) {
+        await this.purchaseOrdersRepository.addPurchaseOrderItem({
+          purchase_order_id: purchaseOrder.id,
+          product_id: itemDto.product_id,
+          quantity_ordered: itemDto.quantity_ordered,
+          quantity_received: itemDto.quantity_received || 0,
+          unit_cost: itemDto.unit_cost,
+          total_cost: itemDto.total_cost,
+          ...itemLines[index],
+          taxable_amount: lineTaxes[index].taxable_amount,
+          tax_amount: lineTaxes[index].tax_amount,
+          created_by: userId,
+        });
       }
 
       // Return the complete purchase order with details
@@ -111,6 +156,31 @@ export class PurchaseOrdersService {
     }
   }
 
+  /**
+   * Streams every purchase order matching the list filters as a download
+   */
+  exportPurchaseOrders(filters: PurchaseOrderFiltersDto, format: ExportFormat): StreamableFile {
+    this.logger.log(`Exporting purchase orders as ${format}`, filters);
+    return createExportFile(format, 'purchase-orders', PURCHASE_ORDER_EXPORT_COLUMNS, this.findExportPages(filters));
+  }
+
+  private async *findExportPages(filters: PurchaseOrderFiltersDto): AsyncGenerator<PurchaseOrderExportRow[]> {
+    const processedFilters = {
+      ...filters,
+      order_date_from: filters.order_date_from ? new Date(filters.order_date_from) : undefined,
+      order_date_to: filters.order_date_to ? new Date(filters.order_date_to) : undefined,
+    };
+
+    for (let page = 1; ; page++) {
+      const result = await this.purchaseOrdersRepository.findAllPurchaseOrders(processedFilters, page, EXPORT_PAGE_SIZE);
+      yield result.data.map(({ items: _items, ...order }) => order);
+
+      if (page >= result.totalPages) {
+        return;
+      }
+    }
+  }
+
   async findPurchaseOrderById(id: string): Promise<PurchaseOrderWithDetails> {
     this.logger.log(`Finding purchase order by ID: ${id}`);
 
@@ -194,6 +264,8 @@ export class PurchaseOrdersService {
       throw new BadRequestException(`Cannot add items to ${existingOrder.status.toLowerCase()} purchase order`);
     }
 
+    const line = await this.resolveItemLine(itemDto.product_id, itemDto.unit_code, itemDto.quantity_ordered);
+
     try {
       const item = await this.purchaseOrdersRepository.addPurchaseOrderItem({
         purchase_order_id: orderId,
@@ -202,11 +274,14 @@ export class PurchaseOrdersService {
         quantity_received: itemDto.quantity_received || 0,
         unit_cost: itemDto.unit_cost,
         total_cost: itemDto.total_cost,
+        ...line,
         created_by: userId,
       });
 
+      await this.recalculatePurchaseOrderTotals(existingOrder, userId);
+
       this.logger.log(`Purchase order item added successfully: ${item.id}`);
-      return item;
+      return (await this.purchaseOrdersRepository.findPurchaseOrderItemById(item.id)) ?? item;
     } catch (error) {
       this.logger.error(`Failed to add purchase order item to order: ${orderId}`, error.stack);
       throw error;
@@ -216,12 +291,46 @@ export class PurchaseOrdersService {
   async updatePurchaseOrderItem(itemId: string, itemDto: UpdatePurchaseOrderItemDto, userId: string): Promise<PurchaseOrderItemEntity> {
     this.logger.log(`Updating purchase order item: ${itemId} by user: ${userId}`);
 
+    const existingItem = await this.purchaseOrdersRepository.findPurchaseOrderItemById(itemId);
+    if (!existingItem) {
+      throw new NotFoundException(MESSAGES.PURCHASE_ORDER_ITEM_NOT_FOUND);
+    }
+    const existingOrder = await this.purchaseOrdersRepository.findPurchaseOrderByIdOrThrow(existingItem.purchase_order_id);
+
+    // Swapping the product picks up the new product's tax class and default unit; quantities
+    // already received are in the line's unit, so neither can change after that
+    const productChanged = !!itemDto.product_id && itemDto.product_id !== existingItem.product_id;
+    const unitChanged = !!itemDto.unit_code && itemDto.unit_code !== existingItem.unit_code;
+    if ((productChanged || unitChanged) && existingItem.quantity_received > 0) {
+      throw new BadRequestException(MESSAGES.PURCHASE_ORDER_ITEM_UNIT_LOCKED);
+    }
+
+    let lineChanges: Partial<LineTaxClass & LineUnit> = {};
+    const quantityOrdered = itemDto.quantity_ordered ?? existingItem.quantity_ordered;
+    if (productChanged) {
+      lineChanges = await this.resolveItemLine(itemDto.product_id!, itemDto.unit_code, quantityOrdered);
+    } else if (unitChanged) {
+      const product = await this.productsRepository.findProductByIdOrThrow(existingItem.product_id);
+      lineChanges = this.unitsOfMeasureService.resolveLineUnit(product, itemDto.unit_code, 'purchase');
+      this.unitsOfMeasureService.toBaseQuantity(quantityOrdered, lineChanges.unit_factor!);
+    } else if (itemDto.quantity_ordered !== undefined) {
+      this.unitsOfMeasureService.toBaseQuantity(itemDto.quantity_ordered, existingItem.unit_factor);
+    }
+
     try {
-      const updatedItem = await this.purchaseOrdersRepository.updatePurchaseOrderItem(itemId, {
+      await this.purchaseOrdersRepository.updatePurchaseOrderItem(itemId, {
         ...itemDto,
+        ...lineChanges,
         updated_by: userId,
       });
 
+      await this.recalculatePurchaseOrderTotals(existingOrder, userId);
+
+      const updatedItem = await this.purchaseOrdersRepository.findPurchaseOrderItemById(itemId);
+      if (!updatedItem) {
+        throw new NotFoundException(MESSAGES.PURCHASE_ORDER_ITEM_NOT_FOUND);
+      }
+
       this.logger.log(`Purchase order item updated successfully: ${itemId}`);
       return updatedItem;
     } catch (error) {
@@ -233,6 +342,12 @@ export class PurchaseOrdersService {
   async deletePurchaseOrderItem(itemId: string, userId: string): Promise<{ message: string }> {
     this.logger.log(`Deleting purchase order item: ${itemId} by user: ${userId}`);
 
+    const existingItem = await this.purchaseOrdersRepository.findPurchaseOrderItemById(itemId);
+    if (!existingItem) {
+      throw new NotFoundException(MESSAGES.PURCHASE_ORDER_ITEM_NOT_FOUND);
+    }
+    const existingOrder = await this.purchaseOrdersRepository.findPurchaseOrderByIdOrThrow(existingItem.purchase_order_id);
+
     try {
       const success = await this.purchaseOrdersRepository.deletePurchaseOrderItem(itemId, userId);
       if (!success) {
@@ -240,6 +355,8 @@ export class PurchaseOrdersService {
         throw new NotFoundException(MESSAGES.PURCHASE_ORDER_ITEM_NOT_FOUND);
       }
 
+      await this.recalculatePurchaseOrderTotals(existingOrder, userId);
+
       this.logger.log(`Purchase order item deleted successfully: ${itemId}`);
       return { message: API_MESSAGES.PURCHASE_ORDER_ITEM_DELETED };
     } catch (error) {
@@ -254,6 +371,7 @@ export class PurchaseOrdersService {
     total: number;
     pending: number;
     confirmed: number;
+    partially_received: number;
     received: number;
     cancelled: number;
   }> {
@@ -285,32 +403,219 @@ export class PurchaseOrdersService {
     }
   }
 
-  async receivePurchaseOrder(id: string, userId: string): Promise<PurchaseOrderEntity> {
+  async receivePurchaseOrder(id: string, receiveDto: ReceivePurchaseOrderDto, userId: string): Promise<PurchaseOrderWithDetails> {
     this.logger.log(`Receiving purchase order: ${id} by user: ${userId}`);
 
-    // Get the purchase order with details
-    const orderWithDetails = await this.findPurchaseOrderById(id);
+    try {
+      const { orderNumber, receiptId, fullyReceived } = await this.drizzleService.transaction(async (tx) => {
+        // The order and its items stay locked until the receipt commits, so concurrent
+        // receipts and supplier returns see each other's quantities
+        await this.purchaseOrdersRepository.lockPurchaseOrder(id, tx);
+        await this.purchaseOrdersRepository.lockPurchaseOrderItems(id, tx);
+
+        const orderWithDetails = await this.purchaseOrdersRepository.findPurchaseOrderWithDetails(id, tx);
+        if (!orderWithDetails) {
+          throw new NotFoundException(MESSAGES.PURCHASE_ORDER_NOT_FOUND);
+        }
 
-    // Validate order can be received
-    if (orderWithDetails.status !== 'CONFIRMED') {
-      throw new BadRequestException('Only confirmed purchase orders can be received');
-    }
+        // Validate order can be received
+        if (orderWithDetails.status !== 'CONFIRMED' && orderWithDetails.status !== 'PARTIALLY_RECEIVED') {
+          throw new BadRequestException(MESSAGES.PURCHASE_ORDER_NOT_RECEIVABLE);
+        }
 
-    try {
-      // Update order status to RECEIVED
-      const updatedOrder = await this.updatePurchaseOrder(id, { status: 'RECEIVED' as any }, userId);
+        const receivedByItem = this.resolveReceivedQuantities(orderWithDetails, receiveDto);
 
-      // TODO: Update stock levels when stock management is implemented
-      // For each item in the order, add to stock
+        // Stock is counted in base units, so each delivery has to convert to whole ones
+        const baseQuantityByItem = new Map<string, number>();
+        for (const orderItem of orderWithDetails.items) {
+          const quantity = receivedByItem.get(orderItem.id);
+          if (quantity) {
+            baseQuantityByItem.set(orderItem.id, this.unitsOfMeasureService.toBaseQuantity(quantity, orderItem.unit_factor));
+          }
+        }
 
-      this.logger.log(`Purchase order received successfully: ${updatedOrder.order_number}`);
-      return updatedOrder;
+        const receipt = await this.purchaseOrdersRepository.createPurchaseOrderReceipt({
+          purchase_order_id: id,
+          notes: receiveDto.notes,
+          created_by: userId,
+        }, tx);
+
+        for (const orderItem of orderWithDetails.items) {
+          const quantity = receivedByItem.get(orderItem.id);
+          if (!quantity) {
+            continue;
+          }
+
+          await this.purchaseOrdersRepository.addPurchaseOrderReceiptItem({
+            receipt_id: receipt.id,
+            purchase_order_item_id: orderItem.id,
+            product_id: orderItem.product_id,
+            quantity_received: quantity,
+            created_by: userId,
+          }, tx);
+
+          await this.purchaseOrdersRepository.updatePurchaseOrderItem(orderItem.id, {
+            quantity_received: this.roundQuantity(orderItem.quantity_received + quantity),
+            updated_by: userId,
+          }, tx);
+
+          // Add received quantities to stock in base units (stock rows are created for new
+          // products), costed per base unit at the line's price net of tax so each receipt
+          // opens its own cost layer
+          const orderedBaseUnits = orderItem.quantity_ordered * orderItem.unit_factor;
+          await this.stockService.createTransaction({
+            product_id: orderItem.product_id,
+            transaction_type: StockTransactionType.IN,
+            quantity: baseQuantityByItem.get(orderItem.id)!,
+            reference_type: StockReferenceType.PURCHASE,
+            reference_id: id,
+            unit_cost: orderedBaseUnits > 0
+              ? parseFloat(orderItem.taxable_amount) / orderedBaseUnits
+              : parseFloat(orderItem.unit_cost) / orderItem.unit_factor,
+            notes: `Received on purchase order ${orderWithDetails.order_number}`,
+            created_by: userId,
+          }, { purchase_order_item_id: orderItem.id }, tx);
+        }
+
+        // The order is only closed once every line has been fully received
+        const fullyReceived = orderWithDetails.items.every(
+          item => this.roundQuantity(item.quantity_received + (receivedByItem.get(item.id) ?? 0)) >= item.quantity_ordered
+        );
+        await this.purchaseOrdersRepository.updatePurchaseOrder(id, {
+          status: fullyReceived ? 'RECEIVED' : 'PARTIALLY_RECEIVED',
+          updated_by: userId,
+        }, tx);
+
+        return { orderNumber: orderWithDetails.order_number, receiptId: receipt.id, fullyReceived };
+      });
+
+      this.logger.log(`Purchase order ${fullyReceived ? 'received' : 'partially received'}: ${orderNumber} (receipt: ${receiptId})`);
+      return this.findPurchaseOrderById(id);
     } catch (error) {
       this.logger.error(`Failed to receive purchase order: ${id}`, error.stack);
       throw error;
     }
   }
 
+  async findPurchaseOrderReceipts(id: string): Promise<PurchaseOrderReceiptWithItems[]> {
+    this.logger.log(`Finding receipts for purchase order: ${id}`);
+
+    // Verify the purchase order exists
+    await this.purchaseOrdersRepository.findPurchaseOrderByIdOrThrow(id);
+
+    try {
+      const receipts = await this.purchaseOrdersRepository.findPurchaseOrderReceipts(id);
+      this.logger.log(`Found ${receipts.length} receipts for purchase order: ${id}`);
+      return receipts;
+    } catch (error) {
+      this.logger.error(`Failed to find receipts for purchase order: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== CALCULATION HELPERS ====================
+
+  /**
+   * Quantity of each line arriving in a delivery, checked against what is still outstanding;
+   * with no lines given, everything outstanding is received
+   */
+  private resolveReceivedQuantities(order: PurchaseOrderWithDetails, receiveDto: ReceivePurchaseOrderDto): Map<string, number> {
+    const receivedByItem = new Map<string, number>();
+    if (receiveDto.items?.length) {
+      for (const receivedItem of receiveDto.items) {
+        const orderItem = order.items.find(item => item.id === receivedItem.purchase_order_item_id);
+        if (!orderItem) {
+          throw new NotFoundException(MESSAGES.PURCHASE_ORDER_ITEM_NOT_FOUND);
+        }
+
+        const quantity = this.roundQuantity((receivedByItem.get(orderItem.id) ?? 0) + receivedItem.quantity_received);
+        const outstanding = this.roundQuantity(orderItem.quantity_ordered - orderItem.quantity_received);
+        if (quantity > outstanding) {
+          throw new BadRequestException(
+            `${MESSAGES.PURCHASE_ORDER_RECEIPT_EXCEEDS_ORDERED}: ${orderItem.product.name}. ` +
+            `Outstanding: ${outstanding} ${orderItem.unit_code}, Received: ${quantity} ${orderItem.unit_code}`
+          );
+        }
+        receivedByItem.set(orderItem.id, quantity);
+      }
+    } else {
+      for (const orderItem of order.items) {
+        const outstanding = this.roundQuantity(orderItem.quantity_ordered - orderItem.quantity_received);
+        if (outstanding > 0) {
+          receivedByItem.set(orderItem.id, outstanding);
+        }
+      }
+    }
+
+    if (receivedByItem.size === 0) {
+      throw new BadRequestException(MESSAGES.PURCHASE_ORDER_NOTHING_TO_RECEIVE);
+    }
+    return receivedByItem;
+  }
+
+  /**
+   * Tax class and unit for a new line; the quantity is checked against the unit so that it
+   * can be received into stock in whole base units
+   */
+  private async resolveItemLine(productId: string, unitCode: string | undefined, quantity: number): Promise<LineTaxClass & LineUnit> {
+    const product = await this.productsRepository.findById(productId);
+    if (!product) {
+      this.logger.warn(`Product not found for purchase order item: ${productId}`);
+      throw new NotFoundException(MESSAGES.PRODUCT_NOT_FOUND);
+    }
+    if (product.variant_attributes?.length) {
+      throw new BadRequestException(MESSAGES.PRODUCT_VARIANT_REQUIRED);
+    }
+
+    const unit = this.unitsOfMeasureService.resolveLineUnit(product, unitCode, 'purchase');
+    this.unitsOfMeasureService.toBaseQuantity(quantity, unit.unit_factor);
+
+    return { ...await this.taxService.resolveProductTaxClass(product), ...unit };
+  }
+
+  /**
+   * Recomputes line tax from the tax class captured on each line and stores the order
+   * total (lines including tax, less supplier returns) and tax amount
+   */
+  private async recalculatePurchaseOrderTotals(order: PurchaseOrderEntity, userId: string): Promise<PurchaseOrderEntity> {
+    const items = await this.purchaseOrdersRepository.findPurchaseOrderItems(order.id);
+    const lineTaxes = this.taxService.computeLineTaxes(
+      items.map(item => ({
+        tax_class_id: item.tax_class_id,
+        tax_rate: parseFloat(item.tax_rate),
+        tax_inclusive: item.tax_inclusive,
+        amount: parseFloat(item.total_cost),
+      })),
+    );
+
+    for (const [index, item] of items.entries()) {
+      const { taxable_amount, tax_amount } = lineTaxes[index];
+      if (taxable_amount !== parseFloat(item.taxable_amount) || tax_amount !== parseFloat(item.tax_amount)) {
+        await this.purchaseOrdersRepository.updatePurchaseOrderItem(item.id, {
+          taxable_amount,
+          tax_amount,
+          updated_by: userId,
+        });
+      }
+    }
+
+    const linesTotal = lineTaxes.reduce((sum, lineTax) => sum + lineTax.taxable_amount + lineTax.tax_amount, 0);
+
+    return this.purchaseOrdersRepository.updatePurchaseOrder(order.id, {
+      total_amount: this.roundCurrency(linesTotal - parseFloat(order.returned_amount)),
+      tax_amount: this.roundCurrency(lineTaxes.reduce((sum, lineTax) => sum + lineTax.tax_amount, 0)),
+      updated_by: userId,
+    });
+  }
+
+  private roundCurrency(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private roundQuantity(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+
   //#region ==================== VALIDATION HELPERS ====================
 
   async validatePurchaseOrderExists(orderId: string): Promise<PurchaseOrderEntity> {
@@ -0,0 +1,268 @@
+import { Injectable, Logger, BadRequestException, ConflictException } from '@nestjs/common';
+import {
+  PurchaseOrdersRepository,
+  PurchaseOrderWithDetails,
+  ReorderCandidate,
+} from '../../core/database/repositories/purchase-orders.repository';
+import { SuppliersRepository, SupplierEntity } from '../../core/database/repositories/suppliers.repository';
+import { PurchaseOrdersService } from './purchase-orders.service';
+import {
+  CreateReorderDraftsDto,
+  ReorderSuggestionItemDto,
+  ReorderSuggestionsResponseDto,
+  ReorderSupplierGroupDto,
+} from './dto';
+import { MESSAGES } from '../../common/constants/string-const';
+
+export interface ReorderSuggestionFilters {
+  supplier_id?: string;
+  category_id?: string;
+}
+
+interface ReorderSuggestion extends ReorderSuggestionItemDto {
+  supplier_id: string | null;
+}
+
+// Suggested quantities and costs are per base unit, so drafted lines are ordered in it too
+interface DraftLine {
+  product_id: string;
+  unit_code: string;
+  quantity: number;
+  unit_cost: number;
+}
+
+@Injectable()
+export class ReorderService {
+  private readonly logger = new Logger(ReorderService.name);
+
+  constructor(
+    private readonly purchaseOrdersRepository: PurchaseOrdersRepository,
+    private readonly suppliersRepository: SuppliersRepository,
+    private readonly purchaseOrdersService: PurchaseOrdersService,
+  ) {}
+
+  //#region ==================== SUGGESTIONS ====================
+
+  async getSuggestions(filters: ReorderSuggestionFilters = {}): Promise<ReorderSuggestionsResponseDto> {
+    this.logger.log('Building reorder suggestions', filters);
+
+    const candidates = await this.purchaseOrdersRepository.findReorderCandidates({
+      ...filters,
+      belowReorderPointOnly: true,
+    });
+
+    const suggestions = candidates
+      .map(candidate => this.toSuggestion(candidate))
+      .filter(suggestion => suggestion.suggested_quantity > 0);
+
+    const suppliers = await this.loadSuppliers(suggestions);
+    const groups = new Map<string, ReorderSupplierGroupDto>();
+    const unassigned: ReorderSuggestionItemDto[] = [];
+
+    for (const { supplier_id, ...item } of suggestions) {
+      const supplier = supplier_id ? suppliers.get(supplier_id) : undefined;
+      if (!supplier) {
+        unassigned.push({ ...item, supplier_source: undefined });
+        continue;
+      }
+
+      let group = groups.get(supplier.id);
+      if (!group) {
+        group = {
+          supplier_id: supplier.id,
+          supplier_name: supplier.name,
+          supplier_active: supplier.is_active,
+          items: [],
+          estimated_total: 0,
+        };
+        groups.set(supplier.id, group);
+      }
+      group.items.push(item);
+      group.estimated_total = this.roundCurrency(group.estimated_total + item.estimated_cost);
+    }
+
+    this.logger.log(`Built ${suggestions.length} reorder suggestions across ${groups.size} suppliers`);
+
+    return {
+      groups: [...groups.values()].sort((a, b) => a.supplier_name.localeCompare(b.supplier_name)),
+      unassigned,
+    };
+  }
+
+  //#region ==================== DRAFT PURCHASE ORDERS ====================
+
+  /**
+   * Creates one PENDING purchase order per supplier from reviewed suggestions. Lines left
+   * out of the request fall back to the suggested supplier, quantity and cost.
+   */
+  async createDraftPurchaseOrders(dto: CreateReorderDraftsDto, userId: string): Promise<PurchaseOrderWithDetails[]> {
+    this.logger.log(`Creating reorder drafts by user: ${userId}`);
+
+    const linesBySupplier = dto.items
+      ? await this.resolveReviewedLines(dto)
+      : await this.resolveAllSuggestedLines();
+
+    if (linesBySupplier.size === 0) {
+      throw new BadRequestException(MESSAGES.REORDER_NOTHING_SELECTED);
+    }
+
+    // Check every supplier up front so a bad line does not leave half the drafts created
+    for (const supplierId of linesBySupplier.keys()) {
+      const supplier = await this.suppliersRepository.findById(supplierId);
+      if (!supplier) {
+        throw new BadRequestException(MESSAGES.SUPPLIER_NOT_FOUND);
+      }
+      if (!supplier.is_active) {
+        throw new BadRequestException(`${MESSAGES.SUPPLIER_INACTIVE}: ${supplier.name}`);
+      }
+    }
+
+    const createdOrders: PurchaseOrderWithDetails[] = [];
+    for (const [supplierId, lines] of linesBySupplier) {
+      const items = lines.map(line => ({
+        product_id: line.product_id,
+        unit_code: line.unit_code,
+        quantity_ordered: line.quantity,
+        unit_cost: line.unit_cost,
+        total_cost: this.roundCurrency(line.quantity * line.unit_cost),
+      }));
+
+      const order = await this.purchaseOrdersService.createPurchaseOrder({
+        supplier_id: supplierId,
+        order_number: await this.generateOrderNumber(),
+        status: 'PENDING',
+        expected_delivery_date: dto.expected_delivery_date,
+        notes: dto.notes || 'Drafted from reorder suggestions',
+        items,
+      }, userId);
+
+      createdOrders.push(order);
+    }
+
+    this.logger.log(`Created ${createdOrders.length} draft purchase orders from reorder suggestions`);
+    return createdOrders;
+  }
+
+  private async resolveReviewedLines(dto: CreateReorderDraftsDto): Promise<Map<string, DraftLine[]>> {
+    const items = dto.items ?? [];
+    const productIds = items.map(item => item.product_id);
+    if (new Set(productIds).size !== productIds.length) {
+      throw new BadRequestException(MESSAGES.REORDER_DUPLICATE_PRODUCT);
+    }
+
+    // Reviewed lines may override a product that is no longer below its reorder point
+    const candidates = await this.purchaseOrdersRepository.findReorderCandidates({ product_ids: productIds });
+    const suggestions = new Map(candidates.map(candidate => [candidate.product_id, this.toSuggestion(candidate)]));
+
+    const linesBySupplier = new Map<string, DraftLine[]>();
+    for (const item of items) {
+      const suggestion = suggestions.get(item.product_id);
+      if (!suggestion) {
+        throw new BadRequestException(MESSAGES.PRODUCT_NOT_FOUND);
+      }
+
+      const supplierId = item.supplier_id ?? suggestion.supplier_id;
+      if (!supplierId) {
+        throw new BadRequestException(`${MESSAGES.REORDER_NO_SUPPLIER}: ${suggestion.product_sku}`);
+      }
+
+      const quantity = item.quantity ?? suggestion.suggested_quantity;
+      if (quantity <= 0) {
+        continue;
+      }
+
+      const lines = linesBySupplier.get(supplierId) ?? [];
+      lines.push({
+        product_id: item.product_id,
+        unit_code: suggestion.base_unit,
+        quantity,
+        unit_cost: item.unit_cost ?? suggestion.unit_cost,
+      });
+      linesBySupplier.set(supplierId, lines);
+    }
+
+    return linesBySupplier;
+  }
+
+  private async resolveAllSuggestedLines(): Promise<Map<string, DraftLine[]>> {
+    const { groups } = await this.getSuggestions();
+
+    const linesBySupplier = new Map<string, DraftLine[]>();
+    for (const group of groups.filter(group => group.supplier_active)) {
+      linesBySupplier.set(group.supplier_id, group.items.map(item => ({
+        product_id: item.product_id,
+        unit_code: item.base_unit,
+        quantity: item.suggested_quantity,
+        unit_cost: item.unit_cost,
+      })));
+    }
+
+    return linesBySupplier;
+  }
+
+  //#region ==================== HELPERS ====================
+
+  /**
+   * Orders enough to bring available plus on-order stock back up to the target level.
+   * Without a target level the product is topped up to twice its reorder point.
+   */
+  private toSuggestion(candidate: ReorderCandidate): ReorderSuggestion {
+    const targetLevel = Math.max(candidate.target_stock_level ?? candidate.reorder_point * 2, candidate.reorder_point);
+    const projected = candidate.quantity_available + candidate.on_order;
+    const suggestedQuantity = Math.max(targetLevel - projected, 0);
+    const unitCost = parseFloat(candidate.cost_price ?? candidate.last_unit_cost ?? '0') || 0;
+
+    return {
+      product_id: candidate.product_id,
+      product_name: candidate.product_name,
+      product_sku: candidate.product_sku,
+      base_unit: candidate.base_unit,
+      quantity_available: candidate.quantity_available,
+      on_order: candidate.on_order,
+      reorder_point: candidate.reorder_point,
+      target_stock_level: targetLevel,
+      suggested_quantity: suggestedQuantity,
+      unit_cost: unitCost,
+      estimated_cost: this.roundCurrency(suggestedQuantity * unitCost),
+      supplier_id: candidate.preferred_supplier_id ?? candidate.last_supplier_id,
+      supplier_source: candidate.preferred_supplier_id
+        ? 'PREFERRED'
+        : candidate.last_supplier_id ? 'LAST_PURCHASE' : undefined,
+    };
+  }
+
+  private async loadSuppliers(suggestions: ReorderSuggestion[]): Promise<Map<string, SupplierEntity>> {
+    const supplierIds = [...new Set(suggestions.map(s => s.supplier_id).filter((id): id is string => !!id))];
+    const suppliers = new Map<string, SupplierEntity>();
+
+    for (const supplierId of supplierIds) {
+      const supplier = await this.suppliersRepository.findById(supplierId);
+      if (supplier) {
+        suppliers.set(supplier.id, supplier);
+      }
+    }
+
+    return suppliers;
+  }
+
+  private async generateOrderNumber(): Promise<string> {
+    const datePart = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+
+    // Retry on the unlikely event of a collision
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const randomPart = Math.floor(Math.random() * 1000000).toString().padStart(6, '0');
+      const orderNumber = `PO-${datePart}-${randomPart}`;
+
+      const existingOrder = await this.purchaseOrdersRepository.findPurchaseOrderByOrderNumber(orderNumber, true);
+      if (!existingOrder) {
+        return orderNumber;
+      }
+    }
+
+    throw new ConflictException(MESSAGES.PURCHASE_ORDER_NUMBER_EXISTS);
+  }
+
+  private roundCurrency(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
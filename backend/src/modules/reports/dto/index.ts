@@ -0,0 +1,2 @@
+export * from './margin-report-query.dto';
+export * from './margin-report-response.dto';
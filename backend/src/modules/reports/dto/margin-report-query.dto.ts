@@ -0,0 +1,21 @@
+import { IsOptional, IsEnum } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { AnalyticsQueryDto } from '../../analytics/dto';
+
+export enum MarginGroupBy {
+  PRODUCT = 'product',
+  CATEGORY = 'category',
+  SUPPLIER = 'supplier',
+  PERIOD = 'period',
+}
+
+export class MarginReportQueryDto extends AnalyticsQueryDto {
+  @ApiPropertyOptional({
+    description: 'What to break margins down by. Period uses the granularity.',
+    enum: MarginGroupBy,
+    example: MarginGroupBy.PRODUCT,
+  })
+  @IsOptional()
+  @IsEnum(MarginGroupBy, { message: 'Group by must be product, category, supplier or period' })
+  group_by?: MarginGroupBy;
+}
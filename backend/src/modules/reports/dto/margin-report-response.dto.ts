@@ -0,0 +1,81 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { ReportGranularity } from '../../analytics/dto';
+import { MarginGroupBy } from './margin-report-query.dto';
+
+export class MarginTotalsDto {
+  @ApiProperty({ description: 'Units sold less units returned', example: 320 })
+  @Expose()
+  quantity_sold: number;
+
+  @ApiProperty({ description: 'Sales net of tax, discounts and returns', example: 8420.5 })
+  @Expose()
+  revenue: number;
+
+  @ApiProperty({ description: 'Cost of the units sold, from the inventory cost layers', example: 5110.2 })
+  @Expose()
+  cost_of_goods_sold: number;
+
+  @ApiProperty({ description: 'Revenue less cost of goods sold', example: 3310.3 })
+  @Expose()
+  gross_margin: number;
+
+  @ApiPropertyOptional({ description: 'Gross margin as a percentage of revenue; null when there is no revenue', example: 39.3 })
+  @Expose()
+  margin_percent: number | null;
+
+  @ApiProperty({ description: 'Invoices the sales were made on', example: 57 })
+  @Expose()
+  invoice_count: number;
+}
+
+export class MarginRowDto extends MarginTotalsDto {
+  @ApiPropertyOptional({
+    description: 'Product, category or supplier ID, or the first day of the period. Null for the unassigned group.',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  id: string | null;
+
+  @ApiProperty({ description: 'Display name for the row', example: 'Wireless Mouse' })
+  @Expose()
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Product SKU (product breakdown only)', example: 'WM-001' })
+  @Expose()
+  sku?: string;
+
+  @ApiPropertyOptional({ description: 'Current list price (product breakdown only)', example: 24.99 })
+  @Expose()
+  list_price?: number;
+
+  @ApiPropertyOptional({ description: 'Current cost price (product breakdown only)', example: 14.5 })
+  @Expose()
+  cost_price?: number | null;
+}
+
+export class MarginReportResponseDto {
+  @ApiProperty({ description: 'First day of the report', example: '2024-01-01' })
+  @Expose()
+  start_date: string;
+
+  @ApiProperty({ description: 'Last day of the report', example: '2024-01-31' })
+  @Expose()
+  end_date: string;
+
+  @ApiProperty({ description: 'What the rows are broken down by', enum: MarginGroupBy, example: MarginGroupBy.PRODUCT })
+  @Expose()
+  group_by: MarginGroupBy;
+
+  @ApiPropertyOptional({ description: 'Bucket size (period breakdown only)', enum: ReportGranularity, example: ReportGranularity.MONTH })
+  @Expose()
+  granularity?: ReportGranularity;
+
+  @ApiProperty({ description: 'One entry per product, category, supplier or period', type: [MarginRowDto] })
+  @Expose()
+  rows: MarginRowDto[];
+
+  @ApiProperty({ description: 'Totals across all rows', type: MarginTotalsDto })
+  @Expose()
+  totals: MarginTotalsDto;
+}
@@ -0,0 +1,4 @@
+export * from './reports.controller';
+export * from './reports.service';
+export * from './reports.module';
+export * from './dto';
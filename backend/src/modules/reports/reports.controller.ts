@@ -0,0 +1,56 @@
+import {
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiBadRequestResponse,
+} from '@nestjs/swagger';
+import { ReportsService } from './reports.service';
+import { MarginReportQueryDto, MarginReportResponseDto } from './dto';
+import { AuthGuard } from '../../common/guards/auth.guard';
+import { ManagerGuard } from '../../common/guards/manager.guard';
+import { successResponse } from '../../common/helpers/api-response.helper';
+import { API_MESSAGES } from '../../common/constants/string-const';
+
+@ApiTags('Reports')
+@Controller('reports')
+@UseGuards(AuthGuard) // All endpoints require authentication
+@ApiBearerAuth()
+export class ReportsController {
+  private readonly logger = new Logger(ReportsController.name);
+
+  constructor(private readonly reportsService: ReportsService) {}
+
+  //#region ==================== READ OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Get gross margin report',
+    description: 'Revenue net of tax, discounts and returns against cost of goods sold, by product, category, preferred supplier or period. Requires MANAGER or ADMIN role.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Margin report generated successfully',
+    type: MarginReportResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid date range' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Get('margins')
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async getMarginReport(@Query() query: MarginReportQueryDto) {
+    this.logger.log(`Generating margin report by ${query.group_by ?? 'product'}`);
+
+    const report = await this.reportsService.getMarginReport(query);
+
+    return successResponse(report, API_MESSAGES.MARGIN_REPORT_FETCHED);
+  }
+}
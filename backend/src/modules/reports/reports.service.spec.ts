@@ -0,0 +1,113 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ReportsService } from './reports.service';
+import { MarginGroupBy } from './dto';
+import { ReportGranularity } from '../analytics/dto';
+import { ReportsRepository, MarginTotalsRow } from '../../core/database/repositories/reports.repository';
+
+const totals = (revenue: string, costOfGoodsSold: string): MarginTotalsRow => ({
+  quantity_sold: 10,
+  revenue,
+  cost_of_goods_sold: costOfGoodsSold,
+  invoice_count: 3,
+});
+
+describe('ReportsService', () => {
+  let service: ReportsService;
+  let reportsRepository: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    reportsRepository = {
+      getMarginTotals: jest.fn().mockResolvedValue(totals('0', '0')),
+      getMarginsByProduct: jest.fn().mockResolvedValue([]),
+      getMarginsByCategory: jest.fn().mockResolvedValue([]),
+      getMarginsBySupplier: jest.fn().mockResolvedValue([]),
+      getMarginsByPeriod: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReportsService,
+        { provide: ReportsRepository, useValue: reportsRepository },
+      ],
+    }).compile();
+
+    service = module.get<ReportsService>(ReportsService);
+  });
+
+  describe('getMarginReport', () => {
+    it('works out gross margin and margin percent from revenue and cost', async () => {
+      reportsRepository.getMarginsByProduct.mockResolvedValue([{
+        product_id: 'product-1',
+        product_name: 'Coffee beans',
+        product_sku: 'SKU-001',
+        unit_price: '12.00',
+        cost_price: null,
+        ...totals('120.004', '80.5'),
+      }]);
+
+      const report = await service.getMarginReport({ start_date: '2026-04-01', end_date: '2026-04-30' });
+
+      expect(report.rows).toEqual([{
+        id: 'product-1',
+        name: 'Coffee beans',
+        sku: 'SKU-001',
+        list_price: 12,
+        cost_price: null,
+        quantity_sold: 10,
+        revenue: 120,
+        cost_of_goods_sold: 80.5,
+        gross_margin: 39.5,
+        margin_percent: 32.9,
+        invoice_count: 3,
+      }]);
+    });
+
+    it('leaves the margin percent out when nothing was earned', async () => {
+      const report = await service.getMarginReport({ start_date: '2026-04-01', end_date: '2026-04-30' });
+
+      expect(report.totals.margin_percent).toBeNull();
+    });
+
+    it('reports negative margins on goods sold below cost', async () => {
+      reportsRepository.getMarginTotals.mockResolvedValue(totals('50', '75'));
+
+      const report = await service.getMarginReport({ start_date: '2026-04-01', end_date: '2026-04-30' });
+
+      expect(report.totals).toMatchObject({ gross_margin: -25, margin_percent: -50 });
+    });
+
+    it('names rows without a category or supplier', async () => {
+      reportsRepository.getMarginsByCategory.mockResolvedValue([{ category_id: null, category_name: null, ...totals('10', '5') }]);
+      reportsRepository.getMarginsBySupplier.mockResolvedValue([{ supplier_id: null, supplier_name: null, ...totals('10', '5') }]);
+
+      const byCategory = await service.getMarginReport({ group_by: MarginGroupBy.CATEGORY });
+      const bySupplier = await service.getMarginReport({ group_by: MarginGroupBy.SUPPLIER });
+
+      expect(byCategory.rows[0].name).toBe('Uncategorised');
+      expect(bySupplier.rows[0].name).toBe('No preferred supplier');
+    });
+
+    it('covers the whole of the last day and defaults period reports to days', async () => {
+      const report = await service.getMarginReport({ group_by: MarginGroupBy.PERIOD, start_date: '2026-04-01', end_date: '2026-04-30' });
+
+      expect(report.granularity).toBe(ReportGranularity.DAY);
+      expect(reportsRepository.getMarginsByPeriod).toHaveBeenCalledWith(
+        ReportGranularity.DAY,
+        new Date('2026-04-01T00:00:00.000Z'),
+        new Date('2026-05-01T00:00:00.000Z'),
+      );
+    });
+
+    it('defaults to the 30 days up to the end date', async () => {
+      const report = await service.getMarginReport({ end_date: '2026-04-30' });
+
+      expect(report.start_date).toBe('2026-04-01');
+    });
+
+    it('rejects invalid dates and ranges that end before they start', async () => {
+      await expect(service.getMarginReport({ end_date: '2026-02-30x' })).rejects.toThrow(BadRequestException);
+      await expect(service.getMarginReport({ start_date: '2026-05-01', end_date: '2026-04-30' })).rejects.toThrow(BadRequestException);
+    });
+  });
+});
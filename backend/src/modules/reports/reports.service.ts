@@ -0,0 +1,147 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import {
+  ReportsRepository,
+  MarginTotalsRow,
+} from '../../core/database/repositories/reports.repository';
+import {
+  MarginReportQueryDto,
+  MarginReportResponseDto,
+  MarginGroupBy,
+  MarginRowDto,
+  MarginTotalsDto,
+} from './dto';
+import { ReportGranularity } from '../analytics/dto';
+import { MESSAGES } from '../../common/constants/string-const';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+
+interface ReportRange {
+  startDate: string;
+  endDate: string;
+  from: Date; // Start of the first day
+  to: Date; // Start of the day after the last day
+}
+
+@Injectable()
+export class ReportsService {
+  private readonly logger = new Logger(ReportsService.name);
+
+  constructor(private readonly reportsRepository: ReportsRepository) {}
+
+  /**
+   * Revenue, cost of goods sold and gross margin for the period, broken down by product,
+   * category, supplier or period
+   */
+  async getMarginReport(query: MarginReportQueryDto = {}): Promise<MarginReportResponseDto> {
+    const range = this.resolveRange(query);
+    const groupBy = query.group_by || MarginGroupBy.PRODUCT;
+    const granularity = groupBy === MarginGroupBy.PERIOD ? query.granularity || ReportGranularity.DAY : undefined;
+
+    this.logger.log(`Generating margin report by ${granularity ?? groupBy} from ${range.startDate} to ${range.endDate}`);
+
+    try {
+      const rows = await this.findMarginRows(groupBy, range, granularity);
+      const totals = await this.reportsRepository.getMarginTotals(range.from, range.to);
+
+      return {
+        start_date: range.startDate,
+        end_date: range.endDate,
+        group_by: groupBy,
+        granularity,
+        rows,
+        // Totalled separately, since an invoice can span several rows
+        totals: this.toTotals(totals),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to generate margin report by ${groupBy}`, error.stack);
+      throw error;
+    }
+  }
+
+  private async findMarginRows(
+    groupBy: MarginGroupBy,
+    range: ReportRange,
+    granularity?: ReportGranularity,
+  ): Promise<MarginRowDto[]> {
+    switch (groupBy) {
+      case MarginGroupBy.CATEGORY:
+        return (await this.reportsRepository.getMarginsByCategory(range.from, range.to)).map(row => ({
+          id: row.category_id,
+          name: row.category_name ?? 'Uncategorised',
+          ...this.toTotals(row),
+        }));
+
+      case MarginGroupBy.SUPPLIER:
+        return (await this.reportsRepository.getMarginsBySupplier(range.from, range.to)).map(row => ({
+          id: row.supplier_id,
+          name: row.supplier_name ?? 'No preferred supplier',
+          ...this.toTotals(row),
+        }));
+
+      case MarginGroupBy.PERIOD:
+        return (await this.reportsRepository.getMarginsByPeriod(granularity ?? ReportGranularity.DAY, range.from, range.to)).map(row => ({
+          id: row.period_start,
+          name: row.period_start,
+          ...this.toTotals(row),
+        }));
+
+      default:
+        return (await this.reportsRepository.getMarginsByProduct(range.from, range.to)).map(row => ({
+          id: row.product_id,
+          name: row.product_name,
+          sku: row.product_sku,
+          list_price: parseFloat(row.unit_price),
+          cost_price: row.cost_price === null ? null : parseFloat(row.cost_price),
+          ...this.toTotals(row),
+        }));
+    }
+  }
+
+  //#region ==================== REPORT HELPERS ====================
+
+  /**
+   * Validates the requested dates, defaulting to the 30 days up to and including today
+   */
+  private resolveRange(query: MarginReportQueryDto): ReportRange {
+    const endDate = query.end_date || new Date().toISOString().slice(0, 10);
+    if (!ISO_DATE_PATTERN.test(endDate) || isNaN(Date.parse(endDate))) {
+      throw new BadRequestException(MESSAGES.REPORT_RANGE_INVALID);
+    }
+
+    const to = new Date(Date.parse(endDate) + DAY_MS);
+    const startDate = query.start_date
+      || new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS).toISOString().slice(0, 10);
+
+    if (!ISO_DATE_PATTERN.test(startDate) || isNaN(Date.parse(startDate)) || startDate > endDate) {
+      throw new BadRequestException(MESSAGES.REPORT_RANGE_INVALID);
+    }
+
+    return {
+      startDate,
+      endDate,
+      from: new Date(`${startDate}T00:00:00.000Z`),
+      to,
+    };
+  }
+
+  private toTotals(row: MarginTotalsRow): MarginTotalsDto {
+    const revenue = parseFloat(row.revenue);
+    const costOfGoodsSold = parseFloat(row.cost_of_goods_sold);
+    const grossMargin = revenue - costOfGoodsSold;
+
+    return {
+      quantity_sold: row.quantity_sold,
+      revenue: this.roundCurrency(revenue),
+      cost_of_goods_sold: this.roundCurrency(costOfGoodsSold),
+      gross_margin: this.roundCurrency(grossMargin),
+      margin_percent: revenue !== 0 ? Math.round((grossMargin / revenue) * 1000) / 10 : null,
+      invoice_count: row.invoice_count,
+    };
+  }
+
+  private roundCurrency(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,101 @@
+import { IsString, IsNotEmpty, IsOptional, IsNumber, IsUUID, IsArray, IsEnum, ValidateNested, ArrayMinSize, Min, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import { ReturnDisposition, ReturnReason } from './return-filters.dto';
+import { PaymentMethod } from '../../payments/dto';
+
+export class CreateCustomerReturnItemDto {
+  @ApiProperty({
+    description: 'Sales invoice item ID being returned',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID(4, { message: 'Sales invoice item ID must be a valid UUID' })
+  @IsNotEmpty({ message: 'Sales invoice item ID is required' })
+  sales_invoice_item_id: string;
+
+  @ApiProperty({
+    description: 'Quantity returned, in the invoice line unit',
+    example: 1,
+    minimum: 0.001,
+  })
+  @IsNumber({ maxDecimalPlaces: 3 }, { message: 'Quantity must be a number with max 3 decimal places' })
+  @Min(0.001, { message: 'Quantity must be greater than 0' })
+  @Type(() => Number)
+  quantity: number;
+
+  @ApiProperty({
+    description: 'Whether the returned goods go back into stock or are written off',
+    enum: ReturnDisposition,
+    example: ReturnDisposition.RESTOCK,
+  })
+  @IsEnum(ReturnDisposition, { message: 'Disposition must be RESTOCK or WRITE_OFF' })
+  disposition: ReturnDisposition;
+
+  @ApiPropertyOptional({
+    description: 'Reason for this line (defaults to the return reason)',
+    enum: ReturnReason,
+    example: ReturnReason.DAMAGED,
+  })
+  @IsOptional()
+  @IsEnum(ReturnReason, { message: 'Reason must be a valid return reason' })
+  reason?: ReturnReason;
+}
+
+export class CreateCustomerReturnDto {
+  @ApiProperty({
+    description: 'Sales invoice the goods were sold on',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID(4, { message: 'Sales invoice ID must be a valid UUID' })
+  @IsNotEmpty({ message: 'Sales invoice ID is required' })
+  sales_invoice_id: string;
+
+  @ApiProperty({
+    description: 'Reason for the return',
+    enum: ReturnReason,
+    example: ReturnReason.DEFECTIVE,
+  })
+  @IsEnum(ReturnReason, { message: 'Reason must be a valid return reason' })
+  reason: ReturnReason;
+
+  @ApiPropertyOptional({
+    description: 'Refund amount (defaults to the returned quantities at their invoiced unit price)',
+    example: 49.99,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Refund amount must be a number with max 2 decimal places' })
+  @Min(0, { message: 'Refund amount cannot be negative' })
+  @Type(() => Number)
+  refund_amount?: number;
+
+  @ApiPropertyOptional({
+    description: 'How money paid above the reduced invoice total is refunded (defaults to the method of the last payment)',
+    enum: PaymentMethod,
+    example: PaymentMethod.CASH,
+  })
+  @IsOptional()
+  @IsEnum(PaymentMethod, { message: 'Refund method must be a valid payment method' })
+  refund_method?: PaymentMethod;
+
+  @ApiPropertyOptional({
+    description: 'Return notes',
+    example: 'Screen cracked on arrival',
+    maxLength: 1000,
+  })
+  @IsOptional()
+  @IsString({ message: 'Notes must be a string' })
+  @MaxLength(1000, { message: 'Notes cannot exceed 1000 characters' })
+  @Transform(({ value }) => value?.trim())
+  notes?: string;
+
+  @ApiProperty({
+    description: 'Returned lines',
+    type: [CreateCustomerReturnItemDto],
+  })
+  @IsArray({ message: 'Items must be an array' })
+  @ArrayMinSize(1, { message: 'A return requires at least one item' })
+  @ValidateNested({ each: true })
+  @Type(() => CreateCustomerReturnItemDto)
+  items: CreateCustomerReturnItemDto[];
+}
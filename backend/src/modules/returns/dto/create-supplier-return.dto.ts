@@ -0,0 +1,83 @@
+import { IsString, IsNotEmpty, IsOptional, IsNumber, IsUUID, IsArray, IsEnum, ValidateNested, ArrayMinSize, Min, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import { ReturnReason } from './return-filters.dto';
+
+export class CreateSupplierReturnItemDto {
+  @ApiProperty({
+    description: 'Purchase order item ID being returned',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID(4, { message: 'Purchase order item ID must be a valid UUID' })
+  @IsNotEmpty({ message: 'Purchase order item ID is required' })
+  purchase_order_item_id: string;
+
+  @ApiProperty({
+    description: 'Quantity sent back to the supplier, in the order line unit',
+    example: 5,
+    minimum: 0.001,
+  })
+  @IsNumber({ maxDecimalPlaces: 3 }, { message: 'Quantity must be a number with max 3 decimal places' })
+  @Min(0.001, { message: 'Quantity must be greater than 0' })
+  @Type(() => Number)
+  quantity: number;
+
+  @ApiPropertyOptional({
+    description: 'Reason for this line (defaults to the return reason)',
+    enum: ReturnReason,
+    example: ReturnReason.DAMAGED,
+  })
+  @IsOptional()
+  @IsEnum(ReturnReason, { message: 'Reason must be a valid return reason' })
+  reason?: ReturnReason;
+}
+
+export class CreateSupplierReturnDto {
+  @ApiProperty({
+    description: 'Purchase order the goods were received on',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID(4, { message: 'Purchase order ID must be a valid UUID' })
+  @IsNotEmpty({ message: 'Purchase order ID is required' })
+  purchase_order_id: string;
+
+  @ApiProperty({
+    description: 'Reason for the return',
+    enum: ReturnReason,
+    example: ReturnReason.DAMAGED,
+  })
+  @IsEnum(ReturnReason, { message: 'Reason must be a valid return reason' })
+  reason: ReturnReason;
+
+  @ApiPropertyOptional({
+    description: 'Credit expected from the supplier (defaults to the returned quantities at their unit cost)',
+    example: 149.95,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Refund amount must be a number with max 2 decimal places' })
+  @Min(0, { message: 'Refund amount cannot be negative' })
+  @Type(() => Number)
+  refund_amount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Return notes',
+    example: 'Pallet arrived water damaged',
+    maxLength: 1000,
+  })
+  @IsOptional()
+  @IsString({ message: 'Notes must be a string' })
+  @MaxLength(1000, { message: 'Notes cannot exceed 1000 characters' })
+  @Transform(({ value }) => value?.trim())
+  notes?: string;
+
+  @ApiProperty({
+    description: 'Returned lines',
+    type: [CreateSupplierReturnItemDto],
+  })
+  @IsArray({ message: 'Items must be an array' })
+  @ArrayMinSize(1, { message: 'A return requires at least one item' })
+  @ValidateNested({ each: true })
+  @Type(() => CreateSupplierReturnItemDto)
+  items: CreateSupplierReturnItemDto[];
+}
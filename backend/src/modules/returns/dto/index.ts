@@ -0,0 +1,5 @@
+export * from './create-customer-return.dto';
+export * from './create-supplier-return.dto';
+export * from './return-response.dto';
+export * from './return-list-response.dto';
+export * from './return-filters.dto';
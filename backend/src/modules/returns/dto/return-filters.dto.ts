@@ -0,0 +1,99 @@
+import { IsOptional, IsString, IsEnum, IsUUID, IsDateString, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+
+export enum ReturnKind {
+  CUSTOMER = 'CUSTOMER',
+  SUPPLIER = 'SUPPLIER',
+}
+
+export enum ReturnReason {
+  DAMAGED = 'DAMAGED',
+  DEFECTIVE = 'DEFECTIVE',
+  WRONG_ITEM = 'WRONG_ITEM',
+  NOT_AS_DESCRIBED = 'NOT_AS_DESCRIBED',
+  EXPIRED = 'EXPIRED',
+  CHANGED_MIND = 'CHANGED_MIND',
+  OTHER = 'OTHER',
+}
+
+export enum ReturnDisposition {
+  RESTOCK = 'RESTOCK',
+  WRITE_OFF = 'WRITE_OFF',
+}
+
+export class ReturnFiltersDto {
+  @ApiPropertyOptional({
+    description: 'Filter by return type',
+    enum: ReturnKind,
+    example: ReturnKind.CUSTOMER,
+  })
+  @IsOptional()
+  @IsEnum(ReturnKind, { message: 'Return type must be CUSTOMER or SUPPLIER' })
+  return_type?: ReturnKind;
+
+  @ApiPropertyOptional({
+    description: 'Filter by return reason',
+    enum: ReturnReason,
+    example: ReturnReason.DAMAGED,
+  })
+  @IsOptional()
+  @IsEnum(ReturnReason, { message: 'Reason must be a valid return reason' })
+  reason?: ReturnReason;
+
+  @ApiPropertyOptional({
+    description: 'Filter by return number (partial match)',
+    example: 'RMA-2024',
+  })
+  @IsOptional()
+  @IsString({ message: 'Return number filter must be a string' })
+  @MaxLength(50, { message: 'Return number filter cannot exceed 50 characters' })
+  @Transform(({ value }) => value?.trim())
+  return_number?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by sales invoice ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsUUID(4, { message: 'Sales invoice ID must be a valid UUID' })
+  sales_invoice_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by purchase order ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsUUID(4, { message: 'Purchase order ID must be a valid UUID' })
+  purchase_order_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by return date from (inclusive)',
+    example: '2024-01-01',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'Date from must be a valid date string' })
+  date_from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by return date to (inclusive)',
+    example: '2024-12-31',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'Date to must be a valid date string' })
+  date_to?: string;
+
+  @ApiPropertyOptional({
+    description: 'Include soft deleted returns (Admin only)',
+    example: false,
+    default: false,
+  })
+  @IsOptional()
+  @Type(() => Boolean)
+  @Transform(({ value }) => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return value;
+  })
+  withDeleted?: boolean;
+}
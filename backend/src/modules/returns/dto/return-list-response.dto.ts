@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { ReturnResponseDto } from './return-response.dto';
+
+export class ReturnListResponseDto {
+  @ApiProperty({
+    description: 'Array of returns',
+    type: [ReturnResponseDto],
+  })
+  @Expose()
+  data: ReturnResponseDto[];
+
+  @ApiProperty({
+    description: 'Total number of returns',
+    example: 25,
+  })
+  @Expose()
+  total: number;
+
+  @ApiProperty({
+    description: 'Current page number',
+    example: 1,
+  })
+  @Expose()
+  page: number;
+
+  @ApiProperty({
+    description: 'Total number of pages',
+    example: 3,
+  })
+  @Expose()
+  totalPages: number;
+
+  @ApiProperty({
+    description: 'Number of returns per page',
+    example: 10,
+  })
+  @Expose()
+  limit: number;
+}
@@ -0,0 +1,165 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Transform } from 'class-transformer';
+
+export class ReturnItemResponseDto {
+  @ApiProperty({
+    description: 'Return item unique identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  id: string;
+
+  @ApiProperty({
+    description: 'Return ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  return_id: string;
+
+  @ApiProperty({
+    description: 'Product information',
+  })
+  @Expose()
+  product: {
+    id: string;
+    name: string;
+    sku: string;
+  };
+
+  @ApiPropertyOptional({
+    description: 'Sales invoice item the goods were sold on (customer returns)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  sales_invoice_item_id?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Purchase order item the goods were received on (supplier returns)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  purchase_order_item_id?: string | null;
+
+  @ApiProperty({
+    description: 'Quantity returned',
+    example: 1,
+  })
+  @Expose()
+  quantity: number;
+
+  @ApiProperty({
+    description: 'Disposition of the returned goods',
+    example: 'RESTOCK',
+  })
+  @Expose()
+  disposition: string;
+
+  @ApiPropertyOptional({
+    description: 'Line reason',
+    example: 'DAMAGED',
+  })
+  @Expose()
+  reason?: string | null;
+
+  @ApiProperty({
+    description: 'Unit price or cost on the original document',
+    example: '49.99',
+  })
+  @Expose()
+  unit_amount: string;
+
+  @ApiProperty({
+    description: 'Line value (quantity x unit amount)',
+    example: '49.99',
+  })
+  @Expose()
+  total_amount: string;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  @Expose()
+  @Transform(({ value }) => value instanceof Date ? value.toISOString() : value)
+  created_at: Date;
+}
+
+export class ReturnResponseDto {
+  @ApiProperty({
+    description: 'Return unique identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  id: string;
+
+  @ApiProperty({
+    description: 'Return number',
+    example: 'RMA-20240115-000123',
+  })
+  @Expose()
+  return_number: string;
+
+  @ApiProperty({
+    description: 'Return type',
+    example: 'CUSTOMER',
+  })
+  @Expose()
+  return_type: string;
+
+  @ApiPropertyOptional({
+    description: 'Sales invoice ID (customer returns)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  sales_invoice_id?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Purchase order ID (supplier returns)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  purchase_order_id?: string | null;
+
+  @ApiProperty({
+    description: 'Return reason',
+    example: 'DEFECTIVE',
+  })
+  @Expose()
+  reason: string;
+
+  @ApiProperty({
+    description: 'Amount refunded to the customer or credited by the supplier',
+    example: '49.99',
+  })
+  @Expose()
+  refund_amount: string;
+
+  @ApiPropertyOptional({
+    description: 'Notes',
+    example: 'Screen cracked on arrival',
+  })
+  @Expose()
+  notes?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Returned lines',
+    type: [ReturnItemResponseDto],
+  })
+  @Expose()
+  items?: ReturnItemResponseDto[];
+
+  @ApiProperty({
+    description: 'User who recorded the return',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  created_by: string;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  @Expose()
+  @Transform(({ value }) => value instanceof Date ? value.toISOString() : value)
+  created_at: Date;
+}
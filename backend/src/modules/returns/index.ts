@@ -0,0 +1,4 @@
+export * from './returns.service';
+export * from './returns.controller';
+export * from './returns.module';
+export * from './dto';
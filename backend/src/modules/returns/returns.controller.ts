@@ -0,0 +1,189 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Logger,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  DefaultValuePipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+import { ReturnsService } from './returns.service';
+import {
+  CreateCustomerReturnDto,
+  CreateSupplierReturnDto,
+  ReturnResponseDto,
+  ReturnListResponseDto,
+  ReturnFiltersDto
+} from './dto';
+import { AuthGuard } from '../../common/guards/auth.guard';
+import { ManagerGuard } from '../../common/guards/manager.guard';
+import { StaffGuard } from '../../common/guards/staff.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { successResponse, createdResponse } from '../../common/helpers/api-response.helper';
+import { API_MESSAGES } from '../../common/constants/string-const';
+
+@ApiTags('Returns')
+@Controller('returns')
+@UseGuards(AuthGuard) // All endpoints require authentication
+@ApiBearerAuth()
+export class ReturnsController {
+  private readonly logger = new Logger(ReturnsController.name);
+
+  constructor(private readonly returnsService: ReturnsService) {}
+
+  //#region ==================== CREATE OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Record a customer return',
+    description: 'Record goods returned against a sales invoice. Restocked lines go back into stock, written off lines are only noted in the ledger, and the refund is taken off the invoice total. Requires MANAGER or ADMIN role.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Customer return recorded successfully',
+    type: ReturnResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Sales invoice not found' })
+  @ApiBadRequestResponse({ description: 'Invalid input data, invoice cancelled or return quantity exceeded' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Post('customer')
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(ManagerGuard)
+  async createCustomerReturn(
+    @Body() createReturnDto: CreateCustomerReturnDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Creating customer return by user: ${userId}`);
+
+    const returnRecord = await this.returnsService.createCustomerReturn(createReturnDto, userId);
+
+    this.logger.log(`Customer return created successfully: ${returnRecord.id}`);
+    return createdResponse(returnRecord, API_MESSAGES.RETURN_CREATED);
+  }
+
+  @ApiOperation({
+    summary: 'Record a supplier return',
+    description: 'Send received goods back to the supplier of a purchase order. Returned quantities leave stock and the credit is taken off the purchase order total. Requires MANAGER or ADMIN role.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Supplier return recorded successfully',
+    type: ReturnResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Purchase order not found' })
+  @ApiBadRequestResponse({ description: 'Invalid input data, purchase order not received or insufficient stock' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Post('supplier')
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(ManagerGuard)
+  async createSupplierReturn(
+    @Body() createReturnDto: CreateSupplierReturnDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Creating supplier return by user: ${userId}`);
+
+    const returnRecord = await this.returnsService.createSupplierReturn(createReturnDto, userId);
+
+    this.logger.log(`Supplier return created successfully: ${returnRecord.id}`);
+    return createdResponse(returnRecord, API_MESSAGES.RETURN_CREATED);
+  }
+
+  //#region ==================== READ OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Get all returns',
+    description: 'Retrieve a paginated list of customer and supplier returns with optional filtering. Requires STAFF role or above.',
+  })
+  @ApiQuery({ name: 'page', required: false, type: Number, description: 'Page number (starting from 1)', example: 1 })
+  @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Number of items per page (1-100)', example: 10 })
+  @ApiQuery({ name: 'return_type', required: false, type: String, description: 'Filter by return type (CUSTOMER or SUPPLIER)' })
+  @ApiQuery({ name: 'reason', required: false, type: String, description: 'Filter by return reason' })
+  @ApiQuery({ name: 'return_number', required: false, type: String, description: 'Filter by return number (partial match)' })
+  @ApiQuery({ name: 'sales_invoice_id', required: false, type: String, description: 'Filter by sales invoice ID' })
+  @ApiQuery({ name: 'purchase_order_id', required: false, type: String, description: 'Filter by purchase order ID' })
+  @ApiQuery({ name: 'date_from', required: false, type: String, description: 'Filter by return date from (YYYY-MM-DD)' })
+  @ApiQuery({ name: 'date_to', required: false, type: String, description: 'Filter by return date to (YYYY-MM-DD)' })
+  @ApiQuery({ name: 'withDeleted', required: false, type: Boolean, description: 'Include soft deleted returns (Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns retrieved successfully',
+    type: ReturnListResponseDto,
+  })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get()
+  @UseGuards(StaffGuard)
+  async findAllReturns(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(10), ParseIntPipe) limit: number,
+    @Query() filters: ReturnFiltersDto,
+    @CurrentUser() user: any,
+  ) {
+    this.logger.log(`Finding returns - page: ${page}, limit: ${limit}`);
+
+    // Validate pagination
+    if (page < 1) page = 1;
+    if (limit < 1) limit = 1;
+    if (limit > 100) limit = 100;
+
+    // Only admins can see deleted returns
+    if (filters.withDeleted && user.role !== 'ADMIN') {
+      filters.withDeleted = false;
+    }
+
+    const result = await this.returnsService.findAllReturns(filters, page, limit);
+
+    this.logger.log(`Found ${result.data.length} returns`);
+    return successResponse({
+      ...result,
+      limit,
+    }, API_MESSAGES.RETURNS_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Get return by ID',
+    description: 'Retrieve a specific return with its lines by ID. Requires STAFF role or above.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Return UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Return retrieved successfully',
+    type: ReturnResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Return not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get(':id')
+  @UseGuards(StaffGuard)
+  async findReturnById(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`Finding return by ID: ${id}`);
+
+    const returnRecord = await this.returnsService.findReturnById(id);
+
+    this.logger.log(`Return found: ${returnRecord.return_number}`);
+    return successResponse(returnRecord, API_MESSAGES.RETURN_FETCHED);
+  }
+}
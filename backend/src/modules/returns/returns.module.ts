@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { ReturnsService } from './returns.service';
+import { ReturnsController } from './returns.controller';
+import { DatabaseModule } from '../../core/database/database.module';
+import { SupabaseModule } from '../../core/supabase/supabase.module';
+import { StockModule } from '../stock/stock.module';
+import { PaymentsModule } from '../payments/payments.module';
+
+@Module({
+  imports: [DatabaseModule, SupabaseModule, StockModule, PaymentsModule],
+  controllers: [ReturnsController],
+  providers: [ReturnsService],
+  exports: [ReturnsService],
+})
+export class ReturnsModule {}
@@ -0,0 +1,156 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ReturnsService } from './returns.service';
+import { CreateCustomerReturnDto, ReturnDisposition, ReturnReason } from './dto';
+import { ReturnsRepository } from '../../core/database/repositories/returns.repository';
+import { SalesInvoicesRepository, SalesInvoiceWithDetails } from '../../core/database/repositories/sales-invoices.repository';
+import { PurchaseOrdersRepository } from '../../core/database/repositories/purchase-orders.repository';
+import { DbTransaction } from '../../core/database/repositories/base.repository';
+import { DrizzleService } from '../../core/database/drizzle.service';
+import { StockService } from '../stock/stock.service';
+import { UnitsOfMeasureService } from '../stock/units-of-measure.service';
+import { PaymentsService } from '../payments/payments.service';
+import { StockTransactionType, StockReferenceType } from '../stock/dto';
+import { PaymentMethod } from '../payments/dto';
+
+const tx = {} as DbTransaction;
+
+// Four bags at 5.00 each less a 2.00 discount, plus 10% tax: each bag cost 4.95
+const invoice = (quantityReturned = 0): SalesInvoiceWithDetails => ({
+  id: 'invoice-1',
+  invoice_number: 'INV-0001',
+  payment_status: 'PAID',
+  total_amount: '19.80',
+  amount_paid: '19.80',
+  returned_amount: '0.00',
+  items: [{
+    id: 'invoice-item-1',
+    product_id: 'product-1',
+    product: { name: 'Coffee beans' },
+    quantity: 4,
+    quantity_returned: quantityReturned,
+    unit_factor: 250,
+    unit_price: '5.00',
+    taxable_amount: '18.00',
+    tax_amount: '1.80',
+  }],
+}) as unknown as SalesInvoiceWithDetails;
+
+const customerReturn = (quantity: number, disposition = ReturnDisposition.RESTOCK): CreateCustomerReturnDto => ({
+  sales_invoice_id: 'invoice-1',
+  reason: ReturnReason.DAMAGED,
+  refund_method: PaymentMethod.CARD,
+  items: [{ sales_invoice_item_id: 'invoice-item-1', quantity, disposition }],
+});
+
+describe('ReturnsService', () => {
+  let service: ReturnsService;
+  let returnsRepository: Record<string, jest.Mock>;
+  let salesInvoicesRepository: Record<string, jest.Mock>;
+  let stockService: { createTransaction: jest.Mock };
+  let paymentsService: { refreshPaymentStatus: jest.Mock };
+
+  beforeEach(async () => {
+    returnsRepository = {
+      findReturnByReturnNumber: jest.fn().mockResolvedValue(undefined),
+      createReturn: jest.fn().mockResolvedValue({ id: 'return-1' }),
+      addReturnItem: jest.fn().mockResolvedValue({}),
+      findReturnWithDetails: jest.fn().mockResolvedValue({ id: 'return-1', return_number: 'RMA-1' }),
+    };
+    salesInvoicesRepository = {
+      lockSalesInvoice: jest.fn().mockResolvedValue({}),
+      lockSalesInvoiceItems: jest.fn().mockResolvedValue([]),
+      findSalesInvoiceWithDetails: jest.fn().mockResolvedValue(invoice()),
+      updateSalesInvoiceItem: jest.fn().mockResolvedValue({}),
+      updateSalesInvoice: jest.fn().mockResolvedValue({}),
+    };
+    stockService = { createTransaction: jest.fn().mockResolvedValue({}) };
+    paymentsService = { refreshPaymentStatus: jest.fn().mockResolvedValue({}) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReturnsService,
+        UnitsOfMeasureService,
+        { provide: ReturnsRepository, useValue: returnsRepository },
+        { provide: SalesInvoicesRepository, useValue: salesInvoicesRepository },
+        { provide: PurchaseOrdersRepository, useValue: {} },
+        { provide: StockService, useValue: stockService },
+        { provide: PaymentsService, useValue: paymentsService },
+        {
+          provide: DrizzleService,
+          useValue: {
+            transaction: (work: (tx: DbTransaction) => Promise<unknown>) => work(tx),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReturnsService>(ReturnsService);
+  });
+
+  describe('createCustomerReturn', () => {
+    it('puts restocked goods back in stock in base units', async () => {
+      await service.createCustomerReturn(customerReturn(2), 'user-1');
+
+      expect(stockService.createTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          product_id: 'product-1',
+          transaction_type: StockTransactionType.IN,
+          quantity: 500,
+          reference_type: StockReferenceType.RETURN,
+          reference_id: 'return-1',
+        }),
+        { sales_invoice_item_id: 'invoice-item-1' },
+        tx,
+      );
+      expect(salesInvoicesRepository.updateSalesInvoiceItem)
+        .toHaveBeenCalledWith('invoice-item-1', expect.objectContaining({ quantity_returned: 2 }), tx);
+    });
+
+    it('only notes written off goods on the ledger', async () => {
+      await service.createCustomerReturn(customerReturn(1, ReturnDisposition.WRITE_OFF), 'user-1');
+
+      expect(stockService.createTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({ transaction_type: StockTransactionType.ADJUSTMENT, quantity: 250 }),
+        { sales_invoice_item_id: 'invoice-item-1' },
+        tx,
+      );
+    });
+
+    it('refunds what the goods actually cost and takes it off the invoice total', async () => {
+      await service.createCustomerReturn(customerReturn(2), 'user-1');
+
+      expect(returnsRepository.createReturn).toHaveBeenCalledWith(expect.objectContaining({ refund_amount: 9.9 }), tx);
+      expect(salesInvoicesRepository.updateSalesInvoice)
+        .toHaveBeenCalledWith('invoice-1', expect.objectContaining({ returned_amount: 9.9, total_amount: 9.9 }), tx);
+      expect(paymentsService.refreshPaymentStatus).toHaveBeenCalledWith('invoice-1', 'user-1', tx, PaymentMethod.CARD);
+    });
+
+    it('rejects returning more than is left on the line', async () => {
+      salesInvoicesRepository.findSalesInvoiceWithDetails.mockResolvedValue(invoice(3));
+
+      await expect(service.createCustomerReturn(customerReturn(2), 'user-1')).rejects.toThrow(BadRequestException);
+      expect(stockService.createTransaction).not.toHaveBeenCalled();
+    });
+
+    it('counts the same line split across dispositions against one returnable quantity', async () => {
+      const dto = customerReturn(3);
+      dto.items.push({ sales_invoice_item_id: 'invoice-item-1', quantity: 2, disposition: ReturnDisposition.WRITE_OFF });
+
+      await expect(service.createCustomerReturn(dto, 'user-1')).rejects.toThrow(BadRequestException);
+    });
+
+    it('rejects a refund above the invoice total', async () => {
+      const dto = { ...customerReturn(1), refund_amount: 19.81 };
+
+      await expect(service.createCustomerReturn(dto, 'user-1')).rejects.toThrow(BadRequestException);
+      expect(returnsRepository.createReturn).not.toHaveBeenCalled();
+    });
+
+    it('rejects returns against cancelled invoices', async () => {
+      salesInvoicesRepository.findSalesInvoiceWithDetails.mockResolvedValue({ ...invoice(), payment_status: 'CANCELLED' });
+
+      await expect(service.createCustomerReturn(customerReturn(1), 'user-1')).rejects.toThrow(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,404 @@
+import { Injectable, Logger, ConflictException, NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  ReturnsRepository,
+  ReturnEntity,
+  ReturnWithDetails,
+  ReturnDisposition,
+  ReturnReason,
+} from '../../core/database/repositories/returns.repository';
+import { SalesInvoicesRepository, SalesInvoiceWithDetails } from '../../core/database/repositories/sales-invoices.repository';
+import { PurchaseOrdersRepository, PurchaseOrderWithDetails } from '../../core/database/repositories/purchase-orders.repository';
+import { DrizzleService } from '../../core/database/drizzle.service';
+import { StockService } from '../stock/stock.service';
+import { UnitsOfMeasureService } from '../stock/units-of-measure.service';
+import { PaymentsService } from '../payments/payments.service';
+import { StockTransactionType, StockReferenceType } from '../stock/dto';
+import { CreateCustomerReturnDto, CreateSupplierReturnDto, ReturnFiltersDto } from './dto';
+import { MESSAGES } from '../../common/constants/string-const';
+
+interface ResolvedReturnLine {
+  product_id: string;
+  document_item_id: string;
+  quantity: number; // In the document line's unit
+  unit_factor: number;
+  disposition: ReturnDisposition;
+  reason?: ReturnReason;
+  unit_amount: number;
+  total_amount: number;
+  quantity_returned: number;
+}
+
+@Injectable()
+export class ReturnsService {
+  private readonly logger = new Logger(ReturnsService.name);
+
+  constructor(
+    private readonly returnsRepository: ReturnsRepository,
+    private readonly salesInvoicesRepository: SalesInvoicesRepository,
+    private readonly purchaseOrdersRepository: PurchaseOrdersRepository,
+    private readonly stockService: StockService,
+    private readonly unitsOfMeasureService: UnitsOfMeasureService,
+    private readonly paymentsService: PaymentsService,
+    private readonly drizzleService: DrizzleService,
+  ) {}
+
+  //#region ==================== RETURN OPERATIONS ====================
+
+  async createCustomerReturn(createReturnDto: CreateCustomerReturnDto, userId: string): Promise<ReturnWithDetails> {
+    this.logger.log(`Creating customer return for sales invoice: ${createReturnDto.sales_invoice_id} by user: ${userId}`);
+
+    const returnNumber = await this.generateReturnNumber('RMA');
+
+    try {
+      const returnId = await this.drizzleService.transaction(async (tx) => {
+        // The invoice and its items stay locked until the return commits, so concurrent
+        // returns see each other's quantity_returned
+        await this.salesInvoicesRepository.lockSalesInvoice(createReturnDto.sales_invoice_id, tx);
+        await this.salesInvoicesRepository.lockSalesInvoiceItems(createReturnDto.sales_invoice_id, tx);
+
+        const invoice = await this.salesInvoicesRepository.findSalesInvoiceWithDetails(createReturnDto.sales_invoice_id, tx);
+        if (!invoice) {
+          throw new NotFoundException(MESSAGES.SALES_INVOICE_NOT_FOUND);
+        }
+
+        if (invoice.payment_status === 'CANCELLED') {
+          throw new BadRequestException(MESSAGES.RETURN_INVOICE_CANCELLED);
+        }
+
+        const lines = this.resolveCustomerReturnLines(invoice, createReturnDto);
+        const refundAmount = this.resolveRefundAmount(createReturnDto.refund_amount, lines);
+        if (refundAmount > parseFloat(invoice.total_amount)) {
+          throw new BadRequestException(MESSAGES.RETURN_REFUND_EXCEEDS_TOTAL);
+        }
+
+        const returnRecord = await this.returnsRepository.createReturn({
+          return_number: returnNumber,
+          return_type: 'CUSTOMER',
+          sales_invoice_id: invoice.id,
+          reason: createReturnDto.reason,
+          refund_amount: refundAmount,
+          notes: createReturnDto.notes,
+          created_by: userId,
+        }, tx);
+
+        const returnedByItem = new Map<string, number>();
+        for (const line of lines) {
+          await this.returnsRepository.addReturnItem({
+            return_id: returnRecord.id,
+            product_id: line.product_id,
+            sales_invoice_item_id: line.document_item_id,
+            quantity: line.quantity,
+            disposition: line.disposition,
+            reason: line.reason,
+            unit_amount: line.unit_amount,
+            total_amount: line.total_amount,
+            created_by: userId,
+          }, tx);
+
+          // Restocked goods go back on the shelf; written off goods only leave a ledger note
+          await this.stockService.createTransaction({
+            product_id: line.product_id,
+            transaction_type: line.disposition === 'RESTOCK' ? StockTransactionType.IN : StockTransactionType.ADJUSTMENT,
+            quantity: this.unitsOfMeasureService.toBaseQuantity(line.quantity, line.unit_factor),
+            reference_type: StockReferenceType.RETURN,
+            reference_id: returnRecord.id,
+            notes: line.disposition === 'RESTOCK'
+              ? `Customer return ${returnNumber} restocked from invoice ${invoice.invoice_number}`
+              : `Customer return ${returnNumber} written off from invoice ${invoice.invoice_number}`,
+            created_by: userId,
+          }, { sales_invoice_item_id: line.document_item_id }, tx);
+
+          returnedByItem.set(
+            line.document_item_id,
+            this.roundQuantity((returnedByItem.get(line.document_item_id) ?? line.quantity_returned) + line.quantity),
+          );
+        }
+
+        for (const [itemId, quantityReturned] of returnedByItem) {
+          await this.salesInvoicesRepository.updateSalesInvoiceItem(itemId, {
+            quantity_returned: quantityReturned,
+            updated_by: userId,
+          }, tx);
+        }
+
+        await this.salesInvoicesRepository.updateSalesInvoice(invoice.id, {
+          returned_amount: this.roundCurrency(parseFloat(invoice.returned_amount) + refundAmount),
+          total_amount: this.roundCurrency(parseFloat(invoice.total_amount) - refundAmount),
+          updated_by: userId,
+        }, tx);
+
+        // A smaller total can settle a part-paid invoice; any overpayment is paid back as a refund
+        await this.paymentsService.refreshPaymentStatus(invoice.id, userId, tx, createReturnDto.refund_method);
+
+        return returnRecord.id;
+      });
+
+      this.logger.log(`Customer return created successfully: ${returnNumber} (ID: ${returnId})`);
+      return this.findReturnById(returnId);
+    } catch (error) {
+      this.logger.error(`Failed to create customer return: ${returnNumber}`, error.stack);
+      throw error;
+    }
+  }
+
+  async createSupplierReturn(createReturnDto: CreateSupplierReturnDto, userId: string): Promise<ReturnWithDetails> {
+    this.logger.log(`Creating supplier return for purchase order: ${createReturnDto.purchase_order_id} by user: ${userId}`);
+
+    const returnNumber = await this.generateReturnNumber('RTS');
+
+    try {
+      const returnId = await this.drizzleService.transaction(async (tx) => {
+        // The order and its items stay locked until the return commits, so concurrent
+        // returns see each other's quantity_returned
+        await this.purchaseOrdersRepository.lockPurchaseOrder(createReturnDto.purchase_order_id, tx);
+        await this.purchaseOrdersRepository.lockPurchaseOrderItems(createReturnDto.purchase_order_id, tx);
+
+        const order = await this.purchaseOrdersRepository.findPurchaseOrderWithDetails(createReturnDto.purchase_order_id, tx);
+        if (!order) {
+          throw new NotFoundException(MESSAGES.PURCHASE_ORDER_NOT_FOUND);
+        }
+
+        if (order.status !== 'RECEIVED' && order.status !== 'PARTIALLY_RECEIVED') {
+          throw new BadRequestException(MESSAGES.RETURN_PURCHASE_ORDER_NOT_RECEIVED);
+        }
+
+        const lines = this.resolveSupplierReturnLines(order, createReturnDto);
+        const refundAmount = this.resolveRefundAmount(createReturnDto.refund_amount, lines);
+        if (order.total_amount !== null && refundAmount > parseFloat(order.total_amount)) {
+          throw new BadRequestException(MESSAGES.RETURN_REFUND_EXCEEDS_TOTAL);
+        }
+
+        const returnRecord = await this.returnsRepository.createReturn({
+          return_number: returnNumber,
+          return_type: 'SUPPLIER',
+          purchase_order_id: order.id,
+          reason: createReturnDto.reason,
+          refund_amount: refundAmount,
+          notes: createReturnDto.notes,
+          created_by: userId,
+        }, tx);
+
+        for (const line of lines) {
+          await this.returnsRepository.addReturnItem({
+            return_id: returnRecord.id,
+            product_id: line.product_id,
+            purchase_order_item_id: line.document_item_id,
+            quantity: line.quantity,
+            disposition: line.disposition,
+            reason: line.reason,
+            unit_amount: line.unit_amount,
+            total_amount: line.total_amount,
+            created_by: userId,
+          }, tx);
+
+          // Goods shipped back to the supplier leave available stock
+          await this.stockService.createTransaction({
+            product_id: line.product_id,
+            transaction_type: StockTransactionType.OUT,
+            quantity: this.unitsOfMeasureService.toBaseQuantity(line.quantity, line.unit_factor),
+            reference_type: StockReferenceType.RETURN,
+            reference_id: returnRecord.id,
+            notes: `Supplier return ${returnNumber} against purchase order ${order.order_number}`,
+            created_by: userId,
+          }, { purchase_order_item_id: line.document_item_id }, tx);
+
+          await this.purchaseOrdersRepository.updatePurchaseOrderItem(line.document_item_id, {
+            quantity_returned: this.roundQuantity(line.quantity_returned + line.quantity),
+            updated_by: userId,
+          }, tx);
+        }
+
+        await this.purchaseOrdersRepository.updatePurchaseOrder(order.id, {
+          returned_amount: this.roundCurrency(parseFloat(order.returned_amount) + refundAmount),
+          ...(order.total_amount !== null && {
+            total_amount: this.roundCurrency(parseFloat(order.total_amount) - refundAmount),
+          }),
+          updated_by: userId,
+        }, tx);
+
+        return returnRecord.id;
+      });
+
+      this.logger.log(`Supplier return created successfully: ${returnNumber} (ID: ${returnId})`);
+      return this.findReturnById(returnId);
+    } catch (error) {
+      this.logger.error(`Failed to create supplier return: ${returnNumber}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findAllReturns(
+    filters: ReturnFiltersDto = {},
+    page = 1,
+    limit = 10,
+  ): Promise<{
+    data: ReturnEntity[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    this.logger.log(`Finding returns with filters:`, filters);
+
+    try {
+      // Convert date strings to Date objects
+      const processedFilters = {
+        ...filters,
+        date_from: filters.date_from ? new Date(filters.date_from) : undefined,
+        date_to: filters.date_to ? new Date(filters.date_to) : undefined,
+      };
+
+      const result = await this.returnsRepository.findAllReturns(processedFilters, page, limit);
+
+      this.logger.log(`Found ${result.data.length} returns out of ${result.total} total`);
+      return result;
+    } catch (error) {
+      this.logger.error('Failed to find returns', error.stack);
+      throw error;
+    }
+  }
+
+  async findReturnById(id: string): Promise<ReturnWithDetails> {
+    this.logger.log(`Finding return by ID: ${id}`);
+
+    const returnRecord = await this.returnsRepository.findReturnWithDetails(id);
+    if (!returnRecord) {
+      this.logger.warn(`Return not found with ID: ${id}`);
+      throw new NotFoundException(MESSAGES.RETURN_NOT_FOUND);
+    }
+
+    this.logger.log(`Return found: ${returnRecord.return_number} (ID: ${id})`);
+    return returnRecord;
+  }
+
+  //#region ==================== UTILITY OPERATIONS ====================
+
+  /**
+   * Matches every returned line to the invoice and checks it has not already been returned
+   */
+  private resolveCustomerReturnLines(invoice: SalesInvoiceWithDetails, createReturnDto: CreateCustomerReturnDto): ResolvedReturnLine[] {
+    const lines = new Map<string, ResolvedReturnLine>();
+    for (const itemDto of createReturnDto.items) {
+      const invoiceItem = invoice.items.find(item => item.id === itemDto.sales_invoice_item_id);
+      if (!invoiceItem) {
+        throw new BadRequestException(MESSAGES.RETURN_ITEM_NOT_ON_DOCUMENT);
+      }
+
+      const key = `${invoiceItem.id}:${itemDto.disposition}`;
+      const alreadyRequested = [...lines.values()]
+        .filter(line => line.document_item_id === invoiceItem.id)
+        .reduce((sum, line) => sum + line.quantity, 0);
+      const returnable = this.roundQuantity(invoiceItem.quantity - invoiceItem.quantity_returned);
+      const requested = this.roundQuantity(alreadyRequested + itemDto.quantity);
+      if (requested > returnable) {
+        throw new BadRequestException(
+          `${MESSAGES.RETURN_QUANTITY_EXCEEDED}: ${invoiceItem.product.name}. ` +
+          `Returnable: ${returnable}, Requested: ${requested}`
+        );
+      }
+      this.unitsOfMeasureService.toBaseQuantity(itemDto.quantity, invoiceItem.unit_factor);
+
+      const unitPrice = this.effectiveUnitAmount(
+        invoiceItem.taxable_amount, invoiceItem.tax_amount, invoiceItem.quantity, invoiceItem.unit_price,
+      );
+      const existing = lines.get(key);
+      const quantity = this.roundQuantity((existing?.quantity ?? 0) + itemDto.quantity);
+      lines.set(key, {
+        product_id: invoiceItem.product_id,
+        document_item_id: invoiceItem.id,
+        quantity,
+        unit_factor: invoiceItem.unit_factor,
+        disposition: itemDto.disposition,
+        reason: itemDto.reason ?? existing?.reason,
+        unit_amount: unitPrice,
+        total_amount: this.roundCurrency(unitPrice * quantity),
+        quantity_returned: invoiceItem.quantity_returned,
+      });
+    }
+    return [...lines.values()];
+  }
+
+  /**
+   * Only goods that were actually received and not yet sent back can be returned
+   */
+  private resolveSupplierReturnLines(order: PurchaseOrderWithDetails, createReturnDto: CreateSupplierReturnDto): ResolvedReturnLine[] {
+    const lines = new Map<string, ResolvedReturnLine>();
+    for (const itemDto of createReturnDto.items) {
+      const orderItem = order.items.find(item => item.id === itemDto.purchase_order_item_id);
+      if (!orderItem) {
+        throw new BadRequestException(MESSAGES.RETURN_ITEM_NOT_ON_DOCUMENT);
+      }
+
+      const existing = lines.get(orderItem.id);
+      const quantity = this.roundQuantity((existing?.quantity ?? 0) + itemDto.quantity);
+      const returnable = this.roundQuantity(orderItem.quantity_received - orderItem.quantity_returned);
+      if (quantity > returnable) {
+        throw new BadRequestException(
+          `${MESSAGES.RETURN_QUANTITY_EXCEEDED}: ${orderItem.product.name}. ` +
+          `Returnable: ${returnable}, Requested: ${quantity}`
+        );
+      }
+      this.unitsOfMeasureService.toBaseQuantity(itemDto.quantity, orderItem.unit_factor);
+
+      const unitCost = this.effectiveUnitAmount(
+        orderItem.taxable_amount, orderItem.tax_amount, orderItem.quantity_ordered, orderItem.unit_cost,
+      );
+      lines.set(orderItem.id, {
+        product_id: orderItem.product_id,
+        document_item_id: orderItem.id,
+        quantity,
+        unit_factor: orderItem.unit_factor,
+        disposition: 'WRITE_OFF',
+        reason: itemDto.reason ?? existing?.reason,
+        unit_amount: unitCost,
+        total_amount: this.roundCurrency(unitCost * quantity),
+        quantity_returned: orderItem.quantity_returned,
+      });
+    }
+    return [...lines.values()];
+  }
+
+  /**
+   * Uses the requested refund, falling back to the value of the returned lines
+   */
+  private resolveRefundAmount(requested: number | undefined, lines: ResolvedReturnLine[]): number {
+    if (requested !== undefined) {
+      return this.roundCurrency(requested);
+    }
+    return this.roundCurrency(lines.reduce((sum, line) => sum + line.total_amount, 0));
+  }
+
+  /**
+   * What one unit actually cost on the document: its share of the discounted net plus tax
+   */
+  private effectiveUnitAmount(taxableAmount: string, taxAmount: string, quantity: number, unitAmount: string): number {
+    if (quantity <= 0) {
+      return parseFloat(unitAmount);
+    }
+    return this.roundCurrency((parseFloat(taxableAmount) + parseFloat(taxAmount)) / quantity);
+  }
+
+  private roundCurrency(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private roundQuantity(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+
+  private async generateReturnNumber(prefix: 'RMA' | 'RTS'): Promise<string> {
+    const datePart = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+
+    // Retry on the unlikely event of a collision
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const randomPart = Math.floor(Math.random() * 1000000).toString().padStart(6, '0');
+      const returnNumber = `${prefix}-${datePart}-${randomPart}`;
+
+      const existingReturn = await this.returnsRepository.findReturnByReturnNumber(returnNumber);
+      if (!existingReturn) {
+        return returnNumber;
+      }
+    }
+
+    throw new ConflictException(`Could not generate a unique return number`);
+  }
+}
@@ -0,0 +1,147 @@
+import { IsString, IsNotEmpty, IsOptional, IsNumber, IsUUID, IsArray, IsEmail, ValidateNested, ArrayMinSize, Min, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import { InvoicePaymentDto } from '../../payments/dto';
+
+export class CreateSalesInvoiceItemDto {
+  @ApiProperty({
+    description: 'Product ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID(4, { message: 'Product ID must be a valid UUID' })
+  @IsNotEmpty({ message: 'Product ID is required' })
+  product_id: string;
+
+  @ApiPropertyOptional({
+    description: "Unit the line is sold in; defaults to the product's sales unit",
+    example: 'KG',
+  })
+  @IsOptional()
+  @IsString({ message: 'Unit code must be a string' })
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  unit_code?: string;
+
+  @ApiProperty({
+    description: 'Quantity sold, in the line unit; fractions must come to whole base units',
+    example: 2,
+    minimum: 0.001,
+  })
+  @IsNumber({ maxDecimalPlaces: 3 }, { message: 'Quantity must be a number with max 3 decimal places' })
+  @Min(0.001, { message: 'Quantity must be greater than 0' })
+  @Type(() => Number)
+  quantity: number;
+
+  @ApiPropertyOptional({
+    description: 'Price of one line unit (defaults to the product unit price, converted to the line unit)',
+    example: 49.99,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Unit price must be a number with max 2 decimal places' })
+  @Min(0, { message: 'Unit price cannot be negative' })
+  @Type(() => Number)
+  unit_price?: number;
+}
+
+export class CreateSalesInvoiceDto {
+  @ApiPropertyOptional({
+    description: 'Invoice number (must be unique, generated when omitted)',
+    example: 'INV-20240115-0001',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString({ message: 'Invoice number must be a string' })
+  @MaxLength(100, { message: 'Invoice number cannot exceed 100 characters' })
+  @Transform(({ value }) => value?.trim())
+  invoice_number?: string;
+
+  @ApiPropertyOptional({
+    description: 'Customer account; when omitted the invoice is matched to a customer by email or phone',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsUUID(4, { message: 'Customer ID must be a valid UUID' })
+  customer_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Customer name (defaults to the customer account name)',
+    example: 'Jane Smith',
+  })
+  @IsOptional()
+  @IsString({ message: 'Customer name must be a string' })
+  @Transform(({ value }) => value?.trim())
+  customer_name?: string;
+
+  @ApiPropertyOptional({
+    description: 'Customer email',
+    example: 'jane@example.com',
+  })
+  @IsOptional()
+  @IsEmail({}, { message: 'Customer email must be a valid email address' })
+  @Transform(({ value }) => value?.trim().toLowerCase())
+  customer_email?: string;
+
+  @ApiPropertyOptional({
+    description: 'Customer phone',
+    example: '+1-555-0100',
+  })
+  @IsOptional()
+  @IsString({ message: 'Customer phone must be a string' })
+  @Transform(({ value }) => value?.trim())
+  customer_phone?: string;
+
+  @ApiPropertyOptional({
+    description: 'Manual discount on top of any promotions, spread across the lines before tax',
+    example: 5.0,
+    default: 0,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Discount amount must be a number with max 2 decimal places' })
+  @Min(0, { message: 'Discount amount cannot be negative' })
+  @Type(() => Number)
+  discount_amount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Coupon code to redeem against the invoice',
+    example: 'SUMMER10',
+    maxLength: 30,
+  })
+  @IsOptional()
+  @IsString({ message: 'Coupon code must be a string' })
+  @MaxLength(30, { message: 'Coupon code cannot exceed 30 characters' })
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  coupon_code?: string;
+
+  @ApiPropertyOptional({
+    description: 'Cash collected at checkout when no payments are listed; anything over the total is change given back',
+    example: 103.98,
+    default: 0,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Amount paid must be a number with max 2 decimal places' })
+  @Min(0, { message: 'Amount paid cannot be negative' })
+  @Type(() => Number)
+  amount_paid?: number;
+
+  @ApiPropertyOptional({
+    description: 'Payments taken at checkout, e.g. part cash and part card; marks the invoice PAID when they cover the total and PARTIAL when they do not',
+    type: [InvoicePaymentDto],
+  })
+  @IsOptional()
+  @IsArray({ message: 'Payments must be an array' })
+  @ValidateNested({ each: true })
+  @Type(() => InvoicePaymentDto)
+  payments?: InvoicePaymentDto[];
+
+  @ApiProperty({
+    description: 'Sales invoice items',
+    type: [CreateSalesInvoiceItemDto],
+  })
+  @IsArray({ message: 'Items must be an array' })
+  @ArrayMinSize(1, { message: 'A sales invoice requires at least one item' })
+  @ValidateNested({ each: true })
+  @Type(() => CreateSalesInvoiceItemDto)
+  items: CreateSalesInvoiceItemDto[];
+}
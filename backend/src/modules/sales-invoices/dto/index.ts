@@ -0,0 +1,6 @@
+export * from './create-sales-invoice.dto';
+export * from './update-sales-invoice.dto';
+export * from './sales-invoice-response.dto';
+export * from './sales-invoice-list-response.dto';
+export * from './sales-invoice-filters.dto';
+export * from './quote-sales-invoice.dto';
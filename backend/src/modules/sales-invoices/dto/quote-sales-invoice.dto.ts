@@ -0,0 +1,102 @@
+import { ApiProperty, ApiPropertyOptional, PickType } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { CreateSalesInvoiceDto } from './create-sales-invoice.dto';
+
+export class QuoteSalesInvoiceDto extends PickType(CreateSalesInvoiceDto, ['items', 'discount_amount', 'coupon_code'] as const) {
+  // Priced exactly as creating the invoice would price it, without saving anything
+}
+
+export class SalesInvoiceQuoteLineDto {
+  @ApiProperty({
+    description: 'Product ID, in the order the items were sent',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  product_id: string;
+
+  @ApiPropertyOptional({
+    description: 'Promotion applied to the line',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  promotion_id: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Name of the promotion applied to the line',
+    example: 'Summer Sale',
+  })
+  @Expose()
+  promotion_name: string | null;
+
+  @ApiProperty({
+    description: 'Promotion discount off the line, before tax',
+    example: 4.0,
+  })
+  @Expose()
+  promotion_amount: number;
+
+  @ApiProperty({
+    description: 'Line amount tax is charged on, after promotions and its share of the discount',
+    example: 95.98,
+  })
+  @Expose()
+  taxable_amount: number;
+
+  @ApiProperty({
+    description: 'Tax charged on the line',
+    example: 9.6,
+  })
+  @Expose()
+  tax_amount: number;
+}
+
+export class SalesInvoiceQuoteResponseDto {
+  @ApiProperty({
+    description: 'Pricing per line, in the order the items were sent',
+    type: [SalesInvoiceQuoteLineDto],
+  })
+  @Expose()
+  lines: SalesInvoiceQuoteLineDto[];
+
+  @ApiPropertyOptional({
+    description: 'Coupon code that was applied',
+    example: 'SUMMER20',
+  })
+  @Expose()
+  coupon_code: string | null;
+
+  @ApiProperty({
+    description: 'Line amounts before tax, promotions and discount',
+    example: 99.98,
+  })
+  @Expose()
+  subtotal: number;
+
+  @ApiProperty({
+    description: 'Promotion discounts across the lines, before tax',
+    example: 4.0,
+  })
+  @Expose()
+  promotion_amount: number;
+
+  @ApiProperty({
+    description: 'Promotions plus the requested discount, as the invoice will record it',
+    example: 4.0,
+  })
+  @Expose()
+  discount_amount: number;
+
+  @ApiProperty({
+    description: 'Tax across the lines',
+    example: 9.6,
+  })
+  @Expose()
+  tax_amount: number;
+
+  @ApiProperty({
+    description: 'Amount the invoice will be for',
+    example: 105.58,
+  })
+  @Expose()
+  total_amount: number;
+}
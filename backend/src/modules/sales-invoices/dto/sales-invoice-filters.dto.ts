@@ -0,0 +1,79 @@
+import { IsOptional, IsString, IsEnum, IsDateString, IsUUID, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+
+export enum PaymentStatus {
+  PENDING = 'PENDING',
+  PAID = 'PAID',
+  PARTIAL = 'PARTIAL',
+  CANCELLED = 'CANCELLED',
+}
+
+export class SalesInvoiceFiltersDto {
+  @ApiPropertyOptional({
+    description: 'Filter by payment status',
+    enum: PaymentStatus,
+    example: PaymentStatus.PENDING,
+  })
+  @IsOptional()
+  @IsEnum(PaymentStatus, { message: 'Payment status must be a valid payment status' })
+  payment_status?: PaymentStatus;
+
+  @ApiPropertyOptional({
+    description: 'Filter by invoice number (partial match)',
+    example: 'INV-2024',
+  })
+  @IsOptional()
+  @IsString({ message: 'Invoice number filter must be a string' })
+  @MaxLength(50, { message: 'Invoice number filter cannot exceed 50 characters' })
+  @Transform(({ value }) => value?.trim())
+  invoice_number?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by customer name, email or phone (partial match)',
+    example: 'jane',
+  })
+  @IsOptional()
+  @IsString({ message: 'Customer filter must be a string' })
+  @MaxLength(100, { message: 'Customer filter cannot exceed 100 characters' })
+  @Transform(({ value }) => value?.trim())
+  customer?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by customer account',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsUUID(4, { message: 'Customer ID must be a valid UUID' })
+  customer_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by invoice date from (inclusive)',
+    example: '2024-01-01',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'Date from must be a valid date string' })
+  date_from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by invoice date to (inclusive)',
+    example: '2024-12-31',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'Date to must be a valid date string' })
+  date_to?: string;
+
+  @ApiPropertyOptional({
+    description: 'Include soft deleted sales invoices (Admin only)',
+    example: false,
+    default: false,
+  })
+  @IsOptional()
+  @Type(() => Boolean)
+  @Transform(({ value }) => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return value;
+  })
+  withDeleted?: boolean;
+}
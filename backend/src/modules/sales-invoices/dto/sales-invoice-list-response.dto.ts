@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { SalesInvoiceResponseDto } from './sales-invoice-response.dto';
+
+export class SalesInvoiceListResponseDto {
+  @ApiProperty({
+    description: 'Array of sales invoices',
+    type: [SalesInvoiceResponseDto],
+  })
+  @Expose()
+  data: SalesInvoiceResponseDto[];
+
+  @ApiProperty({
+    description: 'Total number of sales invoices',
+    example: 25,
+  })
+  @Expose()
+  total: number;
+
+  @ApiProperty({
+    description: 'Current page number',
+    example: 1,
+  })
+  @Expose()
+  page: number;
+
+  @ApiProperty({
+    description: 'Total number of pages',
+    example: 3,
+  })
+  @Expose()
+  totalPages: number;
+
+  @ApiProperty({
+    description: 'Number of sales invoices per page',
+    example: 10,
+  })
+  @Expose()
+  limit: number;
+}
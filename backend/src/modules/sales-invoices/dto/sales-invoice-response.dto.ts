@@ -0,0 +1,267 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Transform } from 'class-transformer';
+
+export class SalesInvoiceItemResponseDto {
+  @ApiProperty({
+    description: 'Sales invoice item unique identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  id: string;
+
+  @ApiProperty({
+    description: 'Sales invoice ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  sales_invoice_id: string;
+
+  @ApiProperty({
+    description: 'Product information; variant_options is set when the line is for a product variant',
+  })
+  @Expose()
+  product: {
+    id: string;
+    name: string;
+    sku: string;
+    barcode: string | null;
+    variant_options: Record<string, string> | null;
+    base_unit: string;
+  };
+
+  @ApiProperty({
+    description: 'Unit the line quantities and unit price are in',
+    example: 'KG',
+  })
+  @Expose()
+  unit_code: string;
+
+  @ApiProperty({
+    description: 'Base units in one line unit, as at the time of sale',
+    example: 1000,
+  })
+  @Expose()
+  unit_factor: number;
+
+  @ApiProperty({
+    description: 'Quantity sold, in the line unit',
+    example: 2,
+  })
+  @Expose()
+  quantity: number;
+
+  @ApiProperty({
+    description: 'Quantity returned by the customer',
+    example: 0,
+  })
+  @Expose()
+  quantity_returned: number;
+
+  @ApiProperty({
+    description: 'Unit price',
+    example: '49.99',
+  })
+  @Expose()
+  unit_price: string;
+
+  @ApiProperty({
+    description: 'Total price for this line item',
+    example: '99.98',
+  })
+  @Expose()
+  total_price: string;
+
+  @ApiPropertyOptional({
+    description: 'Tax class applied to this line',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  tax_class_id: string | null;
+
+  @ApiProperty({
+    description: 'Tax rate applied to this line (percent)',
+    example: '18.00',
+  })
+  @Expose()
+  tax_rate: string;
+
+  @ApiProperty({
+    description: 'Whether the line price already included the tax',
+    example: false,
+  })
+  @Expose()
+  tax_inclusive: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Promotion that discounted this line',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  promotion_id: string | null;
+
+  @ApiProperty({
+    description: 'Promotion discount on this line, net of tax',
+    example: '5.00',
+  })
+  @Expose()
+  discount_amount: string;
+
+  @ApiProperty({
+    description: 'Line amount net of tax and discount',
+    example: '94.98',
+  })
+  @Expose()
+  taxable_amount: string;
+
+  @ApiProperty({
+    description: 'Tax charged on this line',
+    example: '17.10',
+  })
+  @Expose()
+  tax_amount: string;
+
+  @ApiProperty({
+    description: 'Cost of the units that left stock for this line, net of units restocked',
+    example: '62.40',
+  })
+  @Expose()
+  cost_of_goods_sold: string;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  @Expose()
+  @Transform(({ value }) => value instanceof Date ? value.toISOString() : value)
+  created_at: Date;
+}
+
+export class SalesInvoiceResponseDto {
+  @ApiProperty({
+    description: 'Sales invoice unique identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  id: string;
+
+  @ApiProperty({
+    description: 'Invoice number',
+    example: 'INV-20240115-0001',
+  })
+  @Expose()
+  invoice_number: string;
+
+  @ApiPropertyOptional({
+    description: 'Customer account the invoice belongs to',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  customer_id?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Customer name',
+    example: 'Jane Smith',
+  })
+  @Expose()
+  customer_name?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Customer email',
+    example: 'jane@example.com',
+  })
+  @Expose()
+  customer_email?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Customer phone',
+    example: '+1-555-0100',
+  })
+  @Expose()
+  customer_phone?: string | null;
+
+  @ApiProperty({
+    description: 'Sum of all line totals',
+    example: '99.98',
+  })
+  @Expose()
+  subtotal: string;
+
+  @ApiProperty({
+    description: 'Tax amount',
+    example: '9.00',
+  })
+  @Expose()
+  tax_amount: string;
+
+  @ApiProperty({
+    description: 'Discount amount (promotions plus any manual discount)',
+    example: '5.00',
+  })
+  @Expose()
+  discount_amount: string;
+
+  @ApiPropertyOptional({
+    description: 'Coupon code redeemed on the invoice',
+    example: 'SUMMER10',
+  })
+  @Expose()
+  coupon_code?: string | null;
+
+  @ApiProperty({
+    description: 'Amount refunded through customer returns',
+    example: '0.00',
+  })
+  @Expose()
+  returned_amount: string;
+
+  @ApiProperty({
+    description: 'Total amount (subtotal + tax - discount - returned)',
+    example: '103.98',
+  })
+  @Expose()
+  total_amount: string;
+
+  @ApiProperty({
+    description: 'Payment status',
+    example: 'PENDING',
+  })
+  @Expose()
+  payment_status: string;
+
+  @ApiPropertyOptional({
+    description: 'Sales invoice items',
+    type: [SalesInvoiceItemResponseDto],
+  })
+  @Expose()
+  items?: SalesInvoiceItemResponseDto[];
+
+  @ApiProperty({
+    description: 'User who created the sales invoice',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  created_by: string;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  @Expose()
+  @Transform(({ value }) => value instanceof Date ? value.toISOString() : value)
+  created_at: Date;
+
+  @ApiPropertyOptional({
+    description: 'User who last updated the sales invoice',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  updated_by?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Last update timestamp',
+    example: '2024-01-16T14:20:00.000Z',
+  })
+  @Expose()
+  @Transform(({ value }) => value instanceof Date ? value.toISOString() : value)
+  updated_at?: Date | null;
+}
@@ -0,0 +1,15 @@
+import { PartialType, OmitType } from '@nestjs/swagger';
+import { CreateSalesInvoiceDto, CreateSalesInvoiceItemDto } from './create-sales-invoice.dto';
+
+export class UpdateSalesInvoiceItemDto extends PartialType(
+  OmitType(CreateSalesInvoiceItemDto, ['product_id'])
+) {
+  // Quantity and unit price can be changed; swap the product by replacing the line
+}
+
+export class UpdateSalesInvoiceDto extends PartialType(
+  OmitType(CreateSalesInvoiceDto, ['items', 'invoice_number', 'amount_paid', 'payments'])
+) {
+  // Customer details and discount can be changed while the invoice is pending; tax follows the lines
+  // Items are managed through separate endpoints, payments through the payments ledger
+}
@@ -0,0 +1,4 @@
+export * from './sales-invoices.service';
+export * from './sales-invoices.controller';
+export * from './sales-invoices.module';
+export * from './dto';
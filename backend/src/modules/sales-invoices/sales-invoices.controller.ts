@@ -0,0 +1,494 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Logger,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  DefaultValuePipe,
+  StreamableFile,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiConflictResponse,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { SalesInvoicesService } from './sales-invoices.service';
+import { DocumentsService } from '../documents/documents.service';
+import {
+  CreateSalesInvoiceDto,
+  UpdateSalesInvoiceDto,
+  SalesInvoiceResponseDto,
+  SalesInvoiceListResponseDto,
+  SalesInvoiceFiltersDto,
+  CreateSalesInvoiceItemDto,
+  UpdateSalesInvoiceItemDto,
+  QuoteSalesInvoiceDto,
+  SalesInvoiceQuoteResponseDto
+} from './dto';
+import { AuthGuard } from '../../common/guards/auth.guard';
+import { ManagerGuard } from '../../common/guards/manager.guard';
+import { StaffGuard } from '../../common/guards/staff.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { successResponse, createdResponse } from '../../common/helpers/api-response.helper';
+import { API_MESSAGES } from '../../common/constants/string-const';
+
+@ApiTags('Sales Invoices')
+@Controller('sales-invoices')
+@UseGuards(AuthGuard) // All endpoints require authentication
+@ApiBearerAuth()
+export class SalesInvoicesController {
+  private readonly logger = new Logger(SalesInvoicesController.name);
+
+  constructor(
+    private readonly salesInvoicesService: SalesInvoicesService,
+    private readonly documentsService: DocumentsService,
+  ) {}
+
+  //#region ==================== CREATE OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Create a new sales invoice',
+    description: 'Create a new sales invoice with line items. Totals are calculated server-side and sold quantities are deducted from stock. Requires STAFF role or above.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Sales invoice created successfully',
+    type: SalesInvoiceResponseDto,
+  })
+  @ApiConflictResponse({ description: 'Sales invoice number already exists' })
+  @ApiNotFoundResponse({ description: 'Product not found' })
+  @ApiBadRequestResponse({ description: 'Invalid input data or insufficient stock' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  async createSalesInvoice(
+    @Body() createSalesInvoiceDto: CreateSalesInvoiceDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Creating sales invoice by user: ${userId}`);
+
+    const salesInvoice = await this.salesInvoicesService.createSalesInvoice(createSalesInvoiceDto, userId);
+
+    this.logger.log(`Sales invoice created successfully: ${salesInvoice.id}`);
+    return createdResponse(salesInvoice, API_MESSAGES.SALES_INVOICE_CREATED);
+  }
+
+  @ApiOperation({
+    summary: 'Quote a sales invoice',
+    description: 'Price a cart exactly as creating the invoice would, with promotions, discount and tax per line, without saving it or checking stock. Requires STAFF role or above.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sales invoice quoted successfully',
+    type: SalesInvoiceQuoteResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Product not found' })
+  @ApiBadRequestResponse({ description: 'Invalid input data or coupon code cannot be redeemed for this cart' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Post('quote')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  async quoteSalesInvoice(@Body() quoteSalesInvoiceDto: QuoteSalesInvoiceDto) {
+    this.logger.log(`Quoting sales invoice with ${quoteSalesInvoiceDto.items.length} items`);
+
+    const quote = await this.salesInvoicesService.quoteSalesInvoice(quoteSalesInvoiceDto);
+
+    return successResponse(quote, API_MESSAGES.SALES_INVOICE_QUOTED);
+  }
+
+  //#region ==================== READ OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Get all sales invoices',
+    description: 'Retrieve a paginated list of sales invoices with optional filtering. Requires STAFF role or above.',
+  })
+  @ApiQuery({ name: 'page', required: false, type: Number, description: 'Page number (starting from 1)', example: 1 })
+  @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Number of items per page (1-100)', example: 10 })
+  @ApiQuery({ name: 'payment_status', required: false, type: String, description: 'Filter by payment status' })
+  @ApiQuery({ name: 'invoice_number', required: false, type: String, description: 'Filter by invoice number (partial match)' })
+  @ApiQuery({ name: 'customer', required: false, type: String, description: 'Filter by customer name, email or phone (partial match)' })
+  @ApiQuery({ name: 'customer_id', required: false, type: String, description: 'Filter by customer account ID' })
+  @ApiQuery({ name: 'date_from', required: false, type: String, description: 'Filter by invoice date from (YYYY-MM-DD)' })
+  @ApiQuery({ name: 'date_to', required: false, type: String, description: 'Filter by invoice date to (YYYY-MM-DD)' })
+  @ApiQuery({ name: 'withDeleted', required: false, type: Boolean, description: 'Include soft deleted invoices (Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Sales invoices retrieved successfully',
+    type: SalesInvoiceListResponseDto,
+  })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get()
+  @UseGuards(StaffGuard)
+  async findAllSalesInvoices(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(10), ParseIntPipe) limit: number,
+    @Query() filters: SalesInvoiceFiltersDto,
+    @CurrentUser() user: any,
+  ) {
+    this.logger.log(`Finding sales invoices - page: ${page}, limit: ${limit}`);
+
+    // Validate pagination
+    if (page < 1) page = 1;
+    if (limit < 1) limit = 1;
+    if (limit > 100) limit = 100;
+
+    // Only admins can see deleted invoices
+    if (filters.withDeleted && user.role !== 'ADMIN') {
+      filters.withDeleted = false;
+    }
+
+    const result = await this.salesInvoicesService.findAllSalesInvoices(filters, page, limit);
+
+    this.logger.log(`Found ${result.data.length} sales invoices`);
+    return successResponse({
+      ...result,
+      limit,
+    }, API_MESSAGES.SALES_INVOICES_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Get sales invoice by ID',
+    description: 'Retrieve a specific sales invoice with its line items by ID. Requires STAFF role or above.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Sales invoice UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sales invoice retrieved successfully',
+    type: SalesInvoiceResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Sales invoice not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get(':id')
+  @UseGuards(StaffGuard)
+  async findSalesInvoiceById(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`Finding sales invoice by ID: ${id}`);
+
+    const salesInvoice = await this.salesInvoicesService.findSalesInvoiceById(id);
+
+    this.logger.log(`Sales invoice found: ${salesInvoice.invoice_number}`);
+    return successResponse(salesInvoice, API_MESSAGES.SALES_INVOICE_FETCHED);
+  }
+
+  //#region ==================== UPDATE OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Update a sales invoice',
+    description: 'Update customer details, tax or discount of a pending sales invoice. Requires MANAGER or ADMIN role.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Sales invoice UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sales invoice updated successfully',
+    type: SalesInvoiceResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Sales invoice not found' })
+  @ApiBadRequestResponse({ description: 'Invalid input data or invoice is not pending' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Patch(':id')
+  @UseGuards(ManagerGuard)
+  async updateSalesInvoice(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateSalesInvoiceDto: UpdateSalesInvoiceDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Updating sales invoice: ${id} by user: ${userId}`);
+
+    const salesInvoice = await this.salesInvoicesService.updateSalesInvoice(id, updateSalesInvoiceDto, userId);
+
+    this.logger.log(`Sales invoice updated successfully: ${salesInvoice.id}`);
+    return successResponse(salesInvoice, API_MESSAGES.SALES_INVOICE_UPDATED);
+  }
+
+  @ApiOperation({
+    summary: 'Void a sales invoice',
+    description: 'Mark a sales invoice as cancelled and return its items to stock. Requires MANAGER or ADMIN role.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Sales invoice UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sales invoice voided successfully',
+  })
+  @ApiNotFoundResponse({ description: 'Sales invoice not found' })
+  @ApiBadRequestResponse({ description: 'Sales invoice is already void' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Post(':id/void')
+  @UseGuards(ManagerGuard)
+  async voidSalesInvoice(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Voiding sales invoice: ${id} by user: ${userId}`);
+
+    const salesInvoice = await this.salesInvoicesService.voidSalesInvoice(id, userId);
+
+    this.logger.log(`Sales invoice voided successfully: ${salesInvoice.id}`);
+    return successResponse(salesInvoice, API_MESSAGES.SALES_INVOICE_VOIDED);
+  }
+
+  //#region ==================== DELETE OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Delete a sales invoice',
+    description: 'Soft delete a sales invoice by ID. Requires MANAGER or ADMIN role.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Sales invoice UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sales invoice deleted successfully',
+  })
+  @ApiNotFoundResponse({ description: 'Sales invoice not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Delete(':id')
+  @UseGuards(ManagerGuard)
+  async deleteSalesInvoice(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Deleting sales invoice: ${id} by user: ${userId}`);
+
+    const result = await this.salesInvoicesService.deleteSalesInvoice(id, userId);
+
+    this.logger.log(`Sales invoice deleted successfully: ${id}`);
+    return successResponse(result, result.message);
+  }
+
+  //#region ==================== SALES INVOICE ITEM OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Add item to sales invoice',
+    description: 'Add a new line item to a pending sales invoice and recalculate totals. Requires MANAGER or ADMIN role.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Sales invoice UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Sales invoice item added successfully',
+  })
+  @ApiNotFoundResponse({ description: 'Sales invoice or product not found' })
+  @ApiBadRequestResponse({ description: 'Only pending sales invoices can be modified' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Post(':id/items')
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(ManagerGuard)
+  async addSalesInvoiceItem(
+    @Param('id', ParseUUIDPipe) invoiceId: string,
+    @Body() createItemDto: CreateSalesInvoiceItemDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Adding item to sales invoice: ${invoiceId} by user: ${userId}`);
+
+    const item = await this.salesInvoicesService.addSalesInvoiceItem(invoiceId, createItemDto, userId);
+
+    this.logger.log(`Sales invoice item added successfully: ${item.id}`);
+    return createdResponse(item, API_MESSAGES.SALES_INVOICE_ITEM_ADDED);
+  }
+
+  @ApiOperation({
+    summary: 'Update sales invoice item',
+    description: 'Update quantity or price of a line item on a pending sales invoice. Requires MANAGER or ADMIN role.',
+  })
+  @ApiParam({
+    name: 'itemId',
+    description: 'Sales invoice item UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sales invoice item updated successfully',
+  })
+  @ApiNotFoundResponse({ description: 'Sales invoice item not found' })
+  @ApiBadRequestResponse({ description: 'Invalid input data' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Patch('items/:itemId')
+  @UseGuards(ManagerGuard)
+  async updateSalesInvoiceItem(
+    @Param('itemId', ParseUUIDPipe) itemId: string,
+    @Body() updateItemDto: UpdateSalesInvoiceItemDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Updating sales invoice item: ${itemId} by user: ${userId}`);
+
+    const item = await this.salesInvoicesService.updateSalesInvoiceItem(itemId, updateItemDto, userId);
+
+    this.logger.log(`Sales invoice item updated successfully: ${item.id}`);
+    return successResponse(item, API_MESSAGES.SALES_INVOICE_ITEM_UPDATED);
+  }
+
+  @ApiOperation({
+    summary: 'Delete sales invoice item',
+    description: 'Soft delete a line item from a pending sales invoice. Requires MANAGER or ADMIN role.',
+  })
+  @ApiParam({
+    name: 'itemId',
+    description: 'Sales invoice item UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sales invoice item deleted successfully',
+  })
+  @ApiNotFoundResponse({ description: 'Sales invoice item not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Delete('items/:itemId')
+  @UseGuards(ManagerGuard)
+  async deleteSalesInvoiceItem(
+    @Param('itemId', ParseUUIDPipe) itemId: string,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Deleting sales invoice item: ${itemId} by user: ${userId}`);
+
+    const result = await this.salesInvoicesService.deleteSalesInvoiceItem(itemId, userId);
+
+    this.logger.log(`Sales invoice item deleted successfully: ${itemId}`);
+    return successResponse(result, result.message);
+  }
+
+  //#region ==================== DOCUMENTS ====================
+
+  @ApiOperation({
+    summary: 'Download a sales invoice as PDF',
+    description: 'Render the invoice with company header, line items, tax breakdown and totals. Requires STAFF role or above.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Sales invoice UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiProduces('application/pdf')
+  @ApiResponse({
+    status: 200,
+    description: 'PDF document',
+  })
+  @ApiNotFoundResponse({ description: 'Sales invoice not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get(':id/pdf')
+  @UseGuards(StaffGuard)
+  async downloadSalesInvoicePdf(@Param('id', ParseUUIDPipe) id: string): Promise<StreamableFile> {
+    this.logger.log(`Rendering PDF for sales invoice: ${id}`);
+
+    const salesInvoice = await this.salesInvoicesService.findSalesInvoiceById(id);
+    const pdf = this.documentsService.renderSalesInvoicePdf(salesInvoice);
+
+    return new StreamableFile(pdf, {
+      type: 'application/pdf',
+      disposition: `attachment; filename="${salesInvoice.invoice_number.replace(/[^\w.-]/g, '_')}.pdf"`,
+      length: pdf.length,
+    });
+  }
+
+  @ApiOperation({
+    summary: 'Get a thermal printer receipt for a sales invoice',
+    description: 'Render a fixed-width receipt for 58mm or 80mm thermal printers, as plain text or printable HTML. Requires STAFF role or above.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Sales invoice UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiQuery({ name: 'width', required: false, enum: ['58', '80'], description: 'Paper width in mm (default 80)' })
+  @ApiQuery({ name: 'format', required: false, enum: ['text', 'html'], description: 'Output format (default text)' })
+  @ApiProduces('text/plain', 'text/html')
+  @ApiResponse({
+    status: 200,
+    description: 'Receipt document',
+  })
+  @ApiNotFoundResponse({ description: 'Sales invoice not found' })
+  @ApiBadRequestResponse({ description: 'Unsupported width or format' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get(':id/receipt')
+  @UseGuards(StaffGuard)
+  async getSalesInvoiceReceipt(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('width') width?: string,
+    @Query('format') format?: string,
+  ): Promise<StreamableFile> {
+    this.logger.log(`Rendering receipt for sales invoice: ${id}`);
+
+    const options = this.documentsService.parseReceiptOptions(width, format);
+    const salesInvoice = await this.salesInvoicesService.findSalesInvoiceById(id);
+    const receipt = Buffer.from(
+      this.documentsService.renderSalesInvoiceReceipt(salesInvoice, options.width, options.format),
+      'utf8',
+    );
+    const extension = options.format === 'html' ? 'html' : 'txt';
+
+    return new StreamableFile(receipt, {
+      type: `${options.format === 'html' ? 'text/html' : 'text/plain'}; charset=utf-8`,
+      disposition: `inline; filename="${salesInvoice.invoice_number.replace(/[^\w.-]/g, '_')}-receipt.${extension}"`,
+      length: receipt.length,
+    });
+  }
+
+  //#region ==================== STATISTICS ====================
+
+  @ApiOperation({
+    summary: 'Get sales invoice statistics',
+    description: 'Retrieve sales invoice statistics including counts by payment status. Requires MANAGER role or above.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sales invoice statistics retrieved successfully',
+  })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Get('stats/overview')
+  @UseGuards(ManagerGuard)
+  async getSalesInvoiceStats() {
+    this.logger.log('Getting sales invoice statistics');
+
+    const stats = await this.salesInvoicesService.getSalesInvoiceStats();
+
+    this.logger.log('Sales invoice statistics retrieved successfully');
+    return successResponse(stats, 'Sales invoice statistics retrieved successfully');
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { SalesInvoicesService } from './sales-invoices.service';
+import { SalesInvoicesController } from './sales-invoices.controller';
+import { DatabaseModule } from '../../core/database/database.module';
+import { SupabaseModule } from '../../core/supabase/supabase.module';
+import { StockModule } from '../stock/stock.module';
+import { DocumentsModule } from '../documents/documents.module';
+import { TaxesModule } from '../taxes/taxes.module';
+import { PromotionsModule } from '../promotions/promotions.module';
+import { CustomersModule } from '../customers/customers.module';
+import { PaymentsModule } from '../payments/payments.module';
+
+@Module({
+  imports: [DatabaseModule, SupabaseModule, StockModule, DocumentsModule, TaxesModule, PromotionsModule, CustomersModule, PaymentsModule],
+  controllers: [SalesInvoicesController],
+  providers: [SalesInvoicesService],
+  exports: [SalesInvoicesService],
+})
+export class SalesInvoicesModule {}
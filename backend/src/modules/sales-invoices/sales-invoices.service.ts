@@ -0,0 +1,826 @@
+import { Injectable, Logger, ConflictException, NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  SalesInvoicesRepository,
+  SalesInvoiceEntity,
+  SalesInvoiceWithDetails,
+  SalesInvoiceItemEntity,
+} from '../../core/database/repositories/sales-invoices.repository';
+import { DbTransaction } from '../../core/database/repositories/base.repository';
+import { DrizzleService } from '../../core/database/drizzle.service';
+import { ProductsRepository } from '../../core/database/repositories/products.repository';
+import { StockService } from '../stock/stock.service';
+import { UnitsOfMeasureService, LineUnit } from '../stock/units-of-measure.service';
+import { TaxService, LineTaxClass, ComputedLineTax } from '../taxes/tax.service';
+import { PromotionEngineService, PromotableLine, PromotionEvaluation } from '../promotions/promotion-engine.service';
+import { CustomersService } from '../customers/customers.service';
+import { PaymentsService, InvoicePaymentDto, PaymentMethod } from '../payments';
+import { StockTransactionType, StockReferenceType } from '../stock/dto';
+import {
+  CreateSalesInvoiceDto,
+  UpdateSalesInvoiceDto,
+  SalesInvoiceFiltersDto,
+  CreateSalesInvoiceItemDto,
+  UpdateSalesInvoiceItemDto,
+  QuoteSalesInvoiceDto,
+  SalesInvoiceQuoteResponseDto,
+} from './dto';
+import { MESSAGES, API_MESSAGES } from '../../common/constants/string-const';
+
+interface ResolvedInvoiceLine extends LineTaxClass, LineUnit {
+  product_id: string;
+  category_id: string | null;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+}
+
+interface InvoiceTotals {
+  subtotal: number;
+  tax_amount: number;
+  discount_amount: number;
+  total_amount: number;
+}
+
+interface RepricedInvoice extends InvoiceTotals {
+  coupon_code: string | null;
+}
+
+interface PricedInvoice {
+  lines: ResolvedInvoiceLine[];
+  promotions: PromotionEvaluation;
+  lineTaxes: ComputedLineTax[];
+  totals: InvoiceTotals;
+}
+
+@Injectable()
+export class SalesInvoicesService {
+  private readonly logger = new Logger(SalesInvoicesService.name);
+
+  constructor(
+    private readonly salesInvoicesRepository: SalesInvoicesRepository,
+    private readonly productsRepository: ProductsRepository,
+    private readonly stockService: StockService,
+    private readonly unitsOfMeasureService: UnitsOfMeasureService,
+    private readonly taxService: TaxService,
+    private readonly promotionEngine: PromotionEngineService,
+    private readonly customersService: CustomersService,
+    private readonly paymentsService: PaymentsService,
+    private readonly drizzleService: DrizzleService,
+  ) {}
+
+  //#region ==================== SALES INVOICE OPERATIONS ====================
+
+  async createSalesInvoice(createSalesInvoiceDto: CreateSalesInvoiceDto, userId: string): Promise<SalesInvoiceWithDetails> {
+    this.logger.log(`Creating sales invoice with ${createSalesInvoiceDto.items.length} items by user: ${userId}`);
+
+    // Use the supplied invoice number or generate one
+    let invoiceNumber = createSalesInvoiceDto.invoice_number;
+    if (invoiceNumber) {
+      const existingInvoice = await this.salesInvoicesRepository.findSalesInvoiceByInvoiceNumber(invoiceNumber, true);
+      if (existingInvoice) {
+        this.logger.warn(`Sales invoice number already exists: ${invoiceNumber}`);
+        throw new ConflictException(MESSAGES.SALES_INVOICE_NUMBER_EXISTS);
+      }
+    } else {
+      invoiceNumber = await this.generateInvoiceNumber();
+    }
+
+    const { lines, promotions, lineTaxes, totals } = await this.priceNewInvoice(createSalesInvoiceDto);
+
+    // Money taken at checkout goes into the payments ledger once the invoice exists
+    const checkoutPayments = this.resolveCheckoutPayments(createSalesInvoiceDto, totals.total_amount);
+    this.paymentsService.assertCheckoutPayments(totals.total_amount, checkoutPayments);
+
+    try {
+      // The customer, invoice, its items, the stock it sells, promotion usage and payments
+      // commit together; the locked stock movements reject lines that stock can't cover
+      const invoiceWithDetails = await this.drizzleService.transaction(async (tx) => {
+        // Link the invoice to a customer account, matching the contact details when none is given
+        const customer = await this.customersService.resolveInvoiceCustomer(createSalesInvoiceDto, userId, tx);
+        if (customer) {
+          await this.customersService.assertCreditAvailable(
+            customer.id,
+            totals.total_amount - checkoutPayments.reduce((sum, payment) => sum + payment.amount, 0),
+            tx,
+          );
+        }
+
+        const salesInvoice = await this.salesInvoicesRepository.createSalesInvoice({
+          invoice_number: invoiceNumber,
+          customer_id: customer?.id ?? null,
+          customer_name: createSalesInvoiceDto.customer_name ?? customer?.name,
+          customer_email: createSalesInvoiceDto.customer_email ?? customer?.email ?? undefined,
+          customer_phone: createSalesInvoiceDto.customer_phone ?? customer?.phone ?? undefined,
+          coupon_code: promotions.coupon_code,
+          ...totals,
+          payment_status: 'PENDING',
+          created_by: userId,
+        }, tx);
+
+        const items: SalesInvoiceItemEntity[] = [];
+        for (const [index, line] of lines.entries()) {
+          items.push(await this.salesInvoicesRepository.addSalesInvoiceItem({
+            sales_invoice_id: salesInvoice.id,
+            ...line,
+            taxable_amount: lineTaxes[index].taxable_amount,
+            tax_amount: lineTaxes[index].tax_amount,
+            promotion_id: promotions.lines[index].promotion_id,
+            discount_amount: lineTaxes[index].line_discount_amount,
+            created_by: userId,
+          }, tx));
+        }
+
+        // Take the sold quantities out of stock in product order, so concurrent checkouts
+        // lock stock rows in the same order
+        const sortedItems = [...items].sort((a, b) => a.product_id.localeCompare(b.product_id));
+        for (const item of sortedItems) {
+          await this.postStockMovement(
+            salesInvoice,
+            item.id,
+            item.product_id,
+            StockTransactionType.OUT,
+            this.unitsOfMeasureService.toBaseQuantity(item.quantity, item.unit_factor),
+            userId,
+            `Sold on invoice ${salesInvoice.invoice_number}`,
+            tx,
+          );
+        }
+
+        await this.promotionEngine.recordUsage(promotions.promotion_ids, 1, tx);
+        await this.paymentsService.recordCheckoutPayments(salesInvoice, checkoutPayments, userId, tx);
+
+        const created = await this.salesInvoicesRepository.findSalesInvoiceWithDetails(salesInvoice.id, tx);
+        if (!created) {
+          throw new Error('Failed to retrieve created sales invoice');
+        }
+        return created;
+      });
+
+      this.logger.log(`Sales invoice created successfully: ${invoiceWithDetails.invoice_number} (ID: ${invoiceWithDetails.id})`);
+      return invoiceWithDetails;
+    } catch (error) {
+      this.logger.error(`Failed to create sales invoice: ${invoiceNumber}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Prices a cart as creating the invoice would, so a till can take payment against the
+   * exact total. Nothing is saved and no stock is checked.
+   */
+  async quoteSalesInvoice(quoteDto: QuoteSalesInvoiceDto): Promise<SalesInvoiceQuoteResponseDto> {
+    this.logger.log(`Quoting sales invoice with ${quoteDto.items.length} items`);
+
+    const { lines, promotions, lineTaxes, totals } = await this.priceNewInvoice(quoteDto);
+
+    return {
+      lines: lines.map((line, index) => ({
+        product_id: line.product_id,
+        promotion_id: promotions.lines[index].promotion_id,
+        promotion_name: promotions.lines[index].promotion_name,
+        promotion_amount: lineTaxes[index].line_discount_amount,
+        taxable_amount: lineTaxes[index].taxable_amount,
+        tax_amount: lineTaxes[index].tax_amount,
+      })),
+      coupon_code: promotions.coupon_code,
+      subtotal: totals.subtotal,
+      promotion_amount: this.roundCurrency(lineTaxes.reduce((sum, lineTax) => sum + lineTax.line_discount_amount, 0)),
+      discount_amount: totals.discount_amount,
+      tax_amount: totals.tax_amount,
+      total_amount: totals.total_amount,
+    };
+  }
+
+  async findAllSalesInvoices(
+    filters: SalesInvoiceFiltersDto = {},
+    page = 1,
+    limit = 10,
+  ): Promise<{
+    data: SalesInvoiceEntity[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    this.logger.log(`Finding sales invoices with filters:`, filters);
+
+    try {
+      // Convert date strings to Date objects
+      const processedFilters = {
+        ...filters,
+        date_from: filters.date_from ? new Date(filters.date_from) : undefined,
+        date_to: filters.date_to ? new Date(filters.date_to) : undefined,
+      };
+
+      const result = await this.salesInvoicesRepository.findAllSalesInvoices(processedFilters, page, limit);
+
+      this.logger.log(`Found ${result.data.length} sales invoices out of ${result.total} total`);
+      return result;
+    } catch (error) {
+      this.logger.error('Failed to find sales invoices', error.stack);
+      throw error;
+    }
+  }
+
+  async findSalesInvoiceById(id: string): Promise<SalesInvoiceWithDetails> {
+    this.logger.log(`Finding sales invoice by ID: ${id}`);
+
+    const salesInvoice = await this.salesInvoicesRepository.findSalesInvoiceWithDetails(id);
+    if (!salesInvoice) {
+      this.logger.warn(`Sales invoice not found with ID: ${id}`);
+      throw new NotFoundException(MESSAGES.SALES_INVOICE_NOT_FOUND);
+    }
+
+    this.logger.log(`Sales invoice found: ${salesInvoice.invoice_number} (ID: ${id})`);
+    return salesInvoice;
+  }
+
+  async updateSalesInvoice(id: string, updateSalesInvoiceDto: UpdateSalesInvoiceDto, userId: string): Promise<SalesInvoiceEntity> {
+    this.logger.log(`Updating sales invoice: ${id} by user: ${userId}`);
+
+    const existingInvoice = await this.salesInvoicesRepository.findSalesInvoiceByIdOrThrow(id);
+    this.assertInvoiceEditable(existingInvoice);
+
+    try {
+      const updatedInvoice = await this.drizzleService.transaction(async (tx) => {
+        const invoice = await this.salesInvoicesRepository.lockSalesInvoice(id, tx);
+        this.assertInvoiceEditable(invoice);
+
+        // A new discount or coupon reprices the lines, which changes their tax
+        const repriced = await this.repriceInvoice(
+          invoice,
+          userId,
+          tx,
+          updateSalesInvoiceDto.discount_amount,
+          updateSalesInvoiceDto.coupon_code,
+        );
+
+        // Moving the invoice to another customer account brings that customer's details
+        // along, and what is still owed on it counts against that customer's credit
+        let customerDetails: Pick<UpdateSalesInvoiceDto, 'customer_name' | 'customer_email' | 'customer_phone'> = {};
+        if (updateSalesInvoiceDto.customer_id) {
+          const customer = await this.customersService.resolveInvoiceCustomer(
+            { customer_id: updateSalesInvoiceDto.customer_id },
+            userId,
+            tx,
+          );
+          if (updateSalesInvoiceDto.customer_id !== invoice.customer_id) {
+            await this.customersService.assertCreditAvailable(
+              updateSalesInvoiceDto.customer_id,
+              repriced.total_amount - parseFloat(invoice.amount_paid),
+              tx,
+            );
+          }
+          customerDetails = {
+            customer_name: customer?.name,
+            customer_email: customer?.email ?? undefined,
+            customer_phone: customer?.phone ?? undefined,
+          };
+        }
+
+        return this.salesInvoicesRepository.updateSalesInvoice(id, {
+          ...customerDetails,
+          ...updateSalesInvoiceDto,
+          ...repriced,
+          updated_by: userId,
+        }, tx);
+      });
+
+      this.logger.log(`Sales invoice updated successfully: ${updatedInvoice.invoice_number} (ID: ${id})`);
+      return updatedInvoice;
+    } catch (error) {
+      this.logger.error(`Failed to update sales invoice: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  async voidSalesInvoice(id: string, userId: string): Promise<SalesInvoiceEntity> {
+    this.logger.log(`Voiding sales invoice: ${id} by user: ${userId}`);
+
+    try {
+      const voidedInvoice = await this.drizzleService.transaction(async (tx) => {
+        const invoice = await this.salesInvoicesRepository.lockSalesInvoice(id, tx);
+        if (invoice.payment_status === 'CANCELLED') {
+          throw new BadRequestException(MESSAGES.SALES_INVOICE_ALREADY_VOID);
+        }
+
+        const voided = await this.salesInvoicesRepository.updateSalesInvoice(id, {
+          payment_status: 'CANCELLED',
+          updated_by: userId,
+        }, tx);
+
+        // Put the sold quantities back into stock and give the promotions their uses back
+        await this.restockInvoiceItems(invoice, userId, `Voided invoice ${invoice.invoice_number}`, tx);
+        await this.releasePromotions(invoice, tx);
+        return voided;
+      });
+
+      this.logger.log(`Sales invoice voided successfully: ${voidedInvoice.invoice_number} (ID: ${id})`);
+      return voidedInvoice;
+    } catch (error) {
+      this.logger.error(`Failed to void sales invoice: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  async deleteSalesInvoice(id: string, userId: string): Promise<{ message: string }> {
+    this.logger.log(`Soft deleting sales invoice: ${id} by user: ${userId}`);
+
+    try {
+      await this.drizzleService.transaction(async (tx) => {
+        // Locking also verifies the sales invoice exists
+        const invoice = await this.salesInvoicesRepository.lockSalesInvoice(id, tx);
+
+        // Void invoices have already been restocked
+        if (invoice.payment_status !== 'CANCELLED') {
+          await this.restockInvoiceItems(invoice, userId, `Deleted invoice ${invoice.invoice_number}`, tx);
+          await this.releasePromotions(invoice, tx);
+        }
+
+        const success = await this.salesInvoicesRepository.deleteSalesInvoice(id, userId, tx);
+        if (!success) {
+          this.logger.error(`Failed to delete sales invoice: ${id}`);
+          throw new Error('Failed to delete sales invoice');
+        }
+      });
+
+      this.logger.log(`Sales invoice soft deleted successfully: ${id}`);
+      return { message: API_MESSAGES.SALES_INVOICE_DELETED };
+    } catch (error) {
+      this.logger.error(`Failed to delete sales invoice: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== SALES INVOICE ITEM OPERATIONS ====================
+
+  async addSalesInvoiceItem(invoiceId: string, itemDto: CreateSalesInvoiceItemDto, userId: string): Promise<SalesInvoiceItemEntity> {
+    this.logger.log(`Adding item to sales invoice: ${invoiceId} by user: ${userId}`);
+
+    const existingInvoice = await this.salesInvoicesRepository.findSalesInvoiceByIdOrThrow(invoiceId);
+    this.assertInvoiceEditable(existingInvoice);
+
+    const line = await this.resolveInvoiceLine(itemDto);
+    const baseQuantity = this.unitsOfMeasureService.toBaseQuantity(line.quantity, line.unit_factor);
+
+    try {
+      const item = await this.drizzleService.transaction(async (tx) => {
+        const invoice = await this.salesInvoicesRepository.lockSalesInvoice(invoiceId, tx);
+        this.assertInvoiceEditable(invoice);
+
+        const added = await this.salesInvoicesRepository.addSalesInvoiceItem({
+          sales_invoice_id: invoiceId,
+          ...line,
+          created_by: userId,
+        }, tx);
+
+        await this.postStockMovement(
+          invoice,
+          added.id,
+          line.product_id,
+          StockTransactionType.OUT,
+          baseQuantity,
+          userId,
+          `Sold on invoice ${invoice.invoice_number}`,
+          tx,
+        );
+
+        await this.recalculateInvoiceTotals(invoice, userId, tx);
+        return (await this.salesInvoicesRepository.findSalesInvoiceItemById(added.id, tx)) ?? added;
+      });
+
+      this.logger.log(`Sales invoice item added successfully: ${item.id}`);
+      return item;
+    } catch (error) {
+      this.logger.error(`Failed to add sales invoice item to invoice: ${invoiceId}`, error.stack);
+      throw error;
+    }
+  }
+
+  async updateSalesInvoiceItem(itemId: string, itemDto: UpdateSalesInvoiceItemDto, userId: string): Promise<SalesInvoiceItemEntity> {
+    this.logger.log(`Updating sales invoice item: ${itemId} by user: ${userId}`);
+
+    const existingItem = await this.salesInvoicesRepository.findSalesInvoiceItemById(itemId);
+    if (!existingItem) {
+      throw new NotFoundException(MESSAGES.SALES_INVOICE_ITEM_NOT_FOUND);
+    }
+
+    try {
+      const updatedItem = await this.drizzleService.transaction(async (tx) => {
+        // The invoice lock keeps the item as read here until the change commits
+        const invoice = await this.salesInvoicesRepository.lockSalesInvoice(existingItem.sales_invoice_id, tx);
+        this.assertInvoiceEditable(invoice);
+
+        const item = await this.salesInvoicesRepository.findSalesInvoiceItemById(itemId, tx);
+        if (!item) {
+          throw new NotFoundException(MESSAGES.SALES_INVOICE_ITEM_NOT_FOUND);
+        }
+
+        // The line keeps its unit; stock moves by the change in base units
+        const quantity = itemDto.quantity ?? item.quantity;
+        const unitPrice = itemDto.unit_price ?? parseFloat(item.unit_price);
+        const quantityChange = this.unitsOfMeasureService.toBaseQuantity(quantity, item.unit_factor)
+          - Math.round(item.quantity * item.unit_factor);
+
+        if (quantity < item.quantity_returned) {
+          throw new BadRequestException(MESSAGES.SALES_INVOICE_ITEM_HAS_RETURNS);
+        }
+
+        const updated = await this.salesInvoicesRepository.updateSalesInvoiceItem(itemId, {
+          quantity,
+          unit_price: unitPrice,
+          total_price: this.roundCurrency(quantity * unitPrice),
+          updated_by: userId,
+        }, tx);
+
+        if (quantityChange !== 0) {
+          await this.postStockMovement(
+            invoice,
+            itemId,
+            item.product_id,
+            quantityChange > 0 ? StockTransactionType.OUT : StockTransactionType.IN,
+            Math.abs(quantityChange),
+            userId,
+            `Quantity changed on invoice ${invoice.invoice_number}`,
+            tx,
+          );
+        }
+
+        await this.recalculateInvoiceTotals(invoice, userId, tx);
+        return (await this.salesInvoicesRepository.findSalesInvoiceItemById(itemId, tx)) ?? updated;
+      });
+
+      this.logger.log(`Sales invoice item updated successfully: ${itemId}`);
+      return updatedItem;
+    } catch (error) {
+      this.logger.error(`Failed to update sales invoice item: ${itemId}`, error.stack);
+      throw error;
+    }
+  }
+
+  async deleteSalesInvoiceItem(itemId: string, userId: string): Promise<{ message: string }> {
+    this.logger.log(`Deleting sales invoice item: ${itemId} by user: ${userId}`);
+
+    const existingItem = await this.salesInvoicesRepository.findSalesInvoiceItemById(itemId);
+    if (!existingItem) {
+      throw new NotFoundException(MESSAGES.SALES_INVOICE_ITEM_NOT_FOUND);
+    }
+
+    try {
+      await this.drizzleService.transaction(async (tx) => {
+        const invoice = await this.salesInvoicesRepository.lockSalesInvoice(existingItem.sales_invoice_id, tx);
+        this.assertInvoiceEditable(invoice);
+
+        const item = await this.salesInvoicesRepository.findSalesInvoiceItemById(itemId, tx);
+        if (!item) {
+          throw new NotFoundException(MESSAGES.SALES_INVOICE_ITEM_NOT_FOUND);
+        }
+        if (item.quantity_returned > 0) {
+          throw new BadRequestException(MESSAGES.SALES_INVOICE_ITEM_HAS_RETURNS);
+        }
+
+        const success = await this.salesInvoicesRepository.deleteSalesInvoiceItem(itemId, userId, tx);
+        if (!success) {
+          this.logger.error(`Failed to delete sales invoice item: ${itemId}`);
+          throw new NotFoundException(MESSAGES.SALES_INVOICE_ITEM_NOT_FOUND);
+        }
+
+        await this.postStockMovement(
+          invoice,
+          itemId,
+          item.product_id,
+          StockTransactionType.IN,
+          Math.round(item.quantity * item.unit_factor),
+          userId,
+          `Item removed from invoice ${invoice.invoice_number}`,
+          tx,
+        );
+
+        await this.recalculateInvoiceTotals(invoice, userId, tx);
+      });
+
+      this.logger.log(`Sales invoice item deleted successfully: ${itemId}`);
+      return { message: API_MESSAGES.SALES_INVOICE_ITEM_DELETED };
+    } catch (error) {
+      this.logger.error(`Failed to delete sales invoice item: ${itemId}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== UTILITY OPERATIONS ====================
+
+  async getSalesInvoiceStats(): Promise<{
+    total: number;
+    pending: number;
+    paid: number;
+    partial: number;
+    cancelled: number;
+  }> {
+    this.logger.log('Getting sales invoice statistics');
+
+    try {
+      const stats = await this.salesInvoicesRepository.getSalesInvoiceStats();
+      this.logger.log('Sales invoice statistics retrieved successfully');
+      return stats;
+    } catch (error) {
+      this.logger.error('Failed to get sales invoice statistics', error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== CALCULATION HELPERS ====================
+
+  /**
+   * Validates the product and resolves the sales unit, selling price, line total and tax class
+   */
+  /**
+   * Prices new lines the way the invoice will record them: promotions are worked out per
+   * line, then tax per line after the promotions and the manual discount
+   */
+  private async priceNewInvoice(quoteDto: QuoteSalesInvoiceDto): Promise<PricedInvoice> {
+    // Resolve prices and line totals from the product catalog
+    const lines: ResolvedInvoiceLine[] = [];
+    for (const itemDto of quoteDto.items) {
+      lines.push(await this.resolveInvoiceLine(itemDto));
+    }
+
+    // Promotions discount individual lines; a coupon that cannot be redeemed rejects the invoice
+    const promotions = await this.promotionEngine.evaluate(
+      lines.map(line => this.toPromotableLine(line)),
+      quoteDto.coupon_code,
+      { strict: true },
+    );
+
+    // Tax is charged per line after the promotions and the manual discount have been taken off
+    const manualDiscount = quoteDto.discount_amount ?? 0;
+    const lineTaxes = this.taxService.computeLineTaxes(
+      lines.map((line, index) => ({ ...line, amount: line.total_price, line_discount: promotions.lines[index].discount })),
+      manualDiscount,
+    );
+
+    const totals = this.calculateTotals(
+      lineTaxes.reduce((sum, lineTax) => sum + lineTax.net_amount, 0),
+      lineTaxes.reduce((sum, lineTax) => sum + lineTax.tax_amount, 0),
+      lineTaxes.reduce((sum, lineTax) => sum + lineTax.line_discount_amount, 0) + manualDiscount,
+    );
+
+    return { lines, promotions, lineTaxes, totals };
+  }
+
+  private async resolveInvoiceLine(itemDto: CreateSalesInvoiceItemDto): Promise<ResolvedInvoiceLine> {
+    const product = await this.productsRepository.findById(itemDto.product_id);
+    if (!product) {
+      this.logger.warn(`Product not found for sales invoice item: ${itemDto.product_id}`);
+      throw new NotFoundException(MESSAGES.PRODUCT_NOT_FOUND);
+    }
+    if (!product.is_active) {
+      throw new BadRequestException(`Cannot sell inactive product: ${product.name}`);
+    }
+    if (product.variant_attributes?.length) {
+      throw new BadRequestException(MESSAGES.PRODUCT_VARIANT_REQUIRED);
+    }
+
+    const lineUnit = this.unitsOfMeasureService.resolveLineUnit(product, itemDto.unit_code, 'sales');
+    this.unitsOfMeasureService.toBaseQuantity(itemDto.quantity, lineUnit.unit_factor);
+
+    const unitPrice = itemDto.unit_price ?? this.unitsOfMeasureService.convertUnitPrice(product, parseFloat(product.unit_price), lineUnit);
+    const taxClass = await this.taxService.resolveProductTaxClass(product);
+
+    return {
+      product_id: product.id,
+      category_id: product.category_id,
+      quantity: itemDto.quantity,
+      ...lineUnit,
+      unit_price: unitPrice,
+      total_price: this.roundCurrency(itemDto.quantity * unitPrice),
+      ...taxClass,
+    };
+  }
+
+  /**
+   * Computes invoice totals as subtotal + tax - discount - returned amount, where the
+   * subtotal is the sum of the lines net of tax
+   */
+  private calculateTotals(subtotal: number, taxAmount: number, discountAmount: number, returnedAmount = 0): InvoiceTotals {
+    const totalAmount = this.roundCurrency(subtotal + taxAmount - discountAmount - returnedAmount);
+    if (totalAmount < 0) {
+      throw new BadRequestException(MESSAGES.SALES_INVOICE_TOTAL_NEGATIVE);
+    }
+
+    return {
+      subtotal: this.roundCurrency(subtotal),
+      tax_amount: this.roundCurrency(taxAmount),
+      discount_amount: this.roundCurrency(discountAmount),
+      total_amount: totalAmount,
+    };
+  }
+
+  /**
+   * Re-sums the line items after an item change and persists the new totals
+   */
+  private async recalculateInvoiceTotals(invoice: SalesInvoiceEntity, userId: string, tx: DbTransaction): Promise<SalesInvoiceEntity> {
+    const repriced = await this.repriceInvoice(invoice, userId, tx);
+
+    return this.salesInvoicesRepository.updateSalesInvoice(invoice.id, {
+      ...repriced,
+      updated_by: userId,
+    }, tx);
+  }
+
+  /**
+   * Re-evaluates promotions as of the invoice date and recomputes every line's tax using
+   * the tax class captured on the line. Stores the lines that changed, moves promotion
+   * usage to match and returns the new invoice totals.
+   *
+   * The manual discount defaults to whatever part of the invoice discount the lines'
+   * promotions do not account for. Only a newly supplied coupon is rejected when it
+   * cannot be redeemed; an empty coupon code removes the coupon.
+   */
+  private async repriceInvoice(
+    invoice: SalesInvoiceEntity,
+    userId: string,
+    tx: DbTransaction,
+    manualDiscount?: number,
+    couponCode?: string,
+  ): Promise<RepricedInvoice> {
+    const items = await this.salesInvoicesRepository.findSalesInvoiceItems(invoice.id, tx);
+
+    const lines: PromotableLine[] = [];
+    for (const item of items) {
+      const product = await this.productsRepository.findById(item.product_id, true);
+      lines.push({
+        product_id: item.product_id,
+        category_id: product?.category_id ?? null,
+        quantity: item.quantity,
+        unit_price: parseFloat(item.unit_price),
+        amount: parseFloat(item.total_price),
+      });
+    }
+
+    const redeemed = [...new Set(items.filter(item => item.promotion_id).map(item => item.promotion_id as string))];
+    const requestedCoupon = couponCode !== undefined ? couponCode || null : invoice.coupon_code;
+    const promotions = await this.promotionEngine.evaluate(lines, requestedCoupon, {
+      strict: requestedCoupon !== null && requestedCoupon !== invoice.coupon_code,
+      redeemed,
+      at: invoice.created_at,
+    });
+
+    const discountAmount = manualDiscount ?? Math.max(
+      this.roundCurrency(parseFloat(invoice.discount_amount) - items.reduce((sum, item) => sum + parseFloat(item.discount_amount), 0)),
+      0,
+    );
+    const lineTaxes = this.taxService.computeLineTaxes(
+      items.map((item, index) => ({
+        tax_class_id: item.tax_class_id,
+        tax_rate: parseFloat(item.tax_rate),
+        tax_inclusive: item.tax_inclusive,
+        amount: parseFloat(item.total_price),
+        line_discount: promotions.lines[index].discount,
+      })),
+      discountAmount,
+    );
+
+    const totals = this.calculateTotals(
+      lineTaxes.reduce((sum, lineTax) => sum + lineTax.net_amount, 0),
+      lineTaxes.reduce((sum, lineTax) => sum + lineTax.tax_amount, 0),
+      lineTaxes.reduce((sum, lineTax) => sum + lineTax.line_discount_amount, 0) + discountAmount,
+      parseFloat(invoice.returned_amount),
+    );
+
+    for (const [index, item] of items.entries()) {
+      const { taxable_amount, tax_amount, line_discount_amount } = lineTaxes[index];
+      const promotionId = promotions.lines[index].promotion_id;
+      if (
+        taxable_amount !== parseFloat(item.taxable_amount)
+        || tax_amount !== parseFloat(item.tax_amount)
+        || line_discount_amount !== parseFloat(item.discount_amount)
+        || promotionId !== item.promotion_id
+      ) {
+        await this.salesInvoicesRepository.updateSalesInvoiceItem(item.id, {
+          taxable_amount,
+          tax_amount,
+          promotion_id: promotionId,
+          discount_amount: line_discount_amount,
+          updated_by: userId,
+        }, tx);
+      }
+    }
+
+    await this.promotionEngine.recordUsage(promotions.promotion_ids.filter(id => !redeemed.includes(id)), 1, tx);
+    await this.promotionEngine.recordUsage(redeemed.filter(id => !promotions.promotion_ids.includes(id)), -1, tx);
+
+    return { ...totals, coupon_code: promotions.coupon_code };
+  }
+
+  /**
+   * Gives back the uses an invoice took from its promotions' usage limits
+   */
+  private async releasePromotions(invoice: SalesInvoiceEntity, tx: DbTransaction): Promise<void> {
+    const items = await this.salesInvoicesRepository.findSalesInvoiceItems(invoice.id, tx);
+    await this.promotionEngine.recordUsage(
+      items.filter(item => item.promotion_id).map(item => item.promotion_id as string),
+      -1,
+      tx,
+    );
+  }
+
+  private toPromotableLine(line: ResolvedInvoiceLine): PromotableLine {
+    return {
+      product_id: line.product_id,
+      category_id: line.category_id,
+      quantity: line.quantity,
+      unit_price: line.unit_price,
+      amount: line.total_price,
+    };
+  }
+
+  /**
+   * The payments listed at checkout, or the cash amount paid up to the invoice total
+   */
+  private resolveCheckoutPayments(createSalesInvoiceDto: CreateSalesInvoiceDto, totalAmount: number): InvoicePaymentDto[] {
+    if (createSalesInvoiceDto.payments?.length) {
+      return createSalesInvoiceDto.payments;
+    }
+
+    const cashPaid = Math.min(createSalesInvoiceDto.amount_paid ?? 0, totalAmount);
+    return cashPaid > 0 ? [{ payment_method: PaymentMethod.CASH, amount: this.roundCurrency(cashPaid) }] : [];
+  }
+
+  private roundCurrency(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private async generateInvoiceNumber(): Promise<string> {
+    const datePart = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+
+    // Retry on the unlikely event of a collision
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const randomPart = Math.floor(Math.random() * 1000000).toString().padStart(6, '0');
+      const invoiceNumber = `INV-${datePart}-${randomPart}`;
+
+      const existingInvoice = await this.salesInvoicesRepository.findSalesInvoiceByInvoiceNumber(invoiceNumber, true);
+      if (!existingInvoice) {
+        return invoiceNumber;
+      }
+    }
+
+    throw new ConflictException(MESSAGES.SALES_INVOICE_NUMBER_EXISTS);
+  }
+
+  //#region ==================== STOCK HELPERS ====================
+
+  /**
+   * Records a SALE stock transaction for the invoice line and applies it to stock levels,
+   * keeping the line's cost of goods sold in step with the units that left stock. An OUT
+   * movement is rejected when the locked stock row doesn't have the quantity available.
+   */
+  private async postStockMovement(
+    invoice: SalesInvoiceEntity,
+    itemId: string,
+    productId: string,
+    transactionType: StockTransactionType,
+    quantity: number,
+    userId: string,
+    notes: string,
+    tx: DbTransaction,
+  ): Promise<void> {
+    this.logger.log(`Posting ${transactionType} ${quantity} for product ${productId} on invoice ${invoice.invoice_number}`);
+
+    await this.stockService.createTransaction({
+      product_id: productId,
+      transaction_type: transactionType,
+      quantity,
+      reference_type: StockReferenceType.SALE,
+      reference_id: invoice.id,
+      notes,
+      created_by: userId,
+    }, { sales_invoice_item_id: itemId }, tx);
+  }
+
+  private async restockInvoiceItems(invoice: SalesInvoiceEntity, userId: string, notes: string, tx: DbTransaction): Promise<void> {
+    const items = await this.salesInvoicesRepository.findSalesInvoiceItems(invoice.id, tx);
+    for (const item of [...items].sort((a, b) => a.product_id.localeCompare(b.product_id))) {
+      // Returned units have already been handled by the return
+      const quantity = Math.round((item.quantity - item.quantity_returned) * item.unit_factor);
+      if (quantity > 0) {
+        await this.postStockMovement(invoice, item.id, item.product_id, StockTransactionType.IN, quantity, userId, notes, tx);
+      }
+    }
+  }
+
+  //#region ==================== VALIDATION HELPERS ====================
+
+  private assertInvoiceEditable(invoice: SalesInvoiceEntity): void {
+    if (invoice.payment_status !== 'PENDING') {
+      throw new BadRequestException(MESSAGES.SALES_INVOICE_NOT_EDITABLE);
+    }
+  }
+
+  async validateSalesInvoiceExists(invoiceId: string): Promise<SalesInvoiceEntity> {
+    this.logger.log(`Validating sales invoice exists: ${invoiceId}`);
+    const invoice = await this.salesInvoicesRepository.findSalesInvoiceById(invoiceId);
+    if (!invoice) {
+      throw new NotFoundException(MESSAGES.SALES_INVOICE_NOT_FOUND);
+    }
+    return invoice;
+  }
+}
@@ -20,6 +20,15 @@ export class AdjustStockDto {
   @Type(() => Number)
   quantity_change: number;
 
+  @ApiPropertyOptional({
+    description: 'Location to adjust (defaults to the default location)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsString({ message: 'Location ID must be a string' })
+  @IsUUID('4', { message: 'Location ID must be a valid UUID' })
+  location_id?: string;
+
   @ApiPropertyOptional({
     description: 'Reason for the stock adjustment',
     example: 'Damaged items removed from inventory',
@@ -6,6 +6,7 @@ import {
   IsUUID, 
   IsEnum,
   IsInt,
+  Min,
   MaxLength
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
@@ -21,7 +22,9 @@ export enum StockReferenceType {
   PURCHASE = 'PURCHASE',
   SALE = 'SALE',
   ADJUSTMENT = 'ADJUSTMENT',
-  RETURN = 'RETURN'
+  RETURN = 'RETURN',
+  TRANSFER = 'TRANSFER',
+  RESERVATION = 'RESERVATION'
 }
 
 export class CreateStockTransactionDto {
@@ -34,6 +37,15 @@ export class CreateStockTransactionDto {
   @IsUUID('4', { message: 'Product ID must be a valid UUID' })
   product_id: string;
 
+  @ApiPropertyOptional({
+    description: 'Location the movement applies to (defaults to the default location)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsString({ message: 'Location ID must be a string' })
+  @IsUUID('4', { message: 'Location ID must be a valid UUID' })
+  location_id?: string;
+
   @ApiProperty({
     description: 'Type of stock transaction',
     enum: StockTransactionType,
@@ -56,7 +68,7 @@ export class CreateStockTransactionDto {
     enum: StockReferenceType,
     example: StockReferenceType.PURCHASE,
   })
-  @IsEnum(StockReferenceType, { message: 'Reference type must be PURCHASE, SALE, ADJUSTMENT, or RETURN' })
+  @IsEnum(StockReferenceType, { message: 'Reference type must be PURCHASE, SALE, ADJUSTMENT, RETURN, TRANSFER, or RESERVATION' })
   reference_type: StockReferenceType;
 
   @ApiPropertyOptional({
@@ -68,6 +80,16 @@ export class CreateStockTransactionDto {
   @IsUUID('4', { message: 'Reference ID must be a valid UUID' })
   reference_id?: string;
 
+  @ApiPropertyOptional({
+    description: 'Cost per unit of stock coming in (defaults to the product cost price). Ignored for OUT.',
+    example: 12.5,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 }, { message: 'Unit cost must be a number with at most 4 decimal places' })
+  @Min(0, { message: 'Unit cost cannot be negative' })
+  @Type(() => Number)
+  unit_cost?: number;
+
   @ApiPropertyOptional({
     description: 'Additional notes for the transaction',
     example: 'Received from supplier ABC',
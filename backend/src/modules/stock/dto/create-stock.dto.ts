@@ -20,6 +20,15 @@ export class CreateStockDto {
   @IsUUID('4', { message: 'Product ID must be a valid UUID' })
   product_id: string;
 
+  @ApiPropertyOptional({
+    description: 'Location holding the stock (defaults to the default location)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsString({ message: 'Location ID must be a string' })
+  @IsUUID('4', { message: 'Location ID must be a valid UUID' })
+  location_id?: string;
+
   @ApiProperty({
     description: 'Available quantity in stock',
     example: 100,
@@ -3,6 +3,7 @@ export * from './create-stock.dto';
 export * from './update-stock.dto';
 export * from './adjust-stock.dto';
 export * from './reserve-stock.dto';
+export * from './transfer-stock.dto';
 
 // Stock Transaction DTOs
 export * from './create-stock-transaction.dto';
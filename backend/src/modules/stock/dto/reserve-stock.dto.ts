@@ -5,11 +5,14 @@ import {
   IsNumber, 
   IsUUID, 
   IsInt,
+  IsEnum,
+  IsDate,
   Min,
   MaxLength
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Transform, Type } from 'class-transformer';
+import { StockReferenceType } from './create-stock-transaction.dto';
 
 export class ReserveStockDto {
   @ApiProperty({
@@ -23,6 +26,51 @@ export class ReserveStockDto {
   @Type(() => Number)
   quantity: number;
 
+  @ApiPropertyOptional({
+    description: 'Location to reserve stock at (defaults to the default location)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsString({ message: 'Location ID must be a string' })
+  @IsUUID('4', { message: 'Location ID must be a valid UUID' })
+  location_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'User the stock is held for (defaults to the user making the reservation)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsString({ message: 'Owner ID must be a string' })
+  @IsUUID('4', { message: 'Owner ID must be a valid UUID' })
+  owner_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Type of document the stock is reserved for',
+    enum: StockReferenceType,
+    example: StockReferenceType.SALE,
+  })
+  @IsOptional()
+  @IsEnum(StockReferenceType, { message: 'Reference type must be a valid stock reference type' })
+  reference_type?: StockReferenceType;
+
+  @ApiPropertyOptional({
+    description: 'ID of the document the stock is reserved for (e.g., sales invoice ID)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsString({ message: 'Reference ID must be a string' })
+  @IsUUID('4', { message: 'Reference ID must be a valid UUID' })
+  reference_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'When the reservation lapses and the stock is released (defaults to 24 hours from now)',
+    example: '2024-01-16T10:30:00.000Z',
+  })
+  @IsOptional()
+  @IsDate({ message: 'Expiry must be a valid date' })
+  @Type(() => Date)
+  expires_at?: Date;
+
   @ApiPropertyOptional({
     description: 'Reason for the reservation',
     example: 'Reserved for order #12345',
@@ -56,6 +104,15 @@ export class ReleaseStockDto {
   @Type(() => Number)
   quantity: number;
 
+  @ApiPropertyOptional({
+    description: 'Location to release stock at (defaults to the default location)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsString({ message: 'Location ID must be a string' })
+  @IsUUID('4', { message: 'Location ID must be a valid UUID' })
+  location_id?: string;
+
   @ApiPropertyOptional({
     description: 'Reason for releasing the reservation',
     example: 'Order cancelled',
@@ -75,4 +132,26 @@ export class ReleaseStockDto {
   @IsNotEmpty({ message: 'Updated by is required' })
   @IsUUID('4', { message: 'Updated by must be a valid UUID' })
   updated_by: string;
+}
+
+export class CancelReservationDto {
+  @ApiPropertyOptional({
+    description: 'Reason for cancelling the reservation',
+    example: 'Customer no longer needs the items',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString({ message: 'Notes must be a string' })
+  @MaxLength(500, { message: 'Notes cannot exceed 500 characters' })
+  @Transform(({ value }) => value?.trim())
+  notes?: string;
+
+  @ApiProperty({
+    description: 'ID of the user cancelling the reservation',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsString({ message: 'Updated by must be a string' })
+  @IsNotEmpty({ message: 'Updated by is required' })
+  @IsUUID('4', { message: 'Updated by must be a valid UUID' })
+  updated_by: string;
 }
\ No newline at end of file
@@ -35,6 +35,26 @@ export class ProductInfoDto {
   minimum_stock_level: number;
 }
 
+export class LocationInfoDto {
+  @ApiProperty({
+    description: 'Location ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Location name',
+    example: 'Main Store',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Location code',
+    example: 'MAIN',
+  })
+  code: string;
+}
+
 export class StockResponseDto {
   @ApiProperty({
     description: 'Stock record ID',
@@ -48,6 +68,12 @@ export class StockResponseDto {
   })
   product_id: string;
 
+  @ApiProperty({
+    description: 'Location ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  location_id: string;
+
   @ApiProperty({
     description: 'Available quantity',
     example: 100,
@@ -66,6 +92,12 @@ export class StockResponseDto {
   })
   product?: ProductInfoDto;
 
+  @ApiPropertyOptional({
+    description: 'Location information',
+    type: LocationInfoDto,
+  })
+  location?: LocationInfoDto;
+
   @ApiProperty({
     description: 'Created by user ID',
     example: '123e4567-e89b-12d3-a456-426614174000',
@@ -98,6 +130,18 @@ export class StockSummaryDto {
   })
   product_id: string;
 
+  @ApiPropertyOptional({
+    description: 'Location ID (present when stock is listed per location)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  location_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Location information',
+    type: LocationInfoDto,
+  })
+  location?: LocationInfoDto;
+
   @ApiProperty({
     description: 'Product name',
     example: 'iPhone 15 Pro',
@@ -154,6 +198,12 @@ export class StockTransactionResponseDto {
   })
   product_id: string;
 
+  @ApiPropertyOptional({
+    description: 'Location ID the movement applied to',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  location_id?: string;
+
   @ApiProperty({
     description: 'Transaction type',
     enum: StockTransactionType,
@@ -215,6 +265,32 @@ export class StockFiltersDto {
   @IsUUID('4')
   product_id?: string;
 
+  @ApiPropertyOptional({
+    description: 'Filter by location ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsString()
+  @IsUUID('4')
+  location_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by category ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsString()
+  @IsUUID('4')
+  category_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Search by product name, SKU or barcode',
+    example: 'iPhone',
+  })
+  @IsOptional()
+  @IsString()
+  search?: string;
+
   @ApiPropertyOptional({
     description: 'Filter by low stock status',
     example: true,
@@ -244,6 +320,24 @@ export class StockFiltersDto {
   @IsNumber()
   @Type(() => Number)
   limit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Sort field',
+    enum: ['product_name', 'quantity_available', 'quantity_reserved', 'updated_at'],
+    default: 'product_name',
+  })
+  @IsOptional()
+  @IsEnum(['product_name', 'quantity_available', 'quantity_reserved', 'updated_at'])
+  sort_by?: 'product_name' | 'quantity_available' | 'quantity_reserved' | 'updated_at';
+
+  @ApiPropertyOptional({
+    description: 'Sort order',
+    enum: ['asc', 'desc'],
+    default: 'asc',
+  })
+  @IsOptional()
+  @IsEnum(['asc', 'desc'])
+  sort_order?: 'asc' | 'desc';
 }
 
 export class StockTransactionFiltersDto {
@@ -256,6 +350,15 @@ export class StockTransactionFiltersDto {
   @IsUUID('4')
   product_id?: string;
 
+  @ApiPropertyOptional({
+    description: 'Filter by location ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsString()
+  @IsUUID('4')
+  location_id?: string;
+
   @ApiPropertyOptional({
     description: 'Filter by transaction type',
     enum: StockTransactionType,
@@ -330,4 +433,264 @@ export class StockTransactionFiltersDto {
   @IsNumber()
   @Type(() => Number)
   limit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Sort field (the cursor ledger is always ordered by created_at)',
+    enum: ['created_at', 'quantity', 'product_name'],
+    default: 'created_at',
+  })
+  @IsOptional()
+  @IsEnum(['created_at', 'quantity', 'product_name'])
+  sort_by?: 'created_at' | 'quantity' | 'product_name';
+
+  @ApiPropertyOptional({
+    description: 'Sort order',
+    enum: ['asc', 'desc'],
+    default: 'desc',
+  })
+  @IsOptional()
+  @IsEnum(['asc', 'desc'])
+  sort_order?: 'asc' | 'desc';
+
+  @ApiPropertyOptional({
+    description: 'Opaque cursor returned as next_cursor by the ledger endpoint',
+    example: 'eyJjcmVhdGVkX2F0IjoiMjAyNC0wMS0xNSAxMDozMDowMC4xMjM0NTYiLCJpZCI6IjEyMyJ9',
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
+
+export class StockLedgerPageDto {
+  @ApiProperty({
+    description: 'Ledger entries on this page',
+    type: [StockTransactionResponseDto],
+  })
+  data: StockTransactionResponseDto[];
+
+  @ApiProperty({
+    description: 'Cursor for the next page, null when the end of the ledger is reached',
+    example: 'eyJjcmVhdGVkX2F0IjoiMjAyNC0wMS0xNSAxMDozMDowMC4xMjM0NTYiLCJpZCI6IjEyMyJ9',
+    nullable: true,
+  })
+  next_cursor: string | null;
+
+  @ApiProperty({
+    description: 'Maximum number of entries per page',
+    example: 50,
+  })
+  limit: number;
+}
+
+export class StockTransferResponseDto {
+  @ApiProperty({
+    description: 'Transfer ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Product ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  product_id: string;
+
+  @ApiProperty({
+    description: 'Source location ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  from_location_id: string;
+
+  @ApiProperty({
+    description: 'Destination location ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  to_location_id: string;
+
+  @ApiProperty({
+    description: 'Quantity transferred',
+    example: 10,
+  })
+  quantity: number;
+
+  @ApiPropertyOptional({
+    description: 'Transfer notes',
+    example: 'Restocking branch shelves from the backroom',
+  })
+  notes?: string;
+
+  @ApiPropertyOptional({
+    description: 'Stock at the source location after the transfer',
+    type: StockResponseDto,
+  })
+  from_stock?: StockResponseDto;
+
+  @ApiPropertyOptional({
+    description: 'Stock at the destination location after the transfer',
+    type: StockResponseDto,
+  })
+  to_stock?: StockResponseDto;
+
+  @ApiProperty({
+    description: 'Created by user ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  created_by: string;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  created_at: Date;
+}
+
+export class StockTransferFiltersDto {
+  @ApiPropertyOptional({
+    description: 'Filter by product ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsString()
+  @IsUUID('4')
+  product_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by source or destination location ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsString()
+  @IsUUID('4')
+  location_id?: string;
+}
+
+export enum StockReservationStatus {
+  ACTIVE = 'ACTIVE',
+  RELEASED = 'RELEASED',
+  CANCELLED = 'CANCELLED',
+  EXPIRED = 'EXPIRED'
+}
+
+export class StockReservationResponseDto {
+  @ApiProperty({
+    description: 'Reservation ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Product ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  product_id: string;
+
+  @ApiProperty({
+    description: 'Location ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  location_id: string;
+
+  @ApiProperty({
+    description: 'User the stock is held for',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  owner_id: string;
+
+  @ApiProperty({
+    description: 'Quantity held by the reservation',
+    example: 5,
+  })
+  quantity: number;
+
+  @ApiProperty({
+    description: 'Reservation status',
+    enum: StockReservationStatus,
+    example: StockReservationStatus.ACTIVE,
+  })
+  status: StockReservationStatus;
+
+  @ApiPropertyOptional({
+    description: 'Type of document the stock is reserved for',
+    enum: StockReferenceType,
+  })
+  reference_type?: StockReferenceType | null;
+
+  @ApiPropertyOptional({
+    description: 'ID of the document the stock is reserved for',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  reference_id?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'When the reservation lapses',
+    example: '2024-01-16T10:30:00.000Z',
+  })
+  expires_at?: Date | null;
+
+  @ApiPropertyOptional({
+    description: 'When the reservation was released, cancelled or expired',
+    example: '2024-01-15T18:00:00.000Z',
+  })
+  released_at?: Date | null;
+
+  @ApiPropertyOptional({
+    description: 'Reservation notes',
+    example: 'Held for pickup order',
+  })
+  notes?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Stock at the location after the change',
+    type: StockResponseDto,
+  })
+  stock?: StockResponseDto;
+
+  @ApiProperty({
+    description: 'Created by user ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  created_by: string;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  created_at: Date;
+}
+
+export class StockReservationFiltersDto {
+  @ApiPropertyOptional({
+    description: 'Filter by product ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsString()
+  @IsUUID('4')
+  product_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by location ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsString()
+  @IsUUID('4')
+  location_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by owner ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsString()
+  @IsUUID('4')
+  owner_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by reservation status',
+    enum: StockReservationStatus,
+  })
+  @IsOptional()
+  @IsEnum(StockReservationStatus)
+  status?: StockReservationStatus;
 }
\ No newline at end of file
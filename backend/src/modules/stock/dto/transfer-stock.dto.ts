@@ -0,0 +1,72 @@
+import { 
+  IsString, 
+  IsNotEmpty, 
+  IsOptional, 
+  IsNumber, 
+  IsUUID, 
+  IsInt,
+  Min,
+  MaxLength
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+
+export class TransferStockDto {
+  @ApiProperty({
+    description: 'Product to transfer',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsString({ message: 'Product ID must be a string' })
+  @IsNotEmpty({ message: 'Product ID is required' })
+  @IsUUID('4', { message: 'Product ID must be a valid UUID' })
+  product_id: string;
+
+  @ApiProperty({
+    description: 'Location the stock is taken from',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsString({ message: 'Source location ID must be a string' })
+  @IsNotEmpty({ message: 'Source location ID is required' })
+  @IsUUID('4', { message: 'Source location ID must be a valid UUID' })
+  from_location_id: string;
+
+  @ApiProperty({
+    description: 'Location the stock is moved to',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsString({ message: 'Destination location ID must be a string' })
+  @IsNotEmpty({ message: 'Destination location ID is required' })
+  @IsUUID('4', { message: 'Destination location ID must be a valid UUID' })
+  to_location_id: string;
+
+  @ApiProperty({
+    description: 'Quantity to transfer',
+    example: 10,
+    minimum: 1,
+  })
+  @IsNumber({}, { message: 'Quantity must be a number' })
+  @IsInt({ message: 'Quantity must be an integer' })
+  @Min(1, { message: 'Quantity must be at least 1' })
+  @Type(() => Number)
+  quantity: number;
+
+  @ApiPropertyOptional({
+    description: 'Reason for the transfer',
+    example: 'Restocking branch shelves from the backroom',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString({ message: 'Notes must be a string' })
+  @MaxLength(500, { message: 'Notes cannot exceed 500 characters' })
+  @Transform(({ value }) => value?.trim())
+  notes?: string;
+
+  @ApiProperty({
+    description: 'ID of the user making the transfer',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsString({ message: 'Created by must be a string' })
+  @IsNotEmpty({ message: 'Created by is required' })
+  @IsUUID('4', { message: 'Created by must be a valid UUID' })
+  created_by: string;
+}
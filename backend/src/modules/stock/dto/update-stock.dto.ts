@@ -11,6 +11,15 @@ import { ApiPropertyOptional, ApiProperty } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
 
 export class UpdateStockDto {
+  @ApiPropertyOptional({
+    description: 'Location to update (defaults to the default location)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsString({ message: 'Location ID must be a string' })
+  @IsUUID('4', { message: 'Location ID must be a valid UUID' })
+  location_id?: string;
+
   @ApiPropertyOptional({
     description: 'Available quantity in stock',
     example: 150,
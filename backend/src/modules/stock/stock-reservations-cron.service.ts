@@ -0,0 +1,34 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { StockService } from './stock.service';
+
+@Injectable()
+export class StockReservationsCronService {
+  private readonly logger = new Logger(StockReservationsCronService.name);
+
+  constructor(private readonly stockService: StockService) {}
+
+  /**
+   * Runs every 5 minutes
+   * Releases reservations whose expires_at has passed back to available stock
+   */
+  @Cron('0 */5 * * * *', {
+    name: 'stock-reservation-expiry',
+    timeZone: 'UTC',
+  })
+  async handleReservationExpiryCron() {
+    const startTime = Date.now();
+    this.logger.log('Stock reservation expiry cron job started');
+
+    try {
+      const releasedCount = await this.stockService.releaseExpiredReservations();
+
+      this.logger.log(
+        `Stock reservation expiry cron job completed in ${Date.now() - startTime}ms. ` +
+        `Released ${releasedCount} expired reservations.`
+      );
+    } catch (error) {
+      this.logger.error(`Stock reservation expiry cron job failed: ${error.message}`, error.stack);
+    }
+  }
+}
@@ -10,6 +10,7 @@ import {
   ParseUUIDPipe,
   HttpStatus,
   HttpCode,
+  StreamableFile,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -26,13 +27,21 @@ import {
   AdjustStockDto,
   ReserveStockDto,
   ReleaseStockDto,
+  CancelReservationDto,
+  TransferStockDto,
   CreateStockTransactionDto,
   StockResponseDto,
   StockSummaryDto,
   StockTransactionResponseDto,
+  StockTransferResponseDto,
+  StockReservationResponseDto,
   StockFiltersDto,
   StockTransactionFiltersDto,
+  StockLedgerPageDto,
+  StockTransferFiltersDto,
+  StockReservationFiltersDto,
 } from './dto';
+import { ExportFormat, parseExportFormat } from '../documents/tabular-export';
 
 @ApiTags('Stock Management')
 @ApiBearerAuth()
@@ -86,6 +95,27 @@ export class StockController {
     return this.stockService.findAll(filters);
   }
 
+  @Get('export')
+  @ApiOperation({
+    summary: 'Export stock summaries',
+    description: 'Streams every stock record matching the same filters as GET /stock as CSV, XLSX or JSON.',
+  })
+  @ApiQuery({ name: 'format', required: false, enum: ExportFormat, description: 'File format (defaults to csv)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Export file streamed',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Unsupported export format',
+  })
+  exportStock(
+    @Query() filters: StockFiltersDto,
+    @Query('format') format?: string,
+  ): StreamableFile {
+    return this.stockService.exportStock(filters, parseExportFormat(format));
+  }
+
   @Get('low-stock')
   @ApiOperation({ summary: 'Get products with low stock levels' })
   @ApiQuery({
@@ -94,13 +124,22 @@ export class StockController {
     description: 'Custom threshold for low stock (defaults to product minimum_stock_level)',
     type: Number,
   })
+  @ApiQuery({
+    name: 'location_id',
+    required: false,
+    description: 'Limit to a single location (defaults to all locations)',
+    type: 'string',
+  })
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Low stock items retrieved successfully',
     type: [StockSummaryDto],
   })
-  async getLowStockItems(@Query('threshold') threshold?: number): Promise<StockSummaryDto[]> {
-    return this.stockService.getLowStockItems(threshold);
+  async getLowStockItems(
+    @Query('threshold') threshold?: number,
+    @Query('location_id', new ParseUUIDPipe({ optional: true })) locationId?: string,
+  ): Promise<StockSummaryDto[]> {
+    return this.stockService.getLowStockItems(threshold, locationId);
   }
 
   @Get('product/:productId')
@@ -111,6 +150,12 @@ export class StockController {
     type: 'string',
     format: 'uuid',
   })
+  @ApiQuery({
+    name: 'location_id',
+    required: false,
+    description: 'Location UUID (defaults to the default location)',
+    type: 'string',
+  })
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Stock record retrieved successfully',
@@ -122,8 +167,9 @@ export class StockController {
   })
   async findByProductId(
     @Param('productId', ParseUUIDPipe) productId: string,
+    @Query('location_id', new ParseUUIDPipe({ optional: true })) locationId?: string,
   ): Promise<StockResponseDto> {
-    return this.stockService.findByProductId(productId);
+    return this.stockService.findByProductId(productId, locationId);
   }
 
   @Put('product/:productId')
@@ -179,7 +225,7 @@ export class StockController {
   }
 
   @Patch('product/:productId/reserve')
-  @ApiOperation({ summary: 'Reserve stock quantity' })
+  @ApiOperation({ summary: 'Reserve stock quantity for an owner until released or expired' })
   @ApiParam({
     name: 'productId',
     description: 'Product UUID',
@@ -189,7 +235,7 @@ export class StockController {
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Stock reserved successfully',
-    type: StockResponseDto,
+    type: StockReservationResponseDto,
   })
   @ApiResponse({
     status: HttpStatus.BAD_REQUEST,
@@ -202,7 +248,7 @@ export class StockController {
   async reserveStock(
     @Param('productId', ParseUUIDPipe) productId: string,
     @Body() reserveStockDto: ReserveStockDto,
-  ): Promise<StockResponseDto> {
+  ): Promise<StockReservationResponseDto> {
     return this.stockService.reserveStock(productId, reserveStockDto);
   }
 
@@ -234,6 +280,98 @@ export class StockController {
     return this.stockService.releaseStock(productId, releaseStockDto);
   }
 
+  @Get('product/:productId/reservations')
+  @ApiOperation({ summary: 'Get stock reservations for a product' })
+  @ApiParam({
+    name: 'productId',
+    description: 'Product UUID',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Product stock reservations retrieved successfully',
+    type: [StockReservationResponseDto],
+  })
+  async findReservationsByProductId(
+    @Param('productId', ParseUUIDPipe) productId: string,
+    @Query() filters: StockReservationFiltersDto,
+  ): Promise<StockReservationResponseDto[]> {
+    return this.stockService.findReservationsByProductId(productId, filters);
+  }
+
+  // Stock Reservations
+  @Get('reservations')
+  @ApiOperation({ summary: 'Get stock reservations with optional filters' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Stock reservations retrieved successfully',
+    type: [StockReservationResponseDto],
+  })
+  async findReservations(@Query() filters: StockReservationFiltersDto): Promise<StockReservationResponseDto[]> {
+    return this.stockService.findReservations(filters);
+  }
+
+  @Patch('reservations/:id/cancel')
+  @ApiOperation({ summary: 'Cancel an active stock reservation and release its quantity' })
+  @ApiParam({
+    name: 'id',
+    description: 'Reservation UUID',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Stock reservation cancelled successfully',
+    type: StockReservationResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Reservation is no longer active',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Reservation not found',
+  })
+  async cancelReservation(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() cancelReservationDto: CancelReservationDto,
+  ): Promise<StockReservationResponseDto> {
+    return this.stockService.cancelReservation(id, cancelReservationDto);
+  }
+
+  // Stock Transfers
+  @Post('transfers')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Transfer stock between locations' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Stock transferred successfully',
+    type: StockTransferResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Insufficient stock at source, same or inactive location',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Product or location not found',
+  })
+  async transferStock(@Body() transferStockDto: TransferStockDto): Promise<StockTransferResponseDto> {
+    return this.stockService.transferStock(transferStockDto);
+  }
+
+  @Get('transfers')
+  @ApiOperation({ summary: 'Get stock transfers with optional filters' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Stock transfers retrieved successfully',
+    type: [StockTransferResponseDto],
+  })
+  async findTransfers(@Query() filters: StockTransferFiltersDto): Promise<StockTransferResponseDto[]> {
+    return this.stockService.findTransfers(filters);
+  }
+
   // Stock Transactions
   @Post('transactions')
   @HttpCode(HttpStatus.CREATED)
@@ -279,6 +417,45 @@ export class StockController {
     return this.stockService.findTransactions(filters);
   }
 
+  @Get('transactions/ledger')
+  @ApiOperation({
+    summary: 'Walk the stock transaction ledger with cursor pagination',
+    description: 'Accepts the same filters as GET /stock/transactions. Pass next_cursor from the previous page as cursor to continue.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Stock ledger page retrieved successfully',
+    type: StockLedgerPageDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid cursor',
+  })
+  async findLedgerPage(@Query() filters: StockTransactionFiltersDto): Promise<StockLedgerPageDto> {
+    return this.stockService.findLedgerPage(filters);
+  }
+
+  @Get('transactions/export')
+  @ApiOperation({
+    summary: 'Export the stock transaction ledger',
+    description: 'Streams every transaction matching the same filters as GET /stock/transactions as CSV, XLSX or JSON.',
+  })
+  @ApiQuery({ name: 'format', required: false, enum: ExportFormat, description: 'File format (defaults to csv)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Export file streamed',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Unsupported export format',
+  })
+  exportTransactions(
+    @Query() filters: StockTransactionFiltersDto,
+    @Query('format') format?: string,
+  ): StreamableFile {
+    return this.stockService.exportTransactions(filters, parseExportFormat(format));
+  }
+
   @Get('transactions/product/:productId')
   @ApiOperation({ summary: 'Get stock transactions by product ID' })
   @ApiParam({
@@ -299,6 +476,18 @@ export class StockController {
     description: 'Items per page',
     type: Number,
   })
+  @ApiQuery({
+    name: 'sort_by',
+    required: false,
+    description: 'Sort field',
+    enum: ['created_at', 'quantity'],
+  })
+  @ApiQuery({
+    name: 'sort_order',
+    required: false,
+    description: 'Sort order',
+    enum: ['asc', 'desc'],
+  })
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Product stock transactions retrieved successfully',
@@ -319,7 +508,14 @@ export class StockController {
     @Param('productId', ParseUUIDPipe) productId: string,
     @Query('page') page?: number,
     @Query('limit') limit?: number,
+    @Query('sort_by') sortBy?: 'created_at' | 'quantity',
+    @Query('sort_order') sortOrder?: 'asc' | 'desc',
   ) {
-    return this.stockService.findTransactionsByProductId(productId, { page, limit });
+    return this.stockService.findTransactionsByProductId(productId, {
+      page,
+      limit,
+      sort_by: sortBy,
+      sort_order: sortOrder,
+    });
   }
 }
\ No newline at end of file
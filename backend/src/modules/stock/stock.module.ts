@@ -1,12 +1,15 @@
 import { Module } from '@nestjs/common';
 import { StockController } from './stock.controller';
 import { StockService } from './stock.service';
+import { StockReservationsCronService } from './stock-reservations-cron.service';
+import { UnitsOfMeasureService } from './units-of-measure.service';
 import { DatabaseModule } from '../../core/database/database.module';
+import { CostingModule } from '../costing/costing.module';
 
 @Module({
-  imports: [DatabaseModule],
+  imports: [DatabaseModule, CostingModule],
   controllers: [StockController],
-  providers: [StockService],
-  exports: [StockService],
+  providers: [StockService, StockReservationsCronService, UnitsOfMeasureService],
+  exports: [StockService, UnitsOfMeasureService],
 })
 export class StockModule {}
\ No newline at end of file
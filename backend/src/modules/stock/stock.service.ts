@@ -1,29 +1,81 @@
-import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
-import { StockRepository } from '../../core/database/repositories/stock.repository';
-import { StockTransactionsRepository } from '../../core/database/repositories/stock-transactions.repository';
+import { Injectable, Logger, NotFoundException, ConflictException, BadRequestException, StreamableFile } from '@nestjs/common';
+import { StockRepository, StockListFilters } from '../../core/database/repositories/stock.repository';
+import { LocationsRepository, LocationEntity } from '../../core/database/repositories/locations.repository';
+import {
+  StockTransactionsRepository,
+  StockTransactionFilters,
+  StockTransactionCursor,
+} from '../../core/database/repositories/stock-transactions.repository';
 import { ProductsRepository } from '../../core/database/repositories/products.repository';
+import { DbTransaction } from '../../core/database/repositories/base.repository';
+import { DrizzleService } from '../../core/database/drizzle.service';
 import {
   CreateStockDto,
   UpdateStockDto,
   AdjustStockDto,
   ReserveStockDto,
   ReleaseStockDto,
+  CancelReservationDto,
+  TransferStockDto,
   CreateStockTransactionDto,
   StockResponseDto,
   StockSummaryDto,
   StockTransactionResponseDto,
+  StockTransferResponseDto,
+  StockReservationResponseDto,
+  StockLedgerPageDto,
   StockFiltersDto,
   StockTransactionFiltersDto,
+  StockTransferFiltersDto,
+  StockReservationFiltersDto,
   StockTransactionType,
   StockReferenceType
 } from './dto';
+import { CostingService, MovementCostContext } from '../costing/costing.service';
+import { ExportColumn, ExportFormat, EXPORT_PAGE_SIZE, createExportFile } from '../documents/tabular-export';
+import { MESSAGES } from '../../common/constants/string-const';
+
+const STOCK_EXPORT_COLUMNS: ExportColumn<StockSummaryDto>[] = [
+  { header: 'Product ID', value: stock => stock.product_id },
+  { header: 'Product', value: stock => stock.product_name },
+  { header: 'SKU', value: stock => stock.product_sku },
+  { header: 'Location', value: stock => stock.location?.name },
+  { header: 'Location Code', value: stock => stock.location?.code },
+  { header: 'Available', value: stock => stock.quantity_available },
+  { header: 'Reserved', value: stock => stock.quantity_reserved },
+  { header: 'Total', value: stock => stock.total_quantity },
+  { header: 'Minimum Stock Level', value: stock => stock.minimum_stock_level },
+  { header: 'Low Stock', value: stock => stock.is_low_stock },
+];
+
+const TRANSACTION_EXPORT_COLUMNS: ExportColumn<StockTransactionResponseDto>[] = [
+  { header: 'ID', value: transaction => transaction.id },
+  { header: 'Date', value: transaction => transaction.created_at },
+  { header: 'Product ID', value: transaction => transaction.product_id },
+  { header: 'Product', value: transaction => transaction.product?.name },
+  { header: 'SKU', value: transaction => transaction.product?.sku },
+  { header: 'Location ID', value: transaction => transaction.location_id },
+  { header: 'Type', value: transaction => transaction.transaction_type },
+  { header: 'Quantity', value: transaction => transaction.quantity },
+  { header: 'Reference Type', value: transaction => transaction.reference_type },
+  { header: 'Reference ID', value: transaction => transaction.reference_id },
+  { header: 'Notes', value: transaction => transaction.notes },
+  { header: 'Created By', value: transaction => transaction.created_by },
+];
 
 @Injectable()
 export class StockService {
+  private readonly logger = new Logger(StockService.name);
+  private readonly DEFAULT_RESERVATION_TTL_HOURS = 24;
+  private readonly MAX_PAGE_SIZE = 100;
+
   constructor(
     private readonly stockRepository: StockRepository,
     private readonly stockTransactionsRepository: StockTransactionsRepository,
     private readonly productsRepository: ProductsRepository,
+    private readonly locationsRepository: LocationsRepository,
+    private readonly costingService: CostingService,
+    private readonly drizzleService: DrizzleService,
   ) {}
 
   async createStock(createStockDto: CreateStockDto): Promise<StockResponseDto> {
@@ -32,28 +84,50 @@ export class StockService {
     if (!product) {
       throw new NotFoundException(`Product with ID ${createStockDto.product_id} not found`);
     }
+    if (product.variant_attributes?.length) {
+      throw new BadRequestException(MESSAGES.PRODUCT_VARIANT_REQUIRED);
+    }
 
-    // Check if stock already exists for this product
-    const existingStock = await this.stockRepository.findByProductId(createStockDto.product_id);
+    const location = await this.resolveLocation(createStockDto.location_id, createStockDto.created_by);
+
+    // Check if stock already exists for this product at the location
+    const existingStock = await this.stockRepository.findByProductId(createStockDto.product_id, location.id);
     if (existingStock) {
-      throw new ConflictException(`Stock already exists for product ${createStockDto.product_id}`);
+      throw new ConflictException(`Stock already exists for product ${createStockDto.product_id} at location ${location.code}`);
     }
 
-    const stock = await this.stockRepository.create(createStockDto);
-
-    // Create initial stock transaction if quantity > 0
+    // Create the stock record, its initial transaction and cost layer together if quantity > 0
     if (createStockDto.quantity_available > 0) {
-      const transactionDto: CreateStockTransactionDto = {
-        product_id: createStockDto.product_id,
-        transaction_type: StockTransactionType.IN,
-        quantity: createStockDto.quantity_available,
-        reference_type: StockReferenceType.ADJUSTMENT,
-        notes: 'Initial stock creation',
-        created_by: createStockDto.created_by,
-      };
-      await this.stockTransactionsRepository.create(transactionDto);
+      const stock = await this.drizzleService.transaction(async (tx) => {
+        const { stock } = await this.stockRepository.applyMovement({
+          product_id: createStockDto.product_id,
+          location_id: location.id,
+          available_change: createStockDto.quantity_available,
+          reserved_change: createStockDto.quantity_reserved ?? 0,
+          transaction_type: StockTransactionType.IN,
+          quantity: createStockDto.quantity_available,
+          reference_type: StockReferenceType.ADJUSTMENT,
+          notes: 'Initial stock creation',
+          user_id: createStockDto.created_by,
+          create_if_missing: true,
+        }, tx);
+        await this.costingService.recordMovement({
+          product_id: createStockDto.product_id,
+          transaction_type: StockTransactionType.IN,
+          quantity: createStockDto.quantity_available,
+          reference_type: StockReferenceType.ADJUSTMENT,
+          notes: 'Initial stock creation',
+          created_by: createStockDto.created_by,
+        }, tx);
+        return stock;
+      });
+      return this.mapToStockResponse(stock);
     }
 
+    const stock = await this.stockRepository.create({
+      ...createStockDto,
+      location_id: location.id,
+    });
     return this.mapToStockResponse(stock);
   }
 
@@ -63,31 +137,14 @@ export class StockService {
     page: number;
     limit: number;
   }> {
-    const { page = 1, limit = 20, ...filterOptions } = filters;
-    
-    // Get all stock records with products
-    const allStocks = await this.stockRepository.findAll();
-    
-    // Apply filters
-    let filteredStocks = allStocks;
-    if (filterOptions.product_id) {
-      filteredStocks = filteredStocks.filter(stock => stock.product_id === filterOptions.product_id);
-    }
-    if (filterOptions.low_stock !== undefined) {
-      filteredStocks = filteredStocks.filter(stock => {
-        const totalQuantity = stock.quantity_available + stock.quantity_reserved;
-        const minimumLevel = stock.product?.minimum_stock_level || 0;
-        const isLowStock = totalQuantity <= minimumLevel;
-        return filterOptions.low_stock ? isLowStock : !isLowStock;
-      });
-    }
+    const { page, limit } = this.parsePagination(filters.page, filters.limit, 20);
 
-    // Apply pagination
-    const total = filteredStocks.length;
-    const offset = (page - 1) * limit;
-    const paginatedStocks = filteredStocks.slice(offset, offset + limit);
+    const { data: stocks, total } = await this.stockRepository.findPaginated(
+      this.toStockListFilters(filters),
+      { page, limit, sortBy: filters.sort_by, sortOrder: filters.sort_order },
+    );
 
-    const data = paginatedStocks.map((stock: any) => this.mapToStockSummary(stock));
+    const data = stocks.map((stock: any) => this.mapToStockSummary(stock));
 
     return {
       data,
@@ -97,193 +154,316 @@ export class StockService {
     };
   }
 
-  async findByProductId(productId: string): Promise<StockResponseDto> {
-    const stock = await this.stockRepository.findByProductId(productId);
+  /**
+   * Streams every stock summary matching the list filters as a download
+   */
+  exportStock(filters: StockFiltersDto, format: ExportFormat): StreamableFile {
+    this.logger.log(`Exporting stock summaries as ${format}`);
+    return createExportFile(format, 'stock', STOCK_EXPORT_COLUMNS, this.findStockExportPages(filters));
+  }
+
+  async findByProductId(productId: string, locationId?: string): Promise<StockResponseDto> {
+    const resolvedLocationId = locationId ?? (await this.locationsRepository.findDefault())?.id;
+    const stock = resolvedLocationId
+      ? await this.stockRepository.findByProductIdWithProduct(productId, resolvedLocationId)
+      : null;
     if (!stock) {
       throw new NotFoundException(`Stock not found for product ${productId}`);
     }
     return this.mapToStockResponse(stock);
   }
 
-  async updateStock(productId: string, updateStockDto: UpdateStockDto): Promise<StockResponseDto> {
-    const existingStock = await this.stockRepository.findByProductId(productId);
-    if (!existingStock) {
-      throw new NotFoundException(`Stock not found for product ${productId}`);
+  /**
+   * Quantity available for a product at a location (the default location when omitted)
+   */
+  async getAvailableQuantity(productId: string, locationId?: string): Promise<number> {
+    const resolvedLocationId = locationId ?? (await this.locationsRepository.findDefault())?.id;
+    if (!resolvedLocationId) {
+      return 0;
     }
 
-    const updatedStock = await this.stockRepository.update(productId, updateStockDto);
-    return this.mapToStockResponse(updatedStock);
+    const stock = await this.stockRepository.findByProductId(productId, resolvedLocationId);
+    return stock?.quantity_available ?? 0;
   }
 
-  async adjustStock(productId: string, adjustStockDto: AdjustStockDto): Promise<StockResponseDto> {
-    const existingStock = await this.stockRepository.findByProductId(productId);
-    if (!existingStock) {
-      throw new NotFoundException(`Stock not found for product ${productId}`);
-    }
+  async hasStockOnHand(productId: string): Promise<boolean> {
+    return this.stockRepository.hasStockOnHand(productId);
+  }
 
-    const newQuantity = existingStock.quantity_available + adjustStockDto.quantity_change;
-    if (newQuantity < 0) {
-      throw new BadRequestException(
-        `Insufficient stock. Available: ${existingStock.quantity_available}, Requested change: ${adjustStockDto.quantity_change}`
+  async updateStock(productId: string, updateStockDto: UpdateStockDto): Promise<StockResponseDto> {
+    const { location_id, ...stockData } = updateStockDto;
+    const location = await this.resolveLocation(location_id, updateStockDto.updated_by);
+
+    // Quantities are set under a row lock, which also gives the exact change for the ledger and cost layers
+    const updatedStock = await this.drizzleService.transaction(async (tx) => {
+      const { stock, available_change } = await this.stockRepository.setQuantities(
+        productId,
+        location.id,
+        stockData,
+        'Stock level set manually',
+        tx,
       );
-    }
 
-    // Update stock quantity
-    const updatedStock = await this.stockRepository.update(productId, {
-      quantity_available: newQuantity,
-      updated_by: adjustStockDto.updated_by,
+      if (available_change !== 0) {
+        await this.costingService.recordMovement({
+          product_id: productId,
+          transaction_type: available_change > 0 ? StockTransactionType.IN : StockTransactionType.OUT,
+          quantity: Math.abs(available_change),
+          reference_type: StockReferenceType.ADJUSTMENT,
+          notes: 'Stock level set manually',
+          created_by: updateStockDto.updated_by,
+        }, tx);
+      }
+      return stock;
     });
 
-    // Create stock transaction
-    const transactionDto: CreateStockTransactionDto = {
-      product_id: productId,
-      transaction_type: adjustStockDto.quantity_change > 0 ? StockTransactionType.IN : StockTransactionType.OUT,
-      quantity: Math.abs(adjustStockDto.quantity_change),
-      reference_type: StockReferenceType.ADJUSTMENT,
-      notes: adjustStockDto.notes || 'Stock adjustment',
-      created_by: adjustStockDto.updated_by,
-    };
-    await this.stockTransactionsRepository.create(transactionDto);
-
     return this.mapToStockResponse(updatedStock);
   }
 
-  async reserveStock(productId: string, reserveStockDto: ReserveStockDto): Promise<StockResponseDto> {
-    const existingStock = await this.stockRepository.findByProductId(productId);
-    if (!existingStock) {
-      throw new NotFoundException(`Stock not found for product ${productId}`);
-    }
+  async adjustStock(productId: string, adjustStockDto: AdjustStockDto): Promise<StockResponseDto> {
+    const location = await this.resolveLocation(adjustStockDto.location_id, adjustStockDto.updated_by);
+
+    const transactionType = adjustStockDto.quantity_change > 0 ? StockTransactionType.IN : StockTransactionType.OUT;
+    const notes = adjustStockDto.notes || 'Stock adjustment';
+
+    const stock = await this.drizzleService.transaction(async (tx) => {
+      const { stock } = await this.stockRepository.applyMovement({
+        product_id: productId,
+        location_id: location.id,
+        available_change: adjustStockDto.quantity_change,
+        transaction_type: transactionType,
+        quantity: Math.abs(adjustStockDto.quantity_change),
+        reference_type: StockReferenceType.ADJUSTMENT,
+        notes,
+        user_id: adjustStockDto.updated_by,
+      }, tx);
+
+      await this.costingService.recordMovement({
+        product_id: productId,
+        transaction_type: transactionType,
+        quantity: Math.abs(adjustStockDto.quantity_change),
+        reference_type: StockReferenceType.ADJUSTMENT,
+        notes,
+        created_by: adjustStockDto.updated_by,
+      }, tx);
+      return stock;
+    });
 
-    if (existingStock.quantity_available < reserveStockDto.quantity) {
-      throw new BadRequestException(
-        `Insufficient available stock. Available: ${existingStock.quantity_available}, Requested: ${reserveStockDto.quantity}`
-      );
-    }
+    return this.mapToStockResponse(stock);
+  }
 
-    // Move quantity from available to reserved
-    const updatedStock = await this.stockRepository.update(productId, {
-      quantity_available: existingStock.quantity_available - reserveStockDto.quantity,
-      quantity_reserved: existingStock.quantity_reserved + reserveStockDto.quantity,
-      updated_by: reserveStockDto.updated_by,
-    });
+  async reserveStock(productId: string, reserveStockDto: ReserveStockDto): Promise<StockReservationResponseDto> {
+    const location = await this.resolveLocation(reserveStockDto.location_id, reserveStockDto.updated_by);
 
-    // Create stock transaction
-    const transactionDto: CreateStockTransactionDto = {
+    const expiresAt = reserveStockDto.expires_at
+      ?? new Date(Date.now() + this.DEFAULT_RESERVATION_TTL_HOURS * 60 * 60 * 1000);
+    if (expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException(MESSAGES.RESERVATION_EXPIRY_IN_PAST);
+    }
+
+    // Move quantity from available to reserved and record who holds it
+    const { reservation, stock } = await this.stockRepository.reserve({
       product_id: productId,
-      transaction_type: StockTransactionType.OUT,
+      location_id: location.id,
+      owner_id: reserveStockDto.owner_id || reserveStockDto.updated_by,
       quantity: reserveStockDto.quantity,
-      reference_type: StockReferenceType.ADJUSTMENT,
-      notes: reserveStockDto.notes || 'Stock reservation',
-      created_by: reserveStockDto.updated_by,
-    };
-    await this.stockTransactionsRepository.create(transactionDto);
+      reference_type: reserveStockDto.reference_type,
+      reference_id: reserveStockDto.reference_id,
+      expires_at: expiresAt,
+      notes: reserveStockDto.notes,
+      user_id: reserveStockDto.updated_by,
+    });
 
-    return this.mapToStockResponse(updatedStock);
+    return {
+      ...this.mapToReservationResponse(reservation),
+      stock: this.mapToStockResponse(stock),
+    };
   }
 
   async releaseStock(productId: string, releaseStockDto: ReleaseStockDto): Promise<StockResponseDto> {
-    const existingStock = await this.stockRepository.findByProductId(productId);
-    if (!existingStock) {
-      throw new NotFoundException(`Stock not found for product ${productId}`);
-    }
+    const location = await this.resolveLocation(releaseStockDto.location_id, releaseStockDto.updated_by);
 
-    if (existingStock.quantity_reserved < releaseStockDto.quantity) {
-      throw new BadRequestException(
-        `Insufficient reserved stock. Reserved: ${existingStock.quantity_reserved}, Requested: ${releaseStockDto.quantity}`
-      );
-    }
+    // Move quantity from reserved back to available, oldest reservations first
+    const stock = await this.stockRepository.releaseReservedQuantity(
+      productId,
+      location.id,
+      releaseStockDto.quantity,
+      releaseStockDto.updated_by,
+      releaseStockDto.notes,
+    );
 
-    // Move quantity from reserved back to available
-    const updatedStock = await this.stockRepository.update(productId, {
-      quantity_available: existingStock.quantity_available + releaseStockDto.quantity,
-      quantity_reserved: existingStock.quantity_reserved - releaseStockDto.quantity,
-      updated_by: releaseStockDto.updated_by,
-    });
+    return this.mapToStockResponse(stock);
+  }
 
-    // Create stock transaction
-    const transactionDto: CreateStockTransactionDto = {
-      product_id: productId,
-      transaction_type: StockTransactionType.IN,
-      quantity: releaseStockDto.quantity,
-      reference_type: StockReferenceType.ADJUSTMENT,
-      notes: releaseStockDto.notes || 'Stock release from reservation',
-      created_by: releaseStockDto.updated_by,
+  async findReservations(filters: StockReservationFiltersDto = {}): Promise<StockReservationResponseDto[]> {
+    const reservations = await this.stockRepository.findReservations(filters);
+    return reservations.map(reservation => this.mapToReservationResponse(reservation));
+  }
+
+  async findReservationsByProductId(
+    productId: string,
+    filters: Omit<StockReservationFiltersDto, 'product_id'> = {},
+  ): Promise<StockReservationResponseDto[]> {
+    return this.findReservations({ ...filters, product_id: productId });
+  }
+
+  async cancelReservation(reservationId: string, cancelReservationDto: CancelReservationDto): Promise<StockReservationResponseDto> {
+    const { reservation, stock } = await this.stockRepository.closeReservation(
+      reservationId,
+      'CANCELLED',
+      cancelReservationDto.updated_by,
+      cancelReservationDto.notes,
+    );
+
+    return {
+      ...this.mapToReservationResponse(reservation),
+      stock: this.mapToStockResponse(stock),
     };
-    await this.stockTransactionsRepository.create(transactionDto);
+  }
 
-    return this.mapToStockResponse(updatedStock);
+  /**
+   * Releases every active reservation whose expiry has passed; returns how many were released
+   */
+  async releaseExpiredReservations(): Promise<number> {
+    const expiredReservations = await this.stockRepository.findExpiredReservations(new Date());
+
+    let released = 0;
+    for (const reservation of expiredReservations) {
+      try {
+        await this.stockRepository.closeReservation(
+          reservation.id,
+          'EXPIRED',
+          reservation.owner_id,
+          'Stock reservation expired',
+        );
+        released++;
+      } catch (error) {
+        // A reservation closed by someone else in the meantime is skipped, not retried
+        this.logger.warn(`Could not expire stock reservation ${reservation.id}: ${error.message}`);
+      }
+    }
+
+    return released;
   }
 
-  async createTransaction(createTransactionDto: CreateStockTransactionDto): Promise<StockTransactionResponseDto> {
+  /**
+   * Applies a ledger movement to stock levels and the cost layers in one database transaction.
+   * Callers moving stock for a purchase order or sales invoice line pass that line so its costs
+   * are tracked against it, and can pass their own transaction to include the movement in it.
+   */
+  async createTransaction(
+    createTransactionDto: CreateStockTransactionDto,
+    costContext: MovementCostContext = {},
+    tx?: DbTransaction,
+  ): Promise<StockTransactionResponseDto> {
     // Check if product exists
     const product = await this.productsRepository.findById(createTransactionDto.product_id);
     if (!product) {
       throw new NotFoundException(`Product with ID ${createTransactionDto.product_id} not found`);
     }
-
-    // Get current stock
-    let stock = await this.stockRepository.findByProductId(createTransactionDto.product_id);
-    
-    // Create stock record if it doesn't exist
-    if (!stock) {
-      const createStockDto: CreateStockDto = {
-        product_id: createTransactionDto.product_id,
-        quantity_available: 0,
-        quantity_reserved: 0,
-        created_by: createTransactionDto.created_by,
-      };
-      stock = await this.stockRepository.create(createStockDto);
+    if (product.variant_attributes?.length) {
+      throw new BadRequestException(MESSAGES.PRODUCT_VARIANT_REQUIRED);
     }
 
-    // Update stock based on transaction type
+    // IN adds to and OUT takes from available stock; ADJUSTMENT entries only record a note
+    let availableChange = 0;
     if (createTransactionDto.transaction_type === StockTransactionType.IN) {
-      await this.stockRepository.update(createTransactionDto.product_id, {
-        quantity_available: stock.quantity_available + createTransactionDto.quantity,
-        updated_by: createTransactionDto.created_by,
-      });
+      availableChange = createTransactionDto.quantity;
     } else if (createTransactionDto.transaction_type === StockTransactionType.OUT) {
-      if (stock.quantity_available < createTransactionDto.quantity) {
-        throw new BadRequestException(
-          `Insufficient stock. Available: ${stock.quantity_available}, Requested: ${createTransactionDto.quantity}`
-        );
-      }
-      await this.stockRepository.update(createTransactionDto.product_id, {
-        quantity_available: stock.quantity_available - createTransactionDto.quantity,
-        updated_by: createTransactionDto.created_by,
-      });
+      availableChange = -createTransactionDto.quantity;
     }
 
-    const transaction = await this.stockTransactionsRepository.create(createTransactionDto);
+    const location = await this.resolveLocation(createTransactionDto.location_id, createTransactionDto.created_by);
+
+    // Stock record is created if it doesn't exist
+    const transaction = await this.drizzleService.transaction(async (tx) => {
+      const { transaction } = await this.stockRepository.applyMovement({
+        product_id: createTransactionDto.product_id,
+        location_id: location.id,
+        available_change: availableChange,
+        transaction_type: createTransactionDto.transaction_type,
+        quantity: createTransactionDto.quantity,
+        reference_type: createTransactionDto.reference_type,
+        reference_id: createTransactionDto.reference_id,
+        notes: createTransactionDto.notes,
+        user_id: createTransactionDto.created_by,
+        create_if_missing: true,
+      }, tx);
+
+      await this.costingService.recordMovement({
+        product_id: createTransactionDto.product_id,
+        transaction_type: createTransactionDto.transaction_type,
+        quantity: createTransactionDto.quantity,
+        reference_type: createTransactionDto.reference_type,
+        reference_id: createTransactionDto.reference_id,
+        notes: createTransactionDto.notes,
+        created_by: createTransactionDto.created_by,
+        unit_cost: createTransactionDto.unit_cost,
+        ...costContext,
+      }, tx);
+      return transaction;
+    }, tx);
+
     return this.mapToTransactionResponse(transaction);
   }
 
+  async transferStock(transferStockDto: TransferStockDto): Promise<StockTransferResponseDto> {
+    if (transferStockDto.from_location_id === transferStockDto.to_location_id) {
+      throw new BadRequestException(MESSAGES.STOCK_TRANSFER_SAME_LOCATION);
+    }
+
+    const product = await this.productsRepository.findById(transferStockDto.product_id);
+    if (!product) {
+      throw new NotFoundException(`Product with ID ${transferStockDto.product_id} not found`);
+    }
+    if (product.variant_attributes?.length) {
+      throw new BadRequestException(MESSAGES.PRODUCT_VARIANT_REQUIRED);
+    }
+
+    await this.resolveLocation(transferStockDto.from_location_id, transferStockDto.created_by);
+    await this.resolveLocation(transferStockDto.to_location_id, transferStockDto.created_by);
+
+    const { transfer, from_stock, to_stock } = await this.stockRepository.transfer({
+      product_id: transferStockDto.product_id,
+      from_location_id: transferStockDto.from_location_id,
+      to_location_id: transferStockDto.to_location_id,
+      quantity: transferStockDto.quantity,
+      notes: transferStockDto.notes,
+      user_id: transferStockDto.created_by,
+    });
+
+    return {
+      ...this.mapToTransferResponse(transfer),
+      from_stock: this.mapToStockResponse(from_stock),
+      to_stock: this.mapToStockResponse(to_stock),
+    };
+  }
+
+  async findTransfers(filters: StockTransferFiltersDto = {}): Promise<StockTransferResponseDto[]> {
+    const transfers = await this.stockRepository.findTransfers(filters);
+    return transfers.map(transfer => this.mapToTransferResponse(transfer));
+  }
+
   async findTransactions(filters: StockTransactionFiltersDto = {}): Promise<{
     data: StockTransactionResponseDto[];
     total: number;
     page: number;
     limit: number;
   }> {
-    const { page = 1, limit = 20, start_date, end_date, ...filterOptions } = filters;
-    
-    // Convert filter format
-    const repositoryFilters = {
-      product_id: filterOptions.product_id,
-      transaction_type: filterOptions.transaction_type,
-      reference_id: filterOptions.reference_id,
-      reference_type: filterOptions.reference_type,
-      created_by: filterOptions.created_by,
-      date_from: start_date,
-      date_to: end_date,
-    };
-    
-    const allTransactions = await this.stockTransactionsRepository.findWithFilters(repositoryFilters);
-    
-    // Apply pagination
-    const total = allTransactions.length;
-    const offset = (page - 1) * limit;
-    const paginatedTransactions = allTransactions.slice(offset, offset + limit);
+    const { page, limit } = this.parsePagination(filters.page, filters.limit, 20);
+    const repositoryFilters = this.toTransactionFilters(filters);
+
+    const [transactions, total] = await Promise.all([
+      this.stockTransactionsRepository.findWithFilters(repositoryFilters, {
+        page,
+        limit,
+        sortBy: filters.sort_by,
+        sortOrder: filters.sort_order,
+      }),
+      this.stockTransactionsRepository.countTransactions(repositoryFilters),
+    ]);
 
-    const data = paginatedTransactions.map((transaction: any) => this.mapToTransactionResponse(transaction));
+    const data = transactions.map((transaction: any) => this.mapToTransactionResponse(transaction));
 
     return {
       data,
@@ -293,25 +473,28 @@ export class StockService {
     };
   }
 
-  async findTransactionsByProductId(productId: string, options: { page?: number; limit?: number } = {}): Promise<{
+  async findTransactionsByProductId(
+    productId: string,
+    options: Pick<StockTransactionFiltersDto, 'page' | 'limit' | 'sort_by' | 'sort_order'> = {},
+  ): Promise<{
     data: StockTransactionResponseDto[];
     total: number;
     page: number;
     limit: number;
   }> {
-    const { page = 1, limit = 20 } = options;
-    
-    const allTransactions = await this.stockTransactionsRepository.findByProductId(productId, {
-      sortBy: 'created_at',
-      sortOrder: 'desc',
-    });
-    
-    // Apply pagination
-    const total = allTransactions.length;
-    const offset = (page - 1) * limit;
-    const paginatedTransactions = allTransactions.slice(offset, offset + limit);
+    const { page, limit } = this.parsePagination(options.page, options.limit, 20);
 
-    const data = paginatedTransactions.map((transaction: any) => this.mapToTransactionResponse(transaction));
+    const [transactions, total] = await Promise.all([
+      this.stockTransactionsRepository.findByProductId(productId, {
+        page,
+        limit,
+        sortBy: options.sort_by,
+        sortOrder: options.sort_order,
+      }),
+      this.stockTransactionsRepository.countTransactions({ product_id: productId }),
+    ]);
+
+    const data = transactions.map((transaction: any) => this.mapToTransactionResponse(transaction));
 
     return {
       data,
@@ -321,8 +504,39 @@ export class StockService {
     };
   }
 
-  async getLowStockItems(threshold?: number): Promise<StockSummaryDto[]> {
-    const stocks = await this.stockRepository.getLowStockProducts();
+  /**
+   * Cursor-paginated ledger for clients that walk the full history, where OFFSET pages
+   * get slower the deeper they go.
+   */
+  async findLedgerPage(filters: StockTransactionFiltersDto = {}): Promise<StockLedgerPageDto> {
+    const { limit } = this.parsePagination(undefined, filters.limit, 50);
+    const cursor = filters.cursor ? this.decodeLedgerCursor(filters.cursor) : null;
+
+    const result = await this.stockTransactionsRepository.findPageByCursor(
+      this.toTransactionFilters(filters),
+      cursor,
+      limit,
+      filters.sort_order === 'asc' ? 'asc' : 'desc',
+    );
+
+    return {
+      data: result.data.map((transaction: any) => this.mapToTransactionResponse(transaction)),
+      next_cursor: result.next_cursor ? this.encodeLedgerCursor(result.next_cursor) : null,
+      limit,
+    };
+  }
+
+  /**
+   * Streams the ledger entries matching the transaction filters as a download, walking the
+   * ledger by cursor so deep exports stay fast
+   */
+  exportTransactions(filters: StockTransactionFiltersDto, format: ExportFormat): StreamableFile {
+    this.logger.log(`Exporting stock transactions as ${format}`);
+    return createExportFile(format, 'stock-transactions', TRANSACTION_EXPORT_COLUMNS, this.findTransactionExportPages(filters));
+  }
+
+  async getLowStockItems(threshold?: number, locationId?: string): Promise<StockSummaryDto[]> {
+    const stocks = await this.stockRepository.getLowStockProducts(locationId);
     return stocks.map((stock: any) => ({
       product_id: stock.product_id,
       product_name: stock.product_name,
@@ -335,10 +549,113 @@ export class StockService {
     }));
   }
 
+  /**
+   * Validates an explicit location, or falls back to the default location (created on first use)
+   */
+  private async resolveLocation(locationId: string | undefined, userId: string): Promise<LocationEntity> {
+    if (!locationId) {
+      return this.locationsRepository.ensureDefault(userId);
+    }
+
+    const location = await this.locationsRepository.findById(locationId);
+    if (!location) {
+      throw new NotFoundException(MESSAGES.LOCATION_NOT_FOUND);
+    }
+    if (!location.is_active) {
+      throw new BadRequestException(MESSAGES.LOCATION_INACTIVE);
+    }
+    return location;
+  }
+
+  private parsePagination(page: unknown, limit: unknown, defaultLimit: number): { page: number; limit: number } {
+    const parsedPage = Math.max(Math.floor(Number(page)) || 1, 1);
+    const parsedLimit = Math.min(Math.max(Math.floor(Number(limit)) || defaultLimit, 1), this.MAX_PAGE_SIZE);
+    return { page: parsedPage, limit: parsedLimit };
+  }
+
+  private toStockListFilters(filters: StockFiltersDto): StockListFilters {
+    return {
+      product_id: filters.product_id,
+      location_id: filters.location_id,
+      category_id: filters.category_id,
+      search: filters.search?.trim() || undefined,
+      // Query strings are not transformed, so accept both 'true' and true
+      low_stock: filters.low_stock === undefined ? undefined : String(filters.low_stock) === 'true',
+    };
+  }
+
+  private async *findStockExportPages(filters: StockFiltersDto): AsyncGenerator<StockSummaryDto[]> {
+    const repositoryFilters = this.toStockListFilters(filters);
+
+    for (let page = 1; ; page++) {
+      const { data, total } = await this.stockRepository.findPaginated(repositoryFilters, {
+        page,
+        limit: EXPORT_PAGE_SIZE,
+        sortBy: filters.sort_by,
+        sortOrder: filters.sort_order,
+      });
+
+      yield data.map((stock: any) => this.mapToStockSummary(stock));
+
+      if (page * EXPORT_PAGE_SIZE >= total) {
+        return;
+      }
+    }
+  }
+
+  private async *findTransactionExportPages(filters: StockTransactionFiltersDto): AsyncGenerator<StockTransactionResponseDto[]> {
+    const repositoryFilters = this.toTransactionFilters(filters);
+    const sortOrder = filters.sort_order === 'asc' ? 'asc' : 'desc';
+    let cursor: StockTransactionCursor | null = null;
+
+    do {
+      const result = await this.stockTransactionsRepository.findPageByCursor(repositoryFilters, cursor, EXPORT_PAGE_SIZE, sortOrder);
+      yield result.data.map((transaction: any) => this.mapToTransactionResponse(transaction));
+      cursor = result.next_cursor;
+    } while (cursor);
+  }
+
+  private toTransactionFilters(filters: StockTransactionFiltersDto): StockTransactionFilters {
+    return {
+      product_id: filters.product_id,
+      location_id: filters.location_id,
+      transaction_type: filters.transaction_type,
+      reference_id: filters.reference_id,
+      reference_type: filters.reference_type,
+      created_by: filters.created_by,
+      date_from: filters.start_date ? new Date(filters.start_date) : undefined,
+      date_to: filters.end_date ? new Date(filters.end_date) : undefined,
+    };
+  }
+
+  private encodeLedgerCursor(cursor: StockTransactionCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeLedgerCursor(value: string): StockTransactionCursor {
+    try {
+      const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+      const timestampPattern = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(\.\d{1,6})?$/;
+      const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+      if (
+        typeof cursor?.created_at !== 'string' ||
+        !timestampPattern.test(cursor.created_at) ||
+        typeof cursor?.id !== 'string' ||
+        !uuidPattern.test(cursor.id)
+      ) {
+        throw new Error('Malformed cursor');
+      }
+      return { created_at: cursor.created_at, id: cursor.id };
+    } catch {
+      throw new BadRequestException(MESSAGES.STOCK_LEDGER_CURSOR_INVALID);
+    }
+  }
+
   private mapToStockResponse(stock: any): StockResponseDto {
     return {
       id: stock.id,
       product_id: stock.product_id,
+      location_id: stock.location_id,
       quantity_available: stock.quantity_available,
       quantity_reserved: stock.quantity_reserved,
       product: stock.product ? {
@@ -348,6 +665,11 @@ export class StockService {
         barcode: stock.product.barcode,
         minimum_stock_level: stock.product.minimum_stock_level,
       } : undefined,
+      location: stock.location ? {
+        id: stock.location.id,
+        name: stock.location.name,
+        code: stock.location.code,
+      } : undefined,
       created_by: stock.created_by,
       created_at: stock.created_at,
       updated_by: stock.updated_by,
@@ -361,6 +683,12 @@ export class StockService {
     
     return {
       product_id: stock.product_id,
+      location_id: stock.location_id,
+      location: stock.location ? {
+        id: stock.location.id,
+        name: stock.location.name,
+        code: stock.location.code,
+      } : undefined,
       product_name: stock.product?.name || 'Unknown Product',
       product_sku: stock.product?.sku || 'N/A',
       quantity_available: stock.quantity_available,
@@ -375,6 +703,7 @@ export class StockService {
     return {
       id: transaction.id,
       product_id: transaction.product_id,
+      location_id: transaction.location_id,
       transaction_type: transaction.transaction_type,
       quantity: transaction.quantity,
       reference_type: transaction.reference_type,
@@ -391,4 +720,35 @@ export class StockService {
       created_at: transaction.created_at,
     };
   }
+
+  private mapToReservationResponse(reservation: any): StockReservationResponseDto {
+    return {
+      id: reservation.id,
+      product_id: reservation.product_id,
+      location_id: reservation.location_id,
+      owner_id: reservation.owner_id,
+      quantity: reservation.quantity,
+      status: reservation.status,
+      reference_type: reservation.reference_type,
+      reference_id: reservation.reference_id,
+      expires_at: reservation.expires_at,
+      released_at: reservation.released_at,
+      notes: reservation.notes,
+      created_by: reservation.created_by,
+      created_at: reservation.created_at,
+    };
+  }
+
+  private mapToTransferResponse(transfer: any): StockTransferResponseDto {
+    return {
+      id: transfer.id,
+      product_id: transfer.product_id,
+      from_location_id: transfer.from_location_id,
+      to_location_id: transfer.to_location_id,
+      quantity: transfer.quantity,
+      notes: transfer.notes,
+      created_by: transfer.created_by,
+      created_at: transfer.created_at,
+    };
+  }
 }
\ No newline at end of file
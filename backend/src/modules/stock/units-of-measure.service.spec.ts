@@ -0,0 +1,116 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { UnitsOfMeasureService } from './units-of-measure.service';
+import { ProductEntity } from '../../core/database/repositories/products.repository';
+
+const product = (overrides: Partial<ProductEntity> = {}): ProductEntity => ({
+  id: 'product-1',
+  name: 'Coffee beans',
+  base_unit: 'G',
+  units: [
+    { code: 'KG', name: 'Kilogram', factor: 1000 },
+    { code: 'BAG', name: 'Bag', factor: 250 },
+  ],
+  purchase_unit: 'KG',
+  sales_unit: 'BAG',
+  ...overrides,
+}) as ProductEntity;
+
+describe('UnitsOfMeasureService', () => {
+  let service: UnitsOfMeasureService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [UnitsOfMeasureService],
+    }).compile();
+
+    service = module.get<UnitsOfMeasureService>(UnitsOfMeasureService);
+  });
+
+  describe('resolveLineUnit', () => {
+    it('uses the requested unit, case-insensitively', () => {
+      expect(service.resolveLineUnit(product(), ' kg ', 'sales')).toEqual({ unit_code: 'KG', unit_factor: 1000 });
+    });
+
+    it('falls back to the default unit for the purpose', () => {
+      expect(service.resolveLineUnit(product(), undefined, 'purchase')).toEqual({ unit_code: 'KG', unit_factor: 1000 });
+      expect(service.resolveLineUnit(product(), undefined, 'sales')).toEqual({ unit_code: 'BAG', unit_factor: 250 });
+    });
+
+    it('falls back to the base unit when there is no default', () => {
+      expect(service.resolveLineUnit(product({ sales_unit: null }), undefined, 'sales'))
+        .toEqual({ unit_code: 'G', unit_factor: 1 });
+    });
+
+    it('rejects a unit the product does not have', () => {
+      expect(() => service.resolveLineUnit(product(), 'BOX', 'sales')).toThrow(BadRequestException);
+    });
+  });
+
+  describe('toBaseQuantity', () => {
+    it('converts line units to whole base units', () => {
+      expect(service.toBaseQuantity(3, 250)).toBe(750);
+      expect(service.toBaseQuantity(1.25, 1000)).toBe(1250);
+    });
+
+    it('absorbs floating point error in the product', () => {
+      expect(service.toBaseQuantity(0.1, 30)).toBe(3);
+    });
+
+    it('rejects quantities that do not come to whole base units', () => {
+      expect(() => service.toBaseQuantity(0.5, 1)).toThrow(BadRequestException);
+      expect(() => service.toBaseQuantity(1.0005, 1000)).toThrow(BadRequestException);
+    });
+
+    it('rejects zero, negative and non-finite quantities', () => {
+      expect(() => service.toBaseQuantity(0, 1)).toThrow(BadRequestException);
+      expect(() => service.toBaseQuantity(-2, 1)).toThrow(BadRequestException);
+      expect(() => service.toBaseQuantity(Number.NaN, 1)).toThrow(BadRequestException);
+    });
+  });
+
+  describe('convertUnitPrice', () => {
+    it('scales a price per sales unit to the line unit', () => {
+      // 4.00 per 250 g bag is 16.00 per kilogram and 0.02 per gram (rounded)
+      const item = product();
+      expect(service.convertUnitPrice(item, 4, { unit_code: 'KG', unit_factor: 1000 })).toBe(16);
+      expect(service.convertUnitPrice(item, 4, { unit_code: 'G', unit_factor: 1 })).toBe(0.02);
+      expect(service.convertUnitPrice(item, 4, { unit_code: 'BAG', unit_factor: 250 })).toBe(4);
+    });
+
+    it('treats the price as per base unit when there is no sales unit', () => {
+      expect(service.convertUnitPrice(product({ sales_unit: null }), 0.5, { unit_code: 'KG', unit_factor: 1000 })).toBe(500);
+    });
+  });
+
+  describe('normaliseUnitSettings', () => {
+    it('upper-cases codes, names unnamed units and drops defaults equal to the base unit', () => {
+      expect(service.normaliseUnitSettings({
+        base_unit: 'ea',
+        units: [{ code: 'box', name: '', factor: 12 }],
+        purchase_unit: 'box',
+        sales_unit: 'EA',
+      })).toEqual({
+        base_unit: 'EA',
+        units: [{ code: 'BOX', name: 'BOX', factor: 12 }],
+        purchase_unit: 'BOX',
+        sales_unit: null,
+      });
+    });
+
+    it('rejects duplicate units and defaults that are not defined', () => {
+      expect(() => service.normaliseUnitSettings({
+        base_unit: 'EA',
+        units: [{ code: 'EA', name: 'Each', factor: 1 }],
+        purchase_unit: null,
+        sales_unit: null,
+      })).toThrow(BadRequestException);
+      expect(() => service.normaliseUnitSettings({
+        base_unit: 'EA',
+        units: null,
+        purchase_unit: 'BOX',
+        sales_unit: null,
+      })).toThrow(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { ProductEntity } from '../../core/database/repositories/products.repository';
+import { ProductUnit } from '../../core/database/schema/products';
+import { MESSAGES } from '../../common/constants/string-const';
+
+export type UnitPurpose = 'purchase' | 'sales';
+
+export interface LineUnit {
+  unit_code: string;
+  unit_factor: number; // Base units in one line unit
+}
+
+export interface ProductUnitSettings {
+  base_unit: string;
+  units: ProductUnit[] | null;
+  purchase_unit: string | null;
+  sales_unit: string | null;
+}
+
+const UNIT_CODE_PATTERN = /^[A-Z0-9_]{1,20}$/;
+const MAX_UNITS = 10;
+const MAX_FACTOR = 1000000;
+const MAX_QUANTITY = 999999999;
+
+// Floating point slack when checking that a value has no more than the allowed decimals
+const ROUNDING_TOLERANCE = 1e-6;
+
+const hasAtMostDecimals = (value: number, decimals: number) => {
+  const scaled = value * 10 ** decimals;
+  return Math.abs(scaled - Math.round(scaled)) <= ROUNDING_TOLERANCE;
+};
+
+/**
+ * Converts between the units a product is bought and sold in and its base unit. Stock is
+ * always counted in whole base units; document lines keep the quantity the user entered,
+ * in the line's unit, along with a snapshot of the conversion factor.
+ */
+@Injectable()
+export class UnitsOfMeasureService {
+  /**
+   * The unit a document line is in: the one asked for, else the product's default unit for
+   * purchasing or selling, else its base unit
+   */
+  resolveLineUnit(product: ProductEntity, unitCode: string | undefined, purpose: UnitPurpose): LineUnit {
+    const defaultUnit = purpose === 'purchase' ? product.purchase_unit : product.sales_unit;
+    const code = unitCode?.trim().toUpperCase() || defaultUnit || product.base_unit;
+    const factor = this.findFactor(product, code);
+    if (factor === null) {
+      throw new BadRequestException(`${MESSAGES.PRODUCT_UNIT_NOT_FOUND}: ${code} (${product.name})`);
+    }
+    return { unit_code: code, unit_factor: factor };
+  }
+
+  /**
+   * Price of one line unit, given a product price quoted per sales unit
+   */
+  convertUnitPrice(product: ProductEntity, price: number, lineUnit: LineUnit): number {
+    const salesFactor = this.findFactor(product, product.sales_unit || product.base_unit) ?? 1;
+    return Math.round((price * lineUnit.unit_factor / salesFactor) * 100) / 100;
+  }
+
+  /**
+   * Validates a quantity entered in a line unit and returns it in base units. Fractions of a
+   * line unit are fine (1.25 KG) as long as they come to whole base units (1250 G).
+   */
+  toBaseQuantity(quantity: number, unitFactor: number): number {
+    this.assertQuantity(quantity);
+    const base = quantity * unitFactor;
+    if (!hasAtMostDecimals(base, 0)) {
+      throw new BadRequestException(`${MESSAGES.QUANTITY_NOT_WHOLE_BASE_UNITS}: ${quantity} x ${unitFactor}`);
+    }
+    return Math.round(base);
+  }
+
+  assertQuantity(quantity: number): void {
+    if (typeof quantity !== 'number' || !Number.isFinite(quantity) || quantity <= 0 || quantity > MAX_QUANTITY
+      || !hasAtMostDecimals(quantity, 3)) {
+      throw new BadRequestException(MESSAGES.QUANTITY_INVALID);
+    }
+  }
+
+  /**
+   * Cleans up a product's unit settings: codes are upper-cased, names default to the code and
+   * default units that are the base unit are stored as null
+   */
+  normaliseUnitSettings(settings: ProductUnitSettings): ProductUnitSettings {
+    const baseUnit = settings.base_unit?.trim().toUpperCase();
+    if (!baseUnit || !UNIT_CODE_PATTERN.test(baseUnit)) {
+      throw new BadRequestException(MESSAGES.PRODUCT_UNIT_INVALID);
+    }
+
+    const raw = Array.isArray(settings.units) ? settings.units : [];
+    if (raw.length > MAX_UNITS) {
+      throw new BadRequestException(MESSAGES.PRODUCT_UNIT_TOO_MANY);
+    }
+
+    const codes = new Set<string>([baseUnit]);
+    const units = raw.map(unit => {
+      const code = typeof unit?.code === 'string' ? unit.code.trim().toUpperCase() : '';
+      const name = typeof unit?.name === 'string' ? unit.name.trim() : '';
+      const factor = Number(unit?.factor);
+      if (!UNIT_CODE_PATTERN.test(code) || name.length > 50 || !Number.isFinite(factor)
+        || factor <= 0 || factor > MAX_FACTOR || !hasAtMostDecimals(factor, 4)) {
+        throw new BadRequestException(MESSAGES.PRODUCT_UNIT_INVALID);
+      }
+      if (codes.has(code)) {
+        throw new BadRequestException(`${MESSAGES.PRODUCT_UNIT_DUPLICATE}: ${code}`);
+      }
+      codes.add(code);
+      return { code, name: name || code, factor };
+    });
+
+    const defaultUnit = (code: string | null) => {
+      const normalised = code?.trim().toUpperCase();
+      if (!normalised || normalised === baseUnit) {
+        return null;
+      }
+      if (!codes.has(normalised)) {
+        throw new BadRequestException(`${MESSAGES.PRODUCT_UNIT_NOT_FOUND}: ${normalised}`);
+      }
+      return normalised;
+    };
+
+    return {
+      base_unit: baseUnit,
+      units: units.length > 0 ? units : null,
+      purchase_unit: defaultUnit(settings.purchase_unit),
+      sales_unit: defaultUnit(settings.sales_unit),
+    };
+  }
+
+  private findFactor(product: Pick<ProductEntity, 'base_unit' | 'units'>, code: string): number | null {
+    if (code === product.base_unit) {
+      return 1;
+    }
+    return product.units?.find(unit => unit.code === code)?.factor ?? null;
+  }
+}
@@ -0,0 +1,20 @@
+import { IsOptional, IsDateString, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ApAgingQueryDto {
+  @ApiPropertyOptional({
+    description: 'Date to age the balances to (defaults to today)',
+    example: '2024-03-31',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'As of must be a valid date string (YYYY-MM-DD)' })
+  as_of?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only age one supplier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsUUID(4, { message: 'Supplier ID must be a valid UUID' })
+  supplier_id?: string;
+}
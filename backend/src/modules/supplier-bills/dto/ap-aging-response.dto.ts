@@ -0,0 +1,90 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+
+export class ApAgingBucketsDto {
+  @ApiProperty({ description: 'Owed on bills 0-30 days old', example: 1200 })
+  @Expose()
+  current: number;
+
+  @ApiProperty({ description: 'Owed on bills 31-60 days old', example: 800.5 })
+  @Expose()
+  days_31_60: number;
+
+  @ApiProperty({ description: 'Owed on bills 61-90 days old', example: 0 })
+  @Expose()
+  days_61_90: number;
+
+  @ApiProperty({ description: 'Owed on bills more than 90 days old', example: 450 })
+  @Expose()
+  days_over_90: number;
+
+  @ApiProperty({ description: 'Total owed', example: 2450.5 })
+  @Expose()
+  total: number;
+}
+
+export class ApAgingBillDto {
+  @ApiProperty({ description: 'Supplier bill ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: "The supplier's invoice number", example: 'ACME-INV-20931' })
+  @Expose()
+  bill_number: string;
+
+  @ApiProperty({ description: 'Date on the bill', example: '2024-01-20' })
+  @Expose()
+  bill_date: string;
+
+  @ApiPropertyOptional({ description: 'Date payment is due', example: '2024-02-19' })
+  @Expose()
+  due_date: string | null;
+
+  @ApiProperty({ description: 'Days since the bill date', example: 45 })
+  @Expose()
+  days_outstanding: number;
+
+  @ApiProperty({ description: 'Bill total', example: 2858.9 })
+  @Expose()
+  total_amount: number;
+
+  @ApiProperty({ description: 'Paid so far', example: 500 })
+  @Expose()
+  amount_paid: number;
+
+  @ApiProperty({ description: 'Still owed', example: 2358.9 })
+  @Expose()
+  balance_due: number;
+}
+
+export class ApAgingSupplierDto {
+  @ApiProperty({ description: 'Supplier ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  supplier_id: string;
+
+  @ApiProperty({ description: 'Supplier name', example: 'Acme Supplies' })
+  @Expose()
+  supplier_name: string;
+
+  @ApiProperty({ description: 'Balances by age', type: ApAgingBucketsDto })
+  @Expose()
+  buckets: ApAgingBucketsDto;
+
+  @ApiProperty({ description: 'Bills with a balance due, oldest first', type: [ApAgingBillDto] })
+  @Expose()
+  bills: ApAgingBillDto[];
+}
+
+export class ApAgingResponseDto {
+  @ApiProperty({ description: 'Date the balances are aged to', example: '2024-03-31' })
+  @Expose()
+  as_of: string;
+
+  @ApiProperty({ description: 'Balances by supplier, largest first', type: [ApAgingSupplierDto] })
+  @Expose()
+  suppliers: ApAgingSupplierDto[];
+
+  @ApiProperty({ description: 'Balances by age across all suppliers', type: ApAgingBucketsDto })
+  @Expose()
+  totals: ApAgingBucketsDto;
+}
@@ -0,0 +1,90 @@
+import { IsString, IsNotEmpty, IsOptional, IsNumber, IsUUID, IsDateString, IsArray, ArrayMinSize, ValidateNested, Min, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+
+export class CreateSupplierBillItemDto {
+  @ApiProperty({
+    description: 'Purchase order line being billed',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID(4, { message: 'Purchase order item ID must be a valid UUID' })
+  @IsNotEmpty({ message: 'Purchase order item ID is required' })
+  purchase_order_item_id: string;
+
+  @ApiProperty({
+    description: 'Quantity the supplier is billing for, in the purchase order line unit',
+    example: 100,
+    minimum: 0.001,
+  })
+  @IsNumber({ maxDecimalPlaces: 3 }, { message: 'Quantity billed must be a number with max 3 decimal places' })
+  @Min(0.001, { message: 'Quantity billed must be greater than 0' })
+  @Type(() => Number)
+  quantity_billed: number;
+
+  @ApiProperty({
+    description: 'Unit cost on the bill, priced the same way as the purchase order line',
+    example: 25.99,
+    minimum: 0,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Unit cost must be a number with max 2 decimal places' })
+  @Min(0, { message: 'Unit cost cannot be negative' })
+  @Type(() => Number)
+  unit_cost: number;
+}
+
+export class CreateSupplierBillDto {
+  @ApiProperty({
+    description: 'Purchase order the bill is for',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID(4, { message: 'Purchase order ID must be a valid UUID' })
+  @IsNotEmpty({ message: 'Purchase order ID is required' })
+  purchase_order_id: string;
+
+  @ApiProperty({
+    description: "The supplier's invoice number",
+    example: 'ACME-INV-20931',
+    maxLength: 100,
+  })
+  @IsString({ message: 'Bill number must be a string' })
+  @IsNotEmpty({ message: 'Bill number is required' })
+  @MaxLength(100, { message: 'Bill number cannot exceed 100 characters' })
+  @Transform(({ value }) => value?.trim())
+  bill_number: string;
+
+  @ApiProperty({
+    description: 'Date on the bill (YYYY-MM-DD)',
+    example: '2024-01-20',
+  })
+  @IsDateString({}, { message: 'Bill date must be a valid date string (YYYY-MM-DD)' })
+  bill_date: string;
+
+  @ApiPropertyOptional({
+    description: 'Date payment is due (YYYY-MM-DD)',
+    example: '2024-02-19',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'Due date must be a valid date string (YYYY-MM-DD)' })
+  due_date?: string;
+
+  @ApiPropertyOptional({
+    description: 'Notes',
+    example: 'Freight billed separately',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString({ message: 'Notes must be a string' })
+  @MaxLength(500, { message: 'Notes cannot exceed 500 characters' })
+  @Transform(({ value }) => value?.trim())
+  notes?: string;
+
+  @ApiProperty({
+    description: 'Purchase order lines on the bill',
+    type: [CreateSupplierBillItemDto],
+  })
+  @IsArray({ message: 'Items must be an array' })
+  @ArrayMinSize(1, { message: 'A bill needs at least one line' })
+  @ValidateNested({ each: true })
+  @Type(() => CreateSupplierBillItemDto)
+  items: CreateSupplierBillItemDto[];
+}
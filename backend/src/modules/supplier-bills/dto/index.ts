@@ -0,0 +1,8 @@
+export * from './create-supplier-bill.dto';
+export * from './record-supplier-payment.dto';
+export * from './supplier-bill-filters.dto';
+export * from './supplier-bill-response.dto';
+export * from './supplier-bill-list-response.dto';
+export * from './three-way-match-response.dto';
+export * from './ap-aging-query.dto';
+export * from './ap-aging-response.dto';
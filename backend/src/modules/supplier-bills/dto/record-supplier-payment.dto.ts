@@ -0,0 +1,54 @@
+import { IsString, IsOptional, IsNumber, IsEnum, IsDateString, Min, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import { PaymentMethod } from '../../payments/dto';
+
+export class RecordSupplierPaymentDto {
+  @ApiProperty({
+    description: 'How the supplier was paid',
+    enum: PaymentMethod,
+    example: PaymentMethod.BANK_TRANSFER,
+  })
+  @IsEnum(PaymentMethod, { message: 'Payment method must be a valid payment method' })
+  payment_method: PaymentMethod;
+
+  @ApiProperty({
+    description: 'Amount paid',
+    example: 500,
+    minimum: 0.01,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Amount must be a number with max 2 decimal places' })
+  @Min(0.01, { message: 'Amount must be greater than zero' })
+  @Type(() => Number)
+  amount: number;
+
+  @ApiPropertyOptional({
+    description: 'Bank transfer or cheque number',
+    example: 'CHQ-001942',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString({ message: 'Reference must be a string' })
+  @MaxLength(100, { message: 'Reference cannot exceed 100 characters' })
+  @Transform(({ value }) => value?.trim())
+  reference?: string;
+
+  @ApiPropertyOptional({
+    description: 'Notes',
+    example: 'Paid less early settlement discount',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString({ message: 'Notes must be a string' })
+  @MaxLength(500, { message: 'Notes cannot exceed 500 characters' })
+  @Transform(({ value }) => value?.trim())
+  notes?: string;
+
+  @ApiPropertyOptional({
+    description: 'When the money was sent (defaults to now)',
+    example: '2024-02-15T10:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'Paid at must be a valid date string' })
+  paid_at?: string;
+}
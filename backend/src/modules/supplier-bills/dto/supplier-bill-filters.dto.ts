@@ -0,0 +1,55 @@
+import { IsOptional, IsEnum, IsUUID, IsDateString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { SupplierBillStatus, BillMatchStatus } from './supplier-bill-response.dto';
+
+export class SupplierBillFiltersDto {
+  @ApiPropertyOptional({
+    description: 'Filter by supplier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsUUID(4, { message: 'Supplier ID must be a valid UUID' })
+  supplier_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by purchase order',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsUUID(4, { message: 'Purchase order ID must be a valid UUID' })
+  purchase_order_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by payment status',
+    enum: SupplierBillStatus,
+    example: SupplierBillStatus.OPEN,
+  })
+  @IsOptional()
+  @IsEnum(SupplierBillStatus, { message: 'Status must be OPEN, PARTIAL, PAID or CANCELLED' })
+  status?: SupplierBillStatus;
+
+  @ApiPropertyOptional({
+    description: 'Filter by three-way match result',
+    enum: BillMatchStatus,
+    example: BillMatchStatus.VARIANCE,
+  })
+  @IsOptional()
+  @IsEnum(BillMatchStatus, { message: 'Match status must be MATCHED or VARIANCE' })
+  match_status?: BillMatchStatus;
+
+  @ApiPropertyOptional({
+    description: 'Filter by bill date from (YYYY-MM-DD)',
+    example: '2024-01-01',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'Bill date from must be a valid date string (YYYY-MM-DD)' })
+  bill_date_from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by bill date to (YYYY-MM-DD)',
+    example: '2024-01-31',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'Bill date to must be a valid date string (YYYY-MM-DD)' })
+  bill_date_to?: string;
+}
@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { SupplierBillResponseDto } from './supplier-bill-response.dto';
+
+export class SupplierBillListResponseDto {
+  @ApiProperty({
+    description: 'Array of supplier bills',
+    type: [SupplierBillResponseDto],
+  })
+  @Expose()
+  data: SupplierBillResponseDto[];
+
+  @ApiProperty({
+    description: 'Total number of supplier bills',
+    example: 40,
+  })
+  @Expose()
+  total: number;
+
+  @ApiProperty({
+    description: 'Current page number',
+    example: 1,
+  })
+  @Expose()
+  page: number;
+
+  @ApiProperty({
+    description: 'Total number of pages',
+    example: 4,
+  })
+  @Expose()
+  totalPages: number;
+
+  @ApiProperty({
+    description: 'Number of supplier bills per page',
+    example: 10,
+  })
+  @Expose()
+  limit: number;
+}
@@ -0,0 +1,192 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { PaymentMethod } from '../../payments/dto';
+
+export enum SupplierBillStatus {
+  OPEN = 'OPEN',
+  PARTIAL = 'PARTIAL',
+  PAID = 'PAID',
+  CANCELLED = 'CANCELLED',
+}
+
+export enum BillMatchStatus {
+  MATCHED = 'MATCHED',
+  VARIANCE = 'VARIANCE',
+}
+
+export class SupplierPaymentResponseDto {
+  @ApiProperty({ description: 'Supplier payment ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Supplier bill ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  supplier_bill_id: string;
+
+  @ApiProperty({ description: 'Supplier ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  supplier_id: string;
+
+  @ApiProperty({ description: 'How the supplier was paid', enum: PaymentMethod, example: PaymentMethod.BANK_TRANSFER })
+  @Expose()
+  payment_method: PaymentMethod;
+
+  @ApiProperty({ description: 'Amount paid', example: '500.00' })
+  @Expose()
+  amount: string;
+
+  @ApiPropertyOptional({ description: 'Bank transfer or cheque number', example: 'CHQ-001942' })
+  @Expose()
+  reference: string | null;
+
+  @ApiPropertyOptional({ description: 'Notes', example: 'Paid less early settlement discount' })
+  @Expose()
+  notes: string | null;
+
+  @ApiProperty({ description: 'User who made the payment', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  paid_by: string;
+
+  @ApiProperty({ description: 'When the money was sent', example: '2024-02-15T10:00:00.000Z' })
+  @Expose()
+  paid_at: Date;
+
+  @ApiProperty({ description: 'Creation timestamp', example: '2024-02-15T10:00:00.000Z' })
+  @Expose()
+  created_at: Date;
+}
+
+export class SupplierBillItemResponseDto {
+  @ApiProperty({ description: 'Bill line ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Purchase order line billed', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  purchase_order_item_id: string;
+
+  @ApiProperty({ description: 'Product ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  product_id: string;
+
+  @ApiPropertyOptional({
+    description: 'Product details',
+    example: { id: '123e4567-e89b-12d3-a456-426614174000', name: 'Wireless Mouse', sku: 'WM-001' },
+  })
+  @Expose()
+  product?: { id: string; name: string; sku: string };
+
+  @ApiProperty({ description: 'Quantity billed', example: 100 })
+  @Expose()
+  quantity_billed: number;
+
+  @ApiProperty({ description: 'Unit cost on the bill', example: '25.99' })
+  @Expose()
+  unit_cost: string;
+
+  @ApiProperty({ description: 'Quantity x unit cost', example: '2599.00' })
+  @Expose()
+  total_cost: string;
+
+  @ApiProperty({ description: 'Line amount excluding tax', example: '2599.00' })
+  @Expose()
+  taxable_amount: string;
+
+  @ApiProperty({ description: 'Tax on the line', example: '259.90' })
+  @Expose()
+  tax_amount: string;
+
+  @ApiProperty({ description: 'Quantity billed to date less quantity received, when billed', example: 0 })
+  @Expose()
+  quantity_variance: number;
+
+  @ApiProperty({ description: 'Billed less ordered unit cost', example: '0.00' })
+  @Expose()
+  price_variance: string;
+}
+
+export class SupplierBillResponseDto {
+  @ApiProperty({ description: 'Supplier bill ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Supplier ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  supplier_id: string;
+
+  @ApiPropertyOptional({ description: 'Supplier name', example: 'Acme Supplies' })
+  @Expose()
+  supplier_name?: string;
+
+  @ApiProperty({ description: 'Purchase order ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  purchase_order_id: string;
+
+  @ApiPropertyOptional({ description: 'Purchase order number', example: 'PO-20240115-0001' })
+  @Expose()
+  order_number?: string;
+
+  @ApiProperty({ description: "The supplier's invoice number", example: 'ACME-INV-20931' })
+  @Expose()
+  bill_number: string;
+
+  @ApiProperty({ description: 'Date on the bill', example: '2024-01-20' })
+  @Expose()
+  bill_date: string;
+
+  @ApiPropertyOptional({ description: 'Date payment is due', example: '2024-02-19' })
+  @Expose()
+  due_date: string | null;
+
+  @ApiProperty({ description: 'Lines excluding tax', example: '2599.00' })
+  @Expose()
+  subtotal: string;
+
+  @ApiProperty({ description: 'Tax on the bill', example: '259.90' })
+  @Expose()
+  tax_amount: string;
+
+  @ApiProperty({ description: 'Bill total', example: '2858.90' })
+  @Expose()
+  total_amount: string;
+
+  @ApiProperty({ description: 'Paid so far', example: '500.00' })
+  @Expose()
+  amount_paid: string;
+
+  @ApiProperty({ description: 'Payment status', enum: SupplierBillStatus, example: SupplierBillStatus.PARTIAL })
+  @Expose()
+  status: SupplierBillStatus;
+
+  @ApiProperty({ description: 'Three-way match result when the bill was recorded', enum: BillMatchStatus, example: BillMatchStatus.MATCHED })
+  @Expose()
+  match_status: BillMatchStatus;
+
+  @ApiPropertyOptional({ description: 'Notes', example: 'Freight billed separately' })
+  @Expose()
+  notes: string | null;
+
+  @ApiProperty({ description: 'Creator user ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  created_by: string;
+
+  @ApiProperty({ description: 'Creation timestamp', example: '2024-01-20T10:30:00.000Z' })
+  @Expose()
+  created_at: Date;
+
+  @ApiPropertyOptional({ description: 'Last update timestamp', example: '2024-02-15T10:00:00.000Z' })
+  @Expose()
+  updated_at: Date | null;
+}
+
+export class SupplierBillDetailResponseDto extends SupplierBillResponseDto {
+  @ApiProperty({ description: 'Bill lines', type: [SupplierBillItemResponseDto] })
+  @Expose()
+  @Type(() => SupplierBillItemResponseDto)
+  items: SupplierBillItemResponseDto[];
+
+  @ApiProperty({ description: 'Payments made against the bill, oldest first', type: [SupplierPaymentResponseDto] })
+  @Expose()
+  @Type(() => SupplierPaymentResponseDto)
+  payments: SupplierPaymentResponseDto[];
+}
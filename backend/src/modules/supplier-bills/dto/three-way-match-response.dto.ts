@@ -0,0 +1,77 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+
+export enum MatchVariance {
+  OVER_BILLED = 'OVER_BILLED', // More billed than received
+  NOT_BILLED = 'NOT_BILLED', // Received but not billed in full yet
+  OVER_RECEIVED = 'OVER_RECEIVED', // More received than ordered
+  PRICE_VARIANCE = 'PRICE_VARIANCE', // Billed at a different unit cost than ordered
+}
+
+export class ThreeWayMatchLineDto {
+  @ApiProperty({ description: 'Purchase order line ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  purchase_order_item_id: string;
+
+  @ApiProperty({ description: 'Product ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  product_id: string;
+
+  @ApiProperty({ description: 'Quantity ordered', example: 100 })
+  @Expose()
+  quantity_ordered: number;
+
+  @ApiProperty({ description: 'Quantity received, less anything returned to the supplier', example: 100 })
+  @Expose()
+  quantity_received: number;
+
+  @ApiProperty({ description: 'Quantity billed across all bills not cancelled', example: 100 })
+  @Expose()
+  quantity_billed: number;
+
+  @ApiProperty({ description: 'Ordered unit cost', example: 25.99 })
+  @Expose()
+  ordered_unit_cost: number;
+
+  @ApiProperty({ description: 'Average billed unit cost, null when nothing is billed', example: 25.99, nullable: true })
+  @Expose()
+  billed_unit_cost: number | null;
+
+  @ApiProperty({ description: 'Value of what was received at the ordered cost, including tax', example: 2858.9 })
+  @Expose()
+  received_amount: number;
+
+  @ApiProperty({ description: 'Billed amount including tax', example: 2858.9 })
+  @Expose()
+  billed_amount: number;
+
+  @ApiProperty({ description: 'Variances found on the line', enum: MatchVariance, isArray: true, example: [] })
+  @Expose()
+  variances: MatchVariance[];
+}
+
+export class ThreeWayMatchResponseDto {
+  @ApiProperty({ description: 'Purchase order ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  purchase_order_id: string;
+
+  @ApiProperty({ description: 'Purchase order number', example: 'PO-20240115-0001' })
+  @Expose()
+  order_number: string;
+
+  @ApiProperty({ description: 'Ordered, received and billed figures for each line', type: [ThreeWayMatchLineDto] })
+  @Expose()
+  lines: ThreeWayMatchLineDto[];
+
+  @ApiProperty({ description: 'Value of everything received, including tax', example: 2858.9 })
+  @Expose()
+  received_amount: number;
+
+  @ApiProperty({ description: 'Everything billed, including tax', example: 2858.9 })
+  @Expose()
+  billed_amount: number;
+
+  @ApiProperty({ description: 'Whether any line is over-billed, over-received or billed at a different price', example: false })
+  @Expose()
+  has_variance: boolean;
+}
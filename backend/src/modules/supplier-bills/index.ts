@@ -0,0 +1,4 @@
+export * from './supplier-bills.controller';
+export * from './supplier-bills.service';
+export * from './supplier-bills.module';
+export * from './dto';
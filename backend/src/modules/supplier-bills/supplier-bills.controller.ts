@@ -0,0 +1,307 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Logger,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  DefaultValuePipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiConflictResponse,
+} from '@nestjs/swagger';
+import { SupplierBillsService } from './supplier-bills.service';
+import {
+  CreateSupplierBillDto,
+  RecordSupplierPaymentDto,
+  SupplierBillFiltersDto,
+  SupplierBillDetailResponseDto,
+  SupplierBillListResponseDto,
+  SupplierPaymentResponseDto,
+  ThreeWayMatchResponseDto,
+  ApAgingQueryDto,
+  ApAgingResponseDto,
+} from './dto';
+import { AuthGuard } from '../../common/guards/auth.guard';
+import { ManagerGuard } from '../../common/guards/manager.guard';
+import { StaffGuard } from '../../common/guards/staff.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { successResponse, createdResponse } from '../../common/helpers/api-response.helper';
+import { API_MESSAGES } from '../../common/constants/string-const';
+
+@ApiTags('Supplier Bills')
+@Controller('supplier-bills')
+@UseGuards(AuthGuard) // All endpoints require authentication
+@ApiBearerAuth()
+export class SupplierBillsController {
+  private readonly logger = new Logger(SupplierBillsController.name);
+
+  constructor(private readonly supplierBillsService: SupplierBillsService) {}
+
+  //#region ==================== CREATE OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Record a supplier bill',
+    description: 'Record the supplier\'s invoice against purchase order lines. Each line is matched against the quantity received and the ordered unit cost, and the bill is flagged as VARIANCE when they differ. Requires MANAGER or ADMIN role.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Supplier bill recorded successfully',
+    type: SupplierBillDetailResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Purchase order is cancelled or a line is not on the order' })
+  @ApiNotFoundResponse({ description: 'Purchase order not found' })
+  @ApiConflictResponse({ description: 'Bill number already recorded for this supplier' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async createSupplierBill(
+    @Body() createSupplierBillDto: CreateSupplierBillDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Recording supplier bill: ${createSupplierBillDto.bill_number} by user: ${userId}`);
+
+    const bill = await this.supplierBillsService.createSupplierBill(createSupplierBillDto, userId);
+
+    this.logger.log(`Supplier bill recorded successfully: ${bill.id}`);
+    return createdResponse(bill, API_MESSAGES.SUPPLIER_BILL_CREATED);
+  }
+
+  @ApiOperation({
+    summary: 'Pay a supplier bill',
+    description: 'Record money paid to the supplier against a bill. The bill moves to PARTIAL, or to PAID once the balance is settled. Requires MANAGER or ADMIN role.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Supplier bill UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Supplier payment recorded successfully',
+    type: SupplierBillDetailResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Bill is cancelled, already settled, or the payment exceeds the balance due' })
+  @ApiNotFoundResponse({ description: 'Supplier bill not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Post(':id/payments')
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async recordSupplierPayment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() recordSupplierPaymentDto: RecordSupplierPaymentDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Recording payment on supplier bill: ${id} by user: ${userId}`);
+
+    const bill = await this.supplierBillsService.recordSupplierPayment(id, recordSupplierPaymentDto, userId);
+
+    this.logger.log(`Supplier payment recorded successfully on bill: ${id}`);
+    return createdResponse(bill, API_MESSAGES.SUPPLIER_PAYMENT_RECORDED);
+  }
+
+  @ApiOperation({
+    summary: 'Cancel a supplier bill',
+    description: 'Void a bill entered in error so its lines no longer count as billed. Bills with payments cannot be cancelled. Requires MANAGER or ADMIN role.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Supplier bill UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Supplier bill cancelled successfully',
+    type: SupplierBillDetailResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Bill is already cancelled or has payments' })
+  @ApiNotFoundResponse({ description: 'Supplier bill not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async cancelSupplierBill(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Cancelling supplier bill: ${id} by user: ${userId}`);
+
+    const bill = await this.supplierBillsService.cancelSupplierBill(id, userId);
+
+    return successResponse(bill, API_MESSAGES.SUPPLIER_BILL_CANCELLED);
+  }
+
+  //#region ==================== READ OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Get all supplier bills',
+    description: 'Retrieve a paginated list of supplier bills, most recent first. Requires STAFF role or above.',
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (starting from 1)',
+    example: 1,
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Number of items per page (1-100)',
+    example: 10,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Supplier bills retrieved successfully',
+    type: SupplierBillListResponseDto,
+  })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get()
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  async findAllSupplierBills(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(10), ParseIntPipe) limit: number,
+    @Query() filters: SupplierBillFiltersDto,
+  ) {
+    this.logger.log(`Finding supplier bills - page: ${page}, limit: ${limit}`);
+
+    // Validate pagination
+    if (page < 1) page = 1;
+    if (limit < 1) limit = 1;
+    if (limit > 100) limit = 100;
+
+    const result = await this.supplierBillsService.findAllSupplierBills(filters, page, limit);
+
+    this.logger.log(`Found ${result.data.length} supplier bills`);
+    return successResponse({
+      ...result,
+      limit,
+    }, API_MESSAGES.SUPPLIER_BILLS_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Get accounts payable aging',
+    description: 'What is still owed on open and part-paid supplier bills, per supplier, in 0-30, 31-60, 61-90 and 90+ day buckets by bill date. Requires MANAGER or ADMIN role.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Accounts payable aging generated successfully',
+    type: ApAgingResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid as-of date' })
+  @ApiNotFoundResponse({ description: 'Supplier not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Get('reports/ap-aging')
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async getApAging(@Query() query: ApAgingQueryDto) {
+    this.logger.log(`Generating accounts payable aging as of ${query.as_of ?? 'today'}`);
+
+    const aging = await this.supplierBillsService.getApAging(query);
+
+    return successResponse(aging, API_MESSAGES.AP_AGING_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Match a purchase order',
+    description: 'Three-way match of a purchase order: quantities ordered, received and billed on each line, with over-billing, over-receipt, unbilled receipts and price differences flagged. Requires STAFF role or above.',
+  })
+  @ApiParam({
+    name: 'purchaseOrderId',
+    description: 'Purchase order UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Purchase order match generated successfully',
+    type: ThreeWayMatchResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Purchase order not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get('purchase-order/:purchaseOrderId/match')
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  async getThreeWayMatch(@Param('purchaseOrderId', ParseUUIDPipe) purchaseOrderId: string) {
+    this.logger.log(`Matching purchase order: ${purchaseOrderId}`);
+
+    const match = await this.supplierBillsService.getThreeWayMatch(purchaseOrderId);
+
+    return successResponse(match, API_MESSAGES.THREE_WAY_MATCH_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Get the payments on a supplier bill',
+    description: 'Every payment made against a supplier bill, oldest first. Requires STAFF role or above.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Supplier bill UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Supplier payments retrieved successfully',
+    type: [SupplierPaymentResponseDto],
+  })
+  @ApiNotFoundResponse({ description: 'Supplier bill not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get(':id/payments')
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  async findSupplierBillPayments(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`Finding payments for supplier bill: ${id}`);
+
+    const payments = await this.supplierBillsService.findSupplierBillPayments(id);
+
+    return successResponse(payments, API_MESSAGES.SUPPLIER_PAYMENTS_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Get supplier bill by ID',
+    description: 'Retrieve a supplier bill with its lines, variances and payments. Requires STAFF role or above.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Supplier bill UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Supplier bill retrieved successfully',
+    type: SupplierBillDetailResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Supplier bill not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get(':id')
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  async findSupplierBillById(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`Finding supplier bill by ID: ${id}`);
+
+    const bill = await this.supplierBillsService.findSupplierBillById(id);
+
+    return successResponse(bill, API_MESSAGES.SUPPLIER_BILL_FETCHED);
+  }
+}
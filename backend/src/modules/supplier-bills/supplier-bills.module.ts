@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { SupplierBillsController } from './supplier-bills.controller';
+import { SupplierBillsService } from './supplier-bills.service';
+import { DatabaseModule } from '../../core/database/database.module';
+import { SupabaseModule } from '../../core/supabase/supabase.module';
+import { SuppliersModule } from '../suppliers/suppliers.module';
+import { TaxesModule } from '../taxes/taxes.module';
+
+@Module({
+  imports: [DatabaseModule, SupabaseModule, SuppliersModule, TaxesModule],
+  controllers: [SupplierBillsController],
+  providers: [SupplierBillsService],
+  exports: [SupplierBillsService],
+})
+export class SupplierBillsModule {}
@@ -0,0 +1,466 @@
+import { Injectable, Logger, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import {
+  SupplierBillsRepository,
+  SupplierBillWithReferences,
+  SupplierBillWithDetails,
+  SupplierPaymentEntity,
+  BilledQuantityRow,
+  OpenBillBalanceRow,
+} from '../../core/database/repositories/supplier-bills.repository';
+import {
+  PurchaseOrdersRepository,
+  PurchaseOrderItemEntity,
+} from '../../core/database/repositories/purchase-orders.repository';
+import { DrizzleService } from '../../core/database/drizzle.service';
+import { SuppliersService } from '../suppliers/suppliers.service';
+import { TaxService } from '../taxes/tax.service';
+import {
+  CreateSupplierBillDto,
+  RecordSupplierPaymentDto,
+  SupplierBillFiltersDto,
+  ThreeWayMatchResponseDto,
+  ThreeWayMatchLineDto,
+  MatchVariance,
+  ApAgingQueryDto,
+  ApAgingResponseDto,
+  ApAgingBucketsDto,
+  ApAgingSupplierDto,
+} from './dto';
+import { MESSAGES } from '../../common/constants/string-const';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class SupplierBillsService {
+  private readonly logger = new Logger(SupplierBillsService.name);
+
+  constructor(
+    private readonly supplierBillsRepository: SupplierBillsRepository,
+    private readonly purchaseOrdersRepository: PurchaseOrdersRepository,
+    private readonly suppliersService: SuppliersService,
+    private readonly taxService: TaxService,
+    private readonly drizzleService: DrizzleService,
+  ) {}
+
+  //#region ==================== BILL OPERATIONS ====================
+
+  /**
+   * Records the supplier's invoice against a purchase order. Each line is priced with
+   * the tax class captured on the order line and checked against what was ordered and
+   * received; any over-billing or price difference marks the bill as a VARIANCE.
+   */
+  async createSupplierBill(createSupplierBillDto: CreateSupplierBillDto, userId: string): Promise<SupplierBillWithDetails> {
+    this.logger.log(`Recording supplier bill ${createSupplierBillDto.bill_number} on purchase order: ${createSupplierBillDto.purchase_order_id} by user: ${userId}`);
+
+    const order = await this.purchaseOrdersRepository.findPurchaseOrderByIdOrThrow(createSupplierBillDto.purchase_order_id);
+    if (order.status === 'CANCELLED') {
+      throw new BadRequestException(MESSAGES.SUPPLIER_BILL_ORDER_CANCELLED);
+    }
+
+    const supplier = await this.suppliersService.findSupplierById(order.supplier_id);
+
+    const existingBill = await this.supplierBillsRepository.findSupplierBillByNumber(supplier.id, createSupplierBillDto.bill_number);
+    if (existingBill) {
+      this.logger.warn(`Supplier bill ${createSupplierBillDto.bill_number} already recorded for supplier: ${supplier.id}`);
+      throw new ConflictException(MESSAGES.SUPPLIER_BILL_NUMBER_EXISTS);
+    }
+
+    const orderItems = new Map(
+      (await this.purchaseOrdersRepository.findPurchaseOrderItems(order.id)).map(item => [item.id, item]),
+    );
+    const seenItemIds = new Set<string>();
+    const billLines = createSupplierBillDto.items.map(itemDto => {
+      const orderItem = orderItems.get(itemDto.purchase_order_item_id);
+      if (!orderItem) {
+        throw new BadRequestException(`${MESSAGES.SUPPLIER_BILL_ITEM_NOT_ON_ORDER}: ${itemDto.purchase_order_item_id}`);
+      }
+      if (seenItemIds.has(orderItem.id)) {
+        throw new BadRequestException(MESSAGES.SUPPLIER_BILL_DUPLICATE_ITEM);
+      }
+      seenItemIds.add(orderItem.id);
+      return { itemDto, orderItem };
+    });
+
+    const billedSoFar = this.byOrderItem(await this.supplierBillsRepository.findBilledQuantities(order.id));
+    const lineTaxes = this.taxService.computeLineTaxes(
+      billLines.map(({ itemDto, orderItem }) => ({
+        tax_class_id: orderItem.tax_class_id,
+        tax_rate: parseFloat(orderItem.tax_rate),
+        tax_inclusive: orderItem.tax_inclusive,
+        amount: this.roundCurrency(itemDto.quantity_billed * itemDto.unit_cost),
+      })),
+    );
+
+    const lines = billLines.map(({ itemDto, orderItem }, index) => {
+      const billedToDate = this.roundQuantity((billedSoFar.get(orderItem.id)?.quantity_billed ?? 0) + itemDto.quantity_billed);
+      return {
+        itemDto,
+        orderItem,
+        lineTax: lineTaxes[index],
+        quantityVariance: this.roundQuantity(billedToDate - this.quantityReceived(orderItem)),
+        priceVariance: this.roundCurrency(itemDto.unit_cost - parseFloat(orderItem.unit_cost)),
+      };
+    });
+
+    const hasVariance = lines.some(line => line.quantityVariance > 0 || line.priceVariance !== 0);
+    const subtotal = this.roundCurrency(lineTaxes.reduce((sum, lineTax) => sum + lineTax.taxable_amount, 0));
+    const taxAmount = this.roundCurrency(lineTaxes.reduce((sum, lineTax) => sum + lineTax.tax_amount, 0));
+
+    try {
+      // The header and its items commit together, so a failed line leaves no partial bill
+      const bill = await this.drizzleService.transaction(async (tx) => {
+        const createdBill = await this.supplierBillsRepository.createSupplierBill({
+          supplier_id: supplier.id,
+          purchase_order_id: order.id,
+          bill_number: createSupplierBillDto.bill_number,
+          bill_date: createSupplierBillDto.bill_date,
+          due_date: createSupplierBillDto.due_date,
+          subtotal,
+          tax_amount: taxAmount,
+          total_amount: this.roundCurrency(subtotal + taxAmount),
+          match_status: hasVariance ? 'VARIANCE' : 'MATCHED',
+          notes: createSupplierBillDto.notes,
+          created_by: userId,
+        }, tx);
+
+        for (const line of lines) {
+          await this.supplierBillsRepository.addSupplierBillItem({
+            supplier_bill_id: createdBill.id,
+            purchase_order_item_id: line.orderItem.id,
+            product_id: line.orderItem.product_id,
+            quantity_billed: line.itemDto.quantity_billed,
+            unit_cost: line.itemDto.unit_cost,
+            total_cost: this.roundCurrency(line.itemDto.quantity_billed * line.itemDto.unit_cost),
+            taxable_amount: line.lineTax.taxable_amount,
+            tax_amount: line.lineTax.tax_amount,
+            quantity_variance: line.quantityVariance,
+            price_variance: line.priceVariance,
+            created_by: userId,
+          }, tx);
+        }
+
+        return createdBill;
+      });
+
+      if (hasVariance) {
+        this.logger.warn(`Supplier bill ${bill.bill_number} does not match purchase order ${order.order_number}`);
+      }
+
+      this.logger.log(`Supplier bill recorded successfully: ${bill.bill_number} (ID: ${bill.id})`);
+      return this.findSupplierBillById(bill.id);
+    } catch (error) {
+      this.logger.error(`Failed to record supplier bill: ${createSupplierBillDto.bill_number}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findAllSupplierBills(
+    filters: SupplierBillFiltersDto = {},
+    page = 1,
+    limit = 10,
+  ): Promise<{
+    data: SupplierBillWithReferences[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    this.logger.log(`Finding supplier bills with filters:`, filters);
+
+    try {
+      const result = await this.supplierBillsRepository.findAllSupplierBills(filters, page, limit);
+
+      this.logger.log(`Found ${result.data.length} supplier bills out of ${result.total} total`);
+      return result;
+    } catch (error) {
+      this.logger.error('Failed to find supplier bills', error.stack);
+      throw error;
+    }
+  }
+
+  async findSupplierBillById(id: string): Promise<SupplierBillWithDetails> {
+    this.logger.log(`Finding supplier bill by ID: ${id}`);
+
+    const bill = await this.supplierBillsRepository.findSupplierBillWithDetails(id);
+    if (!bill) {
+      this.logger.warn(`Supplier bill not found with ID: ${id}`);
+      throw new NotFoundException(MESSAGES.SUPPLIER_BILL_NOT_FOUND);
+    }
+
+    return bill;
+  }
+
+  /**
+   * Voids a bill entered in error so its lines no longer count as billed. Bills that
+   * have been paid against cannot be cancelled.
+   */
+  async cancelSupplierBill(id: string, userId: string): Promise<SupplierBillWithDetails> {
+    this.logger.log(`Cancelling supplier bill: ${id} by user: ${userId}`);
+
+    const bill = await this.supplierBillsRepository.findSupplierBillByIdOrThrow(id);
+    if (bill.status === 'CANCELLED') {
+      throw new BadRequestException(MESSAGES.SUPPLIER_BILL_CANCELLED);
+    }
+    if (parseFloat(bill.amount_paid) > 0) {
+      throw new BadRequestException(MESSAGES.SUPPLIER_BILL_HAS_PAYMENTS);
+    }
+
+    try {
+      await this.supplierBillsRepository.updateSupplierBill(id, {
+        status: 'CANCELLED',
+        updated_by: userId,
+      });
+
+      this.logger.log(`Supplier bill cancelled successfully: ${bill.bill_number}`);
+      return this.findSupplierBillById(id);
+    } catch (error) {
+      this.logger.error(`Failed to cancel supplier bill: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== PAYMENT OPERATIONS ====================
+
+  /**
+   * Records money paid to the supplier against a bill. A payment can settle the
+   * balance due but not go past it.
+   */
+  async recordSupplierPayment(
+    billId: string,
+    recordSupplierPaymentDto: RecordSupplierPaymentDto,
+    userId: string,
+  ): Promise<SupplierBillWithDetails> {
+    this.logger.log(`Recording supplier payment of ${recordSupplierPaymentDto.amount} on bill: ${billId} by user: ${userId}`);
+
+    try {
+      // The bill stays locked from the balance check until the payment and new balance commit
+      const bill = await this.drizzleService.transaction(async (tx) => {
+        const lockedBill = await this.supplierBillsRepository.lockSupplierBill(billId, tx);
+        if (lockedBill.status === 'CANCELLED') {
+          throw new BadRequestException(MESSAGES.SUPPLIER_BILL_CANCELLED);
+        }
+
+        const totalAmount = parseFloat(lockedBill.total_amount);
+        const balanceDue = this.roundCurrency(totalAmount - parseFloat(lockedBill.amount_paid));
+        if (balanceDue <= 0) {
+          throw new BadRequestException(MESSAGES.SUPPLIER_BILL_SETTLED);
+        }
+        if (recordSupplierPaymentDto.amount > balanceDue) {
+          throw new BadRequestException(`${MESSAGES.SUPPLIER_PAYMENT_EXCEEDS_BALANCE}. Balance due: ${balanceDue.toFixed(2)}`);
+        }
+
+        await this.supplierBillsRepository.createSupplierPayment({
+          supplier_bill_id: lockedBill.id,
+          supplier_id: lockedBill.supplier_id,
+          payment_method: recordSupplierPaymentDto.payment_method,
+          amount: recordSupplierPaymentDto.amount,
+          reference: recordSupplierPaymentDto.reference,
+          notes: recordSupplierPaymentDto.notes,
+          paid_by: userId,
+          paid_at: recordSupplierPaymentDto.paid_at ? new Date(recordSupplierPaymentDto.paid_at) : undefined,
+          created_by: userId,
+        }, tx);
+
+        const amountPaid = this.roundCurrency(parseFloat(lockedBill.amount_paid) + recordSupplierPaymentDto.amount);
+        return this.supplierBillsRepository.updateSupplierBill(lockedBill.id, {
+          amount_paid: amountPaid,
+          status: amountPaid >= totalAmount ? 'PAID' : 'PARTIAL',
+          updated_by: userId,
+        }, tx);
+      });
+
+      this.logger.log(`Supplier payment posted to ${bill.bill_number}; now ${bill.status}`);
+      return this.findSupplierBillById(bill.id);
+    } catch (error) {
+      this.logger.error(`Failed to record supplier payment on bill: ${billId}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findSupplierBillPayments(billId: string): Promise<SupplierPaymentEntity[]> {
+    await this.supplierBillsRepository.findSupplierBillByIdOrThrow(billId);
+
+    return this.supplierBillsRepository.findSupplierBillPayments(billId);
+  }
+
+  //#region ==================== MATCH OPERATIONS ====================
+
+  /**
+   * Three-way match for a purchase order: what was ordered, what was received (less
+   * supplier returns) and what has been billed, line by line, with the variances flagged
+   */
+  async getThreeWayMatch(purchaseOrderId: string): Promise<ThreeWayMatchResponseDto> {
+    this.logger.log(`Matching purchase order: ${purchaseOrderId}`);
+
+    const order = await this.purchaseOrdersRepository.findPurchaseOrderByIdOrThrow(purchaseOrderId);
+
+    try {
+      const orderItems = await this.purchaseOrdersRepository.findPurchaseOrderItems(order.id);
+      const billed = this.byOrderItem(await this.supplierBillsRepository.findBilledQuantities(order.id));
+
+      const lines = orderItems.map(item => this.toMatchLine(item, billed.get(item.id)));
+      const hasVariance = lines.some(line => line.variances.some(variance => variance !== MatchVariance.NOT_BILLED));
+
+      return {
+        purchase_order_id: order.id,
+        order_number: order.order_number,
+        lines,
+        received_amount: this.roundCurrency(lines.reduce((sum, line) => sum + line.received_amount, 0)),
+        billed_amount: this.roundCurrency(lines.reduce((sum, line) => sum + line.billed_amount, 0)),
+        has_variance: hasVariance,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to match purchase order: ${purchaseOrderId}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== REPORT OPERATIONS ====================
+
+  /**
+   * Accounts payable aging: what is still owed on each supplier's bills, bucketed by
+   * how many days old the bill is on the as-of date
+   */
+  async getApAging(query: ApAgingQueryDto = {}): Promise<ApAgingResponseDto> {
+    const asOf = query.as_of || new Date().toISOString().slice(0, 10);
+    if (!ISO_DATE_PATTERN.test(asOf) || isNaN(Date.parse(asOf))) {
+      throw new BadRequestException(MESSAGES.REPORT_DATE_INVALID);
+    }
+
+    if (query.supplier_id) {
+      await this.suppliersService.findSupplierById(query.supplier_id);
+    }
+
+    this.logger.log(`Generating accounts payable aging as of ${asOf}`);
+
+    try {
+      const rows = await this.supplierBillsRepository.findOpenBillBalances(asOf, query.supplier_id);
+      const asOfDate = new Date(`${asOf}T00:00:00.000Z`);
+
+      const bySupplier = new Map<string, ApAgingSupplierDto>();
+      const totals = this.emptyBuckets();
+      for (const row of rows) {
+        let supplier = bySupplier.get(row.supplier_id);
+        if (!supplier) {
+          supplier = {
+            supplier_id: row.supplier_id,
+            supplier_name: row.supplier_name,
+            buckets: this.emptyBuckets(),
+            bills: [],
+          };
+          bySupplier.set(row.supplier_id, supplier);
+        }
+
+        const daysOutstanding = Math.max(
+          Math.floor((asOfDate.getTime() - new Date(`${row.bill_date}T00:00:00.000Z`).getTime()) / DAY_MS),
+          0,
+        );
+        const balanceDue = parseFloat(row.balance_due);
+        this.addToBucket(supplier.buckets, daysOutstanding, balanceDue);
+        this.addToBucket(totals, daysOutstanding, balanceDue);
+        supplier.bills.push(this.toAgingBill(row, daysOutstanding));
+      }
+
+      const suppliers = [...bySupplier.values()].sort((a, b) => b.buckets.total - a.buckets.total);
+
+      this.logger.log(`Aged ${rows.length} open bills across ${suppliers.length} suppliers`);
+      return { as_of: asOf, suppliers, totals };
+    } catch (error) {
+      this.logger.error(`Failed to generate accounts payable aging as of ${asOf}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== MATCH HELPERS ====================
+
+  private toMatchLine(item: PurchaseOrderItemEntity, billed?: BilledQuantityRow): ThreeWayMatchLineDto {
+    const quantityReceived = this.quantityReceived(item);
+    const quantityBilled = billed?.quantity_billed ?? 0;
+    const orderedUnitCost = parseFloat(item.unit_cost);
+    const billedUnitCost = quantityBilled > 0
+      ? this.roundCurrency(parseFloat(billed!.cost_billed) / quantityBilled)
+      : null;
+
+    // The order line's amount including tax, spread over what was ordered
+    const orderedUnitAmount = item.quantity_ordered > 0
+      ? (parseFloat(item.taxable_amount) + parseFloat(item.tax_amount)) / item.quantity_ordered
+      : 0;
+
+    const variances: MatchVariance[] = [];
+    if (quantityBilled > quantityReceived) {
+      variances.push(MatchVariance.OVER_BILLED);
+    } else if (quantityBilled < quantityReceived) {
+      variances.push(MatchVariance.NOT_BILLED);
+    }
+    if (quantityReceived > item.quantity_ordered) {
+      variances.push(MatchVariance.OVER_RECEIVED);
+    }
+    if (billedUnitCost !== null && billedUnitCost !== orderedUnitCost) {
+      variances.push(MatchVariance.PRICE_VARIANCE);
+    }
+
+    return {
+      purchase_order_item_id: item.id,
+      product_id: item.product_id,
+      quantity_ordered: item.quantity_ordered,
+      quantity_received: quantityReceived,
+      quantity_billed: quantityBilled,
+      ordered_unit_cost: orderedUnitCost,
+      billed_unit_cost: billedUnitCost,
+      received_amount: this.roundCurrency(orderedUnitAmount * quantityReceived),
+      billed_amount: billed ? parseFloat(billed.amount_billed) : 0,
+      variances,
+    };
+  }
+
+  /**
+   * Goods sent back to the supplier are not expected on the bill
+   */
+  private quantityReceived(item: PurchaseOrderItemEntity): number {
+    return this.roundQuantity(item.quantity_received - item.quantity_returned);
+  }
+
+  private byOrderItem(rows: BilledQuantityRow[]): Map<string, BilledQuantityRow> {
+    return new Map(rows.map(row => [row.purchase_order_item_id, row]));
+  }
+
+  //#region ==================== AGING HELPERS ====================
+
+  private emptyBuckets(): ApAgingBucketsDto {
+    return { current: 0, days_31_60: 0, days_61_90: 0, days_over_90: 0, total: 0 };
+  }
+
+  private addToBucket(buckets: ApAgingBucketsDto, daysOutstanding: number, amount: number): void {
+    if (daysOutstanding <= 30) {
+      buckets.current = this.roundCurrency(buckets.current + amount);
+    } else if (daysOutstanding <= 60) {
+      buckets.days_31_60 = this.roundCurrency(buckets.days_31_60 + amount);
+    } else if (daysOutstanding <= 90) {
+      buckets.days_61_90 = this.roundCurrency(buckets.days_61_90 + amount);
+    } else {
+      buckets.days_over_90 = this.roundCurrency(buckets.days_over_90 + amount);
+    }
+    buckets.total = this.roundCurrency(buckets.total + amount);
+  }
+
+  private toAgingBill(row: OpenBillBalanceRow, daysOutstanding: number) {
+    return {
+      id: row.id,
+      bill_number: row.bill_number,
+      bill_date: row.bill_date,
+      due_date: row.due_date,
+      days_outstanding: daysOutstanding,
+      total_amount: parseFloat(row.total_amount),
+      amount_paid: parseFloat(row.amount_paid),
+      balance_due: parseFloat(row.balance_due),
+    };
+  }
+
+  private roundCurrency(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private roundQuantity(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
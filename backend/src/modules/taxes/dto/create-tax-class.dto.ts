@@ -0,0 +1,78 @@
+import { IsString, IsNotEmpty, IsOptional, IsBoolean, IsNumber, MaxLength, Matches, Min, Max } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+
+export class CreateTaxClassDto {
+  @ApiProperty({
+    description: 'Tax class name',
+    example: 'GST 18%',
+    maxLength: 100,
+  })
+  @IsString({ message: 'Tax class name must be a string' })
+  @IsNotEmpty({ message: 'Tax class name is required' })
+  @MaxLength(100, { message: 'Tax class name cannot exceed 100 characters' })
+  @Transform(({ value }) => value?.trim())
+  name: string;
+
+  @ApiProperty({
+    description: 'Short unique tax class code',
+    example: 'GST18',
+    maxLength: 20,
+  })
+  @IsString({ message: 'Tax class code must be a string' })
+  @IsNotEmpty({ message: 'Tax class code is required' })
+  @MaxLength(20, { message: 'Tax class code cannot exceed 20 characters' })
+  @Matches(/^[A-Z0-9_-]+$/, { message: 'Tax class code may only contain letters, numbers, dashes and underscores' })
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  code: string;
+
+  @ApiProperty({
+    description: 'Tax rate in percent',
+    example: 18,
+    minimum: 0,
+    maximum: 100,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Tax rate must be a number with max 2 decimal places' })
+  @Min(0, { message: 'Tax rate cannot be negative' })
+  @Max(100, { message: 'Tax rate cannot exceed 100' })
+  @Type(() => Number)
+  rate: number;
+
+  @ApiPropertyOptional({
+    description: 'Whether prices of products in this class already include the tax',
+    example: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'is_inclusive must be a boolean value' })
+  is_inclusive?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Whether goods in this class are exempt from tax (rate must be 0)',
+    example: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'is_exempt must be a boolean value' })
+  is_exempt?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Tax class description',
+    example: 'Standard GST slab for most goods',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString({ message: 'Description must be a string' })
+  @MaxLength(500, { message: 'Description cannot exceed 500 characters' })
+  @Transform(({ value }) => value?.trim())
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Whether the tax class is active',
+    example: true,
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'is_active must be a boolean value' })
+  is_active?: boolean;
+}
@@ -0,0 +1,7 @@
+export * from './create-tax-class.dto';
+export * from './update-tax-class.dto';
+export * from './tax-class-response.dto';
+export * from './tax-class-list-response.dto';
+export * from './tax-class-filters.dto';
+export * from './tax-summary-query.dto';
+export * from './tax-summary-response.dto';
@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { TaxClassResponseDto } from './tax-class-response.dto';
+
+export class TaxClassListResponseDto {
+  @ApiProperty({
+    description: 'Array of tax classes',
+    type: [TaxClassResponseDto],
+  })
+  @Expose()
+  data: TaxClassResponseDto[];
+
+  @ApiProperty({
+    description: 'Total number of tax classes',
+    example: 5,
+  })
+  @Expose()
+  total: number;
+
+  @ApiProperty({
+    description: 'Current page number',
+    example: 1,
+  })
+  @Expose()
+  page: number;
+
+  @ApiProperty({
+    description: 'Total number of pages',
+    example: 1,
+  })
+  @Expose()
+  totalPages: number;
+
+  @ApiProperty({
+    description: 'Number of tax classes per page',
+    example: 10,
+  })
+  @Expose()
+  limit: number;
+}
@@ -0,0 +1,90 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Transform } from 'class-transformer';
+
+export class TaxClassResponseDto {
+  @ApiProperty({
+    description: 'Tax class unique identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  id: string;
+
+  @ApiProperty({
+    description: 'Tax class name',
+    example: 'GST 18%',
+  })
+  @Expose()
+  name: string;
+
+  @ApiProperty({
+    description: 'Short unique tax class code',
+    example: 'GST18',
+  })
+  @Expose()
+  code: string;
+
+  @ApiProperty({
+    description: 'Tax rate in percent',
+    example: '18.00',
+  })
+  @Expose()
+  rate: string;
+
+  @ApiProperty({
+    description: 'Whether prices already include the tax',
+    example: false,
+  })
+  @Expose()
+  is_inclusive: boolean;
+
+  @ApiProperty({
+    description: 'Whether goods in this class are exempt from tax',
+    example: false,
+  })
+  @Expose()
+  is_exempt: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Tax class description',
+    example: 'Standard GST slab for most goods',
+  })
+  @Expose()
+  description?: string | null;
+
+  @ApiProperty({
+    description: 'Whether the tax class is active',
+    example: true,
+  })
+  @Expose()
+  is_active: boolean;
+
+  @ApiProperty({
+    description: 'User who created the tax class',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  created_by: string;
+
+  @ApiProperty({
+    description: 'Tax class creation timestamp',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  @Expose()
+  @Transform(({ value }) => value instanceof Date ? value.toISOString() : value)
+  created_at: Date;
+
+  @ApiPropertyOptional({
+    description: 'User who last updated the tax class',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  updated_by?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Last update timestamp',
+    example: '2024-01-16T14:20:00.000Z',
+  })
+  @Expose()
+  @Transform(({ value }) => value instanceof Date ? value.toISOString() : value)
+  updated_at?: Date | null;
+}
@@ -0,0 +1,20 @@
+import { IsOptional, IsDateString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class TaxSummaryQueryDto {
+  @ApiPropertyOptional({
+    description: 'First day of the period (defaults to the first day of the current month)',
+    example: '2024-01-01',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'Start date must be a valid date string (YYYY-MM-DD)' })
+  start_date?: string;
+
+  @ApiPropertyOptional({
+    description: 'Last day of the period, inclusive (defaults to today)',
+    example: '2024-01-31',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'End date must be a valid date string (YYYY-MM-DD)' })
+  end_date?: string;
+}
@@ -0,0 +1,102 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+
+export class TaxSummaryLineDto {
+  @ApiPropertyOptional({
+    description: 'Tax class ID (empty for untaxed lines)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  tax_class_id: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Tax class name',
+    example: 'GST 18%',
+  })
+  @Expose()
+  tax_class_name: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Tax class code',
+    example: 'GST18',
+  })
+  @Expose()
+  tax_class_code: string | null;
+
+  @ApiProperty({
+    description: 'Tax rate in percent',
+    example: 18,
+  })
+  @Expose()
+  tax_rate: number;
+
+  @ApiProperty({
+    description: 'Amount the tax was charged on',
+    example: 12500.0,
+  })
+  @Expose()
+  taxable_amount: number;
+
+  @ApiProperty({
+    description: 'Tax charged',
+    example: 2250.0,
+  })
+  @Expose()
+  tax_amount: number;
+
+  @ApiProperty({
+    description: 'Number of document lines in this group',
+    example: 42,
+  })
+  @Expose()
+  line_count: number;
+}
+
+export class TaxSummaryTotalsDto {
+  @ApiProperty({ description: 'Total taxable amount', example: 12500.0 })
+  @Expose()
+  taxable_amount: number;
+
+  @ApiProperty({ description: 'Total tax', example: 2250.0 })
+  @Expose()
+  tax_amount: number;
+}
+
+export class TaxSummaryResponseDto {
+  @ApiProperty({ description: 'First day of the period', example: '2024-01-01' })
+  @Expose()
+  start_date: string;
+
+  @ApiProperty({ description: 'Last day of the period', example: '2024-01-31' })
+  @Expose()
+  end_date: string;
+
+  @ApiProperty({
+    description: 'Output tax collected on sales, by rate',
+    type: [TaxSummaryLineDto],
+  })
+  @Expose()
+  sales: TaxSummaryLineDto[];
+
+  @ApiProperty({
+    description: 'Input tax paid on received purchases, by rate',
+    type: [TaxSummaryLineDto],
+  })
+  @Expose()
+  purchases: TaxSummaryLineDto[];
+
+  @ApiProperty({ description: 'Sales totals', type: TaxSummaryTotalsDto })
+  @Expose()
+  sales_totals: TaxSummaryTotalsDto;
+
+  @ApiProperty({ description: 'Purchase totals', type: TaxSummaryTotalsDto })
+  @Expose()
+  purchase_totals: TaxSummaryTotalsDto;
+
+  @ApiProperty({
+    description: 'Output tax minus input tax (negative when a credit is due)',
+    example: 1340.5,
+  })
+  @Expose()
+  net_tax_payable: number;
+}
@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateTaxClassDto } from './create-tax-class.dto';
+
+export class UpdateTaxClassDto extends PartialType(CreateTaxClassDto) {
+  // Rate changes apply to new lines only; existing lines keep their tax snapshot
+}
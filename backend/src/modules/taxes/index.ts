@@ -0,0 +1,5 @@
+export * from './tax-classes.controller';
+export * from './tax-classes.service';
+export * from './tax.service';
+export * from './taxes.module';
+export * from './dto';
@@ -0,0 +1,282 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Logger,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  DefaultValuePipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiConflictResponse,
+} from '@nestjs/swagger';
+import { TaxClassesService } from './tax-classes.service';
+import {
+  CreateTaxClassDto,
+  UpdateTaxClassDto,
+  TaxClassResponseDto,
+  TaxClassListResponseDto,
+  TaxClassFiltersDto,
+  TaxSummaryQueryDto,
+  TaxSummaryResponseDto,
+} from './dto';
+import { AuthGuard } from '../../common/guards/auth.guard';
+import { ManagerGuard } from '../../common/guards/manager.guard';
+import { StaffGuard } from '../../common/guards/staff.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { successResponse, createdResponse } from '../../common/helpers/api-response.helper';
+import { API_MESSAGES } from '../../common/constants/string-const';
+
+@ApiTags('Tax Classes')
+@Controller('tax-classes')
+@UseGuards(AuthGuard) // All endpoints require authentication
+@ApiBearerAuth()
+export class TaxClassesController {
+  private readonly logger = new Logger(TaxClassesController.name);
+
+  constructor(private readonly taxClassesService: TaxClassesService) {}
+
+  //#region ==================== CREATE OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Create a new tax class',
+    description: 'Create a tax rate (e.g. a GST slab or an exempt class) that products and categories can use. Requires MANAGER or ADMIN role.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Tax class created successfully',
+    type: TaxClassResponseDto,
+  })
+  @ApiConflictResponse({ description: 'Tax class code already exists' })
+  @ApiBadRequestResponse({ description: 'Invalid input data' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async createTaxClass(
+    @Body() createTaxClassDto: CreateTaxClassDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Creating tax class: ${createTaxClassDto.code} by user: ${userId}`);
+
+    const taxClass = await this.taxClassesService.createTaxClass(createTaxClassDto, userId);
+
+    this.logger.log(`Tax class created successfully: ${taxClass.id}`);
+    return createdResponse(taxClass, API_MESSAGES.TAX_CLASS_CREATED);
+  }
+
+  //#region ==================== READ OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Get all tax classes',
+    description: 'Retrieve a paginated list of tax classes with optional filtering. Requires STAFF role or above.',
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (starting from 1)',
+    example: 1,
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Number of items per page (1-100)',
+    example: 10,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tax classes retrieved successfully',
+    type: TaxClassListResponseDto,
+  })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get()
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  async findAllTaxClasses(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(10), ParseIntPipe) limit: number,
+    @Query() filters: TaxClassFiltersDto,
+    @CurrentUser() user: any,
+  ) {
+    this.logger.log(`Finding tax classes - page: ${page}, limit: ${limit}`);
+
+    // Validate pagination
+    if (page < 1) page = 1;
+    if (limit < 1) limit = 1;
+    if (limit > 100) limit = 100;
+
+    // Only admins can see deleted tax classes
+    if (filters.withDeleted && user.role !== 'ADMIN') {
+      filters.withDeleted = false;
+    }
+
+    const result = await this.taxClassesService.findAllTaxClasses(filters, page, limit);
+
+    this.logger.log(`Found ${result.data.length} tax classes`);
+    return successResponse({
+      ...result,
+      limit,
+    }, API_MESSAGES.TAX_CLASSES_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Get active tax classes',
+    description: 'Retrieve all active tax classes, lowest rate first. Requires STAFF role or above.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Active tax classes retrieved successfully',
+    type: [TaxClassResponseDto],
+  })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get('active/list')
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  async findActiveTaxClasses() {
+    this.logger.log('Finding all active tax classes');
+
+    const taxClasses = await this.taxClassesService.findActiveTaxClasses();
+
+    this.logger.log(`Found ${taxClasses.length} active tax classes`);
+    return successResponse(taxClasses, API_MESSAGES.TAX_CLASSES_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Get tax summary report',
+    description: 'Taxable amounts and tax by rate for sales and received purchases in a period, with the net tax payable. Requires MANAGER or ADMIN role.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tax summary generated successfully',
+    type: TaxSummaryResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid report period' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Get('reports/summary')
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async getTaxSummary(@Query() query: TaxSummaryQueryDto) {
+    this.logger.log(`Generating tax summary: ${query.start_date ?? 'month start'} - ${query.end_date ?? 'today'}`);
+
+    const summary = await this.taxClassesService.getTaxSummary(query);
+
+    return successResponse(summary, API_MESSAGES.TAX_SUMMARY_FETCHED);
+  }
+
+  @ApiOperation({
+    summary: 'Get tax class by ID',
+    description: 'Retrieve a specific tax class by its ID. Requires STAFF role or above.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Tax class UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tax class retrieved successfully',
+    type: TaxClassResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Tax class not found' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Staff role required' })
+  @Get(':id')
+  @UseGuards(StaffGuard) // Requires STAFF, MANAGER, or ADMIN role
+  async findTaxClassById(@Param('id', ParseUUIDPipe) id: string) {
+    this.logger.log(`Finding tax class by ID: ${id}`);
+
+    const taxClass = await this.taxClassesService.findTaxClassById(id);
+
+    return successResponse(taxClass, API_MESSAGES.TAX_CLASS_FETCHED);
+  }
+
+  //#region ==================== UPDATE OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Update a tax class',
+    description: 'Update a tax class. New rates apply to lines created afterwards; existing documents keep their tax. Requires MANAGER or ADMIN role.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Tax class UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tax class updated successfully',
+    type: TaxClassResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Tax class not found' })
+  @ApiConflictResponse({ description: 'Tax class code already exists' })
+  @ApiBadRequestResponse({ description: 'Invalid input data or exempt class with a non-zero rate' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Patch(':id')
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async updateTaxClass(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateTaxClassDto: UpdateTaxClassDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Updating tax class: ${id} by user: ${userId}`);
+
+    const taxClass = await this.taxClassesService.updateTaxClass(id, updateTaxClassDto, userId);
+
+    this.logger.log(`Tax class updated successfully: ${taxClass.id}`);
+    return successResponse(taxClass, API_MESSAGES.TAX_CLASS_UPDATED);
+  }
+
+  //#region ==================== DELETE OPERATIONS ====================
+
+  @ApiOperation({
+    summary: 'Delete a tax class',
+    description: 'Soft delete a tax class that no product or category uses. Requires MANAGER or ADMIN role.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Tax class UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tax class deleted successfully',
+  })
+  @ApiNotFoundResponse({ description: 'Tax class not found' })
+  @ApiBadRequestResponse({ description: 'Tax class is still assigned to products or categories' })
+  @ApiUnauthorizedResponse({ description: 'Authentication required' })
+  @ApiForbiddenResponse({ description: 'Manager role required' })
+  @Delete(':id')
+  @UseGuards(ManagerGuard) // Requires MANAGER or ADMIN role
+  async deleteTaxClass(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser('id') userId: string,
+  ) {
+    this.logger.log(`Deleting tax class: ${id} by user: ${userId}`);
+
+    const result = await this.taxClassesService.deleteTaxClass(id, userId);
+
+    this.logger.log(`Tax class deleted successfully: ${id}`);
+    return successResponse(result, result.message);
+  }
+}
@@ -0,0 +1,240 @@
+import { Injectable, Logger, ConflictException, NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  TaxClassesRepository,
+  TaxClassEntity,
+  TaxSummaryRow,
+} from '../../core/database/repositories/tax-classes.repository';
+import {
+  CreateTaxClassDto,
+  UpdateTaxClassDto,
+  TaxClassFiltersDto,
+  TaxSummaryQueryDto,
+  TaxSummaryLineDto,
+  TaxSummaryResponseDto,
+} from './dto';
+import { MESSAGES, API_MESSAGES } from '../../common/constants/string-const';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+@Injectable()
+export class TaxClassesService {
+  private readonly logger = new Logger(TaxClassesService.name);
+
+  constructor(
+    private readonly taxClassesRepository: TaxClassesRepository,
+  ) {}
+
+  //#region ==================== CRUD OPERATIONS ====================
+
+  async createTaxClass(createTaxClassDto: CreateTaxClassDto, userId: string): Promise<TaxClassEntity> {
+    this.logger.log(`Creating tax class: ${createTaxClassDto.code} by user: ${userId}`);
+
+    // Codes stay unique across deleted tax classes as well
+    const existingTaxClass = await this.taxClassesRepository.findByCode(createTaxClassDto.code, true);
+    if (existingTaxClass) {
+      this.logger.warn(`Tax class code already exists: ${createTaxClassDto.code}`);
+      throw new ConflictException(MESSAGES.TAX_CLASS_CODE_EXISTS);
+    }
+
+    this.assertExemptRate(createTaxClassDto.is_exempt ?? false, createTaxClassDto.rate);
+
+    try {
+      const taxClass = await this.taxClassesRepository.create({
+        ...createTaxClassDto,
+        created_by: userId,
+      });
+
+      this.logger.log(`Tax class created successfully: ${taxClass.code} (ID: ${taxClass.id})`);
+      return taxClass;
+    } catch (error) {
+      this.logger.error(`Failed to create tax class: ${createTaxClassDto.code}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findAllTaxClasses(
+    filters: TaxClassFiltersDto = {},
+    page = 1,
+    limit = 10,
+  ): Promise<{
+    data: TaxClassEntity[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    this.logger.log(`Finding tax classes with filters:`, filters);
+
+    try {
+      const result = await this.taxClassesRepository.findAll(filters, page, limit);
+
+      this.logger.log(`Found ${result.data.length} tax classes out of ${result.total} total`);
+      return result;
+    } catch (error) {
+      this.logger.error('Failed to find tax classes', error.stack);
+      throw error;
+    }
+  }
+
+  async findTaxClassById(id: string): Promise<TaxClassEntity> {
+    this.logger.log(`Finding tax class by ID: ${id}`);
+
+    const taxClass = await this.taxClassesRepository.findById(id);
+    if (!taxClass) {
+      this.logger.warn(`Tax class not found with ID: ${id}`);
+      throw new NotFoundException(MESSAGES.TAX_CLASS_NOT_FOUND);
+    }
+
+    return taxClass;
+  }
+
+  async updateTaxClass(id: string, updateTaxClassDto: UpdateTaxClassDto, userId: string): Promise<TaxClassEntity> {
+    this.logger.log(`Updating tax class: ${id} by user: ${userId}`);
+
+    // First verify the tax class exists
+    const existingTaxClass = await this.findTaxClassById(id);
+
+    // Check if new code conflicts with another tax class
+    if (updateTaxClassDto.code && updateTaxClassDto.code !== existingTaxClass.code) {
+      const codeConflict = await this.taxClassesRepository.findByCode(updateTaxClassDto.code, true);
+      if (codeConflict && codeConflict.id !== id) {
+        this.logger.warn(`Tax class code already exists: ${updateTaxClassDto.code}`);
+        throw new ConflictException(MESSAGES.TAX_CLASS_CODE_EXISTS);
+      }
+    }
+
+    this.assertExemptRate(
+      updateTaxClassDto.is_exempt ?? existingTaxClass.is_exempt,
+      updateTaxClassDto.rate ?? parseFloat(existingTaxClass.rate),
+    );
+
+    try {
+      const updatedTaxClass = await this.taxClassesRepository.update(id, {
+        ...updateTaxClassDto,
+        updated_by: userId,
+      });
+
+      this.logger.log(`Tax class updated successfully: ${updatedTaxClass.code} (ID: ${id})`);
+      return updatedTaxClass;
+    } catch (error) {
+      this.logger.error(`Failed to update tax class: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  async deleteTaxClass(id: string, userId: string): Promise<{ message: string }> {
+    this.logger.log(`Soft deleting tax class: ${id} by user: ${userId}`);
+
+    await this.findTaxClassById(id);
+
+    // Products and categories have to be moved to another class first
+    if (await this.taxClassesRepository.isInUse(id)) {
+      throw new BadRequestException(MESSAGES.TAX_CLASS_IN_USE);
+    }
+
+    try {
+      const success = await this.taxClassesRepository.delete(id, userId);
+      if (!success) {
+        this.logger.error(`Failed to delete tax class: ${id}`);
+        throw new Error('Failed to delete tax class');
+      }
+
+      this.logger.log(`Tax class soft deleted successfully: ${id}`);
+      return { message: API_MESSAGES.TAX_CLASS_DELETED };
+    } catch (error) {
+      this.logger.error(`Failed to delete tax class: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== UTILITY OPERATIONS ====================
+
+  async findActiveTaxClasses(): Promise<TaxClassEntity[]> {
+    this.logger.log('Finding all active tax classes');
+
+    try {
+      const taxClasses = await this.taxClassesRepository.findActiveTaxClasses();
+      this.logger.log(`Found ${taxClasses.length} active tax classes`);
+      return taxClasses;
+    } catch (error) {
+      this.logger.error('Failed to find active tax classes', error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== REPORT OPERATIONS ====================
+
+  /**
+   * Output tax on sales against input tax on purchases for a period, grouped by rate
+   */
+  async getTaxSummary(query: TaxSummaryQueryDto = {}): Promise<TaxSummaryResponseDto> {
+    const today = new Date().toISOString().slice(0, 10);
+    const startDate = query.start_date || `${today.slice(0, 8)}01`;
+    const endDate = query.end_date || today;
+
+    if (!ISO_DATE_PATTERN.test(startDate) || !ISO_DATE_PATTERN.test(endDate)
+      || isNaN(Date.parse(startDate)) || isNaN(Date.parse(endDate)) || startDate > endDate) {
+      throw new BadRequestException(MESSAGES.REPORT_RANGE_INVALID);
+    }
+
+    this.logger.log(`Generating tax summary from ${startDate} to ${endDate}`);
+
+    // Invoices are timestamped, so the period runs up to the start of the day after the end date
+    const salesFrom = new Date(`${startDate}T00:00:00.000Z`);
+    const salesTo = new Date(`${endDate}T00:00:00.000Z`);
+    salesTo.setUTCDate(salesTo.getUTCDate() + 1);
+
+    try {
+      const salesRows = await this.taxClassesRepository.getSalesTaxSummary(salesFrom, salesTo);
+      const purchaseRows = await this.taxClassesRepository.getPurchaseTaxSummary(startDate, endDate);
+
+      const sales = salesRows.map(row => this.toSummaryLine(row));
+      const purchases = purchaseRows.map(row => this.toSummaryLine(row));
+      const salesTotals = this.sumSummaryLines(sales);
+      const purchaseTotals = this.sumSummaryLines(purchases);
+
+      return {
+        start_date: startDate,
+        end_date: endDate,
+        sales,
+        purchases,
+        sales_totals: salesTotals,
+        purchase_totals: purchaseTotals,
+        net_tax_payable: this.roundCurrency(salesTotals.tax_amount - purchaseTotals.tax_amount),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to generate tax summary from ${startDate} to ${endDate}`, error.stack);
+      throw error;
+    }
+  }
+
+  //#region ==================== HELPERS ====================
+
+  private assertExemptRate(isExempt: boolean, rate: number): void {
+    if (isExempt && rate !== 0) {
+      throw new BadRequestException(MESSAGES.TAX_CLASS_EXEMPT_RATE);
+    }
+  }
+
+  private toSummaryLine(row: TaxSummaryRow): TaxSummaryLineDto {
+    return {
+      tax_class_id: row.tax_class_id,
+      tax_class_name: row.tax_class_name,
+      tax_class_code: row.tax_class_code,
+      tax_rate: parseFloat(row.tax_rate),
+      taxable_amount: parseFloat(row.taxable_amount),
+      tax_amount: parseFloat(row.tax_amount),
+      line_count: Number(row.line_count),
+    };
+  }
+
+  private sumSummaryLines(lines: TaxSummaryLineDto[]): { taxable_amount: number; tax_amount: number } {
+    return {
+      taxable_amount: this.roundCurrency(lines.reduce((sum, line) => sum + line.taxable_amount, 0)),
+      tax_amount: this.roundCurrency(lines.reduce((sum, line) => sum + line.tax_amount, 0)),
+    };
+  }
+
+  private roundCurrency(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
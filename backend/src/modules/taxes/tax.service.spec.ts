@@ -0,0 +1,118 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TaxService, TaxableLine } from './tax.service';
+import { TaxClassesRepository, TaxClassEntity } from '../../core/database/repositories/tax-classes.repository';
+import { CategoriesRepository } from '../../core/database/repositories/categories.repository';
+import { ProductEntity } from '../../core/database/repositories/products.repository';
+
+const line = (amount: number, taxRate: number, overrides: Partial<TaxableLine> = {}): TaxableLine => ({
+  tax_class_id: 'tax-class-1',
+  tax_rate: taxRate,
+  tax_inclusive: false,
+  amount,
+  ...overrides,
+});
+
+const taxClass = (overrides: Partial<TaxClassEntity> = {}): TaxClassEntity => ({
+  id: 'tax-class-1',
+  name: 'Standard',
+  rate: '10.0000',
+  is_inclusive: false,
+  is_exempt: false,
+  ...overrides,
+}) as TaxClassEntity;
+
+describe('TaxService', () => {
+  let service: TaxService;
+  let taxClassesRepository: { findById: jest.Mock };
+  let categoriesRepository: { findById: jest.Mock };
+
+  beforeEach(async () => {
+    taxClassesRepository = { findById: jest.fn() };
+    categoriesRepository = { findById: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaxService,
+        { provide: TaxClassesRepository, useValue: taxClassesRepository },
+        { provide: CategoriesRepository, useValue: categoriesRepository },
+      ],
+    }).compile();
+
+    service = module.get<TaxService>(TaxService);
+  });
+
+  describe('computeLineTaxes', () => {
+    it('charges exclusive tax on top of the line amount, rounded to the cent', () => {
+      // 7.5% of 1.99 is 0.14925 and 8.25% of 3.33 is 0.274725
+      expect(service.computeLineTaxes([line(1.99, 7.5), line(3.33, 8.25)]).map(tax => tax.tax_amount))
+        .toEqual([0.15, 0.27]);
+    });
+
+    it('backs inclusive tax out of the shelf price', () => {
+      expect(service.computeLineTaxes([line(12, 20, { tax_inclusive: true })])).toEqual([{
+        net_amount: 10,
+        line_discount_amount: 0,
+        taxable_amount: 10,
+        tax_amount: 2,
+      }]);
+    });
+
+    it('spreads the document discount so the shares add up to it exactly', () => {
+      const taxes = service.computeLineTaxes([line(10, 0), line(10, 0), line(10, 0)], 10);
+
+      expect(taxes.map(tax => tax.taxable_amount)).toEqual([6.67, 6.67, 6.66]);
+      const discounted = taxes.reduce((sum, tax) => sum + tax.net_amount - tax.taxable_amount, 0);
+      expect(Math.round(discounted * 100) / 100).toBe(10);
+    });
+
+    it('takes tax on discounted inclusive lines from the discounted shelf price', () => {
+      // Both lines are 10.00 net, so each takes 2.50 of the discount
+      const taxes = service.computeLineTaxes([line(11, 10, { tax_inclusive: true }), line(10, 10)], 5);
+
+      expect(taxes.map(tax => [tax.taxable_amount, tax.tax_amount])).toEqual([[7.5, 0.75], [7.5, 0.75]]);
+    });
+
+    it('takes each line\'s promotion off before sharing out the document discount', () => {
+      // 20.00 and 10.00, with 10.00 off the first, leaves 10.00 each to share the 4.00
+      const taxes = service.computeLineTaxes([line(20, 10, { line_discount: 10 }), line(10, 10)], 4);
+
+      expect(taxes.map(tax => [tax.line_discount_amount, tax.taxable_amount, tax.tax_amount]))
+        .toEqual([[10, 8, 0.8], [0, 8, 0.8]]);
+    });
+
+    it('never discounts a line below zero', () => {
+      const [tax] = service.computeLineTaxes([line(5, 10, { line_discount: 8 })]);
+
+      expect(tax).toEqual({ net_amount: 5, line_discount_amount: 5, taxable_amount: 0, tax_amount: 0 });
+    });
+  });
+
+  describe('resolveProductTaxClass', () => {
+    const product = (overrides: Partial<ProductEntity> = {}): ProductEntity => ({
+      id: 'product-1',
+      tax_class_id: null,
+      category_id: 'category-1',
+      ...overrides,
+    }) as ProductEntity;
+
+    it('falls back to the category default when the product has no class', async () => {
+      categoriesRepository.findById.mockResolvedValue({ id: 'category-1', tax_class_id: 'tax-class-1' });
+      taxClassesRepository.findById.mockResolvedValue(taxClass({ rate: '8.2500' }));
+
+      await expect(service.resolveProductTaxClass(product()))
+        .resolves.toEqual({ tax_class_id: 'tax-class-1', tax_rate: 8.25, tax_inclusive: false });
+    });
+
+    it('sells untaxed when the class no longer exists', async () => {
+      taxClassesRepository.findById.mockResolvedValue(undefined);
+
+      await expect(service.resolveProductTaxClass(product({ tax_class_id: 'tax-class-1' })))
+        .resolves.toEqual({ tax_class_id: null, tax_rate: 0, tax_inclusive: false });
+      expect(categoriesRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it('charges exempt classes at a zero rate', () => {
+      expect(service.toLineTaxClass(taxClass({ is_exempt: true })).tax_rate).toBe(0);
+    });
+  });
+});
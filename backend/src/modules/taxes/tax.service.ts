@@ -0,0 +1,123 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { TaxClassesRepository, TaxClassEntity } from '../../core/database/repositories/tax-classes.repository';
+import { CategoriesRepository } from '../../core/database/repositories/categories.repository';
+import { ProductEntity } from '../../core/database/repositories/products.repository';
+
+export interface LineTaxClass {
+  tax_class_id: string | null;
+  tax_rate: number;
+  tax_inclusive: boolean;
+}
+
+export interface TaxableLine extends LineTaxClass {
+  // Line amount as priced: quantity x unit price, including tax for inclusive classes
+  amount: number;
+  // Promotion discount for this line alone, priced the same way as amount
+  line_discount?: number;
+}
+
+export interface ComputedLineTax {
+  net_amount: number; // Line amount before discount, excluding tax
+  line_discount_amount: number; // Promotion discount, excluding tax
+  taxable_amount: number; // Net amount after its own discount and its share of the document discount
+  tax_amount: number;
+}
+
+const UNTAXED: LineTaxClass = { tax_class_id: null, tax_rate: 0, tax_inclusive: false };
+
+/**
+ * Resolves the tax class that applies to a product and works out per-line tax for
+ * invoices and purchase orders.
+ */
+@Injectable()
+export class TaxService {
+  private readonly logger = new Logger(TaxService.name);
+
+  constructor(
+    private readonly taxClassesRepository: TaxClassesRepository,
+    private readonly categoriesRepository: CategoriesRepository,
+  ) {}
+
+  /**
+   * The product's own class wins; otherwise the category default applies. Products
+   * with neither are untaxed.
+   */
+  async resolveProductTaxClass(product: ProductEntity): Promise<LineTaxClass> {
+    let taxClassId = product.tax_class_id;
+
+    if (!taxClassId && product.category_id) {
+      const category = await this.categoriesRepository.findById(product.category_id);
+      taxClassId = category?.tax_class_id ?? null;
+    }
+
+    if (!taxClassId) {
+      return UNTAXED;
+    }
+
+    const taxClass = await this.taxClassesRepository.findById(taxClassId);
+    if (!taxClass) {
+      this.logger.warn(`Tax class ${taxClassId} for product ${product.id} no longer exists, selling untaxed`);
+      return UNTAXED;
+    }
+
+    return this.toLineTaxClass(taxClass);
+  }
+
+  /**
+   * Splits each line into net and tax. Inclusive lines have the tax backed out of the
+   * price; each line's own promotion discount comes off first, then the document
+   * discount is spread over the lines in proportion to what is left, before tax is
+   * charged.
+   */
+  computeLineTaxes(lines: TaxableLine[], discountAmount = 0): ComputedLineTax[] {
+    const netOf = (line: TaxableLine, amount: number) => this.roundCurrency(
+      line.tax_inclusive ? amount / (1 + line.tax_rate / 100) : amount,
+    );
+    const netAmounts = lines.map(line => netOf(line, line.amount));
+    const lineDiscounts = lines.map((line, index) => Math.min(netOf(line, line.line_discount ?? 0), netAmounts[index]));
+    const discountBases = netAmounts.map((amount, index) => this.roundCurrency(amount - lineDiscounts[index]));
+    const totalBase = discountBases.reduce((sum, amount) => sum + amount, 0);
+
+    let remainingDiscount = this.roundCurrency(discountAmount);
+
+    return lines.map((line, index) => {
+      const netAmount = netAmounts[index];
+
+      // The last line takes whatever is left so the shares add up to the discount exactly
+      const discountShare = index === lines.length - 1
+        ? remainingDiscount
+        : totalBase > 0 ? this.roundCurrency(discountAmount * discountBases[index] / totalBase) : 0;
+      remainingDiscount = this.roundCurrency(remainingDiscount - discountShare);
+
+      const taxableAmount = this.roundCurrency(discountBases[index] - discountShare);
+
+      let taxAmount: number;
+      if (line.tax_inclusive && netAmount > 0) {
+        // Derive tax from the discounted shelf price so the customer pays the price shown
+        const grossAfterDiscount = this.roundCurrency(line.amount * taxableAmount / netAmount);
+        taxAmount = this.roundCurrency(grossAfterDiscount - taxableAmount);
+      } else {
+        taxAmount = this.roundCurrency(taxableAmount * line.tax_rate / 100);
+      }
+
+      return {
+        net_amount: netAmount,
+        line_discount_amount: lineDiscounts[index],
+        taxable_amount: taxableAmount,
+        tax_amount: taxAmount,
+      };
+    });
+  }
+
+  toLineTaxClass(taxClass: TaxClassEntity): LineTaxClass {
+    return {
+      tax_class_id: taxClass.id,
+      tax_rate: taxClass.is_exempt ? 0 : parseFloat(taxClass.rate),
+      tax_inclusive: taxClass.is_inclusive,
+    };
+  }
+
+  private roundCurrency(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TaxClassesController } from './tax-classes.controller';
+import { TaxClassesService } from './tax-classes.service';
+import { TaxService } from './tax.service';
+import { DatabaseModule } from '../../core/database/database.module';
+import { SupabaseModule } from '../../core/supabase/supabase.module';
+
+@Module({
+  imports: [DatabaseModule, SupabaseModule],
+  controllers: [TaxClassesController],
+  providers: [TaxClassesService, TaxService],
+  exports: [TaxClassesService, TaxService],
+})
+export class TaxesModule {}
@@ -8,10 +8,17 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { useToast } from '@/hooks/use-toast';
 import { categoriesApi } from '@/lib/api/inventory';
+import { taxClassesApi } from '@/lib/api/taxes';
 import { Category, CreateCategoryRequest, UpdateCategoryRequest, FormMode } from '@/types/inventory';
+import { TaxClass } from '@/types/taxes';
+import { getSubtreeIds } from './CategoryTree';
+
+// Select value standing in for "no parent", since a select item can't have an empty value
+const TOP_LEVEL_VALUE = '__top__';
 
 // Form validation schema
 const categorySchema = z.object({
@@ -19,10 +26,12 @@ const categorySchema = z.object({
     .min(1, 'Category name is required')
     .max(100, 'Category name cannot exceed 100 characters')
     .trim(),
+  parent_id: z.string().optional(),
   description: z.string()
     .max(500, 'Description cannot exceed 500 characters')
     .optional()
     .or(z.literal('')),
+  tax_class_id: z.string().optional(),
   is_active: z.boolean().default(true)
 });
 
@@ -38,28 +47,52 @@ interface CategoryFormProps {
 export function CategoryForm({ mode, category, onSubmit, onCancel }: CategoryFormProps) {
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [taxClasses, setTaxClasses] = useState<TaxClass[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
 
   const form = useForm<CategoryFormData>({
     resolver: zodResolver(categorySchema),
     defaultValues: {
       name: '',
+      parent_id: TOP_LEVEL_VALUE,
       description: '',
+      tax_class_id: '',
       is_active: true
     }
   });
 
+  // Load tax classes for the default tax class select
+  useEffect(() => {
+    taxClassesApi.getActiveTaxClasses()
+      .then(setTaxClasses)
+      .catch(() => setTaxClasses([]));
+    categoriesApi.getCategories()
+      .then(response => setCategories(Array.isArray(response.data) ? response.data : []))
+      .catch(() => setCategories([]));
+  }, []);
+
+  // A category can't be placed under itself or one of its own subcategories
+  const excludedParents = category ? getSubtreeIds(categories, category.id) : new Set<string>();
+  const parentOptions = categories
+    .filter(candidate => !excludedParents.has(candidate.id))
+    .sort((a, b) => a.path_name.localeCompare(b.path_name));
+
   // Reset form when category changes
   useEffect(() => {
     if (category && (mode === 'edit' || mode === 'view')) {
       form.reset({
         name: category.name,
+        parent_id: category.parent_id || TOP_LEVEL_VALUE,
         description: category.description || '',
+        tax_class_id: category.tax_class_id || '',
         is_active: category.is_active
       });
     } else if (mode === 'create') {
       form.reset({
         name: '',
+        parent_id: TOP_LEVEL_VALUE,
         description: '',
+        tax_class_id: '',
         is_active: true
       });
     }
@@ -73,7 +106,9 @@ export function CategoryForm({ mode, category, onSubmit, onCancel }: CategoryFor
     try {
       const payload = {
         name: data.name.trim(),
+        parent_id: (data.parent_id && data.parent_id !== TOP_LEVEL_VALUE) ? data.parent_id : null,
         description: data.description?.trim() || undefined,
+        tax_class_id: (data.tax_class_id && data.tax_class_id !== '__none__') ? data.tax_class_id : null,
         is_active: data.is_active
       };
 
@@ -123,7 +158,41 @@ export function CategoryForm({ mode, category, onSubmit, onCancel }: CategoryFor
                 />
               </FormControl>
               <FormDescription>
-                A unique name for this category (max 100 characters)
+                Must be unique among categories with the same parent (max 100 characters)
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Parent Category Field */}
+        <FormField
+          control={form.control}
+          name="parent_id"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Parent Category</FormLabel>
+              <Select
+                value={field.value}
+                onValueChange={field.onChange}
+                disabled={isReadOnly}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="None (top level)" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={TOP_LEVEL_VALUE}>None (top level)</SelectItem>
+                  {parentOptions.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.path_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                Leave empty for a top-level category
               </FormDescription>
               <FormMessage />
             </FormItem>
@@ -153,6 +222,40 @@ export function CategoryForm({ mode, category, onSubmit, onCancel }: CategoryFor
           )}
         />
 
+        {/* Default Tax Class Field */}
+        <FormField
+          control={form.control}
+          name="tax_class_id"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Default Tax Class</FormLabel>
+              <Select
+                value={field.value}
+                onValueChange={field.onChange}
+                disabled={isReadOnly}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="No tax" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="__none__">No tax</SelectItem>
+                  {taxClasses.map((taxClass) => (
+                    <SelectItem key={taxClass.id} value={taxClass.id}>
+                      {taxClass.name} ({parseFloat(taxClass.rate)}%)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                Applies to products in this category that have no tax class of their own
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         {/* Active Status Field */}
         <FormField
           control={form.control}
@@ -0,0 +1,253 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Edit, Eye, FolderInput, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Category, CategoryFilters } from '@/types/inventory';
+
+interface CategoryTreeProps {
+  categories: Category[];
+  sortBy: CategoryFilters['sort_by'];
+  sortOrder: CategoryFilters['sort_order'];
+  onSort: (column: string) => void;
+  onView: (category: Category) => void;
+  onEdit: (category: Category) => void;
+  onMove: (category: Category) => void;
+  onDelete: (category: Category) => void;
+}
+
+interface TreeRow {
+  category: Category;
+  level: number;
+  childCount: number;
+}
+
+/**
+ * IDs of a category and everything below it, worked out from the parent links in the list
+ */
+export const getSubtreeIds = (categories: Category[], id: string): Set<string> => {
+  const subtree = new Set([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const category of categories) {
+      if (category.parent_id && subtree.has(category.parent_id) && !subtree.has(category.id)) {
+        subtree.add(category.id);
+        grew = true;
+      }
+    }
+  }
+  return subtree;
+};
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+/**
+ * Categories as an indented tree with expand/collapse. A category whose parent isn't in the
+ * list (e.g. when searching) is shown at the top level with its parent's breadcrumb.
+ */
+export function CategoryTree({ categories, sortBy, sortOrder, onSort, onView, onEdit, onMove, onDelete }: CategoryTreeProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const childrenByParent = useMemo(() => {
+    const ids = new Set(categories.map(category => category.id));
+    const compare = (a: Category, b: Category) => {
+      const result = sortBy === 'created_at'
+        ? a.created_at.localeCompare(b.created_at)
+        : a.name.localeCompare(b.name);
+      return sortOrder === 'desc' ? -result : result;
+    };
+
+    const map = new Map<string | null, Category[]>();
+    for (const category of categories) {
+      const parentKey = category.parent_id && ids.has(category.parent_id) ? category.parent_id : null;
+      map.set(parentKey, [...(map.get(parentKey) ?? []), category]);
+    }
+    map.forEach(children => children.sort(compare));
+    return map;
+  }, [categories, sortBy, sortOrder]);
+
+  const rows = useMemo(() => {
+    const result: TreeRow[] = [];
+    const visit = (parentKey: string | null, level: number) => {
+      for (const category of childrenByParent.get(parentKey) ?? []) {
+        const childCount = childrenByParent.get(category.id)?.length ?? 0;
+        result.push({ category, level, childCount });
+        if (childCount > 0 && !collapsed.has(category.id)) {
+          visit(category.id, level + 1);
+        }
+      }
+    };
+    visit(null, 0);
+    return result;
+  }, [childrenByParent, collapsed]);
+
+  const toggle = (id: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const parentIds = categories.filter(category => childrenByParent.has(category.id)).map(category => category.id);
+
+  const renderSortIndicator = (column: string) => sortBy === column && (
+    <span className="ml-1">
+      {sortOrder === 'asc' ? '↑' : '↓'}
+    </span>
+  );
+
+  return (
+    <div className="space-y-2">
+      {parentIds.length > 0 && (
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => setCollapsed(new Set())}>
+            Expand all
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setCollapsed(new Set(parentIds))}>
+            Collapse all
+          </Button>
+        </div>
+      )}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead
+              className="cursor-pointer hover:bg-muted/50"
+              onClick={() => onSort('name')}
+            >
+              Name
+              {renderSortIndicator('name')}
+            </TableHead>
+            <TableHead>Description</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead
+              className="cursor-pointer hover:bg-muted/50"
+              onClick={() => onSort('created_at')}
+            >
+              Created
+              {renderSortIndicator('created_at')}
+            </TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(({ category, level, childCount }) => (
+            <TableRow key={category.id}>
+              <TableCell className="font-medium">
+                <div className="flex items-center gap-1" style={{ paddingLeft: `${level * 1.5}rem` }}>
+                  {childCount > 0 ? (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => toggle(category.id)}
+                      aria-label={collapsed.has(category.id) ? 'Expand' : 'Collapse'}
+                    >
+                      {collapsed.has(category.id) ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                    </Button>
+                  ) : (
+                    <span className="w-6" />
+                  )}
+                  <div>
+                    {level === 0 && category.depth > 0 && (
+                      <div className="text-xs text-muted-foreground">
+                        {category.path.slice(0, -1).map(item => item.name).join(' > ')}
+                      </div>
+                    )}
+                    {category.name}
+                    {childCount > 0 && (
+                      <span className="ml-2 text-xs text-muted-foreground">({childCount})</span>
+                    )}
+                  </div>
+                </div>
+              </TableCell>
+              <TableCell>
+                {category.description || '-'}
+              </TableCell>
+              <TableCell>
+                <Badge variant={category.is_active ? 'default' : 'secondary'}>
+                  {category.is_active ? 'Active' : 'Inactive'}
+                </Badge>
+              </TableCell>
+              <TableCell>
+                {formatDate(category.created_at)}
+              </TableCell>
+              <TableCell className="text-right">
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onView(category)}
+                  >
+                    <Eye className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onEdit(category)}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onMove(category)}
+                    title="Move"
+                  >
+                    <FolderInput className="h-4 w-4" />
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete Category</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          {childCount > 0
+                            ? `"${category.name}" has subcategories. Move or delete them before deleting it.`
+                            : `Are you sure you want to delete "${category.name}"? This action cannot be undone.`}
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        {childCount === 0 && (
+                          <AlertDialogAction
+                            onClick={() => onDelete(category)}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        )}
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
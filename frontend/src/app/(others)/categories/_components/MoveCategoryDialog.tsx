@@ -0,0 +1,106 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { categoriesApi } from '@/lib/api/inventory';
+import { Category } from '@/types/inventory';
+import { getSubtreeIds } from './CategoryTree';
+
+// Select value standing in for "no parent", since a select item can't have an empty value
+const TOP_LEVEL_VALUE = '__top__';
+
+interface MoveCategoryDialogProps {
+  category: Category | null;
+  onOpenChange: (open: boolean) => void;
+  onMoved: () => void;
+}
+
+/**
+ * Picks a new parent for a category. The category itself and its subcategories aren't
+ * offered, since moving under them would make a loop.
+ */
+export function MoveCategoryDialog({ category, onOpenChange, onMoved }: MoveCategoryDialogProps) {
+  const { toast } = useToast();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [parentId, setParentId] = useState(TOP_LEVEL_VALUE);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!category) return;
+    setParentId(category.parent_id || TOP_LEVEL_VALUE);
+    categoriesApi.getCategories()
+      .then(response => setCategories(Array.isArray(response.data) ? response.data : []))
+      .catch(() => setCategories([]));
+  }, [category]);
+
+  const excluded = category ? getSubtreeIds(categories, category.id) : new Set<string>();
+  const candidates = categories
+    .filter(candidate => !excluded.has(candidate.id))
+    .sort((a, b) => a.path_name.localeCompare(b.path_name));
+
+  const handleMove = async () => {
+    if (!category) return;
+
+    setIsSubmitting(true);
+    try {
+      await categoriesApi.moveCategory(category.id, parentId === TOP_LEVEL_VALUE ? null : parentId);
+      toast({
+        title: 'Success',
+        description: 'Category moved successfully'
+      });
+      onMoved();
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to move category',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!category} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Move Category</DialogTitle>
+          <DialogDescription>
+            Move &quot;{category?.path_name}&quot; and its subcategories under another category
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="move-parent">New parent</Label>
+          <Select value={parentId} onValueChange={setParentId} disabled={isSubmitting}>
+            <SelectTrigger id="move-parent">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={TOP_LEVEL_VALUE}>None (top level)</SelectItem>
+              {candidates.map(candidate => (
+                <SelectItem key={candidate.id} value={candidate.id}>
+                  {candidate.path_name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleMove}
+            disabled={isSubmitting || parentId === (category?.parent_id || TOP_LEVEL_VALUE)}
+          >
+            {isSubmitting ? 'Moving...' : 'Move'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,19 +1,18 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { Plus, Search, Filter, Edit, Trash2, Eye } from 'lucide-react';
+import { Plus, Search } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
 import { categoriesApi } from '@/lib/api/inventory';
 import { Category, CategoryFilters, TableState, ModalState } from '@/types/inventory';
 import { CategoryForm } from './_components/CategoryForm';
 import { CategoryFiltersComponent } from './_components/CategoryFilters';
+import { CategoryTree } from './_components/CategoryTree';
+import { MoveCategoryDialog } from './_components/MoveCategoryDialog';
 
 export default function CategoriesPage() {
   const { toast } = useToast();
@@ -39,6 +38,7 @@ export default function CategoriesPage() {
     selectedItem: null
   });
   const [searchTerm, setSearchTerm] = useState('');
+  const [movingCategory, setMovingCategory] = useState<Category | null>(null);
 
   // Load categories
   const loadCategories = async () => {
@@ -107,6 +107,12 @@ export default function CategoriesPage() {
     });
   };
 
+  // Handle move category
+  const handleMoved = async () => {
+    setMovingCategory(null);
+    await loadCategories();
+  };
+
   // Handle delete category
   const handleDelete = async (category: Category) => {
     try {
@@ -131,11 +137,6 @@ export default function CategoriesPage() {
     await loadCategories();
   };
 
-  // Handle pagination
-  const handlePageChange = (newPage: number) => {
-    setFilters(prev => ({ ...prev, page: newPage }));
-  };
-
   // Handle sorting
   const handleSort = (column: string) => {
     const newOrder = filters.sort_by === column && filters.sort_order === 'asc' ? 'desc' : 'asc';
@@ -152,17 +153,6 @@ export default function CategoriesPage() {
     loadCategories();
   }, [filters]);
 
-  // Format date
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    });
-  };
-
   return (
     <div className="container mx-auto py-6 space-y-6">
       {/* Header */}
@@ -209,12 +199,12 @@ export default function CategoriesPage() {
         </CardContent>
       </Card>
 
-      {/* Categories Table */}
+      {/* Category Tree */}
       <Card>
         <CardHeader>
           <CardTitle>Categories ({tableState.total})</CardTitle>
           <CardDescription>
-            List of all categories in your system
+            Categories and their subcategories
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -227,128 +217,16 @@ export default function CategoriesPage() {
               {tableState.error}
             </div>
           ) : (
-            <div className="space-y-4">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead 
-                      className="cursor-pointer hover:bg-muted/50"
-                      onClick={() => handleSort('name')}
-                    >
-                      Name
-                      {filters.sort_by === 'name' && (
-                        <span className="ml-1">
-                          {filters.sort_order === 'asc' ? '↑' : '↓'}
-                        </span>
-                      )}
-                    </TableHead>
-                    <TableHead>Description</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead 
-                      className="cursor-pointer hover:bg-muted/50"
-                      onClick={() => handleSort('created_at')}
-                    >
-                      Created
-                      {filters.sort_by === 'created_at' && (
-                        <span className="ml-1">
-                          {filters.sort_order === 'asc' ? '↑' : '↓'}
-                        </span>
-                      )}
-                    </TableHead>
-                    <TableHead className="text-right">Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {(categories || []).map((category) => (
-                    <TableRow key={category.id}>
-                      <TableCell className="font-medium">
-                        {category.name}
-                      </TableCell>
-                      <TableCell>
-                        {category.description || '-'}
-                      </TableCell>
-                      <TableCell>
-                        <Badge variant={category.is_active ? 'default' : 'secondary'}>
-                          {category.is_active ? 'Active' : 'Inactive'}
-                        </Badge>
-                      </TableCell>
-                      <TableCell>
-                        {formatDate(category.created_at)}
-                      </TableCell>
-                      <TableCell className="text-right">
-                        <div className="flex justify-end gap-2">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleView(category)}
-                          >
-                            <Eye className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleEdit(category)}
-                          >
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          <AlertDialog>
-                            <AlertDialogTrigger asChild>
-                              <Button variant="ghost" size="sm">
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>Delete Category</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  Are you sure you want to delete "{category.name}"? This action cannot be undone.
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                <AlertDialogAction
-                                  onClick={() => handleDelete(category)}
-                                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                                >
-                                  Delete
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
-                        </div>
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-
-              {/* Pagination */}
-              {tableState.total > filters.limit! && (
-                <div className="flex justify-between items-center">
-                  <div className="text-sm text-muted-foreground">
-                    Showing {((filters.page! - 1) * filters.limit!) + 1} to {Math.min(filters.page! * filters.limit!, tableState.total)} of {tableState.total} categories
-                  </div>
-                  <div className="flex gap-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      disabled={filters.page === 1}
-                      onClick={() => handlePageChange(filters.page! - 1)}
-                    >
-                      Previous
-                    </Button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      disabled={filters.page! * filters.limit! >= tableState.total}
-                      onClick={() => handlePageChange(filters.page! + 1)}
-                    >
-                      Next
-                    </Button>
-                  </div>
-                </div>
-              )}
-            </div>
+            <CategoryTree
+              categories={categories}
+              sortBy={filters.sort_by}
+              sortOrder={filters.sort_order}
+              onSort={handleSort}
+              onView={handleView}
+              onEdit={handleEdit}
+              onMove={setMovingCategory}
+              onDelete={handleDelete}
+            />
           )}
         </CardContent>
       </Card>
@@ -376,6 +254,12 @@ export default function CategoriesPage() {
           />
         </DialogContent>
       </Dialog>
+
+      <MoveCategoryDialog
+        category={movingCategory}
+        onOpenChange={(open) => !open && setMovingCategory(null)}
+        onMoved={handleMoved}
+      />
     </div>
   );
 }
\ No newline at end of file
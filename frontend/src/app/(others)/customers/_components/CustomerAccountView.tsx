@@ -0,0 +1,265 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { GitMerge, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { customersApi } from '@/lib/api/customers';
+import { Customer, CustomerAccount } from '@/types/customers';
+
+interface CustomerAccountViewProps {
+  customer: Customer;
+  onMerged: () => void;
+  onClose: () => void;
+}
+
+export function CustomerAccountView({ customer, onMerged, onClose }: CustomerAccountViewProps) {
+  const { toast } = useToast();
+  const [account, setAccount] = useState<CustomerAccount | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [duplicateSearch, setDuplicateSearch] = useState('');
+  const [duplicates, setDuplicates] = useState<Customer[]>([]);
+  const [merging, setMerging] = useState(false);
+
+  // Load the account whenever another customer is opened
+  const loadAccount = async () => {
+    setLoading(true);
+    try {
+      setAccount(await customersApi.getCustomerAccount(customer.id));
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to load customer account',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setDuplicates([]);
+    setDuplicateSearch('');
+    loadAccount();
+  }, [customer.id]);
+
+  // Find possible duplicates of this customer to merge in
+  const handleDuplicateSearch = async () => {
+    try {
+      const results = await customersApi.searchCustomers(duplicateSearch.trim());
+      setDuplicates(results.filter(result => result.id !== customer.id));
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to search customers',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleMerge = async (duplicate: Customer) => {
+    setMerging(true);
+    try {
+      await customersApi.mergeCustomers(customer.id, duplicate.id);
+      toast({
+        title: 'Success',
+        description: `${duplicate.name} merged into ${customer.name}`
+      });
+      setDuplicates(prev => prev.filter(result => result.id !== duplicate.id));
+      await loadAccount();
+      onMerged();
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to merge customers',
+        variant: 'destructive'
+      });
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  // Format currency
+  const formatCurrency = (amount: number | string | null): string => {
+    if (amount === null) return '-';
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(typeof amount === 'string' ? parseFloat(amount) : amount);
+  };
+
+  // Format date
+  const formatDate = (dateString: string | null): string => {
+    if (!dateString) return '-';
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  if (loading && !account) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Contact Details */}
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        <div>
+          <span className="font-medium text-muted-foreground">Email:</span>
+          <p>{customer.email || '-'}</p>
+        </div>
+        <div>
+          <span className="font-medium text-muted-foreground">Phone:</span>
+          <p>{customer.phone || '-'}</p>
+        </div>
+        <div>
+          <span className="font-medium text-muted-foreground">Company:</span>
+          <p>{customer.company_name || '-'}</p>
+        </div>
+        <div>
+          <span className="font-medium text-muted-foreground">Tax ID:</span>
+          <p>{customer.tax_id || '-'}</p>
+        </div>
+        <div>
+          <span className="font-medium text-muted-foreground">Billing Address:</span>
+          <p className="whitespace-pre-line">{customer.billing_address || '-'}</p>
+        </div>
+        <div>
+          <span className="font-medium text-muted-foreground">Shipping Address:</span>
+          <p className="whitespace-pre-line">{customer.shipping_address || '-'}</p>
+        </div>
+      </div>
+
+      {/* Account Summary */}
+      {account && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Lifetime Value</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatCurrency(account.lifetime_value)}</div>
+              <p className="text-xs text-muted-foreground">{account.invoice_count} invoices</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Open Balance</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatCurrency(account.open_balance)}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Available Credit</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {account.available_credit === null ? 'No limit' : formatCurrency(account.available_credit)}
+              </div>
+              {customer.credit_limit !== null && (
+                <p className="text-xs text-muted-foreground">of {formatCurrency(customer.credit_limit)}</p>
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Last Purchase</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-lg font-bold">{formatDate(account.last_purchase_at)}</div>
+              <p className="text-xs text-muted-foreground">Since {formatDate(account.first_purchase_at)}</p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Recent Invoices */}
+      {account && (
+        <div className="space-y-2">
+          <h3 className="font-semibold">Recent Invoices</h3>
+          {account.recent_invoices.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No invoices for this customer yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Paid</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {account.recent_invoices.map((invoice) => (
+                  <TableRow key={invoice.id}>
+                    <TableCell className="font-medium">{invoice.invoice_number}</TableCell>
+                    <TableCell>{formatDate(invoice.created_at)}</TableCell>
+                    <TableCell>
+                      <Badge variant={invoice.payment_status === 'PAID' ? 'default' : 'secondary'}>
+                        {invoice.payment_status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(invoice.total_amount)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(invoice.amount_paid)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      )}
+
+      {/* Merge Duplicates */}
+      <div className="space-y-2 border-t pt-4">
+        <h3 className="font-semibold">Merge Duplicate</h3>
+        <p className="text-sm text-muted-foreground">
+          Moves the duplicate's invoices onto this customer and removes the duplicate
+        </p>
+        <div className="flex gap-2">
+          <Input
+            placeholder="Search by name, email or phone..."
+            value={duplicateSearch}
+            onChange={(e) => setDuplicateSearch(e.target.value)}
+            onKeyPress={(e) => e.key === 'Enter' && handleDuplicateSearch()}
+          />
+          <Button variant="outline" onClick={handleDuplicateSearch} disabled={duplicateSearch.trim().length < 2}>
+            <Search className="h-4 w-4" />
+          </Button>
+        </div>
+        {duplicates.map((duplicate) => (
+          <div key={duplicate.id} className="flex items-center justify-between rounded-lg border p-3 text-sm">
+            <div>
+              <p className="font-medium">{duplicate.name}</p>
+              <p className="text-muted-foreground">
+                {[duplicate.email, duplicate.phone].filter(Boolean).join(' · ') || 'No contact details'}
+              </p>
+            </div>
+            <Button size="sm" variant="outline" onClick={() => handleMerge(duplicate)} disabled={merging}>
+              <GitMerge className="mr-2 h-4 w-4" />
+              Merge
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={onClose}>
+          Close
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,352 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { customersApi } from '@/lib/api/customers';
+import { Customer, CreateCustomerRequest, UpdateCustomerRequest } from '@/types/customers';
+import { FormMode } from '@/types/inventory';
+
+// Form validation schema
+const customerSchema = z.object({
+  name: z.string()
+    .min(1, 'Customer name is required')
+    .max(100, 'Customer name cannot exceed 100 characters')
+    .trim(),
+  email: z.string()
+    .email('Please enter a valid email address')
+    .max(200, 'Email cannot exceed 200 characters')
+    .optional()
+    .or(z.literal('')),
+  phone: z.string()
+    .max(50, 'Phone cannot exceed 50 characters')
+    .optional()
+    .or(z.literal('')),
+  company_name: z.string()
+    .max(100, 'Company name cannot exceed 100 characters')
+    .optional()
+    .or(z.literal('')),
+  tax_id: z.string()
+    .max(50, 'Tax ID cannot exceed 50 characters')
+    .optional()
+    .or(z.literal('')),
+  billing_address: z.string()
+    .max(500, 'Address cannot exceed 500 characters')
+    .optional()
+    .or(z.literal('')),
+  shipping_address: z.string()
+    .max(500, 'Address cannot exceed 500 characters')
+    .optional()
+    .or(z.literal('')),
+  credit_limit: z.string()
+    .refine(value => value === '' || (!isNaN(Number(value)) && Number(value) >= 0), 'Credit limit must be a positive amount')
+    .optional(),
+  notes: z.string()
+    .max(1000, 'Notes cannot exceed 1000 characters')
+    .optional()
+    .or(z.literal('')),
+  is_active: z.boolean().default(true)
+});
+
+type CustomerFormData = z.infer<typeof customerSchema>;
+
+interface CustomerFormProps {
+  mode: FormMode;
+  customer?: Customer | null;
+  onSubmit: (data: CreateCustomerRequest | UpdateCustomerRequest) => void;
+  onCancel: () => void;
+}
+
+const emptyValues: CustomerFormData = {
+  name: '',
+  email: '',
+  phone: '',
+  company_name: '',
+  tax_id: '',
+  billing_address: '',
+  shipping_address: '',
+  credit_limit: '',
+  notes: '',
+  is_active: true
+};
+
+export function CustomerForm({ mode, customer, onSubmit, onCancel }: CustomerFormProps) {
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<CustomerFormData>({
+    resolver: zodResolver(customerSchema),
+    defaultValues: emptyValues
+  });
+
+  // Reset form when customer changes
+  useEffect(() => {
+    if (customer && (mode === 'edit' || mode === 'view')) {
+      form.reset({
+        name: customer.name,
+        email: customer.email || '',
+        phone: customer.phone || '',
+        company_name: customer.company_name || '',
+        tax_id: customer.tax_id || '',
+        billing_address: customer.billing_address || '',
+        shipping_address: customer.shipping_address || '',
+        credit_limit: customer.credit_limit !== null ? parseFloat(customer.credit_limit).toString() : '',
+        notes: customer.notes || '',
+        is_active: customer.is_active
+      });
+    } else if (mode === 'create') {
+      form.reset(emptyValues);
+    }
+  }, [customer, mode, form]);
+
+  const handleSubmit = async (data: CustomerFormData) => {
+    if (mode === 'view') return;
+
+    setIsSubmitting(true);
+
+    try {
+      const payload = {
+        name: data.name.trim(),
+        email: data.email?.trim() || undefined,
+        phone: data.phone?.trim() || undefined,
+        company_name: data.company_name?.trim() || undefined,
+        tax_id: data.tax_id?.trim() || undefined,
+        billing_address: data.billing_address?.trim() || undefined,
+        shipping_address: data.shipping_address?.trim() || undefined,
+        credit_limit: data.credit_limit ? Number(data.credit_limit) : undefined,
+        notes: data.notes?.trim() || undefined,
+        is_active: data.is_active
+      };
+
+      if (mode === 'create') {
+        await customersApi.createCustomer(payload as CreateCustomerRequest);
+        toast({
+          title: 'Success',
+          description: 'Customer created successfully'
+        });
+      } else if (mode === 'edit' && customer) {
+        await customersApi.updateCustomer(customer.id, payload as UpdateCustomerRequest);
+        toast({
+          title: 'Success',
+          description: 'Customer updated successfully'
+        });
+      }
+
+      onSubmit(payload);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || `Failed to ${mode} customer`,
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const isReadOnly = mode === 'view';
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        {/* Name Field */}
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name *</FormLabel>
+              <FormControl>
+                <Input placeholder="Enter customer name" disabled={isReadOnly} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Contact Fields */}
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Email</FormLabel>
+                <FormControl>
+                  <Input type="email" placeholder="customer@example.com" disabled={isReadOnly} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="phone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Phone</FormLabel>
+                <FormControl>
+                  <Input placeholder="+1 555 010 2030" disabled={isReadOnly} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* Company Fields */}
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="company_name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Company</FormLabel>
+                <FormControl>
+                  <Input placeholder="Company name" disabled={isReadOnly} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="tax_id"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Tax ID</FormLabel>
+                <FormControl>
+                  <Input placeholder="Tax registration number" disabled={isReadOnly} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* Address Fields */}
+        <FormField
+          control={form.control}
+          name="billing_address"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Billing Address</FormLabel>
+              <FormControl>
+                <Textarea rows={2} disabled={isReadOnly} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="shipping_address"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Shipping Address</FormLabel>
+              <FormControl>
+                <Textarea rows={2} disabled={isReadOnly} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Credit Limit Field */}
+        <FormField
+          control={form.control}
+          name="credit_limit"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Credit Limit</FormLabel>
+              <FormControl>
+                <Input type="number" min="0" step="0.01" placeholder="No limit" disabled={isReadOnly} {...field} />
+              </FormControl>
+              <FormDescription>
+                Unpaid invoices past this amount are rejected; leave empty for no limit
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Notes Field */}
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes</FormLabel>
+              <FormControl>
+                <Textarea rows={2} disabled={isReadOnly} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Active Status Field */}
+        <FormField
+          control={form.control}
+          name="is_active"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+              <div className="space-y-0.5">
+                <FormLabel className="text-base">
+                  Active Status
+                </FormLabel>
+                <FormDescription>
+                  {field.value
+                    ? 'This customer can be selected on new invoices'
+                    : 'This customer is inactive and cannot be invoiced'
+                  }
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                  disabled={isReadOnly}
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        {/* Form Actions */}
+        <div className="flex justify-end gap-3 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isSubmitting}
+          >
+            {mode === 'view' ? 'Close' : 'Cancel'}
+          </Button>
+          {mode !== 'view' && (
+            <Button
+              type="submit"
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                  {mode === 'create' ? 'Creating...' : 'Updating...'}
+                </>
+              ) : (
+                mode === 'create' ? 'Create Customer' : 'Update Customer'
+              )}
+            </Button>
+          )}
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,353 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Plus, Search, Edit, Trash2, Eye, Link2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { customersApi } from '@/lib/api/customers';
+import { Customer, CustomerFilters } from '@/types/customers';
+import { FormMode } from '@/types/inventory';
+import { CustomerForm } from './_components/CustomerForm';
+import { CustomerAccountView } from './_components/CustomerAccountView';
+
+interface CustomerModalState {
+  isOpen: boolean;
+  mode: FormMode;
+  selectedItem: Customer | null;
+}
+
+export default function CustomersPage() {
+  const { toast } = useToast();
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [filters, setFilters] = useState<CustomerFilters>({
+    page: 1,
+    limit: 10
+  });
+  const [modalState, setModalState] = useState<CustomerModalState>({
+    isOpen: false,
+    mode: 'create',
+    selectedItem: null
+  });
+  const [searchTerm, setSearchTerm] = useState('');
+  const [linking, setLinking] = useState(false);
+
+  // Load customers
+  const loadCustomers = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await customersApi.getCustomers(filters);
+      setCustomers(Array.isArray(response.data) ? response.data : []);
+      setTotal(response.total || 0);
+    } catch (error: any) {
+      console.error('Customers API Error:', error);
+      setCustomers([]);
+      setError(error.message || 'Failed to load customers');
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to load customers',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Handle search
+  const handleSearch = () => {
+    setFilters(prev => ({
+      ...prev,
+      search: searchTerm || undefined,
+      page: 1
+    }));
+  };
+
+  // Open the form or the account view for a customer
+  const openModal = (mode: FormMode, customer: Customer | null = null) => {
+    setModalState({
+      isOpen: true,
+      mode,
+      selectedItem: customer
+    });
+  };
+
+  // Handle delete customer
+  const handleDelete = async (customer: Customer) => {
+    try {
+      await customersApi.deleteCustomer(customer.id);
+      toast({
+        title: 'Success',
+        description: 'Customer deleted successfully'
+      });
+      loadCustomers();
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete customer',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  // Link invoices that only have free-text contact details to customer accounts
+  const handleLinkInvoices = async () => {
+    setLinking(true);
+    try {
+      const result = await customersApi.linkInvoices();
+      toast({
+        title: 'Invoices linked',
+        description: `${result.invoices_linked} invoices linked, ${result.customers_created} customers created`
+      });
+      loadCustomers();
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to link invoices',
+        variant: 'destructive'
+      });
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  // Handle form submit
+  const handleFormSubmit = async () => {
+    setModalState(prev => ({ ...prev, isOpen: false }));
+    await loadCustomers();
+  };
+
+  // Handle pagination
+  const handlePageChange = (newPage: number) => {
+    setFilters(prev => ({ ...prev, page: newPage }));
+  };
+
+  // Load customers when filters change
+  useEffect(() => {
+    loadCustomers();
+  }, [filters]);
+
+  // Format currency
+  const formatCurrency = (amount: string | null): string => {
+    if (amount === null) return 'No limit';
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(parseFloat(amount));
+  };
+
+  const closeModal = () => setModalState(prev => ({ ...prev, isOpen: false }));
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Customers</h1>
+          <p className="text-muted-foreground">
+            Manage customer accounts, credit limits and purchase history
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleLinkInvoices} disabled={linking}>
+            <Link2 className="mr-2 h-4 w-4" />
+            {linking ? 'Linking...' : 'Link Invoices'}
+          </Button>
+          <Button onClick={() => openModal('create')}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Customer
+          </Button>
+        </div>
+      </div>
+
+      {/* Search */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Search</CardTitle>
+          <CardDescription>
+            Find customers by name, email, phone, company or tax ID
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex gap-4 items-end">
+            <div className="flex-1">
+              <Input
+                placeholder="Search customers..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                onKeyPress={(e) => e.key === 'Enter' && handleSearch()}
+              />
+            </div>
+            <Button onClick={handleSearch}>
+              <Search className="mr-2 h-4 w-4" />
+              Search
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Customers Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Customers ({total})</CardTitle>
+          <CardDescription>
+            Open a customer to see their lifetime value and open balance
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : error ? (
+            <div className="text-center py-8 text-destructive">
+              {error}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Phone</TableHead>
+                    <TableHead>Company</TableHead>
+                    <TableHead>Credit Limit</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {customers.map((customer) => (
+                    <TableRow key={customer.id}>
+                      <TableCell className="font-medium">{customer.name}</TableCell>
+                      <TableCell>{customer.email || '-'}</TableCell>
+                      <TableCell>{customer.phone || '-'}</TableCell>
+                      <TableCell>{customer.company_name || '-'}</TableCell>
+                      <TableCell>{formatCurrency(customer.credit_limit)}</TableCell>
+                      <TableCell>
+                        <Badge variant={customer.is_active ? 'default' : 'secondary'}>
+                          {customer.is_active ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openModal('view', customer)}
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openModal('edit', customer)}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="sm">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete Customer</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Are you sure you want to delete "{customer.name}"? Their invoices are kept.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => handleDelete(customer)}
+                                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                >
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {/* Pagination */}
+              {total > filters.limit! && (
+                <div className="flex justify-between items-center">
+                  <div className="text-sm text-muted-foreground">
+                    Showing {((filters.page! - 1) * filters.limit!) + 1} to {Math.min(filters.page! * filters.limit!, total)} of {total} customers
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={filters.page === 1}
+                      onClick={() => handlePageChange(filters.page! - 1)}
+                    >
+                      Previous
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={filters.page! * filters.limit! >= total}
+                      onClick={() => handlePageChange(filters.page! + 1)}
+                    >
+                      Next
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Customer Form / Account Modal */}
+      <Dialog open={modalState.isOpen} onOpenChange={(open) => setModalState(prev => ({ ...prev, isOpen: open }))}>
+        <DialogContent className={modalState.mode === 'view' ? 'max-w-3xl max-h-[90vh] overflow-y-auto' : 'max-w-lg max-h-[90vh] overflow-y-auto'}>
+          <DialogHeader>
+            <DialogTitle>
+              {modalState.mode === 'create' && 'Create Customer'}
+              {modalState.mode === 'edit' && 'Edit Customer'}
+              {modalState.mode === 'view' && modalState.selectedItem?.name}
+            </DialogTitle>
+            <DialogDescription>
+              {modalState.mode === 'create' && 'Add a new customer account'}
+              {modalState.mode === 'edit' && 'Update customer information'}
+              {modalState.mode === 'view' && 'Customer account'}
+            </DialogDescription>
+          </DialogHeader>
+          {modalState.mode === 'view' && modalState.selectedItem ? (
+            <CustomerAccountView
+              customer={modalState.selectedItem}
+              onMerged={loadCustomers}
+              onClose={closeModal}
+            />
+          ) : (
+            <CustomerForm
+              mode={modalState.mode}
+              customer={modalState.selectedItem}
+              onSubmit={handleFormSubmit}
+              onCancel={closeModal}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -11,9 +11,9 @@ import {
   ShoppingCart,
   Shield,
   TrendingUp,
-  Activity,
-  Calendar,
-  Users,
+  AlertTriangle,
+  DollarSign,
+  Receipt,
   Star,
   ArrowRight,
   Zap
@@ -22,15 +22,48 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { ROUTES } from "@/constants/routes";
+import { analyticsApi } from "@/lib/api/analytics";
+import { AnalyticsOverview } from "@/types/analytics";
+import { DateRange, DateRangeSelector, lastDays } from "@/components/dashboard/DateRangeSelector";
 import hackLog from "@/lib/logger";
 
+// Format currency
+const formatCurrency = (amount: number): string => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(amount);
+};
+
 export default function DashboardPage() {
+  const [range, setRange] = React.useState<DateRange>(() => lastDays(30));
+  const [overview, setOverview] = React.useState<AnalyticsOverview | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
   React.useEffect(() => {
     hackLog.componentMount('DashboardPage', {
       authRemoved: true
     });
   }, []);
 
+  React.useEffect(() => {
+    let cancelled = false;
+    setError(null);
+
+    analyticsApi.getOverview(range)
+      .then(result => !cancelled && setOverview(result))
+      .catch((error: any) => {
+        if (cancelled) return;
+        console.error('Analytics API Error:', error);
+        setOverview(null);
+        setError(error.message || 'Failed to load figures');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [range]);
+
   const features = [
     {
       title: "Analytics Dashboard",
@@ -84,10 +117,15 @@ export default function DashboardPage() {
   ];
 
   const stats = [
-    { label: "Total Features", value: "5+", icon: Zap, color: "text-blue-600" },
-    { label: "Pages Built", value: "12+", icon: Activity, color: "text-green-600" },
-    { label: "Components", value: "50+", icon: Package, color: "text-purple-600" },
-    { label: "Last Updated", value: "Today", icon: Calendar, color: "text-orange-600" }
+    { label: "Net Sales", value: overview ? formatCurrency(overview.net_sales) : "—", icon: DollarSign, color: "text-blue-600" },
+    { label: "Invoices", value: overview ? overview.invoice_count.toLocaleString() : "—", icon: Receipt, color: "text-green-600" },
+    { label: "Stock Value", value: overview ? formatCurrency(overview.stock_value) : "—", icon: Package, color: "text-purple-600" },
+    {
+      label: overview ? `Low Stock (${overview.out_of_stock_count} out)` : "Low Stock",
+      value: overview ? overview.low_stock_count.toLocaleString() : "—",
+      icon: AlertTriangle,
+      color: "text-orange-600"
+    }
   ];
 
   return (
@@ -108,6 +146,15 @@ export default function DashboardPage() {
           </div>
 
           {/* Stats Overview */}
+          <div className="mb-4 flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <h2 className="text-2xl font-bold text-foreground">At a Glance</h2>
+              <p className="text-sm text-muted-foreground">
+                {error ?? "Sales for the selected period, with stock as it stands today"}
+              </p>
+            </div>
+            <DateRangeSelector value={range} onChange={setRange} />
+          </div>
           <div className="mb-8 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
             {stats.map((stat, index) => (
               <motion.div
@@ -0,0 +1,245 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { purchaseOrdersApi } from '@/lib/api/purchase-orders';
+import { supplierBillsApi } from '@/lib/api/supplier-bills';
+import { PurchaseOrder, PurchaseOrderStatus } from '@/types/purchase-orders';
+import { ThreeWayMatchLine } from '@/types/supplier-bills';
+
+interface BillLine {
+  purchase_order_item_id: string;
+  product_name: string;
+  sku: string;
+  match: ThreeWayMatchLine;
+  quantity: string;
+  unitCost: string;
+}
+
+interface SupplierBillFormProps {
+  onSubmit: () => void;
+  onCancel: () => void;
+}
+
+export function SupplierBillForm({ onSubmit, onCancel }: SupplierBillFormProps) {
+  const { toast } = useToast();
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [orderId, setOrderId] = useState('');
+  const [lines, setLines] = useState<BillLine[]>([]);
+  const [billNumber, setBillNumber] = useState('');
+  const [billDate, setBillDate] = useState(new Date().toISOString().slice(0, 10));
+  const [dueDate, setDueDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [loadingLines, setLoadingLines] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Orders that can still be billed
+  useEffect(() => {
+    purchaseOrdersApi.getPurchaseOrders({ page: 1, limit: 100 })
+      .then(response => setOrders((response.data || []).filter(order => order.status !== PurchaseOrderStatus.CANCELLED)))
+      .catch((error: any) => toast({
+        title: 'Error',
+        description: error.message || 'Failed to load purchase orders',
+        variant: 'destructive'
+      }));
+  }, []);
+
+  // Start each line at what has been received but not billed yet, at the ordered cost
+  const handleOrderChange = async (id: string) => {
+    setOrderId(id);
+    setLines([]);
+    setLoadingLines(true);
+    try {
+      const [order, match] = await Promise.all([
+        purchaseOrdersApi.getPurchaseOrderById(id),
+        supplierBillsApi.getThreeWayMatch(id)
+      ]);
+      const matchByItem = new Map(match.lines.map(line => [line.purchase_order_item_id, line]));
+      setLines((order.items || []).flatMap(item => {
+        const matchLine = matchByItem.get(item.id);
+        if (!matchLine) return [];
+        return [{
+          purchase_order_item_id: item.id,
+          product_name: item.product.name,
+          sku: item.product.sku,
+          match: matchLine,
+          quantity: Math.max(matchLine.quantity_received - matchLine.quantity_billed, 0).toString(),
+          unitCost: matchLine.ordered_unit_cost.toFixed(2)
+        }];
+      }));
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to load purchase order lines',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoadingLines(false);
+    }
+  };
+
+  const updateLine = (index: number, changes: Partial<BillLine>) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  // Mirrors the server's match so variances show before the bill is saved
+  const lineVariance = (line: BillLine): string | null => {
+    const quantity = parseFloat(line.quantity) || 0;
+    if (quantity <= 0) return null;
+    if (Math.round((line.match.quantity_billed + quantity) * 1000) > Math.round(line.match.quantity_received * 1000)) return 'Over-billed';
+    if ((parseFloat(line.unitCost) || 0) !== line.match.ordered_unit_cost) return 'Price differs';
+    return null;
+  };
+
+  const billedLines = lines.filter(line => (parseFloat(line.quantity) || 0) > 0);
+  const canSubmit = !!orderId && billNumber.trim().length > 0 && !!billDate && billedLines.length > 0;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+
+    setSubmitting(true);
+    try {
+      const bill = await supplierBillsApi.createSupplierBill({
+        purchase_order_id: orderId,
+        bill_number: billNumber.trim(),
+        bill_date: billDate,
+        due_date: dueDate || undefined,
+        notes: notes.trim() || undefined,
+        items: billedLines.map(line => ({
+          purchase_order_item_id: line.purchase_order_item_id,
+          quantity_billed: parseFloat(line.quantity),
+          unit_cost: parseFloat(line.unitCost) || 0
+        }))
+      });
+
+      toast({
+        title: bill.match_status === 'VARIANCE' ? 'Bill recorded with variances' : 'Success',
+        description: bill.match_status === 'VARIANCE'
+          ? `${bill.bill_number} does not match the purchase order; review it before paying`
+          : `${bill.bill_number} matches the purchase order`,
+        variant: bill.match_status === 'VARIANCE' ? 'destructive' : undefined
+      });
+      onSubmit();
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to record supplier bill',
+        variant: 'destructive'
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <Label>Purchase order</Label>
+        <Select value={orderId} onValueChange={handleOrderChange}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select a purchase order" />
+          </SelectTrigger>
+          <SelectContent>
+            {orders.map(order => (
+              <SelectItem key={order.id} value={order.id}>
+                {order.order_number} · {order.supplier?.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="bill-number">Supplier invoice number</Label>
+          <Input id="bill-number" value={billNumber} onChange={(e) => setBillNumber(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="bill-date">Bill date</Label>
+          <Input id="bill-date" type="date" value={billDate} onChange={(e) => setBillDate(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="due-date">Due date</Label>
+          <Input id="due-date" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+        </div>
+      </div>
+
+      {loadingLines ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        </div>
+      ) : lines.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead className="text-right">Ordered</TableHead>
+              <TableHead className="text-right">Received</TableHead>
+              <TableHead className="text-right">Billed</TableHead>
+              <TableHead className="w-24">Qty</TableHead>
+              <TableHead className="w-28">Unit cost</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {lines.map((line, index) => {
+              const variance = lineVariance(line);
+              return (
+                <TableRow key={line.purchase_order_item_id}>
+                  <TableCell>
+                    <div className="font-medium">{line.product_name}</div>
+                    <div className="text-xs text-muted-foreground">{line.sku}</div>
+                  </TableCell>
+                  <TableCell className="text-right">{line.match.quantity_ordered}</TableCell>
+                  <TableCell className="text-right">{line.match.quantity_received}</TableCell>
+                  <TableCell className="text-right">{line.match.quantity_billed}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.001"
+                      value={line.quantity}
+                      onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={line.unitCost}
+                      onChange={(e) => updateLine(index, { unitCost: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    {variance && <Badge variant="destructive">{variance}</Badge>}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="space-y-1">
+        <Label htmlFor="bill-notes">Notes</Label>
+        <Input id="bill-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel} disabled={submitting}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit} disabled={!canSubmit || submitting}>
+          {submitting ? 'Saving...' : 'Record Bill'}
+        </Button>
+      </div>
+    </div>
+  );
+}
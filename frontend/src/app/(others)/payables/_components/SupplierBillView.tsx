@@ -0,0 +1,263 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Ban } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { supplierBillsApi } from '@/lib/api/supplier-bills';
+import { SupplierBillDetail } from '@/types/supplier-bills';
+import { PaymentMethod, PAYMENT_METHOD_LABELS } from '@/types/payments';
+
+interface SupplierBillViewProps {
+  billId: string;
+  onChanged: () => void;
+}
+
+export function SupplierBillView({ billId, onChanged }: SupplierBillViewProps) {
+  const { toast } = useToast();
+  const [bill, setBill] = useState<SupplierBillDetail | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [method, setMethod] = useState<PaymentMethod>('BANK_TRANSFER');
+  const [amount, setAmount] = useState('');
+  const [reference, setReference] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const balanceDue = bill ? Math.round((parseFloat(bill.total_amount) - parseFloat(bill.amount_paid)) * 100) / 100 : 0;
+
+  const showBill = (detail: SupplierBillDetail) => {
+    setBill(detail);
+    const balance = parseFloat(detail.total_amount) - parseFloat(detail.amount_paid);
+    setAmount(balance > 0 ? balance.toFixed(2) : '');
+    setReference('');
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    supplierBillsApi.getSupplierBillById(billId)
+      .then(showBill)
+      .catch((error: any) => toast({
+        title: 'Error',
+        description: error.message || 'Failed to load supplier bill',
+        variant: 'destructive'
+      }))
+      .finally(() => setLoading(false));
+  }, [billId]);
+
+  const handlePay = async () => {
+    const parsedAmount = parseFloat(amount) || 0;
+    if (!bill || parsedAmount <= 0) return;
+
+    setSubmitting(true);
+    try {
+      const updated = await supplierBillsApi.recordSupplierPayment(bill.id, {
+        payment_method: method,
+        amount: parsedAmount,
+        reference: reference.trim() || undefined
+      });
+      showBill(updated);
+      toast({
+        title: 'Success',
+        description: `Payment recorded; ${updated.bill_number} is now ${updated.status}`
+      });
+      onChanged();
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to record supplier payment',
+        variant: 'destructive'
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancelBill = async () => {
+    if (!bill) return;
+
+    setSubmitting(true);
+    try {
+      showBill(await supplierBillsApi.cancelSupplierBill(bill.id));
+      toast({
+        title: 'Success',
+        description: 'Supplier bill cancelled'
+      });
+      onChanged();
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to cancel supplier bill',
+        variant: 'destructive'
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Format currency
+  const formatCurrency = (value: number | string): string => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(typeof value === 'string' ? parseFloat(value) : value);
+  };
+
+  if (loading || !bill) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        <div>
+          <div className="text-muted-foreground">Supplier</div>
+          <div className="font-medium">{bill.supplier_name}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Purchase order</div>
+          <div className="font-mono">{bill.order_number}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Bill date</div>
+          <div>{bill.bill_date}{bill.due_date && ` · due ${bill.due_date}`}</div>
+        </div>
+        <div className="flex gap-2 items-start">
+          <Badge variant={bill.match_status === 'MATCHED' ? 'default' : 'destructive'}>{bill.match_status}</Badge>
+          <Badge variant="secondary">{bill.status}</Badge>
+        </div>
+      </div>
+
+      {/* Lines */}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Product</TableHead>
+            <TableHead className="text-right">Qty</TableHead>
+            <TableHead className="text-right">Unit cost</TableHead>
+            <TableHead className="text-right">Tax</TableHead>
+            <TableHead className="text-right">Amount</TableHead>
+            <TableHead>Variance</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {bill.items.map(item => {
+            const priceVariance = parseFloat(item.price_variance);
+            return (
+              <TableRow key={item.id}>
+                <TableCell>
+                  <div className="font-medium">{item.product?.name}</div>
+                  <div className="text-xs text-muted-foreground">{item.product?.sku}</div>
+                </TableCell>
+                <TableCell className="text-right">{item.quantity_billed}</TableCell>
+                <TableCell className="text-right">{formatCurrency(item.unit_cost)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(item.tax_amount)}</TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(parseFloat(item.taxable_amount) + parseFloat(item.tax_amount))}
+                </TableCell>
+                <TableCell className="space-x-1">
+                  {item.quantity_variance > 0 && <Badge variant="destructive">{item.quantity_variance} over received</Badge>}
+                  {priceVariance !== 0 && (
+                    <Badge variant="destructive">{priceVariance > 0 ? '+' : ''}{priceVariance.toFixed(2)} per unit</Badge>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      <div className="space-y-1 text-sm text-right">
+        <div>Subtotal {formatCurrency(bill.subtotal)}</div>
+        <div>Tax {formatCurrency(bill.tax_amount)}</div>
+        <div className="font-semibold">Total {formatCurrency(bill.total_amount)}</div>
+        <div>Paid {formatCurrency(bill.amount_paid)}</div>
+        <div className="font-semibold">Balance due {formatCurrency(balanceDue)}</div>
+      </div>
+
+      {/* Payments */}
+      {bill.payments.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Paid</TableHead>
+              <TableHead>Method</TableHead>
+              <TableHead>Reference</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {bill.payments.map(payment => (
+              <TableRow key={payment.id}>
+                <TableCell>{new Date(payment.paid_at).toLocaleDateString()}</TableCell>
+                <TableCell>{PAYMENT_METHOD_LABELS[payment.payment_method]}</TableCell>
+                <TableCell>{payment.reference || '-'}</TableCell>
+                <TableCell className="text-right">{formatCurrency(payment.amount)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {/* Pay / Cancel */}
+      {bill.status !== 'CANCELLED' && balanceDue > 0 && (
+        <div className="flex gap-2 items-end">
+          <div className="space-y-1">
+            <Label>Method</Label>
+            <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(key => (
+                  <SelectItem key={key} value={key}>{PAYMENT_METHOD_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="supplier-payment-amount">Amount</Label>
+            <Input
+              id="supplier-payment-amount"
+              type="number"
+              min="0.01"
+              step="0.01"
+              className="w-32"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1 flex-1">
+            <Label htmlFor="supplier-payment-reference">Reference</Label>
+            <Input
+              id="supplier-payment-reference"
+              placeholder="Transfer or cheque number"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+            />
+          </div>
+          <Button onClick={handlePay} disabled={submitting || !(parseFloat(amount) > 0)}>
+            Pay
+          </Button>
+        </div>
+      )}
+
+      {bill.status === 'OPEN' && parseFloat(bill.amount_paid) === 0 && (
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={handleCancelBill} disabled={submitting}>
+            <Ban className="mr-2 h-4 w-4" />
+            Cancel Bill
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
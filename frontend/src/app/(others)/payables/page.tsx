@@ -0,0 +1,419 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { ChevronDown, ChevronRight, Plus, RefreshCw, Eye } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { supplierBillsApi } from '@/lib/api/supplier-bills';
+import { ApAging, ApAgingBuckets, SupplierBill, SupplierBillFilters, BillMatchStatus, SupplierBillStatus } from '@/types/supplier-bills';
+import { SupplierBillForm } from './_components/SupplierBillForm';
+import { SupplierBillView } from './_components/SupplierBillView';
+
+const BUCKET_COLUMNS: { key: keyof ApAgingBuckets; label: string }[] = [
+  { key: 'current', label: '0–30 days' },
+  { key: 'days_31_60', label: '31–60 days' },
+  { key: 'days_61_90', label: '61–90 days' },
+  { key: 'days_over_90', label: '90+ days' },
+  { key: 'total', label: 'Total' }
+];
+
+const ALL = 'ALL';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export default function PayablesPage() {
+  const { toast } = useToast();
+  const [asOf, setAsOf] = useState(today());
+  const [aging, setAging] = useState<ApAging | null>(null);
+  const [bills, setBills] = useState<SupplierBill[]>([]);
+  const [total, setTotal] = useState(0);
+  const [filters, setFilters] = useState<SupplierBillFilters>({
+    page: 1,
+    limit: 10
+  });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [creating, setCreating] = useState(false);
+  const [viewBillId, setViewBillId] = useState<string | null>(null);
+
+  // Load the aging report
+  const loadAging = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setAging(await supplierBillsApi.getApAging({ as_of: asOf }));
+    } catch (error: any) {
+      console.error('Payables API Error:', error);
+      setAging(null);
+      setError(error.message || 'Failed to load payables');
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to load payables',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Load supplier bills
+  const loadBills = async () => {
+    try {
+      const response = await supplierBillsApi.getSupplierBills(filters);
+      setBills(Array.isArray(response.data) ? response.data : []);
+      setTotal(response.total || 0);
+    } catch (error: any) {
+      setBills([]);
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to load supplier bills',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const reload = async () => {
+    await Promise.all([loadAging(), loadBills()]);
+  };
+
+  useEffect(() => {
+    loadAging();
+  }, [asOf]);
+
+  useEffect(() => {
+    loadBills();
+  }, [filters]);
+
+  const toggleExpanded = (supplierId: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(supplierId)) {
+        next.delete(supplierId);
+      } else {
+        next.add(supplierId);
+      }
+      return next;
+    });
+  };
+
+  const handleBillCreated = async () => {
+    setCreating(false);
+    await reload();
+  };
+
+  // Handle pagination
+  const handlePageChange = (newPage: number) => {
+    setFilters(prev => ({ ...prev, page: newPage }));
+  };
+
+  // Format currency
+  const formatCurrency = (amount: number | string): string => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(typeof amount === 'string' ? parseFloat(amount) : amount);
+  };
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Payables</h1>
+          <p className="text-muted-foreground">
+            Supplier bills matched against purchase orders, and what is still owed
+          </p>
+        </div>
+        <div className="flex gap-2 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="as-of">As of</Label>
+            <Input
+              id="as-of"
+              type="date"
+              value={asOf}
+              max={today()}
+              onChange={(e) => e.target.value && setAsOf(e.target.value)}
+            />
+          </div>
+          <Button variant="outline" onClick={reload} disabled={loading}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+          <Button onClick={() => setCreating(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Record Bill
+          </Button>
+        </div>
+      </div>
+
+      {/* Bucket Totals */}
+      {aging && (
+        <div className="grid gap-4 md:grid-cols-5">
+          {BUCKET_COLUMNS.map(({ key, label }) => (
+            <Card key={key}>
+              <CardHeader className="pb-2">
+                <CardDescription>{label}</CardDescription>
+                <CardTitle className="text-2xl">{formatCurrency(aging.totals[key])}</CardTitle>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Aging Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Accounts Payable Aging</CardTitle>
+          <CardDescription>
+            Bills are aged from their bill date; expand a supplier to see and pay its open bills
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : error ? (
+            <div className="text-center py-8 text-destructive">
+              {error}
+            </div>
+          ) : !aging || aging.suppliers.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Nothing owed to suppliers as of {asOf}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Supplier</TableHead>
+                  {BUCKET_COLUMNS.map(({ key, label }) => (
+                    <TableHead key={key} className="text-right">{label}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {aging.suppliers.map(supplier => {
+                  const isExpanded = expanded.has(supplier.supplier_id);
+                  return (
+                    <React.Fragment key={supplier.supplier_id}>
+                      <TableRow className="cursor-pointer" onClick={() => toggleExpanded(supplier.supplier_id)}>
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-2">
+                            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                            {supplier.supplier_name}
+                          </div>
+                        </TableCell>
+                        {BUCKET_COLUMNS.map(({ key }) => (
+                          <TableCell
+                            key={key}
+                            className={key === 'total' ? 'text-right font-semibold' : 'text-right'}
+                          >
+                            {supplier.buckets[key] ? formatCurrency(supplier.buckets[key]) : '-'}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                      {isExpanded && supplier.bills.map(bill => (
+                        <TableRow key={bill.id} className="bg-muted/50">
+                          <TableCell className="pl-10">
+                            <div className="font-mono text-sm">{bill.bill_number}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {bill.bill_date}{bill.due_date && ` · due ${bill.due_date}`} · {bill.days_outstanding} days
+                            </div>
+                          </TableCell>
+                          <TableCell colSpan={2} className="text-right text-sm text-muted-foreground">
+                            {formatCurrency(bill.amount_paid)} paid of {formatCurrency(bill.total_amount)}
+                          </TableCell>
+                          <TableCell colSpan={2} className="text-right font-medium">
+                            {formatCurrency(bill.balance_due)} due
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button size="sm" variant="outline" onClick={() => setViewBillId(bill.id)}>
+                              <Eye className="mr-2 h-4 w-4" />
+                              Open
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </React.Fragment>
+                  );
+                })}
+                <TableRow className="font-semibold">
+                  <TableCell>Total</TableCell>
+                  {BUCKET_COLUMNS.map(({ key }) => (
+                    <TableCell key={key} className="text-right">{formatCurrency(aging.totals[key])}</TableCell>
+                  ))}
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Bills */}
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-start">
+            <div>
+              <CardTitle>Supplier Bills ({total})</CardTitle>
+              <CardDescription>
+                Bills that do not match their purchase order are flagged as VARIANCE
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select
+                value={filters.match_status ?? ALL}
+                onValueChange={(value) => setFilters(prev => ({
+                  ...prev,
+                  match_status: value === ALL ? undefined : value as BillMatchStatus,
+                  page: 1
+                }))}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Any match</SelectItem>
+                  <SelectItem value="MATCHED">Matched</SelectItem>
+                  <SelectItem value="VARIANCE">Variance</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select
+                value={filters.status ?? ALL}
+                onValueChange={(value) => setFilters(prev => ({
+                  ...prev,
+                  status: value === ALL ? undefined : value as SupplierBillStatus,
+                  page: 1
+                }))}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Any status</SelectItem>
+                  <SelectItem value="OPEN">Open</SelectItem>
+                  <SelectItem value="PARTIAL">Partial</SelectItem>
+                  <SelectItem value="PAID">Paid</SelectItem>
+                  <SelectItem value="CANCELLED">Cancelled</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {bills.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No supplier bills found
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Bill</TableHead>
+                    <TableHead>Supplier</TableHead>
+                    <TableHead>Purchase Order</TableHead>
+                    <TableHead>Bill Date</TableHead>
+                    <TableHead>Match</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="text-right">Paid</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {bills.map(bill => (
+                    <TableRow key={bill.id}>
+                      <TableCell className="font-mono text-sm">{bill.bill_number}</TableCell>
+                      <TableCell>{bill.supplier_name}</TableCell>
+                      <TableCell className="font-mono text-sm">{bill.order_number}</TableCell>
+                      <TableCell>{bill.bill_date}</TableCell>
+                      <TableCell>
+                        <Badge variant={bill.match_status === 'MATCHED' ? 'default' : 'destructive'}>
+                          {bill.match_status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{bill.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(bill.total_amount)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(bill.amount_paid)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => setViewBillId(bill.id)}>
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {/* Pagination */}
+              {total > filters.limit! && (
+                <div className="flex justify-between items-center">
+                  <div className="text-sm text-muted-foreground">
+                    Showing {((filters.page! - 1) * filters.limit!) + 1} to {Math.min(filters.page! * filters.limit!, total)} of {total} bills
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={filters.page === 1}
+                      onClick={() => handlePageChange(filters.page! - 1)}
+                    >
+                      Previous
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={filters.page! * filters.limit! >= total}
+                      onClick={() => handlePageChange(filters.page! + 1)}
+                    >
+                      Next
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Record Bill */}
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Record Supplier Bill</DialogTitle>
+            <DialogDescription>
+              Enter the supplier&apos;s invoice against the purchase order lines it covers
+            </DialogDescription>
+          </DialogHeader>
+          {creating && (
+            <SupplierBillForm onSubmit={handleBillCreated} onCancel={() => setCreating(false)} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Bill Detail */}
+      <Dialog open={!!viewBillId} onOpenChange={(open) => !open && setViewBillId(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Supplier Bill</DialogTitle>
+            <DialogDescription>
+              Lines, variances against the purchase order and payments
+            </DialogDescription>
+          </DialogHeader>
+          {viewBillId && <SupplierBillView billId={viewBillId} onChanged={reload} />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
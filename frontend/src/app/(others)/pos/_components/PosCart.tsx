@@ -0,0 +1,135 @@
+'use client';
+
+import React from 'react';
+import { Minus, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { PosCartLine } from '@/types/sales-invoices';
+
+interface PosCartProps {
+  lines: PosCartLine[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+  onQuantityChange: (productId: string, quantity: number) => void;
+  onDiscountChange: (productId: string, discountPercent: number) => void;
+  onRemove: (productId: string) => void;
+  formatCurrency: (amount: number) => string;
+}
+
+export function lineGross(line: PosCartLine): number {
+  // Weighed items can sell in fractions of a unit, so round like the server does
+  return Math.round(line.unit_price * line.quantity * 100) / 100;
+}
+
+export function lineDiscount(line: PosCartLine): number {
+  return Math.round(lineGross(line) * line.discount_percent) / 100;
+}
+
+export function PosCart({
+  lines,
+  selectedIndex,
+  onSelect,
+  onQuantityChange,
+  onDiscountChange,
+  onRemove,
+  formatCurrency
+}: PosCartProps) {
+  if (lines.length === 0) {
+    return (
+      <div className="text-center py-16 text-muted-foreground">
+        Scan a barcode or type a SKU to start a sale
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-md border overflow-hidden">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Item</TableHead>
+            <TableHead className="text-right w-[110px]">Price</TableHead>
+            <TableHead className="w-[150px]">Qty</TableHead>
+            <TableHead className="w-[100px]">Disc %</TableHead>
+            <TableHead className="text-right w-[120px]">Total</TableHead>
+            <TableHead className="w-[50px]"></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {lines.map((line, index) => (
+            <TableRow
+              key={line.product_id}
+              onClick={() => onSelect(index)}
+              className={cn('cursor-pointer', index === selectedIndex && 'bg-muted')}
+            >
+              <TableCell>
+                <div className="font-medium">{line.name}</div>
+                <div className="text-sm text-muted-foreground">{line.sku}</div>
+              </TableCell>
+              <TableCell className="text-right">
+                {formatCurrency(line.unit_price)}
+                <span className="text-sm text-muted-foreground"> / {line.unit_code}</span>
+              </TableCell>
+              <TableCell>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="h-8 w-8"
+                    tabIndex={-1}
+                    onClick={() => onQuantityChange(line.product_id, line.quantity - 1)}
+                  >
+                    <Minus className="h-3 w-3" />
+                  </Button>
+                  <Input
+                    type="number"
+                    min={0.001}
+                    step="any"
+                    className="h-8 w-20 text-center"
+                    value={line.quantity}
+                    onChange={(e) => onQuantityChange(line.product_id, parseFloat(e.target.value) || 0)}
+                  />
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="h-8 w-8"
+                    tabIndex={-1}
+                    onClick={() => onQuantityChange(line.product_id, line.quantity + 1)}
+                  >
+                    <Plus className="h-3 w-3" />
+                  </Button>
+                </div>
+              </TableCell>
+              <TableCell>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  className="h-8"
+                  value={line.discount_percent}
+                  onChange={(e) => onDiscountChange(line.product_id, parseFloat(e.target.value) || 0)}
+                />
+              </TableCell>
+              <TableCell className="text-right font-medium">
+                {formatCurrency(lineGross(line) - lineDiscount(line))}
+              </TableCell>
+              <TableCell>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  tabIndex={-1}
+                  onClick={() => onRemove(line.product_id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
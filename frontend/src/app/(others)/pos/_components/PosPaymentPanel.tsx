@@ -0,0 +1,235 @@
+'use client';
+
+import React from 'react';
+import { Banknote, CreditCard, SplitSquareHorizontal, CheckCircle, TicketPercent, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { PosPaymentMethod } from '@/types/sales-invoices';
+
+export interface PosTotals {
+  subtotal: number;
+  promotions: number;
+  discount: number;
+  tax: number;
+  total: number;
+}
+
+interface PosPaymentPanelProps {
+  totals: PosTotals;
+  cartDiscount: string;
+  couponCode: string;
+  appliedCoupon: string | null;
+  applyingCoupon: boolean;
+  paymentMethod: PosPaymentMethod;
+  cashTendered: string;
+  cardAmount: string;
+  amountPaid: number;
+  changeDue: number;
+  canComplete: boolean;
+  submitting: boolean;
+  tenderedInputRef: React.RefObject<HTMLInputElement | null>;
+  onCartDiscountChange: (value: string) => void;
+  onCouponCodeChange: (value: string) => void;
+  onApplyCoupon: () => void;
+  onRemoveCoupon: () => void;
+  onPaymentMethodChange: (method: PosPaymentMethod) => void;
+  onCashTenderedChange: (value: string) => void;
+  onCardAmountChange: (value: string) => void;
+  onComplete: () => void;
+  formatCurrency: (amount: number) => string;
+}
+
+const PAYMENT_METHODS: { value: PosPaymentMethod; label: string; icon: React.ElementType }[] = [
+  { value: 'CASH', label: 'Cash', icon: Banknote },
+  { value: 'CARD', label: 'Card', icon: CreditCard },
+  { value: 'SPLIT', label: 'Split', icon: SplitSquareHorizontal }
+];
+
+export function PosPaymentPanel({
+  totals,
+  cartDiscount,
+  couponCode,
+  appliedCoupon,
+  applyingCoupon,
+  paymentMethod,
+  cashTendered,
+  cardAmount,
+  amountPaid,
+  changeDue,
+  canComplete,
+  submitting,
+  tenderedInputRef,
+  onCartDiscountChange,
+  onCouponCodeChange,
+  onApplyCoupon,
+  onRemoveCoupon,
+  onPaymentMethodChange,
+  onCashTenderedChange,
+  onCardAmountChange,
+  onComplete,
+  formatCurrency
+}: PosPaymentPanelProps) {
+  const balanceDue = Math.max(totals.total - amountPaid, 0);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">Payment</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Adjustments */}
+        <div className="space-y-1">
+          <Label htmlFor="pos-cart-discount">Order Discount ($)</Label>
+          <Input
+            id="pos-cart-discount"
+            type="number"
+            min={0}
+            step="0.01"
+            value={cartDiscount}
+            onChange={(e) => onCartDiscountChange(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="pos-coupon-code">Coupon Code</Label>
+          {appliedCoupon ? (
+            <div className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+              <span className="flex items-center gap-2 font-medium">
+                <TicketPercent className="h-4 w-4 text-green-600" />
+                {appliedCoupon}
+              </span>
+              <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={onRemoveCoupon}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <Input
+                id="pos-coupon-code"
+                value={couponCode}
+                onChange={(e) => onCouponCodeChange(e.target.value.toUpperCase())}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    onApplyCoupon();
+                  }
+                }}
+                autoComplete="off"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onApplyCoupon}
+                disabled={!couponCode.trim() || applyingCoupon}
+              >
+                {applyingCoupon ? 'Applying...' : 'Apply'}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Totals */}
+        <div className="space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Subtotal</span>
+            <span>{formatCurrency(totals.subtotal)}</span>
+          </div>
+          {totals.promotions > 0 && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Promotions</span>
+              <span className="text-green-600">-{formatCurrency(totals.promotions)}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Discount</span>
+            <span>-{formatCurrency(totals.discount)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Tax</span>
+            <span>{formatCurrency(totals.tax)}</span>
+          </div>
+          <Separator className="my-2" />
+          <div className="flex justify-between text-2xl font-bold">
+            <span>Total</span>
+            <span>{formatCurrency(totals.total)}</span>
+          </div>
+        </div>
+
+        {/* Payment method */}
+        <div className="grid grid-cols-3 gap-2">
+          {PAYMENT_METHODS.map(({ value, label, icon: Icon }) => (
+            <Button
+              key={value}
+              type="button"
+              variant={paymentMethod === value ? 'default' : 'outline'}
+              onClick={() => onPaymentMethodChange(value)}
+              className="gap-2"
+            >
+              <Icon className="h-4 w-4" />
+              {label}
+            </Button>
+          ))}
+        </div>
+
+        {paymentMethod !== 'CASH' && (
+          <div className="space-y-1">
+            <Label htmlFor="pos-card-amount">Card Amount</Label>
+            <Input
+              id="pos-card-amount"
+              ref={paymentMethod === 'CARD' ? tenderedInputRef : undefined}
+              type="number"
+              min={0}
+              step="0.01"
+              value={cardAmount}
+              onChange={(e) => onCardAmountChange(e.target.value)}
+            />
+          </div>
+        )}
+
+        {paymentMethod !== 'CARD' && (
+          <div className="space-y-1">
+            <Label htmlFor="pos-cash-tendered">Cash Tendered</Label>
+            <Input
+              id="pos-cash-tendered"
+              ref={tenderedInputRef}
+              type="number"
+              min={0}
+              step="0.01"
+              value={cashTendered}
+              onChange={(e) => onCashTenderedChange(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && canComplete) {
+                  e.preventDefault();
+                  onComplete();
+                }
+              }}
+            />
+          </div>
+        )}
+
+        <div className="rounded-md bg-muted p-3 space-y-1">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Balance Due</span>
+            <span className="font-medium">{formatCurrency(balanceDue)}</span>
+          </div>
+          <div className="flex justify-between text-lg font-semibold">
+            <span>Change Due</span>
+            <span className="text-green-600">{formatCurrency(changeDue)}</span>
+          </div>
+        </div>
+
+        <Button
+          className="w-full gap-2 h-12 text-lg"
+          onClick={onComplete}
+          disabled={!canComplete || submitting}
+        >
+          <CheckCircle className="h-5 w-5" />
+          {submitting ? 'Processing...' : 'Complete Sale (F9)'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
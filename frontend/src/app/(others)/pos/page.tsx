@@ -0,0 +1,673 @@
+'use client';
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { CreditCard, ScanBarcode, User, RotateCcw, CheckCircle, Printer, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { productsApi } from '@/lib/api/inventory';
+import { salesInvoicesApi } from '@/lib/api/sales-invoices';
+import { downloadBlob, printHtml } from '@/lib/utils';
+import { Product } from '@/types/inventory';
+import { PosCartLine, PosPaymentMethod, SalesInvoice, SalesInvoiceQuote } from '@/types/sales-invoices';
+import hackLog from '@/lib/logger';
+import { PosCart, lineDiscount } from './_components/PosCart';
+import { PosPaymentPanel, PosTotals } from './_components/PosPaymentPanel';
+
+// Scanning "3*SKU-001" adds three of that item, "1.25*SKU-002" adds 1.25 of its sales unit
+const QUANTITY_PREFIX = /^(\d+(?:\.\d{1,3})?)\*(.+)$/;
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const roundQuantity = (value: number): number => Math.round(value * 1000) / 1000;
+
+export default function PointOfSalePage() {
+  const { toast } = useToast();
+
+  const scanInputRef = useRef<HTMLInputElement>(null);
+  const tenderedInputRef = useRef<HTMLInputElement>(null);
+
+  // Sale state
+  const [scanValue, setScanValue] = useState('');
+  const [lookingUp, setLookingUp] = useState(false);
+  const [lines, setLines] = useState<PosCartLine[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(-1);
+  const [cartDiscount, setCartDiscount] = useState('');
+  const [couponCode, setCouponCode] = useState('');
+  const [appliedCoupon, setAppliedCoupon] = useState<string | null>(null);
+  const [applyingCoupon, setApplyingCoupon] = useState(false);
+  const [quote, setQuote] = useState<SalesInvoiceQuote | null>(null);
+  const [quoting, setQuoting] = useState(false);
+  const [quoteFailed, setQuoteFailed] = useState(false);
+  const [customerName, setCustomerName] = useState('');
+  const [customerPhone, setCustomerPhone] = useState('');
+
+  // Payment state
+  const [paymentMethod, setPaymentMethod] = useState<PosPaymentMethod>('CASH');
+  const [cashTendered, setCashTendered] = useState('');
+  const [cardAmount, setCardAmount] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [completedSale, setCompletedSale] = useState<{ invoice: SalesInvoice; change: number } | null>(null);
+
+  // Component mount logging
+  useEffect(() => {
+    hackLog.componentMount('PointOfSalePage', {
+      timestamp: new Date().toISOString()
+    });
+    scanInputRef.current?.focus();
+  }, []);
+
+  // The cashier's line discounts, then the order discount, capped at what is left after
+  // promotions on the last quote
+  const discountBase = quote ? roundCurrency(quote.subtotal - quote.promotion_amount) : Infinity;
+  const lineDiscounts = Math.min(roundCurrency(lines.reduce((sum, line) => sum + lineDiscount(line), 0)), discountBase);
+  const orderDiscount = Math.min(parseFloat(cartDiscount) || 0, discountBase - lineDiscounts);
+  const discount = roundCurrency(lineDiscounts + Math.max(orderDiscount, 0));
+
+  const quoteItems = useMemo(() => lines.map(line => ({
+    product_id: line.product_id,
+    unit_code: line.unit_code,
+    quantity: line.quantity,
+    unit_price: line.unit_price
+  })), [lines]);
+
+  // The server prices the sale whenever the cart, discount or coupon changes, so payment is
+  // taken against exactly the total the invoice will have
+  useEffect(() => {
+    if (quoteItems.length === 0) {
+      setQuote(null);
+      setQuoting(false);
+      setQuoteFailed(false);
+      return;
+    }
+
+    let cancelled = false;
+    setQuoting(true);
+    salesInvoicesApi.quoteSalesInvoice({
+      discount_amount: discount,
+      coupon_code: appliedCoupon ?? undefined,
+      items: quoteItems
+    })
+      .then(result => {
+        if (cancelled) return;
+        setQuote(result);
+        setQuoteFailed(false);
+      })
+      .catch((error: any) => {
+        if (cancelled) return;
+        if (appliedCoupon) {
+          // The cart no longer qualifies for the coupon; price it without
+          toast({
+            title: "Coupon removed",
+            description: error.message || `${appliedCoupon} no longer applies to this sale`,
+            variant: "destructive",
+          });
+          setAppliedCoupon(null);
+        } else {
+          setQuoteFailed(true);
+          toast({
+            title: "Could not price the sale",
+            description: error.message || "Failed to work out the sale total",
+            variant: "destructive",
+          });
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setQuoting(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [quoteItems, discount, appliedCoupon, toast]);
+
+  // Totals as the server quoted them: promotions come off each line first, then the
+  // cashier's discounts, all before tax
+  const totals: PosTotals = quote
+    ? {
+      subtotal: quote.subtotal,
+      promotions: quote.promotion_amount,
+      discount: roundCurrency(quote.discount_amount - quote.promotion_amount),
+      tax: quote.tax_amount,
+      total: quote.total_amount
+    }
+    : { subtotal: 0, promotions: 0, discount: 0, tax: 0, total: 0 };
+
+  // Card can only cover up to the total; change is always given in cash
+  const card = paymentMethod === 'CASH' ? 0 : parseFloat(cardAmount) || 0;
+  const cash = paymentMethod === 'CARD' ? 0 : parseFloat(cashTendered) || 0;
+  const amountPaid = roundCurrency(card + cash);
+  const changeDue = Math.max(roundCurrency(amountPaid - totals.total), 0);
+  const canComplete = lines.length > 0 && !!quote && !quoting && !quoteFailed
+    && card <= totals.total && amountPaid >= totals.total;
+
+  const formatCurrency = (amount: number): string => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(amount);
+  };
+
+  const focusScan = () => {
+    setTimeout(() => scanInputRef.current?.focus(), 0);
+  };
+
+  const focusTendered = () => {
+    setTimeout(() => {
+      tenderedInputRef.current?.focus();
+      tenderedInputRef.current?.select();
+    }, 0);
+  };
+
+  // Barcode first, then SKU
+  const lookupProduct = async (code: string): Promise<Product | null> => {
+    try {
+      return await productsApi.getProductByBarcode(code);
+    } catch {
+      try {
+        return await productsApi.getProductBySku(code);
+      } catch {
+        return null;
+      }
+    }
+  };
+
+  const addToCart = (product: Product, quantity: number) => {
+    const existingIndex = lines.findIndex(line => line.product_id === product.id);
+
+    if (existingIndex >= 0) {
+      setLines(prev => prev.map((line, index) =>
+        index === existingIndex ? { ...line, quantity: roundQuantity(line.quantity + quantity) } : line
+      ));
+      setSelectedIndex(existingIndex);
+    } else {
+      setLines(prev => [
+        ...prev,
+        {
+          product_id: product.id,
+          name: product.name,
+          sku: product.sku,
+          barcode: product.barcode,
+          unit_code: product.sales_unit || product.base_unit,
+          unit_price: parseFloat(product.unit_price),
+          quantity,
+          discount_percent: 0
+        }
+      ]);
+      setSelectedIndex(lines.length);
+    }
+  };
+
+  const handleScan = async () => {
+    const value = scanValue.trim();
+
+    // An empty scan moves the cashier on to payment
+    if (!value) {
+      if (lines.length > 0) {
+        focusTendered();
+      }
+      return;
+    }
+
+    const match = value.match(QUANTITY_PREFIX);
+    const quantity = match && parseFloat(match[1]) > 0 ? parseFloat(match[1]) : 1;
+    const code = match ? match[2].trim() : value;
+
+    setLookingUp(true);
+
+    try {
+      hackLog.dev('POS lookup', { code, quantity });
+      const product = await lookupProduct(code);
+
+      if (!product) {
+        toast({
+          title: "Item not found",
+          description: `No product matches barcode or SKU "${code}"`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (!product.is_active) {
+        toast({
+          title: "Item unavailable",
+          description: `${product.name} is inactive and cannot be sold`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // A parent SKU only groups its variants; the variant's own barcode or SKU has to be scanned
+      if (product.variant_attributes?.length) {
+        toast({
+          title: "Pick a variant",
+          description: `${product.name} comes in ${product.variant_attributes.map(attribute => attribute.name.toLowerCase()).join(' and ')}; scan the variant instead`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      addToCart(product, quantity);
+      setScanValue('');
+    } finally {
+      setLookingUp(false);
+      focusScan();
+    }
+  };
+
+  const updateQuantity = (productId: string, quantity: number) => {
+    if (quantity <= 0) {
+      removeLine(productId);
+      return;
+    }
+    setLines(prev => prev.map(line => line.product_id === productId ? { ...line, quantity: roundQuantity(quantity) } : line));
+  };
+
+  const updateDiscount = (productId: string, discountPercent: number) => {
+    const clamped = Math.min(Math.max(discountPercent, 0), 100);
+    setLines(prev => prev.map(line => line.product_id === productId ? { ...line, discount_percent: clamped } : line));
+  };
+
+  const removeLine = (productId: string) => {
+    setLines(prev => prev.filter(line => line.product_id !== productId));
+    setSelectedIndex(prev => Math.min(prev, lines.length - 2));
+  };
+
+  const handleApplyCoupon = async () => {
+    const code = couponCode.trim().toUpperCase();
+    if (!code || lines.length === 0) {
+      return;
+    }
+
+    setApplyingCoupon(true);
+
+    try {
+      const result = await salesInvoicesApi.quoteSalesInvoice({
+        discount_amount: discount,
+        coupon_code: code,
+        items: quoteItems
+      });
+
+      setQuote(result);
+      setAppliedCoupon(result.coupon_code);
+      setCouponCode('');
+    } catch (error: any) {
+      toast({
+        title: "Coupon not applied",
+        description: error.message || `Coupon ${code} cannot be used`,
+        variant: "destructive",
+      });
+    } finally {
+      setApplyingCoupon(false);
+    }
+  };
+
+  const handlePaymentMethodChange = (method: PosPaymentMethod) => {
+    setPaymentMethod(method);
+    setCashTendered('');
+    setCardAmount(method === 'CARD' ? totals.total.toFixed(2) : '');
+    focusTendered();
+  };
+
+  const resetSale = () => {
+    setLines([]);
+    setSelectedIndex(-1);
+    setScanValue('');
+    setCartDiscount('');
+    setCouponCode('');
+    setAppliedCoupon(null);
+    setCustomerName('');
+    setCustomerPhone('');
+    setPaymentMethod('CASH');
+    setCashTendered('');
+    setCardAmount('');
+    focusScan();
+  };
+
+  const handleCompleteSale = async () => {
+    if (!canComplete || submitting) {
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      hackLog.formSubmit('posCheckout', {
+        itemsCount: lines.length,
+        total: totals.total,
+        paymentMethod,
+        component: 'PointOfSalePage'
+      });
+
+      const invoice = await salesInvoicesApi.createSalesInvoice({
+        customer_name: customerName.trim() || undefined,
+        customer_phone: customerPhone.trim() || undefined,
+        discount_amount: discount,
+        coupon_code: appliedCoupon ?? undefined,
+        payments: [
+          { payment_method: 'CARD' as const, amount: card },
+          { payment_method: 'CASH' as const, amount: roundCurrency(totals.total - card) }
+        ].filter(payment => payment.amount > 0),
+        items: lines.map(line => ({
+          product_id: line.product_id,
+          unit_code: line.unit_code,
+          quantity: line.quantity,
+          unit_price: line.unit_price
+        }))
+      });
+
+      // Change is worked out against the total the invoice was saved with
+      setCompletedSale({ invoice, change: Math.max(roundCurrency(amountPaid - parseFloat(invoice.total_amount)), 0) });
+      resetSale();
+    } catch (error: any) {
+      hackLog.error('POS checkout failed', {
+        error: error.message,
+        itemsCount: lines.length
+      });
+
+      toast({
+        title: "Sale failed",
+        description: error.message || "Failed to complete the sale",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handlePrintReceipt = async (width: 58 | 80) => {
+    if (!completedSale) return;
+
+    try {
+      const html = await salesInvoicesApi.getReceipt(completedSale.invoice.id, { width, format: 'html' });
+      if (!printHtml(html)) {
+        toast({
+          title: "Pop-up blocked",
+          description: "Allow pop-ups for this site to print receipts",
+          variant: "destructive",
+        });
+      }
+    } catch (error: any) {
+      hackLog.error('Failed to print receipt', {
+        error: error.message,
+        invoiceId: completedSale.invoice.id
+      });
+
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load the receipt",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDownloadInvoicePdf = async () => {
+    if (!completedSale) return;
+
+    try {
+      const pdf = await salesInvoicesApi.downloadSalesInvoicePdf(completedSale.invoice.id);
+      downloadBlob(pdf, `${completedSale.invoice.invoice_number}.pdf`);
+    } catch (error: any) {
+      hackLog.error('Failed to download invoice PDF', {
+        error: error.message,
+        invoiceId: completedSale.invoice.id
+      });
+
+      toast({
+        title: "Error",
+        description: error.message || "Failed to download invoice PDF",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Till shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (completedSale) {
+        if (e.key === 'Enter' || e.key === 'Escape') {
+          e.preventDefault();
+          setCompletedSale(null);
+          focusScan();
+        } else if (e.key === 'p' || e.key === 'P') {
+          e.preventDefault();
+          handlePrintReceipt(80);
+        }
+        return;
+      }
+
+      const target = e.target as HTMLElement;
+      const typing = target.tagName === 'INPUT' && target !== scanInputRef.current;
+
+      switch (e.key) {
+        case 'F2':
+          e.preventDefault();
+          focusScan();
+          break;
+        case 'F4':
+          e.preventDefault();
+          focusTendered();
+          break;
+        case 'F6':
+          e.preventDefault();
+          handlePaymentMethodChange(paymentMethod === 'CASH' ? 'CARD' : paymentMethod === 'CARD' ? 'SPLIT' : 'CASH');
+          break;
+        case 'F9':
+          e.preventDefault();
+          handleCompleteSale();
+          break;
+        case 'Escape':
+          e.preventDefault();
+          setScanValue('');
+          focusScan();
+          break;
+        case 'ArrowUp':
+          if (!typing && lines.length > 0) {
+            e.preventDefault();
+            setSelectedIndex(prev => Math.max(prev - 1, 0));
+          }
+          break;
+        case 'ArrowDown':
+          if (!typing && lines.length > 0) {
+            e.preventDefault();
+            setSelectedIndex(prev => Math.min(prev + 1, lines.length - 1));
+          }
+          break;
+        case '+':
+        case '-':
+          // Only when the scan box is empty so SKUs containing dashes still type normally
+          if (!typing && !scanValue && lines[selectedIndex]) {
+            e.preventDefault();
+            const line = lines[selectedIndex];
+            updateQuantity(line.product_id, line.quantity + (e.key === '+' ? 1 : -1));
+          }
+          break;
+        case 'Delete':
+          if (!typing && !scanValue && lines[selectedIndex]) {
+            e.preventDefault();
+            removeLine(lines[selectedIndex].product_id);
+          }
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+            <CreditCard className="h-8 w-8 text-blue-600" />
+            Point of Sale
+          </h1>
+          <p className="text-muted-foreground">
+            F2 scan · ↑/↓ select · +/− quantity · Del remove · F4 tender · F6 payment method · F9 complete · Esc clear
+          </p>
+        </div>
+        <Button variant="outline" onClick={resetSale} disabled={submitting} className="gap-2">
+          <RotateCcw className="h-4 w-4" />
+          New Sale
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Cart */}
+        <div className="lg:col-span-2 space-y-4">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="relative">
+                <ScanBarcode className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                <Input
+                  ref={scanInputRef}
+                  value={scanValue}
+                  onChange={(e) => setScanValue(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleScan();
+                    }
+                  }}
+                  placeholder="Scan barcode or enter SKU (use 3*SKU for quantity)"
+                  className="pl-10 h-12 text-lg"
+                  disabled={lookingUp || submitting}
+                  autoComplete="off"
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <PosCart
+            lines={lines}
+            selectedIndex={selectedIndex}
+            onSelect={setSelectedIndex}
+            onQuantityChange={updateQuantity}
+            onDiscountChange={updateDiscount}
+            onRemove={removeLine}
+            formatCurrency={formatCurrency}
+          />
+        </div>
+
+        {/* Customer and payment */}
+        <div className="space-y-4">
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <User className="h-5 w-5" />
+                Customer
+              </CardTitle>
+              <CardDescription>Optional, printed on the invoice; a known phone number links the sale to that customer</CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="pos-customer-name">Name</Label>
+                <Input
+                  id="pos-customer-name"
+                  value={customerName}
+                  onChange={(e) => setCustomerName(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="pos-customer-phone">Phone</Label>
+                <Input
+                  id="pos-customer-phone"
+                  value={customerPhone}
+                  onChange={(e) => setCustomerPhone(e.target.value)}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <PosPaymentPanel
+            totals={totals}
+            cartDiscount={cartDiscount}
+            couponCode={couponCode}
+            appliedCoupon={appliedCoupon}
+            applyingCoupon={applyingCoupon}
+            paymentMethod={paymentMethod}
+            cashTendered={cashTendered}
+            cardAmount={cardAmount}
+            amountPaid={amountPaid}
+            changeDue={changeDue}
+            canComplete={canComplete}
+            submitting={submitting}
+            tenderedInputRef={tenderedInputRef}
+            onCartDiscountChange={setCartDiscount}
+            onCouponCodeChange={setCouponCode}
+            onApplyCoupon={handleApplyCoupon}
+            onRemoveCoupon={() => setAppliedCoupon(null)}
+            onPaymentMethodChange={handlePaymentMethodChange}
+            onCashTenderedChange={setCashTendered}
+            onCardAmountChange={setCardAmount}
+            onComplete={handleCompleteSale}
+            formatCurrency={formatCurrency}
+          />
+        </div>
+      </div>
+
+      {/* Sale complete */}
+      <Dialog
+        open={!!completedSale}
+        onOpenChange={(open) => {
+          if (!open) {
+            setCompletedSale(null);
+            focusScan();
+          }
+        }}
+      >
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <CheckCircle className="h-5 w-5 text-green-600" />
+              Sale Complete
+            </DialogTitle>
+            <DialogDescription>
+              Invoice {completedSale?.invoice.invoice_number}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Total</span>
+              <span className="font-medium">
+                {completedSale && formatCurrency(parseFloat(completedSale.invoice.total_amount))}
+              </span>
+            </div>
+            <div className="flex justify-between text-2xl font-bold">
+              <span>Change</span>
+              <span className="text-green-600">{completedSale && formatCurrency(completedSale.change)}</span>
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <Button variant="outline" size="sm" className="gap-1" onClick={() => handlePrintReceipt(80)}>
+              <Printer className="h-4 w-4" />
+              80mm (P)
+            </Button>
+            <Button variant="outline" size="sm" className="gap-1" onClick={() => handlePrintReceipt(58)}>
+              <Printer className="h-4 w-4" />
+              58mm
+            </Button>
+            <Button variant="outline" size="sm" className="gap-1" onClick={handleDownloadInvoicePdf}>
+              <Download className="h-4 w-4" />
+              PDF
+            </Button>
+          </div>
+          <Button
+            className="w-full"
+            onClick={() => {
+              setCompletedSale(null);
+              focusScan();
+            }}
+          >
+            Next Sale (Enter)
+          </Button>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -77,7 +77,8 @@ export function ProductFiltersComponent({ filters, categories, onFiltersChange }
       limit: filters.limit,
       sort_by: filters.sort_by,
       sort_order: filters.sort_order,
-      search: filters.search
+      search: filters.search,
+      variant_scope: filters.variant_scope
     };
     
     onFiltersChange(resetFilters);
@@ -103,7 +104,7 @@ export function ProductFiltersComponent({ filters, categories, onFiltersChange }
     if (filters.category_id) {
       const category = categories.find(c => c.id === filters.category_id);
       if (category) {
-        activeFilters.push(`Category: ${category.name}`);
+        activeFilters.push(`Category: ${category.path_name}`);
       }
     }
     
@@ -205,7 +206,7 @@ export function ProductFiltersComponent({ filters, categories, onFiltersChange }
                     <SelectItem value="__all__">All categories</SelectItem>
                     {categories.map((category) => (
                       <SelectItem key={category.id} value={category.id.toString()}>
-                        {category.name}
+                        {category.path_name}
                       </SelectItem>
                     ))}
                   </SelectContent>
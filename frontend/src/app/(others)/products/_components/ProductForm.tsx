@@ -11,8 +11,28 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { productsApi } from '@/lib/api/inventory';
+import { suppliersApi } from '@/lib/api/suppliers';
+import { taxClassesApi } from '@/lib/api/taxes';
+import { Supplier } from '@/types/suppliers';
+import { TaxClass } from '@/types/taxes';
 import { Product, Category, CreateProductRequest, UpdateProductRequest, FormMode } from '@/types/inventory';
-import { Package, DollarSign, Hash, Barcode, Tag, FileText } from 'lucide-react';
+import {
+  ProductVariantsEditor,
+  VariantAttributeDraft,
+  VariantRowDraft,
+  toVariantDrafts,
+  toSaveVariantsRequest,
+  validateVariants
+} from './ProductVariantsEditor';
+import {
+  ProductUnitsEditor,
+  UnitSettingsDraft,
+  emptyUnitSettings,
+  toUnitSettingsDraft,
+  toUnitSettingsRequest,
+  validateUnitSettings
+} from './ProductUnitsEditor';
+import { Package, DollarSign, Hash, Barcode, Tag, FileText, Truck } from 'lucide-react';
 
 interface ProductFormProps {
   mode: FormMode;
@@ -27,10 +47,14 @@ interface FormData {
   sku: string;
   barcode?: string;
   category_id?: string;
+  tax_class_id?: string;
   description?: string;
   unit_price: string;
   cost_price?: string;
   minimum_stock_level: string;
+  reorder_point?: string;
+  target_stock_level?: string;
+  preferred_supplier_id?: string;
   is_active: boolean;
 }
 
@@ -43,6 +67,8 @@ interface FormErrors {
   unit_price?: string;
   cost_price?: string;
   minimum_stock_level?: string;
+  reorder_point?: string;
+  target_stock_level?: string;
 }
 
 export function ProductForm({ mode, product, categories, onSubmit, onCancel }: ProductFormProps) {
@@ -53,13 +79,40 @@ export function ProductForm({ mode, product, categories, onSubmit, onCancel }: P
     sku: '',
     barcode: '',
     category_id: '',
+    tax_class_id: '',
     description: '',
     unit_price: '',
     cost_price: '',
     minimum_stock_level: '0',
+    reorder_point: '',
+    target_stock_level: '',
+    preferred_supplier_id: '',
     is_active: true
   });
   const [errors, setErrors] = useState<FormErrors>({});
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [taxClasses, setTaxClasses] = useState<TaxClass[]>([]);
+  const [variantAttributes, setVariantAttributes] = useState<VariantAttributeDraft[]>([]);
+  const [variantRows, setVariantRows] = useState<VariantRowDraft[]>([]);
+  const [variantsChanged, setVariantsChanged] = useState(false);
+  const [unitSettings, setUnitSettings] = useState<UnitSettingsDraft>(emptyUnitSettings());
+
+  // Variants themselves can't have variants
+  const isVariant = !!product?.parent_product_id;
+
+  // Load suppliers for the preferred supplier select
+  useEffect(() => {
+    suppliersApi.getActiveSuppliers()
+      .then(setSuppliers)
+      .catch(() => setSuppliers([]));
+  }, []);
+
+  // Load tax classes for the tax class select
+  useEffect(() => {
+    taxClassesApi.getActiveTaxClasses()
+      .then(setTaxClasses)
+      .catch(() => setTaxClasses([]));
+  }, []);
 
   // Initialize form data when product changes
   useEffect(() => {
@@ -69,28 +122,69 @@ export function ProductForm({ mode, product, categories, onSubmit, onCancel }: P
         sku: product.sku,
         barcode: product.barcode || '',
         category_id: product.category_id?.toString() || '',
+        tax_class_id: product.tax_class_id || '',
         description: product.description || '',
         unit_price: product.unit_price,
         cost_price: product.cost_price || '',
         minimum_stock_level: product.minimum_stock_level.toString(),
+        reorder_point: product.reorder_point?.toString() ?? '',
+        target_stock_level: product.target_stock_level?.toString() ?? '',
+        preferred_supplier_id: product.preferred_supplier_id || '',
         is_active: product.is_active
       });
+      setUnitSettings(toUnitSettingsDraft(product));
     } else if (mode === 'create') {
       setFormData({
         name: '',
         sku: '',
         barcode: '',
         category_id: '',
+        tax_class_id: '',
         description: '',
         unit_price: '',
         cost_price: '',
         minimum_stock_level: '0',
+        reorder_point: '',
+        target_stock_level: '',
+        preferred_supplier_id: '',
         is_active: true
       });
+      setUnitSettings(emptyUnitSettings());
     }
     setErrors({});
   }, [product, mode]);
 
+  // Load the variant matrix of an existing parent product
+  useEffect(() => {
+    setVariantAttributes([]);
+    setVariantRows([]);
+    setVariantsChanged(false);
+
+    if (!product || mode === 'create' || !product.variant_attributes?.length) {
+      return;
+    }
+
+    productsApi.getVariants(product.id)
+      .then(variants => {
+        const drafts = toVariantDrafts(product, variants);
+        setVariantAttributes(drafts.attributes);
+        setVariantRows(drafts.rows);
+      })
+      .catch((error: any) => {
+        toast({
+          title: 'Error',
+          description: error.message || 'Failed to load variants',
+          variant: 'destructive'
+        });
+      });
+  }, [product, mode, toast]);
+
+  const handleVariantsChange = (attributes: VariantAttributeDraft[], rows: VariantRowDraft[]) => {
+    setVariantAttributes(attributes);
+    setVariantRows(rows);
+    setVariantsChanged(true);
+  };
+
   // Handle input changes
   const handleInputChange = (field: keyof FormData, value: string | boolean) => {
     setFormData(prev => ({ ...prev, [field]: value }));
@@ -164,6 +258,18 @@ export function ProductForm({ mode, product, categories, onSubmit, onCancel }: P
       }
     }
 
+    // Reorder settings validation (optional)
+    const reorderPoint = formData.reorder_point?.trim() ? parseInt(formData.reorder_point) : undefined;
+    const targetLevel = formData.target_stock_level?.trim() ? parseInt(formData.target_stock_level) : undefined;
+    if (reorderPoint !== undefined && (isNaN(reorderPoint) || reorderPoint < 0)) {
+      newErrors.reorder_point = 'Reorder point must be a valid non-negative number';
+    }
+    if (targetLevel !== undefined && (isNaN(targetLevel) || targetLevel < 0)) {
+      newErrors.target_stock_level = 'Target stock level must be a valid non-negative number';
+    } else if (targetLevel !== undefined && reorderPoint !== undefined && targetLevel < reorderPoint) {
+      newErrors.target_stock_level = 'Target stock level cannot be lower than the reorder point';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -181,6 +287,17 @@ export function ProductForm({ mode, product, categories, onSubmit, onCancel }: P
       return;
     }
 
+    const unitError = validateUnitSettings(unitSettings);
+    const variantError = variantsChanged ? validateVariants(variantAttributes, variantRows, formData.sku) : null;
+    if (unitError || variantError) {
+      toast({
+        title: 'Error',
+        description: unitError || variantError,
+        variant: 'destructive'
+      });
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -189,27 +306,55 @@ export function ProductForm({ mode, product, categories, onSubmit, onCancel }: P
         sku: formData.sku.trim().toUpperCase(),
         barcode: formData.barcode?.trim() || undefined,
         category_id: (formData.category_id && formData.category_id !== '__none__') ? formData.category_id : undefined,
+        // Empty means the category's tax class applies, so clear any override
+        tax_class_id: (formData.tax_class_id && formData.tax_class_id !== '__none__') ? formData.tax_class_id : null,
         description: formData.description?.trim() || undefined,
         unit_price: parseFloat(formData.unit_price),
         cost_price: formData.cost_price?.trim() ? parseFloat(formData.cost_price) : undefined,
         minimum_stock_level: parseInt(formData.minimum_stock_level),
+        reorder_point: formData.reorder_point?.trim() ? parseInt(formData.reorder_point) : undefined,
+        target_stock_level: formData.target_stock_level?.trim() ? parseInt(formData.target_stock_level) : undefined,
+        preferred_supplier_id: (formData.preferred_supplier_id && formData.preferred_supplier_id !== '__none__') ? formData.preferred_supplier_id : undefined,
+        ...toUnitSettingsRequest(unitSettings),
         is_active: formData.is_active
       };
 
+      let saved: Product | null = null;
       if (mode === 'create') {
-        await productsApi.createProduct(requestData as CreateProductRequest);
+        saved = await productsApi.createProduct(requestData as CreateProductRequest);
         toast({
           title: 'Success',
           description: 'Product created successfully'
         });
       } else if (mode === 'edit' && product) {
-        await productsApi.updateProduct(product.id, requestData as UpdateProductRequest);
+        saved = await productsApi.updateProduct(product.id, requestData as UpdateProductRequest);
         toast({
           title: 'Success',
           description: 'Product updated successfully'
         });
       }
 
+      // Variants are saved once the parent exists, since new variants copy its details. The product
+      // itself is already saved, so a failure here is reported without keeping the form open.
+      if (saved && variantsChanged) {
+        try {
+          const variants = await productsApi.saveVariants(
+            saved.id,
+            toSaveVariantsRequest(variantAttributes, variantRows, saved.sku)
+          );
+          toast({
+            title: 'Success',
+            description: variants.length > 0 ? `${variants.length} variants saved` : 'Variants removed'
+          });
+        } catch (error: any) {
+          toast({
+            title: 'Error',
+            description: error.message || 'Failed to save variants',
+            variant: 'destructive'
+          });
+        }
+      }
+
       onSubmit();
     } catch (error: any) {
       toast({
@@ -243,6 +388,10 @@ export function ProductForm({ mode, product, categories, onSubmit, onCancel }: P
 
   const isReadOnly = mode === 'view';
 
+  // Cost is per base unit while the price is per sales unit, so compare them per sales unit
+  const salesUnitFactor = parseFloat(unitSettings.units.find(unit => unit.code === unitSettings.sales_unit)?.factor ?? '') || 1;
+  const salesUnitCost = (parseFloat(formData.cost_price || '') * salesUnitFactor).toString();
+
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       {/* Basic Information */}
@@ -338,7 +487,7 @@ export function ProductForm({ mode, product, categories, onSubmit, onCancel }: P
                     <SelectItem value="__none__">No category</SelectItem>
                     {categories.map((category) => (
                       <SelectItem key={category.id} value={category.id.toString()}>
-                        {category.name}
+                        {category.path_name}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -387,7 +536,9 @@ export function ProductForm({ mode, product, categories, onSubmit, onCancel }: P
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             {/* Unit Price */}
             <div className="space-y-2">
-              <Label htmlFor="unit_price">Unit Price *</Label>
+              <Label htmlFor="unit_price">
+                Unit Price *{(unitSettings.sales_unit || unitSettings.base_unit) && ` (per ${unitSettings.sales_unit || unitSettings.base_unit})`}
+              </Label>
               <Input
                 id="unit_price"
                 type="number"
@@ -407,7 +558,9 @@ export function ProductForm({ mode, product, categories, onSubmit, onCancel }: P
 
             {/* Cost Price */}
             <div className="space-y-2">
-              <Label htmlFor="cost_price">Cost Price</Label>
+              <Label htmlFor="cost_price">
+                Cost Price{unitSettings.base_unit && ` (per ${unitSettings.base_unit})`}
+              </Label>
               <Input
                 id="cost_price"
                 type="number"
@@ -445,6 +598,28 @@ export function ProductForm({ mode, product, categories, onSubmit, onCancel }: P
             </div>
           </div>
 
+          {/* Tax Class */}
+          <div className="space-y-2">
+            <Label htmlFor="tax_class_id">Tax Class</Label>
+            <Select
+              value={formData.tax_class_id}
+              onValueChange={(value) => handleInputChange('tax_class_id', value)}
+              disabled={isReadOnly}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Use category default" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="__none__">Use category default</SelectItem>
+                {taxClasses.map((taxClass) => (
+                  <SelectItem key={taxClass.id} value={taxClass.id}>
+                    {taxClass.name} ({parseFloat(taxClass.rate)}%{taxClass.is_inclusive ? ', inclusive' : ''})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* Profit Margin Display (if both prices are provided) */}
           {formData.unit_price && formData.cost_price && (
             <div className="p-4 bg-muted rounded-lg">
@@ -453,19 +628,19 @@ export function ProductForm({ mode, product, categories, onSubmit, onCancel }: P
                 <div>
                   <span className="text-muted-foreground">Profit Margin:</span>
                   <div className="font-medium">
-                    {formatPrice((parseFloat(formData.unit_price) - parseFloat(formData.cost_price)).toString())}
+                    {formatPrice((parseFloat(formData.unit_price) - parseFloat(salesUnitCost)).toString())}
                   </div>
                 </div>
                 <div>
                   <span className="text-muted-foreground">Profit %:</span>
                   <div className="font-medium">
-                    {(((parseFloat(formData.unit_price) - parseFloat(formData.cost_price)) / parseFloat(formData.unit_price)) * 100).toFixed(2)}%
+                    {(((parseFloat(formData.unit_price) - parseFloat(salesUnitCost)) / parseFloat(formData.unit_price)) * 100).toFixed(2)}%
                   </div>
                 </div>
                 <div>
                   <span className="text-muted-foreground">Markup %:</span>
                   <div className="font-medium">
-                    {(((parseFloat(formData.unit_price) - parseFloat(formData.cost_price)) / parseFloat(formData.cost_price)) * 100).toFixed(2)}%
+                    {(((parseFloat(formData.unit_price) - parseFloat(salesUnitCost)) / parseFloat(salesUnitCost)) * 100).toFixed(2)}%
                   </div>
                 </div>
               </div>
@@ -474,6 +649,115 @@ export function ProductForm({ mode, product, categories, onSubmit, onCancel }: P
         </CardContent>
       </Card>
 
+      {/* Units of Measure */}
+      <ProductUnitsEditor
+        settings={unitSettings}
+        onChange={setUnitSettings}
+        disabled={isReadOnly}
+      />
+
+      {/* Reordering */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Truck className="h-5 w-5" />
+            Reordering
+          </CardTitle>
+          <CardDescription>
+            When to suggest a reorder, how much to order and who to order from
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {/* Reorder Point */}
+            <div className="space-y-2">
+              <Label htmlFor="reorder_point">Reorder Point</Label>
+              <Input
+                id="reorder_point"
+                type="number"
+                min="0"
+                max="999999"
+                value={formData.reorder_point}
+                onChange={(e) => handleInputChange('reorder_point', e.target.value)}
+                placeholder={`Defaults to ${formData.minimum_stock_level || '0'}`}
+                disabled={isReadOnly}
+                className={errors.reorder_point ? 'border-destructive' : ''}
+              />
+              {errors.reorder_point && (
+                <p className="text-sm text-destructive">{errors.reorder_point}</p>
+              )}
+            </div>
+
+            {/* Target Stock Level */}
+            <div className="space-y-2">
+              <Label htmlFor="target_stock_level">Target Stock Level</Label>
+              <Input
+                id="target_stock_level"
+                type="number"
+                min="0"
+                max="999999"
+                value={formData.target_stock_level}
+                onChange={(e) => handleInputChange('target_stock_level', e.target.value)}
+                placeholder="Twice the reorder point"
+                disabled={isReadOnly}
+                className={errors.target_stock_level ? 'border-destructive' : ''}
+              />
+              {errors.target_stock_level && (
+                <p className="text-sm text-destructive">{errors.target_stock_level}</p>
+              )}
+            </div>
+
+            {/* Preferred Supplier */}
+            <div className="space-y-2">
+              <Label htmlFor="preferred_supplier_id">Preferred Supplier</Label>
+              <Select
+                value={formData.preferred_supplier_id}
+                onValueChange={(value) => handleInputChange('preferred_supplier_id', value)}
+                disabled={isReadOnly}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="__none__">No preferred supplier</SelectItem>
+                  {suppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Variants */}
+      {isVariant ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Variant</CardTitle>
+            <CardDescription>
+              Name, category, tax class and supplier follow the parent product
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            {Object.entries(product?.variant_options ?? {}).map(([name, value]) => (
+              <Badge key={name} variant="outline">{name}: {value}</Badge>
+            ))}
+          </CardContent>
+        </Card>
+      ) : (!isReadOnly || variantRows.length > 0) && (
+        <ProductVariantsEditor
+          parentSku={formData.sku}
+          parentPrice={formData.unit_price}
+          attributes={variantAttributes}
+          rows={variantRows}
+          onChange={handleVariantsChange}
+          disabled={isReadOnly}
+        />
+      )}
+
       {/* Status & Settings */}
       <Card>
         <CardHeader>
@@ -0,0 +1,262 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { productsApi } from '@/lib/api/inventory';
+import { downloadBlob } from '@/lib/utils';
+import { ProductImportResult } from '@/types/inventory';
+import { CheckCircle2, Download, FileSpreadsheet, Upload, XCircle } from 'lucide-react';
+
+type ImportStep = 'upload' | 'preview' | 'done';
+
+interface ProductImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+const TEMPLATE_HEADERS = [
+  'name',
+  'sku',
+  'barcode',
+  'category',
+  'description',
+  'unit_price',
+  'cost_price',
+  'minimum_stock_level',
+  'reorder_point',
+  'target_stock_level',
+  'is_active'
+];
+
+const TEMPLATE_EXAMPLE = ['Wireless Mouse', 'WM-001', '1234567890123', 'Accessories', '2.4GHz optical mouse', '24.99', '12.50', '10', '15', '50', 'true'];
+
+export function ProductImportWizard({ open, onOpenChange, onImported }: ProductImportWizardProps) {
+  const { toast } = useToast();
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<ProductImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [showValidRows, setShowValidRows] = useState(false);
+
+  const reset = () => {
+    setStep('upload');
+    setFile(null);
+    setResult(null);
+    setShowValidRows(false);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      reset();
+    }
+    onOpenChange(isOpen);
+  };
+
+  const downloadTemplate = () => {
+    const csv = [TEMPLATE_HEADERS.join(','), TEMPLATE_EXAMPLE.join(',')].join('\r\n');
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), 'product-import-template.csv');
+  };
+
+  // Step 1: validate the whole file without creating anything
+  const handleValidate = async () => {
+    if (!file) return;
+
+    setLoading(true);
+    try {
+      const preview = await productsApi.importProducts(file, true);
+      setResult(preview);
+      setShowValidRows(preview.invalid_rows === 0);
+      setStep('preview');
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to validate import file',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Step 2: create the valid rows; the server validates again, so the counts can shift if the catalogue changed
+  const handleImport = async () => {
+    if (!file) return;
+
+    setLoading(true);
+    try {
+      const imported = await productsApi.importProducts(file, false);
+      setResult(imported);
+      setStep('done');
+      toast({
+        title: 'Success',
+        description: `${imported.imported_rows} products imported`
+      });
+      onImported();
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to import products',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const visibleRows = result
+    ? result.rows.filter(row => showValidRows || row.errors.length > 0)
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Products</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload a CSV or Excel (.xlsx) file with one product per row'}
+            {step === 'preview' && 'Review the validation results before importing'}
+            {step === 'done' && 'Import complete'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+            <div className="rounded-md border p-4 text-sm text-muted-foreground space-y-2">
+              <p>
+                The first row must be a header. <span className="font-medium">name</span>, <span className="font-medium">sku</span> and{' '}
+                <span className="font-medium">unit_price</span> are required; categories are matched by name.
+                Other columns are mapped to product fields by their header and anything unrecognised is ignored.
+              </p>
+              <Button variant="link" className="h-auto p-0" onClick={downloadTemplate}>
+                <Download className="mr-1 h-4 w-4" />
+                Download CSV template
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step !== 'upload' && result && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">
+                <FileSpreadsheet className="mr-1 h-3 w-3" />
+                {file?.name}
+              </Badge>
+              <Badge variant="secondary">{result.total_rows} rows</Badge>
+              <Badge variant="default">{result.valid_rows} valid</Badge>
+              {result.invalid_rows > 0 && (
+                <Badge variant="destructive">{result.invalid_rows} with errors</Badge>
+              )}
+              {step === 'done' && (
+                <Badge variant="default">{result.imported_rows} imported</Badge>
+              )}
+            </div>
+
+            <div className="text-sm text-muted-foreground">
+              <p>
+                Columns: {Object.entries(result.mapped_columns).map(([header, field]) => `${header} → ${field}`).join(', ')}
+              </p>
+              {result.ignored_columns.length > 0 && (
+                <p>Ignored: {result.ignored_columns.join(', ')}</p>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch id="show-valid" checked={showValidRows} onCheckedChange={setShowValidRows} />
+              <Label htmlFor="show-valid">Show valid rows</Label>
+            </div>
+
+            {visibleRows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No rows with errors</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>SKU</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.map(row => (
+                    <TableRow key={row.row}>
+                      <TableCell>{row.row}</TableCell>
+                      <TableCell className="font-mono text-sm">{row.sku ?? '—'}</TableCell>
+                      <TableCell>{row.name ?? '—'}</TableCell>
+                      <TableCell>{row.category_name ?? '—'}</TableCell>
+                      <TableCell className="text-right">{row.unit_price ?? '—'}</TableCell>
+                      <TableCell>
+                        {row.errors.length === 0 ? (
+                          <span className="flex items-center gap-1 text-sm text-green-600">
+                            <CheckCircle2 className="h-4 w-4" />
+                            {row.product_id ? 'Imported' : 'Valid'}
+                          </span>
+                        ) : (
+                          <div className="space-y-1">
+                            {row.errors.map((error, index) => (
+                              <span key={index} className="flex items-center gap-1 text-sm text-destructive">
+                                <XCircle className="h-4 w-4 shrink-0" />
+                                {error}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'upload' && (
+            <Button onClick={handleValidate} disabled={!file || loading}>
+              <FileSpreadsheet className="mr-2 h-4 w-4" />
+              {loading ? 'Validating...' : 'Validate'}
+            </Button>
+          )}
+          {step === 'preview' && result && (
+            <>
+              <Button variant="outline" onClick={reset} disabled={loading}>
+                Choose another file
+              </Button>
+              <Button onClick={handleImport} disabled={result.valid_rows === 0 || loading}>
+                <Upload className="mr-2 h-4 w-4" />
+                {loading
+                  ? 'Importing...'
+                  : result.invalid_rows > 0
+                    ? `Import ${result.valid_rows} valid rows, skip ${result.invalid_rows}`
+                    : `Import ${result.valid_rows} products`}
+              </Button>
+            </>
+          )}
+          {step === 'done' && (
+            <Button onClick={() => handleOpenChange(false)}>Close</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,231 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CreateProductRequest, Product } from '@/types/inventory';
+import { Plus, Ruler, Trash2 } from 'lucide-react';
+
+export const MAX_PRODUCT_UNITS = 10;
+
+const UNIT_CODE_PATTERN = /^[A-Z0-9_]{1,20}$/;
+
+// Select value standing in for "the base unit", since a select item can't have an empty value
+const BASE_UNIT_VALUE = '__base__';
+
+export interface UnitRowDraft {
+  code: string;
+  name: string;
+  factor: string;
+}
+
+export interface UnitSettingsDraft {
+  base_unit: string;
+  units: UnitRowDraft[];
+  purchase_unit: string; // Blank is the base unit
+  sales_unit: string; // Blank is the base unit
+}
+
+interface ProductUnitsEditorProps {
+  settings: UnitSettingsDraft;
+  onChange: (settings: UnitSettingsDraft) => void;
+  disabled?: boolean;
+}
+
+export const emptyUnitSettings = (): UnitSettingsDraft => ({
+  base_unit: 'EA',
+  units: [],
+  purchase_unit: '',
+  sales_unit: ''
+});
+
+export const toUnitSettingsDraft = (product: Product): UnitSettingsDraft => ({
+  base_unit: product.base_unit,
+  units: (product.units ?? []).map(unit => ({ code: unit.code, name: unit.name, factor: unit.factor.toString() })),
+  purchase_unit: product.purchase_unit || '',
+  sales_unit: product.sales_unit || ''
+});
+
+/**
+ * Returns the first problem with the unit setup, or null when it can be saved
+ */
+export const validateUnitSettings = (settings: UnitSettingsDraft): string | null => {
+  const baseUnit = settings.base_unit.trim();
+  if (!UNIT_CODE_PATTERN.test(baseUnit)) {
+    return 'Base unit must be 1-20 uppercase letters, numbers or underscores';
+  }
+
+  if (settings.units.length > MAX_PRODUCT_UNITS) {
+    return `A product can have at most ${MAX_PRODUCT_UNITS} units besides its base unit`;
+  }
+
+  const codes = new Set([baseUnit]);
+  for (const unit of settings.units) {
+    const code = unit.code.trim();
+    if (!UNIT_CODE_PATTERN.test(code)) {
+      return 'Unit codes must be 1-20 uppercase letters, numbers or underscores';
+    }
+    if (codes.has(code)) {
+      return `Unit ${code} is listed twice`;
+    }
+    codes.add(code);
+
+    const factor = parseFloat(unit.factor);
+    if (isNaN(factor) || factor <= 0 || factor > 1000000 || Math.round(factor * 10000) / 10000 !== factor) {
+      return `Unit ${code} needs a positive number of ${baseUnit} with at most 4 decimal places`;
+    }
+  }
+
+  for (const code of [settings.purchase_unit, settings.sales_unit]) {
+    if (code && !codes.has(code)) {
+      return `Unit ${code} is no longer listed`;
+    }
+  }
+
+  return null;
+};
+
+export const toUnitSettingsRequest = (settings: UnitSettingsDraft): Pick<CreateProductRequest, 'base_unit' | 'units' | 'purchase_unit' | 'sales_unit'> => ({
+  base_unit: settings.base_unit.trim(),
+  units: settings.units.map(unit => ({
+    code: unit.code.trim(),
+    name: unit.name.trim() || unit.code.trim(),
+    factor: parseFloat(unit.factor)
+  })),
+  purchase_unit: settings.purchase_unit || null,
+  sales_unit: settings.sales_unit || null
+});
+
+/**
+ * Base unit that stock is counted in, the larger or smaller units the product comes in and
+ * which of them purchase orders and sales default to
+ */
+export function ProductUnitsEditor({ settings, onChange, disabled }: ProductUnitsEditorProps) {
+  const unitCodes = settings.units.map(unit => unit.code.trim()).filter(Boolean);
+
+  const updateUnit = (index: number, changes: Partial<UnitRowDraft>) => {
+    onChange({ ...settings, units: settings.units.map((unit, i) => (i === index ? { ...unit, ...changes } : unit)) });
+  };
+
+  const removeUnit = (index: number) => {
+    const code = settings.units[index].code.trim();
+    onChange({
+      ...settings,
+      units: settings.units.filter((_, i) => i !== index),
+      // A removed unit can't stay the default
+      purchase_unit: settings.purchase_unit === code ? '' : settings.purchase_unit,
+      sales_unit: settings.sales_unit === code ? '' : settings.sales_unit
+    });
+  };
+
+  const renderDefaultUnit = (field: 'purchase_unit' | 'sales_unit', label: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={field}>{label}</Label>
+      <Select
+        value={settings[field] || BASE_UNIT_VALUE}
+        onValueChange={(value) => onChange({ ...settings, [field]: value === BASE_UNIT_VALUE ? '' : value })}
+        disabled={disabled}
+      >
+        <SelectTrigger id={field}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={BASE_UNIT_VALUE}>{settings.base_unit || 'Base unit'}</SelectItem>
+          {unitCodes.map(code => (
+            <SelectItem key={code} value={code}>{code}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Ruler className="h-5 w-5" />
+          Units of Measure
+        </CardTitle>
+        <CardDescription>
+          Stock is counted in the base unit; the unit price is per sales unit
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="base_unit">Base Unit *</Label>
+            <Input
+              id="base_unit"
+              value={settings.base_unit}
+              onChange={(e) => onChange({ ...settings, base_unit: e.target.value.toUpperCase() })}
+              placeholder="e.g. EA, G, ML"
+              disabled={disabled}
+              className="font-mono"
+            />
+          </div>
+          {renderDefaultUnit('purchase_unit', 'Purchase Unit')}
+          {renderDefaultUnit('sales_unit', 'Sales Unit')}
+        </div>
+
+        {settings.units.map((unit, index) => (
+          <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_2fr_1fr_auto] gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor={`unit-code-${index}`}>Code</Label>
+              <Input
+                id={`unit-code-${index}`}
+                value={unit.code}
+                onChange={(e) => updateUnit(index, { code: e.target.value.toUpperCase() })}
+                placeholder="e.g. CASE"
+                disabled={disabled}
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`unit-name-${index}`}>Name</Label>
+              <Input
+                id={`unit-name-${index}`}
+                value={unit.name}
+                onChange={(e) => updateUnit(index, { name: e.target.value })}
+                placeholder="e.g. Case of 24"
+                disabled={disabled}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`unit-factor-${index}`}>{settings.base_unit || 'Base units'} per unit</Label>
+              <Input
+                id={`unit-factor-${index}`}
+                type="number"
+                step="0.0001"
+                min="0.0001"
+                value={unit.factor}
+                onChange={(e) => updateUnit(index, { factor: e.target.value })}
+                placeholder="e.g. 24"
+                disabled={disabled}
+              />
+            </div>
+            {!disabled && (
+              <Button type="button" variant="ghost" size="icon" onClick={() => removeUnit(index)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+
+        {!disabled && settings.units.length < MAX_PRODUCT_UNITS && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ ...settings, units: [...settings.units, { code: '', name: '', factor: '' }] })}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add unit
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
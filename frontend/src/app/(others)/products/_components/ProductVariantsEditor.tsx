@@ -0,0 +1,306 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Product, ProductVariantAttribute, SaveProductVariantsRequest } from '@/types/inventory';
+import { Layers, Plus, Trash2 } from 'lucide-react';
+
+export const MAX_VARIANT_ATTRIBUTES = 3;
+export const MAX_VARIANTS = 200;
+
+// Attribute as edited, with its values kept as the comma-separated text the user typed
+export interface VariantAttributeDraft {
+  name: string;
+  values: string;
+}
+
+export interface VariantRowDraft {
+  id?: string;
+  options: Record<string, string>;
+  sku: string; // Blank falls back to the generated SKU
+  barcode: string;
+  unit_price: string; // Blank follows the parent price
+  is_active: boolean;
+}
+
+interface ProductVariantsEditorProps {
+  parentSku: string;
+  parentPrice: string;
+  attributes: VariantAttributeDraft[];
+  rows: VariantRowDraft[];
+  onChange: (attributes: VariantAttributeDraft[], rows: VariantRowDraft[]) => void;
+  disabled?: boolean;
+}
+
+const parseValues = (values: string): string[] =>
+  values
+    .split(',')
+    .map(value => value.trim())
+    .filter((value, index, all) => value && all.findIndex(other => other.toLowerCase() === value.toLowerCase()) === index);
+
+const parseAttributes = (attributes: VariantAttributeDraft[]): ProductVariantAttribute[] =>
+  attributes
+    .map(attribute => ({ name: attribute.name.trim(), values: parseValues(attribute.values) }))
+    .filter(attribute => attribute.name && attribute.values.length > 0);
+
+// Rows are matched on their values in attribute order, so renaming an attribute keeps the existing variants
+const valuesKey = (values: string[]) => values.map(value => value.toLowerCase()).join('\u0000');
+
+const combinations = (attributes: ProductVariantAttribute[]): string[][] =>
+  attributes.reduce<string[][]>(
+    (combos, attribute) => combos.flatMap(combo => attribute.values.map(value => [...combo, value])),
+    [[]]
+  );
+
+export const defaultVariantSku = (parentSku: string, values: string[]): string =>
+  [parentSku.trim().toUpperCase(), ...values.map(value => value.toUpperCase().replace(/[^A-Z0-9]+/g, ''))]
+    .filter(Boolean)
+    .join('-')
+    .slice(0, 50);
+
+/**
+ * Rebuild the variant matrix for the given attributes, keeping the settings of rows whose values still exist
+ */
+export const buildVariantRows = (attributes: VariantAttributeDraft[], existing: VariantRowDraft[]): VariantRowDraft[] => {
+  const parsed = parseAttributes(attributes);
+  if (parsed.length === 0) {
+    return [];
+  }
+
+  const existingByKey = new Map(existing.map(row => [valuesKey(Object.values(row.options)), row]));
+
+  return combinations(parsed).map(values => {
+    const options = Object.fromEntries(parsed.map((attribute, index) => [attribute.name, values[index]]));
+    const match = existingByKey.get(valuesKey(values));
+    return match
+      ? { ...match, options }
+      : { options, sku: '', barcode: '', unit_price: '', is_active: true };
+  });
+};
+
+export const toVariantDrafts = (parent: Product, variants: Product[]): { attributes: VariantAttributeDraft[]; rows: VariantRowDraft[] } => {
+  const attributes = (parent.variant_attributes ?? []).map(attribute => ({
+    name: attribute.name,
+    values: attribute.values.join(', ')
+  }));
+
+  // Order the options like the attributes so the values key lines up with the generated combinations
+  const rows = variants.map(variant => ({
+    id: variant.id,
+    options: Object.fromEntries(attributes.map(attribute => [attribute.name, variant.variant_options?.[attribute.name] ?? ''])),
+    sku: variant.sku,
+    barcode: variant.barcode || '',
+    unit_price: variant.has_price_override ? variant.unit_price : '',
+    is_active: variant.is_active
+  }));
+
+  return { attributes, rows: buildVariantRows(attributes, rows) };
+};
+
+/**
+ * Returns the first problem with the variant setup, or null when it can be saved
+ */
+export const validateVariants = (attributes: VariantAttributeDraft[], rows: VariantRowDraft[], parentSku: string): string | null => {
+  const names = new Set<string>();
+  for (const attribute of attributes) {
+    const name = attribute.name.trim();
+    if (!name) {
+      return 'Every variant attribute needs a name';
+    }
+    if (names.has(name.toLowerCase())) {
+      return `Variant attribute "${name}" is listed twice`;
+    }
+    names.add(name.toLowerCase());
+    if (parseValues(attribute.values).length === 0) {
+      return `Variant attribute "${name}" needs at least one value`;
+    }
+  }
+
+  if (rows.length > MAX_VARIANTS) {
+    return `A product can have at most ${MAX_VARIANTS} variants`;
+  }
+
+  const skus = new Set<string>();
+  for (const row of rows) {
+    const sku = row.sku.trim().toUpperCase() || defaultVariantSku(parentSku, Object.values(row.options));
+    if (!/^[A-Z0-9-_]{1,50}$/.test(sku)) {
+      return `Variant SKU "${sku}" can only contain uppercase letters, numbers, hyphens, and underscores`;
+    }
+    if (sku === parentSku.trim().toUpperCase() || skus.has(sku)) {
+      return `Variant SKU "${sku}" is used more than once`;
+    }
+    skus.add(sku);
+
+    if (row.unit_price.trim()) {
+      const price = parseFloat(row.unit_price);
+      if (isNaN(price) || price < 0 || price > 999999.99) {
+        return `Variant ${Object.values(row.options).join(' / ')} has an invalid price`;
+      }
+    }
+  }
+
+  return null;
+};
+
+export const toSaveVariantsRequest = (attributes: VariantAttributeDraft[], rows: VariantRowDraft[], parentSku: string): SaveProductVariantsRequest => ({
+  attributes: parseAttributes(attributes),
+  variants: rows.map(row => ({
+    id: row.id,
+    options: row.options,
+    sku: row.sku.trim().toUpperCase() || defaultVariantSku(parentSku, Object.values(row.options)),
+    barcode: row.barcode.trim() || undefined,
+    unit_price: row.unit_price.trim() ? parseFloat(row.unit_price) : null,
+    is_active: row.is_active
+  }))
+});
+
+/**
+ * Attribute editor plus the generated matrix of variants, one row per combination of values
+ */
+export function ProductVariantsEditor({ parentSku, parentPrice, attributes, rows, onChange, disabled }: ProductVariantsEditorProps) {
+  const updateAttributes = (next: VariantAttributeDraft[]) => {
+    onChange(next, buildVariantRows(next, rows));
+  };
+
+  const updateAttribute = (index: number, field: keyof VariantAttributeDraft, value: string) => {
+    updateAttributes(attributes.map((attribute, i) => (i === index ? { ...attribute, [field]: value } : attribute)));
+  };
+
+  const updateRow = (index: number, changes: Partial<VariantRowDraft>) => {
+    onChange(attributes, rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="h-5 w-5" />
+          Variants
+        </CardTitle>
+        <CardDescription>
+          Sizes, colors and other options; each variant gets its own SKU, barcode, price and stock
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {attributes.map((attribute, index) => (
+          <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor={`variant-attribute-${index}`}>Attribute</Label>
+              <Input
+                id={`variant-attribute-${index}`}
+                value={attribute.name}
+                onChange={(e) => updateAttribute(index, 'name', e.target.value)}
+                placeholder="e.g. Size"
+                disabled={disabled}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`variant-values-${index}`}>Values</Label>
+              <Input
+                id={`variant-values-${index}`}
+                value={attribute.values}
+                onChange={(e) => updateAttribute(index, 'values', e.target.value)}
+                placeholder="Comma separated, e.g. S, M, L"
+                disabled={disabled}
+              />
+            </div>
+            {!disabled && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => updateAttributes(attributes.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+
+        {!disabled && attributes.length < MAX_VARIANT_ATTRIBUTES && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => updateAttributes([...attributes, { name: '', values: '' }])}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add attribute
+          </Button>
+        )}
+
+        {rows.length > 0 && (
+          <>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Badge variant="secondary">{rows.length} variants</Badge>
+              Leave SKU or price blank to use the generated SKU and the product price
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Variant</TableHead>
+                  <TableHead>SKU</TableHead>
+                  <TableHead>Barcode</TableHead>
+                  <TableHead className="w-32">Price</TableHead>
+                  <TableHead className="w-20">Active</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row, index) => {
+                  const values = Object.values(row.options);
+                  return (
+                    <TableRow key={valuesKey(values)}>
+                      <TableCell className="whitespace-nowrap">{values.join(' / ')}</TableCell>
+                      <TableCell>
+                        <Input
+                          value={row.sku}
+                          onChange={(e) => updateRow(index, { sku: e.target.value.toUpperCase() })}
+                          placeholder={defaultVariantSku(parentSku, values)}
+                          disabled={disabled}
+                          className="font-mono"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={row.barcode}
+                          onChange={(e) => updateRow(index, { barcode: e.target.value })}
+                          placeholder="Optional"
+                          disabled={disabled}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max="999999.99"
+                          value={row.unit_price}
+                          onChange={(e) => updateRow(index, { unit_price: e.target.value })}
+                          placeholder={parentPrice || '0.00'}
+                          disabled={disabled}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={row.is_active}
+                          onCheckedChange={(checked) => updateRow(index, { is_active: checked })}
+                          disabled={disabled}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { Plus, Search, Filter, Edit, Trash2, Eye, Package } from 'lucide-react';
+import { Plus, Search, Filter, Edit, Trash2, Eye, Package, Upload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -14,6 +14,8 @@ import { productsApi, categoriesApi } from '@/lib/api/inventory';
 import { Product, ProductFilters, TableState, ModalState, Category } from '@/types/inventory';
 import { ProductForm } from './_components/ProductForm';
 import { ProductFiltersComponent } from './_components/ProductFilters';
+import { ProductImportWizard } from './_components/ProductImportWizard';
+import { ExportMenu } from '@/components/export-menu';
 
 export default function ProductsPage() {
   const { toast } = useToast();
@@ -32,7 +34,9 @@ export default function ProductsPage() {
     page: 1,
     limit: 10,
     sort_by: 'name',
-    sort_order: 'asc'
+    sort_order: 'asc',
+    // Variants are listed under their parent rather than as separate products
+    variant_scope: 'catalog'
   });
   const [modalState, setModalState] = useState<ModalState>({
     isOpen: false,
@@ -40,6 +44,7 @@ export default function ProductsPage() {
     selectedItem: null
   });
   const [searchTerm, setSearchTerm] = useState('');
+  const [importOpen, setImportOpen] = useState(false);
 
   // Load products
   const loadProducts = async () => {
@@ -192,10 +197,17 @@ export default function ProductsPage() {
             Manage your product inventory
           </p>
         </div>
-        <Button onClick={handleCreate}>
-          <Plus className="mr-2 h-4 w-4" />
-          Add Product
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setImportOpen(true)}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import
+          </Button>
+          <ExportMenu name="products" onExport={(format) => productsApi.exportProducts(format, filters)} />
+          <Button onClick={handleCreate}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Product
+          </Button>
+        </div>
       </div>
 
       {/* Search and Filters */}
@@ -309,7 +321,12 @@ export default function ProductsPage() {
                     <TableRow key={product.id}>
                       <TableCell>
                         <div>
-                          <div className="font-medium">{product.name}</div>
+                          <div className="font-medium flex items-center gap-2">
+                            {product.name}
+                            {!!product.variant_count && (
+                              <Badge variant="secondary">{product.variant_count} variants</Badge>
+                            )}
+                          </div>
                           {product.description && (
                             <div className="text-sm text-muted-foreground truncate max-w-xs">
                               {product.description}
@@ -463,6 +480,13 @@ export default function ProductsPage() {
           />
         </DialogContent>
       </Dialog>
+
+      {/* Product Import Wizard */}
+      <ProductImportWizard
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        onImported={loadProducts}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -1,12 +1,15 @@
 'use client';
 
 import React from 'react';
-import { Edit, CheckCircle, Package, Calendar, User, DollarSign, FileText } from 'lucide-react';
+import { Edit, CheckCircle, Package, Calendar, User, DollarSign, FileText, Download } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { purchaseOrdersApi } from '@/lib/api/purchase-orders';
+import { downloadBlob } from '@/lib/utils';
 import { PurchaseOrder, PurchaseOrderStatus } from '@/types/purchase-orders';
 import hackLog from '@/lib/logger';
 
@@ -21,6 +24,8 @@ export function PurchaseOrderDetails({
   onEdit, 
   onReceive 
 }: PurchaseOrderDetailsProps) {
+  const { toast } = useToast();
+  const [downloading, setDownloading] = React.useState(false);
 
   // Component mount logging
   React.useEffect(() => {
@@ -37,6 +42,7 @@ export function PurchaseOrderDetails({
       case PurchaseOrderStatus.PENDING:
         return "outline";
       case PurchaseOrderStatus.CONFIRMED:
+      case PurchaseOrderStatus.PARTIALLY_RECEIVED:
         return "default";
       case PurchaseOrderStatus.RECEIVED:
         return "secondary";
@@ -72,10 +78,11 @@ export function PurchaseOrderDetails({
       return { totalOrdered: 0, totalReceived: 0, totalValue: 0 };
     }
 
+    // Lines can be in different units, so count in base units
     return purchaseOrder.items.reduce((totals, item) => {
       return {
-        totalOrdered: totals.totalOrdered + item.quantity_ordered,
-        totalReceived: totals.totalReceived + item.quantity_received,
+        totalOrdered: totals.totalOrdered + Math.round(item.quantity_ordered * item.unit_factor),
+        totalReceived: totals.totalReceived + Math.round(item.quantity_received * item.unit_factor),
         totalValue: totals.totalValue + parseFloat(item.total_cost)
       };
     }, { totalOrdered: 0, totalReceived: 0, totalValue: 0 });
@@ -83,6 +90,29 @@ export function PurchaseOrderDetails({
 
   const itemTotals = calculateItemsTotal();
 
+  // Download the printable PDF
+  const handleDownloadPdf = async () => {
+    setDownloading(true);
+
+    try {
+      const pdf = await purchaseOrdersApi.downloadPurchaseOrderPdf(purchaseOrder.id);
+      downloadBlob(pdf, `${purchaseOrder.order_number}.pdf`);
+    } catch (error: any) {
+      hackLog.error('Failed to download purchase order PDF', {
+        error: error.message,
+        orderId: purchaseOrder.id
+      });
+
+      toast({
+        title: "Error",
+        description: error.message || "Failed to download purchase order PDF",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
   return (
     <div className="space-y-6">
       {/* Header with Actions */}
@@ -97,11 +127,15 @@ export function PurchaseOrderDetails({
           <Badge variant={getStatusBadgeVariant(purchaseOrder.status)}>
             {purchaseOrder.status}
           </Badge>
+          <Button onClick={handleDownloadPdf} variant="outline" disabled={downloading} className="gap-2">
+            <Download className="h-4 w-4" />
+            {downloading ? 'Preparing...' : 'PDF'}
+          </Button>
           <Button onClick={onEdit} className="gap-2">
             <Edit className="h-4 w-4" />
             Edit
           </Button>
-          {purchaseOrder.status === PurchaseOrderStatus.CONFIRMED && (
+          {(purchaseOrder.status === PurchaseOrderStatus.CONFIRMED || purchaseOrder.status === PurchaseOrderStatus.PARTIALLY_RECEIVED) && (
             <Button 
               onClick={() => onReceive(purchaseOrder)} 
               variant="outline"
@@ -237,11 +271,11 @@ export function PurchaseOrderDetails({
                         </code>
                       </TableCell>
                       <TableCell className="text-right">
-                        {item.quantity_ordered.toLocaleString()}
+                        {item.quantity_ordered.toLocaleString()} {item.unit_code}
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex items-center justify-end gap-2">
-                          {item.quantity_received.toLocaleString()}
+                          {item.quantity_received.toLocaleString()} {item.unit_code}
                           {item.quantity_received >= item.quantity_ordered ? (
                             <CheckCircle className="h-4 w-4 text-green-600" />
                           ) : item.quantity_received > 0 ? (
@@ -116,6 +116,7 @@ export function PurchaseOrderFiltersComponent({
                   <SelectItem value="__all__">All statuses</SelectItem>
                   <SelectItem value={PurchaseOrderStatus.PENDING}>Pending</SelectItem>
                   <SelectItem value={PurchaseOrderStatus.CONFIRMED}>Confirmed</SelectItem>
+                  <SelectItem value={PurchaseOrderStatus.PARTIALLY_RECEIVED}>Partially Received</SelectItem>
                   <SelectItem value={PurchaseOrderStatus.RECEIVED}>Received</SelectItem>
                   <SelectItem value={PurchaseOrderStatus.CANCELLED}>Cancelled</SelectItem>
                 </SelectContent>
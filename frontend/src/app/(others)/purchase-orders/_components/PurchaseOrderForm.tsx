@@ -24,6 +24,7 @@ import { productsApi } from '@/lib/api/inventory';
 import { suppliersApi } from '@/lib/api/suppliers';
 import { Product } from '@/types/inventory';
 import { Supplier } from '@/types/suppliers';
+import { productUnitOptions, convertUnitPrice } from '@/lib/utils';
 import hackLog from '@/lib/logger';
 
 interface PurchaseOrderFormProps {
@@ -81,6 +82,7 @@ export function PurchaseOrderForm({
         items: initialData.items?.map(item => ({
           id: item.id,
           product_id: item.product.id,
+          unit_code: item.unit_code,
           quantity_ordered: item.quantity_ordered,
           quantity_received: item.quantity_received,
           unit_cost: parseFloat(item.unit_cost),
@@ -98,7 +100,7 @@ export function PurchaseOrderForm({
   const loadProducts = async () => {
     setLoadingProducts(true);
     try {
-      const response = await productsApi.getProducts({ is_active: true, limit: 100 });
+      const response = await productsApi.getProducts({ is_active: true, limit: 100, variant_scope: 'sellable' });
       setProducts(response.data);
       hackLog.dev('Products loaded for purchase order form', {
         count: response.data.length
@@ -183,6 +185,8 @@ export function PurchaseOrderForm({
 
       if (item.quantity_ordered <= 0) {
         itemError.quantity_ordered = 'Quantity must be greater than 0';
+      } else if (Math.round(item.quantity_ordered * 1000) / 1000 !== item.quantity_ordered) {
+        itemError.quantity_ordered = 'Quantity can have at most 3 decimal places';
       }
 
       if (item.unit_cost <= 0) {
@@ -237,6 +241,7 @@ export function PurchaseOrderForm({
         notes: formData.notes || undefined,
         items: formData.items.map(item => ({
           product_id: item.product_id,
+          unit_code: item.unit_code || undefined,
           quantity_ordered: item.quantity_ordered,
           quantity_received: item.quantity_received || 0,
           unit_cost: item.unit_cost,
@@ -269,6 +274,7 @@ export function PurchaseOrderForm({
         ...prev.items,
         {
           product_id: '',
+          unit_code: '',
           quantity_ordered: 1,
           quantity_received: 0,
           unit_cost: 0,
@@ -311,10 +317,19 @@ export function PurchaseOrderForm({
       const updatedItem = { ...newItems[index] };
 
       if (field === 'product_id' && value) {
-        // Auto-populate unit cost from product data
+        // Auto-populate the purchase unit and unit cost from product data
         const selectedProduct = products.find(p => p.id === value);
         if (selectedProduct) {
-          updatedItem.unit_cost = parseFloat(selectedProduct.unit_price);
+          updatedItem.unit_code = selectedProduct.purchase_unit || selectedProduct.base_unit;
+          updatedItem.unit_cost = convertUnitPrice(selectedProduct, parseFloat(selectedProduct.unit_price), updatedItem.unit_code);
+        }
+      }
+
+      if (field === 'unit_code') {
+        // Reprice the line for the new unit
+        const selectedProduct = products.find(p => p.id === updatedItem.product_id);
+        if (selectedProduct) {
+          updatedItem.unit_cost = convertUnitPrice(selectedProduct, parseFloat(selectedProduct.unit_price), value);
         }
       }
 
@@ -322,7 +337,7 @@ export function PurchaseOrderForm({
       (updatedItem as any)[field] = value;
 
       // Recalculate total cost
-      if (field === 'quantity_ordered' || field === 'unit_cost') {
+      if (field === 'product_id' || field === 'unit_code' || field === 'quantity_ordered' || field === 'unit_cost') {
         updatedItem.total_cost = updatedItem.quantity_ordered * updatedItem.unit_cost;
       }
 
@@ -358,6 +373,12 @@ export function PurchaseOrderForm({
     return product ? `${product.name} (${product.sku})` : '';
   };
 
+  // Units the line can be ordered in; products outside the loaded list keep their current unit
+  const getUnitCodes = (item: PurchaseOrderItemFormData): string[] => {
+    const product = products.find(p => p.id === item.product_id);
+    return product ? productUnitOptions(product).map(unit => unit.code) : (item.unit_code ? [item.unit_code] : []);
+  };
+
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       {/* Basic Information */}
@@ -485,6 +506,7 @@ export function PurchaseOrderForm({
                   <TableHeader>
                     <TableRow>
                       <TableHead>Product *</TableHead>
+                      <TableHead className="w-[110px]">Unit</TableHead>
                       <TableHead className="w-[120px]">Qty Ordered *</TableHead>
                       {initialData && <TableHead className="w-[120px]">Qty Received</TableHead>}
                       <TableHead className="w-[120px]">Unit Cost *</TableHead>
@@ -520,12 +542,30 @@ export function PurchaseOrderForm({
                           )}
                         </TableCell>
 
+                        <TableCell>
+                          <Select
+                            value={item.unit_code}
+                            onValueChange={(value) => updateItem(index, 'unit_code', value)}
+                            disabled={!item.product_id || (!!item.id && item.quantity_received > 0)}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Unit" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {getUnitCodes(item).map(code => (
+                                <SelectItem key={code} value={code}>{code}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+
                         <TableCell>
                           <Input
                             type="number"
-                            min="1"
+                            min="0.001"
+                            step="0.001"
                             value={item.quantity_ordered}
-                            onChange={(e) => updateItem(index, 'quantity_ordered', parseInt(e.target.value) || 0)}
+                            onChange={(e) => updateItem(index, 'quantity_ordered', parseFloat(e.target.value) || 0)}
                             className="w-full"
                           />
                           {errors.items && errors.items[index]?.quantity_ordered && (
@@ -538,8 +578,9 @@ export function PurchaseOrderForm({
                             <Input
                               type="number"
                               min="0"
+                              step="0.001"
                               value={item.quantity_received}
-                              onChange={(e) => updateItem(index, 'quantity_received', parseInt(e.target.value) || 0)}
+                              onChange={(e) => updateItem(index, 'quantity_received', parseFloat(e.target.value) || 0)}
                               className="w-full"
                             />
                           </TableCell>
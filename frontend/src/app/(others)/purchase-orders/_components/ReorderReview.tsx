@@ -0,0 +1,319 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { RefreshCw, PackagePlus, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { purchaseOrdersApi } from '@/lib/api/purchase-orders';
+import {
+  PurchaseOrder,
+  ReorderSuggestionsResponse,
+  ReorderDraftItemRequest
+} from '@/types/purchase-orders';
+import hackLog from '@/lib/logger';
+
+interface ReorderReviewProps {
+  onDraftsCreated: (orders: PurchaseOrder[]) => void;
+  onCancel: () => void;
+}
+
+interface ReviewLine {
+  selected: boolean;
+  quantity: number;
+  unit_cost: number;
+}
+
+export function ReorderReview({ onDraftsCreated, onCancel }: ReorderReviewProps) {
+  const { toast } = useToast();
+
+  const [suggestions, setSuggestions] = useState<ReorderSuggestionsResponse | null>(null);
+  const [lines, setLines] = useState<Record<string, ReviewLine>>({});
+  const [expectedDeliveryDate, setExpectedDeliveryDate] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Load suggestions and preselect every line from an active supplier
+  const loadSuggestions = async () => {
+    setLoading(true);
+
+    try {
+      const response = await purchaseOrdersApi.getReorderSuggestions();
+      setSuggestions(response);
+
+      const initialLines: Record<string, ReviewLine> = {};
+      for (const group of response.groups) {
+        for (const item of group.items) {
+          initialLines[item.product_id] = {
+            selected: group.supplier_active,
+            quantity: item.suggested_quantity,
+            unit_cost: item.unit_cost
+          };
+        }
+      }
+      setLines(initialLines);
+
+      hackLog.dev('Reorder suggestions loaded', {
+        suppliers: response.groups.length,
+        unassigned: response.unassigned.length
+      });
+    } catch (error: any) {
+      hackLog.error('Failed to load reorder suggestions', {
+        error: error.message
+      });
+
+      toast({
+        title: "Error loading reorder suggestions",
+        description: error.message || "Failed to load reorder suggestions",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    hackLog.componentMount('ReorderReview', {
+      timestamp: new Date().toISOString()
+    });
+    loadSuggestions();
+  }, []);
+
+  const updateLine = (productId: string, changes: Partial<ReviewLine>) => {
+    setLines(prev => ({
+      ...prev,
+      [productId]: { ...prev[productId], ...changes }
+    }));
+  };
+
+  const selectedItems = (suggestions?.groups || []).flatMap(group =>
+    group.items
+      .filter(item => lines[item.product_id]?.selected && lines[item.product_id]?.quantity > 0)
+      .map((item): ReorderDraftItemRequest => ({
+        product_id: item.product_id,
+        supplier_id: group.supplier_id,
+        quantity: lines[item.product_id].quantity,
+        unit_cost: lines[item.product_id].unit_cost
+      }))
+  );
+
+  const groupTotal = (supplierId: string): number => {
+    const group = suggestions?.groups.find(g => g.supplier_id === supplierId);
+    if (!group) return 0;
+    return group.items.reduce((sum, item) => {
+      const line = lines[item.product_id];
+      return line?.selected ? sum + line.quantity * line.unit_cost : sum;
+    }, 0);
+  };
+
+  const formatCurrency = (amount: number): string => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(amount);
+  };
+
+  const handleCreateDrafts = async () => {
+    if (selectedItems.length === 0) {
+      toast({
+        title: "Nothing selected",
+        description: "Select at least one product to reorder",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      hackLog.formSubmit('createReorderDrafts', {
+        itemsCount: selectedItems.length,
+        component: 'ReorderReview'
+      });
+
+      const orders = await purchaseOrdersApi.createReorderDrafts({
+        items: selectedItems,
+        expected_delivery_date: expectedDeliveryDate || undefined
+      });
+
+      toast({
+        title: "Draft purchase orders created",
+        description: `${orders.length} pending purchase order${orders.length === 1 ? '' : 's'} created`,
+      });
+
+      onDraftsCreated(orders);
+    } catch (error: any) {
+      hackLog.error('Failed to create reorder drafts', {
+        error: error.message,
+        itemsCount: selectedItems.length
+      });
+
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create draft purchase orders",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const hasSuggestions = !!suggestions && (suggestions.groups.length > 0 || suggestions.unassigned.length > 0);
+
+  return (
+    <div className="space-y-6">
+      {!hasSuggestions ? (
+        <div className="text-center py-8 text-gray-500">
+          Nothing needs reordering. Every product is above its reorder point.
+        </div>
+      ) : (
+        <>
+          {suggestions!.groups.map(group => (
+            <Card key={group.supplier_id}>
+              <CardHeader className="pb-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle className="text-lg">{group.supplier_name}</CardTitle>
+                    <CardDescription>
+                      {group.items.length} product{group.items.length === 1 ? '' : 's'} below reorder point
+                    </CardDescription>
+                  </div>
+                  <div className="text-right">
+                    {!group.supplier_active && (
+                      <Badge variant="destructive" className="mb-1">Inactive supplier</Badge>
+                    )}
+                    <div className="font-semibold">{formatCurrency(groupTotal(group.supplier_id))}</div>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="rounded-md border overflow-hidden">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[40px]"></TableHead>
+                        <TableHead>Product</TableHead>
+                        <TableHead className="text-right">Available</TableHead>
+                        <TableHead className="text-right">On Order</TableHead>
+                        <TableHead className="text-right">Reorder / Target</TableHead>
+                        <TableHead className="w-[110px]">Quantity</TableHead>
+                        <TableHead className="w-[120px]">Unit Cost</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {group.items.map(item => {
+                        const line = lines[item.product_id];
+                        return (
+                          <TableRow key={item.product_id}>
+                            <TableCell>
+                              <Checkbox
+                                checked={line?.selected ?? false}
+                                disabled={!group.supplier_active}
+                                onCheckedChange={(checked) => updateLine(item.product_id, { selected: checked === true })}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <div className="font-medium">{item.product_name}</div>
+                              <div className="text-sm text-muted-foreground">
+                                {item.product_sku} · in {item.base_unit}
+                                {item.supplier_source === 'LAST_PURCHASE' && ' · last supplier used'}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-right">{item.quantity_available}</TableCell>
+                            <TableCell className="text-right">{item.on_order}</TableCell>
+                            <TableCell className="text-right">
+                              {item.reorder_point} / {item.target_stock_level}
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min={1}
+                                value={line?.quantity ?? 0}
+                                onChange={(e) => updateLine(item.product_id, { quantity: parseInt(e.target.value) || 0 })}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min={0}
+                                step="0.01"
+                                value={line?.unit_cost ?? 0}
+                                onChange={(e) => updateLine(item.product_id, { unit_cost: parseFloat(e.target.value) || 0 })}
+                              />
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+
+          {suggestions!.unassigned.length > 0 && (
+            <Card className="border-amber-300">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <AlertTriangle className="h-5 w-5 text-amber-600" />
+                  No supplier assigned
+                </CardTitle>
+                <CardDescription>
+                  Set a preferred supplier on these products to include them in reorders
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-1 text-sm">
+                  {suggestions!.unassigned.map(item => (
+                    <li key={item.product_id} className="flex justify-between">
+                      <span>{item.product_name} <span className="text-muted-foreground">({item.product_sku})</span></span>
+                      <span className="text-muted-foreground">suggested {item.suggested_quantity} {item.base_unit}</span>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="reorder-expected-delivery">Expected Delivery Date</Label>
+          <Input
+            id="reorder-expected-delivery"
+            type="date"
+            value={expectedDeliveryDate}
+            onChange={(e) => setExpectedDeliveryDate(e.target.value)}
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={loadSuggestions} disabled={loading || submitting} className="gap-2">
+            <RefreshCw className="h-4 w-4" />
+            Refresh
+          </Button>
+          <Button variant="outline" onClick={onCancel} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreateDrafts} disabled={submitting || selectedItems.length === 0} className="gap-2">
+            <PackagePlus className="h-4 w-4" />
+            {submitting ? 'Creating...' : `Create Draft Orders (${selectedItems.length})`}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { Plus, Search, Filter, Edit, Trash2, Eye, ShoppingCart, TruckIcon, CheckCircle } from 'lucide-react';
+import { Plus, Search, Filter, Edit, Trash2, Eye, ShoppingCart, TruckIcon, CheckCircle, PackagePlus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -23,6 +23,8 @@ import hackLog from '@/lib/logger';
 import { PurchaseOrderFiltersComponent } from './_components/PurchaseOrderFilters';
 import { PurchaseOrderForm } from './_components/PurchaseOrderForm';
 import { PurchaseOrderDetails } from './_components/PurchaseOrderDetails';
+import { ReorderReview } from './_components/ReorderReview';
+import { ExportMenu } from '@/components/export-menu';
 
 export default function PurchaseOrdersPage() {
   const { toast } = useToast();
@@ -51,6 +53,7 @@ export default function PurchaseOrdersPage() {
     selectedItem: null
   });
   const [searchTerm, setSearchTerm] = useState('');
+  const [reorderOpen, setReorderOpen] = useState(false);
 
   // Component mount logging
   useEffect(() => {
@@ -123,6 +126,7 @@ export default function PurchaseOrdersPage() {
         byStatus: {
           [PurchaseOrderStatus.PENDING]: 0,
           [PurchaseOrderStatus.CONFIRMED]: 0,
+          [PurchaseOrderStatus.PARTIALLY_RECEIVED]: 0,
           [PurchaseOrderStatus.RECEIVED]: 0,
           [PurchaseOrderStatus.CANCELLED]: 0
         },
@@ -277,6 +281,7 @@ export default function PurchaseOrdersPage() {
       case PurchaseOrderStatus.PENDING:
         return "outline";
       case PurchaseOrderStatus.CONFIRMED:
+      case PurchaseOrderStatus.PARTIALLY_RECEIVED:
         return "default";
       case PurchaseOrderStatus.RECEIVED:
         return "secondary";
@@ -315,13 +320,24 @@ export default function PurchaseOrdersPage() {
             Manage purchase orders and track supplier deliveries
           </p>
         </div>
-        <Button 
-          onClick={() => setModalState({ isOpen: true, mode: 'create', selectedItem: null })}
-          className="gap-2"
-        >
-          <Plus className="h-4 w-4" />
-          New Purchase Order
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setReorderOpen(true)}
+            className="gap-2"
+          >
+            <PackagePlus className="h-4 w-4" />
+            Reorder Suggestions
+          </Button>
+          <ExportMenu name="purchase-orders" onExport={(format) => purchaseOrdersApi.exportPurchaseOrders(format, filters)} />
+          <Button 
+            onClick={() => setModalState({ isOpen: true, mode: 'create', selectedItem: null })}
+            className="gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            New Purchase Order
+          </Button>
+        </div>
       </div>
 
       {/* Stats Cards */}
@@ -490,7 +506,7 @@ export default function PurchaseOrdersPage() {
                             >
                               <Edit className="h-4 w-4" />
                             </Button>
-                            {order.status === PurchaseOrderStatus.CONFIRMED && (
+                            {(order.status === PurchaseOrderStatus.CONFIRMED || order.status === PurchaseOrderStatus.PARTIALLY_RECEIVED) && (
                               <Button
                                 variant="ghost"
                                 size="sm"
@@ -601,6 +617,28 @@ export default function PurchaseOrdersPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Reorder Review Modal */}
+      <Dialog open={reorderOpen} onOpenChange={setReorderOpen}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Reorder Suggestions</DialogTitle>
+            <DialogDescription>
+              Review products at or below their reorder point and create pending purchase orders per supplier.
+            </DialogDescription>
+          </DialogHeader>
+          {reorderOpen && (
+            <ReorderReview
+              onDraftsCreated={() => {
+                setReorderOpen(false);
+                loadPurchaseOrders();
+                loadStats();
+              }}
+              onCancel={() => setReorderOpen(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* View Modal */}
       <Dialog open={modalState.isOpen && modalState.mode === 'view'} onOpenChange={(open) => {
         if (!open) {
@@ -0,0 +1,148 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { paymentsApi } from '@/lib/api/payments';
+import { PaymentMethod, PaymentType, PAYMENT_METHOD_LABELS } from '@/types/payments';
+
+export interface PaymentTarget {
+  invoiceId: string;
+  invoiceNumber: string;
+  // Balance due for a payment, amount paid for a refund
+  maxAmount: number;
+}
+
+interface PaymentDialogProps {
+  type: PaymentType;
+  target: PaymentTarget | null;
+  onClose: () => void;
+  onRecorded: () => void;
+}
+
+export function PaymentDialog({ type, target, onClose, onRecorded }: PaymentDialogProps) {
+  const { toast } = useToast();
+  const [method, setMethod] = useState<PaymentMethod>('CASH');
+  const [amount, setAmount] = useState('');
+  const [reference, setReference] = useState('');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Start from the full amount each time the dialog opens
+  useEffect(() => {
+    if (target) {
+      setMethod('CASH');
+      setAmount(target.maxAmount.toFixed(2));
+      setReference('');
+      setNotes('');
+    }
+  }, [target]);
+
+  const isRefund = type === 'REFUND';
+  const parsedAmount = parseFloat(amount) || 0;
+  const canSubmit = !!target && parsedAmount > 0 && parsedAmount <= target.maxAmount;
+
+  const handleSubmit = async () => {
+    if (!target || !canSubmit) return;
+
+    setSubmitting(true);
+    try {
+      const request = {
+        sales_invoice_id: target.invoiceId,
+        payment_method: method,
+        amount: parsedAmount,
+        reference: reference.trim() || undefined,
+        notes: notes.trim() || undefined
+      };
+      const summary = isRefund
+        ? await paymentsApi.recordRefund(request)
+        : await paymentsApi.recordPayment(request);
+
+      toast({
+        title: 'Success',
+        description: `${isRefund ? 'Refund' : 'Payment'} recorded on ${target.invoiceNumber}; invoice is now ${summary.payment_status}`
+      });
+      onRecorded();
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || `Failed to record ${isRefund ? 'refund' : 'payment'}`,
+        variant: 'destructive'
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isRefund ? 'Record Refund' : 'Record Payment'}</DialogTitle>
+          <DialogDescription>
+            {target && (isRefund
+              ? `Pay money back on ${target.invoiceNumber} (up to ${target.maxAmount.toFixed(2)} paid)`
+              : `Take payment on ${target.invoiceNumber} (${target.maxAmount.toFixed(2)} due)`)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Method</Label>
+            <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map((key) => (
+                  <SelectItem key={key} value={key}>{PAYMENT_METHOD_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="payment-amount">Amount</Label>
+            <Input
+              id="payment-amount"
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="payment-reference">Reference</Label>
+            <Input
+              id="payment-reference"
+              placeholder="Card slip, transfer or cheque number"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="payment-notes">Notes</Label>
+            <Input
+              id="payment-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || submitting}>
+            {submitting ? 'Saving...' : isRefund ? 'Record Refund' : 'Record Payment'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,318 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { ChevronDown, ChevronRight, RefreshCw, Wallet, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { paymentsApi } from '@/lib/api/payments';
+import { ArAging, ArAgingBuckets, Payment, PaymentType, PAYMENT_METHOD_LABELS } from '@/types/payments';
+import { PaymentDialog, PaymentTarget } from './_components/PaymentDialog';
+
+const BUCKET_COLUMNS: { key: keyof ArAgingBuckets; label: string }[] = [
+  { key: 'current', label: '0–30 days' },
+  { key: 'days_31_60', label: '31–60 days' },
+  { key: 'days_61_90', label: '61–90 days' },
+  { key: 'days_over_90', label: '90+ days' },
+  { key: 'total', label: 'Total' }
+];
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export default function ReceivablesPage() {
+  const { toast } = useToast();
+  const [asOf, setAsOf] = useState(today());
+  const [aging, setAging] = useState<ArAging | null>(null);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [dialogType, setDialogType] = useState<PaymentType>('PAYMENT');
+  const [dialogTarget, setDialogTarget] = useState<PaymentTarget | null>(null);
+
+  // Load the aging report and the latest payments together
+  const loadReceivables = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [agingReport, recentPayments] = await Promise.all([
+        paymentsApi.getArAging({ as_of: asOf }),
+        paymentsApi.getPayments({ page: 1, limit: 10 })
+      ]);
+      setAging(agingReport);
+      setPayments(Array.isArray(recentPayments.data) ? recentPayments.data : []);
+    } catch (error: any) {
+      console.error('Receivables API Error:', error);
+      setAging(null);
+      setError(error.message || 'Failed to load receivables');
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to load receivables',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReceivables();
+  }, [asOf]);
+
+  // Unlinked walk-in balances are grouped by name, so fall back to it for the row key
+  const customerKey = (customerId: string | null, customerName: string | null) =>
+    customerId ?? `name:${customerName ?? ''}`;
+
+  const toggleExpanded = (key: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const openDialog = (type: PaymentType, target: PaymentTarget) => {
+    setDialogType(type);
+    setDialogTarget(target);
+  };
+
+  const handleRecorded = async () => {
+    setDialogTarget(null);
+    await loadReceivables();
+  };
+
+  // Format currency
+  const formatCurrency = (amount: number | string): string => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(typeof amount === 'string' ? parseFloat(amount) : amount);
+  };
+
+  const formatDate = (date: string): string => new Date(date).toLocaleDateString();
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Receivables</h1>
+          <p className="text-muted-foreground">
+            Outstanding invoice balances by age, with payments and refunds
+          </p>
+        </div>
+        <div className="flex gap-2 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="as-of">As of</Label>
+            <Input
+              id="as-of"
+              type="date"
+              value={asOf}
+              max={today()}
+              onChange={(e) => e.target.value && setAsOf(e.target.value)}
+            />
+          </div>
+          <Button variant="outline" onClick={loadReceivables} disabled={loading}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {/* Bucket Totals */}
+      {aging && (
+        <div className="grid gap-4 md:grid-cols-5">
+          {BUCKET_COLUMNS.map(({ key, label }) => (
+            <Card key={key}>
+              <CardHeader className="pb-2">
+                <CardDescription>{label}</CardDescription>
+                <CardTitle className="text-2xl">{formatCurrency(aging.totals[key])}</CardTitle>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Aging Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Accounts Receivable Aging</CardTitle>
+          <CardDescription>
+            Invoices are aged from their invoice date; expand a customer to take a payment
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : error ? (
+            <div className="text-center py-8 text-destructive">
+              {error}
+            </div>
+          ) : !aging || aging.customers.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No outstanding balances as of {asOf}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  {BUCKET_COLUMNS.map(({ key, label }) => (
+                    <TableHead key={key} className="text-right">{label}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {aging.customers.map((customer) => {
+                  const key = customerKey(customer.customer_id, customer.customer_name);
+                  const isExpanded = expanded.has(key);
+                  return (
+                    <React.Fragment key={key}>
+                      <TableRow className="cursor-pointer" onClick={() => toggleExpanded(key)}>
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-2">
+                            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                            {customer.customer_name || 'Walk-in customer'}
+                            {!customer.customer_id && <Badge variant="secondary">Unlinked</Badge>}
+                          </div>
+                        </TableCell>
+                        {BUCKET_COLUMNS.map(({ key: bucket }) => (
+                          <TableCell
+                            key={bucket}
+                            className={bucket === 'total' ? 'text-right font-semibold' : 'text-right'}
+                          >
+                            {customer.buckets[bucket] ? formatCurrency(customer.buckets[bucket]) : '-'}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                      {isExpanded && customer.invoices.map((invoice) => (
+                        <TableRow key={invoice.id} className="bg-muted/50">
+                          <TableCell className="pl-10">
+                            <div className="font-mono text-sm">{invoice.invoice_number}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {formatDate(invoice.created_at)} · {invoice.days_outstanding} days
+                            </div>
+                          </TableCell>
+                          <TableCell colSpan={2} className="text-right text-sm text-muted-foreground">
+                            {formatCurrency(invoice.amount_paid)} paid of {formatCurrency(invoice.total_amount)}
+                          </TableCell>
+                          <TableCell colSpan={2} className="text-right font-medium">
+                            {formatCurrency(invoice.balance_due)} due
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              size="sm"
+                              onClick={() => openDialog('PAYMENT', {
+                                invoiceId: invoice.id,
+                                invoiceNumber: invoice.invoice_number,
+                                maxAmount: invoice.balance_due
+                              })}
+                            >
+                              <Wallet className="mr-2 h-4 w-4" />
+                              Take Payment
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </React.Fragment>
+                  );
+                })}
+                <TableRow className="font-semibold">
+                  <TableCell>Total</TableCell>
+                  {BUCKET_COLUMNS.map(({ key }) => (
+                    <TableCell key={key} className="text-right">{formatCurrency(aging.totals[key])}</TableCell>
+                  ))}
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Recent Payments */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Payments</CardTitle>
+          <CardDescription>
+            The latest payments and refunds across all invoices
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {payments.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No payments recorded yet
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Method</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payments.map((payment) => (
+                  <TableRow key={payment.id}>
+                    <TableCell>{formatDate(payment.received_at)}</TableCell>
+                    <TableCell className="font-mono text-sm">{payment.invoice_number || '-'}</TableCell>
+                    <TableCell>{payment.customer_name || '-'}</TableCell>
+                    <TableCell>
+                      <Badge variant={payment.payment_type === 'REFUND' ? 'destructive' : 'default'}>
+                        {payment.payment_type === 'REFUND' ? 'Refund' : 'Payment'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{PAYMENT_METHOD_LABELS[payment.payment_method]}</TableCell>
+                    <TableCell>{payment.reference || '-'}</TableCell>
+                    <TableCell className="text-right">
+                      {payment.payment_type === 'REFUND' ? '-' : ''}{formatCurrency(payment.amount)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {payment.payment_type === 'PAYMENT' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openDialog('REFUND', {
+                            invoiceId: payment.sales_invoice_id,
+                            invoiceNumber: payment.invoice_number || 'invoice',
+                            maxAmount: parseFloat(payment.amount)
+                          })}
+                        >
+                          <Undo2 className="mr-2 h-4 w-4" />
+                          Refund
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <PaymentDialog
+        type={dialogType}
+        target={dialogTarget}
+        onClose={() => setDialogTarget(null)}
+        onRecorded={handleRecorded}
+      />
+    </div>
+  );
+}
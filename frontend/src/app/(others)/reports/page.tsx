@@ -0,0 +1,293 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, Download, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { reportsApi } from '@/lib/api/reports';
+import { downloadBlob } from '@/lib/utils';
+import { DateRange, DateRangeSelector, lastDays } from '@/components/dashboard/DateRangeSelector';
+import { ReportGranularity } from '@/types/analytics';
+import { MarginGroupBy, MarginReport, MarginRow, MARGIN_GROUP_LABELS } from '@/types/reports';
+
+type SortKey = 'name' | 'quantity_sold' | 'revenue' | 'cost_of_goods_sold' | 'gross_margin' | 'margin_percent' | 'invoice_count';
+
+const COLUMNS: { key: SortKey; label: string; numeric: boolean }[] = [
+  { key: 'name', label: 'Name', numeric: false },
+  { key: 'quantity_sold', label: 'Units Sold', numeric: true },
+  { key: 'revenue', label: 'Revenue', numeric: true },
+  { key: 'cost_of_goods_sold', label: 'COGS', numeric: true },
+  { key: 'gross_margin', label: 'Gross Margin', numeric: true },
+  { key: 'margin_percent', label: 'Margin %', numeric: true },
+  { key: 'invoice_count', label: 'Invoices', numeric: true }
+];
+
+// Quote every field so names containing commas, quotes or line breaks survive the round trip
+const toCsvField = (value: string | number | null | undefined): string =>
+  `"${String(value ?? '').replace(/"/g, '""')}"`;
+
+export default function ReportsPage() {
+  const { toast } = useToast();
+  const [range, setRange] = useState<DateRange>(() => lastDays(30));
+  const [groupBy, setGroupBy] = useState<MarginGroupBy>('product');
+  const [granularity, setGranularity] = useState<ReportGranularity>('day');
+  const [report, setReport] = useState<MarginReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sort, setSort] = useState<{ key: SortKey; direction: 'asc' | 'desc' }>({ key: 'revenue', direction: 'desc' });
+
+  const loadReport = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setReport(await reportsApi.getMarginReport({
+        ...range,
+        group_by: groupBy,
+        granularity: groupBy === 'period' ? granularity : undefined
+      }));
+    } catch (error: any) {
+      console.error('Margin Report API Error:', error);
+      setReport(null);
+      setError(error.message || 'Failed to load margin report');
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to load margin report',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReport();
+  }, [range, groupBy, granularity]);
+
+  // Periods read best in date order, everything else by revenue
+  const changeGroupBy = (value: string) => {
+    setGroupBy(value as MarginGroupBy);
+    setSort(value === 'period' ? { key: 'name', direction: 'asc' } : { key: 'revenue', direction: 'desc' });
+  };
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => prev.key === key
+      ? { key, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+      : { key, direction: key === 'name' ? 'asc' : 'desc' });
+  };
+
+  // Rows without a margin (no revenue) always sort last
+  const sortedRows = useMemo(() => {
+    if (!report) return [];
+
+    const factor = sort.direction === 'asc' ? 1 : -1;
+    return [...report.rows].sort((a, b) => {
+      const left = a[sort.key];
+      const right = b[sort.key];
+      if (left === null) return right === null ? 0 : 1;
+      if (right === null) return -1;
+      if (typeof left === 'string' && typeof right === 'string') {
+        return left.localeCompare(right) * factor;
+      }
+      return ((left as number) - (right as number)) * factor;
+    });
+  }, [report, sort]);
+
+  const exportCsv = () => {
+    if (!report) return;
+
+    const header = [MARGIN_GROUP_LABELS[report.group_by]];
+    if (report.group_by === 'product') header.push('SKU', 'List Price', 'Cost Price');
+    header.push('Units Sold', 'Revenue', 'Cost of Goods Sold', 'Gross Margin', 'Margin %', 'Invoices');
+
+    const toLine = (row: MarginRow) => {
+      const fields: (string | number | null | undefined)[] = [row.name];
+      if (report.group_by === 'product') fields.push(row.sku, row.list_price, row.cost_price);
+      fields.push(row.quantity_sold, row.revenue, row.cost_of_goods_sold, row.gross_margin, row.margin_percent, row.invoice_count);
+      return fields.map(toCsvField).join(',');
+    };
+
+    const lines = [
+      header.map(toCsvField).join(','),
+      ...sortedRows.map(toLine),
+      toLine({ ...report.totals, id: null, name: 'Total' })
+    ];
+
+    downloadBlob(
+      new Blob([lines.join('\r\n')], { type: 'text/csv;charset=utf-8' }),
+      `margins-by-${report.group_by}-${report.start_date}-to-${report.end_date}.csv`
+    );
+  };
+
+  // Format currency
+  const formatCurrency = (amount: number): string => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(amount);
+  };
+
+  const formatPercent = (value: number | null): string => value === null ? '—' : `${value.toFixed(1)}%`;
+
+  const renderSortIcon = (key: SortKey) => {
+    if (sort.key !== key) return <ArrowUpDown className="ml-1 h-3 w-3 opacity-50" />;
+    return sort.direction === 'asc' ? <ArrowUp className="ml-1 h-3 w-3" /> : <ArrowDown className="ml-1 h-3 w-3" />;
+  };
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Profitability Reports</h1>
+          <p className="text-muted-foreground">
+            Revenue, cost of goods sold and gross margin from invoiced sales, net of returns
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={loadReport} disabled={loading}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+          <Button onClick={exportCsv} disabled={!report || report.rows.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <Tabs value={groupBy} onValueChange={changeGroupBy}>
+          <TabsList>
+            {(Object.keys(MARGIN_GROUP_LABELS) as MarginGroupBy[]).map(key => (
+              <TabsTrigger key={key} value={key}>By {MARGIN_GROUP_LABELS[key]}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        <div className="flex flex-wrap items-end gap-2">
+          {groupBy === 'period' && (
+            <div className="space-y-1">
+              <Label htmlFor="granularity">Group by</Label>
+              <Select value={granularity} onValueChange={(value) => setGranularity(value as ReportGranularity)}>
+                <SelectTrigger id="granularity" className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="day">Day</SelectItem>
+                  <SelectItem value="week">Week</SelectItem>
+                  <SelectItem value="month">Month</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <DateRangeSelector value={range} onChange={setRange} />
+        </div>
+      </div>
+
+      {/* Totals */}
+      {report && (
+        <div className="grid gap-4 md:grid-cols-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Revenue</CardDescription>
+              <CardTitle className="text-2xl">{formatCurrency(report.totals.revenue)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Cost of goods sold</CardDescription>
+              <CardTitle className="text-2xl">{formatCurrency(report.totals.cost_of_goods_sold)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Gross margin</CardDescription>
+              <CardTitle className={`text-2xl ${report.totals.gross_margin < 0 ? 'text-destructive' : ''}`}>
+                {formatCurrency(report.totals.gross_margin)}
+              </CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Margin</CardDescription>
+              <CardTitle className="text-2xl">{formatPercent(report.totals.margin_percent)}</CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+      )}
+
+      {/* Margin Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Margins by {MARGIN_GROUP_LABELS[groupBy]}</CardTitle>
+          <CardDescription>
+            {groupBy === 'supplier'
+              ? 'Sales are attributed to each product\'s preferred supplier'
+              : 'Click a column heading to sort'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : !report || report.rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {loading ? 'Loading report...' : 'No sales in this period'}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {COLUMNS.map(column => (
+                    <TableHead key={column.key} className={column.numeric ? 'text-right' : ''}>
+                      <button
+                        type="button"
+                        className={`inline-flex items-center hover:text-foreground ${column.numeric ? 'justify-end w-full' : ''}`}
+                        onClick={() => toggleSort(column.key)}
+                      >
+                        {column.key === 'name' ? MARGIN_GROUP_LABELS[groupBy] : column.label}
+                        {renderSortIcon(column.key)}
+                      </button>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedRows.map(row => (
+                  <TableRow key={row.id ?? row.name}>
+                    <TableCell className="font-medium">
+                      {row.name}
+                      {row.sku && <span className="ml-2 text-xs text-muted-foreground">{row.sku}</span>}
+                    </TableCell>
+                    <TableCell className="text-right">{row.quantity_sold}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.revenue)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.cost_of_goods_sold)}</TableCell>
+                    <TableCell className={`text-right ${row.gross_margin < 0 ? 'text-destructive' : ''}`}>
+                      {formatCurrency(row.gross_margin)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatPercent(row.margin_percent)}</TableCell>
+                    <TableCell className="text-right">{row.invoice_count}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="font-semibold">
+                  <TableCell>Total</TableCell>
+                  <TableCell className="text-right">{report.totals.quantity_sold}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(report.totals.revenue)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(report.totals.cost_of_goods_sold)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(report.totals.gross_margin)}</TableCell>
+                  <TableCell className="text-right">{formatPercent(report.totals.margin_percent)}</TableCell>
+                  <TableCell className="text-right">{report.totals.invoice_count}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
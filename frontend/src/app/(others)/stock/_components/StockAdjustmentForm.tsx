@@ -80,6 +80,7 @@ export function StockAdjustmentForm({ stockItem, onSuccess, onCancel }: StockAdj
     try {
       const transactionData: StockTransactionCreateRequest = {
         product_id: stockItem.product_id,
+        location_id: stockItem.location_id,
         transaction_type: formData.transaction_type,
         reference_type: StockReferenceType.ADJUSTMENT,
         created_by: 'current-user', // TODO: Get from auth context
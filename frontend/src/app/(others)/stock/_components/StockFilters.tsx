@@ -11,8 +11,10 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
 import { categoriesApi } from '@/lib/api/inventory';
+import { locationsApi } from '@/lib/api/locations';
 import { StockFilters, StockStatus } from '@/types/stock';
 import { Category } from '@/types/inventory';
+import { Location } from '@/types/locations';
 import hackLog from '@/lib/logger';
 
 interface StockFiltersComponentProps {
@@ -24,6 +26,7 @@ export function StockFiltersComponent({ filters, onFiltersChange }: StockFilters
   const { toast } = useToast();
   const [isOpen, setIsOpen] = useState(false);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
   const [localFilters, setLocalFilters] = useState<StockFilters>(filters);
 
   // Load categories for filtering
@@ -53,14 +56,29 @@ export function StockFiltersComponent({ filters, onFiltersChange }: StockFilters
     }
   };
 
+  // Load locations for filtering
+  const loadLocations = async () => {
+    try {
+      const response = await locationsApi.getActiveLocations();
+      setLocations(response);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load locations',
+        variant: 'destructive'
+      });
+    }
+  };
+
   // Initialize local filters when props change
   useEffect(() => {
     setLocalFilters(filters);
   }, [filters]);
 
-  // Load categories on mount
+  // Load categories and locations on mount
   useEffect(() => {
     loadCategories();
+    loadLocations();
   }, []);
 
   // Handle filter changes
@@ -97,7 +115,7 @@ export function StockFiltersComponent({ filters, onFiltersChange }: StockFilters
     if (filters.search) count++;
     if (filters.category_id) count++;
     if (filters.status) count++;
-    if (filters.location) count++;
+    if (filters.location_id) count++;
     if (filters.low_stock !== undefined) count++;
     if (filters.out_of_stock !== undefined) count++;
     if (filters.has_reserved !== undefined) count++;
@@ -153,7 +171,7 @@ export function StockFiltersComponent({ filters, onFiltersChange }: StockFilters
                 <SelectItem value="">All categories</SelectItem>
                 {categories.map((category) => (
                   <SelectItem key={category.id} value={category.id}>
-                    {category.name}
+                    {category.path_name}
                   </SelectItem>
                 ))}
               </SelectContent>
@@ -183,11 +201,22 @@ export function StockFiltersComponent({ filters, onFiltersChange }: StockFilters
           {/* Location Filter */}
           <div className="space-y-2">
             <Label>Location</Label>
-            <Input
-              placeholder="Filter by location..."
-              value={localFilters.location || ''}
-              onChange={(e) => handleFilterChange('location', e.target.value)}
-            />
+            <Select
+              value={localFilters.location_id || ''}
+              onValueChange={(value) => handleFilterChange('location_id', value)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="All locations" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="">All locations</SelectItem>
+                {locations.map((location) => (
+                  <SelectItem key={location.id} value={location.id}>
+                    {location.name} ({location.code})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
 
           {/* Quantity Range */}
@@ -12,6 +12,7 @@ import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import { stockApi } from '@/lib/api/stock';
 import { productsApi } from '@/lib/api/inventory';
+import { locationsApi } from '@/lib/api/locations';
 import { 
   StockResponse, 
   CreateStockRequest, 
@@ -19,6 +20,7 @@ import {
   StockFormData 
 } from '@/types/stock';
 import { Product } from '@/types/inventory';
+import { Location } from '@/types/locations';
 import hackLog from '@/lib/logger';
 
 interface StockFormProps {
@@ -33,6 +35,7 @@ export function StockForm({ mode, stockItem, onSuccess, onCancel }: StockFormPro
   const { user } = useAuth();
   const [loading, setLoading] = useState(false);
   const [products, setProducts] = useState<Product[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
   const [formData, setFormData] = useState<StockFormData>({
     product_id: '',
     quantity_available: 0,
@@ -40,7 +43,7 @@ export function StockForm({ mode, stockItem, onSuccess, onCancel }: StockFormPro
     minimum_stock_level: 0,
     maximum_stock_level: 0,
     reorder_point: 0,
-    location: '',
+    location_id: '',
     notes: ''
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -53,7 +56,7 @@ export function StockForm({ mode, stockItem, onSuccess, onCancel }: StockFormPro
         action: 'loadProducts'
       });
 
-      const response = await productsApi.getProducts({ limit: 1000 });
+      const response = await productsApi.getProducts({ limit: 1000, variant_scope: 'sellable' });
       setProducts(response.data);
 
       hackLog.apiSuccess('GET', '/api/products', {
@@ -72,6 +75,20 @@ export function StockForm({ mode, stockItem, onSuccess, onCancel }: StockFormPro
     }
   };
 
+  // Load locations for selection
+  const loadLocations = async () => {
+    try {
+      const response = await locationsApi.getActiveLocations();
+      setLocations(response);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load locations',
+        variant: 'destructive'
+      });
+    }
+  };
+
   // Initialize form data
   useEffect(() => {
     if (mode === 'edit' || mode === 'view') {
@@ -83,12 +100,13 @@ export function StockForm({ mode, stockItem, onSuccess, onCancel }: StockFormPro
           minimum_stock_level: stockItem.minimum_stock_level || 0,
           maximum_stock_level: stockItem.maximum_stock_level || 0,
           reorder_point: stockItem.reorder_point || 0,
-          location: stockItem.location || '',
+          location_id: stockItem.location_id || '',
           notes: stockItem.notes || ''
         });
       }
     }
     loadProducts();
+    loadLocations();
   }, [mode, stockItem]);
 
   // Handle form field changes
@@ -155,7 +173,7 @@ export function StockForm({ mode, stockItem, onSuccess, onCancel }: StockFormPro
           minimum_stock_level: formData.minimum_stock_level || undefined,
           maximum_stock_level: formData.maximum_stock_level || undefined,
           reorder_point: formData.reorder_point || undefined,
-          location: formData.location || undefined,
+          location_id: formData.location_id || undefined,
           notes: formData.notes || undefined,
           created_by: user?.id || ''
         };
@@ -182,7 +200,7 @@ export function StockForm({ mode, stockItem, onSuccess, onCancel }: StockFormPro
           minimum_stock_level: formData.minimum_stock_level || undefined,
           maximum_stock_level: formData.maximum_stock_level || undefined,
           reorder_point: formData.reorder_point || undefined,
-          location: formData.location || undefined,
+          location_id: formData.location_id || undefined,
           notes: formData.notes || undefined,
           updated_by: user?.id || ''
         };
@@ -353,14 +371,28 @@ export function StockForm({ mode, stockItem, onSuccess, onCancel }: StockFormPro
 
       {/* Location */}
       <div className="space-y-2">
-        <Label htmlFor="location">Storage Location</Label>
-        <Input
-          id="location"
-          value={formData.location}
-          onChange={(e) => handleChange('location', e.target.value)}
-          placeholder="e.g., Warehouse A, Shelf B-3"
-          readOnly={isReadOnly}
-        />
+        <Label htmlFor="location_id">Storage Location</Label>
+        {isReadOnly || mode === 'edit' ? (
+          <div className="p-3 bg-muted rounded-md">
+            {stockItem?.location ? `${stockItem.location.name} (${stockItem.location.code})` : 'Default location'}
+          </div>
+        ) : (
+          <Select
+            value={formData.location_id}
+            onValueChange={(value) => handleChange('location_id', value)}
+          >
+            <SelectTrigger id="location_id">
+              <SelectValue placeholder="Default location" />
+            </SelectTrigger>
+            <SelectContent>
+              {locations.map((location) => (
+                <SelectItem key={location.id} value={location.id}>
+                  {location.name} ({location.code})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
       </div>
 
       {/* Notes */}
@@ -78,6 +78,7 @@ export function StockReservationForm({ mode, stockItem, onSuccess, onCancel }: S
         });
 
         await stockApi.reserveStock(stockItem.product_id, {
+          location_id: stockItem.location_id,
           quantity: formData.quantity,
           updated_by: 'current-user-id', // TODO: Get from auth context
           notes: formData.notes || undefined
@@ -99,6 +100,7 @@ export function StockReservationForm({ mode, stockItem, onSuccess, onCancel }: S
         });
 
         await stockApi.releaseStock(stockItem.product_id, {
+          location_id: stockItem.location_id,
           quantity: formData.quantity,
           updated_by: 'current-user-id', // TODO: Get from auth context
           notes: formData.notes || undefined
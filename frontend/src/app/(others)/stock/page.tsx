@@ -1,7 +1,8 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { Plus, Search, Filter, Edit, Trash2, Eye, Package, TrendingUp, TrendingDown, AlertTriangle } from 'lucide-react';
+import Link from 'next/link';
+import { Plus, Search, Filter, Edit, Trash2, Eye, Package, TrendingUp, TrendingDown, AlertTriangle, Calculator } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -11,6 +12,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
 import { stockApi } from '@/lib/api/stock';
+import { ROUTES } from '@/constants/routes';
 import { 
   StockResponse, 
   StockFilters, 
@@ -22,6 +24,7 @@ import hackLog from '@/lib/logger';
 import { StockFiltersComponent } from './_components/StockFilters';
 import { StockReservationForm } from './_components/StockReservationForm';
 import { StockAdjustmentForm } from './_components/StockAdjustmentForm';
+import { ExportMenu } from '@/components/export-menu';
 
 export default function StockPage() {
   const { toast } = useToast();
@@ -240,10 +243,19 @@ export default function StockPage() {
             Manage inventory levels, track stock movements, and monitor availability
           </p>
         </div>
-        <Button onClick={handleCreate} className="flex items-center gap-2">
-          <Plus className="h-4 w-4" />
-          Add Stock
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href={`${ROUTES.STOCK}/valuation`} className="flex items-center gap-2">
+              <Calculator className="h-4 w-4" />
+              Valuation
+            </Link>
+          </Button>
+          <ExportMenu name="stock" onExport={(format) => stockApi.exportStock(format, filters)} />
+          <Button onClick={handleCreate} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            Add Stock
+          </Button>
+        </div>
       </div>
 
       {/* Stats Cards */}
@@ -352,6 +364,7 @@ export default function StockPage() {
                   </TableHead>
                   <TableHead>SKU</TableHead>
                   <TableHead>Category</TableHead>
+                  <TableHead>Location</TableHead>
                   <TableHead 
                     className="cursor-pointer hover:bg-muted/50"
                     onClick={() => handleSort('quantity_available')}
@@ -393,19 +406,19 @@ export default function StockPage() {
               <TableBody>
                 {tableState.loading ? (
                   <TableRow>
-                    <TableCell colSpan={10} className="text-center py-8">
+                    <TableCell colSpan={11} className="text-center py-8">
                       Loading stock data...
                     </TableCell>
                   </TableRow>
                 ) : tableState.error ? (
                   <TableRow>
-                    <TableCell colSpan={10} className="text-center py-8 text-destructive">
+                    <TableCell colSpan={11} className="text-center py-8 text-destructive">
                       {tableState.error}
                     </TableCell>
                   </TableRow>
                 ) : stock.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={10} className="text-center py-8">
+                    <TableCell colSpan={11} className="text-center py-8">
                       No stock data found
                     </TableCell>
                   </TableRow>
@@ -417,6 +430,7 @@ export default function StockPage() {
                       </TableCell>
                       <TableCell>{stockItem.product.sku}</TableCell>
                       <TableCell>{stockItem.product.category_name || 'N/A'}</TableCell>
+                      <TableCell>{stockItem.location?.name || 'N/A'}</TableCell>
                       <TableCell>{stockItem.quantity_available}</TableCell>
                       <TableCell>{stockItem.quantity_reserved}</TableCell>
                       <TableCell>{stockItem.quantity_total}</TableCell>
@@ -18,6 +18,7 @@ import {
   StockTransactionType 
 } from '@/types/stock';
 import hackLog from '@/lib/logger';
+import { ExportMenu } from '@/components/export-menu';
 
 export default function StockTransactionsPage() {
   const { toast } = useToast();
@@ -182,6 +183,7 @@ export default function StockTransactionsPage() {
             View detailed history of all stock movements and adjustments
           </p>
         </div>
+        <ExportMenu name="stock-transactions" onExport={(format) => stockTransactionsApi.exportTransactions(format, filters)} />
       </div>
 
       {/* Stats Cards */}
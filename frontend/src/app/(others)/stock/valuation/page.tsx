@@ -0,0 +1,233 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, ChevronDown, ChevronRight, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { costingApi } from '@/lib/api/costing';
+import { ROUTES } from '@/constants/routes';
+import { CostLayer, InventoryValuation, COSTING_METHOD_LABELS } from '@/types/costing';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export default function StockValuationPage() {
+  const { toast } = useToast();
+  const [asOf, setAsOf] = useState(today());
+  const [valuation, setValuation] = useState<InventoryValuation | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [layers, setLayers] = useState<Record<string, CostLayer[]>>({});
+
+  const loadValuation = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setValuation(await costingApi.getValuation({ as_of: asOf }));
+    } catch (error: any) {
+      console.error('Valuation API Error:', error);
+      setValuation(null);
+      setError(error.message || 'Failed to load inventory valuation');
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to load inventory valuation',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadValuation();
+  }, [asOf]);
+
+  // Layers are fetched the first time a product is expanded
+  const toggleExpanded = async (productId: string) => {
+    if (expanded === productId) {
+      setExpanded(null);
+      return;
+    }
+
+    setExpanded(productId);
+    if (layers[productId]) {
+      return;
+    }
+
+    try {
+      const productLayers = await costingApi.getLayers(productId);
+      setLayers(prev => ({ ...prev, [productId]: productLayers }));
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to load cost layers',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  // Format currency
+  const formatCurrency = (amount: number): string => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(amount);
+  };
+
+  const formatDate = (date: string): string => new Date(date).toLocaleDateString();
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <Link href={ROUTES.STOCK} className="flex items-center gap-1 text-sm text-muted-foreground hover:underline">
+            <ArrowLeft className="h-4 w-4" />
+            Stock
+          </Link>
+          <h1 className="text-3xl font-bold tracking-tight">Inventory Valuation</h1>
+          <p className="text-muted-foreground">
+            Stock on hand at cost, from the cost layers each receipt opens
+          </p>
+        </div>
+        <div className="flex gap-2 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="as-of">As of</Label>
+            <Input
+              id="as-of"
+              type="date"
+              value={asOf}
+              max={today()}
+              onChange={(e) => e.target.value && setAsOf(e.target.value)}
+            />
+          </div>
+          <Button variant="outline" onClick={loadValuation} disabled={loading}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {/* Totals */}
+      {valuation && (
+        <div className="grid gap-4 md:grid-cols-3">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Total value</CardDescription>
+              <CardTitle className="text-2xl">{formatCurrency(valuation.total_value)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Units on hand</CardDescription>
+              <CardTitle className="text-2xl">{valuation.total_quantity.toLocaleString()}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Costing method</CardDescription>
+              <CardTitle className="text-2xl">{COSTING_METHOD_LABELS[valuation.costing_method]}</CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+      )}
+
+      {/* Valuation Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Products in Stock</CardTitle>
+          <CardDescription>
+            Expand a product to see the layers its current stock is held in
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : !valuation || valuation.products.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {loading ? 'Loading valuation...' : 'No stock on hand on this date'}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Product</TableHead>
+                  <TableHead>SKU</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Average Cost</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {valuation.products.map(product => (
+                  <React.Fragment key={product.product_id}>
+                    <TableRow className="cursor-pointer" onClick={() => toggleExpanded(product.product_id)}>
+                      <TableCell>
+                        {expanded === product.product_id
+                          ? <ChevronDown className="h-4 w-4" />
+                          : <ChevronRight className="h-4 w-4" />}
+                      </TableCell>
+                      <TableCell className="font-medium">{product.product_name}</TableCell>
+                      <TableCell>{product.product_sku}</TableCell>
+                      <TableCell className="text-right">{product.quantity}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(product.average_unit_cost)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(product.total_value)}</TableCell>
+                    </TableRow>
+                    {expanded === product.product_id && (
+                      <TableRow>
+                        <TableCell />
+                        <TableCell colSpan={5}>
+                          {!layers[product.product_id] ? (
+                            <p className="text-sm text-muted-foreground">Loading layers...</p>
+                          ) : layers[product.product_id].length === 0 ? (
+                            <p className="text-sm text-muted-foreground">No open cost layers</p>
+                          ) : (
+                            <Table>
+                              <TableHeader>
+                                <TableRow>
+                                  <TableHead>Received</TableHead>
+                                  <TableHead>Source</TableHead>
+                                  <TableHead className="text-right">Unit Cost</TableHead>
+                                  <TableHead className="text-right">Received Qty</TableHead>
+                                  <TableHead className="text-right">Remaining</TableHead>
+                                </TableRow>
+                              </TableHeader>
+                              <TableBody>
+                                {layers[product.product_id].map(layer => (
+                                  <TableRow key={layer.id}>
+                                    <TableCell>{formatDate(layer.received_at)}</TableCell>
+                                    <TableCell>
+                                      <Badge variant="outline">{layer.reference_type}</Badge>
+                                      {layer.notes && (
+                                        <span className="ml-2 text-xs text-muted-foreground">{layer.notes}</span>
+                                      )}
+                                    </TableCell>
+                                    <TableCell className="text-right">{formatCurrency(layer.unit_cost)}</TableCell>
+                                    <TableCell className="text-right">{layer.quantity_received}</TableCell>
+                                    <TableCell className="text-right">{layer.quantity_remaining}</TableCell>
+                                  </TableRow>
+                                ))}
+                              </TableBody>
+                            </Table>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </React.Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -14,14 +14,14 @@ import {
   Activity
 } from "lucide-react";
 
-export function DashboardHeader() {
-  const [isRefreshing, setIsRefreshing] = React.useState(false);
-  
-  const handleRefresh = () => {
-    setIsRefreshing(true);
-    setTimeout(() => setIsRefreshing(false), 2000);
-  };
+interface DashboardHeaderProps {
+  onRefresh?: () => void;
+  isRefreshing?: boolean;
+  lastUpdated?: Date | null;
+  children?: React.ReactNode; // Extra controls, such as a date range selector
+}
 
+export function DashboardHeader({ onRefresh, isRefreshing = false, lastUpdated, children }: DashboardHeaderProps) {
   return (
     <motion.div
       initial={{ opacity: 0, y: -30 }}
@@ -45,11 +45,11 @@ export function DashboardHeader() {
             </div>
             <div>
               <h1 className="text-3xl font-bold text-card-foreground">
-                Analytics Dashboard
+                Inventory Analytics
               </h1>
               <p className="text-muted-foreground flex items-center gap-2">
                 <Sparkles className="h-4 w-4 text-primary" />
-                Monitor your key metrics and performance indicators
+                Sales, stock value and purchasing across your locations
               </p>
             </div>
           </motion.div>
@@ -66,7 +66,7 @@ export function DashboardHeader() {
             </Badge>
             <Badge variant="secondary" className="bg-muted text-muted-foreground">
               <Calendar className="h-3 w-3 mr-1" />
-              Last updated: {new Date().toLocaleDateString()}
+              Last updated: {lastUpdated ? lastUpdated.toLocaleString() : "—"}
             </Badge>
           </motion.div>
         </div>
@@ -75,12 +75,14 @@ export function DashboardHeader() {
           initial={{ opacity: 0, x: 20 }}
           animate={{ opacity: 1, x: 0 }}
           transition={{ delay: 0.3, duration: 0.5 }}
-          className="flex items-center gap-3"
+          className="flex flex-wrap items-end gap-3"
         >
+          {children}
+
           <Button
             variant="outline"
             size="sm"
-            onClick={handleRefresh}
+            onClick={onRefresh}
             disabled={isRefreshing}
             className="bg-background/50 backdrop-blur-sm hover:bg-background transition-all duration-300"
           >
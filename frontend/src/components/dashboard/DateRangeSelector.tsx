@@ -0,0 +1,104 @@
+"use client";
+
+import * as React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+
+export interface DateRange {
+  start_date: string;
+  end_date: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CUSTOM = "custom";
+
+const PRESETS = [
+  { days: 7, label: "Last 7 days" },
+  { days: 30, label: "Last 30 days" },
+  { days: 90, label: "Last 90 days" },
+  { days: 365, label: "Last 12 months" },
+];
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * The given number of days up to and including today
+ */
+export function lastDays(days: number): DateRange {
+  const end = new Date();
+  return {
+    start_date: toDateString(new Date(end.getTime() - (days - 1) * DAY_MS)),
+    end_date: toDateString(end),
+  };
+}
+
+/**
+ * The range of the same length immediately before the given one, for period-on-period comparisons
+ */
+export function previousRange(range: DateRange): DateRange {
+  const start = Date.parse(range.start_date);
+  const length = Date.parse(range.end_date) - start + DAY_MS;
+  return {
+    start_date: toDateString(new Date(start - length)),
+    end_date: toDateString(new Date(start - DAY_MS)),
+  };
+}
+
+interface DateRangeSelectorProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+  className?: string;
+}
+
+export function DateRangeSelector({ value, onChange, className }: DateRangeSelectorProps) {
+  const today = toDateString(new Date());
+  const preset = PRESETS.find(({ days }) => {
+    const range = lastDays(days);
+    return range.start_date === value.start_date && range.end_date === value.end_date;
+  });
+
+  return (
+    <div className={cn("flex flex-wrap items-end gap-2", className)}>
+      <div className="space-y-1">
+        <Label htmlFor="range-preset">Period</Label>
+        <Select
+          value={preset ? String(preset.days) : CUSTOM}
+          onValueChange={(days) => days !== CUSTOM && onChange(lastDays(Number(days)))}
+        >
+          <SelectTrigger id="range-preset" className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PRESETS.map(({ days, label }) => (
+              <SelectItem key={days} value={String(days)}>{label}</SelectItem>
+            ))}
+            <SelectItem value={CUSTOM}>Custom</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="range-start">From</Label>
+        <Input
+          id="range-start"
+          type="date"
+          value={value.start_date}
+          max={value.end_date}
+          onChange={(e) => e.target.value && onChange({ ...value, start_date: e.target.value })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="range-end">To</Label>
+        <Input
+          id="range-end"
+          type="date"
+          value={value.end_date}
+          min={value.start_date}
+          max={today}
+          onChange={(e) => e.target.value && onChange({ ...value, end_date: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+}
@@ -10,8 +10,8 @@ import { cn } from "@/lib/utils";
 interface MetricCardProps {
   title: string;
   value: string;
-  change: string;
-  trend: "up" | "down";
+  change?: string; // Omitted for point-in-time figures with nothing to compare against
+  trend?: "up" | "down";
   icon: React.ReactNode;
   description: string;
   className?: string;
@@ -28,7 +28,7 @@ export function MetricCard({
   className,
   delay = 0 
 }: MetricCardProps) {
-  const isPositive = trend === "up";
+  const isPositive = trend !== "down";
   
   return (
     <motion.div
@@ -62,13 +62,15 @@ export function MetricCard({
                 <p className="text-sm font-medium text-muted-foreground tracking-wide uppercase">
                   {title}
                 </p>
-                <Badge 
-                  variant={isPositive ? "default" : "destructive"} 
-                  className="text-xs px-2 py-0.5 animate-pulse"
-                >
-                  {isPositive ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
-                  {change}
-                </Badge>
+                {change && (
+                  <Badge 
+                    variant={isPositive ? "default" : "destructive"} 
+                    className="text-xs px-2 py-0.5 animate-pulse"
+                  >
+                    {isPositive ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
+                    {change}
+                  </Badge>
+                )}
               </div>
               
               <motion.p 
@@ -125,7 +127,7 @@ export function MetricCard({
                   : "bg-gradient-to-r from-red-500 to-orange-400"
               )}
               initial={{ width: 0 }}
-              animate={{ width: `${Math.abs(parseFloat(change))}%` }}
+              animate={{ width: `${Math.min(Math.abs(parseFloat(change ?? "0")) || 0, 100)}%` }}
               transition={{ delay: delay + 0.8, duration: 1, ease: "easeOut" }}
             />
           </div>
@@ -0,0 +1,76 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { downloadBlob } from '@/lib/utils';
+import { ExportFormat } from '@/types/api';
+import { Download, FileJson, FileSpreadsheet, FileText } from 'lucide-react';
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; icon: typeof FileText }[] = [
+  { format: 'csv', label: 'CSV', icon: FileText },
+  { format: 'xlsx', label: 'Excel (.xlsx)', icon: FileSpreadsheet },
+  { format: 'json', label: 'JSON', icon: FileJson }
+];
+
+interface ExportMenuProps {
+  // File name without date or extension, e.g. "products"
+  name: string;
+  // Fetches the export with the page's current filters
+  onExport: (format: ExportFormat) => Promise<Blob>;
+  disabled?: boolean;
+}
+
+/**
+ * Export button that downloads every row matching the current filters, not just the visible page
+ */
+export function ExportMenu({ name, onExport, disabled }: ExportMenuProps) {
+  const { toast } = useToast();
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true);
+    try {
+      const blob = await onExport(format);
+      const date = new Date().toISOString().slice(0, 10);
+      downloadBlob(blob, `${name}-${date}.${format}`);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to export',
+        variant: 'destructive'
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={disabled || exporting}>
+          <Download className="mr-2 h-4 w-4" />
+          {exporting ? 'Exporting...' : 'Export'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export filtered rows</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {EXPORT_OPTIONS.map(({ format, label, icon: Icon }) => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            <Icon className="mr-2 h-4 w-4" />
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -24,12 +24,19 @@ export const ROUTES = {
   PRODUCTS: '/products',
   STOCK: '/stock',
   
+  // Sales
+  POS: '/pos',
+  CUSTOMERS: '/customers',
+  RECEIVABLES: '/receivables',
+  
   // Analytics
   ANALYTICS: '/kombaiDashBoard',
+  REPORTS: '/reports',
   
   // Purchase Orders management
   PURCHASE_ORDERS: '/purchase-orders',
   SUPPLIERS: '/suppliers',
+  PAYABLES: '/payables',
   
   // Admin management
   ADMIN: '/admin',
@@ -54,6 +61,11 @@ export const NAV_ITEMS = [
     href: ROUTES.ANALYTICS,
     icon: 'chart',
   },
+  {
+    title: 'Reports',
+    href: ROUTES.REPORTS,
+    icon: 'file-bar-chart',
+  },
   {
     title: 'Categories',
     href: ROUTES.CATEGORIES,
@@ -69,11 +81,31 @@ export const NAV_ITEMS = [
     href: ROUTES.STOCK,
     icon: 'warehouse',
   },
+  {
+    title: 'Point of Sale',
+    href: ROUTES.POS,
+    icon: 'credit-card',
+  },
+  {
+    title: 'Customers',
+    href: ROUTES.CUSTOMERS,
+    icon: 'users',
+  },
+  {
+    title: 'Receivables',
+    href: ROUTES.RECEIVABLES,
+    icon: 'wallet',
+  },
   {
     title: 'Purchase Orders',
     href: ROUTES.PURCHASE_ORDERS,
     icon: 'shopping-cart',
   },
+  {
+    title: 'Payables',
+    href: ROUTES.PAYABLES,
+    icon: 'file-text',
+  },
   {
     title: 'Admin',
     href: ROUTES.ADMIN,
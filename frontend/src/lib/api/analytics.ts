@@ -0,0 +1,216 @@
+import { apiClient } from './apiClient';
+import {
+  AnalyticsQuery,
+  AnalyticsOverview,
+  SalesAnalytics,
+  TopSellers,
+  StockValueHistory,
+  PurchaseSpend
+} from '@/types/analytics';
+import { AxiosResponse } from 'axios';
+import hackLog from '@/lib/logger';
+
+export class AnalyticsApi {
+  private static readonly BASE_PATH = 'analytics';
+
+  /**
+   * Get headline figures for the period, with current stock value and low-stock counts
+   */
+  static async getOverview(query?: AnalyticsQuery): Promise<AnalyticsOverview> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/overview`, {
+        query,
+        timestamp: new Date().toISOString()
+      });
+
+      const params = this.toParams(query);
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/overview?${params.toString()}`
+      );
+
+      const data = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/overview`, {
+        netSales: data.net_sales,
+        lowStock: data.low_stock_count
+      });
+
+      return data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/overview`, {
+        error: error.message,
+        status: error.response?.status,
+        query
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get sales per day, week or month
+   */
+  static async getSalesByPeriod(query?: AnalyticsQuery): Promise<SalesAnalytics> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/sales`, {
+        query,
+        timestamp: new Date().toISOString()
+      });
+
+      const params = this.toParams(query);
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/sales?${params.toString()}`
+      );
+
+      const data = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/sales`, {
+        granularity: data.granularity,
+        periods: data.periods?.length
+      });
+
+      return data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/sales`, {
+        error: error.message,
+        status: error.response?.status,
+        query
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get the best-selling products for the period
+   */
+  static async getTopSellers(query?: AnalyticsQuery, limit?: number): Promise<TopSellers> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/top-sellers`, {
+        query,
+        limit,
+        timestamp: new Date().toISOString()
+      });
+
+      const params = this.toParams(query);
+      if (limit) params.append('limit', limit.toString());
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/top-sellers?${params.toString()}`
+      );
+
+      const data = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/top-sellers`, {
+        count: data.products?.length
+      });
+
+      return data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/top-sellers`, {
+        error: error.message,
+        status: error.response?.status,
+        query,
+        limit
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get the closing stock value per period
+   */
+  static async getStockValueHistory(query?: AnalyticsQuery): Promise<StockValueHistory> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/stock-value`, {
+        query,
+        timestamp: new Date().toISOString()
+      });
+
+      const params = this.toParams(query);
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/stock-value?${params.toString()}`
+      );
+
+      const data = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/stock-value`, {
+        currentValue: data.current_value,
+        points: data.points?.length
+      });
+
+      return data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/stock-value`, {
+        error: error.message,
+        status: error.response?.status,
+        query
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get purchase order spend per supplier for the period
+   */
+  static async getPurchaseSpend(query?: AnalyticsQuery): Promise<PurchaseSpend> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/purchase-spend`, {
+        query,
+        timestamp: new Date().toISOString()
+      });
+
+      const params = this.toParams(query);
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/purchase-spend?${params.toString()}`
+      );
+
+      const data = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/purchase-spend`, {
+        suppliers: data.suppliers?.length,
+        total: data.total_spend
+      });
+
+      return data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/purchase-spend`, {
+        error: error.message,
+        status: error.response?.status,
+        query
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Date range and granularity shared by every analytics endpoint
+   */
+  private static toParams(query?: AnalyticsQuery): URLSearchParams {
+    const params = new URLSearchParams();
+
+    if (query?.start_date) params.append('start_date', query.start_date);
+    if (query?.end_date) params.append('end_date', query.end_date);
+    if (query?.granularity) params.append('granularity', query.granularity);
+
+    return params;
+  }
+
+  /**
+   * Handle API errors consistently
+   */
+  private static handleError(error: any): Error {
+    if (error.response?.data?.message) {
+      return new Error(error.response.data.message);
+    }
+    if (error.message) {
+      return new Error(error.message);
+    }
+    return new Error('An unexpected error occurred');
+  }
+}
+
+// Export the API instance for easy importing
+export const analyticsApi = AnalyticsApi;
@@ -0,0 +1,89 @@
+import { apiClient } from './apiClient';
+import { InventoryValuation, InventoryValuationQuery, CostLayer } from '@/types/costing';
+import { AxiosResponse } from 'axios';
+import hackLog from '@/lib/logger';
+
+export class CostingApi {
+  private static readonly BASE_PATH = 'costing';
+
+  /**
+   * Get stock on hand at cost per product, as it stood at the end of the given day
+   */
+  static async getValuation(query?: InventoryValuationQuery): Promise<InventoryValuation> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/valuation`, {
+        query,
+        timestamp: new Date().toISOString()
+      });
+
+      const params = new URLSearchParams();
+      if (query?.as_of) params.append('as_of', query.as_of);
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/valuation?${params.toString()}`
+      );
+
+      const data = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/valuation`, {
+        products: data.products?.length,
+        total: data.total_value
+      });
+
+      return data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/valuation`, {
+        error: error.message,
+        status: error.response?.status,
+        query
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get the cost layers a product's stock is held in, oldest first
+   */
+  static async getLayers(productId: string, includeConsumed = false): Promise<CostLayer[]> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/layers/${productId}`, {
+        includeConsumed,
+        timestamp: new Date().toISOString()
+      });
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/layers/${productId}${includeConsumed ? '?include_consumed=true' : ''}`
+      );
+
+      const data = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/layers/${productId}`, {
+        layers: data?.length
+      });
+
+      return Array.isArray(data) ? data : [];
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/layers/${productId}`, {
+        error: error.message,
+        status: error.response?.status
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Handle API errors consistently
+   */
+  private static handleError(error: any): Error {
+    if (error.response?.data?.message) {
+      return new Error(error.response.data.message);
+    }
+    if (error.message) {
+      return new Error(error.message);
+    }
+    return new Error('An unexpected error occurred');
+  }
+}
+
+// Export the API instance for easy importing
+export const costingApi = CostingApi;
@@ -0,0 +1,303 @@
+import { apiClient } from './apiClient';
+import {
+  Customer,
+  CustomerListResponse,
+  CreateCustomerRequest,
+  UpdateCustomerRequest,
+  CustomerFilters,
+  CustomerAccount,
+  LinkInvoicesResult
+} from '@/types/customers';
+import { AxiosResponse } from 'axios';
+import hackLog from '@/lib/logger';
+
+export class CustomersApi {
+  private static readonly BASE_PATH = 'customers';
+
+  /**
+   * Get all customers with optional filtering
+   */
+  static async getCustomers(filters?: CustomerFilters): Promise<CustomerListResponse> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}`, {
+        filters,
+        timestamp: new Date().toISOString()
+      });
+
+      const params = new URLSearchParams();
+
+      if (filters?.search) params.append('search', filters.search);
+      if (filters?.is_active !== undefined) params.append('is_active', filters.is_active.toString());
+      if (filters?.page) params.append('page', filters.page.toString());
+      if (filters?.limit) params.append('limit', filters.limit.toString());
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}?${params.toString()}`
+      );
+
+      const data = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}`, {
+        total: data.total,
+        count: data.data?.length
+      });
+
+      return data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}`, {
+        error: error.message,
+        status: error.response?.status,
+        filters
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Search active customers by name, email, phone, company or tax ID
+   */
+  static async searchCustomers(query: string, limit = 10): Promise<Customer[]> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/search/query`, { query, limit });
+
+      const params = new URLSearchParams({ q: query, limit: limit.toString() });
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/search/query?${params.toString()}`
+      );
+
+      const customers = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/search/query`, {
+        count: customers.length
+      });
+
+      return customers;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/search/query`, {
+        error: error.message,
+        status: error.response?.status,
+        query
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get customer by ID
+   */
+  static async getCustomer(id: string): Promise<Customer> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/${id}`, { id });
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/${id}`
+      );
+
+      const customerData = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/${id}`, {
+        customerId: customerData.id,
+        name: customerData.name
+      });
+
+      return customerData;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/${id}`, {
+        error: error.message,
+        status: error.response?.status,
+        id
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get the customer's lifetime value, open balance and recent invoices
+   */
+  static async getCustomerAccount(id: string): Promise<CustomerAccount> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/${id}/account`, { id });
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/${id}/account`
+      );
+
+      const account = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/${id}/account`, {
+        customerId: id,
+        lifetimeValue: account.lifetime_value,
+        openBalance: account.open_balance
+      });
+
+      return account;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/${id}/account`, {
+        error: error.message,
+        status: error.response?.status,
+        id
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Create a new customer
+   */
+  static async createCustomer(data: CreateCustomerRequest): Promise<Customer> {
+    try {
+      hackLog.apiRequest('POST', `/${this.BASE_PATH}`, {
+        name: data.name
+      });
+
+      const response: AxiosResponse<any> = await apiClient.post(
+        this.BASE_PATH,
+        data
+      );
+
+      const customerData = response.data.data || response.data;
+
+      hackLog.apiSuccess('POST', `/${this.BASE_PATH}`, {
+        customerId: customerData.id,
+        name: customerData.name
+      });
+
+      return customerData;
+    } catch (error: any) {
+      hackLog.apiError('POST', `/${this.BASE_PATH}`, {
+        error: error.message,
+        status: error.response?.status,
+        data
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Update a customer
+   */
+  static async updateCustomer(id: string, data: UpdateCustomerRequest): Promise<Customer> {
+    try {
+      hackLog.apiRequest('PATCH', `/${this.BASE_PATH}/${id}`, {
+        id,
+        updates: Object.keys(data)
+      });
+
+      const response: AxiosResponse<any> = await apiClient.patch(
+        `${this.BASE_PATH}/${id}`,
+        data
+      );
+
+      const customerData = response.data.data || response.data;
+
+      hackLog.apiSuccess('PATCH', `/${this.BASE_PATH}/${id}`, {
+        customerId: customerData.id,
+        name: customerData.name
+      });
+
+      return customerData;
+    } catch (error: any) {
+      hackLog.apiError('PATCH', `/${this.BASE_PATH}/${id}`, {
+        error: error.message,
+        status: error.response?.status,
+        id,
+        data
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Merge a duplicate customer into this one, moving its invoices across
+   */
+  static async mergeCustomers(id: string, duplicateId: string): Promise<Customer> {
+    try {
+      hackLog.apiRequest('POST', `/${this.BASE_PATH}/${id}/merge`, { id, duplicateId });
+
+      const response: AxiosResponse<any> = await apiClient.post(
+        `${this.BASE_PATH}/${id}/merge`,
+        { duplicate_id: duplicateId }
+      );
+
+      const customerData = response.data.data || response.data;
+
+      hackLog.apiSuccess('POST', `/${this.BASE_PATH}/${id}/merge`, {
+        customerId: customerData.id
+      });
+
+      return customerData;
+    } catch (error: any) {
+      hackLog.apiError('POST', `/${this.BASE_PATH}/${id}/merge`, {
+        error: error.message,
+        status: error.response?.status,
+        id,
+        duplicateId
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Link invoices that only carry free-text contact details to customer accounts
+   */
+  static async linkInvoices(): Promise<LinkInvoicesResult> {
+    try {
+      hackLog.apiRequest('POST', `/${this.BASE_PATH}/link-invoices`, {
+        timestamp: new Date().toISOString()
+      });
+
+      const response: AxiosResponse<any> = await apiClient.post(
+        `${this.BASE_PATH}/link-invoices`
+      );
+
+      const result = response.data.data || response.data;
+
+      hackLog.apiSuccess('POST', `/${this.BASE_PATH}/link-invoices`, result);
+
+      return result;
+    } catch (error: any) {
+      hackLog.apiError('POST', `/${this.BASE_PATH}/link-invoices`, {
+        error: error.message,
+        status: error.response?.status
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Delete a customer (soft delete)
+   */
+  static async deleteCustomer(id: string): Promise<void> {
+    try {
+      hackLog.apiRequest('DELETE', `/${this.BASE_PATH}/${id}`, { id });
+
+      await apiClient.delete(`${this.BASE_PATH}/${id}`);
+
+      hackLog.apiSuccess('DELETE', `/${this.BASE_PATH}/${id}`, { id });
+    } catch (error: any) {
+      hackLog.apiError('DELETE', `/${this.BASE_PATH}/${id}`, {
+        error: error.message,
+        status: error.response?.status,
+        id
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Handle API errors consistently
+   */
+  private static handleError(error: any): Error {
+    if (error.response?.data?.message) {
+      return new Error(error.response.data.message);
+    }
+    if (error.message) {
+      return new Error(error.message);
+    }
+    return new Error('An unexpected error occurred');
+  }
+}
+
+// Export the API instance for easy importing
+export const customersApi = CustomersApi;
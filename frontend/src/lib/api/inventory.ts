@@ -10,9 +10,12 @@ import {
   CreateProductRequest,
   UpdateProductRequest,
   ProductFilters,
+  ProductImportResult,
+  SaveProductVariantsRequest,
   ApiResponse,
   ApiError
 } from '@/types/inventory';
+import { ExportFormat } from '@/types/api';
 import { AxiosResponse } from 'axios';
 
 // Categories API
@@ -95,6 +98,23 @@ export class CategoriesApi {
     }
   }
 
+  /**
+   * Move a category, with its subcategories, under another parent or to the top level (null)
+   */
+  static async moveCategory(id: string, parentId: string | null): Promise<Category> {
+    try {
+      const response: AxiosResponse<any> = await apiClient.patch(
+        `${this.BASE_PATH}/${id}/move`,
+        { parent_id: parentId }
+      );
+      
+      // Handle nested response structure from backend
+      return response.data.data || response.data;
+    } catch (error: any) {
+      throw this.handleError(error);
+    }
+  }
+
   /**
    * Delete a category (soft delete)
    */
@@ -171,6 +191,8 @@ export class ProductsApi {
       if (filters?.max_price) params.append('max_price', filters.max_price.toString());
       if (filters?.min_stock) params.append('min_stock', filters.min_stock.toString());
       if (filters?.has_barcode !== undefined) params.append('has_barcode', filters.has_barcode.toString());
+      if (filters?.parent_product_id) params.append('parent_product_id', filters.parent_product_id);
+      if (filters?.variant_scope) params.append('variant_scope', filters.variant_scope);
       if (filters?.page) params.append('page', filters.page.toString());
       if (filters?.limit) params.append('limit', filters.limit.toString());
       if (filters?.sort_by) params.append('sortBy', filters.sort_by);
@@ -268,6 +290,120 @@ export class ProductsApi {
     }
   }
 
+  /**
+   * Look up a product by its exact SKU
+   */
+  static async getProductBySku(sku: string): Promise<Product> {
+    try {
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/sku/${encodeURIComponent(sku)}`
+      );
+      
+      // Handle nested response structure from backend
+      return response.data.data || response.data;
+    } catch (error: any) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Look up a product by its exact barcode
+   */
+  static async getProductByBarcode(barcode: string): Promise<Product> {
+    try {
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/barcode/${encodeURIComponent(barcode)}`
+      );
+      
+      // Handle nested response structure from backend
+      return response.data.data || response.data;
+    } catch (error: any) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Upload a CSV or XLSX file of products. A dry run only validates the rows; otherwise the
+   * valid rows are created and invalid ones skipped.
+   */
+  static async importProducts(file: File, dryRun: boolean): Promise<ProductImportResult> {
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('dry_run', dryRun.toString());
+
+      const response: AxiosResponse<any> = await apiClient.post(
+        `${this.BASE_PATH}/import`,
+        formData
+      );
+      
+      // Handle nested response structure from backend
+      return response.data.data || response.data;
+    } catch (error: any) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get the variants of a parent product
+   */
+  static async getVariants(productId: string): Promise<Product[]> {
+    try {
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/${productId}/variants`
+      );
+      
+      // Handle nested response structure from backend
+      return response.data.data || response.data;
+    } catch (error: any) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Replace a product's variant attributes and full variant set
+   */
+  static async saveVariants(productId: string, data: SaveProductVariantsRequest): Promise<Product[]> {
+    try {
+      const response: AxiosResponse<any> = await apiClient.put(
+        `${this.BASE_PATH}/${productId}/variants`,
+        data
+      );
+      
+      // Handle nested response structure from backend
+      return response.data.data || response.data;
+    } catch (error: any) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Export every product matching the list filters as a CSV, XLSX or JSON file
+   */
+  static async exportProducts(format: ExportFormat, filters?: ProductFilters): Promise<Blob> {
+    try {
+      const params = new URLSearchParams();
+      params.append('format', format);
+
+      if (filters?.search) params.append('name', filters.search);
+      if (filters?.category_id) params.append('category_id', filters.category_id);
+      if (filters?.is_active !== undefined) params.append('is_active', filters.is_active.toString());
+      if (filters?.min_price) params.append('min_price', filters.min_price.toString());
+      if (filters?.max_price) params.append('max_price', filters.max_price.toString());
+      if (filters?.sort_by) params.append('sortBy', filters.sort_by);
+      if (filters?.sort_order) params.append('sortOrder', filters.sort_order);
+
+      const response: AxiosResponse<Blob> = await apiClient.get(
+        `${this.BASE_PATH}/export?${params.toString()}`,
+        { responseType: 'blob' }
+      );
+
+      return response.data;
+    } catch (error: any) {
+      throw this.handleError(error);
+    }
+  }
+
   /**
    * Handle API errors consistently
    */
@@ -0,0 +1,185 @@
+import { apiClient } from './apiClient';
+import {
+  Location,
+  LocationListResponse,
+  CreateLocationRequest,
+  UpdateLocationRequest,
+  LocationFilters
+} from '@/types/locations';
+import { AxiosResponse } from 'axios';
+import hackLog from '@/lib/logger';
+
+export class LocationsApi {
+  private static readonly BASE_PATH = 'locations';
+
+  /**
+   * Get all locations with optional filtering
+   */
+  static async getLocations(filters?: LocationFilters): Promise<LocationListResponse> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}`, {
+        filters,
+        timestamp: new Date().toISOString()
+      });
+
+      const params = new URLSearchParams();
+
+      if (filters?.search) params.append('search', filters.search);
+      if (filters?.is_active !== undefined) params.append('is_active', filters.is_active.toString());
+      if (filters?.page) params.append('page', filters.page.toString());
+      if (filters?.limit) params.append('limit', filters.limit.toString());
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}?${params.toString()}`
+      );
+
+      const data = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}`, {
+        total: data.total,
+        count: data.data?.length
+      });
+
+      return data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}`, {
+        error: error.message,
+        status: error.response?.status,
+        filters
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get active locations (default location first, for dropdowns)
+   */
+  static async getActiveLocations(): Promise<Location[]> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/active/list`, {
+        timestamp: new Date().toISOString()
+      });
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/active/list`
+      );
+
+      const data = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/active/list`, {
+        count: data.length
+      });
+
+      return data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/active/list`, {
+        error: error.message,
+        status: error.response?.status
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Create a new location
+   */
+  static async createLocation(data: CreateLocationRequest): Promise<Location> {
+    try {
+      hackLog.apiRequest('POST', `/${this.BASE_PATH}`, {
+        name: data.name,
+        code: data.code
+      });
+
+      const response: AxiosResponse<any> = await apiClient.post(
+        this.BASE_PATH,
+        data
+      );
+
+      const locationData = response.data.data || response.data;
+
+      hackLog.apiSuccess('POST', `/${this.BASE_PATH}`, {
+        locationId: locationData.id,
+        code: locationData.code
+      });
+
+      return locationData;
+    } catch (error: any) {
+      hackLog.apiError('POST', `/${this.BASE_PATH}`, {
+        error: error.message,
+        status: error.response?.status,
+        data
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Update a location
+   */
+  static async updateLocation(id: string, data: UpdateLocationRequest): Promise<Location> {
+    try {
+      hackLog.apiRequest('PATCH', `/${this.BASE_PATH}/${id}`, {
+        id,
+        updates: Object.keys(data)
+      });
+
+      const response: AxiosResponse<any> = await apiClient.patch(
+        `${this.BASE_PATH}/${id}`,
+        data
+      );
+
+      const locationData = response.data.data || response.data;
+
+      hackLog.apiSuccess('PATCH', `/${this.BASE_PATH}/${id}`, {
+        locationId: locationData.id,
+        code: locationData.code
+      });
+
+      return locationData;
+    } catch (error: any) {
+      hackLog.apiError('PATCH', `/${this.BASE_PATH}/${id}`, {
+        error: error.message,
+        status: error.response?.status,
+        id,
+        data
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Delete a location (soft delete)
+   */
+  static async deleteLocation(id: string): Promise<void> {
+    try {
+      hackLog.apiRequest('DELETE', `/${this.BASE_PATH}/${id}`, { id });
+
+      await apiClient.delete(`${this.BASE_PATH}/${id}`);
+
+      hackLog.apiSuccess('DELETE', `/${this.BASE_PATH}/${id}`, { id });
+    } catch (error: any) {
+      hackLog.apiError('DELETE', `/${this.BASE_PATH}/${id}`, {
+        error: error.message,
+        status: error.response?.status,
+        id
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Handle API errors consistently
+   */
+  private static handleError(error: any): Error {
+    if (error.response?.data?.message) {
+      return new Error(error.response.data.message);
+    }
+    if (error.message) {
+      return new Error(error.message);
+    }
+    return new Error('An unexpected error occurred');
+  }
+}
+
+// Export the API instance for easy importing
+export const locationsApi = LocationsApi;
@@ -0,0 +1,208 @@
+import { apiClient } from './apiClient';
+import {
+  Payment,
+  PaymentListResponse,
+  PaymentFilters,
+  RecordPaymentRequest,
+  InvoicePaymentSummary,
+  ArAging,
+  ArAgingQuery
+} from '@/types/payments';
+import { AxiosResponse } from 'axios';
+import hackLog from '@/lib/logger';
+
+export class PaymentsApi {
+  private static readonly BASE_PATH = 'payments';
+
+  /**
+   * Get all payments and refunds with optional filtering
+   */
+  static async getPayments(filters?: PaymentFilters): Promise<PaymentListResponse> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}`, {
+        filters,
+        timestamp: new Date().toISOString()
+      });
+
+      const params = new URLSearchParams();
+
+      if (filters?.sales_invoice_id) params.append('sales_invoice_id', filters.sales_invoice_id);
+      if (filters?.customer_id) params.append('customer_id', filters.customer_id);
+      if (filters?.payment_type) params.append('payment_type', filters.payment_type);
+      if (filters?.payment_method) params.append('payment_method', filters.payment_method);
+      if (filters?.date_from) params.append('date_from', filters.date_from);
+      if (filters?.date_to) params.append('date_to', filters.date_to);
+      if (filters?.page) params.append('page', filters.page.toString());
+      if (filters?.limit) params.append('limit', filters.limit.toString());
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}?${params.toString()}`
+      );
+
+      const data = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}`, {
+        total: data.total,
+        count: data.data?.length
+      });
+
+      return data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}`, {
+        error: error.message,
+        status: error.response?.status,
+        filters
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get every payment and refund on an invoice, oldest first
+   */
+  static async getInvoicePayments(invoiceId: string): Promise<Payment[]> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/invoice/${invoiceId}`, { invoiceId });
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/invoice/${invoiceId}`
+      );
+
+      const payments = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/invoice/${invoiceId}`, {
+        count: payments.length
+      });
+
+      return payments;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/invoice/${invoiceId}`, {
+        error: error.message,
+        status: error.response?.status,
+        invoiceId
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Record money received against an invoice
+   */
+  static async recordPayment(data: RecordPaymentRequest): Promise<InvoicePaymentSummary> {
+    try {
+      hackLog.apiRequest('POST', `/${this.BASE_PATH}`, {
+        invoiceId: data.sales_invoice_id,
+        amount: data.amount,
+        method: data.payment_method
+      });
+
+      const response: AxiosResponse<any> = await apiClient.post(
+        this.BASE_PATH,
+        data
+      );
+
+      const summary = response.data.data || response.data;
+
+      hackLog.apiSuccess('POST', `/${this.BASE_PATH}`, {
+        paymentId: summary.payment?.id,
+        paymentStatus: summary.payment_status
+      });
+
+      return summary;
+    } catch (error: any) {
+      hackLog.apiError('POST', `/${this.BASE_PATH}`, {
+        error: error.message,
+        status: error.response?.status,
+        data
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Pay money back against an invoice
+   */
+  static async recordRefund(data: RecordPaymentRequest): Promise<InvoicePaymentSummary> {
+    try {
+      hackLog.apiRequest('POST', `/${this.BASE_PATH}/refunds`, {
+        invoiceId: data.sales_invoice_id,
+        amount: data.amount,
+        method: data.payment_method
+      });
+
+      const response: AxiosResponse<any> = await apiClient.post(
+        `${this.BASE_PATH}/refunds`,
+        data
+      );
+
+      const summary = response.data.data || response.data;
+
+      hackLog.apiSuccess('POST', `/${this.BASE_PATH}/refunds`, {
+        paymentId: summary.payment?.id,
+        paymentStatus: summary.payment_status
+      });
+
+      return summary;
+    } catch (error: any) {
+      hackLog.apiError('POST', `/${this.BASE_PATH}/refunds`, {
+        error: error.message,
+        status: error.response?.status,
+        data
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get the accounts receivable aging report (defaults to today)
+   */
+  static async getArAging(query?: ArAgingQuery): Promise<ArAging> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/reports/ar-aging`, {
+        query,
+        timestamp: new Date().toISOString()
+      });
+
+      const params = new URLSearchParams();
+
+      if (query?.as_of) params.append('as_of', query.as_of);
+      if (query?.customer_id) params.append('customer_id', query.customer_id);
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/reports/ar-aging?${params.toString()}`
+      );
+
+      const data = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/reports/ar-aging`, {
+        customers: data.customers?.length,
+        total: data.totals?.total
+      });
+
+      return data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/reports/ar-aging`, {
+        error: error.message,
+        status: error.response?.status,
+        query
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Handle API errors consistently
+   */
+  private static handleError(error: any): Error {
+    if (error.response?.data?.message) {
+      return new Error(error.response.data.message);
+    }
+    if (error.message) {
+      return new Error(error.message);
+    }
+    return new Error('An unexpected error occurred');
+  }
+}
+
+// Export the API instance for easy importing
+export const paymentsApi = PaymentsApi;
@@ -0,0 +1,260 @@
+import { apiClient } from './apiClient';
+import {
+  Promotion,
+  PromotionListResponse,
+  CreatePromotionRequest,
+  UpdatePromotionRequest,
+  PromotionFilters,
+  EvaluatePromotionsRequest,
+  PromotionEvaluation,
+  PromotionSummary,
+  PromotionSummaryQuery
+} from '@/types/promotions';
+import { AxiosResponse } from 'axios';
+import hackLog from '@/lib/logger';
+
+export class PromotionsApi {
+  private static readonly BASE_PATH = 'promotions';
+
+  /**
+   * Get all promotions with optional filtering
+   */
+  static async getPromotions(filters?: PromotionFilters): Promise<PromotionListResponse> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}`, {
+        filters,
+        timestamp: new Date().toISOString()
+      });
+
+      const params = new URLSearchParams();
+
+      if (filters?.search) params.append('search', filters.search);
+      if (filters?.promotion_type) params.append('promotion_type', filters.promotion_type);
+      if (filters?.scope) params.append('scope', filters.scope);
+      if (filters?.is_active !== undefined) params.append('is_active', filters.is_active.toString());
+      if (filters?.page) params.append('page', filters.page.toString());
+      if (filters?.limit) params.append('limit', filters.limit.toString());
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}?${params.toString()}`
+      );
+
+      const data = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}`, {
+        total: data.total,
+        count: data.data?.length
+      });
+
+      return data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}`, {
+        error: error.message,
+        status: error.response?.status,
+        filters
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get promotion by ID
+   */
+  static async getPromotion(id: string): Promise<Promotion> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/${id}`, { id });
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/${id}`
+      );
+
+      const promotionData = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/${id}`, {
+        promotionId: promotionData.id,
+        name: promotionData.name
+      });
+
+      return promotionData;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/${id}`, {
+        error: error.message,
+        status: error.response?.status,
+        id
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Work out the promotion discount on each cart line, as the invoice will
+   */
+  static async evaluatePromotions(data: EvaluatePromotionsRequest): Promise<PromotionEvaluation> {
+    try {
+      hackLog.apiRequest('POST', `/${this.BASE_PATH}/evaluate`, {
+        itemCount: data.items.length,
+        couponCode: data.coupon_code
+      });
+
+      const response: AxiosResponse<any> = await apiClient.post(
+        `${this.BASE_PATH}/evaluate`,
+        data
+      );
+
+      const evaluation = response.data.data || response.data;
+
+      hackLog.apiSuccess('POST', `/${this.BASE_PATH}/evaluate`, {
+        discountAmount: evaluation.discount_amount,
+        couponCode: evaluation.coupon_code
+      });
+
+      return evaluation;
+    } catch (error: any) {
+      hackLog.apiError('POST', `/${this.BASE_PATH}/evaluate`, {
+        error: error.message,
+        status: error.response?.status,
+        couponCode: data.coupon_code
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get the promotion summary report for a period (defaults to the current month)
+   */
+  static async getPromotionSummary(query?: PromotionSummaryQuery): Promise<PromotionSummary> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/reports/summary`, {
+        query,
+        timestamp: new Date().toISOString()
+      });
+
+      const params = new URLSearchParams();
+
+      if (query?.start_date) params.append('start_date', query.start_date);
+      if (query?.end_date) params.append('end_date', query.end_date);
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/reports/summary?${params.toString()}`
+      );
+
+      const data = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/reports/summary`, {
+        totalDiscount: data.total_discount
+      });
+
+      return data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/reports/summary`, {
+        error: error.message,
+        status: error.response?.status,
+        query
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Create a new promotion
+   */
+  static async createPromotion(data: CreatePromotionRequest): Promise<Promotion> {
+    try {
+      hackLog.apiRequest('POST', `/${this.BASE_PATH}`, {
+        name: data.name,
+        type: data.promotion_type
+      });
+
+      const response: AxiosResponse<any> = await apiClient.post(
+        this.BASE_PATH,
+        data
+      );
+
+      const promotionData = response.data.data || response.data;
+
+      hackLog.apiSuccess('POST', `/${this.BASE_PATH}`, {
+        promotionId: promotionData.id,
+        name: promotionData.name
+      });
+
+      return promotionData;
+    } catch (error: any) {
+      hackLog.apiError('POST', `/${this.BASE_PATH}`, {
+        error: error.message,
+        status: error.response?.status,
+        data
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Update a promotion
+   */
+  static async updatePromotion(id: string, data: UpdatePromotionRequest): Promise<Promotion> {
+    try {
+      hackLog.apiRequest('PATCH', `/${this.BASE_PATH}/${id}`, {
+        id,
+        updates: Object.keys(data)
+      });
+
+      const response: AxiosResponse<any> = await apiClient.patch(
+        `${this.BASE_PATH}/${id}`,
+        data
+      );
+
+      const promotionData = response.data.data || response.data;
+
+      hackLog.apiSuccess('PATCH', `/${this.BASE_PATH}/${id}`, {
+        promotionId: promotionData.id,
+        name: promotionData.name
+      });
+
+      return promotionData;
+    } catch (error: any) {
+      hackLog.apiError('PATCH', `/${this.BASE_PATH}/${id}`, {
+        error: error.message,
+        status: error.response?.status,
+        id,
+        data
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Delete a promotion (soft delete)
+   */
+  static async deletePromotion(id: string): Promise<void> {
+    try {
+      hackLog.apiRequest('DELETE', `/${this.BASE_PATH}/${id}`, { id });
+
+      await apiClient.delete(`${this.BASE_PATH}/${id}`);
+
+      hackLog.apiSuccess('DELETE', `/${this.BASE_PATH}/${id}`, { id });
+    } catch (error: any) {
+      hackLog.apiError('DELETE', `/${this.BASE_PATH}/${id}`, {
+        error: error.message,
+        status: error.response?.status,
+        id
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Handle API errors consistently
+   */
+  private static handleError(error: any): Error {
+    if (error.response?.data?.message) {
+      return new Error(error.response.data.message);
+    }
+    if (error.message) {
+      return new Error(error.message);
+    }
+    return new Error('An unexpected error occurred');
+  }
+}
+
+// Export the API instance for easy importing
+export const promotionsApi = PromotionsApi;
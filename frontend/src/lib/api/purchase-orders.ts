@@ -7,8 +7,14 @@ import {
   UpdatePurchaseOrderItemRequest,
   PurchaseOrderFilters,
   PurchaseOrderStatsResponse,
-  CreatePurchaseOrderItemRequest
+  CreatePurchaseOrderItemRequest,
+  ReceivePurchaseOrderRequest,
+  PurchaseOrderReceipt,
+  ReorderSuggestionsResponse,
+  ReorderSuggestionFilters,
+  CreateReorderDraftsRequest
 } from '@/types/purchase-orders';
+import { ExportFormat } from '@/types/api';
 import { AxiosResponse } from 'axios';
 import hackLog from '@/lib/logger';
 
@@ -191,14 +197,19 @@ export class PurchaseOrdersApi {
   }
 
   /**
-   * Mark purchase order as received
+   * Record a delivery against a purchase order.
+   * Omitting items receives everything still outstanding.
    */
-  static async receivePurchaseOrder(id: string): Promise<PurchaseOrder> {
+  static async receivePurchaseOrder(id: string, data: ReceivePurchaseOrderRequest = {}): Promise<PurchaseOrder> {
     try {
-      hackLog.apiRequest('POST', `/${this.BASE_PATH}/${id}/receive`, { id });
+      hackLog.apiRequest('POST', `/${this.BASE_PATH}/${id}/receive`, {
+        id,
+        itemsCount: data.items?.length || 0
+      });
 
       const response: AxiosResponse<PurchaseOrder> = await apiClient.post(
-        `${this.BASE_PATH}/${id}/receive`
+        `${this.BASE_PATH}/${id}/receive`,
+        data
       );
       
       hackLog.apiSuccess('POST', `/${this.BASE_PATH}/${id}/receive`, {
@@ -218,6 +229,33 @@ export class PurchaseOrdersApi {
     }
   }
 
+  /**
+   * Get the receipt history of a purchase order
+   */
+  static async getPurchaseOrderReceipts(id: string): Promise<PurchaseOrderReceipt[]> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/${id}/receipts`, { id });
+
+      const response: AxiosResponse<PurchaseOrderReceipt[]> = await apiClient.get(
+        `${this.BASE_PATH}/${id}/receipts`
+      );
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/${id}/receipts`, {
+        orderId: id,
+        receiptsCount: response.data.length
+      });
+
+      return response.data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/${id}/receipts`, {
+        error: error.message,
+        status: error.response?.status,
+        id
+      });
+      throw this.handleError(error);
+    }
+  }
+
   /**
    * Delete a purchase order
    */
@@ -358,6 +396,133 @@ export class PurchaseOrdersApi {
     }
   }
 
+  /**
+   * Get low-stock products grouped by supplier with suggested order quantities
+   */
+  static async getReorderSuggestions(filters?: ReorderSuggestionFilters): Promise<ReorderSuggestionsResponse> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/reorder/suggestions`, { filters });
+
+      const params = new URLSearchParams();
+      if (filters?.supplier_id) params.append('supplier_id', filters.supplier_id);
+      if (filters?.category_id) params.append('category_id', filters.category_id);
+
+      const response: AxiosResponse<ReorderSuggestionsResponse> = await apiClient.get(
+        `${this.BASE_PATH}/reorder/suggestions?${params.toString()}`
+      );
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/reorder/suggestions`, {
+        suppliers: response.data.groups?.length || 0,
+        unassigned: response.data.unassigned?.length || 0
+      });
+
+      return response.data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/reorder/suggestions`, {
+        error: error.message,
+        status: error.response?.status,
+        filters
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Create one pending purchase order per supplier from reviewed reorder lines
+   */
+  static async createReorderDrafts(data: CreateReorderDraftsRequest): Promise<PurchaseOrder[]> {
+    try {
+      hackLog.apiRequest('POST', `/${this.BASE_PATH}/reorder/drafts`, {
+        itemsCount: data.items?.length ?? 'all'
+      });
+
+      const response: AxiosResponse<PurchaseOrder[]> = await apiClient.post(
+        `${this.BASE_PATH}/reorder/drafts`,
+        data
+      );
+
+      hackLog.apiSuccess('POST', `/${this.BASE_PATH}/reorder/drafts`, {
+        ordersCreated: response.data.length,
+        orderNumbers: response.data.map(order => order.order_number)
+      });
+
+      return response.data;
+    } catch (error: any) {
+      hackLog.apiError('POST', `/${this.BASE_PATH}/reorder/drafts`, {
+        error: error.message,
+        status: error.response?.status
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Download the server-rendered PDF of a purchase order
+   */
+  static async downloadPurchaseOrderPdf(id: string): Promise<Blob> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/${id}/pdf`, { id });
+
+      const response: AxiosResponse<Blob> = await apiClient.get(
+        `${this.BASE_PATH}/${id}/pdf`,
+        { responseType: 'blob' }
+      );
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/${id}/pdf`, {
+        size: response.data.size
+      });
+
+      return response.data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/${id}/pdf`, {
+        error: error.message,
+        status: error.response?.status,
+        id
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Export every purchase order matching the list filters as a CSV, XLSX or JSON file
+   */
+  static async exportPurchaseOrders(format: ExportFormat, filters?: PurchaseOrderFilters): Promise<Blob> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/export`, { format, filters });
+
+      const params = new URLSearchParams();
+      params.append('format', format);
+
+      if (filters?.supplier_id) params.append('supplier_id', filters.supplier_id);
+      if (filters?.status) params.append('status', filters.status);
+      if (filters?.order_number) params.append('order_number', filters.order_number);
+      if (filters?.order_date_from) params.append('order_date_from', filters.order_date_from);
+      if (filters?.order_date_to) params.append('order_date_to', filters.order_date_to);
+      if (filters?.withDeleted !== undefined) params.append('withDeleted', filters.withDeleted.toString());
+      if (filters?.sort_by) params.append('sort_by', filters.sort_by);
+      if (filters?.sort_order) params.append('sort_order', filters.sort_order);
+
+      const response: AxiosResponse<Blob> = await apiClient.get(
+        `${this.BASE_PATH}/export?${params.toString()}`,
+        { responseType: 'blob' }
+      );
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/export`, {
+        format,
+        size: response.data.size
+      });
+
+      return response.data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/export`, {
+        error: error.message,
+        status: error.response?.status,
+        format
+      });
+      throw this.handleError(error);
+    }
+  }
+
   /**
    * Handle API errors consistently
    */
@@ -0,0 +1,62 @@
+import { apiClient } from './apiClient';
+import { MarginReport, MarginReportQuery } from '@/types/reports';
+import { AxiosResponse } from 'axios';
+import hackLog from '@/lib/logger';
+
+export class ReportsApi {
+  private static readonly BASE_PATH = 'reports';
+
+  /**
+   * Get revenue, cost of goods sold and gross margin broken down by product, category, supplier or period
+   */
+  static async getMarginReport(query?: MarginReportQuery): Promise<MarginReport> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/margins`, {
+        query,
+        timestamp: new Date().toISOString()
+      });
+
+      const params = new URLSearchParams();
+      if (query?.start_date) params.append('start_date', query.start_date);
+      if (query?.end_date) params.append('end_date', query.end_date);
+      if (query?.group_by) params.append('group_by', query.group_by);
+      if (query?.granularity) params.append('granularity', query.granularity);
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/margins?${params.toString()}`
+      );
+
+      const data = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/margins`, {
+        groupBy: data.group_by,
+        rows: data.rows?.length
+      });
+
+      return data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/margins`, {
+        error: error.message,
+        status: error.response?.status,
+        query
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Handle API errors consistently
+   */
+  private static handleError(error: any): Error {
+    if (error.response?.data?.message) {
+      return new Error(error.response.data.message);
+    }
+    if (error.message) {
+      return new Error(error.message);
+    }
+    return new Error('An unexpected error occurred');
+  }
+}
+
+// Export the API instance for easy importing
+export const reportsApi = ReportsApi;
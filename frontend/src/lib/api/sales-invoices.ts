@@ -0,0 +1,180 @@
+import { apiClient } from './apiClient';
+import {
+  SalesInvoice,
+  CreateSalesInvoiceRequest,
+  QuoteSalesInvoiceRequest,
+  SalesInvoiceQuote,
+  ReceiptOptions
+} from '@/types/sales-invoices';
+import { AxiosResponse } from 'axios';
+import hackLog from '@/lib/logger';
+
+export class SalesInvoicesApi {
+  private static readonly BASE_PATH = 'sales-invoices';
+
+  /**
+   * Get a sales invoice with its line items
+   */
+  static async getSalesInvoiceById(id: string): Promise<SalesInvoice> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/${id}`, { id });
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/${id}`
+      );
+
+      const data = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/${id}`, {
+        invoiceNumber: data.invoice_number
+      });
+
+      return data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/${id}`, {
+        error: error.message,
+        status: error.response?.status,
+        id
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Create a sales invoice; stock is taken out for every line
+   */
+  static async createSalesInvoice(data: CreateSalesInvoiceRequest): Promise<SalesInvoice> {
+    try {
+      hackLog.apiRequest('POST', `/${this.BASE_PATH}`, {
+        itemsCount: data.items.length,
+        amountPaid: data.amount_paid
+      });
+
+      const response: AxiosResponse<any> = await apiClient.post(
+        this.BASE_PATH,
+        data
+      );
+
+      const created = response.data.data || response.data;
+
+      hackLog.apiSuccess('POST', `/${this.BASE_PATH}`, {
+        id: created.id,
+        invoiceNumber: created.invoice_number,
+        paymentStatus: created.payment_status
+      });
+
+      return created;
+    } catch (error: any) {
+      hackLog.apiError('POST', `/${this.BASE_PATH}`, {
+        error: error.message,
+        status: error.response?.status
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Price a cart exactly as creating the invoice would, without saving it
+   */
+  static async quoteSalesInvoice(data: QuoteSalesInvoiceRequest): Promise<SalesInvoiceQuote> {
+    try {
+      hackLog.apiRequest('POST', `/${this.BASE_PATH}/quote`, {
+        itemsCount: data.items.length,
+        couponCode: data.coupon_code
+      });
+
+      const response: AxiosResponse<any> = await apiClient.post(
+        `${this.BASE_PATH}/quote`,
+        data
+      );
+
+      const quote = response.data.data || response.data;
+
+      hackLog.apiSuccess('POST', `/${this.BASE_PATH}/quote`, {
+        totalAmount: quote.total_amount
+      });
+
+      return quote;
+    } catch (error: any) {
+      hackLog.apiError('POST', `/${this.BASE_PATH}/quote`, {
+        error: error.message,
+        status: error.response?.status
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Download the server-rendered PDF of a sales invoice
+   */
+  static async downloadSalesInvoicePdf(id: string): Promise<Blob> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/${id}/pdf`, { id });
+
+      const response: AxiosResponse<Blob> = await apiClient.get(
+        `${this.BASE_PATH}/${id}/pdf`,
+        { responseType: 'blob' }
+      );
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/${id}/pdf`, {
+        size: response.data.size
+      });
+
+      return response.data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/${id}/pdf`, {
+        error: error.message,
+        status: error.response?.status,
+        id
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get a thermal printer receipt (58mm or 80mm) as plain text or printable HTML
+   */
+  static async getReceipt(id: string, options: ReceiptOptions = {}): Promise<string> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/${id}/receipt`, { id, ...options });
+
+      const params = new URLSearchParams();
+      if (options.width) params.append('width', options.width.toString());
+      if (options.format) params.append('format', options.format);
+
+      const response: AxiosResponse<string> = await apiClient.get(
+        `${this.BASE_PATH}/${id}/receipt?${params.toString()}`,
+        { responseType: 'text' }
+      );
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/${id}/receipt`, {
+        length: response.data.length
+      });
+
+      return response.data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/${id}/receipt`, {
+        error: error.message,
+        status: error.response?.status,
+        id
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Handle API errors consistently
+   */
+  private static handleError(error: any): Error {
+    if (error.response?.data?.message) {
+      return new Error(error.response.data.message);
+    }
+    if (error.message) {
+      return new Error(error.message);
+    }
+    return new Error('An unexpected error occurred');
+  }
+}
+
+// Export the API instance for easy importing
+export const salesInvoicesApi = SalesInvoicesApi;
@@ -4,16 +4,23 @@ import {
   StockTransactionResponse,
   StockListResponse,
   StockTransactionListResponse,
+  StockLedgerPage,
   CreateStockRequest,
   UpdateStockRequest,
   AdjustStockRequest,
   ReserveStockRequest,
   ReleaseStockRequest,
+  CancelReservationRequest,
+  StockReservationResponse,
+  StockReservationFilters,
   CreateStockTransactionRequest,
+  TransferStockRequest,
+  StockTransferResponse,
   StockFilters,
   StockTransactionFilters,
   ApiError
 } from '@/types/stock';
+import { ExportFormat } from '@/types/api';
 import { AxiosResponse } from 'axios';
 
 // Stock API
@@ -30,6 +37,7 @@ export class StockApi {
       if (filters?.search) params.append('search', filters.search);
       if (filters?.product_id) params.append('product_id', filters.product_id);
       if (filters?.category_id) params.append('category_id', filters.category_id);
+      if (filters?.location_id) params.append('location_id', filters.location_id);
       if (filters?.low_stock_threshold) params.append('low_stock_threshold', filters.low_stock_threshold.toString());
       if (filters?.page) params.append('page', filters.page.toString());
       if (filters?.limit) params.append('limit', filters.limit.toString());
@@ -50,10 +58,13 @@ export class StockApi {
   /**
    * Get stock for a specific product
    */
-  static async getStockByProductId(productId: string): Promise<StockResponse> {
+  static async getStockByProductId(productId: string, locationId?: string): Promise<StockResponse> {
     try {
+      const params = new URLSearchParams();
+      if (locationId) params.append('location_id', locationId);
+
       const response: AxiosResponse<any> = await apiClient.get(
-        `${this.BASE_PATH}/product/${productId}`
+        `${this.BASE_PATH}/product/${productId}?${params.toString()}`
       );
       
       return response.data.data || response.data;
@@ -131,7 +142,7 @@ export class StockApi {
   /**
    * Reserve stock quantity
    */
-  static async reserveStock(productId: string, data: ReserveStockRequest): Promise<StockResponse> {
+  static async reserveStock(productId: string, data: ReserveStockRequest): Promise<StockReservationResponse> {
     try {
       const response: AxiosResponse<any> = await apiClient.patch(
         `${this.BASE_PATH}/product/${productId}/reserve`,
@@ -160,6 +171,81 @@ export class StockApi {
     }
   }
 
+  /**
+   * Get stock reservations with optional filtering
+   */
+  static async getReservations(filters?: StockReservationFilters): Promise<StockReservationResponse[]> {
+    try {
+      const params = new URLSearchParams();
+      
+      if (filters?.product_id) params.append('product_id', filters.product_id);
+      if (filters?.location_id) params.append('location_id', filters.location_id);
+      if (filters?.owner_id) params.append('owner_id', filters.owner_id);
+      if (filters?.status) params.append('status', filters.status);
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/reservations?${params.toString()}`
+      );
+      
+      return response.data.data || response.data;
+    } catch (error: any) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get reservations for a specific product
+   */
+  static async getReservationsByProductId(productId: string, filters?: Omit<StockReservationFilters, 'product_id'>): Promise<StockReservationResponse[]> {
+    try {
+      const params = new URLSearchParams();
+      
+      if (filters?.location_id) params.append('location_id', filters.location_id);
+      if (filters?.owner_id) params.append('owner_id', filters.owner_id);
+      if (filters?.status) params.append('status', filters.status);
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/product/${productId}/reservations?${params.toString()}`
+      );
+      
+      return response.data.data || response.data;
+    } catch (error: any) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Cancel an active reservation, returning its quantity to available stock
+   */
+  static async cancelReservation(reservationId: string, data: CancelReservationRequest): Promise<StockReservationResponse> {
+    try {
+      const response: AxiosResponse<any> = await apiClient.patch(
+        `${this.BASE_PATH}/reservations/${reservationId}/cancel`,
+        data
+      );
+      
+      return response.data.data || response.data;
+    } catch (error: any) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Move stock between two locations
+   */
+  static async transferStock(data: TransferStockRequest): Promise<StockTransferResponse> {
+    try {
+      const response: AxiosResponse<any> = await apiClient.post(
+        `${this.BASE_PATH}/transfers`,
+        data
+      );
+      
+      return response.data.data || response.data;
+    } catch (error: any) {
+      throw this.handleError(error);
+    }
+  }
+
   /**
    * Delete stock entry
    */
@@ -171,6 +257,33 @@ export class StockApi {
     }
   }
 
+  /**
+   * Export every stock record matching the list filters as a CSV, XLSX or JSON file
+   */
+  static async exportStock(format: ExportFormat, filters?: StockFilters): Promise<Blob> {
+    try {
+      const params = new URLSearchParams();
+      params.append('format', format);
+
+      if (filters?.search) params.append('search', filters.search);
+      if (filters?.product_id) params.append('product_id', filters.product_id);
+      if (filters?.category_id) params.append('category_id', filters.category_id);
+      if (filters?.location_id) params.append('location_id', filters.location_id);
+      if (filters?.low_stock_threshold) params.append('low_stock_threshold', filters.low_stock_threshold.toString());
+      if (filters?.sort_by) params.append('sort_by', filters.sort_by);
+      if (filters?.sort_order) params.append('sort_order', filters.sort_order);
+
+      const response: AxiosResponse<Blob> = await apiClient.get(
+        `${this.BASE_PATH}/export?${params.toString()}`,
+        { responseType: 'blob' }
+      );
+
+      return response.data;
+    } catch (error: any) {
+      throw this.handleError(error);
+    }
+  }
+
   /**
    * Handle API errors
    */
@@ -202,10 +315,11 @@ export class StockTransactionsApi {
       const params = new URLSearchParams();
       
       if (filters?.product_id) params.append('product_id', filters.product_id);
+      if (filters?.location_id) params.append('location_id', filters.location_id);
       if (filters?.transaction_type) params.append('transaction_type', filters.transaction_type);
       if (filters?.reference_type) params.append('reference_type', filters.reference_type);
-      if (filters?.date_from) params.append('date_from', filters.date_from);
-      if (filters?.date_to) params.append('date_to', filters.date_to);
+      if (filters?.date_from) params.append('start_date', filters.date_from);
+      if (filters?.date_to) params.append('end_date', filters.date_to);
       if (filters?.page) params.append('page', filters.page.toString());
       if (filters?.limit) params.append('limit', filters.limit.toString());
       if (filters?.sort_by) params.append('sort_by', filters.sort_by);
@@ -221,6 +335,33 @@ export class StockTransactionsApi {
     }
   }
 
+  /**
+   * Get one page of the transaction ledger; pass the returned next_cursor to fetch the next page
+   */
+  static async getLedgerPage(filters?: Omit<StockTransactionFilters, 'page' | 'sort_by'>): Promise<StockLedgerPage> {
+    try {
+      const params = new URLSearchParams();
+      
+      if (filters?.product_id) params.append('product_id', filters.product_id);
+      if (filters?.location_id) params.append('location_id', filters.location_id);
+      if (filters?.transaction_type) params.append('transaction_type', filters.transaction_type);
+      if (filters?.reference_type) params.append('reference_type', filters.reference_type);
+      if (filters?.date_from) params.append('start_date', filters.date_from);
+      if (filters?.date_to) params.append('end_date', filters.date_to);
+      if (filters?.limit) params.append('limit', filters.limit.toString());
+      if (filters?.sort_order) params.append('sort_order', filters.sort_order);
+      if (filters?.cursor) params.append('cursor', filters.cursor);
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/ledger?${params.toString()}`
+      );
+      
+      return response.data.data || response.data;
+    } catch (error: any) {
+      throw this.handleError(error);
+    }
+  }
+
   /**
    * Get transactions for a specific product
    */
@@ -263,6 +404,34 @@ export class StockTransactionsApi {
     }
   }
 
+  /**
+   * Export every transaction matching the list filters as a CSV, XLSX or JSON file
+   */
+  static async exportTransactions(format: ExportFormat, filters?: StockTransactionFilters): Promise<Blob> {
+    try {
+      const params = new URLSearchParams();
+      params.append('format', format);
+
+      if (filters?.product_id) params.append('product_id', filters.product_id);
+      if (filters?.location_id) params.append('location_id', filters.location_id);
+      if (filters?.transaction_type) params.append('transaction_type', filters.transaction_type);
+      if (filters?.reference_type) params.append('reference_type', filters.reference_type);
+      if (filters?.date_from) params.append('start_date', filters.date_from);
+      if (filters?.date_to) params.append('end_date', filters.date_to);
+      if (filters?.sort_by) params.append('sort_by', filters.sort_by);
+      if (filters?.sort_order) params.append('sort_order', filters.sort_order);
+
+      const response: AxiosResponse<Blob> = await apiClient.get(
+        `${this.BASE_PATH}/export?${params.toString()}`,
+        { responseType: 'blob' }
+      );
+
+      return response.data;
+    } catch (error: any) {
+      throw this.handleError(error);
+    }
+  }
+
   /**
    * Handle API errors
    */
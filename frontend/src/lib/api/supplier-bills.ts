@@ -0,0 +1,258 @@
+import { apiClient } from './apiClient';
+import {
+  SupplierBillDetail,
+  SupplierBillListResponse,
+  SupplierBillFilters,
+  CreateSupplierBillRequest,
+  RecordSupplierPaymentRequest,
+  ThreeWayMatch,
+  ApAging,
+  ApAgingQuery
+} from '@/types/supplier-bills';
+import { AxiosResponse } from 'axios';
+import hackLog from '@/lib/logger';
+
+export class SupplierBillsApi {
+  private static readonly BASE_PATH = 'supplier-bills';
+
+  /**
+   * Get all supplier bills with optional filtering
+   */
+  static async getSupplierBills(filters?: SupplierBillFilters): Promise<SupplierBillListResponse> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}`, {
+        filters,
+        timestamp: new Date().toISOString()
+      });
+
+      const params = new URLSearchParams();
+
+      if (filters?.supplier_id) params.append('supplier_id', filters.supplier_id);
+      if (filters?.purchase_order_id) params.append('purchase_order_id', filters.purchase_order_id);
+      if (filters?.status) params.append('status', filters.status);
+      if (filters?.match_status) params.append('match_status', filters.match_status);
+      if (filters?.bill_date_from) params.append('bill_date_from', filters.bill_date_from);
+      if (filters?.bill_date_to) params.append('bill_date_to', filters.bill_date_to);
+      if (filters?.page) params.append('page', filters.page.toString());
+      if (filters?.limit) params.append('limit', filters.limit.toString());
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}?${params.toString()}`
+      );
+
+      const data = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}`, {
+        total: data.total,
+        count: data.data?.length
+      });
+
+      return data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}`, {
+        error: error.message,
+        status: error.response?.status,
+        filters
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get a supplier bill with its lines and payments
+   */
+  static async getSupplierBillById(id: string): Promise<SupplierBillDetail> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/${id}`, { id });
+
+      const response: AxiosResponse<any> = await apiClient.get(`${this.BASE_PATH}/${id}`);
+
+      const bill = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/${id}`, {
+        billNumber: bill.bill_number,
+        matchStatus: bill.match_status
+      });
+
+      return bill;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/${id}`, {
+        error: error.message,
+        status: error.response?.status,
+        id
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Record a supplier bill against a purchase order
+   */
+  static async createSupplierBill(data: CreateSupplierBillRequest): Promise<SupplierBillDetail> {
+    try {
+      hackLog.apiRequest('POST', `/${this.BASE_PATH}`, {
+        purchaseOrderId: data.purchase_order_id,
+        billNumber: data.bill_number,
+        itemCount: data.items.length
+      });
+
+      const response: AxiosResponse<any> = await apiClient.post(this.BASE_PATH, data);
+
+      const bill = response.data.data || response.data;
+
+      hackLog.apiSuccess('POST', `/${this.BASE_PATH}`, {
+        billId: bill.id,
+        matchStatus: bill.match_status
+      });
+
+      return bill;
+    } catch (error: any) {
+      hackLog.apiError('POST', `/${this.BASE_PATH}`, {
+        error: error.message,
+        status: error.response?.status,
+        data
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Record a payment to the supplier against a bill
+   */
+  static async recordSupplierPayment(id: string, data: RecordSupplierPaymentRequest): Promise<SupplierBillDetail> {
+    try {
+      hackLog.apiRequest('POST', `/${this.BASE_PATH}/${id}/payments`, {
+        id,
+        amount: data.amount,
+        method: data.payment_method
+      });
+
+      const response: AxiosResponse<any> = await apiClient.post(
+        `${this.BASE_PATH}/${id}/payments`,
+        data
+      );
+
+      const bill = response.data.data || response.data;
+
+      hackLog.apiSuccess('POST', `/${this.BASE_PATH}/${id}/payments`, {
+        status: bill.status,
+        amountPaid: bill.amount_paid
+      });
+
+      return bill;
+    } catch (error: any) {
+      hackLog.apiError('POST', `/${this.BASE_PATH}/${id}/payments`, {
+        error: error.message,
+        status: error.response?.status,
+        data
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Cancel a supplier bill entered in error
+   */
+  static async cancelSupplierBill(id: string): Promise<SupplierBillDetail> {
+    try {
+      hackLog.apiRequest('POST', `/${this.BASE_PATH}/${id}/cancel`, { id });
+
+      const response: AxiosResponse<any> = await apiClient.post(`${this.BASE_PATH}/${id}/cancel`);
+
+      const bill = response.data.data || response.data;
+
+      hackLog.apiSuccess('POST', `/${this.BASE_PATH}/${id}/cancel`, { id });
+
+      return bill;
+    } catch (error: any) {
+      hackLog.apiError('POST', `/${this.BASE_PATH}/${id}/cancel`, {
+        error: error.message,
+        status: error.response?.status,
+        id
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get the three-way match (ordered, received, billed) for a purchase order
+   */
+  static async getThreeWayMatch(purchaseOrderId: string): Promise<ThreeWayMatch> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/purchase-order/${purchaseOrderId}/match`, { purchaseOrderId });
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/purchase-order/${purchaseOrderId}/match`
+      );
+
+      const match = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/purchase-order/${purchaseOrderId}/match`, {
+        lines: match.lines?.length,
+        hasVariance: match.has_variance
+      });
+
+      return match;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/purchase-order/${purchaseOrderId}/match`, {
+        error: error.message,
+        status: error.response?.status,
+        purchaseOrderId
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get the accounts payable aging report (defaults to today)
+   */
+  static async getApAging(query?: ApAgingQuery): Promise<ApAging> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/reports/ap-aging`, {
+        query,
+        timestamp: new Date().toISOString()
+      });
+
+      const params = new URLSearchParams();
+
+      if (query?.as_of) params.append('as_of', query.as_of);
+      if (query?.supplier_id) params.append('supplier_id', query.supplier_id);
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/reports/ap-aging?${params.toString()}`
+      );
+
+      const data = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/reports/ap-aging`, {
+        suppliers: data.suppliers?.length,
+        total: data.totals?.total
+      });
+
+      return data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/reports/ap-aging`, {
+        error: error.message,
+        status: error.response?.status,
+        query
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Handle API errors consistently
+   */
+  private static handleError(error: any): Error {
+    if (error.response?.data?.message) {
+      return new Error(error.response.data.message);
+    }
+    if (error.message) {
+      return new Error(error.message);
+    }
+    return new Error('An unexpected error occurred');
+  }
+}
+
+// Export the API instance for easy importing
+export const supplierBillsApi = SupplierBillsApi;
@@ -0,0 +1,223 @@
+import { apiClient } from './apiClient';
+import {
+  TaxClass,
+  TaxClassListResponse,
+  CreateTaxClassRequest,
+  UpdateTaxClassRequest,
+  TaxClassFilters,
+  TaxSummary,
+  TaxSummaryQuery
+} from '@/types/taxes';
+import { AxiosResponse } from 'axios';
+import hackLog from '@/lib/logger';
+
+export class TaxClassesApi {
+  private static readonly BASE_PATH = 'tax-classes';
+
+  /**
+   * Get all tax classes with optional filtering
+   */
+  static async getTaxClasses(filters?: TaxClassFilters): Promise<TaxClassListResponse> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}`, {
+        filters,
+        timestamp: new Date().toISOString()
+      });
+
+      const params = new URLSearchParams();
+
+      if (filters?.search) params.append('search', filters.search);
+      if (filters?.is_active !== undefined) params.append('is_active', filters.is_active.toString());
+      if (filters?.page) params.append('page', filters.page.toString());
+      if (filters?.limit) params.append('limit', filters.limit.toString());
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}?${params.toString()}`
+      );
+
+      const data = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}`, {
+        total: data.total,
+        count: data.data?.length
+      });
+
+      return data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}`, {
+        error: error.message,
+        status: error.response?.status,
+        filters
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get active tax classes (lowest rate first, for dropdowns)
+   */
+  static async getActiveTaxClasses(): Promise<TaxClass[]> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/active/list`, {
+        timestamp: new Date().toISOString()
+      });
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/active/list`
+      );
+
+      const data = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/active/list`, {
+        count: data.length
+      });
+
+      return data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/active/list`, {
+        error: error.message,
+        status: error.response?.status
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get the tax summary report for a period (defaults to the current month)
+   */
+  static async getTaxSummary(query?: TaxSummaryQuery): Promise<TaxSummary> {
+    try {
+      hackLog.apiRequest('GET', `/${this.BASE_PATH}/reports/summary`, {
+        query,
+        timestamp: new Date().toISOString()
+      });
+
+      const params = new URLSearchParams();
+
+      if (query?.start_date) params.append('start_date', query.start_date);
+      if (query?.end_date) params.append('end_date', query.end_date);
+
+      const response: AxiosResponse<any> = await apiClient.get(
+        `${this.BASE_PATH}/reports/summary?${params.toString()}`
+      );
+
+      const data = response.data.data || response.data;
+
+      hackLog.apiSuccess('GET', `/${this.BASE_PATH}/reports/summary`, {
+        netTaxPayable: data.net_tax_payable
+      });
+
+      return data;
+    } catch (error: any) {
+      hackLog.apiError('GET', `/${this.BASE_PATH}/reports/summary`, {
+        error: error.message,
+        status: error.response?.status,
+        query
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Create a new tax class
+   */
+  static async createTaxClass(data: CreateTaxClassRequest): Promise<TaxClass> {
+    try {
+      hackLog.apiRequest('POST', `/${this.BASE_PATH}`, {
+        name: data.name,
+        code: data.code
+      });
+
+      const response: AxiosResponse<any> = await apiClient.post(
+        this.BASE_PATH,
+        data
+      );
+
+      const taxClassData = response.data.data || response.data;
+
+      hackLog.apiSuccess('POST', `/${this.BASE_PATH}`, {
+        taxClassId: taxClassData.id,
+        code: taxClassData.code
+      });
+
+      return taxClassData;
+    } catch (error: any) {
+      hackLog.apiError('POST', `/${this.BASE_PATH}`, {
+        error: error.message,
+        status: error.response?.status,
+        data
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Update a tax class
+   */
+  static async updateTaxClass(id: string, data: UpdateTaxClassRequest): Promise<TaxClass> {
+    try {
+      hackLog.apiRequest('PATCH', `/${this.BASE_PATH}/${id}`, {
+        id,
+        updates: Object.keys(data)
+      });
+
+      const response: AxiosResponse<any> = await apiClient.patch(
+        `${this.BASE_PATH}/${id}`,
+        data
+      );
+
+      const taxClassData = response.data.data || response.data;
+
+      hackLog.apiSuccess('PATCH', `/${this.BASE_PATH}/${id}`, {
+        taxClassId: taxClassData.id,
+        code: taxClassData.code
+      });
+
+      return taxClassData;
+    } catch (error: any) {
+      hackLog.apiError('PATCH', `/${this.BASE_PATH}/${id}`, {
+        error: error.message,
+        status: error.response?.status,
+        id,
+        data
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Delete a tax class (soft delete)
+   */
+  static async deleteTaxClass(id: string): Promise<void> {
+    try {
+      hackLog.apiRequest('DELETE', `/${this.BASE_PATH}/${id}`, { id });
+
+      await apiClient.delete(`${this.BASE_PATH}/${id}`);
+
+      hackLog.apiSuccess('DELETE', `/${this.BASE_PATH}/${id}`, { id });
+    } catch (error: any) {
+      hackLog.apiError('DELETE', `/${this.BASE_PATH}/${id}`, {
+        error: error.message,
+        status: error.response?.status,
+        id
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Handle API errors consistently
+   */
+  private static handleError(error: any): Error {
+    if (error.response?.data?.message) {
+      return new Error(error.response.data.message);
+    }
+    if (error.message) {
+      return new Error(error.message);
+    }
+    return new Error('An unexpected error occurred');
+  }
+}
+
+// Export the API instance for easy importing
+export const taxClassesApi = TaxClassesApi;
@@ -1,6 +1,52 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { Product, ProductUnit } from "@/types/inventory"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * Save a blob (e.g. a PDF from the API) to the user's downloads
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Open printable HTML in a new window and bring up the print dialog
+ */
+export function printHtml(html: string) {
+  const printWindow = window.open("", "_blank", "width=420,height=640")
+  if (!printWindow) return false
+  printWindow.document.open()
+  printWindow.document.write(html)
+  printWindow.document.close()
+  printWindow.focus()
+  printWindow.onload = () => printWindow.print()
+  return true
+}
+
+/**
+ * Units a product can be bought or sold in, base unit first
+ */
+export function productUnitOptions(product: Pick<Product, "base_unit" | "units">): ProductUnit[] {
+  return [{ code: product.base_unit, name: product.base_unit, factor: 1 }, ...(product.units ?? [])]
+}
+
+/**
+ * Price of one of the given unit, from a product price quoted per sales unit
+ */
+export function convertUnitPrice(product: Pick<Product, "base_unit" | "units" | "sales_unit">, price: number, unitCode: string) {
+  const options = productUnitOptions(product)
+  const factor = options.find(unit => unit.code === unitCode)?.factor ?? 1
+  const salesFactor = options.find(unit => unit.code === (product.sales_unit || product.base_unit))?.factor ?? 1
+  return Math.round((price * factor / salesFactor) * 100) / 100
+}
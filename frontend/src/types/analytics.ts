@@ -0,0 +1,88 @@
+// Analytics Types
+
+export type ReportGranularity = 'day' | 'week' | 'month';
+
+export interface AnalyticsQuery {
+  start_date?: string;
+  end_date?: string;
+  granularity?: ReportGranularity;
+}
+
+export interface AnalyticsOverview {
+  start_date: string;
+  end_date: string;
+  net_sales: number;
+  invoice_count: number;
+  average_invoice_value: number;
+  purchase_spend: number;
+  stock_value: number;
+  low_stock_count: number;
+  out_of_stock_count: number;
+}
+
+export interface SalesTotals {
+  invoice_count: number;
+  gross_sales: number;
+  returns: number;
+  net_sales: number;
+  tax_amount: number;
+  discount_amount: number;
+}
+
+export interface SalesPeriod extends SalesTotals {
+  period_start: string;
+}
+
+export interface SalesAnalytics {
+  start_date: string;
+  end_date: string;
+  granularity: ReportGranularity;
+  periods: SalesPeriod[];
+  totals: SalesTotals;
+}
+
+export interface TopSeller {
+  product_id: string;
+  product_name: string;
+  product_sku: string;
+  quantity_sold: number;
+  revenue: number;
+  invoice_count: number;
+}
+
+export interface TopSellers {
+  start_date: string;
+  end_date: string;
+  products: TopSeller[];
+}
+
+export interface StockValuePoint {
+  period_start: string;
+  closing_value: number;
+  change: number;
+}
+
+export interface StockValueHistory {
+  start_date: string;
+  end_date: string;
+  granularity: ReportGranularity;
+  current_value: number;
+  opening_value: number;
+  points: StockValuePoint[];
+}
+
+export interface SupplierSpend {
+  supplier_id: string;
+  supplier_name: string;
+  order_count: number;
+  total_spend: number;
+  share: number;
+}
+
+export interface PurchaseSpend {
+  start_date: string;
+  end_date: string;
+  suppliers: SupplierSpend[];
+  order_count: number;
+  total_spend: number;
+}
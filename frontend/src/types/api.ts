@@ -38,4 +38,6 @@ export interface SortParams {
   sortOrder?: 'asc' | 'desc';
 }
 
-export interface FilterParams extends PaginationParams, SortParams {}
\ No newline at end of file
+export interface FilterParams extends PaginationParams, SortParams {}
+// File formats offered by the bulk export endpoints
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
@@ -0,0 +1,43 @@
+// Inventory Costing Types
+
+export type CostingMethod = 'FIFO' | 'WEIGHTED_AVERAGE';
+
+export const COSTING_METHOD_LABELS: Record<CostingMethod, string> = {
+  FIFO: 'FIFO',
+  WEIGHTED_AVERAGE: 'Weighted average'
+};
+
+export interface InventoryValuationItem {
+  product_id: string;
+  product_name: string;
+  product_sku: string;
+  quantity: number;
+  total_value: number;
+  average_unit_cost: number;
+}
+
+export interface InventoryValuation {
+  as_of: string;
+  costing_method: CostingMethod;
+  products: InventoryValuationItem[];
+  total_quantity: number;
+  total_value: number;
+}
+
+export interface InventoryValuationQuery {
+  as_of?: string;
+}
+
+export interface CostLayer {
+  id: string;
+  product_id: string;
+  reference_type: string;
+  reference_id: string | null;
+  purchase_order_item_id: string | null;
+  sales_invoice_item_id: string | null;
+  unit_cost: number;
+  quantity_received: number;
+  quantity_remaining: number;
+  received_at: string;
+  notes: string | null;
+}
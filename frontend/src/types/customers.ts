@@ -0,0 +1,76 @@
+// Customer Types
+
+import { PaymentStatus } from './sales-invoices';
+
+export interface Customer {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  company_name: string | null;
+  tax_id: string | null;
+  billing_address: string | null;
+  shipping_address: string | null;
+  credit_limit: string | null;
+  notes: string | null;
+  is_active: boolean;
+  created_by: string;
+  created_at: string;
+  updated_by: string | null;
+  updated_at: string | null;
+}
+
+export interface CreateCustomerRequest {
+  name: string;
+  email?: string;
+  phone?: string;
+  company_name?: string;
+  tax_id?: string;
+  billing_address?: string;
+  shipping_address?: string;
+  credit_limit?: number;
+  notes?: string;
+  is_active?: boolean;
+}
+
+export interface UpdateCustomerRequest extends Partial<CreateCustomerRequest> {}
+
+export interface CustomerFilters {
+  page?: number;
+  limit?: number;
+  search?: string;
+  is_active?: boolean;
+}
+
+export interface CustomerListResponse {
+  data: Customer[];
+  total: number;
+  page: number;
+  totalPages: number;
+  limit: number;
+}
+
+export interface CustomerInvoiceSummary {
+  id: string;
+  invoice_number: string;
+  total_amount: string;
+  amount_paid: string;
+  payment_status: PaymentStatus;
+  created_at: string;
+}
+
+export interface CustomerAccount {
+  customer: Customer;
+  invoice_count: number;
+  lifetime_value: number;
+  open_balance: number;
+  available_credit: number | null;
+  first_purchase_at: string | null;
+  last_purchase_at: string | null;
+  recent_invoices: CustomerInvoiceSummary[];
+}
+
+export interface LinkInvoicesResult {
+  invoices_linked: number;
+  customers_created: number;
+}
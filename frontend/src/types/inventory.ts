@@ -1,8 +1,18 @@
 // Category Types
+export interface CategoryPathItem {
+  id: string;
+  name: string;
+}
+
 export interface Category {
   id: string;
   name: string;
+  parent_id: string | null;
+  path: CategoryPathItem[]; // Top-level category down to this one
+  path_name: string; // e.g. "Electronics > Phones > Accessories"
+  depth: number;
   description: string | null;
+  tax_class_id: string | null;
   is_active: boolean;
   created_by: string;
   created_at: string;
@@ -17,13 +27,17 @@ export interface CategoryListResponse {
 
 export interface CreateCategoryRequest {
   name: string;
+  parent_id?: string | null;
   description?: string;
+  tax_class_id?: string | null;
   is_active?: boolean;
 }
 
 export interface UpdateCategoryRequest {
   name?: string;
+  parent_id?: string | null;
   description?: string;
+  tax_class_id?: string | null;
   is_active?: boolean;
 }
 
@@ -32,6 +46,14 @@ export interface ProductCategory {
   id: string;
   name: string;
   description: string | null;
+  tax_class_id: string | null;
+}
+
+// Unit a product is bought or sold in, e.g. a case of 24
+export interface ProductUnit {
+  code: string;
+  name: string;
+  factor: number; // Base units in one of this unit
 }
 
 export interface Product {
@@ -41,11 +63,24 @@ export interface Product {
   barcode: string | null;
   category_id: string | null;
   category: ProductCategory | null;
+  tax_class_id: string | null;
   description: string | null;
   unit_price: string;
   cost_price: string | null;
   minimum_stock_level: number;
+  reorder_point: number | null;
+  target_stock_level: number | null;
+  preferred_supplier_id: string | null;
+  base_unit: string; // Unit stock is counted in
+  units: ProductUnit[] | null;
+  purchase_unit: string | null; // Default unit on purchase orders; null is the base unit
+  sales_unit: string | null; // Unit the unit price is quoted in; null is the base unit
   is_active: boolean;
+  parent_product_id: string | null; // Set on variants
+  variant_attributes: ProductVariantAttribute[] | null; // Set on parents, which are stocked and sold through their variants
+  variant_options: Record<string, string> | null; // Attribute name to value, set on variants
+  has_price_override: boolean;
+  variant_count?: number; // Only on list responses
   created_by: string;
   created_at: string;
   updated_by: string | null;
@@ -65,10 +100,18 @@ export interface CreateProductRequest {
   sku: string;
   barcode?: string;
   category_id?: string;
+  tax_class_id?: string | null;
   description?: string;
   unit_price: number;
   cost_price?: number;
   minimum_stock_level: number;
+  reorder_point?: number;
+  target_stock_level?: number;
+  preferred_supplier_id?: string;
+  base_unit?: string;
+  units?: ProductUnit[] | null;
+  purchase_unit?: string | null;
+  sales_unit?: string | null;
   is_active?: boolean;
 }
 
@@ -77,13 +120,64 @@ export interface UpdateProductRequest {
   sku?: string;
   barcode?: string;
   category_id?: string;
+  tax_class_id?: string | null;
   description?: string;
   unit_price?: number;
   cost_price?: number;
   minimum_stock_level?: number;
+  reorder_point?: number;
+  target_stock_level?: number;
+  preferred_supplier_id?: string;
+  base_unit?: string;
+  units?: ProductUnit[] | null;
+  purchase_unit?: string | null;
+  sales_unit?: string | null;
   is_active?: boolean;
 }
 
+// Product Variant Types
+export interface ProductVariantAttribute {
+  name: string;
+  values: string[];
+}
+
+export interface ProductVariantInput {
+  id?: string; // Omit for a new variant
+  options: Record<string, string>;
+  sku: string;
+  barcode?: string;
+  unit_price?: number | null; // null follows the parent price
+  is_active?: boolean;
+}
+
+export interface SaveProductVariantsRequest {
+  attributes: ProductVariantAttribute[];
+  variants: ProductVariantInput[];
+}
+
+// Product Import Types
+export interface ProductImportRow {
+  row: number; // Row number in the file, counting the header as row 1
+  sku: string | null;
+  name: string | null;
+  category_name: string | null;
+  unit_price: number | null;
+  errors: string[];
+  product_id?: string;
+}
+
+export interface ProductImportResult {
+  dry_run: boolean;
+  format: 'csv' | 'xlsx';
+  mapped_columns: Record<string, string>;
+  ignored_columns: string[];
+  total_rows: number;
+  valid_rows: number;
+  invalid_rows: number;
+  imported_rows: number;
+  rows: ProductImportRow[];
+}
+
 // Filter and Search Types
 export interface ProductFilters {
   search?: string;
@@ -93,6 +187,9 @@ export interface ProductFilters {
   max_price?: number;
   min_stock?: number;
   has_barcode?: boolean;
+  parent_product_id?: string;
+  // catalog hides variants behind their parent; sellable hides parents so only stockable products remain
+  variant_scope?: 'all' | 'catalog' | 'sellable';
   page?: number;
   limit?: number;
   sort_by?: string;
@@ -126,6 +223,7 @@ export interface ApiError {
 export interface CategoryFormData {
   name: string;
   description: string;
+  tax_class_id: string;
   is_active: boolean;
 }
 
@@ -134,6 +232,7 @@ export interface ProductFormData {
   sku: string;
   barcode: string;
   category_id: string;
+  tax_class_id: string;
   description: string;
   unit_price: string;
   cost_price: string;
@@ -0,0 +1,39 @@
+// Location Types
+
+export interface Location {
+  id: string;
+  name: string;
+  code: string;
+  address: string | null;
+  is_default: boolean;
+  is_active: boolean;
+  created_by: string;
+  created_at: string;
+  updated_by: string | null;
+  updated_at: string | null;
+}
+
+export interface CreateLocationRequest {
+  name: string;
+  code: string;
+  address?: string;
+  is_default?: boolean;
+  is_active?: boolean;
+}
+
+export interface UpdateLocationRequest extends Partial<CreateLocationRequest> {}
+
+export interface LocationFilters {
+  page?: number;
+  limit?: number;
+  search?: string;
+  is_active?: boolean;
+}
+
+export interface LocationListResponse {
+  data: Location[];
+  total: number;
+  page: number;
+  totalPages: number;
+  limit: number;
+}
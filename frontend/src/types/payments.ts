@@ -0,0 +1,102 @@
+// Payment Types
+
+import { PaymentStatus } from './sales-invoices';
+
+export type PaymentMethod = 'CASH' | 'CARD' | 'BANK_TRANSFER' | 'CHEQUE' | 'OTHER';
+
+export type PaymentType = 'PAYMENT' | 'REFUND';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  CASH: 'Cash',
+  CARD: 'Card',
+  BANK_TRANSFER: 'Bank transfer',
+  CHEQUE: 'Cheque',
+  OTHER: 'Other'
+};
+
+export interface Payment {
+  id: string;
+  sales_invoice_id: string;
+  invoice_number?: string;
+  customer_name?: string | null;
+  payment_type: PaymentType;
+  payment_method: PaymentMethod;
+  amount: string;
+  reference: string | null;
+  notes: string | null;
+  received_by: string;
+  received_at: string;
+  created_by: string;
+  created_at: string;
+}
+
+export interface RecordPaymentRequest {
+  sales_invoice_id: string;
+  payment_method: PaymentMethod;
+  amount: number;
+  reference?: string;
+  notes?: string;
+  received_at?: string;
+}
+
+export interface InvoicePaymentSummary {
+  payment: Payment;
+  payment_status: PaymentStatus;
+  amount_paid: number;
+  balance_due: number;
+}
+
+export interface PaymentFilters {
+  page?: number;
+  limit?: number;
+  sales_invoice_id?: string;
+  customer_id?: string;
+  payment_type?: PaymentType;
+  payment_method?: PaymentMethod;
+  date_from?: string;
+  date_to?: string;
+}
+
+export interface PaymentListResponse {
+  data: Payment[];
+  total: number;
+  page: number;
+  totalPages: number;
+  limit: number;
+}
+
+export interface ArAgingBuckets {
+  current: number;
+  days_31_60: number;
+  days_61_90: number;
+  days_over_90: number;
+  total: number;
+}
+
+export interface ArAgingInvoice {
+  id: string;
+  invoice_number: string;
+  created_at: string;
+  days_outstanding: number;
+  total_amount: number;
+  amount_paid: number;
+  balance_due: number;
+}
+
+export interface ArAgingCustomer {
+  customer_id: string | null;
+  customer_name: string | null;
+  buckets: ArAgingBuckets;
+  invoices: ArAgingInvoice[];
+}
+
+export interface ArAging {
+  as_of: string;
+  customers: ArAgingCustomer[];
+  totals: ArAgingBuckets;
+}
+
+export interface ArAgingQuery {
+  as_of?: string;
+  customer_id?: string;
+}
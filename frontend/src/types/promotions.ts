@@ -0,0 +1,111 @@
+// Promotion Types
+
+export type PromotionType = 'PERCENTAGE' | 'FIXED_AMOUNT' | 'BUY_X_GET_Y';
+
+export type PromotionScope = 'ALL_PRODUCTS' | 'PRODUCT' | 'CATEGORY';
+
+export interface Promotion {
+  id: string;
+  name: string;
+  description: string | null;
+  promotion_type: PromotionType;
+  scope: PromotionScope;
+  product_id: string | null;
+  category_id: string | null;
+  discount_value: string;
+  buy_quantity: number | null;
+  get_quantity: number | null;
+  min_subtotal: string | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  coupon_code: string | null;
+  usage_limit: number | null;
+  usage_count: number;
+  is_active: boolean;
+  created_by: string;
+  created_at: string;
+  updated_by: string | null;
+  updated_at: string | null;
+}
+
+export interface CreatePromotionRequest {
+  name: string;
+  description?: string;
+  promotion_type: PromotionType;
+  scope?: PromotionScope;
+  product_id?: string;
+  category_id?: string;
+  discount_value: number;
+  buy_quantity?: number;
+  get_quantity?: number;
+  min_subtotal?: number;
+  starts_at?: string;
+  ends_at?: string;
+  coupon_code?: string;
+  usage_limit?: number;
+  is_active?: boolean;
+}
+
+export interface UpdatePromotionRequest extends Partial<CreatePromotionRequest> {}
+
+export interface PromotionFilters {
+  page?: number;
+  limit?: number;
+  search?: string;
+  promotion_type?: PromotionType;
+  scope?: PromotionScope;
+  is_active?: boolean;
+}
+
+export interface PromotionListResponse {
+  data: Promotion[];
+  total: number;
+  page: number;
+  totalPages: number;
+  limit: number;
+}
+
+export interface EvaluatePromotionsRequest {
+  coupon_code?: string;
+  items: {
+    product_id: string;
+    quantity: number;
+    unit_price?: number;
+  }[];
+}
+
+export interface PromotionLineDiscount {
+  product_id: string;
+  promotion_id: string | null;
+  promotion_name: string | null;
+  discount_amount: number;
+}
+
+export interface PromotionEvaluation {
+  lines: PromotionLineDiscount[];
+  coupon_code: string | null;
+  discount_amount: number;
+}
+
+export interface PromotionSummaryLine {
+  promotion_id: string;
+  promotion_name: string;
+  coupon_code: string | null;
+  invoice_count: number;
+  line_count: number;
+  units_sold: number;
+  discount_amount: number;
+  sales_amount: number;
+}
+
+export interface PromotionSummary {
+  start_date: string;
+  end_date: string;
+  promotions: PromotionSummaryLine[];
+  total_discount: number;
+}
+
+export interface PromotionSummaryQuery {
+  start_date?: string;
+  end_date?: string;
+}
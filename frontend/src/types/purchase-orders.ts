@@ -4,6 +4,7 @@
 export enum PurchaseOrderStatus {
   PENDING = 'PENDING',
   CONFIRMED = 'CONFIRMED',
+  PARTIALLY_RECEIVED = 'PARTIALLY_RECEIVED',
   RECEIVED = 'RECEIVED',
   CANCELLED = 'CANCELLED'
 }
@@ -22,16 +23,25 @@ export interface PurchaseOrderProduct {
   name: string;
   sku: string;
   unit_price: string;
+  base_unit: string;
 }
 
 export interface PurchaseOrderItem {
   id: string;
   purchase_order_id: string;
   product: PurchaseOrderProduct;
+  unit_code: string; // Quantities and unit cost are in this unit
+  unit_factor: number; // Base units in one line unit
   quantity_ordered: number;
   quantity_received: number;
+  quantity_returned: number;
   unit_cost: string;
   total_cost: string;
+  tax_class_id: string | null;
+  tax_rate: string;
+  tax_inclusive: boolean;
+  taxable_amount: string;
+  tax_amount: string;
   created_at: string;
 }
 
@@ -43,6 +53,8 @@ export interface PurchaseOrder {
   order_date: string | null;
   expected_delivery_date: string | null;
   total_amount: string | null;
+  tax_amount: string;
+  returned_amount: string;
   notes: string | null;
   items?: PurchaseOrderItem[];
   created_by: string;
@@ -54,6 +66,7 @@ export interface PurchaseOrder {
 // API Request/Response types
 export interface CreatePurchaseOrderItemRequest {
   product_id: string;
+  unit_code?: string; // Defaults to the product's purchase unit
   quantity_ordered: number;
   quantity_received?: number;
   unit_cost: number;
@@ -80,12 +93,91 @@ export interface UpdatePurchaseOrderRequest {
 
 export interface UpdatePurchaseOrderItemRequest {
   product_id?: string;
+  unit_code?: string;
   quantity_ordered?: number;
   quantity_received?: number;
   unit_cost?: number;
   total_cost?: number;
 }
 
+export interface ReceivePurchaseOrderItemRequest {
+  purchase_order_item_id: string;
+  quantity_received: number;
+}
+
+export interface ReceivePurchaseOrderRequest {
+  items?: ReceivePurchaseOrderItemRequest[];
+  notes?: string;
+}
+
+export interface PurchaseOrderReceiptItem {
+  id: string;
+  purchase_order_item_id: string;
+  product: {
+    id: string;
+    name: string;
+    sku: string;
+    variant_options: Record<string, string> | null; // Set when the line is a product variant
+  };
+  quantity_received: number;
+}
+
+export interface PurchaseOrderReceipt {
+  id: string;
+  purchase_order_id: string;
+  received_at: string;
+  notes: string | null;
+  items: PurchaseOrderReceiptItem[];
+  created_by: string;
+}
+
+// Reorder suggestions
+export interface ReorderSuggestionItem {
+  product_id: string;
+  product_name: string;
+  product_sku: string;
+  base_unit: string; // Unit the quantities are in
+  quantity_available: number;
+  on_order: number;
+  reorder_point: number;
+  target_stock_level: number;
+  suggested_quantity: number;
+  unit_cost: number;
+  estimated_cost: number;
+  supplier_source?: 'PREFERRED' | 'LAST_PURCHASE';
+}
+
+export interface ReorderSupplierGroup {
+  supplier_id: string;
+  supplier_name: string;
+  supplier_active: boolean;
+  items: ReorderSuggestionItem[];
+  estimated_total: number;
+}
+
+export interface ReorderSuggestionsResponse {
+  groups: ReorderSupplierGroup[];
+  unassigned: ReorderSuggestionItem[];
+}
+
+export interface ReorderSuggestionFilters {
+  supplier_id?: string;
+  category_id?: string;
+}
+
+export interface ReorderDraftItemRequest {
+  product_id: string;
+  supplier_id?: string;
+  quantity?: number;
+  unit_cost?: number;
+}
+
+export interface CreateReorderDraftsRequest {
+  items?: ReorderDraftItemRequest[];
+  expected_delivery_date?: string;
+  notes?: string;
+}
+
 export interface PurchaseOrderFilters {
   supplier_id?: string;
   status?: PurchaseOrderStatus;
@@ -147,6 +239,7 @@ export interface PurchaseOrderFormData {
 export interface PurchaseOrderItemFormData {
   id?: string;
   product_id: string;
+  unit_code: string;
   quantity_ordered: number;
   quantity_received: number;
   unit_cost: number;
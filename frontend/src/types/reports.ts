@@ -0,0 +1,42 @@
+// Report Types
+
+import { AnalyticsQuery, ReportGranularity } from './analytics';
+
+export type MarginGroupBy = 'product' | 'category' | 'supplier' | 'period';
+
+export const MARGIN_GROUP_LABELS: Record<MarginGroupBy, string> = {
+  product: 'Product',
+  category: 'Category',
+  supplier: 'Supplier',
+  period: 'Period'
+};
+
+export interface MarginReportQuery extends AnalyticsQuery {
+  group_by?: MarginGroupBy;
+}
+
+export interface MarginTotals {
+  quantity_sold: number;
+  revenue: number;
+  cost_of_goods_sold: number;
+  gross_margin: number;
+  margin_percent: number | null;
+  invoice_count: number;
+}
+
+export interface MarginRow extends MarginTotals {
+  id: string | null;
+  name: string;
+  sku?: string;
+  list_price?: number;
+  cost_price?: number | null;
+}
+
+export interface MarginReport {
+  start_date: string;
+  end_date: string;
+  group_by: MarginGroupBy;
+  granularity?: ReportGranularity;
+  rows: MarginRow[];
+  totals: MarginTotals;
+}
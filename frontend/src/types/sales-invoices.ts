@@ -0,0 +1,131 @@
+// Sales Invoice Types
+
+import { PaymentMethod } from './payments';
+
+export enum PaymentStatus {
+  PENDING = 'PENDING',
+  PAID = 'PAID',
+  PARTIAL = 'PARTIAL',
+  CANCELLED = 'CANCELLED'
+}
+
+export interface SalesInvoiceItem {
+  id: string;
+  sales_invoice_id: string;
+  product: {
+    id: string;
+    name: string;
+    sku: string;
+    barcode: string | null;
+    variant_options: Record<string, string> | null; // Set when the line is a product variant
+    base_unit: string;
+  };
+  unit_code: string; // Quantities and unit price are in this unit
+  unit_factor: number; // Base units in one line unit
+  quantity: number;
+  quantity_returned: number;
+  unit_price: string;
+  total_price: string;
+  tax_class_id: string | null;
+  tax_rate: string;
+  tax_inclusive: boolean;
+  taxable_amount: string;
+  tax_amount: string;
+  promotion_id: string | null;
+  discount_amount: string;
+  cost_of_goods_sold: string;
+  created_at: string;
+}
+
+export interface SalesInvoice {
+  id: string;
+  invoice_number: string;
+  customer_id: string | null;
+  customer_name: string | null;
+  customer_email: string | null;
+  customer_phone: string | null;
+  subtotal: string;
+  tax_amount: string;
+  discount_amount: string;
+  coupon_code: string | null;
+  returned_amount: string;
+  total_amount: string;
+  amount_paid: string;
+  payment_status: PaymentStatus;
+  items?: SalesInvoiceItem[];
+  created_by: string;
+  created_at: string;
+  updated_by: string | null;
+  updated_at: string | null;
+}
+
+export interface CreateSalesInvoiceItemRequest {
+  product_id: string;
+  unit_code?: string; // Defaults to the product's sales unit
+  quantity: number;
+  unit_price?: number;
+}
+
+export interface InvoicePaymentRequest {
+  payment_method: PaymentMethod;
+  amount: number;
+  reference?: string;
+}
+
+export interface CreateSalesInvoiceRequest {
+  invoice_number?: string;
+  customer_id?: string;
+  customer_name?: string;
+  customer_email?: string;
+  customer_phone?: string;
+  discount_amount?: number;
+  coupon_code?: string;
+  amount_paid?: number;
+  payments?: InvoicePaymentRequest[];
+  items: CreateSalesInvoiceItemRequest[];
+}
+
+export interface QuoteSalesInvoiceRequest {
+  discount_amount?: number;
+  coupon_code?: string;
+  items: CreateSalesInvoiceItemRequest[];
+}
+
+export interface SalesInvoiceQuoteLine {
+  product_id: string;
+  promotion_id: string | null;
+  promotion_name: string | null;
+  promotion_amount: number; // Before tax
+  taxable_amount: number;
+  tax_amount: number;
+}
+
+// Totals exactly as creating the invoice would record them
+export interface SalesInvoiceQuote {
+  lines: SalesInvoiceQuoteLine[]; // In the order the items were sent
+  coupon_code: string | null;
+  subtotal: number;
+  promotion_amount: number;
+  discount_amount: number; // Promotions plus the requested discount
+  tax_amount: number;
+  total_amount: number;
+}
+
+export interface ReceiptOptions {
+  width?: 58 | 80;
+  format?: 'text' | 'html';
+}
+
+// Point of sale
+export type PosPaymentMethod = 'CASH' | 'CARD' | 'SPLIT';
+
+export interface PosCartLine {
+  product_id: string;
+  name: string;
+  sku: string;
+  barcode: string | null;
+  unit_code: string; // The product's sales unit, which the unit price is quoted in
+  unit_price: number;
+  quantity: number;
+  discount_percent: number;
+}
@@ -13,7 +13,16 @@ export enum StockReferenceType {
   PURCHASE = 'PURCHASE',
   SALE = 'SALE',
   ADJUSTMENT = 'ADJUSTMENT',
-  RETURN = 'RETURN'
+  RETURN = 'RETURN',
+  TRANSFER = 'TRANSFER',
+  RESERVATION = 'RESERVATION'
+}
+
+export enum StockReservationStatus {
+  ACTIVE = 'ACTIVE',
+  RELEASED = 'RELEASED',
+  CANCELLED = 'CANCELLED',
+  EXPIRED = 'EXPIRED'
 }
 
 export enum StockStatus {
@@ -25,10 +34,18 @@ export enum StockStatus {
   RESERVED = 'RESERVED',
 }
 
+// Location a stock row belongs to (populated from join)
+export interface StockLocation {
+  id: string;
+  name: string;
+  code: string;
+}
+
 // Base Stock Entity
 export interface Stock {
   id: string;
   product_id: string;
+  location_id: string;
   quantity_available: number;
   quantity_reserved: number;
   created_at: string;
@@ -70,7 +87,7 @@ export interface CreateStockRequest {
   minimum_stock_level?: number;
   maximum_stock_level?: number;
   reorder_point?: number;
-  location?: string;
+  location_id?: string;
   notes?: string;
   created_by: string;
 }
@@ -81,24 +98,31 @@ export interface UpdateStockRequest {
   minimum_stock_level?: number;
   maximum_stock_level?: number;
   reorder_point?: number;
-  location?: string;
+  location_id?: string;
   notes?: string;
   updated_by: string;
 }
 
 export interface AdjustStockRequest {
+  location_id?: string;
   quantity_change: number;
   notes?: string;
   updated_by: string;
 }
 
 export interface ReserveStockRequest {
+  location_id?: string;
+  owner_id?: string;
+  reference_type?: StockReferenceType;
+  reference_id?: string;
+  expires_at?: string;
   quantity: number;
   notes?: string;
   updated_by: string;
 }
 
 export interface ReleaseStockRequest {
+  location_id?: string;
   quantity: number;
   notes?: string;
   updated_by: string;
@@ -106,6 +130,7 @@ export interface ReleaseStockRequest {
 
 export interface CreateStockTransactionRequest {
   product_id: string;
+  location_id?: string;
   transaction_type: StockTransactionType;
   quantity: number;
   reference_type: StockReferenceType;
@@ -115,6 +140,20 @@ export interface CreateStockTransactionRequest {
   created_by: string;
 }
 
+export interface CancelReservationRequest {
+  notes?: string;
+  updated_by: string;
+}
+
+export interface TransferStockRequest {
+  product_id: string;
+  from_location_id: string;
+  to_location_id: string;
+  quantity: number;
+  notes?: string;
+  created_by: string;
+}
+
 // Alias for backward compatibility
 export interface StockTransactionCreateRequest extends CreateStockTransactionRequest {}
 
@@ -122,13 +161,14 @@ export interface StockTransactionCreateRequest extends CreateStockTransactionReq
 export interface StockResponse {
   id: string;
   product_id: string;
+  location_id: string;
   quantity_available: number;
   quantity_reserved: number;
   quantity_total: number;
   minimum_stock_level?: number;
   maximum_stock_level?: number;
   reorder_point?: number;
-  location?: string;
+  location?: StockLocation;
   notes?: string;
   created_at: string;
   updated_at: string;
@@ -144,6 +184,8 @@ export interface StockResponse {
 
 export interface StockSummary {
   product_id: string;
+  location_id?: string;
+  location?: StockLocation;
   product_name: string;
   product_sku: string;
   category_name?: string;
@@ -156,6 +198,7 @@ export interface StockSummary {
 export interface StockTransactionResponse {
   id: string;
   product_id: string;
+  location_id?: string | null;
   transaction_type: StockTransactionType;
   quantity: number;
   reference_type: StockReferenceType;
@@ -171,6 +214,36 @@ export interface StockTransactionResponse {
   };
 }
 
+export interface StockTransferResponse {
+  id: string;
+  product_id: string;
+  from_location_id: string;
+  to_location_id: string;
+  quantity: number;
+  notes?: string;
+  created_by: string;
+  created_at: string;
+  from_stock?: StockResponse;
+  to_stock?: StockResponse;
+}
+
+export interface StockReservationResponse {
+  id: string;
+  product_id: string;
+  location_id: string;
+  owner_id: string;
+  quantity: number;
+  status: StockReservationStatus;
+  reference_type?: StockReferenceType | null;
+  reference_id?: string | null;
+  expires_at?: string | null;
+  released_at?: string | null;
+  notes?: string | null;
+  created_by: string;
+  created_at: string;
+  stock?: StockResponse;
+}
+
 // Filter and Pagination Types
 export interface StockFilters {
   page?: number;
@@ -182,7 +255,7 @@ export interface StockFilters {
   category_id?: string;
   low_stock_threshold?: number;
   status?: StockStatus;
-  location?: string;
+  location_id?: string;
   low_stock?: boolean;
   out_of_stock?: boolean;
   has_reserved?: boolean;
@@ -192,16 +265,25 @@ export interface StockFilters {
   max_quantity?: number;
 }
 
+export interface StockReservationFilters {
+  product_id?: string;
+  location_id?: string;
+  owner_id?: string;
+  status?: StockReservationStatus;
+}
+
 export interface StockTransactionFilters {
   page?: number;
   limit?: number;
   sort_by?: 'created_at' | 'quantity' | 'product_name';
   sort_order?: 'asc' | 'desc';
   product_id?: string;
+  location_id?: string;
   transaction_type?: StockTransactionType;
   reference_type?: StockReferenceType;
   date_from?: string;
   date_to?: string;
+  cursor?: string;
 }
 
 // API Response Types
@@ -219,6 +301,12 @@ export interface StockTransactionListResponse {
   limit: number;
 }
 
+export interface StockLedgerPage {
+  data: StockTransactionResponse[];
+  next_cursor: string | null;
+  limit: number;
+}
+
 // Table and UI State Types
 export interface StockTableState {
   loading: boolean;
@@ -244,7 +332,7 @@ export interface StockFormData {
   minimum_stock_level?: number;
   maximum_stock_level?: number;
   reorder_point?: number;
-  location?: string;
+  location_id?: string;
   notes?: string;
 }
 
@@ -0,0 +1,168 @@
+// Supplier Bill Types
+
+import { PaymentMethod } from './payments';
+
+export type SupplierBillStatus = 'OPEN' | 'PARTIAL' | 'PAID' | 'CANCELLED';
+
+export type BillMatchStatus = 'MATCHED' | 'VARIANCE';
+
+export type MatchVariance = 'OVER_BILLED' | 'NOT_BILLED' | 'OVER_RECEIVED' | 'PRICE_VARIANCE';
+
+export interface SupplierPayment {
+  id: string;
+  supplier_bill_id: string;
+  supplier_id: string;
+  payment_method: PaymentMethod;
+  amount: string;
+  reference: string | null;
+  notes: string | null;
+  paid_by: string;
+  paid_at: string;
+  created_at: string;
+}
+
+export interface SupplierBillItem {
+  id: string;
+  purchase_order_item_id: string;
+  product_id: string;
+  product?: {
+    id: string;
+    name: string;
+    sku: string;
+  };
+  quantity_billed: number;
+  unit_cost: string;
+  total_cost: string;
+  taxable_amount: string;
+  tax_amount: string;
+  quantity_variance: number;
+  price_variance: string;
+}
+
+export interface SupplierBill {
+  id: string;
+  supplier_id: string;
+  supplier_name?: string;
+  purchase_order_id: string;
+  order_number?: string;
+  bill_number: string;
+  bill_date: string;
+  due_date: string | null;
+  subtotal: string;
+  tax_amount: string;
+  total_amount: string;
+  amount_paid: string;
+  status: SupplierBillStatus;
+  match_status: BillMatchStatus;
+  notes: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string | null;
+}
+
+export interface SupplierBillDetail extends SupplierBill {
+  items: SupplierBillItem[];
+  payments: SupplierPayment[];
+}
+
+// API Request/Response types
+export interface CreateSupplierBillItemRequest {
+  purchase_order_item_id: string;
+  quantity_billed: number;
+  unit_cost: number;
+}
+
+export interface CreateSupplierBillRequest {
+  purchase_order_id: string;
+  bill_number: string;
+  bill_date: string;
+  due_date?: string;
+  notes?: string;
+  items: CreateSupplierBillItemRequest[];
+}
+
+export interface RecordSupplierPaymentRequest {
+  payment_method: PaymentMethod;
+  amount: number;
+  reference?: string;
+  notes?: string;
+  paid_at?: string;
+}
+
+export interface SupplierBillFilters {
+  page?: number;
+  limit?: number;
+  supplier_id?: string;
+  purchase_order_id?: string;
+  status?: SupplierBillStatus;
+  match_status?: BillMatchStatus;
+  bill_date_from?: string;
+  bill_date_to?: string;
+}
+
+export interface SupplierBillListResponse {
+  data: SupplierBill[];
+  total: number;
+  page: number;
+  totalPages: number;
+  limit: number;
+}
+
+export interface ThreeWayMatchLine {
+  purchase_order_item_id: string;
+  product_id: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  quantity_billed: number;
+  ordered_unit_cost: number;
+  billed_unit_cost: number | null;
+  received_amount: number;
+  billed_amount: number;
+  variances: MatchVariance[];
+}
+
+export interface ThreeWayMatch {
+  purchase_order_id: string;
+  order_number: string;
+  lines: ThreeWayMatchLine[];
+  received_amount: number;
+  billed_amount: number;
+  has_variance: boolean;
+}
+
+export interface ApAgingBuckets {
+  current: number;
+  days_31_60: number;
+  days_61_90: number;
+  days_over_90: number;
+  total: number;
+}
+
+export interface ApAgingBill {
+  id: string;
+  bill_number: string;
+  bill_date: string;
+  due_date: string | null;
+  days_outstanding: number;
+  total_amount: number;
+  amount_paid: number;
+  balance_due: number;
+}
+
+export interface ApAgingSupplier {
+  supplier_id: string;
+  supplier_name: string;
+  buckets: ApAgingBuckets;
+  bills: ApAgingBill[];
+}
+
+export interface ApAging {
+  as_of: string;
+  suppliers: ApAgingSupplier[];
+  totals: ApAgingBuckets;
+}
+
+export interface ApAgingQuery {
+  as_of?: string;
+  supplier_id?: string;
+}
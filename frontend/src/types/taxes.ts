@@ -0,0 +1,73 @@
+// Tax Types
+
+export interface TaxClass {
+  id: string;
+  name: string;
+  code: string;
+  rate: string;
+  is_inclusive: boolean;
+  is_exempt: boolean;
+  description: string | null;
+  is_active: boolean;
+  created_by: string;
+  created_at: string;
+  updated_by: string | null;
+  updated_at: string | null;
+}
+
+export interface CreateTaxClassRequest {
+  name: string;
+  code: string;
+  rate: number;
+  is_inclusive?: boolean;
+  is_exempt?: boolean;
+  description?: string;
+  is_active?: boolean;
+}
+
+export interface UpdateTaxClassRequest extends Partial<CreateTaxClassRequest> {}
+
+export interface TaxClassFilters {
+  page?: number;
+  limit?: number;
+  search?: string;
+  is_active?: boolean;
+}
+
+export interface TaxClassListResponse {
+  data: TaxClass[];
+  total: number;
+  page: number;
+  totalPages: number;
+  limit: number;
+}
+
+export interface TaxSummaryLine {
+  tax_class_id: string | null;
+  tax_class_name: string | null;
+  tax_class_code: string | null;
+  tax_rate: number;
+  taxable_amount: number;
+  tax_amount: number;
+  line_count: number;
+}
+
+export interface TaxSummaryTotals {
+  taxable_amount: number;
+  tax_amount: number;
+}
+
+export interface TaxSummary {
+  start_date: string;
+  end_date: string;
+  sales: TaxSummaryLine[];
+  purchases: TaxSummaryLine[];
+  sales_totals: TaxSummaryTotals;
+  purchase_totals: TaxSummaryTotals;
+  net_tax_payable: number;
+}
+
+export interface TaxSummaryQuery {
+  start_date?: string;
+  end_date?: string;
+}